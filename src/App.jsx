@@ -4,6 +4,7 @@ import { lazy, Suspense } from 'react';
 // Lazy load route components for code splitting
 const Homepage = lazy(() => import("./routes/Homepage.tsx"));
 const Game = lazy(() => import("./routes/Game.tsx"));
+const MapEditor = lazy(() => import("./routes/MapEditor.tsx"));
 
 // Test with simple components first
 const SimpleReference = () => <div>Simple Reference Works</div>;
@@ -16,6 +17,7 @@ const App = () => {
           <Routes>
             <Route path="/" element={<Homepage />} />
             <Route path="/game" element={<Game />} />
+            <Route path="/editor" element={<MapEditor />} />
             <Route path="/help" element={<SimpleReference />} />
             <Route path="*" element={<div className="min-h-screen bg-gray-100 flex items-center justify-center"><p className="text-2xl font-bold text-red-600">Page Not Found</p></div>} />
           </Routes>
@@ -11,7 +11,9 @@ import {
   Activity,
   X,
   Search,
-  Filter
+  Filter,
+  Zap,
+  GitBranch
 } from 'react-feather';
 import { useSlideIn, useFadeIn, useStagger } from '../../hooks/useAnimation';
 import { useSound } from '../../hooks/useAudio';
@@ -43,6 +45,19 @@ export interface CompanionData {
   status: 'active' | 'resting' | 'playing' | 'eating' | 'learning';
   location?: string;
   isAvailable: boolean; // Can be interacted with
+  inParty?: boolean; // Following the player on the overworld
+  abilities?: CompanionAbilityOption[];
+  growthStage?: 'newborn' | 'juvenile' | 'adolescent'; // Set while still growing up
+  needs?: { label: string; value: number }[]; // 0 = satisfied, 100 = desperate
+}
+
+export interface CompanionAbilityOption {
+  id: string;
+  name: string;
+  description: string;
+  energyCost: number;
+  cooldownRemaining: number; // ms until it can be used again
+  unlocked: boolean;
 }
 
 interface CompanionListProps {
@@ -54,6 +69,10 @@ interface CompanionListProps {
   onFeedCompanion?: (companionId: string) => void;
   onPlayWithCompanion?: (companionId: string) => void;
   onTrainCompanion?: (companionId: string) => void;
+  onTogglePartyMember?: (companionId: string) => void;
+  onUseAbility?: (companionId: string, abilityId: string) => void;
+  onViewFamily?: (companionId: string) => void;
+  maxPartySize?: number;
   showEmptyState?: boolean;
 }
 
@@ -100,6 +119,10 @@ export const CompanionList: React.FC<CompanionListProps> = ({
   onFeedCompanion,
   onPlayWithCompanion,
   onTrainCompanion,
+  onTogglePartyMember,
+  onUseAbility,
+  onViewFamily,
+  maxPartySize,
   showEmptyState = true
 }) => {
   const [selectedCompanion, setSelectedCompanion] = useState<CompanionData | null>(null);
@@ -157,6 +180,11 @@ export const CompanionList: React.FC<CompanionListProps> = ({
     });
 
   const staggeredCompanions = useStagger(filteredCompanions, 100);
+  const partySize = companions.filter(companion => companion.inParty).length;
+  // The selected card is a snapshot; read party membership from the live list
+  const liveSelected = companions.find(companion => companion.id === selectedCompanion?.id);
+  const selectedInParty = liveSelected?.inParty ?? false;
+  const selectedAbilities = liveSelected?.abilities ?? [];
 
   const handleCompanionClick = (companion: CompanionData) => {
     setSelectedCompanion(companion);
@@ -176,7 +204,17 @@ export const CompanionList: React.FC<CompanionListProps> = ({
       case 'train':
         onTrainCompanion?.(companionId);
         break;
+      case 'party':
+        onTogglePartyMember?.(companionId);
+        break;
+      case 'family':
+        onViewFamily?.(companionId);
+        break;
       default:
+        if (action.startsWith('ability:')) {
+          onUseAbility?.(companionId, action.slice('ability:'.length));
+          break;
+        }
         onInteractWithCompanion?.(companionId, action);
     }
   };
@@ -254,6 +292,16 @@ export const CompanionList: React.FC<CompanionListProps> = ({
               <span className={`text-xs px-2 py-1 rounded ${STATUS_COLORS[companion.status]}`}>
                 {companion.status}
               </span>
+              {companion.inParty && (
+                <span className="text-xs px-2 py-1 rounded bg-emerald-100 text-emerald-800">
+                  in party
+                </span>
+              )}
+              {companion.growthStage && (
+                <span className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-800">
+                  {companion.growthStage}
+                </span>
+              )}
             </div>
 
             {/* Stats */}
@@ -339,6 +387,11 @@ export const CompanionList: React.FC<CompanionListProps> = ({
               <span className="text-sm text-purple-600">
                 ({companions.length} total)
               </span>
+              {maxPartySize !== undefined && (
+                <span className="text-sm text-purple-600">
+                  · Party {partySize}/{maxPartySize}
+                </span>
+              )}
             </div>
             
             <div className="flex items-center gap-2">
@@ -485,11 +538,48 @@ export const CompanionList: React.FC<CompanionListProps> = ({
                   </div>
                 </div>
 
+                {liveSelected?.needs && (
+                  <div className="grid grid-cols-5 gap-2 mb-3">
+                    {liveSelected.needs.map(need => (
+                      <div key={need.label} title={`${need.label}: ${need.value}%`}>
+                        <div className="text-[10px] text-gray-500 mb-1 truncate">{need.label}</div>
+                        <div className="w-full h-1 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className={`h-1 ${need.value >= 60 ? 'bg-red-500' : need.value >= 30 ? 'bg-yellow-500' : 'bg-green-500'} transition-all duration-300`}
+                            style={{ width: `${need.value}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {selectedCompanion.favoriteFood && (
                   <p className="text-xs text-gray-500 mb-2">
                     Favorite food: {selectedCompanion.favoriteFood}
                   </p>
                 )}
+
+                {onUseAbility && selectedAbilities.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {selectedAbilities.map(ability => (
+                      <Button
+                        key={ability.id}
+                        variant="outline"
+                        size="sm"
+                        leftIcon={<Zap size={12} />}
+                        disabled={!ability.unlocked || ability.cooldownRemaining > 0}
+                        title={ability.unlocked ? ability.description : 'Unlocks with a stronger bond'}
+                        onClick={() => handleAction(selectedCompanion.id, `ability:${ability.id}`)}
+                      >
+                        {ability.name}
+                        {ability.cooldownRemaining > 0
+                          ? ` (${Math.ceil(ability.cooldownRemaining / 1000)}s)`
+                          : ability.energyCost > 0 && ` · ${ability.energyCost}⚡`}
+                      </Button>
+                    ))}
+                  </div>
+                )}
               </div>
               
               {/* Action Buttons */}
@@ -522,6 +612,26 @@ export const CompanionList: React.FC<CompanionListProps> = ({
                     </Button>
                   </>
                 )}
+                {onTogglePartyMember && (
+                  <Button
+                    variant={selectedInParty ? 'outline' : 'primary'}
+                    size="sm"
+                    leftIcon={<Users size={14} />}
+                    onClick={() => handleAction(selectedCompanion.id, 'party')}
+                  >
+                    {selectedInParty ? 'Leave Party' : 'Join Party'}
+                  </Button>
+                )}
+                {onViewFamily && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    leftIcon={<GitBranch size={14} />}
+                    onClick={() => handleAction(selectedCompanion.id, 'family')}
+                  >
+                    Family
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -21,6 +21,7 @@ import {
   Zap as Sparkles
 } from 'react-feather';
 import { TutorialConfig, createTutorialStep } from './Tutorial';
+import type { GameEventTable } from '../../game/GameEvents';
 
 // Comprehensive tutorial steps for all game features
 export const COMPREHENSIVE_TUTORIAL_STEPS = {
@@ -764,6 +765,16 @@ export const TUTORIAL_CATEGORIES = {
   advanced: ['trick_mastery', 'competition_mastery', 'advanced_features', 'seasonal_mastery', 'breeding_mastery', 'habitat_mastery', 'endgame_mastery']
 };
 
+// Tutorials worth offering the first time each gameplay event happens
+export const TUTORIAL_TRIGGERS: GameEventTable<string> = {
+  'animal.encountered': 'taming_fundamentals',
+  'trick.learned': 'trick_mastery',
+  'map.entered': 'exploration_mastery',
+  'resource.gathered': 'inventory_mastery',
+  'achievement.completed': 'progression_mastery',
+  'performance.completed': 'competition_mastery'
+};
+
 // Tutorial unlock progression
 export const TUTORIAL_PROGRESSION = {
   // Level 1 - Basics
@@ -0,0 +1,94 @@
+// Ecosystem Debug Panel
+// Charts each species' population on the current map over recent game hours
+
+import React, { useState } from 'react';
+import { TrendingUp, X } from 'react-feather';
+import type { EcosystemSpecies, PopulationSample } from '../../game/EcosystemSystem';
+import { FOOD_WEB } from '../../game/EcosystemSystem';
+
+interface EcosystemPanelProps {
+  history: PopulationSample[];
+  onClose?: () => void;
+}
+
+const CHART_WIDTH = 260;
+const CHART_HEIGHT = 110;
+
+const LINE_COLORS = [
+  '#f87171', '#fbbf24', '#34d399', '#60a5fa', '#a78bfa',
+  '#f472b6', '#fb923c', '#a3e635', '#22d3ee', '#e879f9'
+];
+
+export const EcosystemPanel: React.FC<EcosystemPanelProps> = ({ history, onClose }) => {
+  const [hidden, setHidden] = useState<EcosystemSpecies[]>([]);
+
+  const latest = history[history.length - 1];
+  const species = latest ? (Object.keys(latest.totals) as EcosystemSpecies[]) : [];
+  const visible = species.filter(name => !hidden.includes(name));
+  const peak = Math.max(1, ...history.flatMap(sample => visible.map(name => sample.totals[name] || 0)));
+
+  const toggle = (name: EcosystemSpecies) => {
+    setHidden(current => current.includes(name) ? current.filter(entry => entry !== name) : [...current, name]);
+  };
+
+  const getPoints = (name: EcosystemSpecies) => history.map((sample, index) => {
+    const x = history.length > 1 ? (index / (history.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2;
+    const y = CHART_HEIGHT - ((sample.totals[name] || 0) / peak) * CHART_HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <div className="bg-black bg-opacity-80 text-white rounded-lg p-4 font-mono text-xs space-y-2 w-72">
+      <div className="flex items-center justify-between text-green-400 mb-2">
+        <div className="flex items-center space-x-2">
+          <TrendingUp className="w-4 h-4" />
+          <span className="font-bold">Ecosystem</span>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {history.length === 0 ? (
+        <div className="text-gray-400">Populations are sampled every game hour.</div>
+      ) : (
+        <>
+          <div className="text-gray-400">
+            Day {history[0].day} {history[0].hour}:00 – Day {latest.day} {latest.hour}:00
+          </div>
+          <svg width={CHART_WIDTH} height={CHART_HEIGHT} className="bg-white bg-opacity-5 rounded">
+            {species.map((name, index) => !hidden.includes(name) && (
+              <polyline
+                key={name}
+                points={getPoints(name)}
+                fill="none"
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={FOOD_WEB[name] ? 2 : 1.25}
+              />
+            ))}
+          </svg>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {species.map((name, index) => (
+              <button
+                key={name}
+                onClick={() => toggle(name)}
+                className={`flex items-center justify-between text-left ${hidden.includes(name) ? 'opacity-40' : ''}`}
+              >
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: LINE_COLORS[index % LINE_COLORS.length] }} />
+                  {name}{FOOD_WEB[name] && ' ▲'}
+                </span>
+                <span>{Math.round(latest.totals[name] || 0)}</span>
+              </button>
+            ))}
+          </div>
+          <div className="text-gray-500">▲ predator · tap a species to hide it</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EcosystemPanel;
@@ -18,7 +18,7 @@ import { useSlideIn, useFadeIn } from '../../hooks/useAnimation';
 import { useSound } from '../../hooks/useAudio';
 import Button from '../ui/Button';
 import { Animal } from '../../game/Animal';
-import { EncounterAnimal, EncounterAnimalManager, TrickResult, TamingResult } from '../../game/EncounterAnimal';
+import { EncounterAnimal, EncounterAnimalManager, EncounterController, EncounterTamingMethod, TrickResult, TamingResult } from '../../game/EncounterAnimal';
 import { TrickDefinition } from '../../data/tricks';
 import TrickSelectionMenu from './TrickSelectionMenu';
 import TamingMethodMenu from './TamingMethodMenu';
@@ -33,6 +33,7 @@ interface EnhancedEncounterInterfaceProps {
   onItemUsed: (itemId: string) => void;
   onFlee: () => void;
   onClose: () => void;
+  encounterController?: EncounterController; // owns the encounter when given, e.g. the world simulation
   isVisible: boolean;
 }
 
@@ -55,6 +56,7 @@ export const EnhancedEncounterInterface: React.FC<EnhancedEncounterInterfaceProp
   onItemUsed,
   onFlee,
   onClose,
+  encounterController,
   isVisible
 }) => {
   const [encounterAnimal, setEncounterAnimal] = useState<EncounterAnimal | null>(null);
@@ -74,7 +76,9 @@ export const EnhancedEncounterInterface: React.FC<EnhancedEncounterInterfaceProp
   // Initialize encounter animal
   useEffect(() => {
     if (isVisible && animal && !encounterAnimal) {
-      const newEncounterAnimal = EncounterAnimalManager.createEncounterAnimal(animal, animal.position);
+      const newEncounterAnimal = 'encounter' in animal
+        ? animal as EncounterAnimal
+        : EncounterAnimalManager.createEncounterAnimal(animal, animal.position);
       setEncounterAnimal(newEncounterAnimal);
       
       addFeedback('info', `A wild ${animal.species} appears!`, 
@@ -131,7 +135,11 @@ export const EnhancedEncounterInterface: React.FC<EnhancedEncounterInterfaceProp
       onEnergyUsed(trick.energyCost);
       
       // Perform trick
-      const { animal: updatedAnimal, result } = EncounterAnimalManager.performTrick(encounterAnimal, trick);
+      const outcome = encounterController
+        ? encounterController.performTrick(trick.id)
+        : EncounterAnimalManager.performTrick(encounterAnimal, trick);
+      if (!outcome) throw new Error('The encounter is already over');
+      const { animal: updatedAnimal, result } = outcome;
 
       // Update local state
       setEncounterAnimal(updatedAnimal);
@@ -159,7 +167,7 @@ export const EnhancedEncounterInterface: React.FC<EnhancedEncounterInterfaceProp
     }
   };
 
-  const handleTamingMethodSelected = async (method: any) => {
+  const handleTamingMethodSelected = async (method: EncounterTamingMethod) => {
     if (!encounterAnimal || isProcessingAction) return;
 
     setIsProcessingAction(true);
@@ -175,7 +183,11 @@ export const EnhancedEncounterInterface: React.FC<EnhancedEncounterInterfaceProp
       }
       
       // Use taming method
-      const { animal: updatedAnimal, result } = EncounterAnimalManager.useTamingMethod(encounterAnimal, method);
+      const outcome = encounterController
+        ? encounterController.applyTamingMethod(method)
+        : EncounterAnimalManager.applyTamingMethod(encounterAnimal, method);
+      if (!outcome) throw new Error('The encounter is already over');
+      const { animal: updatedAnimal, result } = outcome;
 
       // Update local state
       setEncounterAnimal(updatedAnimal);
@@ -207,19 +219,7 @@ export const EnhancedEncounterInterface: React.FC<EnhancedEncounterInterfaceProp
     if (!encounterAnimal) return;
     
     // Convert encounter animal back to regular animal and mark as tamed
-    const { encounter, ...baseAnimal } = encounterAnimal;
-    const tamedAnimal: Animal = {
-      ...baseAnimal,
-      discoveredByPlayer: true,
-      interactionCount: encounter.interactionCount
-    };
-    
-    // Update trust in stats
-    if (tamedAnimal.stats) {
-      tamedAnimal.stats.trust = encounter.affection;
-    }
-    
-    onAnimalTamed(tamedAnimal);
+    onAnimalTamed(EncounterAnimalManager.toTamedAnimal(encounterAnimal));
     addFeedback('success', 'Congratulations!', `The ${animal.species} is now your companion!`);
     
     setTimeout(() => {
@@ -0,0 +1,191 @@
+import React from 'react';
+import { animated } from '@react-spring/web';
+import { GitBranch, X, Heart, Play, Feather, Moon } from 'react-feather';
+import { useSlideIn, useFadeIn } from '../../hooks/useAnimation';
+import { useSound } from '../../hooks/useAudio';
+import Button from '../ui/Button';
+import type { FamilyTreeNode, LineageRecord, JuvenileState, CareAction } from '../../game/BreedingSystem';
+import { RARE_VARIANTS } from '../../game/RareAnimals';
+
+interface FamilyTreeProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tree: FamilyTreeNode | null;
+  offspring: LineageRecord[];
+  juvenile?: JuvenileState | null;
+  onCare?: (action: CareAction) => void;
+  onSelectAnimal?: (animalId: string) => void;
+}
+
+const SPECIES_EMOJIS: Record<string, string> = {
+  rabbit: '🐰',
+  bird: '🐦',
+  squirrel: '🐿️',
+  fox: '🦊',
+  deer: '🦌',
+  butterfly: '🦋',
+  frog: '🐸',
+  turtle: '🐢',
+  owl: '🦉',
+  mouse: '🐭',
+  hedgehog: '🦔',
+  bat: '🦇',
+  otter: '🦦',
+  wolf: '🐺',
+  bear: '🐻'
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  newborn: 'Newborn',
+  juvenile: 'Juvenile',
+  adolescent: 'Adolescent',
+  adult: 'Adult'
+};
+
+const CARE_ACTIONS: { action: CareAction; label: string; icon: React.ReactNode }[] = [
+  { action: 'feed', label: 'Feed', icon: <Heart size={14} /> },
+  { action: 'play', label: 'Play', icon: <Play size={14} /> },
+  { action: 'groom', label: 'Groom', icon: <Feather size={14} /> },
+  { action: 'rest', label: 'Rest', icon: <Moon size={14} /> }
+];
+
+export const FamilyTree: React.FC<FamilyTreeProps> = ({
+  isOpen,
+  onClose,
+  tree,
+  offspring,
+  juvenile,
+  onCare,
+  onSelectAnimal
+}) => {
+  const { playButtonClick } = useSound();
+  const slideInStyle = useSlideIn(isOpen, 'up');
+  const fadeInStyle = useFadeIn(isOpen);
+
+  if (!isOpen) return null;
+
+  const getDisplayName = (record: LineageRecord) =>
+    record.name || record.species.charAt(0).toUpperCase() + record.species.slice(1);
+
+  const renderMember = (record: LineageRecord, highlight = false) => (
+    <button
+      key={record.animalId}
+      onClick={() => {
+        playButtonClick();
+        onSelectAnimal?.(record.animalId);
+      }}
+      className={`flex flex-col items-center rounded-lg border-2 px-3 py-2 min-w-[96px] transition-colors ${
+        highlight ? 'border-purple-400 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-200'
+      }`}
+    >
+      <span className="text-2xl">{SPECIES_EMOJIS[record.species] || '🐾'}</span>
+      <span className="text-sm font-semibold text-gray-800">{getDisplayName(record)}</span>
+      <span className="text-xs text-gray-500">
+        {record.personality.primary}
+        {record.personality.secondary && ` · ${record.personality.secondary}`}
+      </span>
+      {record.variantId && RARE_VARIANTS[record.variantId] && (
+        <span className="text-xs text-amber-600">✨ {RARE_VARIANTS[record.variantId].name}</span>
+      )}
+      <span className="text-[10px] text-gray-400">
+        {record.generation === 0 ? 'Tamed' : `Generation ${record.generation + 1}`}
+      </span>
+    </button>
+  );
+
+  // Oldest generation first, so the tree reads top to bottom
+  const ancestorRows: LineageRecord[][] = [];
+  let row = tree ? tree.parents : [];
+  while (row.length > 0) {
+    ancestorRows.unshift(row.map(node => node.record));
+    row = row.flatMap(node => node.parents);
+  }
+
+  return (
+    <animated.div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      style={fadeInStyle}
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <animated.div
+        className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border-4 border-purple-200"
+        style={slideInStyle}
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-purple-100 to-pink-100 p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <GitBranch className="text-purple-600" size={24} />
+            <h2 className="text-xl font-bold text-purple-800">
+              {tree ? `${getDisplayName(tree.record)}'s Family` : 'Family'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!tree ? (
+          <div className="p-8 text-center text-gray-500">
+            <p className="text-lg mb-2">No family yet</p>
+            <p className="text-sm">Bring two companions of the same species to a nest or den to start a family line.</p>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            {/* Ancestors */}
+            {ancestorRows.map((records, index) => (
+              <div key={index} className="flex flex-wrap justify-center gap-2">
+                {records.map(record => renderMember(record))}
+              </div>
+            ))}
+
+            {/* This companion */}
+            <div className="flex justify-center">{renderMember(tree.record, true)}</div>
+
+            {/* Offspring */}
+            {offspring.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-600 text-center mb-2">Offspring</h3>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {offspring.map(record => renderMember(record))}
+                </div>
+              </div>
+            )}
+
+            {/* Raising a juvenile */}
+            {juvenile && (
+              <div className="border-t border-gray-200 pt-4">
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-semibold text-gray-700">{STAGE_LABELS[juvenile.stage]}</span>
+                  <span className="text-gray-500">{Math.floor(juvenile.growth)}% grown</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
+                  <div
+                    className="bg-purple-500 h-2 rounded-full transition-all"
+                    style={{ width: `${juvenile.growth}%` }}
+                  />
+                </div>
+                {onCare && (
+                  <div className="flex flex-wrap gap-2 justify-center">
+                    {CARE_ACTIONS.map(({ action, label, icon }) => (
+                      <Button
+                        key={action}
+                        variant="outline"
+                        size="sm"
+                        leftIcon={icon}
+                        onClick={() => onCare(action)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </animated.div>
+    </animated.div>
+  );
+};
+
+export default FamilyTree;
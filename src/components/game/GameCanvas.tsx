@@ -6,6 +6,13 @@ import { dialogueSystem } from '../../game/DialogueSystem';
 import { useGameStore } from '../../stores/gameStore';
 import { createPlayerAnimations, PlayerAnimations } from '../../game/PlayerAnimations';
 import { createAnimalAnimations, AnimalAnimations } from '../../game/AnimalAnimations';
+import EnvironmentRenderer from '../../game/EnvironmentRenderer';
+import { useSound } from '../../hooks/useAudio';
+import { weatherSystem } from '../../game/WeatherSystem';
+import { partySystem } from '../../game/PartySystem';
+import { createEffectsSystem, EffectsSystem } from '../../game/Effects';
+import { createVisualFeedbackSystem, VisualFeedbackSystem } from '../../game/VisualFeedback';
+import { companionAbilitySystem } from '../../game/CompanionAbilitySystem';
 
 interface GameCanvasProps {
   width?: number;
@@ -20,6 +27,7 @@ interface GameCanvasProps {
   showGrid?: boolean;
   currentMap?: any; // GameMap type - will be properly typed later
   animals?: Animal[];
+  getAnimalRenderPosition?: (animal: Animal) => { x: number; y: number }; // smoothed position between AI turns
   onAnimalClick?: (animal: Animal) => void;
 }
 
@@ -35,11 +43,16 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   movementPath = [],
   showGrid = true,
   currentMap = null,
-  animals = []
+  animals = [],
+  getAnimalRenderPosition
 }) => {
   const dialogueState = useGameStore((state) => state.uiState.dialogueState);
   const setDialogueState = useGameStore((state) => state.setDialogueState);
   const clearDialogue = useGameStore((state) => state.clearDialogue);
+  const inventory = useGameStore((state) => state.playerState.inventory);
+  const addToInventory = useGameStore((state) => state.addToInventory);
+  const removeFromInventory = useGameStore((state) => state.removeFromInventory);
+  const { playSound } = useSound();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const animationRef = useRef<number>();
@@ -55,6 +68,36 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   // Animation systems
   const playerAnimations = useRef<PlayerAnimations | null>(null);
   const animalAnimations = useRef<AnimalAnimations | null>(null);
+  const environmentRenderer = useRef<EnvironmentRenderer | null>(null);
+  const effectsSystem = useRef<EffectsSystem | null>(null);
+  const visualFeedback = useRef<VisualFeedbackSystem | null>(null);
+
+  // Let dialogue conditions see what the player is carrying
+  useEffect(() => {
+    dialogueSystem.setContext({
+      hasItem: (itemId, quantity) =>
+        inventory
+          .filter(item => item.id === itemId)
+          .reduce((total, item) => total + (typeof item.quantity === 'number' ? item.quantity : 1), 0) >= quantity
+    });
+  }, [inventory]);
+
+  // Apply inventory changes triggered from dialogue
+  useEffect(() => {
+    dialogueSystem.setCallbacks({
+      onEvent: (event) => {
+        const itemId = event.data?.item;
+        if (typeof itemId !== 'string') return;
+
+        if (event.type === 'item_received') {
+          addToInventory({ id: itemId, name: itemId.replace(/_/g, ' ') });
+        } else if (event.type === 'consume_item') {
+          const quantity = event.data?.quantity;
+          removeFromInventory(itemId, typeof quantity === 'number' ? quantity : 1);
+        }
+      }
+    });
+  }, [addToInventory, removeFromInventory]);
 
   // Dialogue handlers
   const handleDialogueOptionSelect = useCallback((optionId: string) => {
@@ -89,6 +132,23 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     if (!animalAnimations.current) {
       animalAnimations.current = createAnimalAnimations();
     }
+    if (!environmentRenderer.current) {
+      environmentRenderer.current = new EnvironmentRenderer();
+    }
+    if (!effectsSystem.current) {
+      effectsSystem.current = createEffectsSystem();
+      visualFeedback.current = createVisualFeedbackSystem(effectsSystem.current);
+      companionAbilitySystem.setVisualFeedback(visualFeedback.current);
+    }
+
+    return () => {
+      environmentRenderer.current?.dispose();
+      environmentRenderer.current = null;
+      companionAbilitySystem.setVisualFeedback(null);
+      effectsSystem.current?.clearAllEffects();
+      effectsSystem.current = null;
+      visualFeedback.current = null;
+    };
   }, []);
 
   // Update player animations when position changes
@@ -103,12 +163,16 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         
         // Start movement animation from previous position to new position
         playerAnimations.current.startMovement(playerPosition);
+
+        const terrain = currentMap?.getTile(playerPosition.x, playerPosition.y)?.terrainType || 'grass';
+        const surface = currentMap ? weatherSystem.getFootstepSurface(currentMap.getMetadata().id) : 'dry';
+        playSound(surface === 'dry' ? `footstep_${terrain}` : `footstep_${terrain}_${surface}`, { volume: 0.4 });
       }
       
       // Update the ref for next comparison
       prevPlayerPosition.current = playerPosition;
     }
-  }, [playerPosition]);
+  }, [playerPosition, currentMap, playSound]);
 
   // Handle canvas resizing
   const updateCanvasSize = useCallback(() => {
@@ -342,10 +406,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   }, [currentMap, dimensions, TILE_SIZE, camera]);
 
   // Animal rendering function
-  const renderAnimals = useCallback((ctx: CanvasRenderingContext2D, currentTime: number) => {
-    if (!animals || animals.length === 0) return;
+  const renderAnimals = useCallback((ctx: CanvasRenderingContext2D, currentTime: number, animalList: Animal[] = animals) => {
+    if (!animalList || animalList.length === 0) return;
 
-    for (const animal of animals) {
+    for (const animal of animalList) {
       if (!animal.isActive) continue;
 
       // Convert animal position to screen coordinates
@@ -695,8 +759,17 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.fill();
       }
       
-      // Draw animals
-      renderAnimals(ctx, currentTime);
+      // Draw animals, gliding between AI turns when their simulation provides positions
+      renderAnimals(ctx, currentTime, getAnimalRenderPosition
+        ? animals.map(animal => ({ ...animal, position: getAnimalRenderPosition(animal) }))
+        : animals);
+
+      // Draw party companions at their interpolated positions behind the player
+      renderAnimals(ctx, currentTime, partySystem.getRenderStates().map(state => ({
+        ...state.animal,
+        position: state.position,
+        ai: { ...state.animal.ai, currentState: state.isMoving ? 'wandering' : 'idle' }
+      })));
       
       // Draw animated player character
       if (playerAnimations.current) {
@@ -767,6 +840,18 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.arc(playerScreenX + 5, playerScreenY - 5 + bounce, 1.5, 0, Math.PI * 2);
         ctx.fill();
       }
+
+      // Ability and interaction effects on top of the world
+      const deltaTime = currentTime - lastTime.current;
+      effectsSystem.current?.update(deltaTime);
+      visualFeedback.current?.update(deltaTime);
+      visualFeedback.current?.renderHighlights(ctx, camera, TILE_SIZE);
+      effectsSystem.current?.render(ctx, camera);
+      
+      // Weather and time-of-day lighting over the world, under the debug overlay
+      environmentRenderer.current?.renderWeatherOverlay(ctx, dimensions.width, dimensions.height, deltaTime);
+      environmentRenderer.current?.renderLightingOverlay(ctx);
+      visualFeedback.current?.renderOverlay(ctx, dimensions.width, dimensions.height);
       
       // Debug info
       ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
@@ -791,7 +876,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [dimensions, isPaused, fps, playerPosition, movementTarget, movementPath, showGrid, currentMap, renderMapTerrain, camera, renderAnimals, animals]);
+  }, [dimensions, isPaused, fps, playerPosition, movementTarget, movementPath, showGrid, currentMap, renderMapTerrain, camera, renderAnimals, animals, getAnimalRenderPosition]);
 
   return (
     <div 
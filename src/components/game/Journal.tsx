@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { animated } from '@react-spring/web';
+import { Book, X, CheckCircle, Circle, GitBranch } from 'react-feather';
+import { useSlideIn, useFadeIn } from '../../hooks/useAnimation';
+import { useSound } from '../../hooks/useAudio';
+import Button from '../ui/Button';
+import type { QuestJournalEntry, QuestReward } from '../../game/QuestSystem';
+import { ITEM_DATABASE } from '../../game/InventorySystem';
+
+interface JournalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  active: QuestJournalEntry[];
+  completed: QuestJournalEntry[];
+  onChooseBranch: (questId: string, branchId: string) => void;
+}
+
+type JournalTab = 'active' | 'completed';
+
+const describeReward = (reward?: QuestReward): string | null => {
+  if (!reward) return null;
+  const parts = (reward.items || []).map(item => `${ITEM_DATABASE[item.id]?.name || item.id}${item.quantity > 1 ? ` ×${item.quantity}` : ''}`);
+  if (reward.experience) {
+    parts.unshift('experience');
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+export const Journal: React.FC<JournalProps> = ({
+  isOpen,
+  onClose,
+  active,
+  completed,
+  onChooseBranch
+}) => {
+  const [tab, setTab] = useState<JournalTab>('active');
+  const { playButtonClick } = useSound();
+  const slideInStyle = useSlideIn(isOpen, 'up');
+  const fadeInStyle = useFadeIn(isOpen);
+
+  if (!isOpen) return null;
+
+  const entries = tab === 'active' ? active : completed;
+
+  const selectTab = (next: JournalTab) => {
+    playButtonClick();
+    setTab(next);
+  };
+
+  const renderEntry = ({ quest, progress }: QuestJournalEntry) => {
+    const rewards = describeReward(quest.rewards);
+    const choice = quest.branches?.find(branch => branch.id === progress.choice);
+
+    return (
+      <div
+        key={quest.id}
+        className={`rounded-lg border-2 p-3 space-y-2 ${
+          quest.category === 'story' ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-white'
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="font-semibold text-gray-800">{quest.title}</h3>
+          <span className="text-xs uppercase tracking-wide text-gray-500">{quest.category}</span>
+        </div>
+        <p className="text-sm text-gray-600">{quest.description}</p>
+
+        <ul className="space-y-1">
+          {quest.objectives.map(objective => {
+            const target = objective.count || 1;
+            const current = progress.progress[objective.id] || 0;
+            const done = progress.status === 'completed' || current >= target;
+            return (
+              <li key={objective.id} className={`flex items-center gap-2 text-sm ${done ? 'text-green-700' : 'text-gray-700'}`}>
+                {done ? <CheckCircle size={14} /> : <Circle size={14} />}
+                <span className="flex-1">{objective.description}</span>
+                {target > 1 && <span className="text-xs text-gray-500">{Math.min(current, target)}/{target}</span>}
+              </li>
+            );
+          })}
+        </ul>
+
+        {progress.status === 'choosing' && quest.branches && (
+          <div className="space-y-2 pt-1">
+            <p className="text-sm font-medium text-amber-700 flex items-center gap-1">
+              <GitBranch size={14} /> Choose your path
+            </p>
+            {quest.branches.map(branch => (
+              <Button
+                key={branch.id}
+                variant="outline"
+                size="sm"
+                fullWidth
+                onClick={() => onChooseBranch(quest.id, branch.id)}
+              >
+                <span className="text-left">
+                  <span className="block font-semibold">{branch.label}</span>
+                  <span className="block text-xs text-gray-500">{branch.description}</span>
+                </span>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {choice && (
+          <p className="text-xs text-amber-700 flex items-center gap-1">
+            <GitBranch size={12} /> {choice.label}
+          </p>
+        )}
+
+        {rewards && progress.status !== 'completed' && (
+          <p className="text-xs text-gray-500">Rewards: {rewards}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <animated.div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      style={fadeInStyle}
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <animated.div
+        className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto border-4 border-amber-200"
+        style={slideInStyle}
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-100 to-yellow-100 p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Book className="text-amber-600" size={24} />
+            <h2 className="text-xl font-bold text-amber-800">Journal</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex border-b border-gray-200">
+          {(['active', 'completed'] as JournalTab[]).map(name => (
+            <button
+              key={name}
+              onClick={() => selectTab(name)}
+              className={`flex-1 py-2 text-sm font-medium capitalize ${
+                tab === name ? 'text-amber-700 border-b-2 border-amber-500' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {name} ({name === 'active' ? active.length : completed.length})
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 space-y-3">
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">
+              {tab === 'active' ? 'No quests right now. Keep exploring!' : 'No quests completed yet.'}
+            </p>
+          ) : (
+            entries.map(renderEntry)
+          )}
+        </div>
+      </animated.div>
+    </animated.div>
+  );
+};
+
+export default Journal;
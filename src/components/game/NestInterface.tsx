@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { animated } from '@react-spring/web';
+import { Home, X, Heart } from 'react-feather';
+import { useSlideIn, useFadeIn } from '../../hooks/useAnimation';
+import { useSound } from '../../hooks/useAudio';
+import Button from '../ui/Button';
+import type { Animal } from '../../game/Animal';
+import type { BreedingCheck } from '../../game/BreedingSystem';
+
+interface NestInterfaceProps {
+  isOpen: boolean;
+  onClose: () => void;
+  description?: string;
+  species: string[]; // species that settle at this nest
+  companions: Animal[];
+  checkPair: (parentAId: string, parentBId: string) => BreedingCheck;
+  onBreed: (parentAId: string, parentBId: string) => void;
+}
+
+export const NestInterface: React.FC<NestInterfaceProps> = ({
+  isOpen,
+  onClose,
+  description,
+  species,
+  companions,
+  checkPair,
+  onBreed
+}) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const { playButtonClick } = useSound();
+  const slideInStyle = useSlideIn(isOpen, 'up');
+  const fadeInStyle = useFadeIn(isOpen);
+
+  // Start with a fresh choice each time the nest is visited
+  useEffect(() => {
+    if (isOpen) {
+      setSelected([]);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const candidates = companions.filter(companion => species.includes(companion.species));
+  const check = selected.length === 2 ? checkPair(selected[0], selected[1]) : null;
+
+  const toggle = (animalId: string) => {
+    playButtonClick();
+    setSelected(current => {
+      if (current.includes(animalId)) {
+        return current.filter(id => id !== animalId);
+      }
+      // Keep the most recent two picks
+      return [...current, animalId].slice(-2);
+    });
+  };
+
+  const getName = (animal: Animal) =>
+    animal.name || animal.species.charAt(0).toUpperCase() + animal.species.slice(1);
+
+  return (
+    <animated.div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      style={fadeInStyle}
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <animated.div
+        className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto border-4 border-green-200"
+        style={slideInStyle}
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-green-100 to-yellow-100 p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Home className="text-green-600" size={24} />
+            <h2 className="text-xl font-bold text-green-800">Nesting Spot</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {description && <p className="text-sm text-gray-600">{description}</p>}
+          <p className="text-xs text-gray-500">
+            Settles here: {species.join(', ')}
+          </p>
+
+          {candidates.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">
+              None of your companions would settle here.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {candidates.map(companion => (
+                <button
+                  key={companion.id}
+                  onClick={() => toggle(companion.id)}
+                  className={`rounded-lg border-2 p-2 text-left transition-colors ${
+                    selected.includes(companion.id)
+                      ? 'border-green-400 bg-green-50'
+                      : 'border-gray-200 hover:border-green-200'
+                  }`}
+                >
+                  <div className="font-semibold text-sm text-gray-800">{getName(companion)}</div>
+                  <div className="text-xs text-gray-500 capitalize">{companion.species}</div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {check && !check.canBreed && (
+            <p className="text-sm text-orange-600">{check.reason}</p>
+          )}
+
+          <Button
+            variant="primary"
+            fullWidth
+            leftIcon={<Heart size={16} />}
+            disabled={!check?.canBreed}
+            onClick={() => onBreed(selected[0], selected[1])}
+          >
+            Raise a Family
+          </Button>
+        </div>
+      </animated.div>
+    </animated.div>
+  );
+};
+
+export default NestInterface;
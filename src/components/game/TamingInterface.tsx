@@ -19,7 +19,7 @@ import { useSlideIn, useFadeIn, useBounce, useFloat } from '../../hooks/useAnima
 import { useSound } from '../../hooks/useAudio';
 import Button from '../ui/Button';
 import { Animal } from '../../game/Animal';
-import { TamingSystem, TamingInteraction, TAMING_INTERACTIONS, TRUST_LEVELS } from '../../game/TamingSystem';
+import { tamingSystem as sharedTamingSystem, TamingInteraction, TAMING_INTERACTIONS, TRUST_LEVELS } from '../../game/TamingSystem';
 import { animalPersonality } from '../../game/AnimalPersonality';
 import { bondingSystem } from '../../game/BondingSystem';
 
@@ -54,7 +54,7 @@ export const TamingInterface: React.FC<TamingInterfaceProps> = ({
   const [trustHistory, setTrustHistory] = useState<number[]>([]);
   const [interactionCooldowns, setInteractionCooldowns] = useState<Record<string, number>>({});
 
-  const tamingSystem = useRef(new TamingSystem());
+  const tamingSystem = useRef(sharedTamingSystem);
   const feedbackRef = useRef<HTMLDivElement>(null);
 
   // Animations
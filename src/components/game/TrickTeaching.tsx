@@ -22,6 +22,8 @@ import Button from '../ui/Button';
 import { Animal } from '../../game/Animal';
 import { TeachingPhase, TrickGesture, getTrickById } from '../../data/tricks';
 import { trickSystem, TrickLearningProgress, TrickAttempt } from '../../game/TrickSystem';
+import { createInputManager } from '../../game/InputManager';
+import { GestureStroke, RecognizedGesture } from '../../game/GestureRecognizer';
 
 interface TrickTeachingProps {
   animal: Animal;
@@ -32,6 +34,12 @@ interface TrickTeachingProps {
 }
 
 
+// How long to wait for another stroke before judging a multi-stroke gesture
+const STROKE_IDLE_DELAY: Record<string, number> = {
+  double_tap: 400,
+  sequence: 1500
+};
+
 interface VisualCue {
   type: 'tap' | 'swipe' | 'hold' | 'circle';
   direction?: string | undefined;
@@ -56,11 +64,13 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
   const [showInstructions, setShowInstructions] = useState(true);
   const [countdownActive, setCountdownActive] = useState(false);
   const [countdown, setCountdown] = useState(3);
-  const [gestureArea, setGestureArea] = useState({ x: 0, y: 0, width: 0, height: 0 });
+  const [drawnStrokes, setDrawnStrokes] = useState<GestureStroke[]>([]);
+  const [recognized, setRecognized] = useState<RecognizedGesture | null>(null);
 
   const gestureAreaRef = useRef<HTMLDivElement>(null);
-  const touchStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
-  const holdTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const strokesRef = useRef<GestureStroke[]>([]);
+  const submitTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const gestureCompleteRef = useRef<(strokes: GestureStroke[]) => void>(() => {});
 
   const trick = getTrickById(trickId);
 
@@ -101,19 +111,6 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
     }
   }, [animal.id, trickId, trick]);
 
-  // Setup gesture area
-  useEffect(() => {
-    if (gestureAreaRef.current) {
-      const rect = gestureAreaRef.current.getBoundingClientRect();
-      setGestureArea({
-        x: rect.left,
-        y: rect.top,
-        width: rect.width,
-        height: rect.height
-      });
-    }
-  }, [isVisible]);
-
   // Start teaching session
   const startTeaching = () => {
     if (!currentPhase) return;
@@ -148,153 +145,68 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
       active: true
     };
     
+    strokesRef.current = [];
+    setDrawnStrokes([]);
+    setRecognized(null);
     setVisualCue(cue);
     playButtonClick();
   };
 
-  // Handle touch start
-  const handleTouchStart = (e: React.TouchEvent) => {
-    if (!isActive || !currentPhase) return;
-    
-    e.preventDefault();
-    const touch = e.touches[0];
-    if (!touch) return;
-    
-    touchStartRef.current = {
-      x: touch.clientX - gestureArea.x,
-      y: touch.clientY - gestureArea.y,
-      time: Date.now()
-    };
+  // Capture pointer strokes from the gesture area while practice is active
+  useEffect(() => {
+    const element = gestureAreaRef.current;
+    if (!isActive || !element || !currentPhase) return;
 
-    // Handle hold gestures
-    if (currentPhase.gestures[0]?.type === 'hold') {
-      holdTimerRef.current = setTimeout(() => {
-        handleGestureComplete('hold', undefined, Date.now() - touchStartRef.current!.time);
-      }, currentPhase.gestures[0].duration || 1000);
-    }
-  };
+    const expected = currentPhase.gestures[0];
+    const strokesNeeded = expected?.type === 'sequence' ? expected.sequence?.length || 1 :
+      expected?.type === 'double_tap' ? 2 : 1;
 
-  // Handle touch move
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (!isActive || !touchStartRef.current || !currentPhase) return;
-    
-    e.preventDefault();
-    const touch = e.touches[0];
-    if (!touch) return;
-    
-    const currentX = touch.clientX - gestureArea.x;
-    const currentY = touch.clientY - gestureArea.y;
-    
-    const deltaX = currentX - touchStartRef.current.x;
-    const deltaY = currentY - touchStartRef.current.y;
-    const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
-    
-    // Check for swipe gestures
-    if (distance > 50) {
-      let direction: string;
-      if (Math.abs(deltaX) > Math.abs(deltaY)) {
-        direction = deltaX > 0 ? 'right' : 'left';
-      } else {
-        direction = deltaY > 0 ? 'down' : 'up';
+    const inputManager = createInputManager(element, { enableKeyboard: false });
+    inputManager.onStroke((stroke, complete) => {
+      if (submitTimerRef.current) {
+        clearTimeout(submitTimerRef.current);
+        submitTimerRef.current = null;
       }
-      
-      if (currentPhase.gestures[0]?.type === 'swipe') {
-        handleGestureComplete('swipe', direction, Date.now() - touchStartRef.current.time);
+
+      const finished = strokesRef.current;
+      setDrawnStrokes([...finished, { ...stroke, samples: [...stroke.samples] }]);
+      if (!complete) return;
+
+      strokesRef.current = [...finished, stroke];
+      const delay = strokesRef.current.length >= strokesNeeded ? 150 : STROKE_IDLE_DELAY[expected?.type || ''];
+      if (delay !== undefined) {
+        submitTimerRef.current = setTimeout(() => gestureCompleteRef.current(strokesRef.current), delay);
       }
-    }
-    
-    // Check for circle gestures
-    if (currentPhase.gestures[0]?.type === 'circle' && distance > 30) {
-      // Simplified circle detection
-      const angle = Math.atan2(deltaY, deltaX);
-      const direction = angle > 0 ? 'clockwise' : 'counter_clockwise';
-      handleGestureComplete('circle', direction, Date.now() - touchStartRef.current.time);
-    }
-  };
+    });
 
-  // Handle touch end
-  const handleTouchEnd = (e: React.TouchEvent) => {
-    if (!isActive || !touchStartRef.current || !currentPhase) return;
-    
-    e.preventDefault();
-    
-    // Clear hold timer
-    if (holdTimerRef.current) {
-      clearTimeout(holdTimerRef.current);
-      holdTimerRef.current = null;
-    }
-    
-    // Handle tap gestures
-    if (currentPhase.gestures[0]?.type === 'tap') {
-      const duration = Date.now() - touchStartRef.current.time;
-      if (duration < 300) { // Quick tap
-        handleGestureComplete('tap', undefined, duration);
+    return () => {
+      if (submitTimerRef.current) {
+        clearTimeout(submitTimerRef.current);
+        submitTimerRef.current = null;
       }
-    }
-    
-    // Handle double tap
-    if (currentPhase.gestures[0]?.type === 'double_tap') {
-      // Simplified double tap detection
-      handleGestureComplete('double_tap', undefined, Date.now() - touchStartRef.current.time);
-    }
-    
-    touchStartRef.current = null;
-  };
+      inputManager.destroy();
+    };
+  }, [isActive, currentPhase]);
 
   // Handle gesture completion
-  const handleGestureComplete = (type: string, direction?: string, duration?: number) => {
-    if (!currentPhase || !isActive) return;
+  const handleGestureComplete = (strokes: GestureStroke[]) => {
+    if (!currentPhase) return;
     
     setIsActive(false);
-    setVisualCue(null);
-    
-    // Calculate accuracy based on expected gesture
-    const expectedGesture = currentPhase.gestures[0];
-    if (!expectedGesture) return;
-    
-    let accuracy = 0.8; // Base accuracy
-    
-    if (type === expectedGesture.type) {
-      accuracy += 0.2;
-    }
-    
-    if (direction && expectedGesture.direction === direction) {
-      accuracy += 0.2;
-    }
-    
-    if (duration && expectedGesture.duration) {
-      const durationAccuracy = 1 - Math.abs(expectedGesture.duration - duration) / expectedGesture.duration;
-      accuracy *= Math.max(0.5, durationAccuracy);
-    }
+    submitTimerRef.current = null;
     
-    const timing = Math.random() * 0.3 + 0.7; // Simplified timing
-    
-    // Submit gesture attempt
-    const gestureAttempt: any = {
-      type,
-      accuracy: Math.min(1, accuracy),
-      timing
-    };
-    
-    // Only add direction and duration if they are not undefined
-    if (direction !== undefined) {
-      gestureAttempt.direction = direction;
-    }
-    if (duration !== undefined) {
-      gestureAttempt.duration = duration;
-    }
-    
-    const result = trickSystem.attemptTrickGesture(animal.id, trickId, gestureAttempt);
+    const result = trickSystem.attemptTrickStrokes(animal.id, trickId, strokes);
+    setRecognized(result.score?.recognized ?? null);
     
     // Update UI based on result
     setFeedback(result.feedback);
     
     if (result.success) {
       playSuccess();
-      setVisualCue({ ...visualCue!, success: true });
+      setVisualCue(cue => cue && { ...cue, success: true });
     } else {
       playError();
-      setVisualCue({ ...visualCue!, success: false });
+      setVisualCue(cue => cue && { ...cue, success: false });
     }
     
     // Update progress
@@ -306,8 +218,8 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
       animalId: animal.id,
       phaseId: currentPhase.id,
       timestamp: Date.now(),
-      gestureAccuracy: accuracy,
-      timingAccuracy: timing,
+      gestureAccuracy: result.gestureAccuracy,
+      timingAccuracy: result.score?.timing ?? 0,
       success: result.success,
       feedback: result.feedback,
       energyUsed: trick?.energyCost || 0,
@@ -328,6 +240,7 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
     if (result.phaseAdvanced) {
       setTimeout(() => {
         updateProgress();
+        setDrawnStrokes([]);
         setShowInstructions(true);
         setFeedback('Phase completed! Moving to next phase...');
       }, 1500);
@@ -342,6 +255,39 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
     }, 1500);
   };
 
+  gestureCompleteRef.current = handleGestureComplete;
+
+  // Render the path the player drew over the gesture area
+  const renderStrokeOverlay = () => {
+    if (drawnStrokes.length === 0) return null;
+
+    const color = visualCue?.success === true ? '#10B981' :
+      visualCue?.success === false ? '#EF4444' : '#6366F1';
+
+    return (
+      <svg className="absolute inset-0 w-full h-full pointer-events-none">
+        {drawnStrokes.map((stroke, index) => {
+          const start = stroke.samples[0];
+          if (!start) return null;
+          return (
+            <g key={index}>
+              <polyline
+                points={stroke.samples.map(sample => `${sample.x},${sample.y}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={6}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                opacity={0.75}
+              />
+              <circle cx={start.x} cy={start.y} r={7} fill={color} />
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
   // Render gesture instruction
   const renderGestureInstruction = (gesture: TrickGesture) => {
     const icons = {
@@ -473,15 +419,12 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
         )}
 
         {/* Gesture Area */}
-        {isActive && (
+        {(isActive || drawnStrokes.length > 0) && (
           <div className="p-4">
             <animated.div
               ref={gestureAreaRef}
               style={gestureAreaAnimation}
-              className="relative bg-gradient-to-br from-blue-100 to-purple-100 rounded-2xl h-64 border-2 border-dashed border-blue-300 flex items-center justify-center"
-              onTouchStart={handleTouchStart}
-              onTouchMove={handleTouchMove}
-              onTouchEnd={handleTouchEnd}
+              className="relative bg-gradient-to-br from-blue-100 to-purple-100 rounded-2xl h-64 border-2 border-dashed border-blue-300 flex items-center justify-center select-none touch-none"
             >
               <div className="text-center">
                 <div className="text-lg font-medium text-blue-700 mb-2">
@@ -492,7 +435,15 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
                 </div>
               </div>
               {renderVisualCue()}
+              {renderStrokeOverlay()}
             </animated.div>
+            {recognized && (
+              <div className="mt-2 text-xs text-center text-gray-600">
+                Recognized: {recognized.type.replace('_', ' ')}
+                {recognized.direction && ` (${recognized.direction.replace('_', ' ')})`}
+                {' '}· {Math.round(recognized.shapeAccuracy * 100)}% clean
+              </div>
+            )}
           </div>
         )}
 
@@ -545,6 +496,8 @@ export const TrickTeaching: React.FC<TrickTeachingProps> = ({
           <Button
             onClick={() => {
               setIsActive(false);
+              setDrawnStrokes([]);
+              setRecognized(null);
               setShowInstructions(true);
               setFeedback('');
             }}
@@ -18,4 +18,8 @@ export { default as ItemUsage } from './ItemUsage';
 export { default as EncounterInterface } from './EncounterInterface';
 export { default as EnhancedEncounterInterface } from './EnhancedEncounterInterface';
 export { default as TrickSelectionMenu } from './TrickSelectionMenu';
-export { default as TamingMethodMenu } from './TamingMethodMenu';
\ No newline at end of file
+export { default as TamingMethodMenu } from './TamingMethodMenu';
+export { default as FamilyTree } from './FamilyTree';
+export { default as NestInterface } from './NestInterface';
+export { default as EcosystemPanel } from './EcosystemPanel';
+export { default as Journal } from './Journal';
@@ -16,17 +16,22 @@ import {
   Wifi,
   WifiOff,
   Cloud,
-  Smartphone
+  Smartphone,
+  Video
 } from 'react-feather';
 import { Button, Card, Modal } from '../ui';
 import { offlineStorage, StorageStats } from '../../services/OfflineStorage';
 import { syncManager, SyncStatus } from '../../services/SyncManager';
+import { cloudSaveService, ConflictInfo } from '../../services/CloudSave';
+import { formatMergeValue } from '../../services/SaveMerge';
 import { performanceManager, PerformanceMetrics, OptimizationSuggestion } from '../../services/PerformanceManager';
+import { replayRecorder, serializeReplay, ReplayStart } from '../../services/ReplayService';
 import { useSound } from '../../hooks/useAudio';
 
 export interface DataManagerProps {
   isOpen: boolean;
   onClose: () => void;
+  getReplayStart?: () => ReplayStart;
   className?: string;
 }
 
@@ -39,6 +44,7 @@ interface TabType {
 const DataManager: React.FC<DataManagerProps> = ({
   isOpen,
   onClose,
+  getReplayStart,
   className = ''
 }) => {
   const [activeTab, setActiveTab] = useState<TabType['id']>('storage');
@@ -49,6 +55,9 @@ const DataManager: React.FC<DataManagerProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState<string | null>(null);
   const [exportData, setExportData] = useState<string | null>(null);
+  const [conflictReport, setConflictReport] = useState<ConflictInfo[]>([]);
+  const [isRecording, setIsRecording] = useState(() => replayRecorder.isRecording());
+  const [hasReplay, setHasReplay] = useState(() => replayRecorder.getLastReplay() !== null);
 
   const { playSound } = useSound();
 
@@ -83,6 +92,7 @@ const DataManager: React.FC<DataManagerProps> = ({
       setSyncStatus(sync);
       setPerformanceMetrics(performance);
       setSuggestions(opts);
+      setConflictReport(cloudSaveService.getConflictReport());
 
     } catch (error) {
       console.error('Failed to load data manager info:', error);
@@ -163,6 +173,34 @@ const DataManager: React.FC<DataManagerProps> = ({
     }
   }, [storageStats, syncStatus, performanceMetrics, playSound]);
 
+  // Start or stop recording a replay for bug reports
+  const handleToggleRecording = useCallback(() => {
+    playSound('ui_interaction');
+
+    if (replayRecorder.isRecording()) {
+      replayRecorder.stop();
+    } else if (getReplayStart) {
+      replayRecorder.start(getReplayStart());
+    }
+
+    setIsRecording(replayRecorder.isRecording());
+    setHasReplay(replayRecorder.getLastReplay() !== null);
+  }, [getReplayStart, playSound]);
+
+  // Export the latest replay, finishing the recording first if one is running
+  const handleExportReplay = useCallback(() => {
+    const replay = replayRecorder.stop();
+    setIsRecording(false);
+    setHasReplay(replay !== null);
+
+    if (replay) {
+      setExportData(serializeReplay(replay));
+      playSound('success');
+    } else {
+      playSound('error');
+    }
+  }, [playSound]);
+
   // Handle sync operations
   const handleSync = useCallback(async () => {
     setIsLoading(true);
@@ -180,6 +218,13 @@ const DataManager: React.FC<DataManagerProps> = ({
     }
   }, [loadData, playSound]);
 
+  // Dismiss the cloud save merge report
+  const handleDismissConflicts = useCallback(() => {
+    playSound('ui_interaction');
+    cloudSaveService.clearConflictReport();
+    setConflictReport([]);
+  }, [playSound]);
+
   // Handle optimization application
   const handleApplyOptimization = useCallback(async (suggestion: OptimizationSuggestion) => {
     setIsLoading(true);
@@ -397,6 +442,58 @@ const DataManager: React.FC<DataManagerProps> = ({
           </div>
         )}
       </Card>
+
+      {/* Cloud Save Merge Conflicts */}
+      {conflictReport.length > 0 && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2 text-yellow-500" />
+              Save Conflicts
+            </h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDismissConflicts}
+            >
+              Dismiss
+            </Button>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-4">
+            These values changed differently on two devices. Everything else was merged automatically;
+            for these the most recently saved device was kept.
+          </p>
+
+          <div className="space-y-4">
+            {conflictReport.map(conflict => (
+              <div key={conflict.slotId}>
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm font-medium">Slot {conflict.slotId}</span>
+                  <span className="text-xs text-gray-600">
+                    {new Date(Math.max(conflict.localLastSaved, conflict.cloudLastSaved)).toLocaleString()}
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  {conflict.mergeConflicts?.map(field => (
+                    <div key={field.path} className="bg-yellow-50 p-3 rounded-lg">
+                      <p className="text-sm font-medium font-mono">{field.path}</p>
+                      <div className="grid grid-cols-2 gap-4 mt-1">
+                        <p className={`text-xs ${field.kept === 'local' ? 'text-green-700 font-medium' : 'text-gray-600'}`}>
+                          This device: {formatMergeValue(field.local)}
+                        </p>
+                        <p className={`text-xs ${field.kept === 'server' ? 'text-green-700 font-medium' : 'text-gray-600'}`}>
+                          Cloud: {formatMergeValue(field.server)}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
     </div>
   );
 
@@ -520,6 +617,43 @@ const DataManager: React.FC<DataManagerProps> = ({
   // Render settings tab
   const renderSettingsTab = () => (
     <div className="space-y-6">
+      {getReplayStart && (
+        <Card className="p-4">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <Video className="w-5 h-5 mr-2" />
+            Bug Report Replay
+          </h3>
+
+          <p className="text-sm text-gray-600 mb-4">
+            Record your inputs from here on, then export the replay and attach it to a bug report so the problem can be played back exactly.
+          </p>
+
+          <div className="flex items-center justify-between">
+            <span className={`text-sm font-medium ${isRecording ? 'text-red-600' : 'text-gray-500'}`}>
+              {isRecording ? 'Recording...' : hasReplay ? 'Replay ready' : 'Not recording'}
+            </span>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleToggleRecording}
+              >
+                {isRecording ? 'Stop Recording' : 'Start Recording'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportReplay}
+                disabled={!isRecording && !hasReplay}
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export Replay
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
       <Card className="p-4">
         <h3 className="text-lg font-semibold mb-4 flex items-center">
           <Settings className="w-5 h-5 mr-2" />
@@ -14,14 +14,16 @@ import {
 } from 'react-feather';
 import { useSlideIn, useFadeIn, useStagger } from '../../hooks/useAnimation';
 import { useSound } from '../../hooks/useAudio';
-import { getSaveSystem, SaveSlot } from '../../services/SaveSystem';
+import { saveManager, ComprehensiveGameSave } from '../../services/SaveManager';
 import Button from './Button';
 
+type SaveSlotInfo = Awaited<ReturnType<typeof saveManager.getSaveSlotInfo>>[number];
+
 interface MainMenuProps {
   isOpen: boolean;
   onClose: () => void;
   onNewGame: () => void;
-  onLoadGame: (slotId: number) => void;
+  onLoadGame: (slotId: number, saveData: ComprehensiveGameSave) => void;
   onSettings: () => void;
   onAbout: () => void;
   showHomeOption?: boolean;
@@ -39,7 +41,7 @@ export const MainMenu: React.FC<MainMenuProps> = ({
   onGoHome
 }) => {
   const [activeTab, setActiveTab] = useState<'main' | 'saves'>('main');
-  const [saveSlots, setSaveSlots] = useState<SaveSlot[]>([]);
+  const [saveSlots, setSaveSlots] = useState<SaveSlotInfo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   
   const { playMenuOpen, playMenuClose, playButtonClick } = useSound();
@@ -97,8 +99,7 @@ export const MainMenu: React.FC<MainMenuProps> = ({
   const loadSaveSlots = async () => {
     setIsLoading(true);
     try {
-      const saveSystem = getSaveSystem();
-      const slots = await saveSystem.getAllSaveSlots();
+      const slots = await saveManager.getSaveSlotInfo();
       setSaveSlots(slots);
     } catch (error) {
       console.error('Failed to load save slots:', error);
@@ -116,8 +117,10 @@ export const MainMenu: React.FC<MainMenuProps> = ({
     
     if (confirmDelete) {
       try {
-        const saveSystem = getSaveSystem();
-        await saveSystem.deleteGame(slotId);
+        const result = await saveManager.deleteSaveData(slotId);
+        if (!result.success) {
+          console.error('Failed to delete save:', result.message);
+        }
         await loadSaveSlots(); // Refresh the list
         playButtonClick();
       } catch (error) {
@@ -131,9 +134,23 @@ export const MainMenu: React.FC<MainMenuProps> = ({
     action();
   };
 
-  const handleLoadGame = (slotId: number) => {
+  const handleLoadGame = async (slotId: number) => {
     playButtonClick();
-    onLoadGame(slotId);
+
+    const result = await saveManager.loadGameState(slotId);
+    if (!result.success || !result.data) {
+      console.error('Failed to load save:', result.message);
+      return;
+    }
+
+    // Systems restore all-or-nothing, so a failure leaves the current game untouched
+    const restore = saveManager.restoreRuntimeState(result.data, slotId);
+    if (!restore.success) {
+      console.error('Failed to load save:', restore.errors.join(', '));
+      return;
+    }
+
+    onLoadGame(slotId, result.data);
   };
 
   const handleBackdropClick = (e: React.MouseEvent) => {
@@ -257,13 +274,13 @@ export const MainMenu: React.FC<MainMenuProps> = ({
                     <div
                       key={slot.slotId}
                       className={`border rounded-lg p-4 transition-all cursor-pointer ${
-                        slot.isEmpty
+                        !slot.exists
                           ? 'border-gray-200 bg-gray-50 hover:bg-gray-100'
                           : 'border-purple-200 bg-purple-50 hover:bg-purple-100'
                       }`}
-                      onClick={() => !slot.isEmpty && handleLoadGame(slot.slotId)}
+                      onClick={() => slot.exists && handleLoadGame(slot.slotId)}
                     >
-                      {slot.isEmpty ? (
+                      {!slot.exists ? (
                         <div className="text-center py-4">
                           <Plus className="mx-auto text-gray-400 mb-2" size={24} />
                           <p className="text-gray-500 text-sm">Empty Slot {slot.slotId}</p>
@@ -284,7 +301,7 @@ export const MainMenu: React.FC<MainMenuProps> = ({
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h4 className="font-semibold text-purple-800">
-                                {slot.previewData?.playerName || 'Unknown Player'}
+                                {slot.playerName || 'Unknown Player'}
                               </h4>
                               <span className="text-xs bg-purple-200 text-purple-700 px-2 py-1 rounded">
                                 Slot {slot.slotId}
@@ -294,24 +311,24 @@ export const MainMenu: React.FC<MainMenuProps> = ({
                             <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
                               <div className="flex items-center gap-1">
                                 <Star size={12} />
-                                Level {slot.previewData?.level || 1}
+                                Level {slot.level || 1}
                               </div>
                               <div className="flex items-center gap-1">
                                 <Users size={12} />
-                                {slot.previewData?.companionCount || 0} companions
+                                {slot.preview?.companionsCount || 0} companions
                               </div>
                               <div className="flex items-center gap-1">
                                 <Clock size={12} />
-                                {slot.previewData?.playTime || '0m'}
+                                {formatPlayTime(slot.playTime || 0)}
                               </div>
                               <div className="text-xs text-gray-500">
-                                {formatDate(slot.lastModified)}
+                                {formatDate(slot.lastSaved || 0)}
                               </div>
                             </div>
                             
                             <div className="mt-2">
                               <span className="text-xs text-gray-500">
-                                📍 {slot.previewData?.currentMap || 'Unknown location'}
+                                📍 {slot.preview?.currentMap || 'Unknown location'}
                               </span>
                             </div>
                           </div>
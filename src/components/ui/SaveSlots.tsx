@@ -176,6 +176,14 @@ const SaveSlots: React.FC<SaveSlotsProps> = ({
       const result = await saveManager.loadGameState(slotId);
       
       if (result.success && result.data) {
+        // Systems restore all-or-nothing, so a failure leaves the current game untouched
+        const restore = saveManager.restoreRuntimeState(result.data, slotId);
+        if (!restore.success) {
+          playSound('error');
+          console.error('Load failed:', restore.errors.join(', '));
+          return;
+        }
+
         playSound('success');
         onLoadSave?.(slotId, result.data);
         onClose();
@@ -588,7 +596,9 @@ const SaveSlots: React.FC<SaveSlotsProps> = ({
                 <p className="text-sm font-medium text-gray-800">Conflicts Resolved:</p>
                 {showSyncResult.conflicts.map((conflict, index) => (
                   <div key={index} className="text-xs text-gray-600 p-2 bg-gray-50 rounded">
-                    Slot {conflict.slotId}: {conflict.reason} - Used {conflict.resolution} version
+                    Slot {conflict.slotId}: {conflict.reason} - {conflict.resolution === 'merged'
+                      ? 'details in Data Manager'
+                      : `Used ${conflict.resolution} version`}
                   </div>
                 ))}
               </div>
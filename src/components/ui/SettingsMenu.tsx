@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { animated } from '@react-spring/web';
 import { 
   Settings, 
@@ -10,12 +10,26 @@ import {
   Trash2,
   Info,
   X,
-  Sliders
+  Sliders,
+  Command
 } from 'react-feather';
 import { useSlideIn, useFadeIn } from '../../hooks/useAnimation';
 import { useSound } from '../../hooks/useAudio';
 import { getAudioManager } from '../../services/AudioManager';
 import { getAmbientAudio } from '../../game/AmbientAudio';
+import {
+  BINDABLE_ACTIONS,
+  DEFAULT_INPUT_BINDINGS,
+  INPUT_ACTION_LABELS,
+  InputAction,
+  InputBindings,
+  GamepadLike,
+  getBrowserGamepads,
+  getGamepadButtonLabel,
+  getKeyLabel,
+  loadInputBindings,
+  saveInputBindings
+} from '../../game/InputManager';
 import Button from './Button';
 
 interface GameSettings {
@@ -36,6 +50,7 @@ interface GameSettings {
   autoSave: boolean;
   showTutorials: boolean;
   touchSensitivity: number;
+  backgroundSimulation: boolean;
   
   // Accessibility Settings
   largeText: boolean;
@@ -62,19 +77,25 @@ const defaultSettings: GameSettings = {
   autoSave: true,
   showTutorials: true,
   touchSensitivity: 0.8,
+  backgroundSimulation: false,
   largeText: false,
   soundCues: true,
   screenReader: false
 };
 
+type BindingDevice = 'keyboard' | 'gamepad';
+
 export const SettingsMenu: React.FC<SettingsMenuProps> = ({
   isOpen,
   onClose,
   onSave
 }) => {
   const [settings, setSettings] = useState<GameSettings>(defaultSettings);
-  const [activeTab, setActiveTab] = useState<'audio' | 'visual' | 'gameplay' | 'accessibility'>('audio');
+  const [activeTab, setActiveTab] = useState<'audio' | 'visual' | 'gameplay' | 'controls' | 'accessibility'>('audio');
   const [hasChanges, setHasChanges] = useState(false);
+  const [bindings, setBindings] = useState<InputBindings>(() => loadInputBindings());
+  const [listening, setListening] = useState<{ device: BindingDevice; action: InputAction } | null>(null);
+  const [gamepads, setGamepads] = useState<string[]>([]);
   
   const { playMenuOpen, playMenuClose, playButtonClick } = useSound();
 
@@ -95,6 +116,89 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({
     }
   }, []);
 
+  // A key or button drives one action, so binding it moves it off any other
+  const bindInput = useCallback((device: BindingDevice, input: string, action: InputAction) => {
+    setBindings(prev => ({ ...prev, [device]: { ...prev[device], [input]: action } }));
+    setListening(null);
+    setHasChanges(true);
+    playButtonClick();
+  }, [playButtonClick]);
+
+  const unbindInput = (device: BindingDevice, input: string) => {
+    setBindings(prev => {
+      const next = { ...prev[device] } as Record<string, InputAction>;
+      delete next[input];
+      return { ...prev, [device]: next };
+    });
+    setHasChanges(true);
+    playButtonClick();
+  };
+
+  // Stop waiting for a key or button when the menu closes or the tab changes
+  useEffect(() => {
+    setListening(null);
+  }, [isOpen, activeTab]);
+
+  // Show which controllers are plugged in while the controls tab is open
+  useEffect(() => {
+    if (!isOpen || activeTab !== 'controls') return;
+
+    const refreshGamepads = () => {
+      setGamepads(getBrowserGamepads().filter((pad): pad is GamepadLike => pad !== null && pad.connected).map(pad => pad.id));
+    };
+    refreshGamepads();
+
+    window.addEventListener('gamepadconnected', refreshGamepads);
+    window.addEventListener('gamepaddisconnected', refreshGamepads);
+    return () => {
+      window.removeEventListener('gamepadconnected', refreshGamepads);
+      window.removeEventListener('gamepaddisconnected', refreshGamepads);
+    };
+  }, [isOpen, activeTab]);
+
+  // Capture the next key press for a keyboard binding
+  useEffect(() => {
+    if (listening?.device !== 'keyboard') return;
+
+    const handleKeyCapture = (e: KeyboardEvent) => {
+      // Keep the key from reaching the game or closing the menu
+      e.preventDefault();
+      e.stopPropagation();
+      bindInput('keyboard', e.code, listening.action);
+    };
+
+    window.addEventListener('keydown', handleKeyCapture, true);
+    return () => window.removeEventListener('keydown', handleKeyCapture, true);
+  }, [listening, bindInput]);
+
+  // Capture the next gamepad button; buttons already held when listening starts are ignored
+  useEffect(() => {
+    if (listening?.device !== 'gamepad') return;
+
+    const isDown = (button: { pressed: boolean; value: number }) => button.pressed || button.value > 0.5;
+    const heldAtStart = new Set<string>();
+    getBrowserGamepads().forEach(pad => pad?.buttons.forEach((button, index) => {
+      if (isDown(button)) heldAtStart.add(`${pad.index}:${index}`);
+    }));
+
+    let frame = 0;
+    const poll = () => {
+      for (const pad of getBrowserGamepads()) {
+        const index = pad?.buttons.findIndex((button, buttonIndex) =>
+          isDown(button) && !heldAtStart.has(`${pad.index}:${buttonIndex}`)
+        ) ?? -1;
+        if (index >= 0) {
+          bindInput('gamepad', String(index), listening.action);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindInput]);
+
   // Play sound effects when menu opens/closes
   useEffect(() => {
     if (isOpen) {
@@ -148,6 +252,7 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({
   const handleSave = () => {
     try {
       localStorage.setItem('feral-friends-settings', JSON.stringify(settings));
+      saveInputBindings(bindings);
       applyAudioSettings(settings);
       setHasChanges(false);
       onSave?.(settings);
@@ -159,6 +264,10 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({
 
   const handleReset = () => {
     setSettings(defaultSettings);
+    setBindings({
+      keyboard: { ...DEFAULT_INPUT_BINDINGS.keyboard },
+      gamepad: { ...DEFAULT_INPUT_BINDINGS.gamepad }
+    });
     setHasChanges(true);
     playButtonClick();
   };
@@ -185,6 +294,7 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({
     { id: 'audio', label: 'Audio', icon: <Volume2 size={16} /> },
     { id: 'visual', label: 'Visual', icon: <Eye size={16} /> },
     { id: 'gameplay', label: 'Gameplay', icon: <Sliders size={16} /> },
+    { id: 'controls', label: 'Controls', icon: <Command size={16} /> },
     { id: 'accessibility', label: 'Accessibility', icon: <Info size={16} /> }
   ] as const;
 
@@ -262,6 +372,41 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({
     </div>
   );
 
+  const renderBindings = (device: BindingDevice, action: InputAction) => {
+    const inputs = Object.entries(bindings[device] as Record<string, InputAction>)
+      .filter(([, boundAction]) => boundAction === action)
+      .map(([input]) => input);
+    const isListening = listening?.device === device && listening.action === action;
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-xs text-gray-500">{device === 'keyboard' ? 'Keyboard' : 'Controller'}</span>
+        {inputs.map(input => (
+          <span key={input} className="inline-flex items-center gap-1 px-2 py-1 bg-white border border-gray-300 rounded text-xs font-mono">
+            {device === 'keyboard' ? getKeyLabel(input) : getGamepadButtonLabel(Number(input))}
+            <button
+              onClick={() => unbindInput(device, input)}
+              className="text-gray-400 hover:text-red-600"
+              aria-label="Remove binding"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <button
+          onClick={() => setListening(isListening ? null : { device, action })}
+          className={`px-2 py-1 rounded text-xs border border-dashed ${
+            isListening ? 'border-blue-500 text-blue-600 animate-pulse' : 'border-gray-300 text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {isListening
+            ? (device === 'keyboard' ? 'Press a key…' : 'Press a button…')
+            : (device === 'keyboard' ? '+ Key' : '+ Button')}
+        </button>
+      </div>
+    );
+  };
+
   return (
     <animated.div 
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
@@ -413,6 +558,13 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({
                 (checked) => updateSetting('showTutorials', checked),
                 'Display helpful tips and guides'
               )}
+
+              {renderToggle(
+                'Background Animal Simulation',
+                settings.backgroundSimulation,
+                (checked) => updateSetting('backgroundSimulation', checked),
+                'Run wildlife behavior off the main thread. Smoother on slower phones with busy maps.'
+              )}
               
               {renderSlider(
                 'Touch Sensitivity',
@@ -425,6 +577,35 @@ export const SettingsMenu: React.FC<SettingsMenuProps> = ({
             </div>
           )}
 
+          {activeTab === 'controls' && (
+            <div className="space-y-6">
+              <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+                <Command size={20} />
+                Controls
+              </h3>
+
+              <p className="text-xs text-gray-500">
+                {gamepads.length > 0
+                  ? `Controller connected: ${gamepads.join(', ')}`
+                  : 'No controller detected. Press a button on a connected controller to wake it up.'}
+              </p>
+
+              <div className="space-y-3">
+                {BINDABLE_ACTIONS.map(action => (
+                  <div key={action} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                    <div className="text-sm font-medium text-gray-700">{INPUT_ACTION_LABELS[action]}</div>
+                    {renderBindings('keyboard', action)}
+                    {renderBindings('gamepad', action)}
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                The left stick always moves. Click a binding's × to remove it.
+              </p>
+            </div>
+          )}
+
           {activeTab === 'accessibility' && (
             <div className="space-y-6">
               <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
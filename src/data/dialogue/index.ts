@@ -0,0 +1,44 @@
+// Dialogue Data Index
+// Registry of per-species dialogue files, validated by the DialogueLoader
+
+import { AnimalSpecies } from '../../game/Animal';
+
+// Import dialogue files
+import rabbitDialogue from './rabbit.json';
+import birdDialogue from './bird.json';
+import squirrelDialogue from './squirrel.json';
+import foxDialogue from './fox.json';
+import deerDialogue from './deer.json';
+import butterflyDialogue from './butterfly.json';
+import frogDialogue from './frog.json';
+import turtleDialogue from './turtle.json';
+import owlDialogue from './owl.json';
+import hawkDialogue from './hawk.json';
+import mouseDialogue from './mouse.json';
+import raccoonDialogue from './raccoon.json';
+import bearDialogue from './bear.json';
+import wolfDialogue from './wolf.json';
+import otterDialogue from './otter.json';
+import hedgehogDialogue from './hedgehog.json';
+import batDialogue from './bat.json';
+
+// Raw file contents are typed as unknown until the loader has validated them
+export const DIALOGUE_FILES: Record<AnimalSpecies, unknown> = {
+  rabbit: rabbitDialogue,
+  bird: birdDialogue,
+  squirrel: squirrelDialogue,
+  fox: foxDialogue,
+  deer: deerDialogue,
+  butterfly: butterflyDialogue,
+  frog: frogDialogue,
+  turtle: turtleDialogue,
+  owl: owlDialogue,
+  hawk: hawkDialogue,
+  mouse: mouseDialogue,
+  raccoon: raccoonDialogue,
+  bear: bearDialogue,
+  wolf: wolfDialogue,
+  otter: otterDialogue,
+  hedgehog: hedgehogDialogue,
+  bat: batDialogue,
+};
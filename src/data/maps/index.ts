@@ -89,13 +89,22 @@ export function getMapsByLevel(minLevel: number, maxLevel: number = Infinity): s
     .map(([id]) => id);
 }
 
-export function validateMapConnections(): boolean {
-  // Check that all map transitions point to valid maps
+/**
+ * Add a map built at runtime (e.g. imported from Tiled) to the registry
+ */
+export function registerMap(mapData: MapData): void {
+  MAP_REGISTRY[mapData.metadata.id] = mapData;
+}
+
+export function validateMapConnections(mapsToCheck?: Record<string, MapData>): boolean {
+  // Check that all map transitions point to valid maps. Maps not yet registered
+  // can be passed in; then only those are checked, against the registry and each other
   let isValid = true;
+  const maps = { ...MAP_REGISTRY, ...mapsToCheck };
   
-  Object.entries(MAP_REGISTRY).forEach(([mapId, mapData]) => {
+  Object.entries(mapsToCheck ?? MAP_REGISTRY).forEach(([mapId, mapData]) => {
     mapData.transitions.forEach(transition => {
-      if (!MAP_REGISTRY[transition.toMapId]) {
+      if (!maps[transition.toMapId]) {
         console.error(`Map ${mapId} has invalid transition to ${transition.toMapId}`);
         isValid = false;
       }
@@ -0,0 +1,11 @@
+// Quest Data Index
+// Registry of quest files, validated by the QuestLoader
+
+import storyQuests from './story.json';
+import sideQuests from './side.json';
+
+// Raw file contents are typed as unknown until the loader has validated them
+export const QUEST_FILES: Record<string, unknown> = {
+  story: storyQuests,
+  side: sideQuests,
+};
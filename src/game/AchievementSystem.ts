@@ -1,6 +1,8 @@
 // Achievement System
 // Handles discovery, bonding, mastery, and exploration achievements
 
+import { GameEventBus, GameEventTable, gameEvents, resolveGameEvent } from './GameEvents';
+
 export type AchievementCategory = 'discovery' | 'bonding' | 'mastery' | 'exploration' | 'competition' | 'special';
 export type AchievementRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
 
@@ -451,6 +453,38 @@ export function updateAchievementProgress(
   return completedAchievements;
 }
 
+export interface AchievementProgressUpdate {
+  type: AchievementRequirement['type'];
+  amount?: number;
+  context?: Parameters<typeof updateAchievementProgress>[2];
+}
+
+// Achievement progress each gameplay event counts towards
+export const ACHIEVEMENT_EVENTS: GameEventTable<AchievementProgressUpdate> = {
+  'animal.tamed': ({ species }) => ({ type: 'tame_animals', context: { species } }),
+  'trick.learned': ({ trickId, species }) => ({ type: 'learn_tricks', context: { trick: trickId, species } }),
+  'performance.completed': ({ ranking }) => ranking === 'spectacular' ? { type: 'win_competitions' } : null
+};
+
+/**
+ * Track achievement progress from gameplay events and announce completions on the bus.
+ * Returns a function that unsubscribes.
+ */
+export function subscribeAchievements(bus: GameEventBus = gameEvents): () => void {
+  if (playerAchievements.size === 0) {
+    initializeAchievements();
+  }
+
+  return bus.on('*', event => {
+    const update = resolveGameEvent(ACHIEVEMENT_EVENTS, event);
+    if (!update) return;
+
+    updateAchievementProgress(update.type, update.amount, update.context).forEach(achievement => {
+      bus.emit('achievement.completed', { achievementId: achievement.id, name: achievement.name });
+    });
+  });
+}
+
 /**
  * Check if achievement requirements are met
  */
@@ -581,6 +615,7 @@ export default {
   playerAchievements,
   initializeAchievements,
   updateAchievementProgress,
+  subscribeAchievements,
   getAchievementProgress,
   getAchievementsByCategory,
   getCompletedAchievements,
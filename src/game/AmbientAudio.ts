@@ -1,4 +1,5 @@
 import { getAudioManager } from '../services/AudioManager';
+import { worldClock } from './WorldClock';
 
 export interface AmbientConfig {
   enableAmbientSounds: boolean;
@@ -45,6 +46,7 @@ export class AmbientAudioSystem {
   private currentContext: AmbientContext;
   private updateInterval: number | null = null;
   private lastMusicTrack: string | null = null;
+  private unsubscribeClock: (() => void) | null = null;
 
   constructor(config: Partial<AmbientConfig> = {}) {
     this.config = {
@@ -61,7 +63,7 @@ export class AmbientAudioSystem {
     this.currentContext = {
       currentMapType: 'meadow',
       weather: 'clear',
-      timeOfDay: 0.5,
+      timeOfDay: worldClock.getDayFraction(),
       animalCount: 0,
       playerActivity: 'idle',
       playerPosition: { x: 0, y: 0 },
@@ -69,6 +71,12 @@ export class AmbientAudioSystem {
     };
 
     this.initializeAmbientLayers();
+
+    this.unsubscribeClock = worldClock.on('hourChange', time => {
+      if (this.config.enableTimeOfDayChanges) {
+        this.setTimeOfDay(time.dayFraction);
+      }
+    });
   }
 
   private initializeAmbientLayers(): void {
@@ -471,6 +479,8 @@ export class AmbientAudioSystem {
   // Cleanup
   dispose(): void {
     this.stop();
+    this.unsubscribeClock?.();
+    this.unsubscribeClock = null;
     this.activeLayers.clear();
     this.availableLayers = [];
   }
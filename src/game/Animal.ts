@@ -2,6 +2,8 @@
 // Handles basic animal entities with species, AI states, and movement patterns
 
 import { Position } from '../types/game';
+import { rng } from '../services/RandomService';
+import type { Pathfinder, PathfindingOptions } from './Pathfinding';
 
 export type AnimalSpecies = 'rabbit' | 'bird' | 'squirrel' | 'fox' | 'deer' | 'butterfly' | 'frog' | 'turtle' | 'owl' | 'hawk' | 'mouse' | 'raccoon' | 'bear' | 'wolf' | 'otter' | 'hedgehog' | 'bat';
 
@@ -910,24 +912,59 @@ export function getDistanceToPlayer(animal: Animal, playerPosition: Position): n
   return getDistanceToPosition(animal, playerPosition);
 }
 
+/**
+ * Pathfinding options matching how a species gets around
+ */
+export function getAnimalPathOptions(animal: Animal): PathfindingOptions | null {
+  // Flyers ignore terrain entirely and go straight to their target
+  if (animal.visual.animation === 'fly') return null;
+
+  if (animal.visual.animation === 'swim') {
+    return { allowDiagonal: true, passableTerrain: ['water'], entityId: animal.id };
+  }
+
+  return { allowDiagonal: true, entityId: animal.id };
+}
+
 /**
  * Set animal's target position and calculate path
  */
-export function setAnimalTarget(animal: Animal, target: Position): void {
+export function setAnimalTarget(animal: Animal, target: Position, pathfinder?: Pathfinder): void {
   animal.ai.targetPosition = { ...target };
-  
-  // Simple path calculation (can be enhanced with proper pathfinding later)
-  animal.ai.pathToTarget = [target];
+
+  const options = getAnimalPathOptions(animal);
+  if (!pathfinder || !options) {
+    animal.ai.pathToTarget = [{ ...target }];
+    return;
+  }
+
+  const path = pathfinder.findPath(animal.position, target, options);
+  if (path.length === 0) {
+    // Unreachable - stay put rather than walking through obstacles
+    animal.ai.targetPosition = undefined;
+    animal.ai.pathToTarget = [];
+    return;
+  }
+
+  animal.ai.pathToTarget = path;
+  animal.ai.targetPosition = { ...path[path.length - 1] };
 }
 
 /**
- * Move animal towards target position
+ * Move animal towards target position, following path waypoints
  */
 export function moveTowardsTarget(animal: Animal, speed: number = 1): boolean {
   const target = animal.ai.targetPosition;
   if (!target) return true; // No target, movement complete
-  
-  const distance = getDistanceToPosition(animal, target);
+
+  // Drop waypoints we've already reached
+  while (animal.ai.pathToTarget.length > 1 &&
+         getDistanceToPosition(animal, animal.ai.pathToTarget[0]) < 0.1) {
+    animal.ai.pathToTarget.shift();
+  }
+
+  const waypoint = animal.ai.pathToTarget[0] || target;
+  const distance = getDistanceToPosition(animal, waypoint);
   
   // Close enough to target
   if (distance < 0.1) {
@@ -938,10 +975,10 @@ export function moveTowardsTarget(animal: Animal, speed: number = 1): boolean {
     return true;
   }
   
-  // Calculate direction to target
+  // Calculate direction to next waypoint
   const direction = {
-    x: (target.x - animal.position.x) / distance,
-    y: (target.y - animal.position.y) / distance
+    x: (waypoint.x - animal.position.x) / distance,
+    y: (waypoint.y - animal.position.y) / distance
   };
   
   // Set velocity based on species and behavior
@@ -957,8 +994,8 @@ export function moveTowardsTarget(animal: Animal, speed: number = 1): boolean {
  */
 export function getRandomWanderPosition(animal: Animal): Position {
   const radius = animal.behavior.wanderRadius;
-  const angle = Math.random() * Math.PI * 2;
-  const distance = Math.random() * radius;
+  const angle = rng('ai').next() * Math.PI * 2;
+  const distance = rng('ai').next() * radius;
   
   return {
     x: animal.ai.homePosition.x + Math.cos(angle) * distance,
@@ -1025,18 +1062,25 @@ export function shouldReturnHome(animal: Animal): boolean {
 /**
  * Get flee position away from threat
  */
-export function getFleePosition(animal: Animal, threatPosition: Position): Position {
+export function getFleePosition(animal: Animal, threatPosition: Position, pathfinder?: Pathfinder): Position {
   const distance = getDistanceToPosition(animal, threatPosition);
   
+  // Flee distance based on animal's fear level
+  const fleeDistance = animal.behavior.fleeDistance + (animal.stats.fear / 100) * 3;
+
+  // Pick a reachable escape tile instead of running into walls
+  const options = getAnimalPathOptions(animal);
+  if (pathfinder && options) {
+    const escape = pathfinder.findFleeTarget(animal.position, threatPosition, fleeDistance, options);
+    if (escape) return escape;
+  }
+  
   // Calculate direction away from threat
   const direction = {
     x: (animal.position.x - threatPosition.x) / distance,
     y: (animal.position.y - threatPosition.y) / distance
   };
   
-  // Flee distance based on animal's fear level
-  const fleeDistance = animal.behavior.fleeDistance + (animal.stats.fear / 100) * 3;
-  
   return {
     x: animal.position.x + direction.x * fleeDistance,
     y: animal.position.y + direction.y * fleeDistance
@@ -1155,6 +1199,7 @@ export default {
   updateAnimalPosition,
   getDistanceToPosition,
   getDistanceToPlayer,
+  getAnimalPathOptions,
   setAnimalTarget,
   moveTowardsTarget,
   getRandomWanderPosition,
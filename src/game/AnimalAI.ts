@@ -18,6 +18,11 @@ import {
   updateAnimalMemory,
   updateAnimalPosition
 } from './Animal';
+import { rng } from '../services/RandomService';
+import { Pathfinder } from './Pathfinding';
+import { GameMap } from './Map';
+import { animalNeeds } from './AnimalNeeds';
+import { ecosystemSystem } from './EcosystemSystem';
 
 export interface AIContext {
   playerPosition: Position;
@@ -29,6 +34,9 @@ export interface AIContext {
     minY: number;
     maxY: number;
   };
+  pathfinder?: Pathfinder;
+  map?: GameMap; // lets needs-driven goals find water, food and rest spots
+  animals?: Animal[]; // other animals nearby, so prey can spot predators
 }
 
 export interface AIBehaviorResult {
@@ -91,14 +99,18 @@ export class AnimalAI {
       memoryUpdated: false
     };
 
+    // Needs keep decaying whatever the animal is doing
+    animalNeeds.update(animal, context.currentTime);
+
     // Check if current state duration has expired
     const stateDuration = context.currentTime - animal.ai.lastStateChange;
-    const shouldChangeState = this.shouldChangeState(animal, stateDuration, context);
+    const threat = this.getThreatPosition(animal, context);
+    const shouldChangeState = this.shouldChangeState(animal, stateDuration, context, threat);
 
     if (shouldChangeState) {
-      const newState = this.selectNewState(animal, context);
+      const newState = this.selectNewState(animal, context, threat);
       if (newState !== animal.ai.currentState) {
-        this.changeState(animal, newState, context);
+        this.changeState(animal, newState, context, threat);
         result.stateChanged = true;
         result.newState = newState;
       }
@@ -120,11 +132,16 @@ export class AnimalAI {
   /**
    * Check if animal should change from current state (turn-based)
    */
-  private static shouldChangeState(animal: Animal, stateDuration: number, context: AIContext): boolean {
+  private static shouldChangeState(
+    animal: Animal,
+    stateDuration: number,
+    context: AIContext,
+    threat: Position | null
+  ): boolean {
     const currentState = animal.ai.currentState;
     
     // Emergency state changes (override normal duration) - more conservative for turn-based
-    if (shouldFleeFromPlayer(animal, context.playerPosition) && currentState !== 'fleeing') {
+    if (threat && currentState !== 'fleeing') {
       return true;
     }
 
@@ -137,6 +154,11 @@ export class AnimalAI {
       return true;
     }
 
+    // A critical need interrupts anything that isn't already dealing with it
+    if (animalNeeds.shouldInterrupt(animal.id)) {
+      return true;
+    }
+
     // Get or initialize turn counter for this animal
     const animalId = animal.id;
     if (!this.animalTurnCounters.has(animalId)) {
@@ -149,7 +171,7 @@ export class AnimalAI {
 
     // Check if state duration (in turns) has been exceeded
     const durations = this.STATE_DURATIONS[currentState];
-    const maxTurns = durations.min + Math.floor(Math.random() * (durations.max - durations.min));
+    const maxTurns = durations.min + Math.floor(rng('ai').next() * (durations.max - durations.min));
     
     return currentTurns >= maxTurns;
   }
@@ -157,11 +179,11 @@ export class AnimalAI {
   /**
    * Select appropriate new state based on current situation
    */
-  private static selectNewState(animal: Animal, context: AIContext): AnimalState {
+  private static selectNewState(animal: Animal, context: AIContext, threat: Position | null): AnimalState {
     // Priority-based state selection
     
-    // 1. Emergency: Flee if player is too close
-    if (shouldFleeFromPlayer(animal, context.playerPosition)) {
+    // 1. Emergency: Flee if the player or a predator is too close
+    if (threat) {
       return 'fleeing';
     }
 
@@ -175,18 +197,19 @@ export class AnimalAI {
       return 'returning';
     }
 
-    // 4. Energy-based states
-    if (animal.stats.energy < 30) {
-      return Math.random() < 0.7 ? 'sleeping' : 'idle';
+    // 4. Needs: seek water, food, rest, company or shelter
+    const goal = animalNeeds.chooseGoal(animal, context.map);
+    if (goal) {
+      return goal.state;
     }
 
-    // 5. Happiness-based states
-    if (animal.stats.happiness > 80 && Math.random() < 0.3) {
-      return 'feeding';
+    // 5. Energy-based states
+    if (animal.stats.energy < 30) {
+      return rng('ai').chance(0.7) ? 'sleeping' : 'idle';
     }
 
     // 6. Curiosity-based states
-    if (animal.stats.curiosity > 60 && Math.random() < 0.4) {
+    if (animal.stats.curiosity > 60 && rng('ai').chance(0.4)) {
       const playerDistance = getDistanceToPlayer(animal, context.playerPosition);
       if (playerDistance > animal.behavior.fleeDistance && playerDistance < 8) {
         return 'curious';
@@ -194,7 +217,7 @@ export class AnimalAI {
     }
 
     // 7. Default behavior based on activity level
-    const activityRoll = Math.random();
+    const activityRoll = rng('ai').next();
     if (activityRoll < animal.behavior.activityLevel * 0.7) {
       return 'wandering';
     } else {
@@ -203,9 +226,26 @@ export class AnimalAI {
   }
 
   /**
-   * Change animal state and setup new behavior (turn-based)
+   * Position of whatever the animal should run from: a nearby predator first, then the player
    */
-  private static changeState(animal: Animal, newState: AnimalState, context: AIContext): void {
+  private static getThreatPosition(animal: Animal, context: AIContext): Position | null {
+    const predator = context.animals ? ecosystemSystem.findNearbyPredator(animal, context.animals) : null;
+    if (predator) {
+      return predator.position;
+    }
+    return shouldFleeFromPlayer(animal, context.playerPosition) ? context.playerPosition : null;
+  }
+
+  /**
+   * Change animal state and setup new behavior (turn-based). The threat is
+   * looked up when the caller hasn't already found it this turn.
+   */
+  private static changeState(
+    animal: Animal,
+    newState: AnimalState,
+    context: AIContext,
+    threat: Position | null = this.getThreatPosition(animal, context)
+  ): void {
     const oldState = animal.ai.currentState;
     
     animal.ai.currentState = newState;
@@ -215,6 +255,16 @@ export class AnimalAI {
     // Reset turn counter when changing states
     this.animalTurnCounters.set(animal.id, 0);
 
+    // Needs-driven goals bring their own destination
+    const goal = animalNeeds.getActiveGoal(animal.id);
+    if (goal && goal.state !== newState) {
+      animalNeeds.clearGoal(animal.id);
+    } else if (goal?.target) {
+      setAnimalTarget(animal, goal.target, context.pathfinder);
+      this.updateVisualFeedback(animal, newState, oldState);
+      return;
+    }
+
     // Setup state-specific behavior
     switch (newState) {
       case 'idle':
@@ -225,14 +275,16 @@ export class AnimalAI {
 
       case 'wandering':
         const wanderTarget = getRandomWanderPosition(animal);
-        setAnimalTarget(animal, wanderTarget);
+        setAnimalTarget(animal, wanderTarget, context.pathfinder);
         break;
 
-      case 'fleeing':
-        const fleeTarget = getFleePosition(animal, context.playerPosition);
-        setAnimalTarget(animal, fleeTarget);
-        updateAnimalMemory(animal, context.playerPosition, 'danger');
+      case 'fleeing': {
+        const fleeFrom = threat || context.playerPosition;
+        const fleeTarget = getFleePosition(animal, fleeFrom, context.pathfinder);
+        setAnimalTarget(animal, fleeTarget, context.pathfinder);
+        updateAnimalMemory(animal, fleeFrom, 'danger');
         break;
+      }
 
       case 'alert':
         // Stop movement and clear target when becoming alert
@@ -244,7 +296,7 @@ export class AnimalAI {
         break;
 
       case 'returning':
-        setAnimalTarget(animal, animal.ai.homePosition);
+        setAnimalTarget(animal, animal.ai.homePosition, context.pathfinder);
         break;
 
       case 'feeding':
@@ -256,11 +308,11 @@ export class AnimalAI {
             const nearestDistance = getDistanceToPosition(animal, nearest);
             return distance < nearestDistance ? spot : nearest;
           });
-          setAnimalTarget(animal, nearestFood);
+          setAnimalTarget(animal, nearestFood, context.pathfinder);
         } else {
           // Find random spot near home to "feed"
           const feedSpot = getRandomWanderPosition(animal);
-          setAnimalTarget(animal, feedSpot);
+          setAnimalTarget(animal, feedSpot, context.pathfinder);
         }
         break;
 
@@ -277,7 +329,7 @@ export class AnimalAI {
             x: animal.position.x + direction.x * 2,
             y: animal.position.y + direction.y * 2
           };
-          setAnimalTarget(animal, curiousTarget);
+          setAnimalTarget(animal, curiousTarget, context.pathfinder);
         }
         break;
 
@@ -285,11 +337,11 @@ export class AnimalAI {
         // Find safe spot from memory or random spot away from danger
         const safeSpots = animal.ai.memory.safeSpots;
         if (safeSpots.length > 0) {
-          const safestSpot = safeSpots[Math.floor(Math.random() * safeSpots.length)];
-          setAnimalTarget(animal, safestSpot);
+          const safestSpot = rng('ai').pick(safeSpots);
+          setAnimalTarget(animal, safestSpot, context.pathfinder);
         } else {
-          const hideTarget = getFleePosition(animal, context.playerPosition);
-          setAnimalTarget(animal, hideTarget);
+          const hideTarget = getFleePosition(animal, context.playerPosition, context.pathfinder);
+          setAnimalTarget(animal, hideTarget, context.pathfinder);
         }
         break;
 
@@ -318,9 +370,9 @@ export class AnimalAI {
     switch (state) {
       case 'idle':
         // Occasionally look around or show small movements
-        if (Math.random() < 0.01) { // 1% chance per frame
-          animal.velocity.x = (Math.random() - 0.5) * 0.1;
-          animal.velocity.y = (Math.random() - 0.5) * 0.1;
+        if (rng('ai').chance(0.01)) { // 1% chance per frame
+          animal.velocity.x = (rng('ai').next() - 0.5) * 0.1;
+          animal.velocity.y = (rng('ai').next() - 0.5) * 0.1;
         } else {
           animal.velocity.x *= 0.9; // Gradual stop
           animal.velocity.y *= 0.9;
@@ -383,6 +435,7 @@ export class AnimalAI {
             result.targetReached = true;
             // Restore energy when back home
             animal.stats.energy = Math.min(animal.stats.maxEnergy, animal.stats.energy + 10);
+            result.feedbackMessage = animalNeeds.completeGoal(animal).message;
           }
         }
         break;
@@ -399,9 +452,12 @@ export class AnimalAI {
             animal.stats.happiness = Math.min(100, animal.stats.happiness + 2);
             
             // Mark feeding spot in memory
-            updateAnimalMemory(animal, animal.position, 'food');
+            const drank = animalNeeds.getActiveGoal(animal.id)?.need === 'thirst';
+            if (!drank) {
+              updateAnimalMemory(animal, animal.position, 'food');
+            }
             result.memoryUpdated = true;
-            result.feedbackMessage = `${animal.species} is feeding peacefully`;
+            result.feedbackMessage = animalNeeds.completeGoal(animal).message || `${animal.species} is feeding peacefully`;
           }
         }
         break;
@@ -415,7 +471,7 @@ export class AnimalAI {
             result.targetReached = true;
             // Increase curiosity satisfaction
             animal.stats.curiosity = Math.min(100, animal.stats.curiosity + 3);
-            result.feedbackMessage = `${animal.species} looks curious about you`;
+            result.feedbackMessage = animalNeeds.completeGoal(animal).message || `${animal.species} looks curious about you`;
           }
         }
         break;
@@ -431,6 +487,7 @@ export class AnimalAI {
             animal.stats.fear = Math.max(0, animal.stats.fear - 5);
             updateAnimalMemory(animal, animal.position, 'safe');
             result.memoryUpdated = true;
+            result.feedbackMessage = animalNeeds.completeGoal(animal).message;
           }
         }
         break;
@@ -572,13 +629,19 @@ export function createAIContext(
   playerPosition: Position,
   currentTime: number,
   deltaTime: number,
-  mapBounds?: { minX: number; maxX: number; minY: number; maxY: number }
+  mapBounds?: { minX: number; maxX: number; minY: number; maxY: number },
+  pathfinder?: Pathfinder,
+  map?: GameMap,
+  animals?: Animal[]
 ): AIContext {
   return {
     playerPosition,
     currentTime,
     deltaTime,
-    mapBounds
+    mapBounds,
+    pathfinder,
+    map,
+    animals
   };
 }
 
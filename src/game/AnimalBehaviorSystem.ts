@@ -3,6 +3,7 @@
 
 import { Animal, AnimalSpecies, getDistanceToPosition, getAnimalsInRadius } from './Animal';
 import { Position } from '../types/game';
+import { rng } from '../services/RandomService';
 
 export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
 export type WeatherType = 'sunny' | 'rainy' | 'snowy' | 'foggy' | 'stormy';
@@ -428,7 +429,7 @@ export function updateCircadianBehavior(animal: Animal, currentTime: TimeOfDay):
     animal.behavior.activityLevel = Math.max(0.1, animal.behavior.activityLevel * energyMultiplier);
     
     // Animals may go to sleep during sleep hours
-    if (Math.random() < 0.3 && animal.ai.currentState === 'idle') {
+    if (rng('ai').chance(0.3) && animal.ai.currentState === 'idle') {
       animal.ai.currentState = 'sleeping';
     }
   }
@@ -471,7 +472,7 @@ export function updateWeatherBehavior(animal: Animal, currentWeather: WeatherTyp
     
     case 'migrate':
       // Trigger migration behavior (simplified)
-      if (Math.random() < 0.1) {
+      if (rng('ai').chance(0.1)) {
         animal.ai.currentState = 'wandering';
         animal.behavior.wanderRadius *= 2; // Expand search area
       }
@@ -610,7 +611,7 @@ export function shouldJoinPack(animal: Animal, animals: Animal[]): boolean {
   const socialModifier = animal.behavior.socialLevel;
   const formPackChance = socialModifier * 0.1; // 10% chance for highly social animals
 
-  return nearbyPacks.length > 0 || (nearbyAnimals.length >= 2 && Math.random() < formPackChance);
+  return nearbyPacks.length > 0 || (nearbyAnimals.length >= 2 && rng('ai').chance(formPackChance));
 }
 
 /**
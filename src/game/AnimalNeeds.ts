@@ -0,0 +1,600 @@
+// Animal Needs System
+// Simulates hunger, thirst, fatigue, social and stress needs that decay over time and drive AI goals
+
+import { Position } from '../types/game';
+import { Animal, AnimalState, getDistanceToPosition } from './Animal';
+import { GameMap, MapRegion } from './Map';
+import {
+  BiomeType,
+  HabitatZone,
+  activeZones,
+  createHabitatZone,
+  getZoneAtPosition,
+  updateZoneResources
+} from './HabitatSystem';
+
+export type NeedType = 'hunger' | 'thirst' | 'fatigue' | 'social' | 'stress';
+export type CompanionCare = 'feed' | 'play';
+
+export interface AnimalNeeds {
+  animalId: string;
+  hunger: number; // 0 = satisfied, 100 = desperate
+  thirst: number;
+  fatigue: number;
+  social: number;
+  stress: number;
+  lastUpdate: number;
+}
+
+export interface NeedGoal {
+  need: NeedType;
+  state: AnimalState;
+  target?: Position;
+  zoneId?: string;
+}
+
+export interface NeedGoalResult {
+  satisfied: boolean;
+  need?: NeedType;
+  message?: string;
+}
+
+export interface NeedsConfig {
+  urgentThreshold: number; // needs above this pick an AI goal
+  criticalThreshold: number; // needs above this interrupt the current state
+  satisfiedThreshold: number; // goals are dropped once the need falls below this
+  searchRadius: number; // tiles searched for water and rest spots
+  maxCatchUp: number; // ms of decay applied after a long gap between updates
+  zoneUpdateInterval: number;
+}
+
+export interface NeedsSaveData {
+  needs: AnimalNeeds[];
+}
+
+export const NEED_TYPES: NeedType[] = ['hunger', 'thirst', 'fatigue', 'social', 'stress'];
+
+export const NEED_LABELS: Record<NeedType, string> = {
+  hunger: 'Hunger',
+  thirst: 'Thirst',
+  fatigue: 'Fatigue',
+  social: 'Loneliness',
+  stress: 'Stress'
+};
+
+// Change per minute while awake and calm; negative values recover
+const BASE_RATES: Record<NeedType, number> = {
+  hunger: 2,
+  thirst: 3,
+  fatigue: 1.5,
+  social: 1,
+  stress: -4
+};
+
+// Per-state adjustments layered on top of the base rates
+const STATE_RATE_MODIFIERS: Partial<Record<AnimalState, Partial<Record<NeedType, number>>>> = {
+  sleeping: { hunger: -1, thirst: -1.5, fatigue: -9.5 },
+  idle: { fatigue: -1 },
+  fleeing: { fatigue: 3, stress: 14 },
+  alert: { stress: 7 },
+  hiding: { stress: -4 },
+  feeding: { stress: -2 }
+};
+
+// Companions travelling with the player are never lonely
+const WITH_PLAYER_RATES: Partial<Record<NeedType, number>> = {
+  social: -4
+};
+
+// Resting while the player stands still lets followers recover
+const RESTING_RATES: Partial<Record<NeedType, number>> = {
+  fatigue: -5,
+  stress: -2
+};
+
+// How much a need drops when an animal reaches its goal
+const GOAL_RELIEF: Record<NeedType, number> = {
+  hunger: 50,
+  thirst: 60,
+  fatigue: 20,
+  social: 35,
+  stress: 25
+};
+
+// What feeding or playing with a companion does for its needs
+const COMPANION_CARE: Record<CompanionCare, Partial<Record<NeedType, number>>> = {
+  feed: { hunger: 40, thirst: 20 },
+  play: { social: 30, stress: 15, fatigue: -10 }
+};
+
+// Food taken from a habitat zone each time an animal eats there
+const ZONE_FOOD_CONSUMPTION = 4;
+const ZONE_MIN_FOOD = 15;
+
+// Map biomes use descriptive names; habitat zones use the shared BiomeType set
+const MAP_BIOMES: Record<string, BiomeType> = {
+  temperate_grassland: 'grassland',
+  temperate_forest: 'forest',
+  riparian: 'river',
+  alpine: 'mountain',
+  cave: 'cave'
+};
+
+const REGION_QUALITY: Record<MapRegion['type'], number> = {
+  peaceful: 90,
+  safe: 85,
+  special: 80,
+  active: 70,
+  dangerous: 50
+};
+
+const DEFAULT_CONFIG: NeedsConfig = {
+  urgentThreshold: 60,
+  criticalThreshold: 85,
+  satisfiedThreshold: 30,
+  searchRadius: 10,
+  maxCatchUp: 60 * 60 * 1000,
+  zoneUpdateInterval: 60 * 1000
+};
+
+export class AnimalNeedsSystem {
+  private needs: Map<string, AnimalNeeds> = new Map();
+  private activeGoals: Map<string, NeedGoal> = new Map();
+  private restPositions: Map<string, Position> = new Map();
+  private waterEdges: Position[] = [];
+  private config: NeedsConfig;
+  private lastZoneUpdate = 0;
+
+  constructor(config: Partial<NeedsConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Get (or start tracking) the needs of an animal
+   */
+  getNeeds(animalId: string, now: number = Date.now()): AnimalNeeds {
+    let needs = this.needs.get(animalId);
+    if (!needs) {
+      needs = {
+        animalId,
+        hunger: 20,
+        thirst: 20,
+        fatigue: 10,
+        social: 20,
+        stress: 10,
+        lastUpdate: now
+      };
+      this.needs.set(animalId, needs);
+    }
+    return needs;
+  }
+
+  /**
+   * Take over needs worked out elsewhere, such as by the background animal simulation
+   */
+  setNeeds(needs: AnimalNeeds): void {
+    this.needs.set(needs.animalId, { ...needs });
+    this.releaseSatisfiedGoal(needs.animalId);
+  }
+
+  /**
+   * Decay an animal's needs for the time since its last update
+   */
+  update(animal: Animal, now: number, withPlayer = false): AnimalNeeds {
+    const needs = this.getNeeds(animal.id, now);
+    const elapsed = Math.min(this.config.maxCatchUp, Math.max(0, now - needs.lastUpdate));
+    const minutes = elapsed / 60000;
+
+    if (minutes > 0) {
+      const stateRates = STATE_RATE_MODIFIERS[animal.ai.currentState] || {};
+      NEED_TYPES.forEach(need => {
+        let rate = BASE_RATES[need] + (stateRates[need] || 0);
+        if (withPlayer) {
+          rate += WITH_PLAYER_RATES[need] || 0;
+        }
+        this.adjust(needs, need, rate * minutes);
+      });
+
+      // A frightened animal can't settle down
+      if (animal.stats.fear > 50) {
+        this.adjust(needs, 'stress', (animal.stats.fear - 50) * 0.1 * minutes);
+      }
+    }
+
+    needs.lastUpdate = now;
+    this.releaseSatisfiedGoal(animal.id);
+    return needs;
+  }
+
+  /**
+   * Update a companion travelling with the player. Followers drink at nearby water,
+   * forage in habitat zones that still have food and rest whenever the player does.
+   */
+  updateCompanion(animal: Animal, position: Position, now: number, map?: GameMap): AnimalNeeds {
+    const needs = this.getNeeds(animal.id, now);
+    const minutes = Math.min(this.config.maxCatchUp, Math.max(0, now - needs.lastUpdate)) / 60000;
+    this.update(animal, now, true);
+
+    if (minutes <= 0) {
+      return needs;
+    }
+
+    const lastPosition = this.restPositions.get(animal.id);
+    if (lastPosition && lastPosition.x === position.x && lastPosition.y === position.y) {
+      Object.entries(RESTING_RATES).forEach(([need, rate]) => {
+        this.adjust(needs, need as NeedType, rate * minutes);
+      });
+    }
+    this.restPositions.set(animal.id, { ...position });
+
+    if (map && needs.thirst >= this.config.satisfiedThreshold && this.isNextToWater(map, position)) {
+      this.adjust(needs, 'thirst', -GOAL_RELIEF.thirst * minutes);
+    }
+
+    if (needs.hunger >= this.config.urgentThreshold) {
+      const zone = getZoneAtPosition(position);
+      if (zone && zone.resources.food >= ZONE_MIN_FOOD) {
+        this.adjust(needs, 'hunger', -GOAL_RELIEF.hunger * minutes);
+        zone.resources.food = Math.max(0, zone.resources.food - ZONE_FOOD_CONSUMPTION * minutes);
+      }
+    }
+
+    return needs;
+  }
+
+  /**
+   * Directly satisfy (or worsen, with a negative amount) a need
+   */
+  satisfy(animalId: string, need: NeedType, amount: number): void {
+    this.adjust(this.getNeeds(animalId), need, -amount);
+    this.releaseSatisfiedGoal(animalId);
+  }
+
+  /**
+   * Feed or play with a companion
+   */
+  tend(animalId: string, care: CompanionCare): void {
+    (Object.entries(COMPANION_CARE[care]) as [NeedType, number][]).forEach(([need, amount]) => {
+      this.satisfy(animalId, need, amount);
+    });
+  }
+
+  /**
+   * Get the most pressing need, if any has crossed the urgent threshold
+   */
+  getDominantNeed(animalId: string, threshold: number = this.config.urgentThreshold): NeedType | null {
+    const needs = this.needs.get(animalId);
+    if (!needs) return null;
+
+    let dominant: NeedType | null = null;
+    let highest = threshold;
+    for (const need of NEED_TYPES) {
+      if (needs[need] >= highest) {
+        highest = needs[need];
+        dominant = need;
+      }
+    }
+    return dominant;
+  }
+
+  /**
+   * Get a need severe enough to interrupt whatever the animal is doing
+   */
+  getCriticalNeed(animalId: string): NeedType | null {
+    return this.getDominantNeed(animalId, this.config.criticalThreshold);
+  }
+
+  /**
+   * Whether a critical need should cut the animal's current state short.
+   * An animal already tending to a critical need is left to finish.
+   */
+  shouldInterrupt(animalId: string): boolean {
+    if (!this.getCriticalNeed(animalId)) return false;
+
+    const goal = this.activeGoals.get(animalId);
+    return !goal || this.getNeeds(animalId)[goal.need] < this.config.criticalThreshold;
+  }
+
+  /**
+   * Pick an AI goal for the animal's most pressing need
+   */
+  chooseGoal(animal: Animal, map?: GameMap): NeedGoal | null {
+    // Stick with the current goal while it's still pressing so animals don't dither between needs
+    const current = this.activeGoals.get(animal.id);
+    const need = current && !this.shouldInterrupt(animal.id) &&
+      this.getNeeds(animal.id)[current.need] >= this.config.urgentThreshold
+      ? current.need
+      : this.getDominantNeed(animal.id);
+    if (!need) {
+      this.activeGoals.delete(animal.id);
+      return null;
+    }
+
+    let goal: NeedGoal;
+    switch (need) {
+      case 'thirst': {
+        // Without open water nearby animals make do with dew and puddles wherever they forage
+        const water = map ? this.findWaterEdge(map, animal.position) : null;
+        goal = { need, state: 'feeding', target: water || undefined };
+        break;
+      }
+
+      case 'hunger': {
+        const zone = this.findFoodZone(animal.position);
+        if (zone) {
+          goal = { need, state: 'feeding', target: this.getZoneCenter(zone, map), zoneId: zone.id };
+        } else {
+          const foodSpot = this.findNearest(animal, animal.ai.memory.foodSpots);
+          goal = { need, state: 'feeding', target: foodSpot || undefined };
+        }
+        break;
+      }
+
+      case 'fatigue': {
+        const restSpot = this.findNearest(animal, animal.ai.memory.safeSpots) || animal.ai.homePosition;
+        goal = getDistanceToPosition(animal, restSpot) <= 1.5
+          ? { need, state: 'sleeping' }
+          : { need, state: 'returning', target: restSpot };
+        break;
+      }
+
+      case 'social':
+        // Trusting animals seek out the player; others head back to their group
+        goal = animal.stats.trust >= 50
+          ? { need, state: 'curious' }
+          : { need, state: 'returning', target: animal.ai.homePosition };
+        break;
+
+      case 'stress': {
+        const safeSpot = this.findNearest(animal, animal.ai.memory.safeSpots);
+        goal = { need, state: 'hiding', target: safeSpot || undefined };
+        break;
+      }
+    }
+
+    this.activeGoals.set(animal.id, goal);
+    return goal;
+  }
+
+  /**
+   * Get the goal an animal is currently pursuing
+   */
+  getActiveGoal(animalId: string): NeedGoal | null {
+    return this.activeGoals.get(animalId) || null;
+  }
+
+  /**
+   * Drop an animal's goal, e.g. when something more urgent takes over
+   */
+  clearGoal(animalId: string): void {
+    this.activeGoals.delete(animalId);
+  }
+
+  /**
+   * Resolve a goal once the animal reaches its target in the matching state
+   */
+  completeGoal(animal: Animal): NeedGoalResult {
+    const goal = this.activeGoals.get(animal.id);
+    if (!goal || goal.state !== animal.ai.currentState) {
+      return { satisfied: false };
+    }
+
+    let message: string | undefined;
+    switch (goal.need) {
+      case 'thirst':
+        message = `${animal.species} drinks deeply`;
+        break;
+      case 'hunger': {
+        const zone = goal.zoneId ? activeZones.get(goal.zoneId) : undefined;
+        if (zone) {
+          zone.resources.food = Math.max(0, zone.resources.food - ZONE_FOOD_CONSUMPTION);
+        }
+        message = `${animal.species} is feeding peacefully`;
+        break;
+      }
+      case 'fatigue':
+        message = `${animal.species} settles down to rest`;
+        break;
+      case 'social':
+        message = `${animal.species} seems less lonely`;
+        break;
+      case 'stress':
+        message = `${animal.species} calms down`;
+        break;
+    }
+
+    this.adjust(this.getNeeds(animal.id), goal.need, -GOAL_RELIEF[goal.need]);
+    this.releaseSatisfiedGoal(animal.id);
+    return { satisfied: true, need: goal.need, message };
+  }
+
+  /**
+   * Trick performance multiplier; hungry, tired or stressed animals perform worse
+   */
+  getPerformanceModifier(animalId: string): number {
+    const needs = this.needs.get(animalId);
+    if (!needs) return 1;
+
+    const penalty = (['hunger', 'thirst', 'fatigue', 'stress'] as NeedType[])
+      .reduce((total, need) => total + Math.max(0, needs[need] - 50) / 50 * 0.15, 0);
+    return Math.max(0.5, 1 - penalty);
+  }
+
+  /**
+   * Bond decay multiplier; neglected needs make bonds fade faster
+   */
+  getBondDecayModifier(animalId: string): number {
+    const needs = this.needs.get(animalId);
+    if (!needs) return 1;
+
+    const unmet = NEED_TYPES.filter(need => needs[need] >= this.config.urgentThreshold).length;
+    if (unmet === 0 && NEED_TYPES.every(need => needs[need] < this.config.satisfiedThreshold)) {
+      return 0.5; // Well cared-for animals hold on to their bond
+    }
+    return 1 + unmet * 0.3;
+  }
+
+  /**
+   * Rebuild habitat zones for a map from its regions, with a map-wide zone underneath
+   */
+  registerMapZones(map: GameMap): void {
+    activeZones.clear();
+    this.activeGoals.clear();
+
+    const metadata = map.getMetadata();
+    const biome = MAP_BIOMES[metadata.biome] || 'temperate';
+
+    // Regions go in first so position lookups find the most specific zone
+    map.getRegions().forEach(region => {
+      createHabitatZone(
+        `${metadata.id}_${region.id}`,
+        biome,
+        {
+          x: region.bounds.minX,
+          y: region.bounds.minY,
+          width: region.bounds.maxX - region.bounds.minX,
+          height: region.bounds.maxY - region.bounds.minY
+        },
+        REGION_QUALITY[region.type]
+      );
+    });
+
+    const { width, height } = map.getDimensions();
+    createHabitatZone(metadata.id, biome, { x: 0, y: 0, width: width - 1, height: height - 1 });
+
+    this.waterEdges = this.collectWaterEdges(map);
+  }
+
+  /**
+   * Let zone food and water regenerate (and be grazed) on a slow interval
+   */
+  updateZones(animals: Animal[], now: number = Date.now()): void {
+    if (now - this.lastZoneUpdate < this.config.zoneUpdateInterval) {
+      return;
+    }
+    this.lastZoneUpdate = now;
+    activeZones.forEach(zone => updateZoneResources(zone, animals));
+  }
+
+  /**
+   * Stop tracking an animal that has left the game
+   */
+  removeAnimal(animalId: string): void {
+    this.needs.delete(animalId);
+    this.activeGoals.delete(animalId);
+    this.restPositions.delete(animalId);
+  }
+
+  getSaveData(): NeedsSaveData {
+    return {
+      needs: Array.from(this.needs.values())
+    };
+  }
+
+  loadSaveData(data: Partial<NeedsSaveData>): void {
+    this.needs = new Map((data.needs || []).map(needs => [needs.animalId, needs]));
+    this.activeGoals.clear();
+  }
+
+  private adjust(needs: AnimalNeeds, need: NeedType, amount: number): void {
+    needs[need] = Math.max(0, Math.min(100, needs[need] + amount));
+  }
+
+  private releaseSatisfiedGoal(animalId: string): void {
+    const goal = this.activeGoals.get(animalId);
+    const needs = this.needs.get(animalId);
+    if (goal && needs && needs[goal.need] < this.config.satisfiedThreshold) {
+      this.activeGoals.delete(animalId);
+    }
+  }
+
+  private findNearest(animal: Animal, spots: Position[]): Position | null {
+    if (spots.length === 0) return null;
+    return spots.reduce((nearest, spot) =>
+      getDistanceToPosition(animal, spot) < getDistanceToPosition(animal, nearest) ? spot : nearest
+    );
+  }
+
+  private findWaterEdge(map: GameMap, position: Position): Position | null {
+    const origin = { x: Math.round(position.x), y: Math.round(position.y) };
+    let nearest: Position | null = null;
+    let nearestDistance = this.config.searchRadius;
+
+    // Water tiles aren't walkable, so animals drink from the walkable tiles beside them
+    const edges = this.waterEdges.length > 0 ? this.waterEdges : this.collectWaterEdges(map);
+    for (const edge of edges) {
+      const distance = Math.hypot(edge.x - origin.x, edge.y - origin.y);
+      if (distance <= nearestDistance) {
+        nearest = edge;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  private collectWaterEdges(map: GameMap): Position[] {
+    const { width, height } = map.getDimensions();
+    const edges: Position[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (map.isWalkable(x, y) && this.isNextToWater(map, { x, y })) {
+          edges.push({ x, y });
+        }
+      }
+    }
+    return edges;
+  }
+
+  private isNextToWater(map: GameMap, position: Position): boolean {
+    const x = Math.round(position.x);
+    const y = Math.round(position.y);
+    return [[0, -1], [1, 0], [0, 1], [-1, 0]].some(([dx, dy]) => map.getTerrainAt(x + dx, y + dy) === 'water');
+  }
+
+  private findFoodZone(position: Position): HabitatZone | null {
+    let best: HabitatZone | null = null;
+    let bestDistance = Infinity;
+    for (const zone of activeZones.values()) {
+      if (zone.resources.food < ZONE_MIN_FOOD) continue;
+      const distance = Math.hypot(
+        zone.bounds.x + zone.bounds.width / 2 - position.x,
+        zone.bounds.y + zone.bounds.height / 2 - position.y
+      );
+      // Prefer richer zones, but not at any distance
+      const score = distance - zone.resources.food / 10;
+      if (score < bestDistance) {
+        best = zone;
+        bestDistance = score;
+      }
+    }
+    return best;
+  }
+
+  private getZoneCenter(zone: HabitatZone, map?: GameMap): Position {
+    const center = {
+      x: Math.round(zone.bounds.x + zone.bounds.width / 2),
+      y: Math.round(zone.bounds.y + zone.bounds.height / 2)
+    };
+    if (!map || map.isWalkable(center.x, center.y)) {
+      return center;
+    }
+
+    // Fall back to any walkable tile inside the zone
+    for (let y = zone.bounds.y; y <= zone.bounds.y + zone.bounds.height; y++) {
+      for (let x = zone.bounds.x; x <= zone.bounds.x + zone.bounds.width; x++) {
+        if (map.isWalkable(x, y)) {
+          return { x, y };
+        }
+      }
+    }
+    return center;
+  }
+}
+
+export function createAnimalNeedsSystem(config: Partial<NeedsConfig> = {}): AnimalNeedsSystem {
+  return new AnimalNeedsSystem(config);
+}
+
+export const animalNeeds = new AnimalNeedsSystem();
+
+export default animalNeeds;
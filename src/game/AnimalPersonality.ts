@@ -1,5 +1,6 @@
 import { Animal } from './Animal';
 import { TamingInteraction } from './TamingSystem';
+import { rng } from '../services/RandomService';
 
 export type PersonalityTrait = 
   | 'shy' 
@@ -213,6 +214,21 @@ export const PERSONALITY_PROFILES: Record<PersonalityTrait, PersonalityProfile>
   }
 };
 
+// Species-based personality tendencies
+const SPECIES_PERSONALITIES: Record<string, PersonalityTrait[]> = {
+  rabbit: ['shy', 'cautious', 'curious', 'social'],
+  bird: ['curious', 'energetic', 'social', 'restless'],
+  squirrel: ['energetic', 'playful', 'restless', 'bold'],
+  fox: ['cautious', 'curious', 'solitary', 'patient'],
+  deer: ['shy', 'cautious', 'social', 'patient'],
+  butterfly: ['curious', 'restless', 'solitary', 'energetic'],
+  frog: ['patient', 'lazy', 'cautious', 'solitary'],
+  turtle: ['patient', 'lazy', 'cautious', 'solitary']
+};
+
+// Chance an offspring's primary trait comes from its species rather than its parents
+const TRAIT_MUTATION_CHANCE = 0.1;
+
 export class AnimalPersonality {
   private personalityCache: Map<string, PersonalityProfile> = new Map();
   private personalityModifiers: Map<string, PersonalityModifiers> = new Map();
@@ -225,27 +241,15 @@ export class AnimalPersonality {
    * Assign a personality to an animal based on species and random factors
    */
   assignPersonality(animal: Animal): PersonalityProfile {
-    // Species-based personality tendencies
-    const speciesPersonalities: Record<string, PersonalityTrait[]> = {
-      rabbit: ['shy', 'cautious', 'curious', 'social'],
-      bird: ['curious', 'energetic', 'social', 'restless'],
-      squirrel: ['energetic', 'playful', 'restless', 'bold'],
-      fox: ['cautious', 'curious', 'solitary', 'patient'],
-      deer: ['shy', 'cautious', 'social', 'patient'],
-      butterfly: ['curious', 'restless', 'solitary', 'energetic'],
-      frog: ['patient', 'lazy', 'cautious', 'solitary'],
-      turtle: ['patient', 'lazy', 'cautious', 'solitary']
-    };
-
-    const possiblePersonalities = speciesPersonalities[animal.species] || ['curious', 'friendly'];
-    const primaryTrait = possiblePersonalities[Math.floor(Math.random() * possiblePersonalities.length)];
+    const possiblePersonalities = this.getSpeciesTraits(animal.species);
+    const primaryTrait = rng('encounters').pick(possiblePersonalities);
     
     // 30% chance of secondary trait
     let secondaryTrait: PersonalityTrait | undefined;
-    if (Math.random() < 0.3) {
+    if (rng('encounters').chance(0.3)) {
       const remaining = possiblePersonalities.filter(p => p !== primaryTrait);
       if (remaining.length > 0) {
-        secondaryTrait = remaining[Math.floor(Math.random() * remaining.length)];
+        secondaryTrait = rng('encounters').pick(remaining);
       }
     }
 
@@ -254,8 +258,8 @@ export class AnimalPersonality {
       ...baseProfile,
       primary: primaryTrait,
       secondary: secondaryTrait,
-      intensity: Math.max(50, baseProfile.intensity + (Math.random() - 0.5) * 30),
-      adaptability: Math.max(10, baseProfile.adaptability + (Math.random() - 0.5) * 40)
+      intensity: Math.max(50, baseProfile.intensity + (rng('encounters').next() - 0.5) * 30),
+      adaptability: Math.max(10, baseProfile.adaptability + (rng('encounters').next() - 0.5) * 40)
     };
 
     // Cache the personality
@@ -267,6 +271,49 @@ export class AnimalPersonality {
     return personalityProfile;
   }
 
+  /**
+   * Give an animal born to two companions a personality drawn from its parents'.
+   * Primary traits pass on more often than secondary ones, and now and then a
+   * trait typical of the species shows up instead.
+   */
+  inheritPersonality(animal: Animal, parents: PersonalityProfile[]): PersonalityProfile {
+    const weightedTraits: PersonalityTrait[] = parents.flatMap(parent =>
+      parent.secondary ? [parent.primary, parent.primary, parent.secondary] : [parent.primary, parent.primary]
+    );
+
+    const primaryTrait = rng('encounters').chance(TRAIT_MUTATION_CHANCE) || weightedTraits.length === 0
+      ? rng('encounters').pick(this.getSpeciesTraits(animal.species))
+      : rng('encounters').pick(weightedTraits);
+
+    // The other parent's traits are the likeliest secondary
+    const remaining = weightedTraits.filter(trait => trait !== primaryTrait);
+    const secondaryTrait = remaining.length > 0 && rng('encounters').chance(0.5)
+      ? rng('encounters').pick(remaining)
+      : undefined;
+
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+    const baseProfile = PERSONALITY_PROFILES[primaryTrait];
+    const personalityProfile: PersonalityProfile = {
+      ...baseProfile,
+      primary: primaryTrait,
+      secondary: secondaryTrait,
+      intensity: Math.max(50, Math.min(100, average(parents.map(parent => parent.intensity)) + (rng('encounters').next() - 0.5) * 20)),
+      adaptability: Math.max(10, Math.min(100, average(parents.map(parent => parent.adaptability)) + (rng('encounters').next() - 0.5) * 20))
+    };
+
+    this.personalityCache.set(animal.id, personalityProfile);
+    this.applyPersonalityToAnimal(animal, personalityProfile);
+
+    return personalityProfile;
+  }
+
+  /**
+   * Personality traits that come naturally to a species
+   */
+  getSpeciesTraits(species: string): PersonalityTrait[] {
+    return SPECIES_PERSONALITIES[species] || ['curious', 'friendly'];
+  }
+
   /**
    * Get an animal's personality profile
    */
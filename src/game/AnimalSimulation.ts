@@ -0,0 +1,531 @@
+// Animal Simulation
+// Runs animal AI turns, daily and weather behavior and proximity checks, optionally in a Web Worker
+
+import { Position } from '../types/game';
+import { Animal } from './Animal';
+import { AnimalAI, createAIContext } from './AnimalAI';
+import { GameMap, MapData } from './Map';
+import { Pathfinder } from './Pathfinding';
+import { CollisionSystem, createEntity } from './Collision';
+import { ProximityDetector, ProximityEvent, createProximityDetector } from './ProximityDetection';
+import { AnimalNeeds, animalNeeds } from './AnimalNeeds';
+import { TimeOfDay, WeatherType, updateCircadianBehavior, updateWeatherBehavior } from './AnimalBehaviorSystem';
+import { rng } from '../services/RandomService';
+import { STORAGE_KEYS } from '../constants';
+
+export type AnimalSimulationMode = 'main' | 'worker';
+
+// Changes in the world every active animal reacts to
+export type AnimalBehaviorChange =
+  | { type: 'circadian'; lightPhase: TimeOfDay }
+  | { type: 'weather'; weather: WeatherType };
+
+export interface AnimalSimulationInput {
+  animals: Animal[]; // every animal in the world
+  partyIds: string[]; // companions following the player, which the AI leaves alone
+  playerPosition: Position;
+  time: number;
+  deltaTime: number;
+  versions: Record<string, number>; // how many times the world has changed each animal outside the simulation
+}
+
+// One step as sent to the worker. Everything in it survives a structured clone.
+export interface AnimalSimulationSnapshot extends AnimalSimulationInput {
+  stepId: number;
+  behaviors: AnimalBehaviorChange[];
+  runAI: boolean;
+  needs: AnimalNeeds[];
+  randomState: number; // the 'ai' stream, handed back and forth so worker turns continue the same sequence
+}
+
+export interface AnimalChange {
+  animalId: string;
+  changes: Partial<Animal>; // top-level fields that changed, empty when the animal was updated in place
+  notify: boolean; // worth announcing: its state or memory changed, or it reacted to a behavior change
+  version: number; // the animal's version in the input the changes were worked out from
+}
+
+export interface AnimalSimulationUpdate {
+  changes: AnimalChange[];
+  proximity: ProximityEvent[];
+}
+
+export interface AnimalSimulationResult extends AnimalSimulationUpdate {
+  stepId: number;
+  needs: AnimalNeeds[];
+  randomState: number;
+}
+
+export type AnimalSimulationRequest =
+  | { type: 'map'; mapData: MapData }
+  | { type: 'step'; snapshot: AnimalSimulationSnapshot };
+
+export type AnimalSimulationResponse =
+  | { type: 'result'; result: AnimalSimulationResult }
+  | { type: 'error'; message: string };
+
+export interface AnimalSimulationEnvironment {
+  map: GameMap | null;
+  pathfinder: Pathfinder | null;
+  collision: CollisionSystem | null; // the pathfinder's dynamic blockers, kept in step with the animals
+  proximity: ProximityDetector;
+}
+
+export interface AnimalSimulationConfig {
+  mode: AnimalSimulationMode;
+  interpolationTime: number; // ms animals glide between simulated positions when drawn
+  responseTimeout: number; // ms a worker step may take before the simulation falls back to the main thread
+}
+
+interface AnimalGlide {
+  from: Position;
+  to: Position;
+  startedAt: number;
+}
+
+interface PendingStep {
+  input: AnimalSimulationInput;
+  behaviors: AnimalBehaviorChange[];
+  runAI: boolean;
+}
+
+/**
+ * Apply a behavior change to every active animal, in place. Returns the animals it reached.
+ */
+export function applyBehaviorChange(animals: Animal[], change: AnimalBehaviorChange): Animal[] {
+  const active = animals.filter(animal => animal.isActive);
+  active.forEach(animal => {
+    if (change.type === 'circadian') {
+      updateCircadianBehavior(animal, change.lightPhase);
+    } else {
+      updateWeatherBehavior(animal, change.weather);
+    }
+  });
+  return active;
+}
+
+/**
+ * Make every active wild animal a solid blocker for paths, at its current tile.
+ * Party companions step aside for the player, so they don't block anyone.
+ */
+export function syncAnimalBlockers(collision: CollisionSystem, animals: Animal[], partyIds: string[]): void {
+  const blockers = animals.filter(animal => animal.isActive && !partyIds.includes(animal.id));
+  const blockerIds = new Set(blockers.map(animal => animal.id));
+
+  collision.getEntities()
+    .filter(entity => entity.type === 'animal' && !blockerIds.has(entity.id))
+    .forEach(entity => collision.removeEntity(entity.id));
+
+  blockers.forEach(animal => {
+    const tile = { x: Math.round(animal.position.x), y: Math.round(animal.position.y) };
+    if (collision.getEntity(animal.id)) {
+      collision.updateEntity(animal.id, tile);
+    } else {
+      collision.addEntity(createEntity(animal.id, tile, { width: 1, height: 1 }, 'animal'));
+    }
+  });
+}
+
+/**
+ * Run one turn of the animal AI in place, then check who is near the player.
+ * Returns the ids of animals whose state or memory changed, and any proximity events.
+ */
+export function runAnimalTurn(
+  input: AnimalSimulationInput,
+  environment: AnimalSimulationEnvironment
+): { changed: string[]; proximity: ProximityEvent[] } {
+  // Party companions just follow the player
+  const activeAnimals = input.animals.filter(animal => animal.isActive && !input.partyIds.includes(animal.id));
+  const context = createAIContext(
+    input.playerPosition,
+    input.time,
+    input.deltaTime,
+    undefined,
+    environment.pathfinder || undefined,
+    environment.map || undefined,
+    input.animals.filter(animal => animal.isActive) // party predators still frighten prey
+  );
+
+  const collision = environment.collision;
+  if (collision) {
+    syncAnimalBlockers(collision, input.animals, input.partyIds);
+  }
+
+  const changed: string[] = [];
+  activeAnimals.forEach(animal => {
+    const result = AnimalAI.updateAI(animal, context);
+    if (result.stateChanged || result.memoryUpdated) {
+      changed.push(animal.id);
+    }
+    // Later animals path around where this one ended up
+    collision?.updateEntity(animal.id, { x: Math.round(animal.position.x), y: Math.round(animal.position.y) });
+  });
+
+  const { events } = environment.proximity.update(activeAnimals, input.playerPosition);
+  return { changed, proximity: events };
+}
+
+/**
+ * Work through a snapshot and describe what changed. This is the worker's side
+ * of a step; the animals in the snapshot are its own copies to change.
+ */
+export function runSimulationSnapshot(
+  snapshot: AnimalSimulationSnapshot,
+  environment: AnimalSimulationEnvironment
+): AnimalSimulationResult {
+  rng('ai').setState(snapshot.randomState);
+  snapshot.needs.forEach(needs => animalNeeds.setNeeds(needs));
+
+  const before = new Map(snapshot.animals.map(animal => [animal.id, serializeFields(animal)]));
+  const notify = new Set<string>();
+
+  snapshot.behaviors.forEach(change => {
+    applyBehaviorChange(snapshot.animals, change).forEach(animal => notify.add(animal.id));
+  });
+
+  let proximity: ProximityEvent[] = [];
+  if (snapshot.runAI) {
+    const turn = runAnimalTurn(snapshot, environment);
+    turn.changed.forEach(id => notify.add(id));
+    proximity = turn.proximity;
+  }
+
+  const changes: AnimalChange[] = [];
+  snapshot.animals.forEach(animal => {
+    const previous = before.get(animal.id);
+    const current = serializeFields(animal);
+    const fields = (Object.keys(current) as (keyof Animal)[]).filter(field => previous?.[field] !== current[field]);
+    if (fields.length === 0 && !notify.has(animal.id)) return;
+
+    const animalChanges: Partial<Animal> = {};
+    fields.forEach(field => {
+      (animalChanges as Record<string, unknown>)[field] = animal[field];
+    });
+    changes.push({
+      animalId: animal.id,
+      changes: animalChanges,
+      notify: notify.has(animal.id),
+      version: snapshot.versions[animal.id] ?? 0
+    });
+  });
+
+  return {
+    stepId: snapshot.stepId,
+    changes,
+    proximity,
+    needs: snapshot.needs.map(needs => animalNeeds.getNeeds(needs.animalId, snapshot.time)),
+    randomState: rng('ai').getState()
+  };
+}
+
+function serializeFields(animal: Animal): Partial<Record<keyof Animal, string>> {
+  const fields: Partial<Record<keyof Animal, string>> = {};
+  (Object.keys(animal) as (keyof Animal)[]).forEach(field => {
+    fields[field] = JSON.stringify(animal[field]);
+  });
+  return fields;
+}
+
+/**
+ * Whether the player asked for the animal simulation to run in the background
+ */
+export function loadSimulationMode(): AnimalSimulationMode {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.SETTINGS);
+    return saved && JSON.parse(saved).backgroundSimulation === true ? 'worker' : 'main';
+  } catch (error) {
+    console.warn('Failed to load simulation settings:', error);
+    return 'main';
+  }
+}
+
+/**
+ * Drives the animal simulation for a world. On the main thread each step runs
+ * straight away on the live animals. In worker mode steps go out as snapshots
+ * and come back as per-animal diffs a little later; a step sent while another
+ * is out waits for it, so the worker never falls behind. If workers aren't
+ * available, or one fails or stops answering, the simulation carries on in-thread.
+ */
+export class AnimalSimulation {
+  private config: AnimalSimulationConfig;
+  private worker: Worker | null = null;
+  private environment: AnimalSimulationEnvironment;
+  private mapData: MapData | null = null;
+
+  private stepId: number = 0;
+  private inFlight: { stepId: number; sentAt: number; positions: Map<string, Position>; step: PendingStep } | null = null;
+  private pending: PendingStep | null = null;
+  private glides: Map<string, AnimalGlide> = new Map();
+
+  private callbacks: {
+    onUpdate?: (update: AnimalSimulationUpdate) => void;
+  } = {};
+
+  constructor(config: Partial<AnimalSimulationConfig> = {}) {
+    this.config = {
+      mode: config.mode ?? 'main',
+      interpolationTime: config.interpolationTime ?? 300,
+      responseTimeout: config.responseTimeout ?? 2000
+    };
+    this.environment = { map: null, pathfinder: null, collision: null, proximity: createProximityDetector() };
+
+    if (this.config.mode === 'worker') {
+      this.startWorker();
+    }
+  }
+
+  setCallbacks(callbacks: typeof this.callbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * Where steps actually run. Worker mode reads 'main' once it has fallen back.
+   */
+  getMode(): AnimalSimulationMode {
+    return this.worker ? 'worker' : 'main';
+  }
+
+  setMode(mode: AnimalSimulationMode): void {
+    this.config.mode = mode;
+    if (mode === 'worker' && !this.worker) {
+      this.startWorker();
+    } else if (mode === 'main' && this.worker) {
+      this.stopWorker();
+    }
+  }
+
+  setMap(map: GameMap, mapData: MapData, pathfinder: Pathfinder | null, collision: CollisionSystem | null = null): void {
+    this.environment.map = map;
+    this.environment.pathfinder = pathfinder;
+    this.environment.collision = collision;
+    this.mapData = mapData;
+    this.glides.clear();
+    this.post({ type: 'map', mapData });
+  }
+
+  /**
+   * Run one AI turn
+   */
+  step(input: AnimalSimulationInput): void {
+    this.request(input, [], true);
+  }
+
+  /**
+   * Have every active animal react to a change in the time of day or weather
+   */
+  applyBehavior(change: AnimalBehaviorChange, input: AnimalSimulationInput): void {
+    this.request(input, [change], false);
+  }
+
+  /**
+   * Where to draw an animal, gliding from its last simulated position to the current one
+   */
+  getRenderPosition(animal: Animal, now: number = performance.now()): Position {
+    const glide = this.glides.get(animal.id);
+    if (!glide || glide.to.x !== animal.position.x || glide.to.y !== animal.position.y) {
+      return animal.position;
+    }
+
+    const progress = Math.min(1, Math.max(0, (now - glide.startedAt) / this.config.interpolationTime));
+    if (progress >= 1) {
+      this.glides.delete(animal.id);
+      return animal.position;
+    }
+    return {
+      x: glide.from.x + (glide.to.x - glide.from.x) * progress,
+      y: glide.from.y + (glide.to.y - glide.from.y) * progress
+    };
+  }
+
+  destroy(): void {
+    // Steps still out or waiting belong to a world that's going away
+    this.inFlight = null;
+    this.pending = null;
+    this.stopWorker();
+    this.callbacks = {};
+    this.glides.clear();
+  }
+
+  private request(input: AnimalSimulationInput, behaviors: AnimalBehaviorChange[], runAI: boolean): void {
+    if (this.worker && this.inFlight && performance.now() - this.inFlight.sentAt > this.config.responseTimeout) {
+      this.fallBack('the worker stopped answering');
+    }
+
+    if (!this.worker) {
+      this.runInThread(input, behaviors, runAI);
+      return;
+    }
+
+    // Wait for the step that's out, folding this one into whatever is already waiting
+    if (this.inFlight) {
+      this.pending = {
+        input,
+        behaviors: [...(this.pending?.behaviors || []), ...behaviors],
+        runAI: runAI || (this.pending?.runAI ?? false)
+      };
+      return;
+    }
+
+    this.sendStep({ input, behaviors, runAI });
+  }
+
+  private runInThread(input: AnimalSimulationInput, behaviors: AnimalBehaviorChange[], runAI: boolean): void {
+    const positions = new Map(input.animals.map(animal => [animal.id, { ...animal.position }]));
+    const notify = new Set<string>();
+    let proximity: ProximityEvent[] = [];
+
+    behaviors.forEach(change => {
+      applyBehaviorChange(input.animals, change).forEach(animal => notify.add(animal.id));
+    });
+
+    if (runAI) {
+      try {
+        const turn = runAnimalTurn(input, this.environment);
+        turn.changed.forEach(id => notify.add(id));
+        proximity = turn.proximity;
+      } catch (error) {
+        console.error('Turn-based AI update error:', error);
+      }
+    }
+
+    input.animals.forEach(animal => {
+      const from = positions.get(animal.id);
+      if (from) {
+        this.startGlide(animal.id, from, animal.position);
+      }
+    });
+
+    this.callbacks.onUpdate?.({
+      changes: input.animals
+        .filter(animal => notify.has(animal.id))
+        .map(animal => ({ animalId: animal.id, changes: {}, notify: true, version: input.versions[animal.id] ?? 0 })),
+      proximity
+    });
+  }
+
+  private sendStep(step: PendingStep): void {
+    const { input, behaviors, runAI } = step;
+    const snapshot: AnimalSimulationSnapshot = {
+      ...input,
+      stepId: ++this.stepId,
+      behaviors,
+      runAI,
+      needs: runAI
+        ? input.animals
+          .filter(animal => animal.isActive && !input.partyIds.includes(animal.id))
+          .map(animal => animalNeeds.getNeeds(animal.id, input.time))
+        : [],
+      randomState: rng('ai').getState()
+    };
+
+    this.inFlight = {
+      stepId: snapshot.stepId,
+      sentAt: performance.now(),
+      positions: new Map(input.animals.map(animal => [animal.id, { ...animal.position }])),
+      step
+    };
+    if (!this.post({ type: 'step', snapshot })) {
+      this.runInThread(input, behaviors, runAI);
+    }
+  }
+
+  private handleResponse(response: AnimalSimulationResponse): void {
+    if (response.type === 'error') {
+      this.fallBack(response.message);
+      return;
+    }
+
+    const { result } = response;
+    if (!this.inFlight || result.stepId !== this.inFlight.stepId) return;
+
+    const positions = this.inFlight.positions;
+    this.inFlight = null;
+
+    rng('ai').setState(result.randomState);
+    result.needs.forEach(needs => animalNeeds.setNeeds(needs));
+    result.changes.forEach(({ animalId, changes }) => {
+      const from = positions.get(animalId);
+      if (from && changes.position) {
+        this.startGlide(animalId, from, changes.position);
+      }
+    });
+    this.callbacks.onUpdate?.({ changes: result.changes, proximity: result.proximity });
+
+    const next = this.pending;
+    this.pending = null;
+    if (next) {
+      this.sendStep(next);
+    }
+  }
+
+  private startGlide(animalId: string, from: Position, to: Position): void {
+    if (from.x === to.x && from.y === to.y) return;
+    this.glides.set(animalId, { from: { ...from }, to: { ...to }, startedAt: performance.now() });
+  }
+
+  private startWorker(): void {
+    if (typeof Worker === 'undefined') {
+      console.warn('Web Workers are not available here; running the animal simulation in-thread');
+      return;
+    }
+
+    try {
+      const worker = new Worker(new URL('./AnimalSimulationWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<AnimalSimulationResponse>) => this.handleResponse(event.data);
+      worker.onerror = event => {
+        event.preventDefault();
+        this.fallBack(event.message || 'the worker failed to load');
+      };
+      worker.onmessageerror = () => this.fallBack('the worker sent back a message that could not be read');
+      this.worker = worker;
+
+      if (this.mapData) {
+        this.post({ type: 'map', mapData: this.mapData });
+      }
+    } catch (error) {
+      console.warn('Failed to start the animal simulation worker:', error);
+      this.worker = null;
+    }
+  }
+
+  private stopWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    // The step that was out never came back, so it runs here instead, followed by anything still waiting
+    const unanswered = this.inFlight?.step;
+    const next = this.pending;
+    this.inFlight = null;
+    this.pending = null;
+    [unanswered, next].forEach(step => {
+      if (step) {
+        this.runInThread(step.input, step.behaviors, step.runAI);
+      }
+    });
+  }
+
+  private fallBack(reason: string): void {
+    if (!this.worker) return;
+    console.warn(`Animal simulation worker stopped (${reason}); running in-thread from now on`);
+    this.stopWorker();
+  }
+
+  private post(request: AnimalSimulationRequest): boolean {
+    if (!this.worker) return false;
+
+    try {
+      this.worker.postMessage(request);
+      return true;
+    } catch (error) {
+      // A snapshot that can't be cloned is as good as a broken worker
+      this.fallBack(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+}
+
+export function createAnimalSimulation(config: Partial<AnimalSimulationConfig> = {}): AnimalSimulation {
+  return new AnimalSimulation(config);
+}
+
+export default AnimalSimulation;
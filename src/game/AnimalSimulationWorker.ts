@@ -0,0 +1,51 @@
+// Animal Simulation Worker
+// Runs animal simulation steps off the main thread and posts back what changed
+
+import { GameMap } from './Map';
+import { createPathfinder } from './Pathfinding';
+import { createCollisionSystem } from './Collision';
+import { createProximityDetector } from './ProximityDetection';
+import { animalNeeds } from './AnimalNeeds';
+import {
+  AnimalSimulationEnvironment,
+  AnimalSimulationRequest,
+  AnimalSimulationResponse,
+  runSimulationSnapshot
+} from './AnimalSimulation';
+
+const environment: AnimalSimulationEnvironment = {
+  map: null,
+  pathfinder: null,
+  collision: createCollisionSystem(undefined, { enableBoundaryCollision: false, enableTileCollision: false }),
+  proximity: createProximityDetector()
+};
+
+function respond(response: AnimalSimulationResponse): void {
+  self.postMessage(response);
+}
+
+function loadMap(map: GameMap): void {
+  environment.map = map;
+  if (environment.pathfinder) {
+    environment.pathfinder.setMap(map);
+  } else {
+    environment.pathfinder = createPathfinder(map, { collision: environment.collision || undefined });
+  }
+
+  // Needs-driven goals look for food, water and rest in the map's habitat zones
+  animalNeeds.registerMapZones(map);
+}
+
+self.onmessage = (event: MessageEvent<AnimalSimulationRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'map') {
+      loadMap(new GameMap(request.mapData));
+    } else {
+      respond({ type: 'result', result: runSimulationSnapshot(request.snapshot, environment) });
+    }
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
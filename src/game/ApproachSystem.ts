@@ -3,6 +3,7 @@
 
 import { Position } from '../types/game';
 import { Animal, getDistanceToPlayer, updateAnimalMemory } from './Animal';
+import { gameEvents } from './GameEvents';
 
 export type ApproachSpeed = 'slow' | 'normal' | 'fast' | 'sudden';
 export type ApproachPath = 'direct' | 'indirect' | 'circular' | 'zigzag';
@@ -31,6 +32,7 @@ export interface ApproachResult {
 export class ApproachSystem {
   private approachHistory: Map<string, ApproachAttempt[]> = new Map();
   private playerMovementHistory: Position[] = [];
+  private soothedUntil: Map<string, number> = new Map();
   private lastUpdateTime: number = 0;
   private callbacks: {
     onApproachAttempt?: (attempt: ApproachAttempt) => void;
@@ -83,6 +85,24 @@ export class ApproachSystem {
     return results;
   }
 
+  /**
+   * Keep an animal calm for a while, e.g. when a companion reassures it.
+   * Soothed animals react to approaches as if they were much less afraid.
+   */
+  soothe(animalId: string, duration: number): void {
+    this.soothedUntil.set(animalId, Date.now() + duration);
+  }
+
+  isSoothed(animalId: string): boolean {
+    const until = this.soothedUntil.get(animalId);
+    if (until === undefined) return false;
+    if (until <= Date.now()) {
+      this.soothedUntil.delete(animalId);
+      return false;
+    }
+    return true;
+  }
+
   /**
    * Get approach advice for a specific animal
    */
@@ -450,6 +470,8 @@ export class ApproachSystem {
       case 'fleeing': reactionScore += 0.5; break;
     }
 
+    if (this.isSoothed(animal.id)) reactionScore -= 0.4;
+
     // Determine reaction
     if (reactionScore <= 0.2) return 'calm';
     if (reactionScore <= 0.5) return 'cautious';
@@ -509,6 +531,7 @@ export class ApproachSystem {
     } else {
       this.callbacks.onFailedApproach?.(animal, result);
     }
+    gameEvents.emit(success ? 'approach.succeeded' : 'approach.failed', { animalId: animal.id, species: animal.species });
 
     return result;
   }
@@ -615,4 +638,6 @@ export function createApproachSystem(): ApproachSystem {
   return new ApproachSystem();
 }
 
+export const approachSystem = new ApproachSystem();
+
 export default ApproachSystem;
\ No newline at end of file
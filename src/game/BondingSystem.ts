@@ -1,5 +1,7 @@
 import { Animal } from './Animal';
 import { PersonalityProfile } from './AnimalPersonality';
+import { animalNeeds } from './AnimalNeeds';
+import { gameEvents } from './GameEvents';
 
 export type BondLevel = 'stranger' | 'acquaintance' | 'friend' | 'close_friend' | 'companion' | 'soul_mate';
 
@@ -132,7 +134,7 @@ export const BOND_LEVELS: Record<BondLevel, {
     timeRequired: 900000, // 15 minutes
     specialRequirements: ['trust_level:50', 'shared_experiences:2'],
     unlocks: ['play_interactions', 'basic_tricks', 'emotional_support'],
-    abilities: ['follow_player', 'simple_commands'],
+    abilities: ['follow_player', 'simple_commands', 'keen_senses', 'calming_presence', 'sniff_out'],
     privileges: ['priority_attention', 'protective_behavior']
   },
   close_friend: {
@@ -143,7 +145,7 @@ export const BOND_LEVELS: Record<BondLevel, {
     timeRequired: 1800000, // 30 minutes
     specialRequirements: ['trust_level:75', 'shared_experiences:5', 'milestone_achievements:2'],
     unlocks: ['advanced_tricks', 'emotional_communication', 'cooperative_activities'],
-    abilities: ['empathetic_response', 'skill_assistance', 'mood_synchronization'],
+    abilities: ['empathetic_response', 'skill_assistance', 'mood_synchronization', 'scout_ahead'],
     privileges: ['exclusive_interactions', 'special_locations']
   },
   companion: {
@@ -205,6 +207,22 @@ export const COMPANION_ABILITIES: Record<string, CompanionAbility> = {
     ]
   },
   
+  keen_senses: {
+    id: 'keen_senses',
+    name: 'Keen Senses',
+    description: 'The animal points out wildlife hiding nearby',
+    type: 'passive',
+    bondLevelRequired: 'friend',
+    effects: [
+      {
+        type: 'environmental',
+        target: 'environment',
+        value: 20,
+        description: 'Wild encounters in tall grass are 20% more likely while in your party'
+      }
+    ]
+  },
+  
   simple_commands: {
     id: 'simple_commands',
     name: 'Simple Commands',
@@ -222,6 +240,43 @@ export const COMPANION_ABILITIES: Record<string, CompanionAbility> = {
     ]
   },
   
+  calming_presence: {
+    id: 'calming_presence',
+    name: 'Calming Presence',
+    description: 'The animal soothes frightened wildlife nearby',
+    type: 'active',
+    bondLevelRequired: 'friend',
+    cooldown: 30000,
+    energyCost: 5,
+    effects: [
+      {
+        type: 'social',
+        target: 'environment',
+        value: 40,
+        duration: 20000,
+        description: 'Fleeing animals within 5 tiles settle down and lose some of their fear'
+      }
+    ]
+  },
+  
+  sniff_out: {
+    id: 'sniff_out',
+    name: 'Sniff Out',
+    description: 'The animal digs up things buried nearby',
+    type: 'active',
+    bondLevelRequired: 'friend',
+    cooldown: 45000,
+    energyCost: 5,
+    effects: [
+      {
+        type: 'environmental',
+        target: 'environment',
+        value: 2,
+        description: 'Finds items buried beneath landmarks within 2 tiles'
+      }
+    ]
+  },
+  
   empathetic_response: {
     id: 'empathetic_response',
     name: 'Empathetic Response',
@@ -258,6 +313,24 @@ export const COMPANION_ABILITIES: Record<string, CompanionAbility> = {
     ]
   },
   
+  scout_ahead: {
+    id: 'scout_ahead',
+    name: 'Scout Ahead',
+    description: 'The animal ranges ahead and comes back with news',
+    type: 'active',
+    bondLevelRequired: 'close_friend',
+    cooldown: 60000,
+    energyCost: 8,
+    effects: [
+      {
+        type: 'environmental',
+        target: 'environment',
+        value: 1,
+        description: 'Reveals the nearest undiscovered gathering location'
+      }
+    ]
+  },
+  
   intuitive_assistance: {
     id: 'intuitive_assistance',
     name: 'Intuitive Assistance',
@@ -310,6 +383,11 @@ export const COMPANION_ABILITIES: Record<string, CompanionAbility> = {
   }
 };
 
+export interface BondingSaveData {
+  bondingProgress: Array<[string, BondingProgress]>;
+  activeBonds: string[];
+}
+
 export class BondingSystem {
   private bondingProgress: Map<string, BondingProgress> = new Map();
   private activeBonds: Set<string> = new Set();
@@ -319,9 +397,9 @@ export class BondingSystem {
     onAbilityUnlocked?: (animalId: string, ability: CompanionAbility) => void;
     onBondDecay?: (animalId: string, decayAmount: number) => void;
   } = {};
+  private maintenanceTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor() {
-    this.loadBondingData();
     this.startBondMaintenanceLoop();
   }
 
@@ -422,18 +500,18 @@ export class BondingSystem {
     // Trigger callbacks
     if (levelUp) {
       this.bondingCallbacks.onBondLevelUp?.(animalId, newLevel);
+      gameEvents.emit('bond.levelUp', { animalId, level: newLevel });
     }
     
     milestonesAchieved.forEach(milestone => {
       this.bondingCallbacks.onMilestoneAchieved?.(animalId, milestone);
+      gameEvents.emit('bond.milestone', { animalId, milestoneId: milestone.id });
     });
     
     abilitiesUnlocked.forEach(ability => {
       this.bondingCallbacks.onAbilityUnlocked?.(animalId, ability);
     });
 
-    this.saveBondingData();
-
     return {
       levelUp,
       newLevel: levelUp ? newLevel : undefined,
@@ -832,8 +910,18 @@ export class BondingSystem {
     return preferences;
   }
 
+  /**
+   * Stop the once-a-minute bond decay check so a headless run can exit
+   */
+  stop(): void {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+  }
+
   private startBondMaintenanceLoop(): void {
-    setInterval(() => {
+    this.maintenanceTimer = setInterval(() => {
       this.processBondDecay();
     }, 60000); // Check every minute
   }
@@ -846,7 +934,9 @@ export class BondingSystem {
       const timeSinceLastActivity = now - progress.lastBondingActivity;
       
       if (timeSinceLastActivity > decayThreshold) {
-        const decayAmount = Math.floor(progress.bondDecayRate * (timeSinceLastActivity / 60000));
+        // Neglected needs wear a bond down faster; a well cared-for animal holds on
+        const needsModifier = animalNeeds.getBondDecayModifier(animalId);
+        const decayAmount = Math.floor(progress.bondDecayRate * needsModifier * (timeSinceLastActivity / 60000));
         
         if (decayAmount > 0) {
           progress.bondPoints = Math.max(0, progress.bondPoints - decayAmount);
@@ -874,29 +964,22 @@ export class BondingSystem {
     });
   }
 
-  private loadBondingData(): void {
-    try {
-      const saved = localStorage.getItem('feralFriends_bondingData');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.bondingProgress = new Map(data.bondingProgress || []);
-        this.activeBonds = new Set(data.activeBonds || []);
-      }
-    } catch (error) {
-      console.warn('Failed to load bonding data:', error);
-    }
+  /**
+   * Snapshot bonding progress for the unified save file
+   */
+  getSaveData(): BondingSaveData {
+    return {
+      bondingProgress: Array.from(this.bondingProgress.entries()),
+      activeBonds: Array.from(this.activeBonds)
+    };
   }
 
-  private saveBondingData(): void {
-    try {
-      const data = {
-        bondingProgress: Array.from(this.bondingProgress.entries()),
-        activeBonds: Array.from(this.activeBonds)
-      };
-      localStorage.setItem('feralFriends_bondingData', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save bonding data:', error);
-    }
+  /**
+   * Replace bonding progress with data from a save file
+   */
+  loadSaveData(data: Partial<BondingSaveData>): void {
+    this.bondingProgress = new Map(data.bondingProgress || []);
+    this.activeBonds = new Set(data.activeBonds || []);
   }
 }
 
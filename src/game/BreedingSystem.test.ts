@@ -0,0 +1,71 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BreedingSystem, createBreedingSystem } from './BreedingSystem';
+import { Animal, createAnimal } from './Animal';
+import { GameMap, MapObject } from './Map';
+import { partySystem } from './PartySystem';
+import { bondingSystem } from './BondingSystem';
+
+const PLAYER = { x: 10, y: 10 };
+const NOW = 1_700_000_000_000;
+
+const DEN: MapObject = {
+  id: 'fox_den',
+  type: 'landmark',
+  position: { x: 11, y: 10 },
+  size: { width: 1, height: 1 },
+  walkable: false,
+  interactable: true,
+  metadata: { nest: { species: ['fox'] } }
+};
+
+let system: BreedingSystem;
+
+function createMap(objects: MapObject[]): GameMap {
+  return {
+    getObjectsInArea: (x: number, y: number, width: number, height: number) =>
+      objects.filter(o => o.position.x >= x && o.position.x < x + width && o.position.y >= y && o.position.y < y + height)
+  } as unknown as GameMap;
+}
+
+function fox(id: string): Animal {
+  return createAnimal(id, 'fox', { ...PLAYER }, { name: id });
+}
+
+beforeEach(() => {
+  system = createBreedingSystem();
+  vi.spyOn(partySystem, 'getBondLevel').mockReturnValue('companion');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  bondingSystem.stop();
+});
+
+describe('BreedingSystem offspring', () => {
+  it('gives litters born at the same moment their own ids', () => {
+    const map = createMap([DEN]);
+
+    const first = system.breed(fox('fox_a'), fox('fox_b'), map, PLAYER, NOW);
+    const second = system.breed(fox('fox_c'), fox('fox_d'), map, PLAYER, NOW);
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(true);
+    expect(first.offspring!.id).not.toBe(second.offspring!.id);
+    expect(system.getSaveData().juveniles).toHaveLength(2);
+  });
+
+  it('keeps counting after a save is loaded', () => {
+    const map = createMap([DEN]);
+    const first = system.breed(fox('fox_a'), fox('fox_b'), map, PLAYER, NOW);
+
+    const restored = createBreedingSystem();
+    restored.loadSaveData(system.getSaveData());
+    const second = restored.breed(fox('fox_c'), fox('fox_d'), map, PLAYER, NOW);
+
+    expect(second.offspring!.id).not.toBe(first.offspring!.id);
+    expect(restored.getSaveData().juveniles).toHaveLength(2);
+  });
+});
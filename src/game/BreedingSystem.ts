@@ -0,0 +1,531 @@
+// Breeding System
+// Pairs bonded companions at nests and dens, passes traits on to offspring, tracks lineage and raises juveniles
+
+import { Position } from '../types/game';
+import { Animal, AnimalSize, AnimalSpecies, AnimalStats, createAnimal } from './Animal';
+import { GameMap, MapObject } from './Map';
+import { BondLevel, BOND_LEVELS, bondingSystem } from './BondingSystem';
+import { PersonalityProfile, PersonalityTrait, PERSONALITY_PROFILES, animalPersonality } from './AnimalPersonality';
+import { foodPreferences } from './FoodPreferences';
+import { applyRareVariant, getRareVariantInfo, getRareVariantsForSpecies, RARE_VARIANTS } from './RareAnimals';
+import { partySystem } from './PartySystem';
+import { NeedType, animalNeeds } from './AnimalNeeds';
+import { gameEvents } from './GameEvents';
+import { rng } from '../services/RandomService';
+
+export type GrowthStage = 'newborn' | 'juvenile' | 'adolescent' | 'adult';
+export type CareAction = 'feed' | 'play' | 'groom' | 'rest';
+export type BreedingSystemEvent = 'born' | 'stageChange';
+
+export interface LineageRecord {
+  animalId: string;
+  name?: string;
+  species: AnimalSpecies;
+  generation: number; // 0 for tamed animals, parents' highest + 1 for offspring
+  parentIds?: [string, string];
+  childIds: string[];
+  personality: { primary: PersonalityTrait; secondary?: PersonalityTrait };
+  variantId?: string;
+  bornAt?: number;
+}
+
+export interface JuvenileState {
+  animalId: string;
+  growth: number; // 0-100, adult at 100
+  stage: GrowthStage;
+  adultSize: AnimalSize;
+  lastCare: Partial<Record<CareAction, number>>;
+  lastUpdate: number;
+}
+
+export interface FamilyTreeNode {
+  record: LineageRecord;
+  parents: FamilyTreeNode[];
+}
+
+export interface BreedingCheck {
+  canBreed: boolean;
+  reason?: string;
+  nest?: MapObject;
+}
+
+export interface BreedingResult {
+  success: boolean;
+  message: string;
+  offspring?: Animal;
+  lineage?: LineageRecord;
+}
+
+export interface CareResult {
+  success: boolean;
+  message: string;
+  growth: number;
+  updates?: Partial<Animal>; // changes to write back to the companion
+}
+
+export interface BreedingConfig {
+  bondLevelRequired?: BondLevel;
+  cooldown?: number; // ms before a parent can breed again
+  nestRange?: number; // tiles between the player and the nest
+  growthDuration?: number; // ms for an uncared-for newborn to grow up
+  careCooldown?: number; // ms between two of the same care action
+}
+
+export interface BreedingSaveData {
+  lineage: LineageRecord[];
+  juveniles: JuvenileState[];
+  lastBred: Array<[string, number]>;
+  offspringCounter: number;
+}
+
+type BornCallback = (offspring: Animal, parents: [Animal, Animal]) => void;
+type StageChangeCallback = (juvenile: JuvenileState, previousStage: GrowthStage) => void;
+
+// Growth each stage starts at
+const GROWTH_STAGES: { growth: number; stage: GrowthStage }[] = [
+  { growth: 0, stage: 'newborn' },
+  { growth: 25, stage: 'juvenile' },
+  { growth: 60, stage: 'adolescent' },
+  { growth: 100, stage: 'adult' }
+];
+
+const SIZES: AnimalSize[] = ['tiny', 'small', 'medium', 'large'];
+
+// How many sizes below the adult size each stage is
+const STAGE_SIZE_OFFSET: Record<GrowthStage, number> = {
+  newborn: 3,
+  juvenile: 2,
+  adolescent: 1,
+  adult: 0
+};
+
+const CARE_EFFECTS: Record<CareAction, {
+  growth: number;
+  stats: Partial<Record<keyof AnimalStats, number>>;
+  needs: Partial<Record<NeedType, number>>;
+  message: string;
+}> = {
+  feed: { growth: 8, stats: { happiness: 5, health: 10 }, needs: { hunger: 40, thirst: 20 }, message: 'gobbles up its meal' },
+  play: { growth: 6, stats: { happiness: 15, energy: -10 }, needs: { social: 30, fatigue: -10 }, message: 'tumbles around happily' },
+  groom: { growth: 4, stats: { trust: 5, happiness: 5 }, needs: { stress: 25, social: 10 }, message: 'leans into your gentle grooming' },
+  rest: { growth: 5, stats: { energy: 25 }, needs: { fatigue: 40 }, message: 'curls up for a nap' }
+};
+
+// Stats an offspring draws from somewhere around its parents' range
+const INHERITED_STATS: (keyof AnimalStats)[] = ['maxHealth', 'maxEnergy', 'happiness', 'curiosity'];
+
+// Chance a parent's rare coat passes on, and the multiplier on the wild spawn chance for a new one
+const VARIANT_INHERIT_CHANCE = 0.5;
+const VARIANT_MUTATION_MULTIPLIER = 2;
+
+// Animals raised by the player start out comfortable with them
+const OFFSPRING_TRUST = 70;
+const OFFSPRING_FEAR = 5;
+
+export class BreedingSystem {
+  private config: Required<BreedingConfig>;
+  private lineage: Map<string, LineageRecord> = new Map();
+  private juveniles: Map<string, JuvenileState> = new Map();
+  private lastBred: Map<string, number> = new Map();
+  private offspringCounter: number = 0;
+  private bornCallbacks: BornCallback[] = [];
+  private stageCallbacks: StageChangeCallback[] = [];
+
+  constructor(config: BreedingConfig = {}) {
+    this.config = {
+      // Tamed companions start out as friends, so that's the bar until bonds are tracked further
+      bondLevelRequired: config.bondLevelRequired ?? 'friend',
+      cooldown: config.cooldown ?? 30 * 60 * 1000,
+      nestRange: config.nestRange ?? 2,
+      growthDuration: config.growthDuration ?? 2 * 60 * 60 * 1000,
+      careCooldown: config.careCooldown ?? 60 * 1000
+    };
+  }
+
+  /**
+   * Subscribe to births or juveniles growing into a new stage. Returns a function that unsubscribes.
+   */
+  on(event: 'born', callback: BornCallback): () => void;
+  on(event: 'stageChange', callback: StageChangeCallback): () => void;
+  on(event: BreedingSystemEvent, callback: BornCallback | StageChangeCallback): () => void {
+    if (event === 'born') {
+      this.bornCallbacks.push(callback as BornCallback);
+    } else {
+      this.stageCallbacks.push(callback as StageChangeCallback);
+    }
+    return () => this.off(event, callback);
+  }
+
+  off(event: BreedingSystemEvent, callback: BornCallback | StageChangeCallback): void {
+    const callbacks: (BornCallback | StageChangeCallback)[] = event === 'born' ? this.bornCallbacks : this.stageCallbacks;
+    const index = callbacks.indexOf(callback);
+    if (index > -1) {
+      callbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Nest or den near a position, optionally one that suits a species
+   */
+  findNest(map: GameMap, position: Position, species?: AnimalSpecies): MapObject | null {
+    const range = this.config.nestRange;
+    const nests = map
+      .getObjectsInArea(position.x - range, position.y - range, range * 2 + 1, range * 2 + 1)
+      .filter(object => Array.isArray(object.metadata?.nest?.species))
+      .filter(object => !species || object.metadata!.nest.species.includes(species));
+
+    return nests[0] ?? null;
+  }
+
+  /**
+   * Whether two companions could raise a family at a nest near the player
+   */
+  canBreed(parentA: Animal, parentB: Animal, map: GameMap | null, playerPosition: Position, now: number = Date.now()): BreedingCheck {
+    if (parentA.id === parentB.id) {
+      return { canBreed: false, reason: 'Choose two different companions' };
+    }
+    if (parentA.species !== parentB.species) {
+      return { canBreed: false, reason: 'Only companions of the same species can raise a family together' };
+    }
+
+    const required = BOND_LEVELS[this.config.bondLevelRequired];
+    const underBonded = [parentA, parentB].find(parent => BOND_LEVELS[partySystem.getBondLevel(parent.id)].level < required.level);
+    if (underBonded) {
+      return { canBreed: false, reason: `${this.getName(underBonded)} needs to be at least a ${required.name.toLowerCase()}` };
+    }
+
+    const young = [parentA, parentB].find(parent => this.isJuvenile(parent.id));
+    if (young) {
+      return { canBreed: false, reason: `${this.getName(young)} is still growing up` };
+    }
+    if (this.areCloseRelatives(parentA.id, parentB.id)) {
+      return { canBreed: false, reason: `${this.getName(parentA)} and ${this.getName(parentB)} are family already` };
+    }
+
+    const resting = [parentA, parentB].find(parent => this.getCooldownRemaining(parent.id, now) > 0);
+    if (resting) {
+      return { canBreed: false, reason: `${this.getName(resting)} is still looking after its last litter` };
+    }
+
+    const nest = map ? this.findNest(map, playerPosition, parentA.species) : null;
+    if (!nest) {
+      return { canBreed: false, reason: `Find a nest or den where ${parentA.species}s like to settle` };
+    }
+
+    return { canBreed: true, nest };
+  }
+
+  /**
+   * Raise a family: the offspring inherits personality, stats, coat and tastes from its parents
+   */
+  breed(parentA: Animal, parentB: Animal, map: GameMap | null, playerPosition: Position, now: number = Date.now()): BreedingResult {
+    const check = this.canBreed(parentA, parentB, map, playerPosition, now);
+    if (!check.canBreed || !check.nest) {
+      return { success: false, message: check.reason ?? 'These companions cannot raise a family right now' };
+    }
+
+    const parents: [Animal, Animal] = [parentA, parentB];
+    const parentRecords = parents.map(parent => this.registerFounder(parent));
+
+    // The counter keeps apart litters born in the same instant
+    const offspring = createAnimal(`offspring_${parentA.species}_${now}_${++this.offspringCounter}`, parentA.species, check.nest.position, {
+      discoveredByPlayer: true
+    });
+
+    const variantId = this.rollVariant(parents);
+    if (variantId) {
+      applyRareVariant(offspring, variantId);
+    } else {
+      const coatParent = rng('encounters').pick(parents);
+      offspring.visual = { ...offspring.visual, color: coatParent.visual.color, secondaryColor: coatParent.visual.secondaryColor, pattern: coatParent.visual.pattern };
+    }
+
+    this.inheritStats(offspring, parents);
+    offspring.behavior = {
+      ...offspring.behavior,
+      activityLevel: (parentA.behavior.activityLevel + parentB.behavior.activityLevel) / 2,
+      socialLevel: (parentA.behavior.socialLevel + parentB.behavior.socialLevel) / 2
+    };
+
+    const personality = animalPersonality.inheritPersonality(offspring, parents.map(parent => this.getPersonality(parent)));
+    foodPreferences.inheritPreferences(offspring, [parentA.id, parentB.id]);
+
+    // Raised by the player from day one
+    offspring.stats.trust = Math.max(offspring.stats.trust, OFFSPRING_TRUST);
+    offspring.stats.trustLevel = offspring.stats.trust;
+    offspring.stats.fear = Math.min(offspring.stats.fear, OFFSPRING_FEAR);
+
+    const juvenile: JuvenileState = {
+      animalId: offspring.id,
+      growth: 0,
+      stage: 'newborn',
+      adultSize: offspring.visual.size,
+      lastCare: {},
+      lastUpdate: now
+    };
+    this.juveniles.set(offspring.id, juvenile);
+    offspring.visual.size = this.getStageSize(juvenile);
+
+    const record: LineageRecord = {
+      animalId: offspring.id,
+      name: offspring.name,
+      species: offspring.species,
+      generation: Math.max(...parentRecords.map(parentRecord => parentRecord.generation)) + 1,
+      parentIds: [parentA.id, parentB.id],
+      childIds: [],
+      personality: { primary: personality.primary, secondary: personality.secondary },
+      variantId: variantId ?? undefined,
+      bornAt: now
+    };
+    this.lineage.set(offspring.id, record);
+    parentRecords.forEach(parentRecord => parentRecord.childIds.push(offspring.id));
+    parents.forEach(parent => this.lastBred.set(parent.id, now));
+
+    parents.forEach(parent => bondingSystem.addSharedExperience(parent.id, {
+      type: 'comfort',
+      description: `Welcomed a baby ${offspring.species} into the family`,
+      bondValueGained: 25,
+      emotionalImpact: 'profound'
+    }));
+
+    this.bornCallbacks.forEach(callback => callback(offspring, parents));
+    gameEvents.emit('breeding.born', {
+      animalId: offspring.id,
+      species: offspring.species,
+      parentIds: parents.map(parent => parent.id),
+      ...(variantId && { variantId })
+    });
+
+    const coat = variantId ? ` with a rare ${RARE_VARIANTS[variantId].name.toLowerCase()} coat` : '';
+    return {
+      success: true,
+      message: `${this.getName(parentA)} and ${this.getName(parentB)} welcomed a baby ${offspring.species}${coat}!`,
+      offspring,
+      lineage: record
+    };
+  }
+
+  /**
+   * Look after a juvenile to help it grow up
+   */
+  care(animal: Animal, action: CareAction, now: number = Date.now()): CareResult {
+    const juvenile = this.juveniles.get(animal.id);
+    if (!juvenile) {
+      return { success: false, message: `${this.getName(animal)} is all grown up`, growth: 0 };
+    }
+
+    const lastCare = juvenile.lastCare[action] ?? 0;
+    const wait = lastCare + this.config.careCooldown - now;
+    if (wait > 0) {
+      return { success: false, message: `Give ${this.getName(animal)} a moment (${Math.ceil(wait / 1000)}s)`, growth: 0 };
+    }
+
+    const effect = CARE_EFFECTS[action];
+    juvenile.lastCare[action] = now;
+
+    const stats = { ...animal.stats };
+    (Object.entries(effect.stats) as [keyof AnimalStats, number][]).forEach(([stat, change]) => {
+      const max = stat === 'health' ? stats.maxHealth : stat === 'energy' ? stats.maxEnergy : 100;
+      stats[stat] = Math.max(0, Math.min(max, stats[stat] + change));
+    });
+    stats.trustLevel = stats.trust;
+    (Object.entries(effect.needs) as [NeedType, number][]).forEach(([need, amount]) => {
+      animalNeeds.satisfy(animal.id, need, amount);
+    });
+
+    this.advanceGrowth(juvenile, effect.growth, now);
+
+    return {
+      success: true,
+      message: `${this.getName(animal)} ${effect.message}`,
+      growth: effect.growth,
+      updates: { stats, visual: { ...animal.visual, size: this.getStageSize(juvenile) } }
+    };
+  }
+
+  /**
+   * Grow juveniles with the passing of time
+   */
+  update(now: number = Date.now()): void {
+    this.juveniles.forEach(juvenile => {
+      const elapsed = now - juvenile.lastUpdate;
+      if (elapsed <= 0) return;
+
+      this.advanceGrowth(juvenile, (elapsed / this.config.growthDuration) * 100, now);
+    });
+  }
+
+  isJuvenile(animalId: string): boolean {
+    return this.juveniles.has(animalId);
+  }
+
+  getJuvenile(animalId: string): JuvenileState | null {
+    return this.juveniles.get(animalId) ?? null;
+  }
+
+  getJuveniles(): JuvenileState[] {
+    return Array.from(this.juveniles.values());
+  }
+
+  /**
+   * How big a juvenile looks at its current stage
+   */
+  getStageSize(juvenile: JuvenileState): AnimalSize {
+    const adultIndex = SIZES.indexOf(juvenile.adultSize);
+    return SIZES[Math.max(0, adultIndex - STAGE_SIZE_OFFSET[juvenile.stage])];
+  }
+
+  getCooldownRemaining(animalId: string, now: number = Date.now()): number {
+    return Math.max(0, (this.lastBred.get(animalId) ?? 0) + this.config.cooldown - now);
+  }
+
+  getLineage(animalId: string): LineageRecord | null {
+    return this.lineage.get(animalId) ?? null;
+  }
+
+  getChildren(animalId: string): LineageRecord[] {
+    return (this.lineage.get(animalId)?.childIds ?? [])
+      .map(id => this.lineage.get(id))
+      .filter((record): record is LineageRecord => record !== undefined);
+  }
+
+  /**
+   * An animal's ancestors, up to a number of generations back
+   */
+  getFamilyTree(animalId: string, depth: number = 2): FamilyTreeNode | null {
+    const record = this.lineage.get(animalId);
+    if (!record) return null;
+
+    const parents = depth > 0 && record.parentIds
+      ? record.parentIds
+        .map(parentId => this.getFamilyTree(parentId, depth - 1))
+        .filter((node): node is FamilyTreeNode => node !== null)
+      : [];
+
+    return { record, parents };
+  }
+
+  /**
+   * Parents, children and siblings don't raise families together
+   */
+  areCloseRelatives(animalIdA: string, animalIdB: string): boolean {
+    const a = this.lineage.get(animalIdA);
+    const b = this.lineage.get(animalIdB);
+    if (!a || !b) return false;
+
+    if (a.parentIds?.includes(animalIdB) || b.parentIds?.includes(animalIdA)) {
+      return true;
+    }
+    return !!a.parentIds && !!b.parentIds && a.parentIds.some(parentId => b.parentIds!.includes(parentId));
+  }
+
+  /**
+   * Make sure an animal has a lineage record, starting a new family line for tamed animals
+   */
+  registerFounder(animal: Animal): LineageRecord {
+    const existing = this.lineage.get(animal.id);
+    if (existing) return existing;
+
+    const personality = this.getPersonality(animal);
+    const record: LineageRecord = {
+      animalId: animal.id,
+      name: animal.name,
+      species: animal.species,
+      generation: 0,
+      childIds: [],
+      personality: { primary: personality.primary, secondary: personality.secondary },
+      variantId: getRareVariantInfo(animal)?.id
+    };
+    this.lineage.set(animal.id, record);
+    return record;
+  }
+
+  getSaveData(): BreedingSaveData {
+    return {
+      lineage: Array.from(this.lineage.values()),
+      juveniles: Array.from(this.juveniles.values()),
+      lastBred: Array.from(this.lastBred.entries()),
+      offspringCounter: this.offspringCounter
+    };
+  }
+
+  loadSaveData(data: Partial<BreedingSaveData>): void {
+    this.lineage = new Map((data.lineage || []).map(record => [record.animalId, record]));
+    this.juveniles = new Map((data.juveniles || []).map(juvenile => [juvenile.animalId, juvenile]));
+    this.lastBred = new Map(data.lastBred || []);
+    this.offspringCounter = data.offspringCounter ?? this.lineage.size;
+  }
+
+  private advanceGrowth(juvenile: JuvenileState, amount: number, now: number): void {
+    const previousStage = juvenile.stage;
+    juvenile.growth = Math.min(100, juvenile.growth + amount);
+    juvenile.lastUpdate = now;
+    juvenile.stage = [...GROWTH_STAGES].reverse().find(stage => juvenile.growth >= stage.growth)!.stage;
+
+    if (juvenile.stage === 'adult') {
+      this.juveniles.delete(juvenile.animalId);
+    }
+    if (juvenile.stage !== previousStage) {
+      this.stageCallbacks.forEach(callback => callback(juvenile, previousStage));
+      gameEvents.emit('breeding.grown', { animalId: juvenile.animalId, stage: juvenile.stage, previousStage });
+    }
+  }
+
+  private inheritStats(offspring: Animal, parents: Animal[]): void {
+    INHERITED_STATS.forEach(stat => {
+      const values = parents.map(parent => parent.stats[stat]);
+      const low = Math.min(...values);
+      const high = Math.max(...values);
+      // A little room either side of the parents so lines can improve over generations
+      const spread = Math.max(2, (high - low) * 0.25);
+      const value = Math.round(rng('encounters').range(low - spread, high + spread));
+      offspring.stats[stat] = stat === 'maxHealth' || stat === 'maxEnergy'
+        ? Math.max(10, value)
+        : Math.max(0, Math.min(100, value));
+    });
+
+    offspring.stats.health = offspring.stats.maxHealth;
+    offspring.stats.energy = offspring.stats.maxEnergy;
+  }
+
+  private rollVariant(parents: Animal[]): string | null {
+    const parentVariants = parents
+      .map(parent => getRareVariantInfo(parent)?.id as string | undefined)
+      .filter((variantId): variantId is string => !!variantId && !!RARE_VARIANTS[variantId]);
+
+    const inherited = parentVariants.find(() => rng('encounters').chance(VARIANT_INHERIT_CHANCE));
+    if (inherited) return inherited;
+
+    const species = parents[0].species;
+    const variantKey = Object.keys(RARE_VARIANTS).find(key =>
+      getRareVariantsForSpecies(species).includes(RARE_VARIANTS[key]) &&
+      rng('encounters').chance(RARE_VARIANTS[key].spawnChance * VARIANT_MUTATION_MULTIPLIER)
+    );
+    return variantKey ?? null;
+  }
+
+  private getPersonality(animal: Animal): PersonalityProfile {
+    const cached = animalPersonality.getPersonality(animal.id);
+    if (cached) return cached;
+
+    const record = this.lineage.get(animal.id);
+    if (record) {
+      return { ...PERSONALITY_PROFILES[record.personality.primary], secondary: record.personality.secondary };
+    }
+
+    // Work on a copy so assigning a personality doesn't shift the companion's stats
+    return animalPersonality.assignPersonality({ ...animal, stats: { ...animal.stats } });
+  }
+
+  private getName(animal: Animal): string {
+    return animal.name || `Your ${animal.species}`;
+  }
+}
+
+export function createBreedingSystem(config: BreedingConfig = {}): BreedingSystem {
+  return new BreedingSystem(config);
+}
+
+export const breedingSystem = new BreedingSystem();
+
+export default breedingSystem;
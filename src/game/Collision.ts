@@ -43,8 +43,7 @@ export class CollisionSystem {
   private sortedLayers: CollisionLayer[] = [];
   
   // Collision cache for performance
-  private collisionCache: Map<string, CollisionResult> = new Map();
-  private cacheTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private collisionCache: Map<string, { result: CollisionResult; expiresAt: number }> = new Map();
   private cacheMaxSize = 1000;
   private cacheTimeout = 5000; // 5 seconds
   
@@ -102,6 +101,13 @@ export class CollisionSystem {
     return this.entities.get(entityId);
   }
   
+  /**
+   * Get every registered entity
+   */
+  public getEntities(): CollidableEntity[] {
+    return Array.from(this.entities.values());
+  }
+  
   /**
    * Get all entities in area
    */
@@ -142,8 +148,8 @@ export class CollisionSystem {
     
     // Check cache first
     const cached = this.collisionCache.get(cacheKey);
-    if (cached) {
-      return cached;
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
     }
     
     let result: CollisionResult = { hasCollision: false };
@@ -386,39 +392,19 @@ export class CollisionSystem {
   }
   
   /**
-   * Cache collision result with timeout
+   * Cache collision result until it expires
    */
   private cacheResult(key: string, result: CollisionResult): void {
     // Implement simple cache size limit
     if (this.collisionCache.size >= this.cacheMaxSize) {
       // Remove oldest entries (simple approach)
       const keysToRemove = Array.from(this.collisionCache.keys()).slice(0, this.cacheMaxSize / 4);
-      keysToRemove.forEach(k => {
-        // Clear timeout for removed keys
-        const timeout = this.cacheTimeouts.get(k);
-        if (timeout) {
-          clearTimeout(timeout);
-          this.cacheTimeouts.delete(k);
-        }
-        this.collisionCache.delete(k);
-      });
-    }
-
-    // Clear old timeout if exists
-    const oldTimeout = this.cacheTimeouts.get(key);
-    if (oldTimeout) {
-      clearTimeout(oldTimeout);
+      keysToRemove.forEach(k => this.collisionCache.delete(k));
     }
 
-    this.collisionCache.set(key, result);
-
-    // Set new timeout to clear this cache entry
-    const timeout = setTimeout(() => {
-      this.collisionCache.delete(key);
-      this.cacheTimeouts.delete(key);
-    }, this.cacheTimeout);
-
-    this.cacheTimeouts.set(key, timeout);
+    // Re-inserting keeps the newest entries at the end of the map
+    this.collisionCache.delete(key);
+    this.collisionCache.set(key, { result, expiresAt: Date.now() + this.cacheTimeout });
   }
   
   /**
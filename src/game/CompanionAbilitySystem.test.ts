@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AbilityContext, CompanionAbilitySystem, createCompanionAbilitySystem } from './CompanionAbilitySystem';
+import { Animal, createAnimal } from './Animal';
+import { BondLevel } from './BondingSystem';
+import { GameMap, MapObject } from './Map';
+import { partySystem } from './PartySystem';
+import { approachSystem } from './ApproachSystem';
+import { GatheringNode, gatheringSystem } from './GatheringSystem';
+
+const PLAYER = { x: 10, y: 10 };
+
+let system: CompanionAbilitySystem;
+let companion: Animal;
+let bondLevel: BondLevel;
+
+function createContext(overrides: Partial<AbilityContext> = {}): AbilityContext {
+  return {
+    playerPosition: { ...PLAYER },
+    playerEnergy: 50,
+    maxPlayerEnergy: 100,
+    map: null,
+    animals: [],
+    spendEnergy: vi.fn(() => true),
+    restoreEnergy: vi.fn(),
+    addItem: vi.fn(),
+    ...overrides
+  };
+}
+
+function createMap(objects: MapObject[]): GameMap {
+  return {
+    getMetadata: () => ({ id: 'meadow' }),
+    getObjectsInArea: (x: number, y: number, width: number, height: number) =>
+      objects.filter(o => o.position.x >= x && o.position.x < x + width && o.position.y >= y && o.position.y < y + height)
+  } as unknown as GameMap;
+}
+
+function createNode(id: string, tile: { x: number; y: number }): GatheringNode {
+  return {
+    id,
+    name: `Hidden ${id}`,
+    location: { x: tile.x * 32, y: tile.y * 32 },
+    discovered: false
+  } as GatheringNode;
+}
+
+beforeEach(() => {
+  system = createCompanionAbilitySystem();
+  companion = createAnimal('fox_1', 'fox', { ...PLAYER }, { name: 'Rusty' });
+  bondLevel = 'companion';
+  vi.spyOn(partySystem, 'getBondLevel').mockImplementation(() => bondLevel);
+
+  // A member without a follower on the map stands at the player's side
+  partySystem.setRoster([]);
+  partySystem.loadSaveData({ members: [companion.id] });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  partySystem.loadSaveData({});
+});
+
+describe('CompanionAbilitySystem abilities', () => {
+  it('follow_player: joins the party, or leaves it when already following', () => {
+    partySystem.loadSaveData({});
+
+    const join = system.useAbility(companion, 'follow_player', createContext());
+    expect(join.success).toBe(true);
+    expect(partySystem.isMember(companion.id)).toBe(true);
+
+    const leave = createCompanionAbilitySystem().useAbility(companion, 'follow_player', createContext());
+    expect(leave).toMatchObject({ success: true, message: 'Rusty will wait here for you' });
+    expect(partySystem.isMember(companion.id)).toBe(false);
+  });
+
+  it('simple_commands: calls the party back to the player', () => {
+    const regroup = vi.spyOn(partySystem, 'regroup');
+
+    const result = system.useAbility(companion, 'simple_commands', createContext());
+
+    expect(result.success).toBe(true);
+    expect(regroup).toHaveBeenCalledOnce();
+  });
+
+  it('calming_presence: settles frightened wild animals nearby', () => {
+    const soothe = vi.spyOn(approachSystem, 'soothe');
+    const scared = createAnimal('rabbit_1', 'rabbit', { x: 12, y: 10 });
+    scared.ai.currentState = 'fleeing';
+    scared.stats.fear = 70;
+    const farAway = createAnimal('rabbit_2', 'rabbit', { x: 30, y: 30 });
+    farAway.ai.currentState = 'fleeing';
+
+    const result = system.useAbility(companion, 'calming_presence', createContext({ animals: [scared, farAway] }));
+
+    expect(result.success).toBe(true);
+    expect(result.updatedAnimals).toEqual([scared]);
+    expect(scared.ai.currentState).toBe('idle');
+    expect(scared.stats.fear).toBe(30);
+    expect(farAway.ai.currentState).toBe('fleeing');
+    expect(soothe).toHaveBeenCalledWith('rabbit_1', 20000);
+  });
+
+  it('sniff_out: digs up buried items once per spot', () => {
+    const burrow: MapObject = {
+      id: 'burrow',
+      type: 'decoration',
+      position: { x: 11, y: 11 },
+      size: { width: 1, height: 1 },
+      walkable: true,
+      interactable: false,
+      metadata: { buriedItems: ['acorn', 'shiny_pebble'] }
+    };
+    const context = createContext({ map: createMap([burrow]) });
+
+    const result = system.useAbility(companion, 'sniff_out', context);
+
+    expect(result).toMatchObject({ success: true, foundItems: ['acorn', 'shiny_pebble'] });
+    expect(context.addItem).toHaveBeenCalledWith('acorn');
+    expect(system.isExcavated('meadow', 'burrow')).toBe(true);
+
+    // Same spot again once the cooldown is over
+    const again = createCompanionAbilitySystem();
+    again.loadSaveData({ ...system.getSaveData(), cooldowns: [] });
+    expect(again.useAbility(companion, 'sniff_out', context).success).toBe(false);
+  });
+
+  it('scout_ahead: reveals the nearest hidden gathering spot', () => {
+    gatheringSystem.loadSaveData({ gatheringNodes: [createNode('far', { x: 40, y: 40 }), createNode('near', { x: 12, y: 9 })] });
+
+    const result = system.useAbility(companion, 'scout_ahead', createContext());
+
+    expect(result).toMatchObject({ success: true, revealedNodes: ['near'] });
+    expect(gatheringSystem.getHiddenNodes().map(node => node.id)).toEqual(['far']);
+    gatheringSystem.loadSaveData({});
+  });
+
+  it('skill_assistance: makes wild animals warm to the player faster for a while', () => {
+    const now = Date.now();
+
+    system.useAbility(companion, 'skill_assistance', createContext());
+
+    expect(system.getAffectionMultiplier(now)).toBeCloseTo(1.2);
+    expect(system.getAffectionMultiplier(now + 61000)).toBe(1);
+  });
+
+  it('intuitive_assistance: takes some of the energy out of the player\'s actions', () => {
+    expect(system.getEnergyCost(20)).toBe(17);
+
+    bondLevel = 'friend';
+    expect(system.getEnergyCost(20)).toBe(20);
+  });
+
+  it('emotional_healing: restores the player up to what they are missing', () => {
+    const context = createContext({ playerEnergy: 40 });
+
+    const result = system.useAbility(companion, 'emotional_healing', context);
+
+    expect(result.success).toBe(true);
+    expect(context.restoreEnergy).toHaveBeenCalledWith(50);
+  });
+
+  it('empathetic_response: comforts an exhausted player on its own', () => {
+    bondLevel = 'close_friend';
+    const rested = createContext({ playerEnergy: 80 });
+    const exhausted = createContext({ playerEnergy: 20 });
+
+    expect(system.useAbility(companion, 'empathetic_response', exhausted).success).toBe(false);
+    expect(system.checkTriggers([companion], rested)).toEqual([]);
+
+    const [activation] = system.checkTriggers([companion], exhausted);
+    expect(activation).toMatchObject({ success: true, abilityId: 'empathetic_response' });
+    expect(exhausted.restoreEnergy).toHaveBeenCalledWith(10);
+
+    // Waits out its cooldown before comforting again
+    expect(system.checkTriggers([companion], exhausted)).toEqual([]);
+  });
+});
+
+describe('CompanionAbilitySystem.useAbility checks', () => {
+  it('refuses abilities the bond has not unlocked', () => {
+    bondLevel = 'friend';
+
+    const result = system.useAbility(companion, 'emotional_healing', createContext({ playerEnergy: 40 }));
+
+    expect(result).toMatchObject({ success: false, message: 'Rusty needs a stronger bond to use Emotional Healing' });
+  });
+
+  it('only lets party members use their abilities', () => {
+    partySystem.loadSaveData({});
+
+    const result = system.useAbility(companion, 'simple_commands', createContext());
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('has to be in your party');
+  });
+
+  it('starts a cooldown after a successful use and allows it again once it runs out', () => {
+    const now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+
+    const first = system.useAbility(companion, 'simple_commands', createContext());
+    expect(first.cooldownUntil).toBe(now + 3000);
+
+    clock.mockReturnValue(now + 1000);
+    const second = system.useAbility(companion, 'simple_commands', createContext());
+    expect(second).toMatchObject({ success: false, message: 'Simple Commands is ready again in 2s' });
+    expect(system.getCooldownRemaining(companion.id, 'simple_commands')).toBe(2000);
+
+    clock.mockReturnValue(now + 3000);
+    expect(system.useAbility(companion, 'simple_commands', createContext()).success).toBe(true);
+  });
+
+  it('does not start a cooldown or spend energy when the ability finds nothing to do', () => {
+    const context = createContext();
+
+    const result = system.useAbility(companion, 'calming_presence', context);
+
+    expect(result).toMatchObject({ success: false, message: 'There are no frightened animals nearby' });
+    expect(context.spendEnergy).not.toHaveBeenCalled();
+    expect(system.getCooldownRemaining(companion.id, 'calming_presence')).toBe(0);
+  });
+
+  it('needs enough player energy and spends it on success', () => {
+    const tired = createContext({ playerEnergy: 4 });
+    expect(system.useAbility(companion, 'skill_assistance', tired)).toMatchObject({
+      success: false,
+      message: 'You need 5 energy to use Skill Assistance'
+    });
+    expect(tired.spendEnergy).not.toHaveBeenCalled();
+
+    const rested = createContext({ playerEnergy: 5 });
+    const result = system.useAbility(companion, 'skill_assistance', rested);
+    expect(result).toMatchObject({ success: true, energyCost: 5 });
+    expect(rested.spendEnergy).toHaveBeenCalledWith(5);
+  });
+});
@@ -0,0 +1,412 @@
+// Companion Ability System
+// Carries out companion abilities in the world with cooldowns, energy costs and visual feedback
+
+import { Position } from '../types/game';
+import { Animal, getDistanceToPlayer } from './Animal';
+import { GameMap } from './Map';
+import { bondingSystem, BOND_LEVELS, COMPANION_ABILITIES, CompanionAbility } from './BondingSystem';
+import { partySystem } from './PartySystem';
+import { gatheringSystem } from './GatheringSystem';
+import { approachSystem } from './ApproachSystem';
+import { VisualFeedbackSystem } from './VisualFeedback';
+import { TILE_SIZE } from '../constants';
+
+export interface AbilityContext {
+  playerPosition: Position;
+  playerEnergy: number;
+  maxPlayerEnergy: number;
+  map: GameMap | null;
+  animals: Animal[]; // wild animals on the current map
+  spendEnergy: (amount: number) => boolean;
+  restoreEnergy: (amount: number) => void;
+  addItem: (itemId: string) => void;
+}
+
+export interface AbilityActivation {
+  success: boolean;
+  abilityId: string;
+  animalId: string;
+  message: string;
+  cooldownUntil?: number;
+  energyCost?: number;
+  updatedAnimals: Animal[]; // world animals the ability changed, to write back to the store
+  foundItems: string[];
+  revealedNodes: string[];
+}
+
+export interface AbilityOption {
+  ability: CompanionAbility;
+  unlocked: boolean;
+  cooldownRemaining: number;
+}
+
+export interface ActiveAbilityBuff {
+  abilityId: string;
+  animalId: string;
+  value: number;
+  expiresAt: number;
+}
+
+export interface CompanionAbilitySaveData {
+  cooldowns: Array<[string, number]>;
+  buffs: ActiveAbilityBuff[];
+  excavated: string[]; // "mapId:objectId" of map objects already dug up
+}
+
+interface AbilityOutcome {
+  success: boolean;
+  message: string;
+  positions?: Position[]; // where to show feedback; defaults to the companion
+  updatedAnimals?: Animal[];
+  foundItems?: string[];
+  revealedNodes?: string[];
+}
+
+type AbilityHandler = (ability: CompanionAbility, companion: Animal, context: AbilityContext) => AbilityOutcome;
+
+// Joining or leaving the party is the one thing a companion can do from outside it
+const PARTY_OPTIONAL_ABILITIES = ['follow_player'];
+
+const CALM_RADIUS = 5;
+const CALMABLE_STATES = ['fleeing', 'alert', 'hiding'];
+
+// Triggered abilities kick in when the player's energy drops below this share of the maximum
+const LOW_ENERGY_RATIO = 0.25;
+
+export class CompanionAbilitySystem {
+  private cooldowns: Map<string, number> = new Map();
+  private buffs: ActiveAbilityBuff[] = [];
+  private excavated: Set<string> = new Set();
+  private visualFeedback: VisualFeedbackSystem | null = null;
+
+  private handlers: Record<string, AbilityHandler> = {
+    follow_player: (_, companion) => this.toggleFollow(companion),
+    simple_commands: (_, companion, context) => this.callParty(companion, context),
+    calming_presence: (ability, companion, context) => this.calmAnimals(ability, companion, context),
+    sniff_out: (ability, companion, context) => this.digForItems(ability, companion, context),
+    scout_ahead: (_, companion, context) => this.scoutForNodes(companion, context),
+    skill_assistance: (ability, companion) => this.assistWithAnimals(ability, companion),
+    emotional_healing: (ability, companion, context) => this.restorePlayer(ability, companion, context),
+    empathetic_response: (ability, companion, context) => this.restorePlayer(ability, companion, context)
+  };
+
+  setVisualFeedback(visualFeedback: VisualFeedbackSystem | null): void {
+    this.visualFeedback = visualFeedback;
+  }
+
+  /**
+   * Active abilities for a companion, whether its bond unlocks them and how long until they're ready
+   */
+  getAbilityOptions(animalId: string, now: number = Date.now()): AbilityOption[] {
+    return Object.values(COMPANION_ABILITIES)
+      .filter(ability => ability.type === 'active')
+      .map(ability => ({
+        ability,
+        unlocked: this.isUnlocked(animalId, ability),
+        cooldownRemaining: this.getCooldownRemaining(animalId, ability.id, now)
+      }));
+  }
+
+  getCooldownRemaining(animalId: string, abilityId: string, now: number = Date.now()): number {
+    return Math.max(0, (this.cooldowns.get(this.cooldownKey(animalId, abilityId)) ?? 0) - now);
+  }
+
+  /**
+   * Use one of a companion's active abilities. Energy is only spent and the
+   * cooldown only started when the ability actually does something.
+   */
+  useAbility(companion: Animal, abilityId: string, context: AbilityContext): AbilityActivation {
+    const ability = COMPANION_ABILITIES[abilityId];
+    const name = this.getName(companion);
+
+    if (!ability || ability.type !== 'active') {
+      return this.fail(companion, abilityId, ability ? `${ability.name} works on its own` : 'Unknown ability');
+    }
+    if (!this.isUnlocked(companion.id, ability)) {
+      return this.fail(companion, abilityId, `${name} needs a stronger bond to use ${ability.name}`);
+    }
+    if (!PARTY_OPTIONAL_ABILITIES.includes(abilityId) && !partySystem.isMember(companion.id)) {
+      return this.fail(companion, abilityId, `${name} has to be in your party to use ${ability.name}`);
+    }
+
+    const cooldownRemaining = this.getCooldownRemaining(companion.id, abilityId);
+    if (cooldownRemaining > 0) {
+      return this.fail(companion, abilityId, `${ability.name} is ready again in ${Math.ceil(cooldownRemaining / 1000)}s`);
+    }
+    if (ability.energyCost && context.playerEnergy < ability.energyCost) {
+      return this.fail(companion, abilityId, `You need ${ability.energyCost} energy to use ${ability.name}`);
+    }
+
+    return this.activate(ability, companion, context);
+  }
+
+  /**
+   * Let companions in the party react on their own, e.g. comforting an exhausted player.
+   * Call after the player's energy changes.
+   */
+  checkTriggers(companions: Animal[], context: AbilityContext): AbilityActivation[] {
+    if (context.playerEnergy >= context.maxPlayerEnergy * LOW_ENERGY_RATIO) return [];
+
+    const activations: AbilityActivation[] = [];
+    companions
+      .filter(companion => partySystem.isMember(companion.id))
+      .forEach(companion => {
+        Object.values(COMPANION_ABILITIES)
+          .filter(ability => ability.type === 'triggered' && this.handlers[ability.id])
+          .filter(ability => this.isUnlocked(companion.id, ability))
+          .filter(ability => this.getCooldownRemaining(companion.id, ability.id) === 0)
+          .forEach(ability => activations.push(this.activate(ability, companion, context)));
+      });
+
+    return activations.filter(activation => activation.success);
+  }
+
+  /**
+   * Multiplier on how quickly wild animals warm to the player in encounters
+   */
+  getAffectionMultiplier(now: number = Date.now()): number {
+    return 1 + this.getBuffBonus('skill_assistance', now) / 100;
+  }
+
+  /**
+   * What an action really costs the player once an intuitive companion in the party has helped out
+   */
+  getEnergyCost(amount: number): number {
+    const discount = partySystem.hasPassiveAbility('intuitive_assistance')
+      ? COMPANION_ABILITIES.intuitive_assistance.effects[0].value
+      : 0;
+    return Math.ceil(amount * (1 - discount / 100));
+  }
+
+  getActiveBuffs(now: number = Date.now()): ActiveAbilityBuff[] {
+    this.buffs = this.buffs.filter(buff => buff.expiresAt > now);
+    return [...this.buffs];
+  }
+
+  isExcavated(mapId: string, objectId: string): boolean {
+    return this.excavated.has(`${mapId}:${objectId}`);
+  }
+
+  getSaveData(): CompanionAbilitySaveData {
+    return {
+      cooldowns: Array.from(this.cooldowns.entries()),
+      buffs: this.getActiveBuffs(),
+      excavated: Array.from(this.excavated)
+    };
+  }
+
+  loadSaveData(data: Partial<CompanionAbilitySaveData>): void {
+    this.cooldowns = new Map(data.cooldowns || []);
+    this.buffs = data.buffs || [];
+    this.excavated = new Set(data.excavated || []);
+  }
+
+  private activate(ability: CompanionAbility, companion: Animal, context: AbilityContext): AbilityActivation {
+    const outcome = this.handlers[ability.id]
+      ? this.handlers[ability.id](ability, companion, context)
+      : { success: false, message: `${ability.name} has no effect here` };
+
+    const positions = outcome.positions?.length ? outcome.positions : [this.getCompanionPosition(companion, context)];
+    positions.forEach(position => this.visualFeedback?.onCompanionAbility(position, ability.id, outcome.success));
+
+    const activation: AbilityActivation = {
+      success: outcome.success,
+      abilityId: ability.id,
+      animalId: companion.id,
+      message: outcome.message,
+      updatedAnimals: outcome.updatedAnimals || [],
+      foundItems: outcome.foundItems || [],
+      revealedNodes: outcome.revealedNodes || []
+    };
+    if (!outcome.success) return activation;
+
+    if (ability.energyCost) {
+      context.spendEnergy(ability.energyCost);
+      activation.energyCost = ability.energyCost;
+    }
+
+    const cooldown = ability.cooldown ?? ability.effects.find(effect => effect.duration)?.duration;
+    if (cooldown) {
+      activation.cooldownUntil = Date.now() + cooldown;
+      this.cooldowns.set(this.cooldownKey(companion.id, ability.id), activation.cooldownUntil);
+    }
+
+    // Keep the relationship history in step for companions with a bonding record
+    if (bondingSystem.getBondingProgress(companion.id)) {
+      bondingSystem.useAbility(companion.id, ability.id);
+    }
+
+    return activation;
+  }
+
+  private toggleFollow(companion: Animal): AbilityOutcome {
+    if (partySystem.isMember(companion.id)) {
+      partySystem.removeMember(companion.id);
+      return { success: true, message: `${this.getName(companion)} will wait here for you` };
+    }
+
+    const result = partySystem.addMember(companion);
+    return { success: result.success, message: result.message };
+  }
+
+  private callParty(companion: Animal, context: AbilityContext): AbilityOutcome {
+    partySystem.regroup();
+    return {
+      success: true,
+      message: `${this.getName(companion)} and the party gather around you`,
+      positions: [context.playerPosition]
+    };
+  }
+
+  private calmAnimals(ability: CompanionAbility, companion: Animal, context: AbilityContext): AbilityOutcome {
+    const effect = ability.effects[0];
+    const origin = this.getCompanionPosition(companion, context);
+    const calmed = context.animals.filter(animal =>
+      animal.isActive &&
+      !partySystem.isMember(animal.id) &&
+      getDistanceToPlayer(animal, origin) <= CALM_RADIUS &&
+      CALMABLE_STATES.includes(animal.ai.currentState)
+    );
+
+    if (calmed.length === 0) {
+      return { success: false, message: 'There are no frightened animals nearby' };
+    }
+
+    const now = Date.now();
+    calmed.forEach(animal => {
+      animal.stats.fear = Math.max(0, animal.stats.fear - effect.value);
+      animal.ai.currentState = 'idle';
+      animal.ai.stateTimer = 0;
+      animal.ai.lastStateChange = now;
+      animal.ai.targetPosition = undefined;
+      animal.ai.pathToTarget = [];
+      approachSystem.soothe(animal.id, effect.duration ?? 0);
+    });
+
+    const count = calmed.length === 1 ? `the ${calmed[0].species}` : `${calmed.length} animals`;
+    return {
+      success: true,
+      message: `${this.getName(companion)} calms ${count}`,
+      positions: calmed.map(animal => animal.position),
+      updatedAnimals: calmed
+    };
+  }
+
+  private digForItems(ability: CompanionAbility, companion: Animal, context: AbilityContext): AbilityOutcome {
+    if (!context.map) {
+      return { success: false, message: 'There is nowhere to dig here' };
+    }
+
+    const radius = ability.effects[0].value;
+    const mapId = context.map.getMetadata().id;
+    const { x, y } = context.playerPosition;
+    const spot = context.map
+      .getObjectsInArea(x - radius, y - radius, radius * 2 + 1, radius * 2 + 1)
+      .filter(object => Array.isArray(object.metadata?.buriedItems) && object.metadata!.buriedItems.length > 0)
+      .filter(object => !this.isExcavated(mapId, object.id))
+      .sort((a, b) => this.distance(a.position, context.playerPosition) - this.distance(b.position, context.playerPosition))[0];
+
+    if (!spot) {
+      return { success: false, message: `${this.getName(companion)} sniffs around but finds nothing buried here` };
+    }
+
+    const items: string[] = spot.metadata!.buriedItems;
+    items.forEach(itemId => context.addItem(itemId));
+    this.excavated.add(`${mapId}:${spot.id}`);
+
+    return {
+      success: true,
+      message: `${this.getName(companion)} dug up ${items.map(item => item.replace(/_/g, ' ')).join(', ')}!`,
+      positions: [spot.position],
+      foundItems: [...items]
+    };
+  }
+
+  private scoutForNodes(companion: Animal, context: AbilityContext): AbilityOutcome {
+    // Gathering node locations are in world pixels
+    const origin = { x: context.playerPosition.x * TILE_SIZE, y: context.playerPosition.y * TILE_SIZE };
+    const node = gatheringSystem.getHiddenNodes()
+      .sort((a, b) => this.distance(a.location, origin) - this.distance(b.location, origin))[0];
+
+    if (!node || !gatheringSystem.discoverNode(node.id)) {
+      return { success: false, message: `${this.getName(companion)} comes back without finding anything new` };
+    }
+
+    return {
+      success: true,
+      message: `${this.getName(companion)} found a hidden spot: ${node.name}`,
+      revealedNodes: [node.id]
+    };
+  }
+
+  private assistWithAnimals(ability: CompanionAbility, companion: Animal): AbilityOutcome {
+    const effect = ability.effects[0];
+    const expiresAt = Date.now() + (effect.duration ?? 0);
+
+    this.buffs = this.buffs.filter(buff => buff.abilityId !== ability.id);
+    this.buffs.push({ abilityId: ability.id, animalId: companion.id, value: effect.value, expiresAt });
+
+    return {
+      success: true,
+      message: `${this.getName(companion)} is helping you win animals over (+${effect.value}% trust for ${Math.round((effect.duration ?? 0) / 1000)}s)`
+    };
+  }
+
+  private restorePlayer(ability: CompanionAbility, companion: Animal, context: AbilityContext): AbilityOutcome {
+    const missing = context.maxPlayerEnergy - context.playerEnergy + (ability.energyCost ?? 0);
+    const amount = Math.min(ability.effects[0].value, missing);
+
+    if (amount <= 0) {
+      return { success: false, message: 'You are already feeling great' };
+    }
+
+    context.restoreEnergy(amount);
+    return {
+      success: true,
+      message: `${this.getName(companion)} comforts you (+${amount} energy)`,
+      positions: [context.playerPosition]
+    };
+  }
+
+  private getBuffBonus(abilityId: string, now: number): number {
+    return this.getActiveBuffs(now)
+      .filter(buff => buff.abilityId === abilityId)
+      .reduce((total, buff) => total + buff.value, 0);
+  }
+
+  private isUnlocked(animalId: string, ability: CompanionAbility): boolean {
+    return BOND_LEVELS[partySystem.getBondLevel(animalId)].level >= BOND_LEVELS[ability.bondLevelRequired].level;
+  }
+
+  private fail(companion: Animal, abilityId: string, message: string): AbilityActivation {
+    return { success: false, abilityId, animalId: companion.id, message, updatedAnimals: [], foundItems: [], revealedNodes: [] };
+  }
+
+  private cooldownKey(animalId: string, abilityId: string): string {
+    return `${animalId}:${abilityId}`;
+  }
+
+  /**
+   * Followers walk the overworld through the party; anyone else is assumed to be at the player's side
+   */
+  private getCompanionPosition(companion: Animal, context: AbilityContext): Position {
+    const follower = partySystem.getFollowers().find(member => member.animal.id === companion.id);
+    return follower ? { ...follower.tile } : { ...context.playerPosition };
+  }
+
+  private getName(animal: Animal): string {
+    return animal.name || `Your ${animal.species}`;
+  }
+
+  private distance(a: Position, b: Position): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+}
+
+export function createCompanionAbilitySystem(): CompanionAbilitySystem {
+  return new CompanionAbilitySystem();
+}
+
+export const companionAbilitySystem = new CompanionAbilitySystem();
+
+export default companionAbilitySystem;
@@ -3,6 +3,7 @@
 
 import { Animal } from './Animal';
 import { getTrickMastery } from './TrickSystem';
+import { rivalSystem } from './RivalSystem';
 
 export type CompetitionType = 'agility' | 'tricks' | 'bonding' | 'beauty' | 'intelligence' | 'mixed';
 export type CompetitionTier = 'beginner' | 'intermediate' | 'advanced' | 'expert' | 'master';
@@ -33,6 +34,7 @@ export interface Competition {
   nextStart?: number; // timestamp
   
   // Competition state
+  templateKey?: string;
   isActive: boolean;
   participants: CompetitionEntry[];
   winners?: CompetitionResult[];
@@ -45,6 +47,11 @@ export interface CompetitionEntry {
   tricksToPerform: string[];
   registrationTime: number;
   entryFee?: number;
+
+  // NPC rivals carry their own trainer level and trick mastery (0-100)
+  isNpc?: boolean;
+  trainerLevel?: number;
+  trickMastery?: Record<string, number>;
 }
 
 export interface CompetitionResult {
@@ -196,7 +203,7 @@ export const JUDGING_CRITERIA: Record<CompetitionType, JudgingCriteria[]> = {
 export const activeCompetitions: Map<string, Competition> = new Map();
 
 /**
- * Start a new competition
+ * Start a new competition. Rival trainers fill the field, leaving a slot for the player.
  */
 export function startCompetition(competitionKey: string): Competition {
   const template = COMPETITIONS[competitionKey];
@@ -207,11 +214,16 @@ export function startCompetition(competitionKey: string): Competition {
   const competition: Competition = {
     ...template,
     id: `${competitionKey}_${Date.now()}`,
+    templateKey: competitionKey,
     isActive: true,
     participants: [],
     winners: undefined
   };
 
+  competition.participants.push(
+    ...rivalSystem.createEntries(competition, competition.maxParticipants - 1)
+  );
+
   activeCompetitions.set(competition.id, competition);
   return competition;
 }
@@ -281,10 +293,10 @@ export function judgeEntry(
 
     switch (criterion.category) {
       case 'technique':
-        score = calculateTechniqueScore(entry.animal, entry.tricksToPerform);
+        score = calculateTechniqueScore(entry.animal, entry.tricksToPerform, entry.trickMastery);
         break;
       case 'creativity':
-        score = calculateCreativityScore(entry.tricksToPerform, playerLevel);
+        score = calculateCreativityScore(entry.tricksToPerform, entry.trainerLevel ?? playerLevel);
         break;
       case 'bond':
         score = calculateBondScore(entry.animal);
@@ -321,7 +333,7 @@ export function judgeEntry(
 /**
  * Calculate technique score based on animal stats and tricks
  */
-function calculateTechniqueScore(animal: Animal, tricks: string[]): number {
+function calculateTechniqueScore(animal: Animal, tricks: string[], trickMastery?: Record<string, number>): number {
   const baseScore = 50;
   
   // Animal's trust and happiness affect technique
@@ -331,8 +343,8 @@ function calculateTechniqueScore(animal: Animal, tricks: string[]): number {
   // Trick mastery affects technique
   let trickBonus = 0;
   tricks.forEach(trickId => {
-    const mastery = getTrickMastery(animal.id, trickId);
-    trickBonus += mastery * 5; // Up to 5 points per mastered trick
+    const mastery = trickMastery?.[trickId] ?? getTrickMastery(animal.id, trickId);
+    trickBonus += (mastery / 100) * 5; // Up to 5 points per mastered trick
   });
 
   return baseScore + trustBonus + happinessBonus + trickBonus;
@@ -463,6 +475,10 @@ export function endCompetition(competitionId: string): CompetitionResult[] {
   competition.winners = results;
   competition.isActive = false;
 
+  if (competition.templateKey) {
+    rivalSystem.recordResults(competition.templateKey, competition.name, competition.tier, results);
+  }
+
   return results;
 }
 
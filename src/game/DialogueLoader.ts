@@ -0,0 +1,310 @@
+// Dialogue Loader
+// Validates JSON dialogue files and builds per-species dialogue trees
+
+import { ANIMAL_TEMPLATES } from './Animal';
+import { BOND_LEVELS } from './BondingSystem';
+import { PERSONALITY_PROFILES } from './AnimalPersonality';
+import type { DialogueTree } from './DialogueSystem';
+
+export interface DialogueFile {
+  species: string;
+  trees: DialogueTree[];
+}
+
+export interface DialogueValidationIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+export interface DialogueLoadResult {
+  trees: Map<string, DialogueTree[]>;
+  issues: DialogueValidationIssue[];
+}
+
+const TIMES_OF_DAY = ['dawn', 'day', 'dusk', 'night'];
+
+type Report = (path: string, message: string) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPrimitive(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function checkOptionalNumber(value: unknown, path: string, report: Report): void {
+  if (value !== undefined && typeof value !== 'number') {
+    report(path, 'must be a number');
+  }
+}
+
+function validateCondition(condition: unknown, path: string, report: Report): void {
+  if (!isObject(condition)) {
+    report(path, 'condition must be an object');
+    return;
+  }
+
+  switch (condition.type) {
+    case 'bond_level':
+      ['min', 'max'].forEach(key => {
+        const level = condition[key];
+        if (level !== undefined && !(typeof level === 'string' && level in BOND_LEVELS)) {
+          report(`${path}.${key}`, `unknown bond level "${String(level)}"`);
+        }
+      });
+      break;
+
+    case 'trust':
+      checkOptionalNumber(condition.min, `${path}.min`, report);
+      checkOptionalNumber(condition.max, `${path}.max`, report);
+      break;
+
+    case 'personality':
+      if (typeof condition.trait !== 'string' || !(condition.trait in PERSONALITY_PROFILES)) {
+        report(`${path}.trait`, `unknown personality trait "${String(condition.trait)}"`);
+      }
+      break;
+
+    case 'time_of_day':
+      if (!Array.isArray(condition.times) || condition.times.length === 0) {
+        report(`${path}.times`, 'must be a non-empty array');
+      } else {
+        condition.times.forEach((time, index) => {
+          if (!TIMES_OF_DAY.includes(time)) {
+            report(`${path}.times[${index}]`, `unknown time of day "${String(time)}"`);
+          }
+        });
+      }
+      break;
+
+    case 'has_item':
+      if (typeof condition.item !== 'string') report(`${path}.item`, 'must be a string');
+      checkOptionalNumber(condition.quantity, `${path}.quantity`, report);
+      break;
+
+    case 'knows_trick':
+      if (typeof condition.trick !== 'string') report(`${path}.trick`, 'must be a string');
+      break;
+
+    case 'variable':
+      if (typeof condition.name !== 'string') report(`${path}.name`, 'must be a string');
+      if (condition.equals !== undefined && !isPrimitive(condition.equals)) {
+        report(`${path}.equals`, 'must be a string, number or boolean');
+      }
+      checkOptionalNumber(condition.min, `${path}.min`, report);
+      checkOptionalNumber(condition.max, `${path}.max`, report);
+      if (condition.exists !== undefined && typeof condition.exists !== 'boolean') {
+        report(`${path}.exists`, 'must be a boolean');
+      }
+      break;
+
+    case 'not':
+      validateCondition(condition.condition, `${path}.condition`, report);
+      break;
+
+    default:
+      report(`${path}.type`, `unknown condition type "${String(condition.type)}"`);
+  }
+}
+
+function validateConditions(conditions: unknown, path: string, report: Report): void {
+  if (conditions === undefined) return;
+  if (!Array.isArray(conditions)) {
+    report(path, 'must be an array');
+    return;
+  }
+  conditions.forEach((condition, index) => validateCondition(condition, `${path}[${index}]`, report));
+}
+
+function validateOptions(
+  options: unknown,
+  path: string,
+  nodeIds: Set<string>,
+  report: Report
+): void {
+  if (!Array.isArray(options) || options.length === 0) {
+    report(path, 'must be a non-empty array of options');
+    return;
+  }
+
+  const seen = new Set<string>();
+
+  options.forEach((option, index) => {
+    const optionPath = `${path}[${index}]`;
+    if (!isObject(option)) {
+      report(optionPath, 'option must be an object');
+      return;
+    }
+
+    if (typeof option.id !== 'string' || option.id === '') {
+      report(`${optionPath}.id`, 'must be a non-empty string');
+    } else if (seen.has(option.id)) {
+      report(`${optionPath}.id`, `duplicate option id "${option.id}"`);
+    } else {
+      seen.add(option.id);
+    }
+
+    if (typeof option.text !== 'string') report(`${optionPath}.text`, 'must be a string');
+    if (option.response !== undefined && typeof option.response !== 'string') {
+      report(`${optionPath}.response`, 'must be a string');
+    }
+
+    validateConditions(option.conditions, `${optionPath}.conditions`, report);
+
+    if (option.next !== undefined && option.nextOptions !== undefined) {
+      report(optionPath, 'use either next or nextOptions, not both');
+    }
+    if (option.next !== undefined && !(typeof option.next === 'string' && nodeIds.has(option.next))) {
+      report(`${optionPath}.next`, `unknown node "${String(option.next)}"`);
+    }
+    if (option.nextOptions !== undefined) {
+      validateOptions(option.nextOptions, `${optionPath}.nextOptions`, nodeIds, report);
+    }
+
+    if (option.setVariables !== undefined) {
+      if (!isObject(option.setVariables)) {
+        report(`${optionPath}.setVariables`, 'must be an object');
+      } else {
+        Object.entries(option.setVariables).forEach(([name, value]) => {
+          if (!isPrimitive(value)) {
+            report(`${optionPath}.setVariables.${name}`, 'must be a string, number or boolean');
+          }
+        });
+      }
+    }
+
+    if (option.incrementVariables !== undefined) {
+      if (!isObject(option.incrementVariables)) {
+        report(`${optionPath}.incrementVariables`, 'must be an object');
+      } else {
+        Object.entries(option.incrementVariables).forEach(([name, value]) => {
+          checkOptionalNumber(value, `${optionPath}.incrementVariables.${name}`, report);
+        });
+      }
+    }
+
+    if (option.events !== undefined) {
+      if (!Array.isArray(option.events)) {
+        report(`${optionPath}.events`, 'must be an array');
+      } else {
+        option.events.forEach((event, eventIndex) => {
+          if (!isObject(event) || typeof event.type !== 'string') {
+            report(`${optionPath}.events[${eventIndex}]`, 'event must have a string type');
+          }
+        });
+      }
+    }
+
+    if (option.effect !== undefined) {
+      if (!isObject(option.effect)) {
+        report(`${optionPath}.effect`, 'must be an object');
+      } else {
+        checkOptionalNumber(option.effect.trust, `${optionPath}.effect.trust`, report);
+        checkOptionalNumber(option.effect.energy, `${optionPath}.effect.energy`, report);
+        if (option.effect.item !== undefined && typeof option.effect.item !== 'string') {
+          report(`${optionPath}.effect.item`, 'must be a string');
+        }
+      }
+    }
+  });
+}
+
+function validateTree(tree: unknown, path: string, treeIds: Set<string>, report: Report): void {
+  if (!isObject(tree)) {
+    report(path, 'tree must be an object');
+    return;
+  }
+
+  if (typeof tree.id !== 'string' || tree.id === '') {
+    report(`${path}.id`, 'must be a non-empty string');
+  } else if (treeIds.has(tree.id)) {
+    report(`${path}.id`, `duplicate tree id "${tree.id}"`);
+  } else {
+    treeIds.add(tree.id);
+  }
+
+  if (typeof tree.greeting !== 'string') report(`${path}.greeting`, 'must be a string');
+  checkOptionalNumber(tree.priority, `${path}.priority`, report);
+  validateConditions(tree.conditions, `${path}.conditions`, report);
+
+  const nodeIds = new Set<string>();
+  if (tree.nodes !== undefined) {
+    if (!isObject(tree.nodes)) {
+      report(`${path}.nodes`, 'must be an object');
+    } else {
+      Object.keys(tree.nodes).forEach(nodeId => nodeIds.add(nodeId));
+    }
+  }
+
+  validateOptions(tree.options, `${path}.options`, nodeIds, report);
+
+  if (isObject(tree.nodes)) {
+    Object.entries(tree.nodes).forEach(([nodeId, options]) => {
+      validateOptions(options, `${path}.nodes.${nodeId}`, nodeIds, report);
+    });
+  }
+}
+
+/**
+ * Validate a parsed dialogue file, returning every problem found
+ */
+export function validateDialogueFile(data: unknown, file: string): DialogueValidationIssue[] {
+  const issues: DialogueValidationIssue[] = [];
+  const report: Report = (path, message) => issues.push({ file, path, message });
+
+  if (!isObject(data)) {
+    report('$', 'file must contain an object');
+    return issues;
+  }
+
+  if (typeof data.species !== 'string' || !(data.species in ANIMAL_TEMPLATES)) {
+    report('$.species', `unknown species "${String(data.species)}"`);
+  }
+
+  if (!Array.isArray(data.trees) || data.trees.length === 0) {
+    report('$.trees', 'must be a non-empty array');
+    return issues;
+  }
+
+  const treeIds = new Set<string>();
+  data.trees.forEach((tree, index) => validateTree(tree, `$.trees[${index}]`, treeIds, report));
+
+  return issues;
+}
+
+/**
+ * Stamp each tree with its species so runtime code can rely on animalType
+ */
+function toDialogueTrees(file: DialogueFile): DialogueTree[] {
+  return file.trees.map(tree => ({ ...tree, animalType: file.species }));
+}
+
+/**
+ * Validate and load a set of dialogue files. Files with problems are skipped
+ * entirely so a half-valid tree never reaches the player.
+ */
+export function loadDialogueFiles(files: Record<string, unknown>): DialogueLoadResult {
+  const trees = new Map<string, DialogueTree[]>();
+  const issues: DialogueValidationIssue[] = [];
+
+  Object.entries(files).forEach(([file, data]) => {
+    const fileIssues = validateDialogueFile(data, file);
+    if (fileIssues.length > 0) {
+      issues.push(...fileIssues);
+      return;
+    }
+
+    const dialogueFile = data as DialogueFile;
+    const existing = trees.get(dialogueFile.species) || [];
+    trees.set(dialogueFile.species, [...existing, ...toDialogueTrees(dialogueFile)]);
+  });
+
+  return { trees, issues };
+}
+
+export default {
+  validateDialogueFile,
+  loadDialogueFiles
+};
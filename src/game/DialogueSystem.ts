@@ -1,10 +1,41 @@
 import { Animal, modifyTrust, modifyEnergy } from './Animal';
+import { BondLevel, BOND_LEVELS, bondingSystem } from './BondingSystem';
+import { PersonalityTrait, animalPersonality } from './AnimalPersonality';
+import { trickSystem } from './TrickSystem';
+import { loadDialogueFiles } from './DialogueLoader';
+import { DIALOGUE_FILES } from '../data/dialogue';
+import { rng } from '../services/RandomService';
+import { worldClock } from './WorldClock';
+
+export type DialogueVariableValue = string | number | boolean;
+
+export type DialogueTimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+export type DialogueCondition =
+  | { type: 'bond_level'; min?: BondLevel; max?: BondLevel }
+  | { type: 'trust'; min?: number; max?: number }
+  | { type: 'personality'; trait: PersonalityTrait }
+  | { type: 'time_of_day'; times: DialogueTimeOfDay[] }
+  | { type: 'has_item'; item: string; quantity?: number }
+  | { type: 'knows_trick'; trick: string }
+  | { type: 'variable'; name: string; equals?: DialogueVariableValue; min?: number; max?: number; exists?: boolean }
+  | { type: 'not'; condition: DialogueCondition };
+
+export interface DialogueEvent {
+  type: string;
+  data?: Record<string, DialogueVariableValue>;
+}
 
 export interface DialogueOption {
   id: string;
   text: string;
   response?: string;
+  conditions?: DialogueCondition[];
   nextOptions?: DialogueOption[];
+  next?: string; // Key into the tree's nodes
+  setVariables?: Record<string, DialogueVariableValue>;
+  incrementVariables?: Record<string, number>;
+  events?: DialogueEvent[];
   effect?: {
     trust?: number;
     energy?: number;
@@ -16,7 +47,10 @@ export interface DialogueTree {
   id: string;
   animalType: string;
   greeting: string;
+  priority?: number;
+  conditions?: DialogueCondition[];
   options: DialogueOption[];
+  nodes?: Record<string, DialogueOption[]>;
 }
 
 export interface DialogueState {
@@ -27,8 +61,30 @@ export interface DialogueState {
   history: string[];
 }
 
+export interface DialogueContext {
+  getTimeOfDay: () => DialogueTimeOfDay;
+  hasItem: (itemId: string, quantity: number) => boolean;
+}
+
+// Variables prefixed with this are shared across all animals
+const GLOBAL_PREFIX = 'global.';
+
+export interface DialogueSaveData {
+  globalVariables: Record<string, DialogueVariableValue>;
+  animalVariables: Array<[string, Record<string, DialogueVariableValue>]>;
+}
+
 export class DialogueSystem {
   private dialogueTrees: Map<string, DialogueTree[]> = new Map();
+  private globalVariables: Record<string, DialogueVariableValue> = {};
+  private animalVariables: Map<string, Record<string, DialogueVariableValue>> = new Map();
+  private context: DialogueContext = {
+    getTimeOfDay: () => worldClock.getLightPhase(),
+    hasItem: () => false
+  };
+  private callbacks: {
+    onEvent?: (event: DialogueEvent, animal: Animal) => void;
+  } = {};
   private state: DialogueState = {
     isActive: false,
     currentAnimal: null,
@@ -42,186 +98,91 @@ export class DialogueSystem {
   }
 
   private initializeDialogueTrees(): void {
-    const catDialogues: DialogueTree[] = [
-      {
-        id: 'cat_first_meeting',
-        animalType: 'cat',
-        greeting: "The cat looks at you curiously, whiskers twitching.",
-        options: [
-          {
-            id: 'offer_food',
-            text: "Offer some food",
-            response: "The cat sniffs cautiously and takes a small bite. It seems to trust you a little more.",
-            effect: { trust: 5, energy: -1 },
-            nextOptions: [
-              {
-                id: 'pet_gently',
-                text: "Pet gently",
-                response: "The cat purrs softly and rubs against your hand.",
-                effect: { trust: 3 }
-              },
-              {
-                id: 'talk_softly',
-                text: "Talk softly",
-                response: "You speak in gentle tones. The cat meows back quietly.",
-                effect: { trust: 2 }
-              }
-            ]
-          },
-          {
-            id: 'approach_slowly',
-            text: "Approach slowly",
-            response: "The cat watches you carefully but doesn't run away.",
-            effect: { trust: 2 },
-            nextOptions: [
-              {
-                id: 'extend_hand',
-                text: "Extend your hand",
-                response: "The cat sniffs your hand and seems more comfortable.",
-                effect: { trust: 3 }
-              }
-            ]
-          },
-          {
-            id: 'make_sound',
-            text: "Make clicking sounds",
-            response: "The cat tilts its head, intrigued by the sounds you're making.",
-            effect: { trust: 1 }
-          }
-        ]
-      }
-    ];
-
-    const dogDialogues: DialogueTree[] = [
-      {
-        id: 'dog_first_meeting',
-        animalType: 'dog',
-        greeting: "A friendly dog bounds over, tail wagging enthusiastically!",
-        options: [
-          {
-            id: 'play_fetch',
-            text: "Play fetch",
-            response: "The dog barks excitedly and brings back a stick, eyes bright with joy!",
-            effect: { trust: 8, energy: -2 },
-            nextOptions: [
-              {
-                id: 'continue_playing',
-                text: "Keep playing",
-                response: "The dog is having the time of its life! You're becoming fast friends.",
-                effect: { trust: 5, energy: -1 }
-              },
-              {
-                id: 'give_treats',
-                text: "Give treats",
-                response: "The dog sits obediently and devours the treats with gusto.",
-                effect: { trust: 4 }
-              }
-            ]
-          },
-          {
-            id: 'pet_enthusiastically',
-            text: "Pet enthusiastically",
-            response: "The dog leans into your touch, tail wagging even faster!",
-            effect: { trust: 6 }
-          },
-          {
-            id: 'speak_excitedly',
-            text: "Speak in excited tones",
-            response: "The dog barks back happily, matching your energy!",
-            effect: { trust: 4 }
-          }
-        ]
-      }
-    ];
-
-    const rabbitDialogues: DialogueTree[] = [
-      {
-        id: 'rabbit_first_meeting',
-        animalType: 'rabbit',
-        greeting: "A small rabbit freezes, ready to bolt at any sudden movement.",
-        options: [
-          {
-            id: 'move_very_slowly',
-            text: "Move very slowly",
-            response: "The rabbit stays put, watching you with large, alert eyes.",
-            effect: { trust: 3 },
-            nextOptions: [
-              {
-                id: 'offer_carrot',
-                text: "Offer a carrot",
-                response: "The rabbit cautiously hops closer and nibbles the carrot.",
-                effect: { trust: 5, energy: -1 }
-              },
-              {
-                id: 'sit_quietly',
-                text: "Sit quietly nearby",
-                response: "The rabbit gradually relaxes, sensing you're not a threat.",
-                effect: { trust: 4 }
-              }
-            ]
-          },
-          {
-            id: 'whisper_softly',
-            text: "Whisper softly",
-            response: "The rabbit's ears twitch, listening to your gentle voice.",
-            effect: { trust: 2 }
-          },
-          {
-            id: 'stay_still',
-            text: "Stay perfectly still",
-            response: "The rabbit seems less nervous with your calm presence.",
-            effect: { trust: 1 }
-          }
-        ]
-      }
-    ];
+    const { trees, issues } = loadDialogueFiles(DIALOGUE_FILES);
 
-    this.dialogueTrees.set('cat', catDialogues);
-    this.dialogueTrees.set('dog', dogDialogues);
-    this.dialogueTrees.set('rabbit', rabbitDialogues);
+    issues.forEach(issue => {
+      console.warn(`Invalid dialogue in ${issue.file} at ${issue.path}: ${issue.message}`);
+    });
+
+    this.dialogueTrees = trees;
   }
 
-  startDialogue(animal: Animal): boolean {
-    const trees = this.dialogueTrees.get(animal.type);
-    if (!trees || trees.length === 0) return false;
+  /**
+   * Provide game state used by dialogue conditions
+   */
+  setContext(context: Partial<DialogueContext>): void {
+    this.context = { ...this.context, ...context };
+  }
+
+  /**
+   * Set system callbacks
+   */
+  setCallbacks(callbacks: {
+    onEvent?: (event: DialogueEvent, animal: Animal) => void;
+  }): void {
+    this.callbacks = callbacks;
+  }
 
-    const appropriateTree = this.selectDialogueTree(animal, trees);
+  startDialogue(animal: Animal): boolean {
+    const appropriateTree = this.selectDialogueTree(animal);
     if (!appropriateTree) return false;
 
+    const greeting = this.interpolate(appropriateTree.greeting, animal);
+
     this.state = {
       isActive: true,
       currentAnimal: animal,
-      currentTree: appropriateTree,
-      currentOptions: appropriateTree.options,
-      history: [appropriateTree.greeting]
+      currentTree: { ...appropriateTree, greeting },
+      currentOptions: this.resolveOptions(animal, appropriateTree.options),
+      history: [greeting]
     };
 
     return true;
   }
 
-  private selectDialogueTree(animal: Animal, trees: DialogueTree[]): DialogueTree | null {
-    if (animal.stats.trustLevel < 10) {
-      return trees.find(tree => tree.id.includes('first_meeting')) || trees[0];
-    }
-    
-    return trees[Math.floor(Math.random() * trees.length)];
+  /**
+   * Pick the highest priority tree whose conditions the animal meets
+   */
+  selectDialogueTree(animal: Animal, trees: DialogueTree[] = this.getTreesForSpecies(animal.type)): DialogueTree | null {
+    const eligible = trees.filter(tree => this.checkConditions(animal, tree.conditions));
+    if (eligible.length === 0) return null;
+
+    const topPriority = Math.max(...eligible.map(tree => tree.priority || 0));
+    const candidates = eligible.filter(tree => (tree.priority || 0) === topPriority);
+
+    return rng('encounters').pick(candidates);
+  }
+
+  getTreesForSpecies(species: string): DialogueTree[] {
+    return this.dialogueTrees.get(species) || [];
   }
 
   selectOption(optionId: string): DialogueOption | null {
     const option = this.state.currentOptions.find(opt => opt.id === optionId);
-    if (!option || !this.state.currentAnimal) return null;
+    const animal = this.state.currentAnimal;
+    if (!option || !animal) return null;
+
+    // Conditions may have changed since the options were shown
+    if (!this.checkConditions(animal, option.conditions)) return null;
+
+    this.applyVariables(animal, option);
 
     if (option.response) {
       this.state.history.push(`You: ${option.text}`);
-      this.state.history.push(option.response);
+      this.state.history.push(this.interpolate(option.response, animal));
     }
 
     if (option.effect) {
-      this.applyEffects(this.state.currentAnimal, option.effect);
+      this.applyEffects(animal, option.effect);
     }
 
-    if (option.nextOptions && option.nextOptions.length > 0) {
-      this.state.currentOptions = option.nextOptions;
+    option.events?.forEach(event => this.callbacks.onEvent?.(event, animal));
+
+    const nextOptions = this.getNextOptions(option);
+    const available = this.resolveOptions(animal, nextOptions);
+
+    if (available.length > 0) {
+      this.state.currentOptions = available;
     } else {
       this.endDialogue();
     }
@@ -229,6 +190,22 @@ export class DialogueSystem {
     return option;
   }
 
+  private getNextOptions(option: DialogueOption): DialogueOption[] {
+    if (option.next) {
+      return this.state.currentTree?.nodes?.[option.next] || [];
+    }
+    return option.nextOptions || [];
+  }
+
+  /**
+   * Filter options by their conditions and fill in variable references
+   */
+  private resolveOptions(animal: Animal, options: DialogueOption[]): DialogueOption[] {
+    return options
+      .filter(option => this.checkConditions(animal, option.conditions))
+      .map(option => ({ ...option, text: this.interpolate(option.text, animal) }));
+  }
+
   private applyEffects(animal: Animal, effects: DialogueOption['effect']): void {
     if (effects?.trust) {
       modifyTrust(animal, effects.trust);
@@ -236,6 +213,104 @@ export class DialogueSystem {
     if (effects?.energy) {
       modifyEnergy(animal, effects.energy);
     }
+    if (effects?.item) {
+      this.callbacks.onEvent?.({ type: 'item_received', data: { item: effects.item } }, animal);
+    }
+  }
+
+  // Conditions
+
+  checkConditions(animal: Animal, conditions: DialogueCondition[] = []): boolean {
+    return conditions.every(condition => this.checkCondition(animal, condition));
+  }
+
+  private checkCondition(animal: Animal, condition: DialogueCondition): boolean {
+    switch (condition.type) {
+      case 'bond_level': {
+        const bondLevel = bondingSystem.getBondingProgress(animal.id)?.currentBondLevel || 'stranger';
+        const level = BOND_LEVELS[bondLevel].level;
+        if (condition.min && level < BOND_LEVELS[condition.min].level) return false;
+        if (condition.max && level > BOND_LEVELS[condition.max].level) return false;
+        return true;
+      }
+
+      case 'trust':
+        if (condition.min !== undefined && animal.stats.trust < condition.min) return false;
+        if (condition.max !== undefined && animal.stats.trust > condition.max) return false;
+        return true;
+
+      case 'personality': {
+        const personality = animalPersonality.getPersonality(animal.id);
+        return personality?.primary === condition.trait || personality?.secondary === condition.trait;
+      }
+
+      case 'time_of_day':
+        return condition.times.includes(this.context.getTimeOfDay());
+
+      case 'has_item':
+        return this.context.hasItem(condition.item, condition.quantity || 1);
+
+      case 'knows_trick':
+        return trickSystem.getLearnedTricks(animal.id).some(trick => trick.trickId === condition.trick);
+
+      case 'variable': {
+        const value = this.getVariable(animal.id, condition.name);
+        if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return false;
+        if (condition.equals !== undefined && value !== condition.equals) return false;
+        if (condition.min !== undefined && !(typeof value === 'number' && value >= condition.min)) return false;
+        if (condition.max !== undefined && !(typeof value === 'number' && value <= condition.max)) return false;
+        return true;
+      }
+
+      case 'not':
+        return !this.checkCondition(animal, condition.condition);
+
+      default:
+        return false;
+    }
+  }
+
+  // Variables
+
+  getVariable(animalId: string, name: string): DialogueVariableValue | undefined {
+    if (name.startsWith(GLOBAL_PREFIX)) {
+      return this.globalVariables[name];
+    }
+    return this.animalVariables.get(animalId)?.[name];
+  }
+
+  setVariable(animalId: string, name: string, value: DialogueVariableValue): void {
+    if (name.startsWith(GLOBAL_PREFIX)) {
+      this.globalVariables[name] = value;
+    } else {
+      const variables = this.animalVariables.get(animalId) || {};
+      variables[name] = value;
+      this.animalVariables.set(animalId, variables);
+    }
+  }
+
+  private applyVariables(animal: Animal, option: DialogueOption): void {
+    Object.entries(option.setVariables || {}).forEach(([name, value]) => {
+      this.setVariable(animal.id, name, value);
+    });
+
+    Object.entries(option.incrementVariables || {}).forEach(([name, amount]) => {
+      const current = this.getVariable(animal.id, name);
+      this.setVariable(animal.id, name, (typeof current === 'number' ? current : 0) + amount);
+    });
+  }
+
+  /**
+   * Replace {{name}} references with variable values or animal fields
+   */
+  private interpolate(text: string, animal: Animal): string {
+    return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name: string) => {
+      if (name === 'animal.name') return animal.name || animal.species;
+      if (name === 'animal.species') return animal.species;
+
+      const value = this.getVariable(animal.id, name);
+      return value !== undefined ? String(value) : match;
+    });
   }
 
   endDialogue(): void {
@@ -267,6 +342,24 @@ export class DialogueSystem {
   isDialogueActive(): boolean {
     return this.state.isActive;
   }
+
+  /**
+   * Snapshot dialogue variables for the unified save file
+   */
+  getSaveData(): DialogueSaveData {
+    return {
+      globalVariables: this.globalVariables,
+      animalVariables: Array.from(this.animalVariables.entries())
+    };
+  }
+
+  /**
+   * Replace dialogue variables with data from a save file
+   */
+  loadSaveData(data: Partial<DialogueSaveData>): void {
+    this.globalVariables = data.globalVariables || {};
+    this.animalVariables = new Map(data.animalVariables || []);
+  }
 }
 
-export const dialogueSystem = new DialogueSystem();
\ No newline at end of file
+export const dialogueSystem = new DialogueSystem();
@@ -0,0 +1,428 @@
+// Ecosystem System
+// Tracks per-zone species populations linked by a predator-prey food web, driving spawns and predator avoidance
+
+import { Position, Season } from '../types/game';
+import { Animal, AnimalSpecies, getDistanceToPosition } from './Animal';
+import { AnimalSpawner, GameMap } from './Map';
+import { BIOME_DATA, HabitatZone, activeZones, getZoneAtPosition } from './HabitatSystem';
+import { gameEvents } from './GameEvents';
+
+// Fish aren't encounterable animals, but bears and otters depend on them
+export type EcosystemSpecies = AnimalSpecies | 'fish';
+
+export interface ZonePopulation {
+  zoneId: string;
+  mapId: string;
+  populations: Partial<Record<EcosystemSpecies, number>>;
+  capacity: Partial<Record<EcosystemSpecies, number>>;
+}
+
+export interface PopulationSample {
+  mapId: string;
+  day: number;
+  hour: number;
+  totals: Partial<Record<EcosystemSpecies, number>>;
+}
+
+export interface SpawnerOutput {
+  spawnerId: string;
+  species: EcosystemSpecies | null;
+  spawnRate: number;
+  maxAnimals: number;
+}
+
+export interface EcosystemConfig {
+  historyLength: number; // samples kept per map
+  immigrationRate: number; // animals per hour drifting into an empty zone
+  referenceArea: number; // tiles a biome's carrying capacity is quoted for
+  nativeThreshold: number; // biome spawn modifier at which a species lives there
+}
+
+export interface EcosystemSaveData {
+  zones: ZonePopulation[];
+  history: PopulationSample[];
+}
+
+type EcosystemUpdateCallback = (mapId: string, sample: PopulationSample) => void;
+
+interface SpeciesDynamics {
+  birthRate: number;
+  deathRate: number;
+  conversion?: number;
+}
+
+// Prey each predator hunts, with how effectively a zone's full complement of that predator hunts it
+export const FOOD_WEB: Partial<Record<EcosystemSpecies, Partial<Record<EcosystemSpecies, number>>>> = {
+  hawk: { mouse: 0.1, rabbit: 0.05, squirrel: 0.03 },
+  owl: { mouse: 0.1, rabbit: 0.03, bat: 0.03 },
+  fox: { rabbit: 0.08, mouse: 0.06, bird: 0.02 },
+  wolf: { deer: 0.03, rabbit: 0.04 },
+  bear: { fish: 0.08, mouse: 0.02, deer: 0.01 },
+  otter: { fish: 0.08, frog: 0.04 }
+};
+
+// Hourly birth and death rates; predators raise young in proportion to what they catch
+const SPECIES_DYNAMICS: Partial<Record<EcosystemSpecies, SpeciesDynamics>> = {
+  rabbit: { birthRate: 0.08, deathRate: 0.01 },
+  mouse: { birthRate: 0.12, deathRate: 0.02 },
+  squirrel: { birthRate: 0.05, deathRate: 0.01 },
+  deer: { birthRate: 0.03, deathRate: 0.005 },
+  bird: { birthRate: 0.04, deathRate: 0.01 },
+  butterfly: { birthRate: 0.1, deathRate: 0.04 },
+  frog: { birthRate: 0.06, deathRate: 0.02 },
+  bat: { birthRate: 0.04, deathRate: 0.01 },
+  fish: { birthRate: 0.1, deathRate: 0.01 },
+  hawk: { birthRate: 0, deathRate: 0.02, conversion: 2.0 },
+  owl: { birthRate: 0, deathRate: 0.02, conversion: 2.0 },
+  fox: { birthRate: 0, deathRate: 0.015, conversion: 2.0 },
+  wolf: { birthRate: 0, deathRate: 0.01, conversion: 2.0 },
+  bear: { birthRate: 0, deathRate: 0.008, conversion: 1.5 },
+  otter: { birthRate: 0, deathRate: 0.015, conversion: 2.0 }
+};
+
+const DEFAULT_DYNAMICS: SpeciesDynamics = { birthRate: 0.03, deathRate: 0.01 };
+
+// Fish live wherever there's open water
+const FISH_CAPACITY: Partial<Record<string, number>> = {
+  water: 25,
+  river: 20,
+  swamp: 10,
+  temperate: 8,
+  forest: 8,
+  meadow: 5,
+  grassland: 5,
+  mountain: 5
+};
+
+// Spawners in map JSON use everyday names; fold them into the species the ecosystem tracks
+const SPECIES_ALIASES: Record<string, EcosystemSpecies> = {
+  bunny: 'rabbit',
+  robin: 'bird',
+  sparrow: 'bird',
+  duck: 'bird',
+  mallard: 'bird',
+  red_fox: 'fox',
+  forest_owl: 'owl',
+  red_squirrel: 'squirrel',
+  white_tailed_deer: 'deer',
+  golden_eagle: 'hawk',
+  tree_frog: 'frog',
+  cave_bat: 'bat',
+  trout: 'fish',
+  minnow: 'fish',
+  marmot: 'mouse',
+  pika: 'mouse'
+};
+
+const SEASON_BIRTH_MODIFIERS: Record<Season, number> = {
+  spring: 1.5,
+  summer: 1.0,
+  autumn: 0.7,
+  winter: 0.3
+};
+
+const DEFAULT_CONFIG: EcosystemConfig = {
+  historyLength: 48,
+  immigrationRate: 0.1,
+  referenceArea: 100,
+  nativeThreshold: 1.5
+};
+
+export class EcosystemSystem {
+  private zones: Map<string, ZonePopulation> = new Map();
+  private history: Map<string, PopulationSample[]> = new Map();
+  private currentMapId: string | null = null;
+  private updateCallbacks: EcosystemUpdateCallback[] = [];
+  private config: EcosystemConfig;
+
+  constructor(config: Partial<EcosystemConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Subscribe to population updates. Returns a function that unsubscribes.
+   */
+  on(event: 'update', callback: EcosystemUpdateCallback): () => void {
+    this.updateCallbacks.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  off(_event: 'update', callback: EcosystemUpdateCallback): void {
+    const index = this.updateCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.updateCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Seed populations for a map's habitat zones the first time it's visited.
+   * Zones must already be registered in HabitatSystem.activeZones.
+   */
+  registerMap(map: GameMap): void {
+    const mapId = map.getMetadata().id;
+    this.currentMapId = mapId;
+
+    const spawnerSpecies = map.getSpawners()
+      .map(spawner => ({ spawner, species: this.resolveSpecies(spawner.animalTypes) }))
+      .filter((entry): entry is { spawner: AnimalSpawner; species: EcosystemSpecies } => entry.species !== null);
+    const hasWater = this.hasWater(map);
+
+    activeZones.forEach(zone => {
+      if (this.zones.has(zone.id)) return;
+
+      const biome = BIOME_DATA[zone.biome];
+      const areaScale = Math.max(0.25, ((zone.bounds.width + 1) * (zone.bounds.height + 1)) / this.config.referenceArea);
+      const populations: ZonePopulation['populations'] = {};
+      const capacity: ZonePopulation['capacity'] = {};
+
+      // Species typical of the biome or named by a spawner, plus anything common enough that they hunt
+      const residents = (Object.keys(biome.spawnModifiers) as AnimalSpecies[]).filter(species =>
+        biome.spawnModifiers[species] >= this.config.nativeThreshold ||
+        spawnerSpecies.some(entry => entry.species === species)
+      );
+      residents.forEach(predator => {
+        Object.keys(FOOD_WEB[predator] || {}).forEach(prey => {
+          const species = prey as AnimalSpecies;
+          if ((biome.spawnModifiers[species] ?? 0) >= 1 && !residents.includes(species)) {
+            residents.push(species);
+          }
+        });
+      });
+
+      residents.forEach(species => {
+        const fromSpawner = spawnerSpecies.find(entry => entry.species === species);
+
+        capacity[species] = Math.max(1, Math.round((biome.carryingCapacity[species] || 0) * areaScale));
+        populations[species] = Math.max(
+          Math.round(capacity[species]! * 0.6),
+          fromSpawner ? Math.min(fromSpawner.spawner.maxAnimals, capacity[species]!) : 0
+        );
+      });
+
+      if (hasWater && FISH_CAPACITY[zone.biome]) {
+        capacity.fish = Math.max(1, Math.round(FISH_CAPACITY[zone.biome]! * areaScale));
+        populations.fish = Math.round(capacity.fish * 0.6);
+      }
+
+      this.zones.set(zone.id, { zoneId: zone.id, mapId, populations, capacity });
+    });
+  }
+
+  /**
+   * Advance the current map's populations by one game hour
+   */
+  step(season: Season = 'spring', day: number = 1, hour: number = 0): PopulationSample | null {
+    if (!this.currentMapId) return null;
+    const mapId = this.currentMapId;
+
+    this.getZonesForMap(mapId).forEach(population => {
+      const zone = activeZones.get(population.zoneId);
+      if (zone) {
+        this.stepZone(population, zone, season);
+      }
+    });
+
+    const sample: PopulationSample = { mapId, day, hour, totals: this.getMapTotals(mapId) };
+    const samples = [...(this.history.get(mapId) || []), sample].slice(-this.config.historyLength);
+    this.history.set(mapId, samples);
+
+    this.updateCallbacks.forEach(callback => callback(mapId, sample));
+    gameEvents.emit('ecosystem.updated', { mapId, day, hour, totals: { ...sample.totals } });
+    return sample;
+  }
+
+  /**
+   * Total population of each species across a map's zones
+   */
+  getMapTotals(mapId: string = this.currentMapId || ''): Partial<Record<EcosystemSpecies, number>> {
+    const totals: Partial<Record<EcosystemSpecies, number>> = {};
+    this.getZonesForMap(mapId).forEach(zone => {
+      (Object.entries(zone.populations) as [EcosystemSpecies, number][]).forEach(([species, count]) => {
+        totals[species] = (totals[species] || 0) + count;
+      });
+    });
+    return totals;
+  }
+
+  getZonesForMap(mapId: string = this.currentMapId || ''): ZonePopulation[] {
+    return Array.from(this.zones.values()).filter(zone => zone.mapId === mapId);
+  }
+
+  getHistory(mapId: string = this.currentMapId || ''): PopulationSample[] {
+    return [...(this.history.get(mapId) || [])];
+  }
+
+  /**
+   * How abundant a species is where the player is, relative to what the habitat supports.
+   * Species the ecosystem doesn't track keep their usual weight.
+   */
+  getEncounterWeight(species: AnimalSpecies, position: Position): number {
+    const zone = getZoneAtPosition(position);
+    const population = zone ? this.zones.get(zone.id) : undefined;
+    const capacity = population?.capacity[species];
+    if (!population || !capacity) return 1;
+
+    const abundance = (population.populations[species] || 0) / capacity;
+    return Math.max(0.05, Math.min(2, abundance * 1.5));
+  }
+
+  /**
+   * Scale a map spawner's output by how many of its species are left on the map
+   */
+  getSpawnerOutput(spawner: AnimalSpawner, mapId: string = this.currentMapId || ''): SpawnerOutput {
+    const species = this.resolveSpecies(spawner.animalTypes);
+    if (!species) {
+      return { spawnerId: spawner.id, species, spawnRate: spawner.spawnRate, maxAnimals: spawner.maxAnimals };
+    }
+
+    const zones = this.getZonesForMap(mapId);
+    const total = zones.reduce((sum, zone) => sum + (zone.populations[species] || 0), 0);
+    const capacity = zones.reduce((sum, zone) => sum + (zone.capacity[species] || 0), 0);
+    if (capacity === 0) {
+      return { spawnerId: spawner.id, species, spawnRate: spawner.spawnRate, maxAnimals: spawner.maxAnimals };
+    }
+
+    return {
+      spawnerId: spawner.id,
+      species,
+      spawnRate: spawner.spawnRate * Math.min(2, total / (capacity * 0.6)),
+      maxAnimals: Math.min(spawner.maxAnimals, Math.floor(total))
+    };
+  }
+
+  /**
+   * Take an animal out of its zone's population, e.g. when the player tames it
+   */
+  recordRemoval(species: AnimalSpecies, position: Position): void {
+    const zone = getZoneAtPosition(position);
+    const population = zone ? this.zones.get(zone.id) : undefined;
+    if (population?.populations[species] !== undefined) {
+      population.populations[species] = Math.max(0, population.populations[species]! - 1);
+    }
+  }
+
+  isPredatorOf(predator: EcosystemSpecies, prey: EcosystemSpecies): boolean {
+    return (FOOD_WEB[predator]?.[prey] ?? 0) > 0;
+  }
+
+  /**
+   * Find the closest predator of this animal close enough to send it running
+   */
+  findNearbyPredator(animal: Animal, animals: Animal[]): Animal | null {
+    const range = animal.behavior.fleeDistance + 1;
+    let nearest: Animal | null = null;
+    let nearestDistance = range;
+
+    for (const other of animals) {
+      if (other.id === animal.id || !other.isActive || !this.isPredatorOf(other.species, animal.species)) continue;
+      const distance = getDistanceToPosition(animal, other.position);
+      if (distance <= nearestDistance) {
+        nearest = other;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  getSaveData(): EcosystemSaveData {
+    return {
+      zones: Array.from(this.zones.values()),
+      history: Array.from(this.history.values()).flat()
+    };
+  }
+
+  loadSaveData(data: Partial<EcosystemSaveData>): void {
+    this.zones = new Map((data.zones || []).map(zone => [zone.zoneId, zone]));
+    this.history = new Map();
+    (data.history || []).forEach(sample => {
+      this.history.set(sample.mapId, [...(this.history.get(sample.mapId) || []), sample]);
+    });
+  }
+
+  private stepZone(population: ZonePopulation, zone: HabitatZone, season: Season): void {
+    const counts = population.populations;
+    const species = Object.keys(counts) as EcosystemSpecies[];
+    // Work in densities (share of carrying capacity) so big and small zones behave alike
+    const density = (name: EcosystemSpecies) => (counts[name] || 0) / (population.capacity[name] || 1);
+    const changes: Partial<Record<EcosystemSpecies, number>> = {};
+    const fed: Partial<Record<EcosystemSpecies, number>> = {};
+
+    // Predation; scarce prey is harder to find, so hunting eases off before a species is wiped out
+    species.forEach(predator => {
+      const diet = FOOD_WEB[predator];
+      if (!diet || !counts[predator]) return;
+
+      (Object.entries(diet) as [EcosystemSpecies, number][]).forEach(([prey, rate]) => {
+        if (!counts[prey]) return;
+        const caught = rate * density(predator) * density(prey) * density(prey);
+        changes[prey] = (changes[prey] || 0) - caught * (population.capacity[prey] || 1);
+        fed[predator] = (fed[predator] || 0) + caught;
+      });
+    });
+
+    // Births and deaths
+    const foodFactor = 0.3 + 0.7 * (zone.resources.food / 100);
+    const seasonFactor = SEASON_BIRTH_MODIFIERS[season];
+    species.forEach(name => {
+      const count = counts[name] || 0;
+      const capacity = population.capacity[name] || 1;
+      const dynamics = SPECIES_DYNAMICS[name] || DEFAULT_DYNAMICS;
+      const crowding = Math.max(0, 1 - count / capacity);
+
+      let births: number;
+      let deaths = dynamics.deathRate * count;
+      if (FOOD_WEB[name]) {
+        births = (dynamics.conversion || 0) * (fed[name] || 0) * capacity * crowding * seasonFactor;
+        // Predators with nothing to hunt starve
+        if (!fed[name]) {
+          deaths *= 2;
+        }
+      } else {
+        births = dynamics.birthRate * count * crowding * foodFactor * seasonFactor;
+      }
+
+      // Stragglers wander in from neighbouring areas so a species isn't gone for good
+      const immigration = count < 0.5 ? this.config.immigrationRate : 0;
+      changes[name] = (changes[name] || 0) + births - deaths + immigration;
+    });
+
+    species.forEach(name => {
+      const capacity = population.capacity[name] || 1;
+      counts[name] = Math.max(0, Math.min(capacity * 1.5, (counts[name] || 0) + (changes[name] || 0)));
+    });
+
+    // Grazers wear down the zone's food; HabitatSystem regrows it
+    const grazing = species
+      .filter(name => !FOOD_WEB[name] && name !== 'fish')
+      .reduce((sum, name) => sum + density(name), 0);
+    zone.resources.food = Math.max(0, zone.resources.food - grazing * 0.3);
+  }
+
+  private resolveSpecies(animalTypes: string[]): EcosystemSpecies | null {
+    for (const type of animalTypes) {
+      if (SPECIES_ALIASES[type]) return SPECIES_ALIASES[type];
+      if (type === 'fish' || type in SPECIES_DYNAMICS || type in BIOME_DATA.temperate.spawnModifiers) {
+        return type as EcosystemSpecies;
+      }
+    }
+    return null;
+  }
+
+  private hasWater(map: GameMap): boolean {
+    const { width, height } = map.getDimensions();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (map.getTerrainAt(x, y) === 'water') return true;
+      }
+    }
+    return false;
+  }
+}
+
+export function createEcosystemSystem(config: Partial<EcosystemConfig> = {}): EcosystemSystem {
+  return new EcosystemSystem(config);
+}
+
+export const ecosystemSystem = new EcosystemSystem();
+
+export default ecosystemSystem;
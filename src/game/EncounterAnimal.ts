@@ -1,6 +1,8 @@
 import { Animal } from './Animal';
 import { Position } from '../types/game';
 import { TrickDefinition } from '../data/tricks';
+import { rng } from '../services/RandomService';
+import { companionAbilitySystem } from './CompanionAbilitySystem';
 
 export interface EncounterAnimal extends Animal {
   encounter: {
@@ -59,14 +61,39 @@ export interface TamingResult {
   bonusEffect?: string; // Special positive effect
 }
 
+// The parts of a taming method that the encounter maths reads
+export interface EncounterTamingMethod {
+  id: string;
+  name: string;
+  type: 'food' | 'gentle_touch' | 'speak_softly' | 'give_space' | 'play' | 'observe';
+  energyCost: number;
+  fearReduction: number;
+  affectionGain: number;
+  requiredItems?: string[];
+  effectiveness: number;
+  successChance: number;
+  riskLevel: 'low' | 'medium' | 'high';
+}
+
+// A choice the player makes during an encounter
+export type EncounterAction =
+  | { type: 'taming_method'; method: EncounterTamingMethod }
+  | { type: 'trick'; trickId: string };
+
+// Whatever owns the current encounter, such as the world simulation
+export interface EncounterController {
+  performTrick(trickId: string): { animal: EncounterAnimal; result: TrickResult } | null;
+  applyTamingMethod(method: EncounterTamingMethod): { animal: EncounterAnimal; result: TamingResult } | null;
+}
+
 export class EncounterAnimalManager {
   /**
    * Create an encounter animal from a regular animal
    */
   static createEncounterAnimal(baseAnimal: Animal, position: Position): EncounterAnimal {
-    const initialFear = 50 + Math.random() * 40; // 50-90% fear for wild animals
-    const fleeThreshold = 80 + Math.random() * 20; // 80-100% flee threshold
-    const tameThreshold = 70 + Math.random() * 20; // 70-90% affection needed
+    const initialFear = 50 + rng('encounters').next() * 40; // 50-90% fear for wild animals
+    const fleeThreshold = 80 + rng('encounters').next() * 20; // 80-100% flee threshold
+    const tameThreshold = 70 + rng('encounters').next() * 20; // 70-90% affection needed
     
     // Generate personality traits that affect interactions
     const personalityTraits = this.generatePersonalityTraits(baseAnimal.species);
@@ -92,6 +119,25 @@ export class EncounterAnimalManager {
     return encounterAnimal;
   }
 
+  /**
+   * Turn a won-over encounter animal back into a regular animal, ready to join the player
+   */
+  static toTamedAnimal(animal: EncounterAnimal): Animal {
+    const { encounter, ...baseAnimal } = animal;
+    const tamedAnimal: Animal = {
+      ...baseAnimal,
+      discoveredByPlayer: true,
+      interactionCount: encounter.interactionCount
+    };
+
+    // Update trust in stats
+    if (tamedAnimal.stats) {
+      tamedAnimal.stats.trust = encounter.affection;
+    }
+
+    return tamedAnimal;
+  }
+
   /**
    * Generate personality traits based on species
    */
@@ -119,8 +165,8 @@ export class EncounterAnimalManager {
     const baseTraits = speciesTraits[species] || ['neutral', 'calm'];
     
     // Add 2-3 random traits
-    const shuffled = [...baseTraits].sort(() => 0.5 - Math.random());
-    return shuffled.slice(0, 2 + Math.floor(Math.random() * 2));
+    const shuffled = rng('encounters').shuffle(baseTraits);
+    return shuffled.slice(0, 2 + Math.floor(rng('encounters').next() * 2));
   }
 
   /**
@@ -169,7 +215,7 @@ export class EncounterAnimalManager {
     });
 
     const finalEffectiveness = baseEffectiveness * fearModifier * personalityModifier;
-    const success = Math.random() < finalEffectiveness;
+    const success = rng('encounters').chance(finalEffectiveness);
 
     let fearReduction = 0;
     let affectionGain = 0;
@@ -189,8 +235,11 @@ export class EncounterAnimalManager {
         affectionGain *= 1.3;
       }
 
+      // Companions helping with the encounter
+      affectionGain *= companionAbilitySystem.getAffectionMultiplier();
+
       // Check for critical success (10% chance)
-      if (Math.random() < 0.1) {
+      if (rng('encounters').chance(0.1)) {
         criticalSuccess = true;
         fearReduction *= 1.8;
         affectionGain *= 1.5;
@@ -206,7 +255,7 @@ export class EncounterAnimalManager {
       affectionGain = 0;
 
       // Check for critical failure (5% chance)
-      if (Math.random() < 0.05) {
+      if (rng('encounters').chance(0.05)) {
         criticalFailure = true;
         fearReduction = -15;
         playerFeedback = `Oh no! Your ${trick.name} attempt startled the ${animal.species}!`;
@@ -272,7 +321,7 @@ export class EncounterAnimalManager {
    * Use a taming method on the encounter animal
    * Returns updated animal and taming result
    */
-  static useTamingMethod(animal: EncounterAnimal, method: any): { animal: EncounterAnimal; result: TamingResult } {
+  static applyTamingMethod(animal: EncounterAnimal, method: EncounterTamingMethod): { animal: EncounterAnimal; result: TamingResult } {
     const fearBefore = animal.encounter.fear;
     const affectionBefore = animal.encounter.affection;
 
@@ -313,7 +362,7 @@ export class EncounterAnimalManager {
       }
     });
 
-    const success = Math.random() < effectiveness;
+    const success = rng('encounters').chance(effectiveness);
     let fearReduction = 0;
     let affectionGain = 0;
     let playerFeedback = '';
@@ -331,6 +380,8 @@ export class EncounterAnimalManager {
         affectionGain *= 1.3;
       }
 
+      affectionGain *= companionAbilitySystem.getAffectionMultiplier();
+
       playerFeedback = `Success! Your ${method.name.toLowerCase()} approach worked well.`;
       animalReaction = 'The animal responds positively to your gentle approach.';
     } else {
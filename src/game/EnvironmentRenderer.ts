@@ -3,6 +3,9 @@
 
 import { Position } from '../types/game';
 import { MapObject } from './MapObjects';
+import { worldClock, PhaseLighting } from './WorldClock';
+import { weatherSystem, WeatherState, WEATHER_PROFILES } from './WeatherSystem';
+import { WEATHER_EFFECTS, ParticleAnimation } from './AdvancedAnimations';
 
 export interface RenderContext {
   ctx: CanvasRenderingContext2D;
@@ -25,6 +28,8 @@ export interface ShadowConfig {
 
 export interface LightingConfig {
   ambientLight: number; // 0-1
+  tint: string;
+  tintStrength: number; // 0-1
   directionalLight: {
     angle: number; // degrees
     intensity: number; // 0-1
@@ -33,13 +38,26 @@ export interface LightingConfig {
   shadows: ShadowConfig;
 }
 
+interface WeatherLayer {
+  definition: ParticleAnimation;
+  intensity: number;
+  particles: Array<{ x: number; y: number; vx: number; vy: number; size: number; opacity: number }>;
+}
+
 export class EnvironmentRenderer {
   private lightingConfig: LightingConfig;
   private particleEffects: Map<string, ParticleSystem>;
+  private unsubscribeClock: (() => void) | null = null;
+  private unsubscribeWeather: (() => void) | null = null;
+  private phaseLighting: PhaseLighting | null = null;
+  private weatherLight: number = 1;
+  private weatherLayers: WeatherLayer[] = [];
 
   constructor() {
     this.lightingConfig = {
       ambientLight: 0.8,
+      tint: '#ffffff',
+      tintStrength: 0,
       directionalLight: {
         angle: 135, // Top-left lighting
         intensity: 0.6,
@@ -56,6 +74,137 @@ export class EnvironmentRenderer {
     };
     
     this.particleEffects = new Map();
+
+    // Lighting follows the world clock, blending smoothly between phases
+    this.applyPhaseLighting(worldClock.getLighting());
+    this.unsubscribeClock = worldClock.on('tick', () => {
+      this.applyPhaseLighting(worldClock.getLighting());
+    });
+
+    // Particles and gloom follow the weather on the map the player is on
+    this.applyWeather(weatherSystem.getWeather());
+    this.unsubscribeWeather = weatherSystem.on('change', change => {
+      if (change.mapId === weatherSystem.getActiveMapId()) {
+        this.applyWeather(change.weather);
+      }
+    });
+  }
+
+  /**
+   * Swap the weather particle layers and dim the scene for heavier weather
+   */
+  applyWeather(weather: WeatherState): void {
+    const profile = WEATHER_PROFILES[weather];
+
+    this.weatherLight = profile.lightFactor;
+    if (this.phaseLighting) {
+      this.applyPhaseLighting(this.phaseLighting);
+    }
+
+    this.weatherLayers = profile.particles
+      .filter(effect => WEATHER_EFFECTS[effect.type]?.particles.length)
+      .map(effect => ({
+        definition: WEATHER_EFFECTS[effect.type].particles[0],
+        intensity: effect.intensity,
+        particles: []
+      }));
+  }
+
+  /**
+   * Update ambient light, tint and shadows from a time-of-day lighting sample
+   */
+  applyPhaseLighting(lighting: PhaseLighting): void {
+    const radians = (lighting.sunAngle * Math.PI) / 180;
+    const shadowLength = 1 + (1 - lighting.ambientLight) * 2;
+
+    this.phaseLighting = lighting;
+    this.lightingConfig.ambientLight = lighting.ambientLight * this.weatherLight;
+    this.lightingConfig.tint = lighting.tint;
+    this.lightingConfig.tintStrength = lighting.tintStrength;
+    this.lightingConfig.directionalLight.angle = lighting.sunAngle;
+    this.lightingConfig.shadows.opacity = lighting.shadowOpacity;
+    this.lightingConfig.shadows.offsetX = Math.round(-Math.cos(radians) * 2 * shadowLength);
+    this.lightingConfig.shadows.offsetY = Math.round(Math.max(1, Math.sin(radians) * 2 * shadowLength));
+  }
+
+  /**
+   * Wash the whole frame with the current time-of-day tint
+   */
+  renderLightingOverlay(ctx: CanvasRenderingContext2D): void {
+    const { ambientLight, tint, tintStrength } = this.lightingConfig;
+    const darkness = (1 - ambientLight) * 0.6;
+    if (darkness <= 0 && tintStrength <= 0) return;
+
+    ctx.save();
+    if (darkness > 0) {
+      ctx.globalAlpha = darkness;
+      ctx.fillStyle = '#000814';
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    if (tintStrength > 0) {
+      ctx.globalAlpha = tintStrength * 0.5;
+      ctx.globalCompositeOperation = 'multiply';
+      ctx.fillStyle = tint;
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Draw rain, snow, fog and wind-blown leaves in screen space over the world
+   */
+  renderWeatherOverlay(ctx: CanvasRenderingContext2D, width: number, height: number, deltaTime: number): void {
+    if (this.weatherLayers.length === 0) return;
+
+    const seconds = Math.min(0.1, deltaTime / 1000);
+
+    ctx.save();
+    this.weatherLayers.forEach(layer => {
+      const { definition } = layer;
+      const count = Math.round(definition.count * layer.intensity);
+
+      while (layer.particles.length < count) {
+        layer.particles.push(this.spawnWeatherParticle(definition, layer.intensity, width, height, true));
+      }
+      layer.particles.length = count;
+
+      ctx.fillStyle = definition.appearance.color.start;
+      ctx.strokeStyle = definition.appearance.color.start;
+      ctx.lineWidth = 1;
+
+      layer.particles.forEach((particle, index) => {
+        particle.x += particle.vx * seconds;
+        particle.y += particle.vy * seconds;
+
+        const margin = particle.size * 2 + 10;
+        if (particle.y > height + margin || particle.x > width + margin || particle.x < -margin || particle.y < -margin * 2) {
+          layer.particles[index] = this.spawnWeatherParticle(definition, layer.intensity, width, height, false);
+          return;
+        }
+
+        ctx.globalAlpha = particle.opacity;
+        if (definition.id === 'raindrops') {
+          ctx.beginPath();
+          ctx.moveTo(particle.x, particle.y);
+          ctx.lineTo(particle.x + particle.vx * 0.03, particle.y + particle.vy * 0.03);
+          ctx.stroke();
+        } else {
+          ctx.beginPath();
+          ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      });
+    });
+    ctx.restore();
+  }
+
+  dispose(): void {
+    this.unsubscribeClock?.();
+    this.unsubscribeClock = null;
+    this.unsubscribeWeather?.();
+    this.unsubscribeWeather = null;
+    this.particleEffects.clear();
+    this.weatherLayers = [];
   }
 
   /**
@@ -549,15 +698,29 @@ export class EnvironmentRenderer {
   }
 
   private adjustColorForLighting(color: string): string {
-    // Simple lighting adjustment - could be enhanced with proper color mixing
-    const lightLevel = this.lightingConfig.ambientLight;
-    if (lightLevel >= 1) return color;
+    const { ambientLight: lightLevel, tint, tintStrength } = this.lightingConfig;
+    if (lightLevel >= 1 && tintStrength <= 0) return color;
+
+    const rgb = this.parseHexColor(color);
+    const tintRgb = this.parseHexColor(tint);
+    if (!rgb || !tintRgb) return color;
     
     // Darken the color based on light level
     const darkenFactor = lightLevel * 0.7 + 0.3; // Never go below 30% brightness
     
-    // This is a simplified approach - in a real implementation you'd parse and adjust RGB values
-    return color;
+    const channels = rgb.map((channel, i) => {
+      const tinted = channel + (channel * (tintRgb[i] / 255) - channel) * tintStrength;
+      return Math.round(Math.max(0, Math.min(255, tinted * darkenFactor)));
+    });
+    return `rgb(${channels.join(', ')})`;
+  }
+
+  private parseHexColor(color: string): [number, number, number] | null {
+    const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+    if (!match) return null;
+
+    const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+    return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
   }
 
   private shouldRenderShadow(object: MapObject): boolean {
@@ -634,6 +797,30 @@ export class EnvironmentRenderer {
     // Could adjust object colors based on time of day, weather, etc.
   }
 
+  /**
+   * New particle from a WEATHER_EFFECTS definition, anywhere on screen when
+   * filling a layer and along the upwind edges once it is running
+   */
+  private spawnWeatherParticle(definition: ParticleAnimation, intensity: number, width: number, height: number, anywhere: boolean): WeatherLayer['particles'][number] {
+    const { appearance, movement, physics } = definition;
+    const random = (min: number, max: number) => min + Math.random() * (max - min);
+
+    const direction = (random(movement.direction.min, movement.direction.max) * Math.PI) / 180;
+    const speed = random(movement.speed.min, movement.speed.max);
+    const vx = Math.cos(direction) * speed + physics.wind.x;
+    const vy = Math.abs(Math.sin(direction)) * speed + physics.gravity;
+    const fromSide = !anywhere && Math.abs(vx) > Math.abs(vy) && Math.random() < 0.5;
+
+    return {
+      x: anywhere || !fromSide ? random(0, width) : vx > 0 ? -10 : width + 10,
+      y: anywhere || fromSide ? random(0, height) : -10,
+      vx,
+      vy,
+      size: random(appearance.size.min, appearance.size.max),
+      opacity: appearance.opacity.start * Math.min(1, 0.4 + intensity)
+    };
+  }
+
   private renderParticleEffects(context: RenderContext): void {
     // Render any active particle systems
     for (const [objectId, particleSystem] of this.particleEffects) {
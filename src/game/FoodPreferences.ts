@@ -1,6 +1,8 @@
 import { Animal } from './Animal';
 import { PersonalityProfile, animalPersonality } from './AnimalPersonality';
 import { InventoryItem, ITEM_DATABASE } from './InventorySystem';
+import { rng } from '../services/RandomService';
+import { gameEvents } from './GameEvents';
 
 export type FoodType = 'fruit' | 'vegetable' | 'nut' | 'seed' | 'herb' | 'flower' | 'meat' | 'insect' | 'special';
 export type FoodRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
@@ -454,6 +456,11 @@ export const GATHERING_SPOTS: GatheringSpot[] = [
   }
 ];
 
+export interface FoodSaveData {
+  animalPreferences: Array<[string, AnimalFoodPreferences]>;
+  gatheringSpots: GatheringSpot[];
+}
+
 export class FoodPreferences {
   private animalPreferences: Map<string, AnimalFoodPreferences> = new Map();
   private gatheringSpots: GatheringSpot[] = [...GATHERING_SPOTS];
@@ -466,10 +473,6 @@ export class FoodPreferences {
     onSpotDiscovered?: (spotId: string) => void;
   } = {};
 
-  constructor() {
-    this.loadFoodData();
-  }
-
   /**
    * Initialize food preferences for an animal based on species and personality
    */
@@ -481,6 +484,43 @@ export class FoodPreferences {
     return preferences;
   }
 
+  /**
+   * Initialize preferences for an offspring, picking up some of its parents' favourite foods.
+   * Dislikes come from the offspring's own species and personality only.
+   */
+  inheritPreferences(animal: Animal, parentIds: string[]): AnimalFoodPreferences {
+    const preferences = this.initializePreferences(animal);
+    const parents = parentIds
+      .map(id => this.animalPreferences.get(id))
+      .filter((parent): parent is AnimalFoodPreferences => parent !== undefined);
+
+    parents.forEach(parent => {
+      parent.preferences.favoriteItems
+        .filter(itemId => !preferences.preferences.favoriteItems.includes(itemId))
+        .filter(() => rng('loot').chance(0.5))
+        .forEach(itemId => preferences.preferences.favoriteItems.push(itemId));
+
+      parent.preferences.favoriteTypes
+        .filter(type => !preferences.preferences.favoriteTypes.includes(type))
+        .filter(() => rng('loot').chance(0.3))
+        .forEach(type => preferences.preferences.favoriteTypes.push(type));
+    });
+
+    if (parents.length > 0) {
+      const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+      const own = preferences.preferences;
+      own.preferredTastiness = Math.round((own.preferredTastiness + average(parents.map(parent => parent.preferences.preferredTastiness))) / 2);
+      own.preferredNutrition = Math.round((own.preferredNutrition + average(parents.map(parent => parent.preferences.preferredNutrition))) / 2);
+    }
+
+    preferences.preferences.dislikedItems = preferences.preferences.dislikedItems
+      .filter(itemId => !preferences.preferences.favoriteItems.includes(itemId));
+    preferences.preferences.dislikedTypes = preferences.preferences.dislikedTypes
+      .filter(type => !preferences.preferences.favoriteTypes.includes(type));
+
+    return preferences;
+  }
+
   /**
    * Feed an animal and get their reaction
    */
@@ -542,8 +582,8 @@ export class FoodPreferences {
     if (reaction === 'loved' || (firstTime && reaction === 'liked')) {
       this.callbacks.onSpecialReaction?.(animalId, foodId, reaction);
     }
+    gameEvents.emit('animal.fed', { animalId, foodId, reaction, firstTime });
     
-    this.saveFoodData();
     
     return {
       success: true,
@@ -652,14 +692,14 @@ export class FoodPreferences {
         const food = FOOD_DATABASE[foodId];
         if (food) {
           const baseQuantity = this.getBaseGatheringQuantity(food.rarity);
-          const quantity = Math.floor(baseQuantity * (0.5 + Math.random() * 0.5));
+          const quantity = Math.floor(baseQuantity * (0.5 + rng('loot').next() * 0.5));
           
           if (quantity > 0) {
             itemsFound.push({ foodId, quantity });
           }
           
           // Chance for special finds
-          if (food.rarity === 'rare' && Math.random() < 0.1) {
+          if (food.rarity === 'rare' && rng('loot').chance(0.1)) {
             specialFinds.push(`Exceptional quality ${food.name}`);
           }
         }
@@ -687,7 +727,6 @@ export class FoodPreferences {
     
     this.activeGathering = null;
     this.callbacks.onGatheringComplete?.(result);
-    this.saveFoodData();
     
     return result;
   }
@@ -714,7 +753,6 @@ export class FoodPreferences {
     if (spot && !spot.discovered) {
       spot.discovered = true;
       this.callbacks.onSpotDiscovered?.(spotId);
-      this.saveFoodData();
       return true;
     }
     return false;
@@ -973,7 +1011,7 @@ export class FoodPreferences {
       ]
     };
 
-    let message = messages[reaction][Math.floor(Math.random() * messages[reaction].length)];
+    let message = rng('loot').pick(messages[reaction]);
     
     if (firstTime) {
       message = `First time trying ${food.name}! ` + message;
@@ -1002,29 +1040,22 @@ export class FoodPreferences {
     }
   }
 
-  private loadFoodData(): void {
-    try {
-      const saved = localStorage.getItem('feralFriends_foodData');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.animalPreferences = new Map(data.animalPreferences || []);
-        this.gatheringSpots = data.gatheringSpots || [...GATHERING_SPOTS];
-      }
-    } catch (error) {
-      console.warn('Failed to load food data:', error);
-    }
+  /**
+   * Snapshot food preferences for the unified save file
+   */
+  getSaveData(): FoodSaveData {
+    return {
+      animalPreferences: Array.from(this.animalPreferences.entries()),
+      gatheringSpots: this.gatheringSpots
+    };
   }
 
-  private saveFoodData(): void {
-    try {
-      const data = {
-        animalPreferences: Array.from(this.animalPreferences.entries()),
-        gatheringSpots: this.gatheringSpots
-      };
-      localStorage.setItem('feralFriends_foodData', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save food data:', error);
-    }
+  /**
+   * Replace food preferences with data from a save file
+   */
+  loadSaveData(data: Partial<FoodSaveData>): void {
+    this.animalPreferences = new Map(data.animalPreferences || []);
+    this.gatheringSpots = data.gatheringSpots || [...GATHERING_SPOTS];
   }
 }
 
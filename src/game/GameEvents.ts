@@ -0,0 +1,161 @@
+// Game Event Bus
+// Typed gameplay events that systems publish and progression, achievements, statistics, audio and tutorials follow
+
+export interface GameEventMap {
+  'animal.encountered': { animalId: string; species: string };
+  'animal.tamed': { animalId: string; species: string; joinedParty: boolean };
+  'animal.fed': { animalId: string; foodId: string; reaction: string; firstTime: boolean };
+  'approach.succeeded': { animalId: string; species: string };
+  'approach.failed': { animalId: string; species: string };
+  'bond.levelUp': { animalId: string; level: string };
+  'bond.milestone': { animalId: string; milestoneId: string };
+  'trick.learned': { animalId: string; trickId: string; species?: string };
+  'trick.mastered': { animalId: string; trickId: string; species?: string };
+  'trick.performed': { animalId: string; trickId: string; success: boolean };
+  'performance.completed': { animalId: string; ranking: string; percentage: number };
+  'item.used': { itemId: string };
+  'item.crafted': { recipeId: string; itemId: string; quantity: number };
+  'resource.gathered': { nodeId: string; resourceId: string; quantity: number };
+  'resource.discovered': { resourceId: string };
+  'map.entered': { mapId: string };
+  'weather.changed': { mapId: string; weather: string; previous: string };
+  'ecosystem.updated': { mapId: string; day: number; hour: number; totals: Record<string, number> };
+  'party.joined': { animalId: string; members: string[] };
+  'party.left': { animalId: string; members: string[] };
+  'breeding.born': { animalId: string; species: string; parentIds: string[]; variantId?: string };
+  'breeding.grown': { animalId: string; stage: string; previousStage: string };
+  'quest.started': { questId: string };
+  'quest.progressed': { questId: string };
+  'quest.branchOffered': { questId: string };
+  'quest.completed': { questId: string; xpGained: number; items: string[] };
+  'achievement.completed': { achievementId: string; name: string };
+  'player.experience': { source: string; xpGained: number; leveledUp: boolean; level: number; unlocks: string[] };
+}
+
+export type GameEventType = keyof GameEventMap;
+
+// The part of an event type before the dot, e.g. 'animal' for 'animal.tamed'
+export type GameEventNamespace = GameEventType extends infer T
+  ? T extends `${infer Namespace}.${string}` ? Namespace : never
+  : never;
+
+// An exact event type, every event in a namespace ('trick.*') or every event ('*')
+export type GameEventPattern = GameEventType | `${GameEventNamespace}.*` | '*';
+
+export type GameEventsMatching<P extends GameEventPattern> =
+  P extends '*' ? GameEventType
+    : P extends `${infer Namespace}.*` ? Extract<GameEventType, `${Namespace}.${string}`>
+      : Extract<P, GameEventType>;
+
+export type GameEvent<T extends GameEventType = GameEventType> = {
+  [K in T]: { type: K; payload: GameEventMap[K]; timestamp: number };
+}[T];
+
+export type GameEventListener<P extends GameEventPattern> = (event: GameEvent<GameEventsMatching<P>>) => void;
+
+// Declarative subscriptions: what each event means to a subscriber, as a value or worked out from the payload
+export type GameEventTable<T> = {
+  [K in GameEventType]?: T | ((payload: GameEventMap[K]) => T | null);
+};
+
+export interface GameEventBusConfig {
+  historyLimit: number;
+}
+
+function matchesPattern(type: GameEventType, pattern: GameEventPattern): boolean {
+  if (pattern === '*' || pattern === type) return true;
+  return pattern.endsWith('.*') && type.startsWith(pattern.slice(0, -1));
+}
+
+/**
+ * Look up what an event means in a subscriber's table
+ */
+export function resolveGameEvent<T>(table: GameEventTable<T>, event: GameEvent): T | null {
+  const entry = table[event.type] as T | ((payload: GameEvent['payload']) => T | null) | undefined;
+  if (entry === undefined) return null;
+  return typeof entry === 'function' ? (entry as (payload: GameEvent['payload']) => T | null)(event.payload) : entry;
+}
+
+export class GameEventBus {
+  private config: GameEventBusConfig;
+  private listeners: Map<GameEventPattern, ((event: never) => void)[]> = new Map();
+  private history: GameEvent[] = [];
+
+  constructor(config: Partial<GameEventBusConfig> = {}) {
+    this.config = {
+      historyLimit: config.historyLimit ?? 200
+    };
+  }
+
+  /**
+   * Listen for an event type or a wildcard pattern. Returns a function that unsubscribes.
+   */
+  on<P extends GameEventPattern>(pattern: P, listener: GameEventListener<P>): () => void {
+    if (!this.listeners.has(pattern)) {
+      this.listeners.set(pattern, []);
+    }
+    this.listeners.get(pattern)!.push(listener);
+    return () => this.off(pattern, listener);
+  }
+
+  off<P extends GameEventPattern>(pattern: P, listener: GameEventListener<P>): void {
+    const listeners = this.listeners.get(pattern);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Listen once, then unsubscribe
+   */
+  once<P extends GameEventPattern>(pattern: P, listener: GameEventListener<P>): () => void {
+    const unsubscribe = this.on(pattern, event => {
+      unsubscribe();
+      listener(event);
+    });
+    return unsubscribe;
+  }
+
+  emit<T extends GameEventType>(type: T, payload: GameEventMap[T]): void {
+    const event = { type, payload, timestamp: Date.now() } as GameEvent;
+
+    this.history.push(event);
+    if (this.history.length > this.config.historyLimit) {
+      this.history.splice(0, this.history.length - this.config.historyLimit);
+    }
+
+    // Copy first so listeners can unsubscribe while being called
+    Array.from(this.listeners.entries())
+      .filter(([pattern]) => matchesPattern(type, pattern))
+      .flatMap(([, listeners]) => [...listeners])
+      .forEach(listener => {
+        try {
+          (listener as (event: GameEvent) => void)(event);
+        } catch (error) {
+          console.warn(`Game event listener for ${type} failed:`, error);
+        }
+      });
+  }
+
+  /**
+   * Recent events, oldest first, optionally only those matching a pattern
+   */
+  getHistory<P extends GameEventPattern>(pattern?: P): GameEvent<GameEventsMatching<P>>[] {
+    return this.history.filter(event => !pattern || matchesPattern(event.type, pattern)) as GameEvent<GameEventsMatching<P>>[];
+  }
+
+  clearHistory(): void {
+    this.history = [];
+  }
+}
+
+export function createGameEventBus(config: Partial<GameEventBusConfig> = {}): GameEventBus {
+  return new GameEventBus(config);
+}
+
+export const gameEvents = new GameEventBus();
+
+export default gameEvents;
@@ -0,0 +1,81 @@
+// Game Statistics
+// Lifetime play counters kept up to date from the game event bus
+
+import { GameEventBus, GameEventTable, gameEvents, resolveGameEvent } from './GameEvents';
+
+export interface StatisticsSaveData {
+  counts: Record<string, number>;
+}
+
+// How much each gameplay event adds to which counters
+export const STATISTIC_EVENTS: GameEventTable<Record<string, number>> = {
+  'animal.encountered': { animalsEncountered: 1 },
+  'animal.tamed': { animalsTamed: 1 },
+  'animal.fed': { animalsFed: 1 },
+  'approach.succeeded': { approachesSucceeded: 1 },
+  'approach.failed': { approachesFailed: 1 },
+  'bond.levelUp': { bondLevelUps: 1 },
+  'trick.learned': { tricksLearned: 1 },
+  'trick.mastered': { tricksMastered: 1 },
+  'trick.performed': ({ success }) => ({ tricksPerformed: 1, tricksSucceeded: success ? 1 : 0 }),
+  'performance.completed': { performancesCompleted: 1 },
+  'item.used': { itemsUsed: 1 },
+  'item.crafted': ({ quantity }) => ({ itemsCrafted: quantity }),
+  'resource.gathered': ({ quantity }) => ({ resourcesGathered: quantity }),
+  'resource.discovered': { resourcesDiscovered: 1 },
+  'map.entered': { mapsEntered: 1 },
+  'breeding.born': { offspringBorn: 1 },
+  'quest.completed': { questsCompleted: 1 },
+  'achievement.completed': { achievementsCompleted: 1 },
+  'player.experience': ({ xpGained }) => ({ experienceEarned: xpGained })
+};
+
+export class GameStatistics {
+  private counts: Record<string, number> = {};
+
+  /**
+   * Count gameplay events from a bus. Returns a function that unsubscribes.
+   */
+  subscribe(bus: GameEventBus = gameEvents): () => void {
+    return bus.on('*', event => {
+      const increments = resolveGameEvent(STATISTIC_EVENTS, event);
+      if (increments) {
+        this.record(increments);
+      }
+    });
+  }
+
+  record(increments: Record<string, number>): void {
+    Object.entries(increments).forEach(([statistic, amount]) => {
+      this.counts[statistic] = (this.counts[statistic] || 0) + amount;
+    });
+  }
+
+  get(statistic: string): number {
+    return this.counts[statistic] || 0;
+  }
+
+  getAll(): Record<string, number> {
+    return { ...this.counts };
+  }
+
+  reset(): void {
+    this.counts = {};
+  }
+
+  getSaveData(): StatisticsSaveData {
+    return { counts: this.getAll() };
+  }
+
+  loadSaveData(data: Partial<StatisticsSaveData>): void {
+    this.counts = { ...(data.counts || {}) };
+  }
+}
+
+export function createGameStatistics(): GameStatistics {
+  return new GameStatistics();
+}
+
+export const gameStatistics = new GameStatistics();
+
+export default gameStatistics;
@@ -1,6 +1,10 @@
 import { InventoryItem } from './InventorySystem';
 import { ITEM_DATABASE } from './ItemSystem';
 import { Animal } from './Animal';
+import { rng } from '../services/RandomService';
+import { worldClock } from './WorldClock';
+import { weatherSystem } from './WeatherSystem';
+import { gameEvents } from './GameEvents';
 
 export type ResourceType = 'mineral' | 'plant' | 'artifact' | 'craft_material' | 'rare_find';
 export type GatheringMethod = 'mining' | 'foraging' | 'excavation' | 'collection' | 'hunting';
@@ -73,6 +77,7 @@ export interface GatheringAttempt {
 }
 
 export interface GatheringResult {
+  nodeId: string;
   success: boolean;
   itemsGathered: GatheredItem[];
   experienceGained: number;
@@ -437,6 +442,25 @@ export const GATHERING_NODES: GatheringNode[] = [
   }
 ];
 
+// How the weather during an attempt scales the chance of each resource turning up
+const WEATHER_YIELD_MODIFIERS: Record<string, number> = {
+  clear: 1.1,
+  cloudy: 1,
+  rainy: 0.9,
+  foggy: 0.9,
+  windy: 0.95,
+  stormy: 0.6,
+  snowy: 0.7
+};
+
+export interface GatheringSaveData {
+  gatheringNodes: GatheringNode[];
+  gatheringSkills: Array<[string, GatheringSkill]>;
+  discoveries: string[];
+  weatherConditions: string;
+  timeOfDay: string;
+}
+
 export class GatheringSystem {
   private gatheringNodes: GatheringNode[] = [...GATHERING_NODES];
   private activeGathering: GatheringAttempt | null = null;
@@ -452,11 +476,23 @@ export class GatheringSystem {
     onSkillImproved?: (skill: string, newLevel: number) => void;
     onSpecialEvent?: (event: string, context: any) => void;
   } = {};
+  private regenerationTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor() {
     this.initializeSkills();
-    this.loadGatheringData();
     this.startNodeRegeneration();
+
+    // Resources that only appear at certain times follow the world clock
+    worldClock.on('phaseChange', time => {
+      this.updateConditions(this.weatherConditions, time.period);
+    });
+
+    // ...and the weather on the map the player is on
+    weatherSystem.on('change', change => {
+      if (change.mapId === weatherSystem.getActiveMapId()) {
+        this.updateConditions(weatherSystem.getProfile().gathering, this.timeOfDay);
+      }
+    });
   }
 
   /**
@@ -662,11 +698,13 @@ export class GatheringSystem {
         if (!this.discoveries.has(resourceId)) {
           this.discoveries.add(resourceId);
           this.callbacks.onResourceDiscovered?.(resourceId);
+          gameEvents.emit('resource.discovered', { resourceId });
         }
       });
     }
 
     const result: GatheringResult = {
+      nodeId: node.id,
       success,
       itemsGathered,
       experienceGained,
@@ -686,7 +724,9 @@ export class GatheringSystem {
 
     this.activeGathering = null;
     this.callbacks.onGatheringComplete?.(result);
-    this.saveGatheringData();
+    itemsGathered.forEach(item => {
+      gameEvents.emit('resource.gathered', { nodeId: node.id, resourceId: item.resourceId, quantity: item.quantity });
+    });
 
     return result;
   }
@@ -699,7 +739,6 @@ export class GatheringSystem {
     if (node && !node.discovered) {
       node.discovered = true;
       this.callbacks.onNodeDiscovered?.(nodeId);
-      this.saveGatheringData();
       return true;
     }
     return false;
@@ -712,6 +751,13 @@ export class GatheringSystem {
     return this.gatheringNodes.filter(node => node.discovered);
   }
 
+  /**
+   * Get gathering nodes that haven't been discovered yet
+   */
+  getHiddenNodes(): GatheringNode[] {
+    return this.gatheringNodes.filter(node => !node.discovered);
+  }
+
   /**
    * Get gathering skills
    */
@@ -769,7 +815,7 @@ export class GatheringSystem {
 
     // Check for critical success
     const criticalChance = (efficiency / 100) * 0.1 + (attempt.playerSkill / 100) * 0.05;
-    criticalSuccess = Math.random() < criticalChance;
+    criticalSuccess = rng('loot').chance(criticalChance);
 
     if (criticalSuccess) {
       specialEvents.push('critical_gathering_success');
@@ -787,15 +833,16 @@ export class GatheringSystem {
       successProbability *= this.getMethodEffectiveness(resourceData, attempt.method);
       successProbability *= this.getToolEffectiveness(resourceData, attempt.toolsUsed);
       successProbability *= this.getCompanionBonus(resourceData, attempt.companionsPresent);
+      successProbability *= this.getWeatherModifier(resourceData, attempt.weatherConditions);
       
       if (criticalSuccess) {
         successProbability *= 1.5;
       }
 
-      if (Math.random() < successProbability) {
+      if (rng('loot').chance(successProbability)) {
         // Determine quantity
         let quantity = Math.floor(
-          Math.random() * (nodeResource.maxQuantity - nodeResource.minQuantity + 1) + 
+          rng('loot').next() * (nodeResource.maxQuantity - nodeResource.minQuantity + 1) + 
           nodeResource.minQuantity
         );
 
@@ -804,7 +851,7 @@ export class GatheringSystem {
         }
 
         // Determine quality
-        const qualityRoll = Math.random() * nodeResource.qualityModifier * (efficiency / 100);
+        const qualityRoll = rng('loot').next() * nodeResource.qualityModifier * (efficiency / 100);
         let quality: 'poor' | 'normal' | 'good' | 'excellent' | 'perfect';
         
         if (qualityRoll > 0.9) quality = 'perfect';
@@ -841,8 +888,8 @@ export class GatheringSystem {
     
     relevantSkills.forEach(skillName => {
       const improvementChance = (efficiency / 100) * 0.3;
-      if (Math.random() < improvementChance) {
-        const improvement = Math.floor(Math.random() * 10) + 1;
+      if (rng('loot').chance(improvementChance)) {
+        const improvement = Math.floor(rng('loot').next() * 10) + 1;
         skillImprovements.push({ skill: skillName, improvement });
       }
     });
@@ -1053,6 +1100,17 @@ export class GatheringSystem {
     return Math.min(2.0, bonus);
   }
 
+  private getWeatherModifier(resource: GatheringResource, weather: string): number {
+    let modifier = WEATHER_YIELD_MODIFIERS[weather] ?? 1.0;
+
+    // Resources that only show in certain weather are hard to find outside it
+    if (resource.weatherRequirements.length > 0 && !resource.weatherRequirements.includes(weather)) {
+      modifier *= 0.3;
+    }
+
+    return modifier;
+  }
+
   private calculateYieldDecrease(node: GatheringNode, attempt: GatheringAttempt): number {
     let decrease = 5; // Base decrease
     
@@ -1107,12 +1165,12 @@ export class GatheringSystem {
     
     // Node-based properties
     const magicalProperty = node.specialProperties.find(p => p.type === 'magical');
-    if (magicalProperty && Math.random() < 0.3) {
+    if (magicalProperty && rng('loot').chance(0.3)) {
       properties.push('magically_enhanced');
     }
     
     const blessedProperty = node.specialProperties.find(p => p.type === 'blessed');
-    if (blessedProperty && Math.random() < 0.2) {
+    if (blessedProperty && rng('loot').chance(0.2)) {
       properties.push('blessed');
     }
     
@@ -1156,8 +1214,18 @@ export class GatheringSystem {
     return warnings;
   }
 
+  /**
+   * Stop the regeneration timer started on construction
+   */
+  stop(): void {
+    if (this.regenerationTimer) {
+      clearInterval(this.regenerationTimer);
+      this.regenerationTimer = null;
+    }
+  }
+
   private startNodeRegeneration(): void {
-    setInterval(() => {
+    this.regenerationTimer = setInterval(() => {
       this.gatheringNodes.forEach(node => {
         const timeSinceGather = Date.now() - node.lastGathered;
         
@@ -1172,40 +1240,31 @@ export class GatheringSystem {
           node.degradation = Math.max(0, node.degradation - 1);
         }
       });
-      
-      this.saveGatheringData();
     }, 300000); // Every 5 minutes
   }
 
-  private loadGatheringData(): void {
-    try {
-      const saved = localStorage.getItem('feralFriends_gatheringData');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.gatheringNodes = data.gatheringNodes || [...GATHERING_NODES];
-        this.gatheringSkills = new Map(data.gatheringSkills || []);
-        this.discoveries = new Set(data.discoveries || []);
-        this.weatherConditions = data.weatherConditions || 'clear';
-        this.timeOfDay = data.timeOfDay || 'afternoon';
-      }
-    } catch (error) {
-      console.warn('Failed to load gathering data:', error);
-    }
+  /**
+   * Snapshot gathering skills and nodes for the unified save file
+   */
+  getSaveData(): GatheringSaveData {
+    return {
+      gatheringNodes: this.gatheringNodes,
+      gatheringSkills: Array.from(this.gatheringSkills.entries()),
+      discoveries: Array.from(this.discoveries),
+      weatherConditions: this.weatherConditions,
+      timeOfDay: this.timeOfDay
+    };
   }
 
-  private saveGatheringData(): void {
-    try {
-      const data = {
-        gatheringNodes: this.gatheringNodes,
-        gatheringSkills: Array.from(this.gatheringSkills.entries()),
-        discoveries: Array.from(this.discoveries),
-        weatherConditions: this.weatherConditions,
-        timeOfDay: this.timeOfDay
-      };
-      localStorage.setItem('feralFriends_gatheringData', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save gathering data:', error);
-    }
+  /**
+   * Replace gathering skills and nodes with data from a save file
+   */
+  loadSaveData(data: Partial<GatheringSaveData>): void {
+    this.gatheringNodes = data.gatheringNodes || [...GATHERING_NODES];
+    this.gatheringSkills = new Map(data.gatheringSkills || []);
+    this.discoveries = new Set(data.discoveries || []);
+    this.weatherConditions = data.weatherConditions || 'clear';
+    this.timeOfDay = data.timeOfDay || 'afternoon';
   }
 }
 
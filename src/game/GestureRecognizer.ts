@@ -0,0 +1,336 @@
+// Gesture Recognizer
+// Classifies pointer strokes from InputManager and scores them against trick gestures
+
+import type { GestureType, TrickGesture } from '../data/tricks';
+
+export type GestureDirection = NonNullable<TrickGesture['direction']>;
+
+export interface PointerSample {
+  x: number;
+  y: number;
+  time: number;
+}
+
+export interface GestureStroke {
+  pointerId: number;
+  samples: PointerSample[];
+  startTime: number;
+  endTime: number;
+}
+
+export interface RecognizedGesture {
+  type: GestureType;
+  direction?: GestureDirection;
+  duration: number;
+  shapeAccuracy: number; // 0-1, how cleanly the stroke matches its own shape
+  components?: RecognizedGesture[]; // for double taps and sequences
+}
+
+export interface GestureScore {
+  type: GestureType;
+  direction?: GestureDirection;
+  duration: number;
+  accuracy: number; // 0-1, shape accuracy; sequence steps are also checked against the expected type and direction
+  timing: number; // 0-1, how well the pace matched the expected gesture
+  recognized: RecognizedGesture;
+}
+
+export interface GestureRecognizerConfig {
+  tapMaxDistance?: number; // pixels a tap or hold may drift
+  holdMinDuration?: number;
+  doubleTapMaxGap?: number;
+  circleMinTurn?: number; // radians of accumulated turning to count as a circle
+}
+
+interface StrokeMetrics {
+  duration: number;
+  pathLength: number;
+  displacement: { x: number; y: number };
+  turning: number; // signed, positive is clockwise on screen
+  straightness: number;
+  roundness: number;
+  closure: number;
+}
+
+// Comfortable pace for each gesture when the trick doesn't give a duration
+const TIMING_WINDOWS: Record<Exclude<GestureType, 'sequence'>, { min: number; max: number }> = {
+  tap: { min: 0, max: 250 },
+  double_tap: { min: 0, max: 600 },
+  hold: { min: 800, max: 2500 },
+  swipe: { min: 80, max: 600 },
+  circle: { min: 300, max: 1800 }
+};
+
+const SEQUENCE_MAX_PAUSE = 1200;
+
+export class GestureRecognizer {
+  private config: Required<GestureRecognizerConfig>;
+
+  constructor(config: GestureRecognizerConfig = {}) {
+    this.config = {
+      tapMaxDistance: config.tapMaxDistance ?? 24,
+      holdMinDuration: config.holdMinDuration ?? 500,
+      doubleTapMaxGap: config.doubleTapMaxGap ?? 350,
+      circleMinTurn: config.circleMinTurn ?? Math.PI * 1.5
+    };
+  }
+
+  /**
+   * Classify a set of strokes drawn in one attempt
+   */
+  recognize(strokes: GestureStroke[]): RecognizedGesture | null {
+    const valid = strokes.filter(stroke => stroke.samples.length > 0);
+    if (valid.length === 0) return null;
+
+    const components = valid.map(stroke => this.recognizeStroke(stroke));
+    if (components.length === 1) return components[0];
+
+    const duration = valid[valid.length - 1].endTime - valid[0].startTime;
+
+    if (components.length === 2 && components.every(c => c.type === 'tap')) {
+      const gap = valid[1].startTime - valid[0].endTime;
+      const first = valid[0].samples[0];
+      const second = valid[1].samples[0];
+      const apart = Math.hypot(second.x - first.x, second.y - first.y);
+
+      if (gap <= this.config.doubleTapMaxGap && apart <= this.config.tapMaxDistance * 2) {
+        const spacing = 1 - Math.min(1, apart / (this.config.tapMaxDistance * 2)) * 0.3;
+        return {
+          type: 'double_tap',
+          duration,
+          shapeAccuracy: this.average(components.map(c => c.shapeAccuracy)) * spacing,
+          components
+        };
+      }
+    }
+
+    return {
+      type: 'sequence',
+      duration,
+      shapeAccuracy: this.average(components.map(c => c.shapeAccuracy)),
+      components
+    };
+  }
+
+  /**
+   * Score an attempt against the gesture a trick expects. For single gestures
+   * the caller compares type and direction; sequences are matched step by step.
+   */
+  score(strokes: GestureStroke[], expected: TrickGesture): GestureScore | null {
+    const recognized = this.recognize(strokes);
+    if (!recognized) return null;
+
+    if (expected.type === 'sequence' && expected.sequence?.length) {
+      return this.scoreSequence(strokes, recognized, expected.sequence);
+    }
+
+    return {
+      type: recognized.type,
+      ...(recognized.direction ? { direction: recognized.direction } : {}),
+      duration: recognized.duration,
+      accuracy: recognized.shapeAccuracy,
+      timing: this.timingAccuracy(recognized.type, recognized.duration, expected),
+      recognized
+    };
+  }
+
+  /**
+   * Score against several candidate gestures and keep the best match
+   */
+  scoreBest(strokes: GestureStroke[], candidates: TrickGesture[]): { gesture: TrickGesture; score: GestureScore } | null {
+    let best: { gesture: TrickGesture; score: GestureScore } | null = null;
+
+    candidates.forEach(gesture => {
+      const score = this.score(strokes, gesture);
+      if (!score) return;
+
+      const rank = (s: GestureScore) => this.matchAccuracy(s.recognized, gesture) + s.accuracy;
+      if (!best || rank(score) > rank(best.score)) {
+        best = { gesture, score };
+      }
+    });
+
+    return best;
+  }
+
+  private recognizeStroke(stroke: GestureStroke): RecognizedGesture {
+    const metrics = this.measure(stroke);
+    const drift = Math.hypot(metrics.displacement.x, metrics.displacement.y);
+
+    // Barely moved: a tap or a hold depending on how long it lasted
+    if (metrics.pathLength <= this.config.tapMaxDistance) {
+      const stillness = 1 - (drift / this.config.tapMaxDistance) * 0.5;
+      return {
+        type: metrics.duration >= this.config.holdMinDuration ? 'hold' : 'tap',
+        duration: metrics.duration,
+        shapeAccuracy: this.clamp(stillness)
+      };
+    }
+
+    if (Math.abs(metrics.turning) >= this.config.circleMinTurn && metrics.straightness < 0.6) {
+      const coverage = Math.min(1, Math.abs(metrics.turning) / (Math.PI * 2));
+      return {
+        type: 'circle',
+        direction: metrics.turning > 0 ? 'clockwise' : 'counter_clockwise',
+        duration: metrics.duration,
+        shapeAccuracy: this.clamp(metrics.roundness * 0.5 + metrics.closure * 0.25 + coverage * 0.25)
+      };
+    }
+
+    const { x, y } = metrics.displacement;
+    const horizontal = Math.abs(x) >= Math.abs(y);
+    const direction: GestureDirection = horizontal ? (x > 0 ? 'right' : 'left') : (y > 0 ? 'down' : 'up');
+
+    // How close the stroke ran to its cardinal axis (1 when dead on, 0 at 45 degrees)
+    const angle = Math.atan2(Math.abs(y), Math.abs(x));
+    const offAxis = horizontal ? angle : Math.PI / 2 - angle;
+    const alignment = 1 - offAxis / (Math.PI / 4);
+
+    return {
+      type: 'swipe',
+      direction,
+      duration: metrics.duration,
+      shapeAccuracy: this.clamp(metrics.straightness * 0.6 + alignment * 0.4)
+    };
+  }
+
+  private measure(stroke: GestureStroke): StrokeMetrics {
+    const points = this.simplify(stroke.samples);
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    let pathLength = 0;
+    let turning = 0;
+    let previousHeading: number | null = null;
+
+    for (let i = 1; i < points.length; i++) {
+      const dx = points[i].x - points[i - 1].x;
+      const dy = points[i].y - points[i - 1].y;
+      pathLength += Math.hypot(dx, dy);
+
+      const heading = Math.atan2(dy, dx);
+      if (previousHeading !== null) {
+        let delta = heading - previousHeading;
+        if (delta > Math.PI) delta -= Math.PI * 2;
+        if (delta < -Math.PI) delta += Math.PI * 2;
+        turning += delta;
+      }
+      previousHeading = heading;
+    }
+
+    const displacement = { x: last.x - first.x, y: last.y - first.y };
+    const drift = Math.hypot(displacement.x, displacement.y);
+
+    // Roundness: how evenly the points sit around their centroid
+    const cx = this.average(points.map(p => p.x));
+    const cy = this.average(points.map(p => p.y));
+    const radii = points.map(p => Math.hypot(p.x - cx, p.y - cy));
+    const meanRadius = this.average(radii);
+    const deviation = Math.sqrt(this.average(radii.map(r => (r - meanRadius) ** 2)));
+    const roundness = meanRadius > 0 ? 1 - Math.min(1, deviation / meanRadius) : 0;
+
+    return {
+      duration: Math.max(0, stroke.endTime - stroke.startTime),
+      pathLength,
+      displacement,
+      turning,
+      straightness: pathLength > 0 ? drift / pathLength : 1,
+      roundness,
+      closure: meanRadius > 0 ? 1 - Math.min(1, drift / (meanRadius * 2)) : 0
+    };
+  }
+
+  /**
+   * Drop samples closer together than a few pixels so jitter doesn't add turning
+   */
+  private simplify(samples: PointerSample[]): PointerSample[] {
+    const minStep = Math.max(4, this.config.tapMaxDistance / 4);
+    const points: PointerSample[] = [samples[0]];
+
+    for (let i = 1; i < samples.length; i++) {
+      const previous = points[points.length - 1];
+      if (Math.hypot(samples[i].x - previous.x, samples[i].y - previous.y) >= minStep) {
+        points.push(samples[i]);
+      }
+    }
+
+    const last = samples[samples.length - 1];
+    if (points[points.length - 1] !== last) points.push(last);
+    return points;
+  }
+
+  private matchAccuracy(recognized: RecognizedGesture, expected: TrickGesture): number {
+    if (recognized.type !== expected.type) {
+      // A hold that was cut short still reads as an attempt at a hold
+      const nearMiss = (recognized.type === 'tap' && expected.type === 'hold') ||
+        (recognized.type === 'sequence' && expected.type === 'double_tap');
+      return nearMiss ? recognized.shapeAccuracy * 0.6 : recognized.shapeAccuracy * 0.4;
+    }
+    if (expected.direction && recognized.direction !== expected.direction) {
+      return recognized.shapeAccuracy * 0.5;
+    }
+    return recognized.shapeAccuracy;
+  }
+
+  private scoreSequence(strokes: GestureStroke[], recognized: RecognizedGesture, steps: TrickGesture[]): GestureScore {
+    const components = recognized.components ?? [recognized];
+    const sorted = strokes.filter(stroke => stroke.samples.length > 0);
+
+    const stepScores = steps.map((step, index) => {
+      const component = components[index];
+      if (!component) return { accuracy: 0, timing: 0 };
+      return {
+        accuracy: this.matchAccuracy(component, step),
+        timing: this.timingAccuracy(component.type, component.duration, step)
+      };
+    });
+
+    // Extra strokes beyond the sequence count against the attempt
+    const extra = Math.max(0, components.length - steps.length);
+    const completeness = 1 - extra / (steps.length + extra);
+
+    const pauses = sorted.slice(1).map((stroke, index) => stroke.startTime - sorted[index].endTime);
+    const rhythm = pauses.length > 0
+      ? this.average(pauses.map(pause => this.clamp(1 - Math.max(0, pause - SEQUENCE_MAX_PAUSE) / SEQUENCE_MAX_PAUSE)))
+      : 1;
+
+    return {
+      type: 'sequence',
+      duration: recognized.duration,
+      accuracy: this.clamp(this.average(stepScores.map(s => s.accuracy)) * completeness),
+      timing: this.clamp(this.average(stepScores.map(s => s.timing)) * rhythm),
+      recognized
+    };
+  }
+
+  private timingAccuracy(type: GestureType, duration: number, expected: TrickGesture): number {
+    if (expected.duration) {
+      return this.clamp(1 - Math.abs(expected.duration - duration) / expected.duration);
+    }
+
+    // Multi-stroke attempts are paced against whatever single gesture was expected
+    const windowType = type !== 'sequence' ? type : expected.type !== 'sequence' ? expected.type : null;
+    if (!windowType) return 1;
+
+    const window = TIMING_WINDOWS[windowType];
+    if (duration < window.min) {
+      return this.clamp(1 - (window.min - duration) / Math.max(1, window.min));
+    }
+    if (duration > window.max) {
+      return this.clamp(1 - (duration - window.max) / window.max);
+    }
+    return 1;
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
+
+export const gestureRecognizer = new GestureRecognizer();
+
+export default gestureRecognizer;
@@ -3,6 +3,12 @@ import { GameMap } from './Map';
 import { Animal, createAnimal, ANIMAL_TEMPLATES, AnimalSpecies } from './Animal';
 import { EncounterAnimal, EncounterAnimalManager } from './EncounterAnimal';
 import HabitatSystem from './HabitatSystem';
+import { rng } from '../services/RandomService';
+import { weatherSystem } from './WeatherSystem';
+import { partySystem } from './PartySystem';
+import { ecosystemSystem } from './EcosystemSystem';
+import { worldClock } from './WorldClock';
+import { applyRareVariant } from './RareAnimals';
 
 export interface EncounterConfig {
   encounterChance: number;
@@ -11,6 +17,14 @@ export interface EncounterConfig {
   maxEncountersPerArea: number;
 }
 
+// Tuning used by the game world
+export const WILD_ENCOUNTER_CONFIG: EncounterConfig = {
+  encounterChance: 0.2, // 20% chance per grass step
+  minStepsInGrass: 2,
+  cooldownTime: 45000, // 45 seconds between encounters
+  maxEncountersPerArea: 1
+};
+
 export class GrassEncounterSystem {
   private map: GameMap;
   private habitatSystem: typeof HabitatSystem;
@@ -41,11 +55,14 @@ export class GrassEncounterSystem {
   }
 
   /**
-   * Check if player step should trigger an encounter
+   * Check if player step should trigger an encounter. Replays pass the
+   * recorded time so cooldowns play out the same way.
    */
-  public checkForEncounter(playerPosition: Position, previousPosition: Position): EncounterAnimal | null {
-    const currentTime = Date.now();
-    
+  public checkForEncounter(
+    playerPosition: Position,
+    previousPosition: Position,
+    currentTime: number = Date.now()
+  ): EncounterAnimal | null {
     // Check if we're on cooldown
     if (currentTime - this.lastEncounterTime < this.config.cooldownTime) {
       return null;
@@ -72,8 +89,10 @@ export class GrassEncounterSystem {
       return null;
     }
 
-    // Roll for encounter
-    if (Math.random() > this.config.encounterChance) {
+    // Roll for encounter; bad weather keeps animals under cover, sharp-eyed companions spot more
+    const mapId = this.map.getMetadata().id;
+    const detection = 1 + partySystem.getPassiveBonus('environmental', 'environment') / 100;
+    if (rng('encounters').next() > this.config.encounterChance * weatherSystem.getEncounterRateModifier(mapId) * detection) {
       return null;
     }
 
@@ -136,17 +155,34 @@ export class GrassEncounterSystem {
       // TODO: Get biome from region when supported
       const biome = 'temperate';
       
-      // Get suitable species for this biome
-      const suitableSpecies = this.getSuitableSpeciesForBiome(biome);
+      // Get suitable species for this biome, plus whatever the map's spawners still have to offer
+      const spawnerRates = this.getSpawnerRates();
+      const suitableSpecies = Array.from(new Set([
+        ...this.getSuitableSpeciesForBiome(biome),
+        ...spawnerRates.keys()
+      ]));
       if (suitableSpecies.length === 0) {
         return null;
       }
 
-      // Choose random species
-      const species = suitableSpecies[Math.floor(Math.random() * suitableSpecies.length)] as AnimalSpecies;
+      // Choose a species, favouring those that like the current weather and are thriving here
+      const species = this.pickSpeciesForWeather(suitableSpecies as AnimalSpecies[], position, spawnerRates);
       
       // Create base animal
       const baseAnimal = createAnimal(`encounter_${species}_${Date.now()}`, species, position);
+
+      // Rare variants turn up in their own season, weather and time of day
+      const variantId = this.habitatSystem.rollRareVariantInZone(
+        this.habitatSystem.getZoneAtPosition(position),
+        species,
+        worldClock.getSeason(),
+        weatherSystem.getProfile(this.map.getMetadata().id).behavior ?? 'sunny',
+        worldClock.getLightPhase(),
+        biome
+      );
+      if (variantId) {
+        applyRareVariant(baseAnimal, variantId);
+      }
       
       // Convert to encounter animal with fear/affection system
       const encounterAnimal = EncounterAnimalManager.createEncounterAnimal(baseAnimal, position);
@@ -182,6 +218,49 @@ export class GrassEncounterSystem {
     return biomeSpecies[biome] || ['rabbit', 'bird', 'mouse', 'squirrel'];
   }
 
+  /**
+   * Spawn rate of each encounterable species the map's spawners can still produce
+   */
+  private getSpawnerRates(): Map<AnimalSpecies, number> {
+    const rates = new Map<AnimalSpecies, number>();
+    this.map.getSpawners().forEach(spawner => {
+      const output = ecosystemSystem.getSpawnerOutput(spawner, this.map.getMetadata().id);
+      if (!output.species || output.species === 'fish' || !ANIMAL_TEMPLATES[output.species] || output.maxAnimals <= 0) {
+        return;
+      }
+      rates.set(output.species, (rates.get(output.species) || 0) + output.spawnRate);
+    });
+    return rates;
+  }
+
+  /**
+   * Weighted pick using each species' preference for the map's current weather,
+   * its local population and how busy its spawners are
+   */
+  private pickSpeciesForWeather(
+    species: AnimalSpecies[],
+    position: Position,
+    spawnerRates: Map<AnimalSpecies, number> = new Map()
+  ): AnimalSpecies {
+    const mapId = this.map.getMetadata().id;
+    const weights = species.map(candidate =>
+      weatherSystem.getSpawnWeight(candidate, mapId) *
+      ecosystemSystem.getEncounterWeight(candidate, position) *
+      (1 + (spawnerRates.get(candidate) || 0))
+    );
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+      return rng('encounters').pick(species);
+    }
+
+    let roll = rng('encounters').next() * total;
+    for (let i = 0; i < species.length; i++) {
+      roll -= weights[i];
+      if (roll <= 0) return species[i];
+    }
+    return species[species.length - 1];
+  }
+
   /**
    * Record an encounter at the given position
    */
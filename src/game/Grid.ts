@@ -2,6 +2,7 @@
 // Handles grid-based world representation, tile management, and coordinate conversion
 
 import { Position } from '../types/game';
+import { rng } from '../services/RandomService';
 
 export type TileType = 'grass' | 'water' | 'stone' | 'forest' | 'path' | 'flower' | 'empty';
 
@@ -354,7 +355,7 @@ export class Grid {
           tileType = 'flower';
         }
         
-        this.setTile(x, y, tileType, Math.floor(Math.random() * 3));
+        this.setTile(x, y, tileType, Math.floor(rng('world').next() * 3));
       }
     }
   }
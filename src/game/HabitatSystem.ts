@@ -3,7 +3,9 @@
 
 import { Animal, AnimalSpecies, isPositionSuitableForSpecies } from './Animal';
 import { Position } from '../types/game';
-import { RARE_VARIANTS, shouldSpawnRareVariant, createRareAnimal } from './RareAnimals';
+import { RARE_VARIANTS, Season, WeatherCondition, shouldSpawnRareVariant } from './RareAnimals';
+import { rng } from '../services/RandomService';
+import { Pathfinder } from './Pathfinding';
 
 export type BiomeType = 
   | 'temperate' | 'forest' | 'meadow' | 'grassland' | 'mountain' 
@@ -658,28 +660,42 @@ export function getHabitatHappinessModifier(animal: Animal, zone: HabitatZone):
 }
 
 /**
- * Check if rare animals should spawn in zone
+ * Pick a rare variant of a species to spawn in a zone, if the season, weather
+ * and time of day allow one. Returns the variant's key in RARE_VARIANTS.
  */
-export function shouldSpawnRareInZone(
-  zone: HabitatZone,
-  _species: AnimalSpecies,
-  _season: string,
-  _weather: string,
-  _timeOfDay: string
-): boolean {
-  // Higher quality zones have better chance for rare spawns
-  const qualityBonus = zone.quality / 100;
-  const lowDisturbanceBonus = Math.max(0, (100 - zone.disturbance) / 100);
-  
-  const rareChance = 0.01 * qualityBonus * lowDisturbanceBonus;
-  
-  return Math.random() < rareChance;
+export function rollRareVariantInZone(
+  zone: HabitatZone | null,
+  species: AnimalSpecies,
+  season: Season,
+  weather: WeatherCondition,
+  timeOfDay: 'day' | 'night' | 'dawn' | 'dusk',
+  fallbackBiome: string = 'temperate'
+): string | null {
+  // Higher quality, undisturbed zones keep their rare animals
+  if (zone) {
+    const qualityBonus = zone.quality / 100;
+    const lowDisturbanceBonus = Math.max(0, (100 - zone.disturbance) / 100);
+    if (!rng('world').chance(qualityBonus * lowDisturbanceBonus)) {
+      return null;
+    }
+  }
+
+  const biome = zone?.biome ?? fallbackBiome;
+  const variantId = Object.keys(RARE_VARIANTS).find(key =>
+    RARE_VARIANTS[key].baseSpecies === species &&
+    shouldSpawnRareVariant(RARE_VARIANTS[key], season, weather, timeOfDay, biome)
+  );
+  return variantId ?? null;
 }
 
 /**
  * Get migration corridors between zones
  */
-export function getMigrationCorridor(fromZoneId: string, toZoneId: string): Position[] {
+export function getMigrationCorridor(
+  fromZoneId: string,
+  toZoneId: string,
+  pathfinder?: Pathfinder
+): Position[] {
   const fromZone = activeZones.get(fromZoneId);
   const toZone = activeZones.get(toZoneId);
   
@@ -696,6 +712,13 @@ export function getMigrationCorridor(fromZoneId: string, toZoneId: string): Posi
     y: toZone.bounds.y + toZone.bounds.height / 2
   };
   
+  // Follow walkable terrain between the zones when a map is available
+  if (pathfinder) {
+    const start = { x: Math.round(fromCenter.x), y: Math.round(fromCenter.y) };
+    const route = pathfinder.findPath(start, toCenter, { allowDiagonal: true });
+    return route.length > 0 ? [start, ...route] : [];
+  }
+  
   // Create waypoints along the path
   const waypoints: Position[] = [];
   const steps = 5;
@@ -764,7 +787,7 @@ export default {
   updateZoneResources,
   getSuitableZones,
   getHabitatHappinessModifier,
-  shouldSpawnRareInZone,
+  rollRareVariantInZone,
   getMigrationCorridor,
   connectZones,
   getZoneStats
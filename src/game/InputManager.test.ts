@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_INPUT_BINDINGS,
+  GamepadConnectionEvent,
+  GamepadLike,
+  InputAction,
+  InputConfig,
+  InputManager,
+  loadInputBindings,
+  saveInputBindings
+} from './InputManager';
+
+const BUTTON_COUNT = 17;
+
+let pads: (GamepadLike | null)[];
+let now: number;
+let managers: InputManager[];
+
+function createPad(index: number, pressed: number[] = [], axes: number[] = [0, 0]): GamepadLike {
+  return {
+    index,
+    id: `Test Pad ${index}`,
+    connected: true,
+    buttons: Array.from({ length: BUTTON_COUNT }, (_, button) => ({
+      pressed: pressed.includes(button),
+      value: pressed.includes(button) ? 1 : 0
+    })),
+    axes
+  };
+}
+
+/**
+ * A manager that only reads the simulated gamepads, with every press recorded
+ */
+function createManager(config: InputConfig = {}): { manager: InputManager; presses: InputAction[] } {
+  const manager = new InputManager({} as HTMLElement, {
+    enableKeyboard: false,
+    enableTouch: false,
+    enableMouse: false,
+    gamepadSource: () => pads,
+    ...config
+  });
+  managers.push(manager);
+
+  const presses: InputAction[] = [];
+  (['up', 'down', 'left', 'right', 'action_a', 'action_b', 'pause'] as InputAction[]).forEach(action => {
+    manager.on(action, event => {
+      if (event.pressed) presses.push(action);
+    });
+  });
+  return { manager, presses };
+}
+
+/**
+ * Advance the clock and run one frame
+ */
+function frame(manager: InputManager, elapsed: number = 16): void {
+  now += elapsed;
+  manager.update();
+}
+
+beforeEach(() => {
+  pads = [];
+  now = 1_000_000;
+  managers = [];
+  vi.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  managers.forEach(manager => manager.destroy());
+  vi.restoreAllMocks();
+});
+
+describe('InputManager gamepad sticks', () => {
+  it('ignores stick travel inside the deadzone', () => {
+    const { manager, presses } = createManager({ gamepadDeadzone: 0.3 });
+
+    pads = [createPad(0, [], [0.29, -0.2])];
+    frame(manager);
+    expect(presses).toEqual([]);
+
+    pads = [createPad(0, [], [0.31, -0.2])];
+    frame(manager);
+    expect(presses).toEqual(['right']);
+  });
+
+  it('follows the stronger axis so movement stays on the grid', () => {
+    const { manager, presses } = createManager();
+
+    pads = [createPad(0, [], [0.5, -0.9])];
+    frame(manager);
+
+    expect(presses).toEqual(['up']);
+    expect(manager.isPressed('up')).toBe(true);
+  });
+
+  it('releases the direction when the stick returns to the centre', () => {
+    const { manager } = createManager();
+
+    pads = [createPad(0, [], [-1, 0])];
+    frame(manager);
+    pads = [createPad(0)];
+    frame(manager);
+
+    expect(manager.isPressed('left')).toBe(false);
+    expect(manager.isJustReleased('left')).toBe(true);
+  });
+});
+
+describe('InputManager gamepad repeat', () => {
+  it('repeats a held direction after the delay, then at the repeat rate', () => {
+    const { manager, presses } = createManager({ gamepadRepeatDelay: 300, gamepadRepeatRate: 100 });
+    pads = [createPad(0, [13])];
+
+    frame(manager, 0);
+    expect(presses).toHaveLength(1);
+
+    frame(manager, 299);
+    expect(presses).toHaveLength(1);
+
+    frame(manager, 1);
+    expect(presses).toHaveLength(2);
+
+    frame(manager, 99);
+    expect(presses).toHaveLength(2);
+
+    frame(manager, 1);
+    frame(manager, 100);
+    expect(presses).toEqual(['down', 'down', 'down', 'down']);
+  });
+
+  it('fires buttons once per press however long they are held', () => {
+    const { manager, presses } = createManager({ gamepadRepeatDelay: 300, gamepadRepeatRate: 100 });
+    pads = [createPad(0, [0])];
+
+    frame(manager, 0);
+    frame(manager, 1000);
+    expect(presses).toEqual(['action_a']);
+
+    pads = [createPad(0)];
+    frame(manager);
+    pads = [createPad(0, [0])];
+    frame(manager);
+    expect(presses).toEqual(['action_a', 'action_a']);
+  });
+
+  it('starts the delay over after a direction is let go', () => {
+    const { manager, presses } = createManager({ gamepadRepeatDelay: 300, gamepadRepeatRate: 100 });
+
+    pads = [createPad(0, [15])];
+    frame(manager, 0);
+    pads = [createPad(0)];
+    frame(manager, 200);
+    pads = [createPad(0, [15])];
+    frame(manager, 50);
+    frame(manager, 200);
+
+    expect(presses).toEqual(['right', 'right']);
+  });
+});
+
+describe('InputManager gamepad hot-plug', () => {
+  it('reports pads as they are plugged in and removed', () => {
+    const { manager } = createManager();
+    const events: GamepadConnectionEvent[] = [];
+    manager.onGamepadConnection(event => events.push(event));
+
+    frame(manager);
+    pads = [null, createPad(1)];
+    frame(manager);
+    expect(manager.getConnectedGamepads()).toEqual([{ index: 1, id: 'Test Pad 1' }]);
+
+    pads = [createPad(0), createPad(1)];
+    frame(manager);
+    pads = [createPad(0), { ...createPad(1), connected: false }];
+    frame(manager);
+
+    expect(events).toEqual([
+      { index: 1, id: 'Test Pad 1', connected: true },
+      { index: 0, id: 'Test Pad 0', connected: true },
+      { index: 1, id: 'Test Pad 1', connected: false }
+    ]);
+    expect(manager.getConnectedGamepads()).toEqual([{ index: 0, id: 'Test Pad 0' }]);
+  });
+
+  it('releases whatever an unplugged pad was holding', () => {
+    const { manager } = createManager();
+
+    pads = [createPad(0, [1])];
+    frame(manager);
+    expect(manager.isPressed('action_b')).toBe(true);
+
+    pads = [];
+    frame(manager);
+    expect(manager.isPressed('action_b')).toBe(false);
+  });
+
+  it('reads nothing when gamepads are turned off', () => {
+    const { manager, presses } = createManager({ enableGamepad: false });
+    pads = [createPad(0, [0])];
+
+    frame(manager);
+
+    expect(presses).toEqual([]);
+    expect(manager.getConnectedGamepads()).toEqual([]);
+  });
+});
+
+describe('InputManager bindings', () => {
+  it('uses saved bindings for new managers', () => {
+    saveInputBindings({
+      keyboard: { KeyJ: 'action_a' },
+      gamepad: { 2: 'action_a', 12: 'up' }
+    });
+
+    const { manager, presses } = createManager();
+    pads = [createPad(0, [0, 2])];
+    frame(manager);
+
+    expect(presses).toEqual(['action_a']);
+    expect(manager.getBindings()).toEqual({
+      keyboard: { KeyJ: 'action_a' },
+      gamepad: { 2: 'action_a', 12: 'up' }
+    });
+  });
+
+  it('keeps removed bindings removed and drops actions that cannot be bound', () => {
+    localStorage.setItem('feralFriends_inputBindings', JSON.stringify({
+      keyboard: { Space: 'tap', KeyW: 'up' },
+      gamepad: { 0: 'fly' }
+    }));
+
+    expect(loadInputBindings()).toEqual({ keyboard: { KeyW: 'up' }, gamepad: {} });
+  });
+
+  it('falls back to the defaults when nothing or garbage is saved', () => {
+    expect(loadInputBindings()).toEqual(DEFAULT_INPUT_BINDINGS);
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('feralFriends_inputBindings', '{not json');
+    expect(loadInputBindings()).toEqual(DEFAULT_INPUT_BINDINGS);
+  });
+
+  it('follows rebinding at runtime', () => {
+    const { manager, presses } = createManager({ bindings: DEFAULT_INPUT_BINDINGS });
+    manager.setGamepadMapping(3, 'pause');
+    manager.removeGamepadMapping(9);
+
+    pads = [createPad(0, [9])];
+    frame(manager);
+    pads = [createPad(0, [3])];
+    frame(manager);
+
+    expect(presses).toEqual(['pause']);
+  });
+});
@@ -1,5 +1,7 @@
 // Input Manager System
-// Handles touch, keyboard, and mouse inputs with input buffering and responsive controls
+// Handles touch, keyboard, mouse and gamepad inputs with input buffering and responsive controls
+
+import type { GestureStroke } from './GestureRecognizer';
 
 export type InputAction = 'up' | 'down' | 'left' | 'right' | 'action_a' | 'action_b' | 'pause' | 'tap';
 
@@ -29,20 +31,183 @@ export interface TouchState {
   identifier: number;
 }
 
+// The parts of the Gamepad API we read, so tests can pass in a plain object
+export interface GamepadButtonLike {
+  pressed: boolean;
+  value: number;
+}
+
+export interface GamepadLike {
+  index: number;
+  id: string;
+  connected: boolean;
+  buttons: readonly GamepadButtonLike[];
+  axes: readonly number[];
+}
+
+export type GamepadSource = () => readonly (GamepadLike | null)[];
+
+export interface GamepadConnectionEvent {
+  index: number;
+  id: string;
+  connected: boolean;
+}
+
+export interface InputBindings {
+  keyboard: Record<string, InputAction>; // KeyboardEvent.code -> action
+  gamepad: Record<number, InputAction>; // standard mapping button index -> action
+}
+
 export interface InputConfig {
   enableKeyboard?: boolean;
   enableTouch?: boolean;
   enableMouse?: boolean;
+  enableGamepad?: boolean;
   inputBufferSize?: number;
   inputBufferTimeout?: number;
   touchSensitivity?: number;
   doubleTapDelay?: number;
   longPressDelay?: number;
+  gamepadDeadzone?: number; // 0-1, stick travel ignored around the centre
+  gamepadRepeatDelay?: number; // ms a direction is held before it repeats
+  gamepadRepeatRate?: number; // ms between repeats after that
+  bindings?: InputBindings; // defaults to the saved bindings
+  gamepadSource?: GamepadSource; // defaults to navigator.getGamepads
+}
+
+// Actions players can rebind; tap only comes from pointers
+export const BINDABLE_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right', 'action_a', 'action_b', 'pause'];
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  up: 'Move Up',
+  down: 'Move Down',
+  left: 'Move Left',
+  right: 'Move Right',
+  action_a: 'Action',
+  action_b: 'Menu',
+  pause: 'Pause',
+  tap: 'Tap'
+};
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  keyboard: {
+    ArrowUp: 'up',
+    KeyW: 'up',
+    ArrowDown: 'down',
+    KeyS: 'down',
+    ArrowLeft: 'left',
+    KeyA: 'left',
+    ArrowRight: 'right',
+    KeyD: 'right',
+    Space: 'action_a',
+    Enter: 'action_a',
+    KeyX: 'action_a',
+    KeyZ: 'action_b',
+    Escape: 'pause',
+    KeyP: 'pause'
+  },
+  gamepad: {
+    0: 'action_a',
+    1: 'action_b',
+    9: 'pause',
+    12: 'up',
+    13: 'down',
+    14: 'left',
+    15: 'right'
+  }
+};
+
+// Button names for the standard gamepad layout
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start',
+  'Left Stick', 'Right Stick', 'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right', 'Home'
+];
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc'
+};
+
+// Held directions repeat so a held stick keeps walking; buttons fire once per press
+const REPEATING_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right'];
+
+// Analog triggers count as pressed past this point
+const BUTTON_PRESS_THRESHOLD = 0.5;
+
+const BINDINGS_STORAGE_KEY = 'feralFriends_inputBindings';
+
+// Strokes from the mouse share the id space with touch identifiers
+const MOUSE_POINTER_ID = -1;
+
+/**
+ * Read connected gamepads from the browser, if it supports them
+ */
+export function getBrowserGamepads(): readonly (GamepadLike | null)[] {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+    return [];
+  }
+  return Array.from(navigator.getGamepads());
+}
+
+export function getKeyLabel(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+export function getGamepadButtonLabel(index: number): string {
+  return GAMEPAD_BUTTON_NAMES[index] ?? `Button ${index}`;
+}
+
+/**
+ * Load saved bindings. Saved bindings replace the defaults outright so
+ * removed keys stay removed.
+ */
+export function loadInputBindings(): InputBindings {
+  const defaults: InputBindings = {
+    keyboard: { ...DEFAULT_INPUT_BINDINGS.keyboard },
+    gamepad: { ...DEFAULT_INPUT_BINDINGS.gamepad }
+  };
+
+  try {
+    const saved = localStorage.getItem(BINDINGS_STORAGE_KEY);
+    if (!saved) return defaults;
+
+    const parsed = JSON.parse(saved) as Partial<InputBindings>;
+    const isBindable = (action: unknown): action is InputAction => BINDABLE_ACTIONS.includes(action as InputAction);
+    const keyboard = Object.entries(parsed.keyboard || {}).filter(([, action]) => isBindable(action));
+    const gamepad = Object.entries(parsed.gamepad || {}).filter(([, action]) => isBindable(action));
+
+    return {
+      keyboard: parsed.keyboard ? Object.fromEntries(keyboard) : defaults.keyboard,
+      gamepad: parsed.gamepad ? Object.fromEntries(gamepad) : defaults.gamepad
+    };
+  } catch (error) {
+    console.warn('Failed to load input bindings:', error);
+    return defaults;
+  }
+}
+
+export function saveInputBindings(bindings: InputBindings): void {
+  try {
+    localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn('Failed to save input bindings:', error);
+  }
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (typeof HTMLElement === 'undefined' || !(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
 }
 
 export class InputManager {
   private element: HTMLElement;
-  private config: Required<InputConfig>;
+  private config: Required<Omit<InputConfig, 'bindings' | 'gamepadSource'>>;
   
   // Input state tracking
   private inputState: InputState = {};
@@ -51,30 +216,27 @@ export class InputManager {
   
   // Touch state
   private touches: Map<number, TouchState> = new Map();
+  private activeStrokes: Map<number, GestureStroke> = new Map();
+  private strokeCallbacks: ((stroke: GestureStroke, complete: boolean) => void)[] = [];
   private lastTapTime: number = 0;
   private lastTapPosition: { x: number; y: number } = { x: 0, y: 0 };
   
-  // Keyboard mappings
-  private keyboardMappings: Map<string, InputAction> = new Map([
-    ['ArrowUp', 'up'],
-    ['KeyW', 'up'],
-    ['ArrowDown', 'down'],
-    ['KeyS', 'down'],
-    ['ArrowLeft', 'left'],
-    ['KeyA', 'left'],
-    ['ArrowRight', 'right'],
-    ['KeyD', 'right'],
-    ['Space', 'action_a'],
-    ['Enter', 'action_a'],
-    ['KeyX', 'action_a'],
-    ['KeyZ', 'action_b'],
-    ['Escape', 'pause'],
-    ['KeyP', 'pause'],
-  ]);
+  // Keyboard and gamepad mappings
+  private keyboardMappings: Map<string, InputAction> = new Map();
+  private gamepadMappings: Map<number, InputAction> = new Map();
+
+  // Gamepad state
+  private gamepadSource: GamepadSource;
+  private connectedGamepads: Map<number, string> = new Map();
+  private gamepadActions: Map<InputAction, number> = new Map(); // held action -> next repeat time
+  private gamepadCallbacks: ((event: GamepadConnectionEvent) => void)[] = [];
   
   // Performance optimization
   private frameDropDetection: number[] = [];
   private lastFrameTime: number = 0;
+
+  // Bound once so destroy() can actually remove them
+  private listeners: { target: EventTarget; type: string; handler: EventListener; options?: AddEventListenerOptions }[] = [];
   
   constructor(element: HTMLElement, config: InputConfig = {}) {
     this.element = element;
@@ -82,12 +244,18 @@ export class InputManager {
       enableKeyboard: config.enableKeyboard ?? true,
       enableTouch: config.enableTouch ?? true,
       enableMouse: config.enableMouse ?? true,
+      enableGamepad: config.enableGamepad ?? true,
       inputBufferSize: config.inputBufferSize ?? 10,
       inputBufferTimeout: config.inputBufferTimeout ?? 200,
       touchSensitivity: config.touchSensitivity ?? 20,
       doubleTapDelay: config.doubleTapDelay ?? 300,
       longPressDelay: config.longPressDelay ?? 500,
+      gamepadDeadzone: config.gamepadDeadzone ?? 0.3,
+      gamepadRepeatDelay: config.gamepadRepeatDelay ?? 350,
+      gamepadRepeatRate: config.gamepadRepeatRate ?? 150,
     };
+    this.gamepadSource = config.gamepadSource ?? getBrowserGamepads;
+    this.setBindings(config.bindings ?? loadInputBindings());
     
     this.setupEventListeners();
     this.initializeInputState();
@@ -116,6 +284,42 @@ export class InputManager {
     }
   }
   
+  /**
+   * Register callback for pointer strokes, called as samples arrive and once
+   * more with complete set when the pointer lifts. Used for gesture recognition.
+   */
+  public onStroke(callback: (stroke: GestureStroke, complete: boolean) => void): void {
+    this.strokeCallbacks.push(callback);
+  }
+
+  public offStroke(callback: (stroke: GestureStroke, complete: boolean) => void): void {
+    const index = this.strokeCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.strokeCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Register callback for gamepads being plugged in or removed
+   */
+  public onGamepadConnection(callback: (event: GamepadConnectionEvent) => void): void {
+    this.gamepadCallbacks.push(callback);
+  }
+
+  public offGamepadConnection(callback: (event: GamepadConnectionEvent) => void): void {
+    const index = this.gamepadCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.gamepadCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Gamepads seen by the last update
+   */
+  public getConnectedGamepads(): { index: number; id: string }[] {
+    return Array.from(this.connectedGamepads.entries()).map(([index, id]) => ({ index, id }));
+  }
+
   /**
    * Check if input is currently pressed
    */
@@ -167,6 +371,9 @@ export class InputManager {
       this.inputBuffer = this.inputBuffer.slice(-this.config.inputBufferSize);
     }
     
+    // Gamepads have no events for buttons, so they're read every frame
+    this.pollGamepads(now);
+    
     // Track frame drops for performance optimization
     this.trackFramePerformance();
   }
@@ -198,6 +405,37 @@ export class InputManager {
   public removeKeyboardMapping(key: string): void {
     this.keyboardMappings.delete(key);
   }
+
+  /**
+   * Set gamepad button mapping (standard layout button index)
+   */
+  public setGamepadMapping(button: number, action: InputAction): void {
+    this.gamepadMappings.set(button, action);
+  }
+
+  /**
+   * Remove gamepad button mapping
+   */
+  public removeGamepadMapping(button: number): void {
+    this.gamepadMappings.delete(button);
+  }
+
+  /**
+   * Replace every keyboard and gamepad mapping at once
+   */
+  public setBindings(bindings: InputBindings): void {
+    this.keyboardMappings = new Map(Object.entries(bindings.keyboard));
+    this.gamepadMappings = new Map(
+      Object.entries(bindings.gamepad).map(([button, action]) => [Number(button), action])
+    );
+  }
+
+  public getBindings(): InputBindings {
+    return {
+      keyboard: Object.fromEntries(this.keyboardMappings),
+      gamepad: Object.fromEntries(this.gamepadMappings)
+    };
+  }
   
   /**
    * Destroy input manager and clean up event listeners
@@ -205,6 +443,11 @@ export class InputManager {
   public destroy(): void {
     this.removeEventListeners();
     this.callbacks.clear();
+    this.strokeCallbacks = [];
+    this.gamepadCallbacks = [];
+    this.gamepadActions.clear();
+    this.connectedGamepads.clear();
+    this.activeStrokes.clear();
     this.touches.clear();
     this.inputBuffer = [];
     this.frameDropDetection = [];
@@ -215,50 +458,50 @@ export class InputManager {
    */
   private setupEventListeners(): void {
     if (this.config.enableKeyboard) {
-      document.addEventListener('keydown', this.handleKeyDown.bind(this));
-      document.addEventListener('keyup', this.handleKeyUp.bind(this));
+      this.listen(document, 'keydown', this.handleKeyDown);
+      this.listen(document, 'keyup', this.handleKeyUp);
     }
     
     if (this.config.enableTouch) {
-      this.element.addEventListener('touchstart', this.handleTouchStart.bind(this), { passive: false });
-      this.element.addEventListener('touchmove', this.handleTouchMove.bind(this), { passive: false });
-      this.element.addEventListener('touchend', this.handleTouchEnd.bind(this), { passive: false });
-      this.element.addEventListener('touchcancel', this.handleTouchCancel.bind(this), { passive: false });
+      this.listen(this.element, 'touchstart', this.handleTouchStart, { passive: false });
+      this.listen(this.element, 'touchmove', this.handleTouchMove, { passive: false });
+      this.listen(this.element, 'touchend', this.handleTouchEnd, { passive: false });
+      this.listen(this.element, 'touchcancel', this.handleTouchCancel, { passive: false });
     }
     
     if (this.config.enableMouse) {
-      this.element.addEventListener('mousedown', this.handleMouseDown.bind(this));
-      this.element.addEventListener('mouseup', this.handleMouseUp.bind(this));
-      this.element.addEventListener('mousemove', this.handleMouseMove.bind(this));
-      this.element.addEventListener('click', this.handleClick.bind(this));
+      this.listen(this.element, 'mousedown', this.handleMouseDown);
+      this.listen(this.element, 'mouseup', this.handleMouseUp);
+      this.listen(this.element, 'mousemove', this.handleMouseMove);
+      this.listen(this.element, 'mouseleave', this.handleMouseLeave);
+      this.listen(this.element, 'click', this.handleClick);
     }
     
     // Prevent context menu on long press
-    this.element.addEventListener('contextmenu', (e) => e.preventDefault());
+    if (this.config.enableTouch || this.config.enableMouse) {
+      this.listen(this.element, 'contextmenu', (e: Event) => e.preventDefault());
+    }
   }
   
   /**
    * Remove all event listeners
    */
   private removeEventListeners(): void {
-    if (this.config.enableKeyboard) {
-      document.removeEventListener('keydown', this.handleKeyDown.bind(this));
-      document.removeEventListener('keyup', this.handleKeyUp.bind(this));
-    }
-    
-    if (this.config.enableTouch) {
-      this.element.removeEventListener('touchstart', this.handleTouchStart.bind(this));
-      this.element.removeEventListener('touchmove', this.handleTouchMove.bind(this));
-      this.element.removeEventListener('touchend', this.handleTouchEnd.bind(this));
-      this.element.removeEventListener('touchcancel', this.handleTouchCancel.bind(this));
-    }
-    
-    if (this.config.enableMouse) {
-      this.element.removeEventListener('mousedown', this.handleMouseDown.bind(this));
-      this.element.removeEventListener('mouseup', this.handleMouseUp.bind(this));
-      this.element.removeEventListener('mousemove', this.handleMouseMove.bind(this));
-      this.element.removeEventListener('click', this.handleClick.bind(this));
-    }
+    this.listeners.forEach(({ target, type, handler, options }) => {
+      target.removeEventListener(type, handler, options);
+    });
+    this.listeners = [];
+  }
+
+  private listen<E extends Event>(
+    target: EventTarget,
+    type: string,
+    handler: (event: E) => void,
+    options?: AddEventListenerOptions
+  ): void {
+    const bound = handler.bind(this) as EventListener;
+    target.addEventListener(type, bound, options);
+    this.listeners.push({ target, type, handler: bound, ...(options ? { options } : {}) });
   }
   
   /**
@@ -327,6 +570,7 @@ export class InputManager {
    * Handle keyboard down events
    */
   private handleKeyDown(event: KeyboardEvent): void {
+    if (isEditableTarget(event.target)) return;
     const action = this.keyboardMappings.get(event.code);
     if (action) {
       event.preventDefault();
@@ -338,6 +582,7 @@ export class InputManager {
    * Handle keyboard up events
    */
   private handleKeyUp(event: KeyboardEvent): void {
+    if (isEditableTarget(event.target)) return;
     const action = this.keyboardMappings.get(event.code);
     if (action) {
       event.preventDefault();
@@ -370,6 +615,7 @@ export class InputManager {
       };
       
       this.touches.set(touch.identifier, touchState);
+      this.beginStroke(touch.identifier, position);
       
       // Check for double tap
       this.checkDoubleTap(position);
@@ -394,6 +640,7 @@ export class InputManager {
           x: touch.clientX - rect.left,
           y: touch.clientY - rect.top,
         };
+        this.extendStroke(touch.identifier, touchState.currentPosition);
       }
     }
   }
@@ -428,6 +675,8 @@ export class InputManager {
           this.triggerInput('tap', false, endPosition, event);
         }
         
+        this.extendStroke(touch.identifier, endPosition);
+        this.endStroke(touch.identifier);
         this.touches.delete(touch.identifier);
       }
     }
@@ -441,6 +690,7 @@ export class InputManager {
       const touch = event.changedTouches[i];
       if (!touch) continue;
       
+      this.endStroke(touch.identifier);
       this.touches.delete(touch.identifier);
     }
   }
@@ -457,6 +707,7 @@ export class InputManager {
     
     if (event.button === 0) { // Left click
       this.triggerInput('action_a', true, position, event);
+      this.beginStroke(MOUSE_POINTER_ID, position);
     } else if (event.button === 2) { // Right click
       this.triggerInput('action_b', true, position, event);
     }
@@ -474,6 +725,8 @@ export class InputManager {
     
     if (event.button === 0) { // Left click
       this.triggerInput('action_a', false, position, event);
+      this.extendStroke(MOUSE_POINTER_ID, position);
+      this.endStroke(MOUSE_POINTER_ID);
     } else if (event.button === 2) { // Right click
       this.triggerInput('action_b', false, position, event);
     }
@@ -483,7 +736,20 @@ export class InputManager {
    * Handle mouse move events
    */
   private handleMouseMove(event: MouseEvent): void {
-    // Mouse move handling can be added here if needed
+    if (!this.activeStrokes.has(MOUSE_POINTER_ID)) return;
+    
+    const rect = this.element.getBoundingClientRect();
+    this.extendStroke(MOUSE_POINTER_ID, {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+    });
+  }
+  
+  /**
+   * Dragging off the element ends the stroke
+   */
+  private handleMouseLeave(): void {
+    this.endStroke(MOUSE_POINTER_ID);
   }
   
   /**
@@ -499,6 +765,41 @@ export class InputManager {
     this.triggerInput('tap', false, position, event);
   }
   
+  /**
+   * Start recording pointer samples for gesture recognition
+   */
+  private beginStroke(pointerId: number, position: { x: number; y: number }): void {
+    if (this.strokeCallbacks.length === 0) return;
+    
+    const now = Date.now();
+    const stroke: GestureStroke = {
+      pointerId,
+      samples: [{ ...position, time: now }],
+      startTime: now,
+      endTime: now,
+    };
+    this.activeStrokes.set(pointerId, stroke);
+    this.strokeCallbacks.forEach(callback => callback(stroke, false));
+  }
+  
+  private extendStroke(pointerId: number, position: { x: number; y: number }): void {
+    const stroke = this.activeStrokes.get(pointerId);
+    if (!stroke) return;
+    
+    stroke.endTime = Date.now();
+    stroke.samples.push({ ...position, time: stroke.endTime });
+    this.strokeCallbacks.forEach(callback => callback(stroke, false));
+  }
+  
+  private endStroke(pointerId: number): void {
+    const stroke = this.activeStrokes.get(pointerId);
+    if (!stroke) return;
+    
+    this.activeStrokes.delete(pointerId);
+    stroke.endTime = Date.now();
+    this.strokeCallbacks.forEach(callback => callback(stroke, true));
+  }
+  
   /**
    * Check for double tap
    */
@@ -519,6 +820,87 @@ export class InputManager {
     this.lastTapPosition = position;
   }
   
+  /**
+   * Read every connected gamepad, noticing pads that come and go, and turn
+   * buttons and the left stick into presses, repeats and releases
+   */
+  private pollGamepads(now: number): void {
+    if (!this.config.enableGamepad) return;
+
+    const pads = this.gamepadSource().filter((pad): pad is GamepadLike => pad !== null && pad.connected);
+
+    // Hot-plug detection
+    const present = new Set(pads.map(pad => pad.index));
+    pads.forEach(pad => {
+      if (!this.connectedGamepads.has(pad.index)) {
+        this.connectedGamepads.set(pad.index, pad.id);
+        this.notifyGamepadConnection({ index: pad.index, id: pad.id, connected: true });
+      }
+    });
+    this.connectedGamepads.forEach((id, index) => {
+      if (!present.has(index)) {
+        this.connectedGamepads.delete(index);
+        this.notifyGamepadConnection({ index, id, connected: false });
+      }
+    });
+
+    const held = new Set<InputAction>();
+    pads.forEach(pad => {
+      pad.buttons.forEach((button, index) => {
+        const action = this.gamepadMappings.get(index);
+        if (action && (button.pressed || button.value > BUTTON_PRESS_THRESHOLD)) {
+          held.add(action);
+        }
+      });
+
+      const direction = this.getStickDirection(pad.axes[0] ?? 0, pad.axes[1] ?? 0);
+      if (direction) {
+        held.add(direction);
+      }
+    });
+
+    this.gamepadActions.forEach((_repeatAt, action) => {
+      if (!held.has(action)) {
+        this.gamepadActions.delete(action);
+        this.triggerInput(action, false);
+      }
+    });
+
+    held.forEach(action => {
+      const repeatAt = this.gamepadActions.get(action);
+      if (repeatAt === undefined) {
+        this.gamepadActions.set(action, now + this.config.gamepadRepeatDelay);
+        this.triggerInput(action, true);
+      } else if (REPEATING_ACTIONS.includes(action) && now >= repeatAt) {
+        this.gamepadActions.set(action, now + this.config.gamepadRepeatRate);
+        this.triggerInput(action, true);
+      }
+    });
+  }
+
+  /**
+   * Movement is on a grid, so only the stick's stronger axis counts
+   */
+  private getStickDirection(x: number, y: number): InputAction | null {
+    const deadzone = this.config.gamepadDeadzone;
+    if (Math.abs(x) < deadzone && Math.abs(y) < deadzone) return null;
+
+    if (Math.abs(x) > Math.abs(y)) {
+      return x > 0 ? 'right' : 'left';
+    }
+    return y > 0 ? 'down' : 'up';
+  }
+
+  private notifyGamepadConnection(event: GamepadConnectionEvent): void {
+    this.gamepadCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in gamepad callback:', error);
+      }
+    });
+  }
+  
   /**
    * Track frame performance for input optimization
    */
@@ -5,6 +5,7 @@ import { Position } from '../types/game';
 import { Animal, canInteractWithPlayer, getDistanceToPlayer } from './Animal';
 import { AnimalAI } from './AnimalAI';
 import { dialogueSystem } from './DialogueSystem';
+import { rng } from '../services/RandomService';
 
 export type InteractionType = 'observe' | 'approach' | 'interact' | 'feed' | 'pet' | 'play' | 'talk';
 
@@ -119,7 +120,7 @@ export class InteractionSystem {
 
     // Calculate success chance
     const successChance = this.calculateSuccessChance(type, animal, distance);
-    const success = Math.random() < successChance;
+    const success = rng('encounters').chance(successChance);
 
     // Create interaction attempt record
     const attempt: InteractionAttempt = {
@@ -1,5 +1,7 @@
 import { InventoryItem, ItemEffect, ItemRequirement } from './InventorySystem';
 import { Animal } from './Animal';
+import { rng } from '../services/RandomService';
+import { gameEvents } from './GameEvents';
 
 export type ItemCategory = 'tool' | 'toy' | 'treat' | 'craft' | 'special' | 'collectible';
 export type ToolType = 'net' | 'rope' | 'whistle' | 'mirror' | 'brush' | 'camera' | 'lantern';
@@ -499,6 +501,12 @@ export const ITEM_DATABASE: Record<string, InventoryItem> = {
   } as CraftItem
 };
 
+export interface ItemSaveData {
+  activeEffects: Array<[string, { effect: ItemEffect; endTime: number }]>;
+  itemCooldowns: Array<[string, number]>;
+  crafting: Array<[string, { recipe: CraftingRecipe; startTime: number }]>;
+}
+
 export class ItemSystem {
   private activeEffects: Map<string, { effect: ItemEffect; endTime: number }> = new Map();
   private itemCooldowns: Map<string, number> = new Map();
@@ -510,9 +518,9 @@ export class ItemSystem {
     onSpecialEvent?: (event: string, context: any) => void;
     onCraftingComplete?: (recipeId: string, result: { itemId: string; quantity: number }) => void;
   } = {};
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor() {
-    this.loadItemData();
     this.startEffectCleanup();
   }
 
@@ -609,9 +617,9 @@ export class ItemSystem {
 
       // Trigger callback
       this.callbacks.onItemUsed?.(itemId, result);
+      gameEvents.emit('item.used', { itemId });
     }
 
-    this.saveItemData();
     return result;
   }
 
@@ -733,6 +741,7 @@ export class ItemSystem {
     const experience = craftingProcess.recipe.experience;
 
     this.callbacks.onCraftingComplete?.(recipeId, result);
+    gameEvents.emit('item.crafted', { recipeId, itemId: result.itemId, quantity: result.quantity });
 
     return {
       success: true,
@@ -825,7 +834,7 @@ export class ItemSystem {
     const skillBonus = 0.1; // Simplified skill system
     const successRate = Math.min(0.95, baseSuccess + skillBonus);
     
-    const success = Math.random() < successRate;
+    const success = rng('loot').chance(successRate);
     const durabilityLoss = success ? 5 : 2;
     
     // Update tool durability
@@ -870,7 +879,7 @@ export class ItemSystem {
 
     const animalPreference = toy.animalPreferences[context.targetAnimal.species] || 1;
     const successRate = (toy.entertainmentValue / 100) * animalPreference * 0.2;
-    const success = Math.random() < successRate;
+    const success = rng('loot').chance(successRate);
     
     const durabilityLoss = 3;
     toy.durability = Math.max(0, toy.durability - durabilityLoss);
@@ -983,8 +992,18 @@ export class ItemSystem {
     });
   }
 
+  /**
+   * Stop sweeping out expired effects and cooldowns
+   */
+  stop(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
   private startEffectCleanup(): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       const now = Date.now();
       const expiredEffects: string[] = [];
       
@@ -1009,31 +1028,24 @@ export class ItemSystem {
     }, 1000); // Check every second
   }
 
-  private loadItemData(): void {
-    try {
-      const saved = localStorage.getItem('feralFriends_itemData');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.activeEffects = new Map(data.activeEffects || []);
-        this.itemCooldowns = new Map(data.itemCooldowns || []);
-        this.crafting = new Map(data.crafting || []);
-      }
-    } catch (error) {
-      console.warn('Failed to load item data:', error);
-    }
+  /**
+   * Snapshot item effects, cooldowns and crafting for the unified save file
+   */
+  getSaveData(): ItemSaveData {
+    return {
+      activeEffects: Array.from(this.activeEffects.entries()),
+      itemCooldowns: Array.from(this.itemCooldowns.entries()),
+      crafting: Array.from(this.crafting.entries())
+    };
   }
 
-  private saveItemData(): void {
-    try {
-      const data = {
-        activeEffects: Array.from(this.activeEffects.entries()),
-        itemCooldowns: Array.from(this.itemCooldowns.entries()),
-        crafting: Array.from(this.crafting.entries())
-      };
-      localStorage.setItem('feralFriends_itemData', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save item data:', error);
-    }
+  /**
+   * Replace item effects, cooldowns and crafting with data from a save file
+   */
+  loadSaveData(data: Partial<ItemSaveData>): void {
+    this.activeEffects = new Map(data.activeEffects || []);
+    this.itemCooldowns = new Map(data.itemCooldowns || []);
+    this.crafting = new Map(data.crafting || []);
   }
 }
 
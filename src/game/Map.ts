@@ -3,6 +3,8 @@
 
 import { Position } from '../types/game';
 import { TileType, Tile } from './Grid';
+import { rng } from '../services/RandomService';
+import { OBJECT_TEMPLATES, ObjectType } from './MapObjects';
 
 export type TerrainType = 'grass' | 'water' | 'stone' | 'forest' | 'path' | 'flower' | 'sand' | 'dirt' | 'rock' | 'bush';
 
@@ -33,6 +35,7 @@ export interface AnimalSpawner {
   spawnRate: number; // spawns per minute
   maxAnimals: number;
   spawnRadius: number;
+  position?: Position; // tile the spawn radius is centred on
   conditions?: {
     timeOfDay?: 'day' | 'night' | 'dawn' | 'dusk';
     weather?: 'sunny' | 'rainy' | 'cloudy';
@@ -183,6 +186,24 @@ export class GameMap {
     return true;
   }
   
+  /**
+   * Change the terrain of a tile, keeping the tile's stored format
+   */
+  public setTerrain(x: number, y: number, terrainType: TerrainType): boolean {
+    const row = this.data.tiles[y];
+    if (!this.getTile(x, y) || !row) {
+      return false;
+    }
+    
+    // Maps authored as JSON store bare terrain names
+    if (typeof row[x] === 'string') {
+      (row as unknown[])[x] = terrainType;
+    } else {
+      Object.assign(row[x], { terrainType, walkable: this.terrainVisuals[terrainType].walkable });
+    }
+    return true;
+  }
+  
   /**
    * Check if position is walkable
    */
@@ -278,6 +299,46 @@ export class GameMap {
   public addTransition(transition: MapTransition): void {
     this.data.transitions.push(transition);
   }
+
+  /**
+   * Remove transition from map
+   */
+  public removeTransition(transitionId: string): boolean {
+    const index = this.data.transitions.findIndex(transition => transition.id === transitionId);
+    if (index !== -1) {
+      this.data.transitions.splice(index, 1);
+      return true;
+    }
+    return false;
+  }
+  
+  /**
+   * Get all spawners
+   */
+  public getSpawners(): AnimalSpawner[] {
+    return [...this.data.spawners];
+  }
+  
+  /**
+   * Add spawner to map
+   */
+  public addSpawner(spawner: AnimalSpawner): void {
+    this.data.spawners.push(spawner);
+    this.activeSpawners.set(spawner.id, spawner);
+  }
+  
+  /**
+   * Remove spawner from map
+   */
+  public removeSpawner(spawnerId: string): boolean {
+    const index = this.data.spawners.findIndex(spawner => spawner.id === spawnerId);
+    if (index !== -1) {
+      this.data.spawners.splice(index, 1);
+      this.activeSpawners.delete(spawnerId);
+      return true;
+    }
+    return false;
+  }
   
   /**
    * Get spawners in area
@@ -304,6 +365,35 @@ export class GameMap {
     ) || null;
   }
   
+  /**
+   * Get all regions
+   */
+  public getRegions(): MapRegion[] {
+    return [...(this.data.regions || [])];
+  }
+  
+  /**
+   * Add region to map
+   */
+  public addRegion(region: MapRegion): void {
+    if (!this.data.regions) {
+      this.data.regions = [];
+    }
+    this.data.regions.push(region);
+  }
+  
+  /**
+   * Remove region from map
+   */
+  public removeRegion(regionId: string): boolean {
+    const index = (this.data.regions || []).findIndex(region => region.id === regionId);
+    if (index !== -1) {
+      this.data.regions!.splice(index, 1);
+      return true;
+    }
+    return false;
+  }
+  
   /**
    * Get terrain type at specific position
    */
@@ -323,7 +413,8 @@ export class GameMap {
    * Set current weather
    */
   public setWeather(weather: string): void {
-    if (this.data.metadata.weather.variations.includes(weather)) {
+    const { default: defaultWeather, variations } = this.data.metadata.weather;
+    if (weather === defaultWeather || variations.includes(weather)) {
       this.currentWeather = weather;
     }
   }
@@ -370,6 +461,24 @@ export class GameMap {
     return { ...this.data.metadata.spawnPoint };
   }
   
+  /**
+   * Set spawn point
+   */
+  public setSpawnPoint(position: Position): boolean {
+    if (!this.isValidPosition(position.x, position.y)) {
+      return false;
+    }
+    this.data.metadata.spawnPoint = { ...position };
+    return true;
+  }
+  
+  /**
+   * Update map metadata
+   */
+  public updateMetadata(metadata: Partial<MapMetadata>): void {
+    this.data.metadata = { ...this.data.metadata, ...metadata };
+  }
+  
   /**
    * Check if position is within map bounds
    */
@@ -387,8 +496,8 @@ export class GameMap {
     const maxAttempts = 100;
     
     for (let i = 0; i < maxAttempts; i++) {
-      const x = Math.floor(Math.random() * width);
-      const y = Math.floor(Math.random() * height);
+      const x = Math.floor(rng('world').next() * width);
+      const y = Math.floor(rng('world').next() * height);
       
       if (this.isWalkable(x, y)) {
         return { x, y };
@@ -512,6 +621,35 @@ export function createMapObject(
   };
 }
 
+// Environment object types that GameMap has no renderer for
+const TEMPLATE_TYPE_FALLBACKS: Partial<Record<ObjectType, MapObject['type']>> = {
+  crystal: 'landmark',
+  ancient_stone: 'landmark',
+  berry_bush: 'bush',
+  mushroom: 'flower',
+  log: 'decoration'
+};
+
+/**
+ * Build a map object from an OBJECT_TEMPLATES entry
+ */
+export function createMapObjectFromTemplate(id: string, templateKey: string, position: Position): MapObject | null {
+  const template = OBJECT_TEMPLATES[templateKey];
+  if (!template) return null;
+
+  const templateType = template.type || 'decoration';
+  return {
+    id,
+    type: TEMPLATE_TYPE_FALLBACKS[templateType] ?? templateType as MapObject['type'],
+    position: { ...position },
+    size: { ...(template.size || { width: 1, height: 1 }) },
+    walkable: template.walkable ?? true,
+    interactable: template.interactable ?? false,
+    ...(template.sprite ? { sprite: template.sprite } : {}),
+    metadata: { template: templateKey, name: template.metadata?.name }
+  };
+}
+
 export function createTransition(
   id: string,
   fromPosition: Position,
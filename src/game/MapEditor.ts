@@ -0,0 +1,374 @@
+// Map Editor System
+// Editing operations on a GameMap with undo/redo, used by the /editor route
+
+import { Position } from '../types/game';
+import { GameMap, MapData, MapObject, MapRegion, AnimalSpawner, MapTransition, MapBounds, TerrainType, createMapObjectFromTemplate } from './Map';
+
+export interface MapEditorConfig {
+  maxHistory?: number;
+}
+
+export interface MapEditorState {
+  mapId: string;
+  canUndo: boolean;
+  canRedo: boolean;
+  dirty: boolean;
+}
+
+export class MapEditor {
+  private map: GameMap;
+  private config: Required<MapEditorConfig>;
+  private undoStack: MapData[] = [];
+  private redoStack: MapData[] = [];
+  private strokeSnapshot: MapData | null = null;
+  private strokeChanged: boolean = false;
+  private dirty: boolean = false;
+  private idCounter: number = 0;
+
+  // Callbacks
+  private onChange?: (state: MapEditorState) => void;
+  private onMapReplaced?: (map: GameMap) => void;
+
+  constructor(mapData: MapData, config: MapEditorConfig = {}) {
+    this.config = {
+      maxHistory: config.maxHistory ?? 100
+    };
+    this.map = new GameMap(JSON.parse(JSON.stringify(mapData)));
+  }
+
+  /**
+   * Map being edited. Undo and redo swap in a new GameMap instance.
+   */
+  public getMap(): GameMap {
+    return this.map;
+  }
+
+  public getState(): MapEditorState {
+    return {
+      mapId: this.map.getMetadata().id,
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+      dirty: this.dirty
+    };
+  }
+
+  // Strokes group continuous edits (dragging a brush) into one undo step
+
+  public beginStroke(): void {
+    if (this.strokeSnapshot) return;
+    this.strokeSnapshot = this.map.exportMapData();
+    this.strokeChanged = false;
+  }
+
+  public endStroke(): void {
+    if (!this.strokeSnapshot) return;
+    if (this.strokeChanged) {
+      this.pushUndo(this.strokeSnapshot);
+      this.notifyChange();
+    }
+    this.strokeSnapshot = null;
+    this.strokeChanged = false;
+  }
+
+  /**
+   * Paint terrain in a square brush centred on the position
+   */
+  public paintTerrain(position: Position, terrainType: TerrainType, brushSize: number = 1): boolean {
+    const offset = Math.floor((brushSize - 1) / 2);
+    const targets: Position[] = [];
+
+    for (let y = position.y - offset; y < position.y - offset + brushSize; y++) {
+      for (let x = position.x - offset; x < position.x - offset + brushSize; x++) {
+        if (this.map.getTerrainAt(x, y) && this.map.getTerrainAt(x, y) !== terrainType) {
+          targets.push({ x, y });
+        }
+      }
+    }
+
+    if (targets.length === 0) return false;
+
+    return this.edit(map => {
+      targets.forEach(({ x, y }) => map.setTerrain(x, y, terrainType));
+      return true;
+    });
+  }
+
+  /**
+   * Flood fill contiguous terrain of the same type
+   */
+  public fillTerrain(position: Position, terrainType: TerrainType): boolean {
+    const original = this.map.getTerrainAt(position.x, position.y);
+    if (!original || original === terrainType) return false;
+
+    return this.edit(map => {
+      const queue: Position[] = [position];
+      const visited = new Set<string>();
+
+      while (queue.length > 0) {
+        const { x, y } = queue.shift()!;
+        const key = `${x},${y}`;
+        if (visited.has(key) || map.getTerrainAt(x, y) !== original) continue;
+
+        visited.add(key);
+        map.setTerrain(x, y, terrainType);
+        queue.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Place an object built from an OBJECT_TEMPLATES entry
+   */
+  public placeObject(templateKey: string, position: Position): MapObject | null {
+    if (!this.map.isValidPosition(position.x, position.y)) return null;
+
+    const object = createMapObjectFromTemplate(
+      this.generateId(templateKey, id => !this.map.getObject(id)),
+      templateKey,
+      position
+    );
+    if (!object) return null;
+
+    this.edit(map => {
+      map.addObject(object);
+      return true;
+    });
+    return object;
+  }
+
+  public moveObject(objectId: string, position: Position): boolean {
+    const object = this.map.getObject(objectId);
+    if (!object || !this.map.isValidPosition(position.x, position.y)) return false;
+
+    return this.edit(map => {
+      const target = map.getObject(objectId);
+      if (!target) return false;
+      target.position = { ...position };
+      return true;
+    });
+  }
+
+  public removeObject(objectId: string): boolean {
+    if (!this.map.getObject(objectId)) return false;
+    return this.edit(map => map.removeObject(objectId));
+  }
+
+  public addRegion(bounds: MapBounds, type: MapRegion['type'], name?: string): MapRegion {
+    const region: MapRegion = {
+      id: this.generateId(`${type}_region`, id => !this.map.getRegions().some(r => r.id === id)),
+      name: name || `${type.charAt(0).toUpperCase()}${type.slice(1)} Region`,
+      bounds: this.normalizeBounds(bounds),
+      type
+    };
+
+    this.edit(map => {
+      map.addRegion(region);
+      return true;
+    });
+    return region;
+  }
+
+  public updateRegion(regionId: string, changes: Partial<Omit<MapRegion, 'id'>>): boolean {
+    return this.edit(map => {
+      const region = map.getRegions().find(r => r.id === regionId);
+      if (!region) return false;
+      Object.assign(region, changes, changes.bounds ? { bounds: this.normalizeBounds(changes.bounds) } : {});
+      return true;
+    });
+  }
+
+  public removeRegion(regionId: string): boolean {
+    return this.edit(map => map.removeRegion(regionId));
+  }
+
+  public addSpawner(position: Position, animalTypes: string[], spawnRadius: number = 3): AnimalSpawner {
+    const spawner: AnimalSpawner = {
+      id: this.generateId(`${animalTypes[0] || 'animal'}_spawner`, id => !this.map.getSpawners().some(s => s.id === id)),
+      animalTypes,
+      spawnRate: 1,
+      maxAnimals: 3,
+      spawnRadius,
+      position: { ...position }
+    };
+
+    this.edit(map => {
+      map.addSpawner(spawner);
+      return true;
+    });
+    return spawner;
+  }
+
+  public updateSpawner(spawnerId: string, changes: Partial<Omit<AnimalSpawner, 'id'>>): boolean {
+    return this.edit(map => {
+      const spawner = map.getSpawners().find(s => s.id === spawnerId);
+      if (!spawner) return false;
+      Object.assign(spawner, changes);
+      return true;
+    });
+  }
+
+  public removeSpawner(spawnerId: string): boolean {
+    return this.edit(map => map.removeSpawner(spawnerId));
+  }
+
+  /**
+   * Link a tile on this map to a position on another map
+   */
+  public addTransition(
+    fromPosition: Position,
+    toMapId: string,
+    toPosition: Position,
+    transitionType: MapTransition['transitionType'] = 'edge'
+  ): MapTransition {
+    const transition: MapTransition = {
+      id: this.generateId(`to_${toMapId}`, id => !this.map.getTransitions().some(t => t.id === id)),
+      fromPosition: { ...fromPosition },
+      toMapId,
+      toPosition: { ...toPosition },
+      transitionType
+    };
+
+    this.edit(map => {
+      map.addTransition(transition);
+      return true;
+    });
+    return transition;
+  }
+
+  public removeTransition(transitionId: string): boolean {
+    return this.edit(map => map.removeTransition(transitionId));
+  }
+
+  public setSpawnPoint(position: Position): boolean {
+    const current = this.map.getSpawnPoint();
+    if (current.x === position.x && current.y === position.y) return false;
+    return this.edit(map => map.setSpawnPoint(position));
+  }
+
+  /**
+   * Remove whatever sits on a tile: objects first, then transitions, spawners, regions
+   */
+  public eraseAt(position: Position): boolean {
+    const { x, y } = position;
+    const object = this.map.getObjectsAtPosition(x, y)[0];
+    if (object) return this.removeObject(object.id);
+
+    const transition = this.map.getTransitionsAtPosition(x, y)[0];
+    if (transition) return this.removeTransition(transition.id);
+
+    const spawner = this.map.getSpawners().find(s => s.position?.x === x && s.position?.y === y);
+    if (spawner) return this.removeSpawner(spawner.id);
+
+    const region = this.map.getRegionAtPosition(x, y);
+    if (region) return this.removeRegion(region.id);
+
+    return false;
+  }
+
+  public undo(): boolean {
+    const snapshot = this.undoStack.pop();
+    if (!snapshot) return false;
+
+    this.redoStack.push(this.map.exportMapData());
+    this.replaceMap(snapshot);
+    return true;
+  }
+
+  public redo(): boolean {
+    const snapshot = this.redoStack.pop();
+    if (!snapshot) return false;
+
+    this.undoStack.push(this.map.exportMapData());
+    this.replaceMap(snapshot);
+    return true;
+  }
+
+  /**
+   * Map data ready for saving, stamped with the edit time
+   */
+  public exportMapData(): MapData {
+    const data = this.map.exportMapData();
+    data.metadata.lastModified = new Date().toISOString();
+    return data;
+  }
+
+  public exportJSON(): string {
+    return JSON.stringify(this.exportMapData(), null, 2);
+  }
+
+  public markSaved(): void {
+    this.dirty = false;
+    this.notifyChange();
+  }
+
+  public setCallbacks(callbacks: {
+    onChange?: (state: MapEditorState) => void;
+    onMapReplaced?: (map: GameMap) => void;
+  }): void {
+    this.onChange = callbacks.onChange;
+    this.onMapReplaced = callbacks.onMapReplaced;
+  }
+
+  /**
+   * Apply a change, recording an undo snapshot unless a stroke is in progress
+   */
+  private edit(change: (map: GameMap) => boolean): boolean {
+    const snapshot = this.strokeSnapshot ? null : this.map.exportMapData();
+    if (!change(this.map)) return false;
+
+    if (snapshot) {
+      this.pushUndo(snapshot);
+      this.notifyChange();
+    } else {
+      this.strokeChanged = true;
+      this.dirty = true;
+    }
+    return true;
+  }
+
+  private pushUndo(snapshot: MapData): void {
+    this.undoStack.push(snapshot);
+    if (this.undoStack.length > this.config.maxHistory) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.dirty = true;
+  }
+
+  private replaceMap(data: MapData): void {
+    this.map = new GameMap(data);
+    this.dirty = true;
+    this.onMapReplaced?.(this.map);
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.onChange?.(this.getState());
+  }
+
+  private normalizeBounds(bounds: MapBounds): MapBounds {
+    const { width, height } = this.map.getDimensions();
+    const clamp = (value: number, max: number) => Math.max(0, Math.min(max - 1, value));
+    return {
+      minX: clamp(Math.min(bounds.minX, bounds.maxX), width),
+      maxX: clamp(Math.max(bounds.minX, bounds.maxX), width),
+      minY: clamp(Math.min(bounds.minY, bounds.maxY), height),
+      maxY: clamp(Math.max(bounds.minY, bounds.maxY), height)
+    };
+  }
+
+  private generateId(prefix: string, isFree: (id: string) => boolean): string {
+    let id: string;
+    do {
+      id = `${prefix}_${String(++this.idCounter).padStart(2, '0')}`;
+    } while (!isFree(id));
+    return id;
+  }
+}
+
+export function createMapEditor(mapData: MapData, config: MapEditorConfig = {}): MapEditor {
+  return new MapEditor(mapData, config);
+}
+
+export default MapEditor;
@@ -0,0 +1,587 @@
+// Map Generator
+// Seeded procedural MapData for any biome in BIOME_DATA
+
+import { Position } from '../types/game';
+import { RandomStream } from '../services/RandomService';
+import {
+  AnimalSpawner,
+  MapData,
+  MapObject,
+  MapRegion,
+  MapTransition,
+  TerrainType,
+  createMapMetadata,
+  createMapObjectFromTemplate
+} from './Map';
+import { BIOME_DATA, BiomeType } from './HabitatSystem';
+import { AnimalSpecies } from './Animal';
+import { getObjectsForBiome, OBJECT_TEMPLATES } from './MapObjects';
+import { DEFAULT_MAP_ID, MAP_REGISTRY, validateMapConnections } from '../data/maps';
+
+export interface MapGeneratorOptions {
+  biome: BiomeType;
+  seed?: number;
+  id?: string;
+  name?: string;
+  width?: number;
+  height?: number;
+  season?: 'spring' | 'summer' | 'fall' | 'winter';
+  // Existing maps to place edge transitions to, at most one per map edge
+  connectTo?: string[];
+}
+
+interface BiomeTerrainProfile {
+  base: TerrainType;
+  accent: TerrainType;
+  dense: TerrainType;
+  high: TerrainType;
+  low: TerrainType;
+  river: boolean;
+  ambientSound: string;
+  difficulty: 'easy' | 'normal' | 'hard';
+  objectBiomes: string[];
+}
+
+// How each biome's noise fields turn into terrain. `objectBiomes` lists the
+// OBJECT_TEMPLATES biome tags to draw from when the biome has none of its own.
+const TERRAIN_PROFILES: Record<BiomeType, BiomeTerrainProfile> = {
+  temperate: { base: 'grass', accent: 'flower', dense: 'forest', high: 'stone', low: 'water', river: true, ambientSound: 'meadow', difficulty: 'easy', objectBiomes: ['temperate'] },
+  forest: { base: 'grass', accent: 'bush', dense: 'forest', high: 'rock', low: 'water', river: true, ambientSound: 'forest', difficulty: 'normal', objectBiomes: ['forest'] },
+  meadow: { base: 'grass', accent: 'flower', dense: 'bush', high: 'stone', low: 'water', river: false, ambientSound: 'meadow', difficulty: 'easy', objectBiomes: ['meadow'] },
+  grassland: { base: 'grass', accent: 'dirt', dense: 'bush', high: 'stone', low: 'water', river: false, ambientSound: 'wind', difficulty: 'easy', objectBiomes: ['grassland', 'meadow'] },
+  mountain: { base: 'stone', accent: 'dirt', dense: 'forest', high: 'rock', low: 'water', river: false, ambientSound: 'wind', difficulty: 'hard', objectBiomes: ['mountain'] },
+  water: { base: 'sand', accent: 'grass', dense: 'bush', high: 'stone', low: 'water', river: true, ambientSound: 'water', difficulty: 'normal', objectBiomes: ['meadow'] },
+  river: { base: 'grass', accent: 'sand', dense: 'forest', high: 'stone', low: 'water', river: true, ambientSound: 'water', difficulty: 'easy', objectBiomes: ['meadow', 'forest'] },
+  swamp: { base: 'dirt', accent: 'grass', dense: 'bush', high: 'forest', low: 'water', river: false, ambientSound: 'crickets', difficulty: 'hard', objectBiomes: ['forest'] },
+  cave: { base: 'stone', accent: 'dirt', dense: 'rock', high: 'rock', low: 'water', river: false, ambientSound: 'wind', difficulty: 'hard', objectBiomes: ['mountain'] },
+  flower: { base: 'flower', accent: 'grass', dense: 'bush', high: 'stone', low: 'water', river: false, ambientSound: 'peaceful', difficulty: 'easy', objectBiomes: ['meadow'] },
+  desert: { base: 'sand', accent: 'dirt', dense: 'bush', high: 'rock', low: 'water', river: false, ambientSound: 'wind', difficulty: 'hard', objectBiomes: ['mountain'] },
+  tundra: { base: 'stone', accent: 'sand', dense: 'rock', high: 'rock', low: 'water', river: false, ambientSound: 'wind', difficulty: 'hard', objectBiomes: ['mountain'] }
+};
+
+const NOCTURNAL_SPECIES: AnimalSpecies[] = ['owl', 'bat', 'raccoon', 'hedgehog'];
+const AQUATIC_SPECIES: AnimalSpecies[] = ['frog', 'turtle', 'otter'];
+
+const WALKABLE: Record<TerrainType, boolean> = {
+  grass: true,
+  water: false,
+  stone: true,
+  forest: false,
+  path: true,
+  flower: true,
+  sand: true,
+  dirt: true,
+  rock: false,
+  bush: false
+};
+
+type Edge = 'west' | 'east' | 'north' | 'south';
+const EDGES: Edge[] = ['west', 'east', 'north', 'south'];
+
+/**
+ * Smoothed value noise over a lattice of seeded random values
+ */
+class ValueNoise {
+  private lattice: number[];
+  private size = 256;
+
+  constructor(random: RandomStream) {
+    this.lattice = Array.from({ length: this.size * this.size }, () => random.next());
+  }
+
+  sample(x: number, y: number, octaves: number = 3): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let weight = 0;
+
+    for (let octave = 0; octave < octaves; octave++) {
+      total += this.smooth(x * frequency, y * frequency) * amplitude;
+      weight += amplitude;
+      amplitude *= 0.5;
+      frequency *= 2;
+    }
+    return total / weight;
+  }
+
+  private smooth(x: number, y: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fade = (t: number) => t * t * (3 - 2 * t);
+    const tx = fade(x - x0);
+    const ty = fade(y - y0);
+
+    const top = this.value(x0, y0) * (1 - tx) + this.value(x0 + 1, y0) * tx;
+    const bottom = this.value(x0, y0 + 1) * (1 - tx) + this.value(x0 + 1, y0 + 1) * tx;
+    return top * (1 - ty) + bottom * ty;
+  }
+
+  private value(x: number, y: number): number {
+    const wrap = (n: number) => ((n % this.size) + this.size) % this.size;
+    return this.lattice[wrap(y) * this.size + wrap(x)];
+  }
+}
+
+export class MapGenerator {
+  private random!: RandomStream;
+  private width = 0;
+  private height = 0;
+  private terrain: TerrainType[][] = [];
+  // Tiles that must stay walkable and free of objects (paths, clearings)
+  private reserved: Set<string> = new Set();
+  private occupied: Set<string> = new Set();
+
+  /**
+   * Generate a map. The same options and seed always give the same map.
+   */
+  public generate(options: MapGeneratorOptions): MapData {
+    const biome = BIOME_DATA[options.biome];
+    if (!biome) {
+      throw new Error(`Unknown biome: ${options.biome}`);
+    }
+
+    const seed = (options.seed ?? Date.now()) >>> 0;
+    const profile = TERRAIN_PROFILES[options.biome];
+    this.random = new RandomStream(seed);
+    this.width = Math.max(12, options.width ?? 24);
+    this.height = Math.max(12, options.height ?? 20);
+    this.reserved.clear();
+    this.occupied.clear();
+
+    const connectTo = (options.connectTo ?? [DEFAULT_MAP_ID]).slice(0, EDGES.length);
+    connectTo.forEach(mapId => {
+      if (!MAP_REGISTRY[mapId]) {
+        throw new Error(`Cannot connect to unknown map: ${mapId}`);
+      }
+    });
+
+    const id = options.id ?? `${options.biome}_${seed.toString(36)}`;
+    const spawnPoint = { x: Math.floor(this.width / 2), y: Math.floor(this.height / 2) };
+
+    this.generateTerrain(options.biome);
+    if (profile.river || biome.features.includes('streams')) {
+      this.carveRiver();
+    }
+
+    this.carveClearing(spawnPoint, 2, profile.base);
+    const clearings = this.placeClearings(profile.base);
+    const transitions = this.placeTransitions(connectTo);
+    [...transitions.map(t => t.fromPosition), ...clearings].forEach(target => this.carvePath(spawnPoint, target));
+    this.closeUnreachablePockets(spawnPoint, profile.dense);
+
+    const objects = this.placeObjects(options, profile);
+    const spawners = this.placeSpawners(options.biome, spawnPoint, objects);
+    const regions = this.buildRegions(spawnPoint, clearings);
+
+    const metadata = createMapMetadata(id, options.name ?? `Wild ${biome.name}`, this.width, this.height, spawnPoint);
+    metadata.displayName = options.name ?? biome.name;
+    metadata.description = biome.description;
+    metadata.biome = options.biome;
+    metadata.difficulty = profile.difficulty;
+    metadata.ambientSound = profile.ambientSound;
+    metadata.weather = {
+      default: biome.humidity >= 75 ? 'cloudy' : 'sunny',
+      variations: biome.humidity >= 50 ? ['sunny', 'cloudy', 'rainy'] : ['sunny', 'cloudy']
+    };
+
+    const mapData: MapData = {
+      metadata,
+      tiles: this.terrain.map(row => [...row]) as unknown as MapData['tiles'],
+      objects,
+      transitions,
+      spawners,
+      regions
+    };
+
+    this.verify(mapData);
+    return mapData;
+  }
+
+  // Terrain
+
+  private generateTerrain(biomeType: BiomeType): void {
+    const biome = BIOME_DATA[biomeType];
+    const profile = TERRAIN_PROFILES[biomeType];
+    const elevationNoise = new ValueNoise(this.random);
+    const moistureNoise = new ValueNoise(this.random);
+    const scale = 0.12;
+
+    const elevation: number[][] = [];
+    const moisture: number[][] = [];
+    for (let y = 0; y < this.height; y++) {
+      elevation.push([]);
+      moisture.push([]);
+      for (let x = 0; x < this.width; x++) {
+        elevation[y].push(elevationNoise.sample(x * scale, y * scale));
+        moisture[y].push(moistureNoise.sample(x * scale + 100, y * scale + 100));
+      }
+    }
+
+    // Noise clusters around 0.5, so thresholds are taken as shares of the map
+    // rather than absolute values: a biome with 60% water availability gets
+    // roughly 11% open water before rivers
+    const quantile = (values: number[][], share: number) => {
+      const sorted = values.flat().sort((a, b) => a - b);
+      return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(share * sorted.length)))];
+    };
+    const waterLevel = quantile(elevation, (biome.waterAvailability / 100) * 0.18);
+    const highLevel = quantile(elevation, 0.92);
+    const denseLevel = quantile(moisture, 1 - (biome.vegetation / 100) * 0.25);
+    const accentLevel = quantile(moisture, 1 - (biome.vegetation / 100) * 0.25 - 0.2);
+
+    this.terrain = [];
+    for (let y = 0; y < this.height; y++) {
+      const row: TerrainType[] = [];
+      for (let x = 0; x < this.width; x++) {
+        const e = elevation[y][x];
+        const m = moisture[y][x];
+
+        if (e < waterLevel) row.push(profile.low);
+        else if (e > highLevel) row.push(profile.high);
+        else if (m > denseLevel) row.push(profile.dense);
+        else if (m > accentLevel) row.push(profile.accent);
+        else row.push(profile.base);
+      }
+      this.terrain.push(row);
+    }
+  }
+
+  /**
+   * A meandering river across the map, entering and leaving on opposite edges
+   */
+  private carveRiver(): void {
+    const horizontal = this.random.chance(0.5);
+    const length = horizontal ? this.width : this.height;
+    const span = horizontal ? this.height : this.width;
+    let offset = this.random.int(Math.floor(span * 0.25), Math.floor(span * 0.75));
+    const riverWidth = this.random.int(1, 2);
+
+    for (let step = 0; step < length; step++) {
+      if (this.random.chance(0.4)) {
+        offset = Math.max(1, Math.min(span - 2 - riverWidth, offset + this.random.pick([-1, 1])));
+      }
+      for (let w = 0; w < riverWidth; w++) {
+        const position = horizontal ? { x: step, y: offset + w } : { x: offset + w, y: step };
+        this.setTerrain(position, 'water');
+        // Sandy banks
+        const bank = horizontal ? { x: step, y: offset + riverWidth } : { x: offset + riverWidth, y: step };
+        if (this.getTerrain(bank) !== 'water' && this.random.chance(0.5)) {
+          this.setTerrain(bank, 'sand');
+        }
+      }
+    }
+  }
+
+  private carveClearing(center: Position, radius: number, terrain: TerrainType): void {
+    const fill = WALKABLE[terrain] ? terrain : 'grass';
+    for (let y = center.y - radius; y <= center.y + radius; y++) {
+      for (let x = center.x - radius; x <= center.x + radius; x++) {
+        if (!this.inBounds({ x, y })) continue;
+        if ((x - center.x) ** 2 + (y - center.y) ** 2 > radius * radius + 1) continue;
+        this.setTerrain({ x, y }, fill);
+        this.reserved.add(`${x},${y}`);
+      }
+    }
+  }
+
+  private placeClearings(terrain: TerrainType): Position[] {
+    const count = this.random.int(1, 3);
+    const clearings: Position[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const center = {
+        x: this.random.int(3, this.width - 4),
+        y: this.random.int(3, this.height - 4)
+      };
+      this.carveClearing(center, this.random.int(1, 2), terrain);
+      clearings.push(center);
+    }
+    return clearings;
+  }
+
+  /**
+   * Wandering path towards the target; crossing water leaves a walkable ford
+   */
+  private carvePath(from: Position, to: Position): void {
+    const current = { ...from };
+    let guard = (this.width + this.height) * 4;
+
+    while ((current.x !== to.x || current.y !== to.y) && guard-- > 0) {
+      const dx = Math.sign(to.x - current.x);
+      const dy = Math.sign(to.y - current.y);
+
+      // Mostly head for the target, sometimes drift sideways
+      if (dx !== 0 && (dy === 0 || this.random.chance(0.5))) {
+        current.x += dx;
+      } else if (dy !== 0) {
+        current.y += dy;
+      }
+      if (this.random.chance(0.15)) {
+        const drift = this.random.pick([-1, 1]);
+        const sideways = dx !== 0 ? { x: current.x, y: current.y + drift } : { x: current.x + drift, y: current.y };
+        if (this.inBounds(sideways) && !this.isEdge(sideways)) {
+          this.markPath(current);
+          current.x = sideways.x;
+          current.y = sideways.y;
+        }
+      }
+      this.markPath(current);
+    }
+  }
+
+  private markPath(position: Position): void {
+    if (!this.inBounds(position)) return;
+    this.setTerrain(position, 'path');
+    this.reserved.add(`${position.x},${position.y}`);
+  }
+
+  /**
+   * Walkable pockets the player can't reach become dense terrain
+   */
+  private closeUnreachablePockets(spawnPoint: Position, dense: TerrainType): void {
+    const reachable = this.floodFill(spawnPoint);
+    const fill = WALKABLE[dense] ? 'forest' : dense;
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (WALKABLE[this.terrain[y][x]] && !reachable.has(`${x},${y}`)) {
+          this.terrain[y][x] = fill;
+        }
+      }
+    }
+  }
+
+  // Transitions
+
+  private placeTransitions(connectTo: string[]): MapTransition[] {
+    return connectTo.map((mapId, index) => {
+      const edge = EDGES[index];
+      const target = MAP_REGISTRY[mapId];
+      const along = edge === 'west' || edge === 'east'
+        ? this.random.int(Math.floor(this.height * 0.3), Math.floor(this.height * 0.7))
+        : this.random.int(Math.floor(this.width * 0.3), Math.floor(this.width * 0.7));
+
+      const fromPosition = {
+        west: { x: 0, y: along },
+        east: { x: this.width - 1, y: along },
+        north: { x: along, y: 0 },
+        south: { x: along, y: this.height - 1 }
+      }[edge];
+
+      this.carveClearing(fromPosition, 1, 'path');
+
+      return {
+        id: `to_${mapId}`,
+        fromPosition,
+        toMapId: mapId,
+        toPosition: { ...target.metadata.spawnPoint },
+        transitionType: 'edge',
+        description: `Path to ${target.metadata.displayName}`
+      };
+    });
+  }
+
+  // Objects and spawners
+
+  private placeObjects(options: MapGeneratorOptions, profile: BiomeTerrainProfile): MapObject[] {
+    const season = options.season ?? 'spring';
+    let templates = getObjectsForBiome(options.biome, season);
+    if (templates.length === 0) {
+      templates = Array.from(new Set(profile.objectBiomes.flatMap(biome => getObjectsForBiome(biome, season))));
+    }
+    if (templates.length === 0) return [];
+
+    const biome = BIOME_DATA[options.biome];
+    const target = Math.round(this.width * this.height * 0.015 * (0.5 + biome.vegetation / 100));
+    const objects: MapObject[] = [];
+
+    for (let attempt = 0; attempt < target * 10 && objects.length < target; attempt++) {
+      const templateKey = this.random.pick(templates);
+      const size = OBJECT_TEMPLATES[templateKey].size || { width: 1, height: 1 };
+      const position = { x: this.random.int(1, this.width - 1 - size.width), y: this.random.int(1, this.height - 1 - size.height) };
+
+      if (!this.canPlace(position, size)) continue;
+
+      const object = createMapObjectFromTemplate(`${templateKey}_${objects.length + 1}`, templateKey, position);
+      if (!object) continue;
+
+      this.occupy(position, size);
+      objects.push(object);
+    }
+    return objects;
+  }
+
+  private placeSpawners(biomeType: BiomeType, spawnPoint: Position, objects: MapObject[]): AnimalSpawner[] {
+    const biome = BIOME_DATA[biomeType];
+    const fauna = (Object.entries(biome.spawnModifiers) as [AnimalSpecies, number][])
+      .filter(([, modifier]) => modifier > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 6);
+    const reachable = this.floodFill(spawnPoint, objects);
+    const spawners: AnimalSpawner[] = [];
+
+    // Pair up species that share a time of day
+    for (let i = 0; i < fauna.length; i += 2) {
+      const group = fauna.slice(i, i + 2);
+      const nocturnal = group.every(([species]) => NOCTURNAL_SPECIES.includes(species));
+      const aquatic = group.some(([species]) => AQUATIC_SPECIES.includes(species));
+      const position = this.findSpawnerPosition(reachable, spawnPoint, aquatic);
+      if (!position) break;
+
+      const [leader, modifier] = group[0];
+      spawners.push({
+        id: `${leader}_spawner_${spawners.length + 1}`,
+        animalTypes: group.map(([species]) => species),
+        spawnRate: Math.round(modifier * 10) / 10,
+        maxAnimals: Math.max(1, Math.min(4, ...group.map(([species]) => biome.carryingCapacity[species]))),
+        spawnRadius: 3,
+        position,
+        ...(nocturnal ? { conditions: { timeOfDay: 'night' as const } } : {})
+      });
+    }
+    return spawners;
+  }
+
+  private findSpawnerPosition(reachable: Set<string>, spawnPoint: Position, nearWater: boolean): Position | null {
+    const candidates = this.random.shuffle(Array.from(reachable))
+      .map(key => {
+        const [x, y] = key.split(',').map(Number);
+        return { x, y };
+      })
+      .filter(position => Math.abs(position.x - spawnPoint.x) + Math.abs(position.y - spawnPoint.y) > 4);
+
+    const byWater = nearWater
+      ? candidates.find(position => this.neighbours(position).some(n => this.getTerrain(n) === 'water'))
+      : undefined;
+    return byWater ?? candidates[0] ?? null;
+  }
+
+  private buildRegions(spawnPoint: Position, clearings: Position[]): MapRegion[] {
+    return [
+      {
+        id: 'spawn_clearing',
+        name: 'Clearing',
+        bounds: { minX: spawnPoint.x - 2, maxX: spawnPoint.x + 2, minY: spawnPoint.y - 2, maxY: spawnPoint.y + 2 },
+        type: 'safe',
+        description: 'A quiet clearing to get your bearings.'
+      },
+      ...clearings.map((center, index) => ({
+        id: `glade_${index + 1}`,
+        name: 'Quiet Glade',
+        bounds: {
+          minX: Math.max(0, center.x - 2),
+          maxX: Math.min(this.width - 1, center.x + 2),
+          minY: Math.max(0, center.y - 2),
+          maxY: Math.min(this.height - 1, center.y + 2)
+        },
+        type: 'peaceful' as const
+      }))
+    ];
+  }
+
+  // Checks
+
+  /**
+   * Every transition and spawner must be reachable and every link must resolve
+   */
+  private verify(mapData: MapData): void {
+    const reachable = this.floodFill(mapData.metadata.spawnPoint, mapData.objects);
+    const unreachable = [
+      ...mapData.transitions.map(t => ({ id: t.id, position: t.fromPosition })),
+      ...mapData.spawners.map(s => ({ id: s.id, position: s.position! }))
+    ].filter(({ position }) => !reachable.has(`${position.x},${position.y}`));
+
+    if (unreachable.length > 0) {
+      throw new Error(`Generated map has unreachable points: ${unreachable.map(u => u.id).join(', ')}`);
+    }
+    if (!validateMapConnections({ [mapData.metadata.id]: mapData })) {
+      throw new Error('Generated map has invalid transitions');
+    }
+  }
+
+  private floodFill(start: Position, objects: MapObject[] = []): Set<string> {
+    const blocked = new Set<string>();
+    objects.filter(object => !object.walkable).forEach(object => {
+      for (let y = object.position.y; y < object.position.y + object.size.height; y++) {
+        for (let x = object.position.x; x < object.position.x + object.size.width; x++) {
+          blocked.add(`${x},${y}`);
+        }
+      }
+    });
+
+    const visited = new Set<string>();
+    const queue: Position[] = [start];
+    while (queue.length > 0) {
+      const position = queue.pop()!;
+      const key = `${position.x},${position.y}`;
+      const terrain = this.getTerrain(position);
+      if (visited.has(key) || blocked.has(key) || !terrain || !WALKABLE[terrain]) continue;
+
+      visited.add(key);
+      queue.push(...this.neighbours(position));
+    }
+    return visited;
+  }
+
+  private canPlace(position: Position, size: { width: number; height: number }): boolean {
+    for (let y = position.y; y < position.y + size.height; y++) {
+      for (let x = position.x; x < position.x + size.width; x++) {
+        const key = `${x},${y}`;
+        const terrain = this.getTerrain({ x, y });
+        if (!terrain || !WALKABLE[terrain] || this.reserved.has(key) || this.occupied.has(key)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  private occupy(position: Position, size: { width: number; height: number }): void {
+    // Leave a one tile margin so blocking objects never seal off a pocket
+    for (let y = position.y - 1; y <= position.y + size.height; y++) {
+      for (let x = position.x - 1; x <= position.x + size.width; x++) {
+        this.occupied.add(`${x},${y}`);
+      }
+    }
+  }
+
+  private neighbours(position: Position): Position[] {
+    return [
+      { x: position.x + 1, y: position.y },
+      { x: position.x - 1, y: position.y },
+      { x: position.x, y: position.y + 1 },
+      { x: position.x, y: position.y - 1 }
+    ];
+  }
+
+  private inBounds(position: Position): boolean {
+    return position.x >= 0 && position.x < this.width && position.y >= 0 && position.y < this.height;
+  }
+
+  private isEdge(position: Position): boolean {
+    return position.x === 0 || position.y === 0 || position.x === this.width - 1 || position.y === this.height - 1;
+  }
+
+  private getTerrain(position: Position): TerrainType | null {
+    return this.inBounds(position) ? this.terrain[position.y][position.x] : null;
+  }
+
+  private setTerrain(position: Position, terrain: TerrainType): void {
+    if (this.inBounds(position)) {
+      this.terrain[position.y][position.x] = terrain;
+    }
+  }
+}
+
+export function createMapGenerator(): MapGenerator {
+  return new MapGenerator();
+}
+
+/**
+ * Shorthand for a one-off map: generateBiomeMap('swamp', 1234)
+ */
+export function generateBiomeMap(biome: BiomeType, seed?: number, options: Omit<MapGeneratorOptions, 'biome' | 'seed'> = {}): MapData {
+  return new MapGenerator().generate({ ...options, biome, seed });
+}
+
+export default MapGenerator;
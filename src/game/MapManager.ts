@@ -4,6 +4,7 @@
 import { Position } from '../types/game';
 import { GameMap, MapData, MapTransition, createMapMetadata } from './Map';
 import { MapRenderer, createMapRenderer } from './MapRenderer';
+import { weatherSystem } from './WeatherSystem';
 
 export interface MapManagerConfig {
   cacheSize?: number;
@@ -137,6 +138,12 @@ export class MapManager {
       this.updateLoadingProgress(60, 'initializing');
       const map = new GameMap(mapData);
       
+      // Maps outside the registry still get weather that can drift in from their neighbours
+      if (!weatherSystem.isMapRegistered(mapId)) {
+        weatherSystem.registerMap(mapData);
+      }
+      map.setWeather(weatherSystem.getWeather(mapId));
+      
       // Create renderer
       this.updateLoadingProgress(80, 'rendering');
       const renderer = createMapRenderer(map, {
@@ -219,9 +226,11 @@ export class MapManager {
     }
     
     // Load map if not already loaded
-    await this.loadMap(mapId);
+    const map = await this.loadMap(mapId);
     
     this.currentMapId = mapId;
+    weatherSystem.setActiveMap(mapId);
+    map.setWeather(weatherSystem.getWeather(mapId));
     
     // Preload adjacent maps
     this.preloadAdjacentMaps(mapId);
@@ -4,6 +4,7 @@
 import { Position } from '../types/game';
 import { GameMap, MapObject, TerrainType } from './Map';
 import { Camera } from './Renderer';
+import { WEATHER_PROFILES, WeatherState } from './WeatherSystem';
 
 export interface MapRenderConfig {
   tileSize: number;
@@ -50,6 +51,7 @@ export class MapRenderer {
   // Animation and effects
   private animationTime: number = 0;
   private weatherEffects: Map<string, WeatherEffect> = new Map();
+  private renderedWeather: string | null = null;
   private lightingSources: Map<string, { position: Position; radius: number; color: string; intensity: number }> = new Map();
   
   // Rendering optimization
@@ -104,8 +106,11 @@ export class MapRenderer {
       this.lastCameraPosition = { x: camera.x, y: camera.y };
     }
     
-    // Update weather effects
+    // Update weather effects, picking up changes from the weather system
     if (this.config.enableWeatherEffects) {
+      if (this.map.getWeather() !== this.renderedWeather) {
+        this.initializeWeatherEffects();
+      }
       this.updateWeatherEffects(deltaTime);
     }
     
@@ -589,6 +594,9 @@ export class MapRenderer {
         case 'fog':
           this.renderFog(ctx, effect, camera);
           break;
+        case 'wind':
+          this.renderWind(ctx, effect);
+          break;
       }
     });
   }
@@ -629,6 +637,21 @@ export class MapRenderer {
     ctx.fillRect(-camera.x, -camera.y, ctx.canvas.width, ctx.canvas.height);
   }
   
+  /**
+   * Render wind streaks
+   */
+  private renderWind(ctx: CanvasRenderingContext2D, effect: WeatherEffect): void {
+    ctx.strokeStyle = `rgba(255, 255, 255, ${effect.intensity * 0.4})`;
+    ctx.lineWidth = 1;
+    
+    effect.particles.forEach(particle => {
+      ctx.beginPath();
+      ctx.moveTo(particle.x, particle.y);
+      ctx.lineTo(particle.x - particle.vx * 6, particle.y - particle.vy * 6);
+      ctx.stroke();
+    });
+  }
+  
   /**
    * Update visible tiles based on camera position
    */
@@ -653,12 +676,11 @@ export class MapRenderer {
    */
   private initializeWeatherEffects(): void {
     const currentWeather = this.map.getWeather();
+    this.renderedWeather = currentWeather;
+    this.weatherEffects.clear();
     
-    if (currentWeather === 'rainy') {
-      this.addWeatherEffect('rain', 0.7);
-    } else if (currentWeather === 'cloudy') {
-      this.addWeatherEffect('fog', 0.3);
-    }
+    const profile = WEATHER_PROFILES[currentWeather as WeatherState];
+    profile?.particles.forEach(effect => this.addWeatherEffect(effect.type, effect.intensity));
   }
   
   /**
@@ -671,7 +693,7 @@ export class MapRenderer {
       const particle: WeatherParticle = {
         x: Math.random() * 1000,
         y: Math.random() * 1000,
-        vx: effect.type === 'rain' ? -2 : (Math.random() - 0.5) * 2,
+        vx: effect.type === 'rain' ? -2 : effect.type === 'wind' ? 6 + Math.random() * 4 : (Math.random() - 0.5) * 2,
         vy: effect.type === 'rain' ? 8 : effect.type === 'snow' ? 2 : 0.5,
         size: effect.type === 'snow' ? 1 + Math.random() * 3 : 1,
         opacity: 0.5 + Math.random() * 0.5,
@@ -699,9 +721,10 @@ export class MapRenderer {
         particle.life += deltaTime;
         
         // Reset particle if it's off screen or dead
-        if (particle.life > particle.maxLife || particle.y > 1000) {
-          particle.x = Math.random() * 1000;
-          particle.y = -10;
+        if (particle.life > particle.maxLife || particle.y > 1000 || particle.x > 1000) {
+          // Wind blows in from the side, everything else falls from the top
+          particle.x = effect.type === 'wind' ? -10 : Math.random() * 1000;
+          particle.y = effect.type === 'wind' ? Math.random() * 1000 : -10;
           particle.life = 0;
         }
       });
@@ -0,0 +1,395 @@
+// Party System
+// Active companions that trail the player on the overworld, idle nearby and lend their passive abilities
+
+import { Position } from '../types/game';
+import { Animal } from './Animal';
+import { GameMap } from './Map';
+import { CollisionSystem, createCollisionSystem, createEntity } from './Collision';
+import { PlayerAnimations, createPlayerAnimations, AnimatedPosition } from './PlayerAnimations';
+import { bondingSystem, BondLevel, BOND_LEVELS, COMPANION_ABILITIES, CompanionAbility, AbilityEffect } from './BondingSystem';
+import { gameEvents } from './GameEvents';
+import { rng } from '../services/RandomService';
+import { TILE_SIZE } from '../constants';
+
+export type PartySystemEvent = 'join' | 'leave';
+
+export interface PartyConfig {
+  maxSize?: number;
+  idleDelay?: number; // ms the player must stand still before followers wander
+  idleRadius?: number; // tiles from the player followers may wander
+  teleportDistance?: number; // tiles beyond which followers jump instead of walking
+}
+
+export interface PartyFollower {
+  animal: Animal;
+  tile: Position; // tile the follower occupies or is walking to
+  animation: PlayerAnimations;
+  nextIdleMove: number;
+}
+
+export interface PartyRenderState {
+  animal: Animal;
+  position: Position; // fractional tile coordinates
+  frame: AnimatedPosition;
+  isMoving: boolean;
+}
+
+export interface PartyJoinResult {
+  success: boolean;
+  message: string;
+}
+
+export interface PartySaveData {
+  members: string[];
+  maxSize: number;
+}
+
+type PartyCallback = (animalId: string, members: string[]) => void;
+
+// Tamed companions start out on friendly terms even before any bonding has been recorded
+const TAMED_BOND_LEVEL: BondLevel = 'friend';
+
+const IDLE_MOVE_MIN = 1500;
+const IDLE_MOVE_MAX = 4000;
+
+export class PartySystem {
+  private config: Required<PartyConfig>;
+  private members: string[] = [];
+  private followers: Map<string, PartyFollower> = new Map();
+  private roster: Map<string, Animal> = new Map();
+  private trail: Position[] = [];
+  private playerPosition: Position = { x: 0, y: 0 };
+  private lastPlayerMove: number = 0;
+  private map: GameMap | null = null;
+  private collision: CollisionSystem;
+  private callbacks: Map<PartySystemEvent, PartyCallback[]> = new Map();
+
+  constructor(config: PartyConfig = {}) {
+    this.config = {
+      maxSize: config.maxSize ?? 3,
+      idleDelay: config.idleDelay ?? 3000,
+      idleRadius: config.idleRadius ?? 2,
+      teleportDistance: config.teleportDistance ?? 4
+    };
+
+    this.collision = createCollisionSystem(undefined, { enableBoundaryCollision: false, enableTileCollision: false });
+    this.collision.addCollisionLayer('map', 5, (position) => {
+      if (!this.map) return { hasCollision: false };
+      if (!this.map.isValidPosition(position.x, position.y)) {
+        return { hasCollision: true, position, collidedWith: 'boundary' };
+      }
+      if (!this.map.isWalkable(position.x, position.y)) {
+        return { hasCollision: true, position, collidedWith: 'tile' };
+      }
+      return { hasCollision: false };
+    });
+    this.collision.addEntity(createEntity('player', this.playerPosition, { width: 1, height: 1 }, 'player'));
+  }
+
+  /**
+   * Subscribe to a party event. Returns a function that unsubscribes.
+   */
+  on(event: PartySystemEvent, callback: PartyCallback): () => void {
+    if (!this.callbacks.has(event)) {
+      this.callbacks.set(event, []);
+    }
+    this.callbacks.get(event)!.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  off(event: PartySystemEvent, callback: PartyCallback): void {
+    const callbacks = this.callbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Provide the companions the party can draw from. Saved members are
+   * matched up here; members no longer among the companions are dropped.
+   */
+  setRoster(companions: Animal[]): void {
+    this.roster = new Map(companions.map(animal => [animal.id, animal]));
+
+    const missing = this.members.filter(id => !this.roster.has(id));
+    missing.forEach(id => this.removeMember(id));
+
+    this.members.forEach(id => {
+      const animal = this.roster.get(id)!;
+      const follower = this.followers.get(id);
+      if (follower) {
+        follower.animal = animal;
+      } else {
+        this.spawnFollower(animal);
+      }
+    });
+  }
+
+  getBondLevel(animalId: string): BondLevel {
+    return bondingSystem.getBondingProgress(animalId)?.currentBondLevel ?? TAMED_BOND_LEVEL;
+  }
+
+  canJoin(animalId: string): boolean {
+    return BOND_LEVELS[this.getBondLevel(animalId)].level >= BOND_LEVELS[COMPANION_ABILITIES.follow_player.bondLevelRequired].level;
+  }
+
+  addMember(animal: Animal): PartyJoinResult {
+    const name = animal.name || animal.species;
+
+    if (this.members.includes(animal.id)) {
+      return { success: false, message: `${name} is already in your party` };
+    }
+    if (this.members.length >= this.config.maxSize) {
+      return { success: false, message: `Your party is full (${this.config.maxSize} companions)` };
+    }
+    if (!this.canJoin(animal.id)) {
+      return { success: false, message: `${name} doesn't trust you enough to follow yet` };
+    }
+
+    this.roster.set(animal.id, animal);
+    this.members.push(animal.id);
+    this.spawnFollower(animal);
+    this.emit('join', animal.id);
+
+    return { success: true, message: `${name} joined your party` };
+  }
+
+  removeMember(animalId: string): boolean {
+    const index = this.members.indexOf(animalId);
+    if (index === -1) return false;
+
+    this.members.splice(index, 1);
+    this.followers.delete(animalId);
+    this.collision.removeEntity(animalId);
+    this.emit('leave', animalId);
+    return true;
+  }
+
+  isMember(animalId: string): boolean {
+    return this.members.includes(animalId);
+  }
+
+  getMembers(): string[] {
+    return [...this.members];
+  }
+
+  getMaxSize(): number {
+    return this.config.maxSize;
+  }
+
+  getFollowers(): PartyFollower[] {
+    return this.members
+      .map(id => this.followers.get(id))
+      .filter((follower): follower is PartyFollower => follower !== undefined);
+  }
+
+  /**
+   * Put the party on a map, gathered around the player. Used on load and after map transitions.
+   */
+  setMap(map: GameMap, playerPosition: Position, now: number = Date.now()): void {
+    this.map = map;
+    this.collision.clearCache();
+    this.movePlayerEntity(playerPosition);
+    this.trail = [];
+    this.lastPlayerMove = now;
+
+    this.getFollowers().forEach(follower => {
+      const tile = this.findFreeTileNear(playerPosition, follower.animal.id) ?? { ...playerPosition };
+      this.placeFollower(follower, tile, true);
+    });
+  }
+
+  /**
+   * Move the party along behind the player. Each follower steps into the tile
+   * the one ahead of it just left, so the party snakes along the player's path.
+   */
+  onPlayerMove(newPosition: Position, previousPosition: Position, now: number = Date.now()): void {
+    this.movePlayerEntity(newPosition);
+    this.lastPlayerMove = now;
+
+    // A long jump (teleport, warp) leaves the old trail behind; regroup around the player instead
+    if (this.distance(newPosition, previousPosition) > this.config.teleportDistance) {
+      this.trail = [];
+    } else {
+      this.trail.unshift({ ...previousPosition });
+      this.trail.length = Math.min(this.trail.length, this.config.maxSize);
+    }
+
+    this.getFollowers().forEach((follower, index) => {
+      const target = this.trail[index] ?? (this.distance(follower.tile, newPosition) > this.config.idleRadius ? newPosition : follower.tile);
+      const tile = this.findFreeTileNear(target, follower.animal.id) ?? follower.tile;
+      const distance = this.distance(tile, follower.tile);
+
+      this.placeFollower(follower, tile, distance > this.config.teleportDistance);
+      follower.nextIdleMove = this.lastPlayerMove + this.config.idleDelay;
+    });
+  }
+
+  /**
+   * Call the party to the player's side, e.g. on a "come" command
+   */
+  regroup(): void {
+    this.getFollowers().forEach(follower => {
+      if (this.distance(follower.tile, this.playerPosition) <= 1) return;
+
+      const tile = this.findFreeTileNear(this.playerPosition, follower.animal.id) ?? follower.tile;
+      this.placeFollower(follower, tile, this.distance(tile, follower.tile) > this.config.teleportDistance);
+      follower.nextIdleMove = Date.now() + this.config.idleDelay;
+    });
+  }
+
+  /**
+   * Let followers wander near a player who has stopped. Call every frame.
+   */
+  update(now: number = Date.now()): void {
+    if (!this.map || now - this.lastPlayerMove < this.config.idleDelay) return;
+
+    const random = rng('ai');
+    this.getFollowers().forEach(follower => {
+      if (now < follower.nextIdleMove || follower.animation.isMoving()) return;
+      follower.nextIdleMove = now + random.range(IDLE_MOVE_MIN, IDLE_MOVE_MAX);
+
+      if (!random.chance(follower.animal.behavior.activityLevel)) return;
+
+      const step = random.pick([{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }]);
+      const target = { x: follower.tile.x + step.x, y: follower.tile.y + step.y };
+      if (this.distance(target, this.playerPosition) > this.config.idleRadius) return;
+      if (!this.collision.isValidPosition(target, follower.animal.id)) return;
+
+      this.placeFollower(follower, target, false);
+    });
+  }
+
+  /**
+   * Interpolated follower positions for drawing
+   */
+  getRenderStates(deltaTime: number = 16): PartyRenderState[] {
+    return this.getFollowers().map(follower => {
+      const frame = follower.animation.update(deltaTime);
+      return {
+        animal: follower.animal,
+        position: { x: frame.x / TILE_SIZE, y: frame.y / TILE_SIZE },
+        frame,
+        isMoving: follower.animation.isMoving()
+      };
+    });
+  }
+
+  /**
+   * Passive abilities of companions currently in the party
+   */
+  getActivePassiveAbilities(): CompanionAbility[] {
+    const abilities = new Map<string, CompanionAbility>();
+
+    this.members.forEach(id => {
+      bondingSystem.getAvailableAbilities(this.getBondLevel(id))
+        .map(abilityId => COMPANION_ABILITIES[abilityId])
+        .filter(ability => ability.type === 'passive')
+        .forEach(ability => abilities.set(ability.id, ability));
+    });
+
+    return Array.from(abilities.values());
+  }
+
+  hasPassiveAbility(abilityId: string): boolean {
+    return this.getActivePassiveAbilities().some(ability => ability.id === abilityId);
+  }
+
+  /**
+   * Sum of passive effect values of one type, optionally for one target.
+   * The same ability only counts once however many members share it.
+   */
+  getPassiveBonus(type: AbilityEffect['type'], target?: AbilityEffect['target']): number {
+    return this.getActivePassiveAbilities()
+      .flatMap(ability => ability.effects)
+      .filter(effect => effect.type === type && (target === undefined || effect.target === target))
+      .reduce((total, effect) => total + effect.value, 0);
+  }
+
+  getSaveData(): PartySaveData {
+    return {
+      members: [...this.members],
+      maxSize: this.config.maxSize
+    };
+  }
+
+  loadSaveData(data: Partial<PartySaveData>): void {
+    if (typeof data.maxSize === 'number' && data.maxSize > 0) {
+      this.config.maxSize = data.maxSize;
+    }
+
+    this.followers.forEach((_, id) => this.collision.removeEntity(id));
+    this.followers.clear();
+    this.members = (data.members || []).slice(0, this.config.maxSize);
+
+    // Followers appear once their animals are provided through setRoster
+    this.members.forEach(id => {
+      const animal = this.roster.get(id);
+      if (animal) this.spawnFollower(animal);
+    });
+  }
+
+  private spawnFollower(animal: Animal): void {
+    const tile = this.findFreeTileNear(this.playerPosition, animal.id) ?? { ...this.playerPosition };
+    const follower: PartyFollower = {
+      animal,
+      tile,
+      animation: createPlayerAnimations(tile),
+      nextIdleMove: Date.now() + this.config.idleDelay
+    };
+
+    this.followers.set(animal.id, follower);
+    this.collision.addEntity(createEntity(animal.id, { ...tile }, { width: 1, height: 1 }, 'animal'));
+    this.placeFollower(follower, tile, true);
+  }
+
+  private placeFollower(follower: PartyFollower, tile: Position, instant: boolean): void {
+    const moved = tile.x !== follower.tile.x || tile.y !== follower.tile.y;
+    follower.tile = { ...tile };
+    follower.animal.position = { ...tile };
+    this.collision.updateEntity(follower.animal.id, { ...tile });
+
+    if (instant) {
+      follower.animation.teleport(tile);
+    } else if (moved) {
+      follower.animation.startMovement(tile);
+    }
+  }
+
+  private movePlayerEntity(position: Position): void {
+    this.playerPosition = { ...position };
+    this.collision.updateEntity('player', { ...position });
+  }
+
+  private findFreeTileNear(position: Position, animalId: string): Position | null {
+    if (!this.map) return { ...position };
+    return this.collision.findNearestValidPosition(position, this.config.idleRadius + 1, animalId);
+  }
+
+  private distance(a: Position, b: Position): number {
+    return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+  }
+
+  private emit(event: PartySystemEvent, animalId: string): void {
+    this.callbacks.get(event)?.forEach(callback => {
+      try {
+        callback(animalId, [...this.members]);
+      } catch (error) {
+        console.warn(`Party ${event} handler failed:`, error);
+      }
+    });
+
+    gameEvents.emit(event === 'join' ? 'party.joined' : 'party.left', { animalId, members: [...this.members] });
+  }
+}
+
+export function createPartySystem(config: PartyConfig = {}): PartySystem {
+  return new PartySystem(config);
+}
+
+export const partySystem = new PartySystem();
+
+export default partySystem;
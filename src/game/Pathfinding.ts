@@ -0,0 +1,416 @@
+// Pathfinding System
+// Weighted A* grid pathfinding shared by the player, animals and habitat migration
+
+import { Position } from '../types/game';
+import { GameMap, TerrainType } from './Map';
+import { CollisionSystem } from './Collision';
+
+export interface PathfindingOptions {
+  allowDiagonal?: boolean;
+  terrainCosts?: Partial<Record<TerrainType, number>>;
+  passableTerrain?: TerrainType[]; // Terrain that can be crossed even though the map marks it unwalkable
+  maxSearchNodes?: number;
+  collision?: CollisionSystem;
+  entityId?: string;
+  useCache?: boolean;
+}
+
+// Movement cost of entering a tile of each terrain type
+export const DEFAULT_TERRAIN_COSTS: Record<TerrainType, number> = {
+  path: 0.5,
+  grass: 1,
+  dirt: 1,
+  flower: 1.2,
+  stone: 1.3,
+  sand: 1.5,
+  forest: 2,
+  bush: 3,
+  water: 5,
+  rock: 8
+};
+
+const DIAGONAL_COST = Math.SQRT2;
+const MAX_CACHED_PATHS = 64;
+
+const CARDINAL_DIRECTIONS: Position[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 }
+];
+
+const DIAGONAL_DIRECTIONS: Position[] = [
+  { x: 1, y: -1 },
+  { x: 1, y: 1 },
+  { x: -1, y: 1 },
+  { x: -1, y: -1 }
+];
+
+interface SearchNode {
+  x: number;
+  y: number;
+  g: number;
+  f: number;
+}
+
+// Minimal binary heap keyed on f-score
+class OpenSet {
+  private heap: SearchNode[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(node: SearchNode): void {
+    this.heap.push(node);
+    let index = this.heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent].f <= node.f) break;
+      this.heap[index] = this.heap[parent];
+      index = parent;
+    }
+    this.heap[index] = node;
+  }
+
+  pop(): SearchNode | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.heap[left].f < this.heap[smallest].f) smallest = left;
+      if (right < length && this.heap[right].f < this.heap[smallest].f) smallest = right;
+      if (smallest === index) return;
+      [this.heap[index], this.heap[smallest]] = [this.heap[smallest], this.heap[index]];
+      index = smallest;
+    }
+  }
+}
+
+export class Pathfinder {
+  private map: GameMap;
+  private defaults: PathfindingOptions;
+  private pathCache: Map<string, Position[]> = new Map();
+
+  constructor(map: GameMap, defaults: PathfindingOptions = {}) {
+    this.map = map;
+    this.defaults = {
+      allowDiagonal: false,
+      maxSearchNodes: 4000,
+      useCache: true,
+      ...defaults
+    };
+  }
+
+  /**
+   * Switch to a different map (clears cached paths)
+   */
+  public setMap(map: GameMap): void {
+    this.map = map;
+    this.clearCache();
+  }
+
+  /**
+   * Drop all cached paths, e.g. after terrain or objects change
+   */
+  public clearCache(): void {
+    this.pathCache.clear();
+  }
+
+  /**
+   * Find a path from start to goal. The result excludes the start tile and ends
+   * on the goal; it is empty when the goal is unreachable or already reached.
+   */
+  public findPath(start: Position, goal: Position, options: PathfindingOptions = {}): Position[] {
+    const opts = { ...this.defaults, ...options };
+    const from = { x: Math.round(start.x), y: Math.round(start.y) };
+    const to = { x: Math.round(goal.x), y: Math.round(goal.y) };
+
+    if (from.x === to.x && from.y === to.y) return [];
+    if (!this.isPassable(to.x, to.y, opts)) return [];
+
+    const cacheKey = this.getCacheKey(to, opts);
+    if (opts.useCache) {
+      const cached = this.getCachedSuffix(cacheKey, from, opts);
+      if (cached) return cached;
+    }
+
+    const path = this.search(from, to, opts);
+
+    if (opts.useCache && path.length > 0) {
+      this.storeInCache(cacheKey, [from, ...path]);
+    }
+
+    return path;
+  }
+
+  /**
+   * Total movement cost of a path (excluding the start tile)
+   */
+  public getPathCost(path: Position[], options: PathfindingOptions = {}): number {
+    const opts = { ...this.defaults, ...options };
+    return path.reduce((total, step, index) => {
+      const previous = index > 0 ? path[index - 1] : step;
+      const diagonal = previous.x !== step.x && previous.y !== step.y;
+      return total + this.getTerrainCost(step.x, step.y, opts) * (diagonal ? DIAGONAL_COST : 1);
+    }, 0);
+  }
+
+  /**
+   * Find the reachable tile that puts the most distance between the mover and a
+   * threat, within a movement budget. Returns null when boxed in.
+   */
+  public findFleeTarget(
+    start: Position,
+    threat: Position,
+    maxCost: number,
+    options: PathfindingOptions = {}
+  ): Position | null {
+    const opts = { ...this.defaults, ...options };
+    const from = { x: Math.round(start.x), y: Math.round(start.y) };
+    const reachable = this.floodFill(from, maxCost, opts);
+
+    let best: Position | null = null;
+    let bestScore = this.distance(from, threat);
+
+    reachable.forEach((cost, key) => {
+      const [x, y] = key.split(',').map(Number);
+      // Prefer far from the threat, lightly penalizing expensive routes
+      const score = this.distance({ x, y }, threat) - cost * 0.1;
+      if (score > bestScore) {
+        bestScore = score;
+        best = { x, y };
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Check whether a tile can be entered with the given options
+   */
+  public isPassable(x: number, y: number, options: PathfindingOptions = {}): boolean {
+    const opts = { ...this.defaults, ...options };
+    if (!this.map.isValidPosition(x, y)) return false;
+
+    if (!this.map.isWalkable(x, y)) {
+      const terrain = this.map.getTerrainAt(x, y);
+      if (!terrain || !opts.passableTerrain?.includes(terrain)) return false;
+      // Passable terrain does not let a mover walk through solid objects
+      if (this.map.getObjectsAtPosition(x, y).some(obj => !obj.walkable)) return false;
+    }
+
+    return true;
+  }
+
+  private search(from: Position, to: Position, opts: PathfindingOptions): Position[] {
+    const open = new OpenSet();
+    const bestCost = new Map<string, number>();
+    const cameFrom = new Map<string, string>();
+    const closed = new Set<string>();
+    const directions = this.getDirections(opts);
+    const maxNodes = opts.maxSearchNodes ?? 4000;
+    const minCost = this.getMinTerrainCost(opts);
+
+    const startKey = this.key(from.x, from.y);
+    const goalKey = this.key(to.x, to.y);
+    bestCost.set(startKey, 0);
+    open.push({ x: from.x, y: from.y, g: 0, f: this.heuristic(from, to, minCost, opts) });
+
+    let expanded = 0;
+    while (open.size > 0 && expanded < maxNodes) {
+      const current = open.pop()!;
+      const currentKey = this.key(current.x, current.y);
+
+      if (closed.has(currentKey)) continue;
+      if (currentKey === goalKey) {
+        return this.reconstructPath(cameFrom, goalKey, startKey);
+      }
+
+      closed.add(currentKey);
+      expanded++;
+
+      for (const dir of directions) {
+        const nx = current.x + dir.x;
+        const ny = current.y + dir.y;
+        const neighborKey = this.key(nx, ny);
+        if (closed.has(neighborKey)) continue;
+        if (!this.canStep(current, { x: nx, y: ny }, opts)) continue;
+
+        const diagonal = dir.x !== 0 && dir.y !== 0;
+        const stepCost = this.getTerrainCost(nx, ny, opts) * (diagonal ? DIAGONAL_COST : 1);
+        const g = current.g + stepCost;
+
+        if (g < (bestCost.get(neighborKey) ?? Infinity)) {
+          bestCost.set(neighborKey, g);
+          cameFrom.set(neighborKey, currentKey);
+          open.push({ x: nx, y: ny, g, f: g + this.heuristic({ x: nx, y: ny }, to, minCost, opts) });
+        }
+      }
+    }
+
+    return [];
+  }
+
+  private floodFill(from: Position, maxCost: number, opts: PathfindingOptions): Map<string, number> {
+    const costs = new Map<string, number>();
+    const open = new OpenSet();
+    const directions = this.getDirections(opts);
+    const maxNodes = opts.maxSearchNodes ?? 4000;
+
+    costs.set(this.key(from.x, from.y), 0);
+    open.push({ x: from.x, y: from.y, g: 0, f: 0 });
+
+    let expanded = 0;
+    while (open.size > 0 && expanded < maxNodes) {
+      const current = open.pop()!;
+      if (current.g > (costs.get(this.key(current.x, current.y)) ?? Infinity)) continue;
+      expanded++;
+
+      for (const dir of directions) {
+        const next = { x: current.x + dir.x, y: current.y + dir.y };
+        if (!this.canStep(current, next, opts)) continue;
+
+        const diagonal = dir.x !== 0 && dir.y !== 0;
+        const g = current.g + this.getTerrainCost(next.x, next.y, opts) * (diagonal ? DIAGONAL_COST : 1);
+        const nextKey = this.key(next.x, next.y);
+        if (g <= maxCost && g < (costs.get(nextKey) ?? Infinity)) {
+          costs.set(nextKey, g);
+          open.push({ ...next, g, f: g });
+        }
+      }
+    }
+
+    return costs;
+  }
+
+  private canStep(from: Position, to: Position, opts: PathfindingOptions): boolean {
+    if (!this.isPassable(to.x, to.y, opts)) return false;
+
+    // Don't cut corners around blocked tiles when moving diagonally
+    if (from.x !== to.x && from.y !== to.y) {
+      if (!this.isPassable(from.x, to.y, opts) || !this.isPassable(to.x, from.y, opts)) {
+        return false;
+      }
+    }
+
+    if (opts.collision) {
+      const result = opts.collision.checkMovement(from, to, opts.entityId);
+      if (result.hasCollision) return false;
+    }
+
+    return true;
+  }
+
+  private getTerrainCost(x: number, y: number, opts: PathfindingOptions): number {
+    const terrain = this.map.getTerrainAt(x, y);
+    if (!terrain) return 1;
+    return opts.terrainCosts?.[terrain] ?? DEFAULT_TERRAIN_COSTS[terrain] ?? 1;
+  }
+
+  private getMinTerrainCost(opts: PathfindingOptions): number {
+    const costs = Object.values({ ...DEFAULT_TERRAIN_COSTS, ...opts.terrainCosts });
+    return Math.min(...costs.filter((cost): cost is number => typeof cost === 'number'));
+  }
+
+  private heuristic(from: Position, to: Position, minCost: number, opts: PathfindingOptions): number {
+    // Scaled by the cheapest terrain so the estimate never overshoots
+    const dx = Math.abs(from.x - to.x);
+    const dy = Math.abs(from.y - to.y);
+
+    if (opts.allowDiagonal) {
+      return minCost * (Math.max(dx, dy) + (DIAGONAL_COST - 1) * Math.min(dx, dy));
+    }
+    return minCost * (dx + dy);
+  }
+
+  private getDirections(opts: PathfindingOptions): Position[] {
+    return opts.allowDiagonal ? [...CARDINAL_DIRECTIONS, ...DIAGONAL_DIRECTIONS] : CARDINAL_DIRECTIONS;
+  }
+
+  private reconstructPath(cameFrom: Map<string, string>, goalKey: string, startKey: string): Position[] {
+    const path: Position[] = [];
+    let currentKey: string | undefined = goalKey;
+
+    while (currentKey && currentKey !== startKey) {
+      const [x, y] = currentKey.split(',').map(Number);
+      path.unshift({ x, y });
+      currentKey = cameFrom.get(currentKey);
+    }
+
+    return path;
+  }
+
+  private getCacheKey(goal: Position, opts: PathfindingOptions): string {
+    return [
+      this.key(goal.x, goal.y),
+      opts.allowDiagonal ? 'd' : 'c',
+      (opts.passableTerrain || []).join('+'),
+      JSON.stringify(opts.terrainCosts || {}),
+      opts.entityId || ''
+    ].join('|');
+  }
+
+  /**
+   * Reuse a cached path to the same goal if the mover is standing on it and
+   * the remaining tiles are still passable
+   */
+  private getCachedSuffix(cacheKey: string, from: Position, opts: PathfindingOptions): Position[] | null {
+    const cached = this.pathCache.get(cacheKey);
+    if (!cached) return null;
+
+    const index = cached.findIndex(step => step.x === from.x && step.y === from.y);
+    if (index === -1) return null;
+
+    const suffix = cached.slice(index + 1);
+    let previous = from;
+    for (const step of suffix) {
+      if (!this.canStep(previous, step, opts)) {
+        this.pathCache.delete(cacheKey);
+        return null;
+      }
+      previous = step;
+    }
+
+    // Refresh recency
+    this.pathCache.delete(cacheKey);
+    this.pathCache.set(cacheKey, cached);
+    return suffix.map(step => ({ ...step }));
+  }
+
+  private storeInCache(cacheKey: string, fullPath: Position[]): void {
+    this.pathCache.delete(cacheKey);
+    this.pathCache.set(cacheKey, fullPath);
+
+    if (this.pathCache.size > MAX_CACHED_PATHS) {
+      const oldestKey = this.pathCache.keys().next().value;
+      if (oldestKey !== undefined) this.pathCache.delete(oldestKey);
+    }
+  }
+
+  private distance(a: Position, b: Position): number {
+    return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+  }
+
+  private key(x: number, y: number): string {
+    return `${x},${y}`;
+  }
+}
+
+// Utility functions
+export function createPathfinder(map: GameMap, options: PathfindingOptions = {}): Pathfinder {
+  return new Pathfinder(map, options);
+}
+
+export default Pathfinder;
@@ -2,6 +2,8 @@ import { Animal } from './Animal';
 import { TrickDefinition, getTrickById } from '../data/tricks';
 import { trickSystem, TrickPerformance } from './TrickSystem';
 import { bondingSystem } from './BondingSystem';
+import { animalNeeds, NEED_LABELS } from './AnimalNeeds';
+import { gameEvents } from './GameEvents';
 
 export type PerformanceVenue = 'backyard' | 'park' | 'competition' | 'street' | 'festival';
 export type AudienceType = 'family' | 'friends' | 'strangers' | 'judges' | 'children';
@@ -263,6 +265,11 @@ export const PERFORMANCE_EVENTS: PerformanceEvent[] = [
   }
 ];
 
+export interface PerformanceSaveData {
+  performanceHistory: Array<[string, PerformanceHistory]>;
+  availableEvents: PerformanceEvent[];
+}
+
 export class PerformanceSystem {
   private performanceHistory: Map<string, PerformanceHistory> = new Map();
   private activeSession: PerformanceSession | null = null;
@@ -275,10 +282,6 @@ export class PerformanceSystem {
     onAchievementEarned?: (animalId: string, achievement: string) => void;
   } = {};
 
-  constructor() {
-    this.loadPerformanceData();
-  }
-
   /**
    * Get available performance events for an animal
    */
@@ -404,6 +407,7 @@ export class PerformanceSystem {
 
     // Calculate performance score
     const trickScore = this.calculateTrickScore(
+      session.animalId,
       trickResult.performance,
       trick,
       event,
@@ -435,11 +439,14 @@ export class PerformanceSystem {
       this.awardPerformanceRewards(session.animalId, results);
       
       this.callbacks.onPerformanceComplete?.(results);
+      gameEvents.emit('performance.completed', {
+        animalId: session.animalId,
+        ranking: results.ranking,
+        percentage: results.percentage
+      });
       this.activeSession = null;
     }
 
-    this.savePerformanceData();
-
     return {
       success: true,
       trickScore,
@@ -559,13 +566,16 @@ export class PerformanceSystem {
   }
 
   private calculateTrickScore(
+    animalId: string,
     performance: TrickPerformance,
     trick: TrickDefinition,
     event: PerformanceEvent,
     audienceReaction: AudienceReaction
   ): TrickScore {
     const baseScore = trick.performanceValue;
-    const executionScore = Math.floor(performance.performanceQuality * 100);
+    // Hungry, tired or stressed animals can't give their best
+    const needsModifier = animalNeeds.getPerformanceModifier(animalId);
+    const executionScore = Math.floor(performance.performanceQuality * 100 * needsModifier);
     const audienceBonus = Math.floor(audienceReaction.excitement * 0.2);
     
     // Difficulty bonus based on event difficulty
@@ -579,7 +589,11 @@ export class PerformanceSystem {
 
     const totalScore = baseScore + executionScore + audienceBonus + difficultyBonus;
     
-    const feedback = this.generateTrickFeedback(performance, trick, event);
+    let feedback = this.generateTrickFeedback(performance, trick, event);
+    if (needsModifier < 0.8) {
+      const need = animalNeeds.getDominantNeed(animalId);
+      feedback += need ? ` It seemed distracted by ${NEED_LABELS[need].toLowerCase()}.` : ' It seemed distracted.';
+    }
 
     return {
       trickId: trick.id,
@@ -743,29 +757,22 @@ export class PerformanceSystem {
     }
   }
 
-  private loadPerformanceData(): void {
-    try {
-      const saved = localStorage.getItem('feralFriends_performanceData');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.performanceHistory = new Map(data.performanceHistory || []);
-        this.availableEvents = data.availableEvents || [...PERFORMANCE_EVENTS];
-      }
-    } catch (error) {
-      console.warn('Failed to load performance data:', error);
-    }
+  /**
+   * Snapshot performance history for the unified save file
+   */
+  getSaveData(): PerformanceSaveData {
+    return {
+      performanceHistory: Array.from(this.performanceHistory.entries()),
+      availableEvents: this.availableEvents
+    };
   }
 
-  private savePerformanceData(): void {
-    try {
-      const data = {
-        performanceHistory: Array.from(this.performanceHistory.entries()),
-        availableEvents: this.availableEvents
-      };
-      localStorage.setItem('feralFriends_performanceData', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save performance data:', error);
-    }
+  /**
+   * Replace performance history with data from a save file
+   */
+  loadSaveData(data: Partial<PerformanceSaveData>): void {
+    this.performanceHistory = new Map(data.performanceHistory || []);
+    this.availableEvents = data.availableEvents || [...PERFORMANCE_EVENTS];
   }
 }
 
@@ -3,6 +3,7 @@
 
 import { Position } from '../types/game';
 import { Grid } from './Grid';
+import { Pathfinder } from './Pathfinding';
 
 export interface PlayerConfig {
   initialPosition?: Position;
@@ -14,6 +15,7 @@ export interface PlayerConfig {
   minX?: number;
   minY?: number;
   grid?: Grid;
+  pathfinder?: Pathfinder;
   snapToGrid?: boolean;
   onMovement?: (newPosition: Position, previousPosition: Position) => void;
 }
@@ -50,7 +52,7 @@ export interface PlayerState {
 
 export class Player {
   private state: PlayerState;
-  private readonly config: Required<Omit<PlayerConfig, 'grid' | 'snapToGrid' | 'onMovement'>> & { 
+  private readonly config: Required<Omit<PlayerConfig, 'grid' | 'pathfinder' | 'snapToGrid' | 'onMovement'>> & { 
     grid?: Grid; 
     snapToGrid: boolean;
     onMovement?: (newPosition: Position, previousPosition: Position) => void;
@@ -63,6 +65,7 @@ export class Player {
   
   // Grid integration
   private grid?: Grid;
+  private pathfinder?: Pathfinder;
   
   constructor(config: PlayerConfig = {}) {
     this.config = {
@@ -80,6 +83,7 @@ export class Player {
     };
     
     this.grid = config.grid;
+    this.pathfinder = config.pathfinder;
     
     this.state = {
       position: { ...this.config.initialPosition },
@@ -330,42 +334,21 @@ export class Player {
   }
   
   /**
-   * Find path to target position using simple pathfinding
+   * Set pathfinder used for tap-to-move routes
+   */
+  public setPathfinder(pathfinder: Pathfinder): void {
+    this.pathfinder = pathfinder;
+  }
+  
+  /**
+   * Find path to target position using the shared pathfinder
    */
   public findPathTo(target: Position): Position[] {
-    if (!this.grid || !this.canMoveTo(target)) {
+    if (!this.pathfinder || !this.canMoveTo(target)) {
       return [];
     }
     
-    // Simple A* pathfinding implementation
-    const path: Position[] = [];
-    const current = { ...this.state.position };
-    
-    // For now, use simple direct path (can be enhanced later)
-    while (current.x !== target.x || current.y !== target.y) {
-      if (current.x < target.x && this.grid.isWalkable(current.x + 1, current.y)) {
-        current.x++;
-      } else if (current.x > target.x && this.grid.isWalkable(current.x - 1, current.y)) {
-        current.x--;
-      } else if (current.y < target.y && this.grid.isWalkable(current.x, current.y + 1)) {
-        current.y++;
-      } else if (current.y > target.y && this.grid.isWalkable(current.x, current.y - 1)) {
-        current.y--;
-      } else {
-        // Can't find direct path
-        break;
-      }
-      
-      path.push({ ...current });
-      
-      // Prevent infinite loops
-      if (path.length > 100) {
-        console.warn('Player: Pathfinding exceeded maximum steps');
-        break;
-      }
-    }
-    
-    return path;
+    return this.pathfinder.findPath(this.state.position, target);
   }
   
   /**
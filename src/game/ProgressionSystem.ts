@@ -1,6 +1,8 @@
 // Progression System
 // Handles player leveling, experience, unlocks, and content gating
 
+import { GameEventBus, GameEventTable, gameEvents, resolveGameEvent } from './GameEvents';
+
 export interface PlayerLevel {
   level: number;
   currentXP: number;
@@ -114,6 +116,18 @@ export const EXPERIENCE_SOURCES: Record<string, ExperienceSource> = {
   }
 };
 
+// Which experience source each gameplay event earns, if any
+export const EXPERIENCE_EVENTS: GameEventTable<string> = {
+  'animal.tamed': 'tameAnimal',
+  'trick.learned': 'teachTrick',
+  'trick.mastered': 'masterTrick',
+  'bond.levelUp': 'bondLevelUp',
+  'resource.discovered': 'findItem',
+  'animal.fed': ({ reaction }) => reaction === 'loved' ? 'feedAnimal' : null,
+  'performance.completed': ({ ranking }) => ranking === 'spectacular' ? 'winCompetition' : null,
+  'achievement.completed': 'completeAchievement'
+};
+
 // Level progression curve (XP required for each level)
 export function getXPRequiredForLevel(level: number): number {
   if (level <= 1) return 0;
@@ -331,6 +345,7 @@ export function awardExperience(
     
     // Check for new unlocks
     const newUnlocks = checkForUnlocks(newLevel);
+    gameEvents.emit('player.experience', { source: action, xpGained, leveledUp: true, level: newLevel, unlocks: newUnlocks });
     
     return {
       xpGained,
@@ -340,9 +355,22 @@ export function awardExperience(
     };
   }
   
+  gameEvents.emit('player.experience', { source: action, xpGained, leveledUp: false, level: newLevel, unlocks: [] });
   return { xpGained, leveledUp: false };
 }
 
+/**
+ * Award experience for gameplay events as they happen. Returns a function that unsubscribes.
+ */
+export function subscribeExperience(bus: GameEventBus = gameEvents): () => void {
+  return bus.on('*', event => {
+    const action = resolveGameEvent(EXPERIENCE_EVENTS, event);
+    if (action) {
+      awardExperience(action);
+    }
+  });
+}
+
 /**
  * Calculate player level from total XP
  */
@@ -558,6 +586,7 @@ export default {
   playerProgression,
   initializeProgression,
   awardExperience,
+  subscribeExperience,
   calculateLevelFromXP,
   getPlayerLevel,
   checkForUnlocks,
@@ -4,6 +4,7 @@
 import { Position } from '../types/game';
 import { Animal, getDistanceToPlayer, AnimalState } from './Animal';
 import { AnimalAI } from './AnimalAI';
+import { rng } from '../services/RandomService';
 
 export interface ProximityZone {
   name: string;
@@ -290,7 +291,7 @@ export class ProximityDetector {
     // If player is at good distance and animal is curious (easier to trigger)
     if (distance > animal.behavior.fleeDistance && distance <= 6.0) {
       if (animal.stats.curiosity > 60 && animal.stats.fear < 60) {
-        if (currentState === 'idle' && Math.random() < 0.5) {
+        if (currentState === 'idle' && rng('ai').chance(0.5)) {
           this.eventCallbacks.onAnimalReaction?.(animal, 'showing curiosity about player');
         }
       }
@@ -0,0 +1,289 @@
+// Quest Loader
+// Validates JSON quest files and cross-checks prerequisites between them
+
+import { ANIMAL_TEMPLATES } from './Animal';
+import { EXPERIENCE_SOURCES } from './ProgressionSystem';
+import { ITEM_DATABASE } from './InventorySystem';
+import { GATHERING_NODES, GATHERING_RESOURCES } from './GatheringSystem';
+import { getTrickById } from '../data/tricks';
+import type { QuestDefinition } from './QuestSystem';
+
+export interface QuestFile {
+  quests: QuestDefinition[];
+}
+
+export interface QuestValidationIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+export interface QuestLoadResult {
+  quests: QuestDefinition[];
+  issues: QuestValidationIssue[];
+}
+
+const CATEGORIES = ['story', 'side'];
+
+type Report = (path: string, message: string) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkOptionalNumber(value: unknown, path: string, report: Report): void {
+  if (value !== undefined && typeof value !== 'number') {
+    report(path, 'must be a number');
+  }
+}
+
+function checkOptionalSpecies(value: unknown, path: string, report: Report): void {
+  if (value !== undefined && !(typeof value === 'string' && value in ANIMAL_TEMPLATES)) {
+    report(path, `unknown species "${String(value)}"`);
+  }
+}
+
+function validateObjective(objective: unknown, path: string, ids: Set<string>, report: Report): void {
+  if (!isObject(objective)) {
+    report(path, 'objective must be an object');
+    return;
+  }
+
+  if (typeof objective.id !== 'string' || objective.id === '') {
+    report(`${path}.id`, 'must be a non-empty string');
+  } else if (ids.has(objective.id)) {
+    report(`${path}.id`, `duplicate objective id "${objective.id}"`);
+  } else {
+    ids.add(objective.id);
+  }
+
+  if (typeof objective.description !== 'string') report(`${path}.description`, 'must be a string');
+  checkOptionalNumber(objective.count, `${path}.count`, report);
+
+  switch (objective.type) {
+    case 'befriend':
+      checkOptionalSpecies(objective.species, `${path}.species`, report);
+      break;
+
+    case 'teach':
+      if (typeof objective.trick !== 'string' || !getTrickById(objective.trick)) {
+        report(`${path}.trick`, `unknown trick "${String(objective.trick)}"`);
+      }
+      checkOptionalSpecies(objective.species, `${path}.species`, report);
+      break;
+
+    case 'gather':
+      if (objective.resource !== undefined && !(typeof objective.resource === 'string' && objective.resource in GATHERING_RESOURCES)) {
+        report(`${path}.resource`, `unknown resource "${String(objective.resource)}"`);
+      }
+      if (objective.node !== undefined && !GATHERING_NODES.some(node => node.id === objective.node)) {
+        report(`${path}.node`, `unknown gathering node "${String(objective.node)}"`);
+      }
+      break;
+
+    case 'reach_map':
+      if (typeof objective.map !== 'string' || objective.map === '') {
+        report(`${path}.map`, 'must be a non-empty string');
+      }
+      break;
+
+    default:
+      report(`${path}.type`, `unknown objective type "${String(objective.type)}"`);
+  }
+}
+
+function validateReward(reward: unknown, path: string, report: Report): void {
+  if (reward === undefined) return;
+  if (!isObject(reward)) {
+    report(path, 'must be an object');
+    return;
+  }
+
+  if (reward.experience !== undefined) {
+    const experience = reward.experience;
+    if (!isObject(experience)) {
+      report(`${path}.experience`, 'must be an object');
+    } else {
+      if (typeof experience.action !== 'string' || !(experience.action in EXPERIENCE_SOURCES)) {
+        report(`${path}.experience.action`, `unknown experience source "${String(experience.action)}"`);
+      }
+      checkOptionalNumber(experience.multiplier, `${path}.experience.multiplier`, report);
+      checkOptionalNumber(experience.bonus, `${path}.experience.bonus`, report);
+    }
+  }
+
+  if (reward.items !== undefined) {
+    if (!Array.isArray(reward.items)) {
+      report(`${path}.items`, 'must be an array');
+    } else {
+      reward.items.forEach((item, index) => {
+        const itemPath = `${path}.items[${index}]`;
+        if (!isObject(item) || typeof item.id !== 'string' || !(item.id in ITEM_DATABASE)) {
+          report(itemPath, 'must reference an item in the item database');
+        } else if (typeof item.quantity !== 'number' || item.quantity < 1) {
+          report(`${itemPath}.quantity`, 'must be a positive number');
+        }
+      });
+    }
+  }
+}
+
+function validatePrerequisites(prerequisites: unknown, path: string, report: Report): void {
+  if (prerequisites === undefined) return;
+  if (!isObject(prerequisites)) {
+    report(path, 'must be an object');
+    return;
+  }
+
+  if (prerequisites.quests !== undefined &&
+      !(Array.isArray(prerequisites.quests) && prerequisites.quests.every(id => typeof id === 'string'))) {
+    report(`${path}.quests`, 'must be an array of quest ids');
+  }
+
+  if (prerequisites.branch !== undefined) {
+    const branch = prerequisites.branch;
+    if (!isObject(branch) || typeof branch.quest !== 'string' || typeof branch.choice !== 'string') {
+      report(`${path}.branch`, 'must have string quest and choice');
+    }
+  }
+
+  checkOptionalNumber(prerequisites.level, `${path}.level`, report);
+}
+
+function validateBranches(branches: unknown, path: string, report: Report): void {
+  if (branches === undefined) return;
+  if (!Array.isArray(branches) || branches.length < 2) {
+    report(path, 'must be an array of at least two choices');
+    return;
+  }
+
+  const seen = new Set<string>();
+  branches.forEach((branch, index) => {
+    const branchPath = `${path}[${index}]`;
+    if (!isObject(branch)) {
+      report(branchPath, 'choice must be an object');
+      return;
+    }
+
+    if (typeof branch.id !== 'string' || branch.id === '') {
+      report(`${branchPath}.id`, 'must be a non-empty string');
+    } else if (seen.has(branch.id)) {
+      report(`${branchPath}.id`, `duplicate choice id "${branch.id}"`);
+    } else {
+      seen.add(branch.id);
+    }
+
+    if (typeof branch.label !== 'string') report(`${branchPath}.label`, 'must be a string');
+    if (typeof branch.description !== 'string') report(`${branchPath}.description`, 'must be a string');
+    validateReward(branch.rewards, `${branchPath}.rewards`, report);
+  });
+}
+
+function validateQuest(quest: unknown, path: string, questIds: Set<string>, report: Report): void {
+  if (!isObject(quest)) {
+    report(path, 'quest must be an object');
+    return;
+  }
+
+  if (typeof quest.id !== 'string' || quest.id === '') {
+    report(`${path}.id`, 'must be a non-empty string');
+  } else if (questIds.has(quest.id)) {
+    report(`${path}.id`, `duplicate quest id "${quest.id}"`);
+  } else {
+    questIds.add(quest.id);
+  }
+
+  if (typeof quest.title !== 'string') report(`${path}.title`, 'must be a string');
+  if (typeof quest.description !== 'string') report(`${path}.description`, 'must be a string');
+  if (!CATEGORIES.includes(quest.category as string)) {
+    report(`${path}.category`, `unknown category "${String(quest.category)}"`);
+  }
+
+  if (!Array.isArray(quest.objectives) || quest.objectives.length === 0) {
+    report(`${path}.objectives`, 'must be a non-empty array');
+  } else {
+    const objectiveIds = new Set<string>();
+    quest.objectives.forEach((objective, index) =>
+      validateObjective(objective, `${path}.objectives[${index}]`, objectiveIds, report)
+    );
+  }
+
+  validatePrerequisites(quest.prerequisites, `${path}.prerequisites`, report);
+  validateReward(quest.rewards, `${path}.rewards`, report);
+  validateBranches(quest.branches, `${path}.branches`, report);
+}
+
+/**
+ * Validate a parsed quest file, returning every problem found
+ */
+export function validateQuestFile(data: unknown, file: string): QuestValidationIssue[] {
+  const issues: QuestValidationIssue[] = [];
+  const report: Report = (path, message) => issues.push({ file, path, message });
+
+  if (!isObject(data)) {
+    report('$', 'file must contain an object');
+    return issues;
+  }
+
+  if (!Array.isArray(data.quests) || data.quests.length === 0) {
+    report('$.quests', 'must be a non-empty array');
+    return issues;
+  }
+
+  const questIds = new Set<string>();
+  data.quests.forEach((quest, index) => validateQuest(quest, `$.quests[${index}]`, questIds, report));
+
+  return issues;
+}
+
+/**
+ * Validate and load a set of quest files. Files with problems are skipped
+ * entirely, and so are quests whose prerequisites point at a quest or
+ * choice that didn't load, since they could never start.
+ */
+export function loadQuestFiles(files: Record<string, unknown>): QuestLoadResult {
+  const candidates: { file: string; quest: QuestDefinition }[] = [];
+  const issues: QuestValidationIssue[] = [];
+
+  Object.entries(files).forEach(([file, data]) => {
+    const fileIssues = validateQuestFile(data, file);
+    if (fileIssues.length > 0) {
+      issues.push(...fileIssues);
+      return;
+    }
+
+    (data as QuestFile).quests.forEach(quest => candidates.push({ file, quest }));
+  });
+
+  const byId = new Map<string, QuestDefinition>();
+  candidates.forEach(({ file, quest }) => {
+    if (byId.has(quest.id)) {
+      issues.push({ file, path: `$.quests.${quest.id}`, message: `quest id "${quest.id}" is already used by another file` });
+    } else {
+      byId.set(quest.id, quest);
+    }
+  });
+
+  const quests = candidates.filter(({ file, quest }) => {
+    if (byId.get(quest.id) !== quest) return false;
+
+    const report = (message: string) => issues.push({ file, path: `$.quests.${quest.id}.prerequisites`, message });
+    const missing = (quest.prerequisites?.quests || []).filter(id => !byId.has(id));
+    missing.forEach(id => report(`unknown quest "${id}"`));
+
+    const branch = quest.prerequisites?.branch;
+    const branchValid = !branch || byId.get(branch.quest)?.branches?.some(choice => choice.id === branch.choice);
+    if (!branchValid) {
+      report(`unknown choice "${branch!.choice}" on quest "${branch!.quest}"`);
+    }
+
+    return missing.length === 0 && branchValid;
+  }).map(({ quest }) => quest);
+
+  return { quests, issues };
+}
+
+export default {
+  validateQuestFile,
+  loadQuestFiles
+};
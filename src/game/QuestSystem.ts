@@ -0,0 +1,407 @@
+// Quest System
+// Runs data-defined quests: tracks objectives from gameplay events, unlocks follow-ups and hands out rewards
+
+import { QUEST_FILES } from '../data/quests';
+import { loadQuestFiles } from './QuestLoader';
+import { GameEventBus, GameEventTable, gameEvents, resolveGameEvent } from './GameEvents';
+import { awardExperience, playerProgression } from './ProgressionSystem';
+import { createItem, getInventorySystem } from './InventorySystem';
+
+export type QuestCategory = 'story' | 'side';
+export type QuestObjectiveType = 'befriend' | 'gather' | 'teach' | 'reach_map';
+export type QuestStatus = 'active' | 'choosing' | 'completed';
+
+export interface QuestObjective {
+  id: string;
+  type: QuestObjectiveType;
+  description: string;
+  count?: number; // defaults to 1
+  species?: string; // befriend, teach
+  resource?: string; // gather
+  node?: string; // gather
+  trick?: string; // teach
+  map?: string; // reach_map
+}
+
+export interface QuestReward {
+  experience?: {
+    action: string; // key of EXPERIENCE_SOURCES
+    multiplier?: number;
+    bonus?: number;
+  };
+  items?: { id: string; quantity: number }[];
+}
+
+export interface QuestBranch {
+  id: string;
+  label: string;
+  description: string;
+  rewards?: QuestReward;
+}
+
+export interface QuestPrerequisites {
+  quests?: string[];
+  branch?: { quest: string; choice: string };
+  level?: number;
+}
+
+export interface QuestDefinition {
+  id: string;
+  title: string;
+  description: string;
+  category: QuestCategory;
+  prerequisites?: QuestPrerequisites;
+  objectives: QuestObjective[];
+  rewards?: QuestReward;
+  branches?: QuestBranch[]; // the player picks one once every objective is done
+}
+
+export interface QuestProgress {
+  questId: string;
+  status: QuestStatus;
+  progress: Record<string, number>; // objective id -> count
+  startedAt: number;
+  completedAt?: number;
+  choice?: string;
+}
+
+export type QuestEvent =
+  | { type: 'animal_tamed'; species: string }
+  | { type: 'trick_learned'; trickId: string; species?: string }
+  | { type: 'resource_gathered'; nodeId: string; resourceId: string; quantity: number }
+  | { type: 'map_entered'; mapId: string };
+
+export interface QuestRewardResult {
+  xpGained: number;
+  leveledUp: boolean;
+  items: string[];
+}
+
+export interface QuestUpdate {
+  type: 'started' | 'progress' | 'choosing' | 'completed';
+  quest: QuestDefinition;
+  progress: QuestProgress;
+  rewards?: QuestRewardResult;
+}
+
+export interface QuestJournalEntry {
+  quest: QuestDefinition;
+  progress: QuestProgress;
+}
+
+export interface QuestSaveData {
+  quests: QuestProgress[];
+}
+
+type QuestUpdateCallback = (update: QuestUpdate) => void;
+
+// What each quest update is published to the event bus as
+const QUEST_UPDATE_EVENTS = {
+  started: 'quest.started',
+  progress: 'quest.progressed',
+  choosing: 'quest.branchOffered'
+} as const;
+
+export class QuestSystem {
+  private definitions: Map<string, QuestDefinition> = new Map();
+  private quests: Map<string, QuestProgress> = new Map();
+  private currentMapId: string | null = null;
+  private updateCallbacks: QuestUpdateCallback[] = [];
+
+  constructor(files: Record<string, unknown> = QUEST_FILES) {
+    this.initializeQuests(files);
+    this.refresh();
+  }
+
+  /**
+   * Subscribe to quest updates. Returns a function that unsubscribes.
+   */
+  on(event: 'update', callback: QuestUpdateCallback): () => void {
+    this.updateCallbacks.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  off(_event: 'update', callback: QuestUpdateCallback): void {
+    const index = this.updateCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.updateCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Feed a gameplay event to every active quest
+   */
+  handleEvent(event: QuestEvent): void {
+    if (event.type === 'map_entered') {
+      this.currentMapId = event.mapId;
+    }
+
+    this.quests.forEach(progress => {
+      if (progress.status !== 'active') return;
+      const quest = this.definitions.get(progress.questId);
+      if (!quest) return;
+
+      let advanced = false;
+      quest.objectives.forEach(objective => {
+        const amount = this.getEventAmount(objective, event);
+        const target = objective.count || 1;
+        const current = progress.progress[objective.id] || 0;
+        if (amount > 0 && current < target) {
+          progress.progress[objective.id] = Math.min(target, current + amount);
+          advanced = true;
+        }
+      });
+
+      if (advanced) {
+        this.emit({ type: 'progress', quest, progress });
+        this.checkObjectives(quest, progress);
+      }
+    });
+
+    // Other systems may have levelled the player up since the last event
+    this.refresh();
+  }
+
+  /**
+   * Pick a branch for a quest waiting on the player's choice, completing it
+   */
+  chooseBranch(questId: string, branchId: string): { success: boolean; message: string } {
+    const quest = this.definitions.get(questId);
+    const progress = this.quests.get(questId);
+    if (!quest || !progress || progress.status !== 'choosing') {
+      return { success: false, message: 'This quest is not waiting on a choice' };
+    }
+
+    const branch = quest.branches?.find(entry => entry.id === branchId);
+    if (!branch) {
+      return { success: false, message: 'Unknown choice' };
+    }
+
+    progress.choice = branch.id;
+    this.completeQuest(quest, progress, branch);
+    this.refresh();
+
+    return { success: true, message: `You chose to ${branch.label.toLowerCase()}.` };
+  }
+
+  /**
+   * Start any quest whose prerequisites are now met. Call after anything
+   * outside the quest system that a prerequisite depends on, like levelling up.
+   */
+  refresh(): void {
+    // Quests completed on the spot can unlock others, so keep going until nothing new starts
+    let pending = Array.from(this.definitions.values()).filter(quest => !this.quests.has(quest.id));
+    let startedThisPass = true;
+    while (startedThisPass) {
+      const ready = pending.filter(quest => this.arePrerequisitesMet(quest));
+      pending = pending.filter(quest => !ready.includes(quest));
+      startedThisPass = ready.length > 0;
+      ready.forEach(quest => this.startQuest(quest));
+    }
+  }
+
+  getQuest(questId: string): QuestDefinition | undefined {
+    return this.definitions.get(questId);
+  }
+
+  getProgress(questId: string): QuestProgress | undefined {
+    return this.quests.get(questId);
+  }
+
+  /**
+   * Active (including awaiting a choice) and completed quests, newest first
+   */
+  getJournal(): { active: QuestJournalEntry[]; completed: QuestJournalEntry[] } {
+    const entries = Array.from(this.quests.values())
+      .map(progress => ({ quest: this.definitions.get(progress.questId), progress }))
+      .filter((entry): entry is QuestJournalEntry => entry.quest !== undefined);
+
+    return {
+      active: entries
+        .filter(entry => entry.progress.status !== 'completed')
+        .sort((a, b) => b.progress.startedAt - a.progress.startedAt),
+      completed: entries
+        .filter(entry => entry.progress.status === 'completed')
+        .sort((a, b) => (b.progress.completedAt || 0) - (a.progress.completedAt || 0))
+    };
+  }
+
+  getSaveData(): QuestSaveData {
+    return {
+      quests: Array.from(this.quests.values())
+    };
+  }
+
+  loadSaveData(data: Partial<QuestSaveData>): void {
+    this.quests = new Map(
+      (data.quests || [])
+        .filter(progress => this.definitions.has(progress.questId))
+        .map(progress => [progress.questId, progress])
+    );
+    this.refresh();
+  }
+
+  private initializeQuests(files: Record<string, unknown>): void {
+    const { quests, issues } = loadQuestFiles(files);
+
+    issues.forEach(issue => {
+      console.warn(`Invalid quest in ${issue.file} at ${issue.path}: ${issue.message}`);
+    });
+
+    this.definitions = new Map(quests.map(quest => [quest.id, quest]));
+  }
+
+  private startQuest(quest: QuestDefinition): void {
+    const progress: QuestProgress = {
+      questId: quest.id,
+      status: 'active',
+      progress: {},
+      startedAt: Date.now()
+    };
+    this.quests.set(quest.id, progress);
+
+    // Being somewhere already counts for quests that ask you to go there
+    quest.objectives.forEach(objective => {
+      if (objective.type === 'reach_map' && objective.map === this.currentMapId) {
+        progress.progress[objective.id] = 1;
+      }
+    });
+
+    this.emit({ type: 'started', quest, progress });
+    this.checkObjectives(quest, progress);
+  }
+
+  private arePrerequisitesMet(quest: QuestDefinition): boolean {
+    const prerequisites = quest.prerequisites;
+    if (!prerequisites) return true;
+
+    if (prerequisites.level !== undefined && playerProgression.level < prerequisites.level) {
+      return false;
+    }
+
+    if (prerequisites.quests?.some(questId => this.quests.get(questId)?.status !== 'completed')) {
+      return false;
+    }
+
+    if (prerequisites.branch) {
+      const progress = this.quests.get(prerequisites.branch.quest);
+      if (progress?.status !== 'completed' || progress.choice !== prerequisites.branch.choice) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private getEventAmount(objective: QuestObjective, event: QuestEvent): number {
+    switch (objective.type) {
+      case 'befriend':
+        return event.type === 'animal_tamed' && (!objective.species || objective.species === event.species) ? 1 : 0;
+
+      case 'teach':
+        return event.type === 'trick_learned' &&
+          objective.trick === event.trickId &&
+          (!objective.species || objective.species === event.species) ? 1 : 0;
+
+      case 'gather':
+        return event.type === 'resource_gathered' &&
+          (!objective.resource || objective.resource === event.resourceId) &&
+          (!objective.node || objective.node === event.nodeId) ? event.quantity : 0;
+
+      case 'reach_map':
+        return event.type === 'map_entered' && objective.map === event.mapId ? 1 : 0;
+
+      default:
+        return 0;
+    }
+  }
+
+  private checkObjectives(quest: QuestDefinition, progress: QuestProgress): void {
+    const done = quest.objectives.every(objective =>
+      (progress.progress[objective.id] || 0) >= (objective.count || 1)
+    );
+    if (!done) return;
+
+    if (quest.branches && quest.branches.length > 0) {
+      progress.status = 'choosing';
+      this.emit({ type: 'choosing', quest, progress });
+      return;
+    }
+
+    this.completeQuest(quest, progress);
+  }
+
+  private completeQuest(quest: QuestDefinition, progress: QuestProgress, branch?: QuestBranch): void {
+    progress.status = 'completed';
+    progress.completedAt = Date.now();
+
+    const rewards: QuestRewardResult = { xpGained: 0, leveledUp: false, items: [] };
+    [quest.rewards, branch?.rewards].forEach(reward => {
+      if (reward) {
+        this.grantReward(reward, rewards);
+      }
+    });
+
+    this.emit({ type: 'completed', quest, progress, rewards });
+  }
+
+  private grantReward(reward: QuestReward, result: QuestRewardResult): void {
+    if (reward.experience) {
+      const { action, multiplier, bonus } = reward.experience;
+      const experience = awardExperience(action, multiplier, bonus);
+      result.xpGained += experience.xpGained;
+      result.leveledUp = result.leveledUp || experience.leveledUp;
+    }
+
+    const inventory = getInventorySystem();
+    reward.items?.forEach(({ id, quantity }) => {
+      const item = createItem(id, quantity);
+      if (item && inventory.addItem(item, quantity).success) {
+        result.items.push(quantity > 1 ? `${item.name} ×${quantity}` : item.name);
+      }
+    });
+  }
+
+  private emit(update: QuestUpdate): void {
+    this.updateCallbacks.forEach(callback => callback(update));
+
+    const questId = update.quest.id;
+    if (update.type === 'completed') {
+      gameEvents.emit('quest.completed', {
+        questId,
+        xpGained: update.rewards?.xpGained ?? 0,
+        items: update.rewards?.items ?? []
+      });
+    } else {
+      gameEvents.emit(QUEST_UPDATE_EVENTS[update.type], { questId });
+    }
+  }
+}
+
+// Gameplay events that count towards quest objectives
+export const QUEST_EVENTS: GameEventTable<QuestEvent> = {
+  'animal.tamed': ({ species }) => ({ type: 'animal_tamed', species }),
+  'trick.learned': ({ trickId, species }) => ({ type: 'trick_learned', trickId, species }),
+  'resource.gathered': ({ nodeId, resourceId, quantity }) => ({ type: 'resource_gathered', nodeId, resourceId, quantity }),
+  'map.entered': ({ mapId }) => ({ type: 'map_entered', mapId })
+};
+
+/**
+ * Feed quest-relevant events from the bus to a quest system. Returns a function that unsubscribes.
+ */
+export function subscribeQuestEvents(quests: QuestSystem, bus: GameEventBus = gameEvents): () => void {
+  return bus.on('*', event => {
+    const questEvent = resolveGameEvent(QUEST_EVENTS, event);
+    if (questEvent) {
+      quests.handleEvent(questEvent);
+    }
+  });
+}
+
+export function createQuestSystem(files: Record<string, unknown> = QUEST_FILES): QuestSystem {
+  return new QuestSystem(files);
+}
+
+export const questSystem = new QuestSystem();
+
+export default questSystem;
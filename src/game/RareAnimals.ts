@@ -3,6 +3,7 @@
 
 import { Animal, AnimalSpecies, createAnimal } from './Animal';
 import { Position } from '../types/game';
+import { rng } from '../services/RandomService';
 
 export type RarityLevel = 'uncommon' | 'rare' | 'epic' | 'legendary';
 export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
@@ -304,8 +305,10 @@ export function shouldSpawnRareVariant(
     return false;
   }
 
-  // Roll for spawn chance
-  return Math.random() < variant.spawnChance;
+  // Roll for spawn chance, boosted for variants in their season
+  const variantKey = Object.keys(RARE_VARIANTS).find(key => RARE_VARIANTS[key].id === variant.id);
+  const seasonalBonus = variantKey ? getSeasonalSpawnBonus(currentSeason)[variantKey] ?? 1 : 1;
+  return rng('encounters').chance(Math.min(1, variant.spawnChance * seasonalBonus));
 }
 
 /**
@@ -324,6 +327,19 @@ export function createRareAnimal(
 
   // Create base animal
   const animal = createAnimal(id, variant.baseSpecies, position);
+  applyRareVariant(animal, variantId);
+
+  return animal;
+}
+
+/**
+ * Turn an existing animal of the right species into a rare variant
+ */
+export function applyRareVariant(animal: Animal, variantId: string): boolean {
+  const variant = RARE_VARIANTS[variantId];
+  if (!variant || variant.baseSpecies !== animal.species) {
+    return false;
+  }
 
   // Apply rare variant modifications
   animal.name = variant.name;
@@ -380,7 +396,7 @@ export function createRareAnimal(
     sparkleEffect: variant.sparkleEffect || false
   };
 
-  return animal;
+  return true;
 }
 
 /**
@@ -484,6 +500,7 @@ export default {
   RARE_VARIANTS,
   shouldSpawnRareVariant,
   createRareAnimal,
+  applyRareVariant,
   getRareVariantsForSpecies,
   getRarityColor,
   getRarityDisplayName,
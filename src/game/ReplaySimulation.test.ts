@@ -0,0 +1,195 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkReplay, createReplaySimulation } from './ReplaySimulation';
+import { EncounterTamingMethod } from './EncounterAnimal';
+import type { InputAction } from './InputManager';
+import { createAnimal } from './Animal';
+import { Position } from '../types/game';
+import { bondingSystem } from './BondingSystem';
+import { gatheringSystem } from './GatheringSystem';
+import { itemSystem } from './ItemSystem';
+import { worldClock } from './WorldClock';
+import { randomService } from '../services/RandomService';
+import {
+  ReplayCommand,
+  ReplayFile,
+  ReplayFormatError,
+  ReplayRecorder,
+  ReplayStart,
+  parseReplay,
+  runReplay,
+  serializeReplay
+} from '../services/ReplayService';
+
+const FRAME = 100;
+const SPAWN = { x: 10, y: 10 };
+
+// Always works and wins an animal over in three goes
+const PATIENT_APPROACH: EncounterTamingMethod = {
+  id: 'patient_approach',
+  name: 'Patient Approach',
+  type: 'speak_softly',
+  energyCost: 0,
+  fearReduction: 30,
+  affectionGain: 40,
+  effectiveness: 1,
+  successChance: 1,
+  riskLevel: 'low'
+};
+
+let now: number;
+
+/**
+ * Records a scripted play session the way Game.tsx records a real one
+ */
+class Session {
+  private recorder = new ReplayRecorder();
+
+  constructor(start: Partial<ReplayStart> = {}) {
+    this.recorder.start({ mapId: 'starter_meadow', position: SPAWN, animals: [], companions: [], ...start });
+  }
+
+  press(action: InputAction, position?: Position): this {
+    this.recorder.recordInput({ action, pressed: true, timestamp: now, ...(position && { position }) });
+    this.recorder.recordInput({ action, pressed: false, timestamp: now });
+    return this;
+  }
+
+  tap(x: number, y: number): this {
+    return this.press('tap', { x, y });
+  }
+
+  command(command: ReplayCommand): this {
+    this.recorder.recordCommand(command);
+    return this;
+  }
+
+  wait(ms: number): this {
+    for (let elapsed = 0; elapsed < ms; elapsed += FRAME) {
+      now += FRAME;
+      this.recorder.recordFrame(FRAME);
+    }
+    return this;
+  }
+
+  finish(): ReplayFile {
+    return this.recorder.stop()!;
+  }
+}
+
+/**
+ * Walk back and forth through the tall grass south of the path
+ */
+function pace(session: Session, laps: number): void {
+  for (let lap = 0; lap < laps; lap++) {
+    session.tap(12, 18).wait(6000).tap(1, 18).wait(6000);
+  }
+}
+
+beforeEach(() => {
+  now = 1_700_000_000_000;
+  vi.spyOn(Date, 'now').mockImplementation(() => now);
+  randomService.setSeed(20240601);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  bondingSystem.stop();
+  gatheringSystem.stop();
+  itemSystem.stop();
+  worldClock.stop();
+});
+
+describe('replays', () => {
+  it('walk where the keyboard and taps sent the player', () => {
+    const replay = new Session()
+      .press('right').wait(FRAME).press('right').wait(1500)
+      .tap(10, 14).wait(4000)
+      .finish();
+
+    const { passed, failures, snapshot } = checkReplay(replay, { mapId: 'starter_meadow', position: { x: 10, y: 14 } });
+
+    expect(failures).toEqual([]);
+    expect(passed).toBe(true);
+    expect(snapshot.elapsed).toBe(5600);
+  });
+
+  it('leave the meadow through its exit into the forest', () => {
+    const replay = new Session()
+      .tap(19, 12).wait(6000)
+      .press('action_a').wait(FRAME)
+      .finish();
+
+    const result = checkReplay(serializeReplay(replay), { mapId: 'forest_area', position: { x: 1, y: 10 } });
+
+    expect(result.failures).toEqual([]);
+  });
+
+  it('ignore movement while the game is paused', () => {
+    const replay = new Session()
+      .press('pause').press('down').tap(12, 12).wait(3000)
+      .press('pause').wait(FRAME)
+      .finish();
+
+    const { snapshot } = checkReplay(replay, {});
+
+    expect(snapshot.position).toEqual(SPAWN);
+    expect(snapshot.elapsed).toBe(FRAME);
+  });
+
+  it('tame an animal met in the tall grass', () => {
+    const session = new Session();
+    pace(session, 2);
+    for (let attempt = 0; attempt < 3; attempt++) {
+      session.command({ type: 'taming_method', method: PATIENT_APPROACH }).wait(FRAME);
+    }
+    session.command({ type: 'tame' }).wait(FRAME);
+
+    const { passed, failures, snapshot } = checkReplay(session.finish(), { companions: 1 });
+
+    expect(failures).toEqual([]);
+    expect(passed).toBe(true);
+    expect(snapshot.encounters).toEqual([{ species: snapshot.tamed[0], outcome: 'tamed' }]);
+  });
+
+  it('start from the animals and companions there were when recording began', () => {
+    const wild = createAnimal('rabbit_wild', 'rabbit', { x: 4, y: 4 });
+    const friend = createAnimal('fox_friend', 'fox', { x: 10, y: 11 });
+    const session = new Session({ animals: [wild, friend], companions: [friend] });
+    pace(session, 2);
+    for (let attempt = 0; attempt < 3; attempt++) {
+      session.command({ type: 'taming_method', method: PATIENT_APPROACH }).wait(FRAME);
+    }
+    session.command({ type: 'tame' }).wait(FRAME);
+
+    const { failures, snapshot } = checkReplay(session.finish(), { companions: 2 });
+
+    expect(failures).toEqual([]);
+    expect(snapshot.companions[0].id).toBe('fox_friend');
+    expect(snapshot.companions[1].species).toBe(snapshot.tamed[0]);
+  });
+
+  it('end the same way however the game has moved on since recording', () => {
+    const session = new Session();
+    pace(session, 2);
+    const text = serializeReplay(session.finish());
+
+    const first = runReplay(parseReplay(text), createReplaySimulation());
+    randomService.setSeed(7);
+    worldClock.advance(6 * 60 * 60 * 1000);
+    const second = runReplay(parseReplay(text), createReplaySimulation());
+
+    expect(first.encounters).toHaveLength(1);
+    expect(second).toEqual(first);
+  });
+
+  it('refuse files that cannot be played', () => {
+    const replay = new Session().wait(FRAME).finish();
+
+    expect(() => parseReplay('{')).toThrow(ReplayFormatError);
+    expect(() => parseReplay(JSON.stringify({ ...replay, version: 99 }))).toThrow('Unsupported replay version 99');
+    expect(() => parseReplay(JSON.stringify({ ...replay, inputs: [[0, 42, 1, 0]] }))).toThrow('Replay inputs are malformed');
+  });
+});
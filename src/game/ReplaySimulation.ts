@@ -0,0 +1,207 @@
+// Replay Simulation
+// Plays recorded replays headlessly through the world simulation and checks where they end up
+
+import { Position } from '../types/game';
+import { MapData } from './Map';
+import { Animal } from './Animal';
+import type { InputEvent } from './InputManager';
+import { World, WorldDirection, createWorld } from './World';
+import { partySystem } from './PartySystem';
+import { MAP_REGISTRY } from '../data/maps';
+import {
+  ReplayCommand,
+  ReplayFile,
+  ReplayStart,
+  ReplayTarget,
+  parseReplay,
+  runReplay
+} from '../services/ReplayService';
+
+export type ReplayEncounterOutcome = 'ongoing' | 'tamed' | 'fled' | 'left';
+
+export interface ReplaySnapshot {
+  mapId: string;
+  position: Position;
+  companions: Animal[]; // companions the replay started with, then those it tamed
+  party: string[]; // ids of the companions following in the party
+  tamed: string[]; // species tamed during the replay, in order
+  encounters: { species: string; outcome: ReplayEncounterOutcome }[];
+  elapsed: number; // game loop time played, in ms
+}
+
+export interface ReplayExpectations {
+  mapId?: string;
+  position?: Position;
+  companions?: number;
+  tamed?: string[]; // species that must have been tamed, repeats counted
+}
+
+export interface ReplayCheckResult {
+  passed: boolean;
+  failures: string[];
+  snapshot: ReplaySnapshot;
+}
+
+const DIRECTIONS: WorldDirection[] = ['up', 'down', 'left', 'right'];
+
+export class ReplaySimulation implements ReplayTarget<ReplaySnapshot> {
+  private maps: Record<string, MapData>;
+  private world: World | null = null;
+  private tamed: string[] = [];
+  private encounters: ReplaySnapshot['encounters'] = [];
+  private isPaused: boolean = false;
+  private elapsed: number = 0;
+
+  constructor(maps: Record<string, MapData> = MAP_REGISTRY) {
+    this.maps = maps;
+  }
+
+  load(start: ReplayStart, recordedAt: number): void {
+    this.destroy();
+
+    const world = createWorld({ maps: this.maps, startTime: start.time ?? recordedAt });
+    world.on('encounterStarted', ({ animal }) => {
+      this.encounters.push({ species: animal.species, outcome: 'ongoing' });
+    });
+    world.on('encounterEnded', ({ outcome }) => {
+      const current = this.encounters[this.encounters.length - 1];
+      if (current) {
+        current.outcome = outcome;
+      }
+    });
+    world.on('animalTamed', ({ animal }) => this.tamed.push(animal.species));
+
+    this.world = world;
+    this.tamed = [];
+    this.encounters = [];
+    this.isPaused = false;
+    this.elapsed = 0;
+    world.start(start.mapId, start.position, start.animals);
+    // Party membership comes back with the recorded systems; the companions let members follow
+    world.setCompanions(start.companions);
+  }
+
+  applyInput(event: InputEvent): void {
+    if (!event.pressed || !this.world) return;
+
+    if (event.action === 'pause') {
+      this.isPaused = !this.isPaused;
+      return;
+    }
+    if (this.isPaused) return;
+
+    if (DIRECTIONS.includes(event.action as WorldDirection)) {
+      this.world.moveInDirection(event.action as WorldDirection);
+    } else if (event.action === 'tap' && event.position) {
+      this.world.moveTo(event.position);
+    } else if (event.action === 'action_a') {
+      this.world.useTransition();
+    }
+  }
+
+  applyCommand(command: ReplayCommand): void {
+    if (!this.world) return;
+
+    switch (command.type) {
+      case 'taming_method':
+        this.world.applyTamingMethod(command.method);
+        break;
+      case 'trick':
+        this.world.performTrick(command.trickId);
+        break;
+      case 'tame':
+        this.world.tameEncounter();
+        break;
+      case 'flee':
+        this.world.leaveEncounter();
+        break;
+    }
+  }
+
+  tick(deltaTime: number): void {
+    // The game stops updating the world while paused
+    if (this.isPaused || !this.world) return;
+
+    this.world.tick(deltaTime);
+    this.elapsed += deltaTime;
+  }
+
+  getSnapshot(): ReplaySnapshot {
+    return {
+      mapId: this.world?.getMap()?.getMetadata().id || '',
+      position: this.world?.getPlayerPosition() || { x: 0, y: 0 },
+      companions: this.world?.getCompanions() || [],
+      party: partySystem.getMembers(),
+      tamed: [...this.tamed],
+      encounters: this.encounters.map(encounter => ({ ...encounter })),
+      elapsed: this.elapsed
+    };
+  }
+
+  /**
+   * Let go of the world so it stops following the shared clock and weather
+   */
+  destroy(): void {
+    this.world?.destroy();
+    this.world = null;
+  }
+}
+
+export function createReplaySimulation(maps: Record<string, MapData> = MAP_REGISTRY): ReplaySimulation {
+  return new ReplaySimulation(maps);
+}
+
+/**
+ * Compare a finished replay with what it was expected to do
+ */
+export function findReplayFailures(snapshot: ReplaySnapshot, expectations: ReplayExpectations): string[] {
+  const failures: string[] = [];
+
+  if (expectations.mapId !== undefined && snapshot.mapId !== expectations.mapId) {
+    failures.push(`Expected to end on map "${expectations.mapId}" but ended on "${snapshot.mapId}"`);
+  }
+
+  const position = expectations.position;
+  if (position && (snapshot.position.x !== position.x || snapshot.position.y !== position.y)) {
+    failures.push(
+      `Expected to end at (${position.x}, ${position.y}) but ended at (${snapshot.position.x}, ${snapshot.position.y})`
+    );
+  }
+
+  if (expectations.companions !== undefined && snapshot.companions.length !== expectations.companions) {
+    failures.push(`Expected ${expectations.companions} companions but had ${snapshot.companions.length}`);
+  }
+
+  const remaining = [...snapshot.tamed];
+  (expectations.tamed || []).forEach(species => {
+    const index = remaining.indexOf(species);
+    if (index > -1) {
+      remaining.splice(index, 1);
+    } else {
+      failures.push(`Expected to tame a ${species}`);
+    }
+  });
+
+  return failures;
+}
+
+/**
+ * Run a replay (parsed or as exported text) headlessly and check the final
+ * state. Meant for Node regression scripts; assert on `passed`. Settings are
+ * still read from localStorage, so give Node an in-memory one to keep that quiet.
+ */
+export function checkReplay(
+  replay: ReplayFile | string,
+  expectations: ReplayExpectations,
+  maps: Record<string, MapData> = MAP_REGISTRY
+): ReplayCheckResult {
+  const file = typeof replay === 'string' ? parseReplay(replay) : replay;
+  const simulation = createReplaySimulation(maps);
+  const snapshot = runReplay(file, simulation);
+  simulation.destroy();
+
+  const failures = findReplayFailures(snapshot, expectations);
+  return { passed: failures.length === 0, failures, snapshot };
+}
+
+export default ReplaySimulation;
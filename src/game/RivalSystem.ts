@@ -0,0 +1,434 @@
+// Rival System
+// NPC trainers who enter competitions, improve over time and remember how they fared against the player
+
+import { AnimalSpecies, createAnimal } from './Animal';
+import { rng } from '../services/RandomService';
+import type { Competition, CompetitionEntry, CompetitionResult, CompetitionTier } from './CompetitionSystem';
+
+export type RivalPersonality = 'steady' | 'showy' | 'clutch' | 'nervous';
+
+export interface RivalAnimal {
+  id: string;
+  name: string;
+  species: AnimalSpecies;
+  tricks: string[];
+  rareVariant?: boolean;
+}
+
+export interface RivalTrainer {
+  id: string;
+  name: string;
+  title: string;
+  personality: RivalPersonality;
+  debutTier: CompetitionTier;
+  talent: number; // 0-1, shifts the rival within their tier's skill band
+  animals: RivalAnimal[];
+  greeting: string;
+}
+
+export interface RivalMatchup {
+  competitionKey: string;
+  competitionName: string;
+  placement: number;
+  playerPlacement?: number;
+  timestamp: number;
+}
+
+export interface RivalRecord {
+  rivalId: string;
+  tier: CompetitionTier;
+  eventsEntered: number;
+  wins: number;
+  podiums: number;
+  tierPodiums: number; // Podiums since the last promotion
+  bestPlacement?: number;
+  circuitPoints: number;
+  // From the player's point of view
+  winsAgainstPlayer: number;
+  lossesToPlayer: number;
+  recentMatchups: RivalMatchup[];
+}
+
+export interface RivalSaveData {
+  records: [string, RivalRecord][];
+}
+
+export const TIER_ORDER: CompetitionTier[] = ['beginner', 'intermediate', 'advanced', 'expert', 'master'];
+
+// Skill band for each tier; a rival's talent places them inside it
+const TIER_SKILL: Record<CompetitionTier, { min: number; max: number; trainerLevel: number; routineLength: number }> = {
+  beginner: { min: 0.25, max: 0.45, trainerLevel: 2, routineLength: 2 },
+  intermediate: { min: 0.4, max: 0.6, trainerLevel: 6, routineLength: 3 },
+  advanced: { min: 0.55, max: 0.72, trainerLevel: 12, routineLength: 4 },
+  expert: { min: 0.68, max: 0.84, trainerLevel: 18, routineLength: 5 },
+  master: { min: 0.8, max: 0.95, trainerLevel: 25, routineLength: 6 }
+};
+
+// How far a single performance can swing from the rival's skill
+const PERSONALITY_VARIANCE: Record<RivalPersonality, number> = {
+  steady: 0.04,
+  showy: 0.12,
+  clutch: 0.08,
+  nervous: 0.1
+};
+
+const PODIUMS_TO_PROMOTE = 3;
+const MAX_MATCHUPS = 10;
+const CIRCUIT_POINTS = [10, 6, 4, 2];
+
+export const RIVAL_TRAINERS: RivalTrainer[] = [
+  {
+    id: 'pip',
+    name: 'Pip',
+    title: 'Rookie',
+    personality: 'nervous',
+    debutTier: 'beginner',
+    talent: 0.4,
+    greeting: 'Oh! You\'re competing too? Please go easy on me...',
+    animals: [
+      { id: 'clover', name: 'Clover', species: 'rabbit', tricks: ['sit', 'stay', 'spin'] }
+    ]
+  },
+  {
+    id: 'juniper',
+    name: 'Juniper',
+    title: 'Scout',
+    personality: 'steady',
+    debutTier: 'beginner',
+    talent: 0.6,
+    greeting: 'Practice makes perfect. Let\'s both do our best.',
+    animals: [
+      { id: 'acorn', name: 'Acorn', species: 'squirrel', tricks: ['sit', 'stay', 'jump', 'spin'] },
+      { id: 'dapple', name: 'Dapple', species: 'deer', tricks: ['sit', 'stay'] }
+    ]
+  },
+  {
+    id: 'rowan',
+    name: 'Rowan',
+    title: 'Showman',
+    personality: 'showy',
+    debutTier: 'intermediate',
+    talent: 0.55,
+    greeting: 'The crowd came to see us. Try to keep up!',
+    animals: [
+      { id: 'ember', name: 'Ember', species: 'fox', tricks: ['sit', 'stay', 'spin', 'jump', 'roll_over'] },
+      { id: 'flutter', name: 'Flutter', species: 'butterfly', tricks: ['sit', 'stay', 'spin', 'dance'] }
+    ]
+  },
+  {
+    id: 'marisol',
+    name: 'Marisol',
+    title: 'River Keeper',
+    personality: 'steady',
+    debutTier: 'intermediate',
+    talent: 0.7,
+    greeting: 'Patience wins more contests than flash.',
+    animals: [
+      { id: 'ripple', name: 'Ripple', species: 'otter', tricks: ['sit', 'stay', 'spin', 'shake', 'roll_over'] },
+      { id: 'shelly', name: 'Shelly', species: 'turtle', tricks: ['sit', 'stay', 'spin'] }
+    ]
+  },
+  {
+    id: 'thorne',
+    name: 'Thorne',
+    title: 'Veteran',
+    personality: 'clutch',
+    debutTier: 'advanced',
+    talent: 0.6,
+    greeting: 'I\'ve seen a hundred newcomers. Show me you\'re different.',
+    animals: [
+      { id: 'grey', name: 'Grey', species: 'wolf', tricks: ['sit', 'stay', 'spin', 'jump', 'shake', 'play_dead'] },
+      { id: 'hazel', name: 'Hazel', species: 'deer', tricks: ['sit', 'stay', 'spin', 'jump', 'dance'], rareVariant: true }
+    ]
+  },
+  {
+    id: 'wren',
+    name: 'Wren',
+    title: 'Prodigy',
+    personality: 'showy',
+    debutTier: 'advanced',
+    talent: 0.8,
+    greeting: 'Everyone says I\'m the next champion. Prove them wrong.',
+    animals: [
+      { id: 'nova', name: 'Nova', species: 'fox', tricks: ['sit', 'stay', 'spin', 'jump', 'shake', 'play_dead', 'dance'], rareVariant: true }
+    ]
+  },
+  {
+    id: 'oakley',
+    name: 'Oakley',
+    title: 'Grand Trainer',
+    personality: 'steady',
+    debutTier: 'expert',
+    talent: 0.7,
+    greeting: 'A bond is built one quiet day at a time.',
+    animals: [
+      { id: 'bramble', name: 'Bramble', species: 'bear', tricks: ['sit', 'stay', 'spin', 'jump', 'shake', 'play_dead', 'roll_over'] },
+      { id: 'silk', name: 'Silk', species: 'otter', tricks: ['sit', 'stay', 'spin', 'jump', 'shake', 'play_dead', 'dance'] }
+    ]
+  },
+  {
+    id: 'sable',
+    name: 'Sable',
+    title: 'Reigning Champion',
+    personality: 'clutch',
+    debutTier: 'master',
+    talent: 0.75,
+    greeting: 'The title is mine until someone takes it.',
+    animals: [
+      { id: 'midnight', name: 'Midnight', species: 'owl', tricks: ['sit', 'stay', 'spin', 'jump', 'shake', 'play_dead', 'roll_over', 'dance'] },
+      { id: 'aurora', name: 'Aurora', species: 'butterfly', tricks: ['sit', 'stay', 'spin', 'jump', 'shake', 'play_dead', 'dance'], rareVariant: true }
+    ]
+  }
+];
+
+const RIVAL_ID_PREFIX = 'rival:';
+
+function tierIndex(tier: CompetitionTier): number {
+  return TIER_ORDER.indexOf(tier);
+}
+
+export class RivalSystem {
+  private records: Map<string, RivalRecord> = new Map();
+
+  /**
+   * Whether a competition entry belongs to a rival rather than the player
+   */
+  isRivalEntry(entry: CompetitionEntry): boolean {
+    return Boolean(entry.isNpc) && entry.playerId.startsWith(RIVAL_ID_PREFIX);
+  }
+
+  getRival(rivalId: string): RivalTrainer | undefined {
+    return RIVAL_TRAINERS.find(rival => rival.id === rivalId);
+  }
+
+  getRecord(rivalId: string): RivalRecord {
+    let record = this.records.get(rivalId);
+    if (!record) {
+      const rival = this.getRival(rivalId);
+      record = {
+        rivalId,
+        tier: rival?.debutTier ?? 'beginner',
+        eventsEntered: 0,
+        wins: 0,
+        podiums: 0,
+        tierPodiums: 0,
+        circuitPoints: 0,
+        winsAgainstPlayer: 0,
+        lossesToPlayer: 0,
+        recentMatchups: []
+      };
+      this.records.set(rivalId, record);
+    }
+    return record;
+  }
+
+  /**
+   * Rivals ranked by circuit points, for a season standings table
+   */
+  getStandings(): { rival: RivalTrainer; record: RivalRecord }[] {
+    return RIVAL_TRAINERS
+      .map(rival => ({ rival, record: this.getRecord(rival.id) }))
+      .sort((a, b) => b.record.circuitPoints - a.record.circuitPoints || a.rival.name.localeCompare(b.rival.name));
+  }
+
+  /**
+   * Rivals who can enter a competition. A rival keeps entering events from their
+   * debut tier upward and can reach one tier above their own; those closest to
+   * the competition's tier get first pick of the slots.
+   */
+  getEligibleRivals(competition: Competition): RivalTrainer[] {
+    const target = tierIndex(competition.tier);
+    const distance = (rival: RivalTrainer) => Math.abs(tierIndex(this.getRecord(rival.id).tier) - target);
+
+    return RIVAL_TRAINERS
+      .filter(rival => {
+        const current = tierIndex(this.getRecord(rival.id).tier);
+        return target >= tierIndex(rival.debutTier) && target <= current + 1 && this.pickAnimal(rival, competition) !== null;
+      })
+      .sort((a, b) => distance(a) - distance(b));
+  }
+
+  /**
+   * Build competition entries for up to `slots` rivals
+   */
+  createEntries(competition: Competition, slots: number): CompetitionEntry[] {
+    return this.getEligibleRivals(competition)
+      .filter(rival => !competition.participants.some(p => p.playerId === `${RIVAL_ID_PREFIX}${rival.id}`))
+      .slice(0, Math.max(0, slots))
+      .map(rival => this.createEntry(rival, competition));
+  }
+
+  /**
+   * Update rival records once a competition's results are final
+   */
+  recordResults(competitionKey: string, competitionName: string, tier: CompetitionTier, results: CompetitionResult[]): void {
+    const playerResult = results.find(result => !this.isRivalEntry(result.entry));
+
+    results.filter(result => this.isRivalEntry(result.entry)).forEach(result => {
+      const rivalId = result.entry.playerId.slice(RIVAL_ID_PREFIX.length);
+      const record = this.getRecord(rivalId);
+
+      record.eventsEntered++;
+      record.circuitPoints += (CIRCUIT_POINTS[result.placement - 1] ?? 1) * (tierIndex(tier) + 1);
+      record.bestPlacement = Math.min(record.bestPlacement ?? Infinity, result.placement);
+      if (result.placement === 1) record.wins++;
+
+      if (playerResult) {
+        if (result.placement < playerResult.placement) {
+          record.winsAgainstPlayer++;
+        } else {
+          record.lossesToPlayer++;
+        }
+      }
+
+      if (result.placement <= 3) record.podiums++;
+
+      // Podiums at or above their own tier earn a step up the circuit
+      if (result.placement <= 3 && tierIndex(tier) >= tierIndex(record.tier)) {
+        record.tierPodiums++;
+        const next = TIER_ORDER[tierIndex(record.tier) + 1];
+        if (next && record.tierPodiums >= PODIUMS_TO_PROMOTE) {
+          record.tier = next;
+          record.tierPodiums = 0;
+        }
+      }
+
+      record.recentMatchups = [
+        {
+          competitionKey,
+          competitionName,
+          placement: result.placement,
+          playerPlacement: playerResult?.placement,
+          timestamp: Date.now()
+        },
+        ...record.recentMatchups
+      ].slice(0, MAX_MATCHUPS);
+    });
+  }
+
+  /**
+   * One line summing up the player's history with a rival
+   */
+  describeRivalry(rivalId: string): string {
+    const rival = this.getRival(rivalId);
+    const record = this.getRecord(rivalId);
+    if (!rival) return '';
+
+    const met = record.winsAgainstPlayer + record.lossesToPlayer;
+    if (met === 0) return rival.greeting;
+    if (record.lossesToPlayer > record.winsAgainstPlayer + 1) {
+      return `${rival.name} has been training hard since losing to you ${record.lossesToPlayer} times.`;
+    }
+    if (record.winsAgainstPlayer > record.lossesToPlayer) {
+      return `${rival.name} leads your rivalry ${record.winsAgainstPlayer}-${record.lossesToPlayer}.`;
+    }
+    return `You and ${rival.name} are ${record.lossesToPlayer}-${record.winsAgainstPlayer} in head-to-head meetings.`;
+  }
+
+  getSaveData(): RivalSaveData {
+    return {
+      records: Array.from(this.records.entries())
+    };
+  }
+
+  loadSaveData(data: Partial<RivalSaveData>): void {
+    this.records = new Map(data.records || []);
+  }
+
+  private createEntry(rival: RivalTrainer, competition: Competition): CompetitionEntry {
+    const animal = this.pickAnimal(rival, competition)!;
+    const band = TIER_SKILL[competition.tier];
+    const skill = this.getSkill(rival, competition.tier);
+
+    // Required tricks first, then the rival's strongest extras
+    const required = competition.requiredTricks ?? [];
+    const extras = animal.tricks.filter(trick => !required.includes(trick)).reverse();
+    const routine = [...required, ...extras].slice(0, Math.max(required.length, band.routineLength));
+
+    const trickMastery: Record<string, number> = {};
+    routine.forEach((trick, index) => {
+      // Basics are polished; the newest tricks in a routine lag behind
+      const familiarity = 1 - (index / Math.max(1, routine.length)) * 0.25;
+      trickMastery[trick] = Math.round(this.clamp(this.rollForm(rival, competition.tier, skill) * familiarity) * 100);
+    });
+
+    const form = this.rollForm(rival, competition.tier, skill);
+    const animalEntry = createAnimal(`rival_${rival.id}_${animal.id}`, animal.species, { x: 0, y: 0 }, {
+      name: animal.name
+    });
+    if (animal.rareVariant) {
+      Object.assign(animalEntry, { rareVariant: true });
+    }
+    animalEntry.stats = {
+      ...animalEntry.stats,
+      trust: Math.round(35 + form * 65),
+      happiness: Math.round(45 + form * 55),
+      fear: Math.round(Math.max(0, 40 - form * 40))
+    };
+
+    return {
+      playerId: `${RIVAL_ID_PREFIX}${rival.id}`,
+      playerName: `${rival.title} ${rival.name}`,
+      animal: animalEntry,
+      tricksToPerform: routine,
+      registrationTime: Date.now(),
+      isNpc: true,
+      trainerLevel: band.trainerLevel + Math.round(skill * 5),
+      trickMastery
+    };
+  }
+
+  /**
+   * Base skill for a rival at a tier: the tier band, the rival's talent,
+   * circuit experience and, for rivals the player keeps beating, a grudge
+   */
+  private getSkill(rival: RivalTrainer, tier: CompetitionTier): number {
+    const band = TIER_SKILL[tier];
+    const record = this.getRecord(rival.id);
+
+    let skill = band.min + (band.max - band.min) * rival.talent;
+    skill += Math.min(0.08, record.eventsEntered * 0.01);
+    if (record.lossesToPlayer > record.winsAgainstPlayer + 1) {
+      skill += 0.04;
+    }
+
+    // Personalities react differently to the stakes
+    const stakes = tierIndex(tier) / (TIER_ORDER.length - 1);
+    if (rival.personality === 'clutch') skill += stakes * 0.05;
+    if (rival.personality === 'nervous') skill -= stakes * 0.08;
+
+    return this.clamp(skill);
+  }
+
+  private rollForm(rival: RivalTrainer, tier: CompetitionTier, skill: number): number {
+    const variance = PERSONALITY_VARIANCE[rival.personality];
+    const roll = (rng('ai').next() * 2 - 1) * variance;
+    // Showy rivals either nail the big stage or fall apart
+    const flair = rival.personality === 'showy' && tier !== 'beginner' ? roll * 0.5 : 0;
+    return this.clamp(skill + roll + flair);
+  }
+
+  private pickAnimal(rival: RivalTrainer, competition: Competition): RivalAnimal | null {
+    const required = competition.requiredTricks ?? [];
+    const qualified = rival.animals.filter(animal =>
+      (!competition.allowedSpecies || competition.allowedSpecies.includes(animal.species)) &&
+      required.every(trick => animal.tricks.includes(trick))
+    );
+    if (qualified.length === 0) return null;
+
+    // Beauty contests favour rare variants; everything else the widest repertoire
+    return [...qualified].sort((a, b) =>
+      competition.type === 'beauty'
+        ? Number(Boolean(b.rareVariant)) - Number(Boolean(a.rareVariant))
+        : b.tricks.length - a.tricks.length
+    )[0];
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
+
+export const rivalSystem = new RivalSystem();
+
+export default rivalSystem;
@@ -1,5 +1,6 @@
 import { Animal } from './Animal';
 import { Position } from '../types/game';
+import { rng } from '../services/RandomService';
 
 export interface TrustLevel {
   level: number; // 0-100
@@ -249,10 +250,6 @@ export class TamingSystem {
   private activeSessions: Map<string, TamingSession> = new Map();
   private interactionCooldowns: Map<string, Map<string, number>> = new Map(); // animalId -> interactionId -> timestamp
 
-  constructor() {
-    this.loadTamingData();
-  }
-
   // Start a taming session with an animal
   startTamingSession(animal: Animal, playerPosition: Position): TamingSession {
     const sessionId = `${animal.id}_${Date.now()}`;
@@ -294,7 +291,6 @@ export class TamingSystem {
     }
 
     this.activeSessions.delete(animalId);
-    this.saveTamingData();
 
     return session;
   }
@@ -343,7 +339,7 @@ export class TamingSystem {
 
     // Calculate success probability
     const successProbability = this.calculateSuccessProbability(animalId, interaction, animalPersonality);
-    const success = Math.random() < successProbability;
+    const success = rng('encounters').chance(successProbability);
 
     // Apply success/failure modifier
     if (!success) {
@@ -395,7 +391,6 @@ export class TamingSystem {
     // Check for bond level updates
     this.updateBondLevel(animalId);
 
-    this.saveTamingData();
     return result;
   }
 
@@ -490,6 +485,11 @@ export class TamingSystem {
     }
   }
 
+  // Replace taming progress with data from a save file
+  loadSaveData(data: Record<string, TamingProgress>): void {
+    this.loadTamingProgress(data);
+  }
+
   // Private helper methods
 
   private initializeTamingProgress(animal: Animal): void {
@@ -594,7 +594,7 @@ export class TamingSystem {
     const level = trustLevel < 30 ? 'low' : trustLevel < 70 ? 'medium' : 'high';
     const possibleReactions = reactions[category][level];
     
-    return possibleReactions[Math.floor(Math.random() * possibleReactions.length)];
+    return rng('encounters').pick(possibleReactions);
   }
 
   private generatePlayerFeedback(
@@ -679,27 +679,9 @@ export class TamingSystem {
     
     animalCooldowns.set(interactionId, Date.now() + duration);
   }
-
-  private saveTamingData(): void {
-    try {
-      const data = this.getAllTamingProgress();
-      localStorage.setItem('feral-friends-taming-progress', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save taming data:', error);
-    }
-  }
-
-  private loadTamingData(): void {
-    try {
-      const saved = localStorage.getItem('feral-friends-taming-progress');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.loadTamingProgress(data);
-      }
-    } catch (error) {
-      console.warn('Failed to load taming data:', error);
-    }
-  }
 }
 
+// Shared instance so saves capture the same progress the UI works with
+export const tamingSystem = new TamingSystem();
+
 export default TamingSystem;
\ No newline at end of file
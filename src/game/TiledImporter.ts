@@ -0,0 +1,768 @@
+// Tiled Importer
+// Converts Tiled map editor exports (.tmx or .json) into MapData
+
+import type { TileType } from './Grid';
+import type {
+  AnimalSpawner,
+  MapBounds,
+  MapData,
+  MapMetadata,
+  MapObject,
+  MapRegion,
+  MapTile,
+  MapTransition,
+  TerrainType
+} from './Map';
+import { getMapData, validateMapConnections } from '../data/maps';
+
+export interface TiledImportOptions {
+  // Overrides the map's `id` custom property
+  id?: string;
+  // Used for cells that no tile layer covers or whose tile has no terrain
+  defaultTerrain?: TerrainType;
+  // Explicit terrain for global tile ids, taking precedence over tileset properties
+  terrainByGid?: Record<number, TerrainType>;
+  // Maps not yet in the registry that transitions may point to
+  knownMaps?: Record<string, MapData>;
+}
+
+export interface TiledImportResult {
+  map: MapData;
+  warnings: string[];
+}
+
+export class TiledImportError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'TiledImportError';
+  }
+}
+
+type PropertyValue = string | number | boolean;
+
+// Normalised form of the parts of a Tiled document the importer reads;
+// both the JSON and TMX parsers produce this
+interface TiledTile {
+  id: number;
+  type?: string;
+  properties: Record<string, PropertyValue>;
+}
+
+interface TiledTileset {
+  firstgid: number;
+  name: string;
+  properties: Record<string, PropertyValue>;
+  tiles: TiledTile[];
+}
+
+interface TiledObject {
+  id: number;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  gid?: number;
+  point: boolean;
+  properties: Record<string, PropertyValue>;
+}
+
+interface TiledLayer {
+  name: string;
+  kind: 'tiles' | 'objects';
+  data: number[];
+  objects: TiledObject[];
+  properties: Record<string, PropertyValue>;
+}
+
+interface TiledMap {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite: boolean;
+  properties: Record<string, PropertyValue>;
+  tilesets: TiledTileset[];
+  layers: TiledLayer[];
+}
+
+const TERRAIN_TYPES: TerrainType[] = ['grass', 'water', 'stone', 'forest', 'path', 'flower', 'sand', 'dirt', 'rock', 'bush'];
+
+// Walkability matches GameMap's terrain table
+const WALKABLE_TERRAIN: Record<TerrainType, boolean> = {
+  grass: true,
+  water: false,
+  stone: true,
+  forest: false,
+  path: true,
+  flower: true,
+  sand: true,
+  dirt: true,
+  rock: false,
+  bush: false
+};
+
+// Closest grid tile type for terrains the grid doesn't draw itself
+const GRID_TILE_TYPES: Record<TerrainType, TileType> = {
+  grass: 'grass',
+  water: 'water',
+  stone: 'stone',
+  forest: 'forest',
+  path: 'path',
+  flower: 'flower',
+  sand: 'path',
+  dirt: 'path',
+  rock: 'stone',
+  bush: 'forest'
+};
+
+const OBJECT_TYPES: MapObject['type'][] = ['tree', 'rock', 'flower', 'bush', 'water_source', 'landmark', 'decoration'];
+const TRANSITION_TYPES: MapTransition['transitionType'][] = ['edge', 'portal', 'door', 'stairs'];
+const REGION_TYPES: MapRegion['type'][] = ['safe', 'dangerous', 'peaceful', 'active', 'special'];
+const SPAWN_POINT_TYPES = ['spawn', 'spawn_point', 'player_spawn'];
+
+// Layer names that imply an object class when objects don't set one
+const LAYER_OBJECT_CLASSES: Record<string, string> = {
+  transitions: 'transition',
+  spawners: 'spawner',
+  regions: 'region',
+  spawn: 'spawn_point'
+};
+
+// Object properties consumed by the importer rather than copied into metadata
+const RESERVED_OBJECT_PROPERTIES = ['walkable', 'interactable', 'sprite'];
+
+// Map properties that land in MapMetadata
+const METADATA_PROPERTIES = [
+  'id', 'name', 'displayName', 'description', 'biome', 'difficulty', 'recommendedLevel',
+  'weather', 'weatherVariations', 'ambientSound', 'backgroundMusic', 'version'
+];
+
+// The top four bits of a gid are flip/rotation flags
+const GID_MASK = 0x0fffffff;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTerrain(value: unknown): value is TerrainType {
+  return typeof value === 'string' && TERRAIN_TYPES.includes(value as TerrainType);
+}
+
+function toList(value: PropertyValue | undefined): string[] {
+  if (value === undefined || value === '') return [];
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function toNumber(value: PropertyValue | undefined, fallback: number): number {
+  const number = typeof value === 'number' ? value : Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(number) ? number : fallback;
+}
+
+function toBoolean(value: PropertyValue | undefined, fallback: boolean): boolean {
+  if (value === undefined) return fallback;
+  return value === true || value === 'true';
+}
+
+function convertProperty(type: string | undefined, value: unknown): PropertyValue {
+  switch (type) {
+    case 'int':
+    case 'float':
+    case 'object':
+      return Number(value);
+    case 'bool':
+      return value === true || value === 'true';
+    default:
+      return String(value ?? '');
+  }
+}
+
+// JSON export parsing
+
+function readJsonProperties(raw: unknown): Record<string, PropertyValue> {
+  const properties: Record<string, PropertyValue> = {};
+  if (Array.isArray(raw)) {
+    raw.filter(isObject).forEach(property => {
+      properties[String(property.name)] = convertProperty(property.type as string | undefined, property.value);
+    });
+  }
+  return properties;
+}
+
+function readJsonLayers(rawLayers: unknown[], layers: TiledLayer[] = []): TiledLayer[] {
+  rawLayers.filter(isObject).forEach(layer => {
+    if (layer.type === 'group' && Array.isArray(layer.layers)) {
+      readJsonLayers(layer.layers, layers);
+    } else if (layer.type === 'tilelayer') {
+      if (layer.encoding === 'base64' && layer.compression) {
+        throw new TiledImportError(`Layer "${layer.name}" uses ${layer.compression} compression; export with CSV or uncompressed base64`);
+      }
+      layers.push({
+        name: String(layer.name ?? ''),
+        kind: 'tiles',
+        data: layer.encoding === 'base64' ? decodeBase64Gids(String(layer.data)) : (layer.data as number[]) ?? [],
+        objects: [],
+        properties: readJsonProperties(layer.properties)
+      });
+    } else if (layer.type === 'objectgroup') {
+      layers.push({
+        name: String(layer.name ?? ''),
+        kind: 'objects',
+        data: [],
+        objects: (Array.isArray(layer.objects) ? layer.objects : []).filter(isObject).map(object => ({
+          id: Number(object.id),
+          name: String(object.name ?? ''),
+          // Tiled 1.9 renamed `type` to `class`
+          type: String(object.type || object.class || ''),
+          x: Number(object.x) || 0,
+          y: Number(object.y) || 0,
+          width: Number(object.width) || 0,
+          height: Number(object.height) || 0,
+          gid: typeof object.gid === 'number' ? object.gid : undefined,
+          point: object.point === true,
+          properties: readJsonProperties(object.properties)
+        })),
+        properties: readJsonProperties(layer.properties)
+      });
+    }
+  });
+  return layers;
+}
+
+function parseJsonMap(raw: Record<string, unknown>): TiledMap {
+  const tilesets = (Array.isArray(raw.tilesets) ? raw.tilesets : []).filter(isObject).map(tileset => {
+    if (tileset.source) {
+      throw new TiledImportError(`Tileset "${tileset.source}" is external; embed tilesets before exporting`);
+    }
+    return {
+      firstgid: Number(tileset.firstgid),
+      name: String(tileset.name ?? ''),
+      properties: readJsonProperties(tileset.properties),
+      tiles: (Array.isArray(tileset.tiles) ? tileset.tiles : []).filter(isObject).map(tile => ({
+        id: Number(tile.id),
+        type: (tile.type || tile.class) as string | undefined,
+        properties: readJsonProperties(tile.properties)
+      }))
+    };
+  });
+
+  return {
+    width: Number(raw.width),
+    height: Number(raw.height),
+    tilewidth: Number(raw.tilewidth),
+    tileheight: Number(raw.tileheight),
+    infinite: raw.infinite === true,
+    properties: readJsonProperties(raw.properties),
+    tilesets,
+    layers: readJsonLayers(Array.isArray(raw.layers) ? raw.layers : [])
+  };
+}
+
+// TMX parsing
+
+function readXmlProperties(element: Element): Record<string, PropertyValue> {
+  const properties: Record<string, PropertyValue> = {};
+  const container = Array.from(element.children).find(child => child.tagName === 'properties');
+  if (container) {
+    Array.from(container.children).forEach(property => {
+      // Multi-line string values are stored as text content
+      const value = property.getAttribute('value') ?? property.textContent ?? '';
+      properties[property.getAttribute('name') ?? ''] = convertProperty(property.getAttribute('type') ?? undefined, value);
+    });
+  }
+  return properties;
+}
+
+function readXmlTileData(layer: Element): number[] {
+  const data = Array.from(layer.children).find(child => child.tagName === 'data');
+  if (!data) return [];
+
+  const encoding = data.getAttribute('encoding');
+  const compression = data.getAttribute('compression');
+  const name = layer.getAttribute('name');
+
+  if (compression) {
+    throw new TiledImportError(`Layer "${name}" uses ${compression} compression; export with CSV or uncompressed base64`);
+  }
+  if (encoding === 'csv') {
+    return (data.textContent ?? '').split(',').map(value => Number(value.trim()) || 0);
+  }
+  if (encoding === 'base64') {
+    return decodeBase64Gids(data.textContent ?? '');
+  }
+  if (Array.from(data.children).some(child => child.tagName === 'chunk')) {
+    throw new TiledImportError('Infinite maps are not supported; convert the map to a fixed size');
+  }
+  return Array.from(data.children)
+    .filter(child => child.tagName === 'tile')
+    .map(tile => Number(tile.getAttribute('gid')) || 0);
+}
+
+function readXmlLayers(parent: Element, layers: TiledLayer[] = []): TiledLayer[] {
+  Array.from(parent.children).forEach(element => {
+    const name = element.getAttribute('name') ?? '';
+
+    if (element.tagName === 'group') {
+      readXmlLayers(element, layers);
+    } else if (element.tagName === 'layer') {
+      layers.push({ name, kind: 'tiles', data: readXmlTileData(element), objects: [], properties: readXmlProperties(element) });
+    } else if (element.tagName === 'objectgroup') {
+      layers.push({
+        name,
+        kind: 'objects',
+        data: [],
+        objects: Array.from(element.children)
+          .filter(child => child.tagName === 'object')
+          .map(object => ({
+            id: Number(object.getAttribute('id')),
+            name: object.getAttribute('name') ?? '',
+            type: object.getAttribute('type') || object.getAttribute('class') || '',
+            x: Number(object.getAttribute('x')) || 0,
+            y: Number(object.getAttribute('y')) || 0,
+            width: Number(object.getAttribute('width')) || 0,
+            height: Number(object.getAttribute('height')) || 0,
+            gid: object.hasAttribute('gid') ? Number(object.getAttribute('gid')) : undefined,
+            point: Array.from(object.children).some(child => child.tagName === 'point'),
+            properties: readXmlProperties(object)
+          })),
+        properties: readXmlProperties(element)
+      });
+    }
+  });
+  return layers;
+}
+
+function parseTmxMap(xml: string): TiledMap {
+  if (typeof DOMParser === 'undefined') {
+    throw new TiledImportError('TMX import needs DOMParser; export the map as JSON instead');
+  }
+
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+  if (root.tagName !== 'map') {
+    throw new TiledImportError('Not a Tiled TMX map');
+  }
+
+  const tilesets = Array.from(root.children)
+    .filter(child => child.tagName === 'tileset')
+    .map(tileset => {
+      if (tileset.hasAttribute('source')) {
+        throw new TiledImportError(`Tileset "${tileset.getAttribute('source')}" is external; embed tilesets before exporting`);
+      }
+      return {
+        firstgid: Number(tileset.getAttribute('firstgid')),
+        name: tileset.getAttribute('name') ?? '',
+        properties: readXmlProperties(tileset),
+        tiles: Array.from(tileset.children)
+          .filter(child => child.tagName === 'tile')
+          .map(tile => ({
+            id: Number(tile.getAttribute('id')),
+            type: tile.getAttribute('type') || tile.getAttribute('class') || undefined,
+            properties: readXmlProperties(tile)
+          }))
+      };
+    });
+
+  return {
+    width: Number(root.getAttribute('width')),
+    height: Number(root.getAttribute('height')),
+    tilewidth: Number(root.getAttribute('tilewidth')),
+    tileheight: Number(root.getAttribute('tileheight')),
+    infinite: root.getAttribute('infinite') === '1',
+    properties: readXmlProperties(root),
+    tilesets,
+    layers: readXmlLayers(root)
+  };
+}
+
+/**
+ * Decode uncompressed base64 layer data: little-endian uint32 gids
+ */
+function decodeBase64Gids(encoded: string): number[] {
+  const binary = atob(encoded.trim());
+  const gids: number[] = [];
+  for (let i = 0; i + 3 < binary.length; i += 4) {
+    gids.push(
+      (binary.charCodeAt(i) |
+        (binary.charCodeAt(i + 1) << 8) |
+        (binary.charCodeAt(i + 2) << 16) |
+        (binary.charCodeAt(i + 3) << 24)) >>> 0
+    );
+  }
+  return gids;
+}
+
+// Conversion into MapData
+
+class TiledConverter {
+  private warnings: string[] = [];
+  private terrainCache: Map<number, TerrainType | null> = new Map();
+
+  constructor(private tiled: TiledMap, private options: TiledImportOptions) {}
+
+  convert(): TiledImportResult {
+    const { tiled } = this;
+    if (tiled.infinite) {
+      throw new TiledImportError('Infinite maps are not supported; convert the map to a fixed size');
+    }
+    if (!(tiled.width > 0 && tiled.height > 0 && tiled.tilewidth > 0 && tiled.tileheight > 0)) {
+      throw new TiledImportError('Map is missing its width, height or tile size');
+    }
+
+    const tiles = this.buildTiles();
+    const objects: MapObject[] = [];
+    const transitions: MapTransition[] = [];
+    const spawners: AnimalSpawner[] = [];
+    const regions: MapRegion[] = [];
+    let spawnPoint: { x: number; y: number } | null = null;
+
+    this.tiled.layers.filter(layer => layer.kind === 'objects').forEach(layer => {
+      const layerClass = LAYER_OBJECT_CLASSES[layer.name.toLowerCase()];
+
+      layer.objects.forEach(object => {
+        const objectClass = (object.type || layerClass || '').toLowerCase();
+        const label = object.name || `object ${object.id}`;
+
+        if (objectClass === 'transition' || TRANSITION_TYPES.includes(objectClass as MapTransition['transitionType'])) {
+          const transition = this.toTransition(object, objectClass, label);
+          if (transition) transitions.push(transition);
+        } else if (objectClass === 'spawner') {
+          const spawner = this.toSpawner(object, label);
+          spawners.push(spawner);
+          const { x, y } = this.toTilePosition(object);
+          tiles[y]?.[x]?.spawners?.push(spawner);
+        } else if (objectClass === 'region') {
+          regions.push(this.toRegion(object, label));
+        } else if (SPAWN_POINT_TYPES.includes(objectClass)) {
+          spawnPoint = this.toTilePosition(object);
+        } else {
+          const mapObject = this.toMapObject(object, objectClass, label);
+          objects.push(mapObject);
+          tiles[mapObject.position.y]?.[mapObject.position.x]?.objects?.push(mapObject);
+        }
+      });
+    });
+
+    const metadata = this.buildMetadata(spawnPoint);
+    const map: MapData = { metadata, tiles, objects, transitions, spawners, regions };
+
+    this.checkBounds(map);
+    return { map, warnings: this.warnings };
+  }
+
+  private buildTiles(): MapTile[][] {
+    const { width, height } = this.tiled;
+    const fallback = this.options.defaultTerrain ?? 'grass';
+    const terrain: (TerrainType | null)[] = new Array(width * height).fill(null);
+
+    // Later layers draw over earlier ones; empty cells leave what's below
+    this.tiled.layers.filter(layer => layer.kind === 'tiles').forEach(layer => {
+      if (layer.data.length !== width * height) {
+        throw new TiledImportError(`Layer "${layer.name}" has ${layer.data.length} cells, expected ${width * height}`);
+      }
+      if (layer.properties.terrain === false) return;
+
+      layer.data.forEach((rawGid, index) => {
+        const gid = rawGid & GID_MASK;
+        if (gid === 0) return;
+        const resolved = this.terrainForGid(gid);
+        if (resolved) terrain[index] = resolved;
+      });
+    });
+
+    const unresolved = terrain.filter(cell => cell === null).length;
+    if (unresolved > 0) {
+      this.warnings.push(`${unresolved} cell(s) have no terrain; using "${fallback}"`);
+    }
+
+    const tiles: MapTile[][] = [];
+    for (let y = 0; y < height; y++) {
+      const row: MapTile[] = [];
+      for (let x = 0; x < width; x++) {
+        const terrainType = terrain[y * width + x] ?? fallback;
+        row.push({
+          type: GRID_TILE_TYPES[terrainType],
+          walkable: WALKABLE_TERRAIN[terrainType],
+          position: { x, y },
+          terrainType,
+          objects: [],
+          spawners: []
+        });
+      }
+      tiles.push(row);
+    }
+    return tiles;
+  }
+
+  /**
+   * Terrain comes from, in order: the terrainByGid option, the tile's `terrain`
+   * property, the tile's class, then the tileset's `terrain` property
+   */
+  private terrainForGid(gid: number): TerrainType | null {
+    const cached = this.terrainCache.get(gid);
+    if (cached !== undefined) return cached;
+
+    let terrain: TerrainType | null = this.options.terrainByGid?.[gid] ?? null;
+
+    if (!terrain) {
+      const tileset = this.tiled.tilesets
+        .filter(candidate => candidate.firstgid <= gid)
+        .sort((a, b) => b.firstgid - a.firstgid)[0];
+
+      if (tileset) {
+        const tile = tileset.tiles.find(candidate => candidate.id === gid - tileset.firstgid);
+        const candidates = [tile?.properties.terrain, tile?.type, tileset.properties.terrain];
+        terrain = candidates.find(isTerrain) ?? null;
+
+        const unknown = candidates.find(value => typeof value === 'string' && value !== '' && !isTerrain(value));
+        if (!terrain && unknown !== undefined) {
+          this.warnings.push(`Tile ${gid} in tileset "${tileset.name}" has unknown terrain "${unknown}"`);
+        }
+      } else {
+        this.warnings.push(`Tile ${gid} does not belong to any tileset`);
+      }
+    }
+
+    this.terrainCache.set(gid, terrain);
+    return terrain;
+  }
+
+  private toTilePosition(object: TiledObject): { x: number; y: number } {
+    // Tile objects are anchored at their bottom-left corner
+    const top = object.gid ? object.y - object.height : object.y;
+    return {
+      x: Math.floor(object.x / this.tiled.tilewidth),
+      y: Math.floor(top / this.tiled.tileheight)
+    };
+  }
+
+  private toTileBounds(object: TiledObject): MapBounds {
+    const position = this.toTilePosition(object);
+    const top = object.gid ? object.y - object.height : object.y;
+    return {
+      minX: position.x,
+      minY: position.y,
+      maxX: Math.max(position.x, Math.ceil((object.x + object.width) / this.tiled.tilewidth) - 1),
+      maxY: Math.max(position.y, Math.ceil((top + object.height) / this.tiled.tileheight) - 1)
+    };
+  }
+
+  private toTransition(object: TiledObject, objectClass: string, label: string): MapTransition | null {
+    const { properties } = object;
+    const toMapId = properties.toMapId;
+    if (typeof toMapId !== 'string' || toMapId === '') {
+      this.warnings.push(`Transition "${label}" has no toMapId property and was skipped`);
+      return null;
+    }
+
+    const transitionType = TRANSITION_TYPES.includes(objectClass as MapTransition['transitionType'])
+      ? objectClass as MapTransition['transitionType']
+      : (TRANSITION_TYPES.find(type => type === properties.transitionType) ?? 'edge');
+
+    const requirements: NonNullable<MapTransition['requirements']> = {};
+    if (properties.requiredLevel !== undefined) requirements.level = toNumber(properties.requiredLevel, 1);
+    if (properties.requiredItems) requirements.items = toList(properties.requiredItems);
+    if (properties.requiredAchievements) requirements.achievements = toList(properties.requiredAchievements);
+
+    return {
+      id: object.name || `transition_${object.id}`,
+      fromPosition: this.toTilePosition(object),
+      toMapId,
+      toPosition: { x: toNumber(properties.toX, 0), y: toNumber(properties.toY, 0) },
+      transitionType,
+      ...(Object.keys(requirements).length > 0 ? { requirements } : {}),
+      ...(properties.description ? { description: String(properties.description) } : {})
+    };
+  }
+
+  private toSpawner(object: TiledObject, label: string): AnimalSpawner {
+    const { properties } = object;
+    const animalTypes = toList(properties.animalTypes);
+    if (animalTypes.length === 0) {
+      this.warnings.push(`Spawner "${label}" has no animalTypes`);
+    }
+
+    const conditions: NonNullable<AnimalSpawner['conditions']> = {};
+    if (properties.timeOfDay) conditions.timeOfDay = String(properties.timeOfDay) as NonNullable<AnimalSpawner['conditions']>['timeOfDay'];
+    if (properties.weather) conditions.weather = String(properties.weather) as NonNullable<AnimalSpawner['conditions']>['weather'];
+    if (properties.season) conditions.season = String(properties.season) as NonNullable<AnimalSpawner['conditions']>['season'];
+
+    return {
+      id: object.name || `spawner_${object.id}`,
+      animalTypes,
+      spawnRate: toNumber(properties.spawnRate, 1),
+      maxAnimals: toNumber(properties.maxAnimals, 1),
+      spawnRadius: toNumber(properties.spawnRadius, 3),
+      position: this.toTilePosition(object),
+      ...(Object.keys(conditions).length > 0 ? { conditions } : {})
+    };
+  }
+
+  private toRegion(object: TiledObject, label: string): MapRegion {
+    const { properties } = object;
+    let type = REGION_TYPES.find(candidate => candidate === properties.regionType);
+    if (!type) {
+      if (properties.regionType !== undefined) {
+        this.warnings.push(`Region "${label}" has unknown regionType "${properties.regionType}"`);
+      }
+      type = 'peaceful';
+    }
+
+    const effects: NonNullable<MapRegion['effects']> = {};
+    if (properties.playerSpeedModifier !== undefined) effects.playerSpeedModifier = toNumber(properties.playerSpeedModifier, 1);
+    if (properties.animalBehaviorModifier) effects.animalBehaviorModifier = String(properties.animalBehaviorModifier);
+    if (properties.soundscape) effects.soundscape = String(properties.soundscape);
+
+    return {
+      id: object.name || `region_${object.id}`,
+      name: String(properties.displayName ?? object.name ?? `Region ${object.id}`),
+      bounds: this.toTileBounds(object),
+      type,
+      ...(properties.description ? { description: String(properties.description) } : {}),
+      ...(Object.keys(effects).length > 0 ? { effects } : {})
+    };
+  }
+
+  private toMapObject(object: TiledObject, objectClass: string, label: string): MapObject {
+    const type = OBJECT_TYPES.find(candidate => candidate === objectClass) ?? 'decoration';
+    if (objectClass && type !== objectClass) {
+      this.warnings.push(`Object "${label}" has unknown class "${objectClass}"; imported as decoration`);
+    }
+
+    const bounds = this.toTileBounds(object);
+    const metadata: Record<string, PropertyValue> = {};
+    Object.entries(object.properties).forEach(([key, value]) => {
+      if (!RESERVED_OBJECT_PROPERTIES.includes(key)) metadata[key] = value;
+    });
+
+    return {
+      id: object.name || `${type}_${object.id}`,
+      type,
+      position: { x: bounds.minX, y: bounds.minY },
+      size: object.point
+        ? { width: 1, height: 1 }
+        : { width: bounds.maxX - bounds.minX + 1, height: bounds.maxY - bounds.minY + 1 },
+      walkable: toBoolean(object.properties.walkable, !['tree', 'rock', 'bush', 'water_source'].includes(type)),
+      interactable: toBoolean(object.properties.interactable, type === 'landmark' || type === 'water_source'),
+      ...(object.properties.sprite ? { sprite: String(object.properties.sprite) } : {}),
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+    };
+  }
+
+  private buildMetadata(spawnPoint: { x: number; y: number } | null): MapMetadata {
+    const { properties, width, height } = this.tiled;
+    const id = this.options.id ?? (typeof properties.id === 'string' ? properties.id : '');
+    if (!id) {
+      throw new TiledImportError('Map needs an `id` custom property or the id option');
+    }
+
+    Object.keys(properties)
+      .filter(key => !METADATA_PROPERTIES.includes(key))
+      .forEach(key => this.warnings.push(`Unknown map property "${key}" was ignored`));
+
+    const difficulty = ['easy', 'normal', 'hard'].includes(String(properties.difficulty))
+      ? properties.difficulty as MapMetadata['difficulty']
+      : 'normal';
+    const defaultWeather = ['sunny', 'rainy', 'cloudy'].includes(String(properties.weather))
+      ? properties.weather as MapMetadata['weather']['default']
+      : 'sunny';
+
+    if (!spawnPoint) {
+      this.warnings.push('No spawn_point object; spawning in the map centre');
+    }
+
+    const now = new Date().toISOString();
+    const name = String(properties.name ?? id);
+
+    return {
+      id,
+      name,
+      displayName: String(properties.displayName ?? name),
+      description: String(properties.description ?? ''),
+      biome: String(properties.biome ?? 'temperate'),
+      difficulty,
+      recommendedLevel: toNumber(properties.recommendedLevel, 1),
+      size: { width, height },
+      spawnPoint: spawnPoint ?? { x: Math.floor(width / 2), y: Math.floor(height / 2) },
+      bounds: { minX: 0, maxX: width - 1, minY: 0, maxY: height - 1 },
+      weather: {
+        default: defaultWeather,
+        variations: toList(properties.weatherVariations).length > 0 ? toList(properties.weatherVariations) : [defaultWeather]
+      },
+      ...(properties.ambientSound ? { ambientSound: String(properties.ambientSound) } : {}),
+      ...(properties.backgroundMusic ? { backgroundMusic: String(properties.backgroundMusic) } : {}),
+      version: String(properties.version ?? '1.0.0'),
+      created: now,
+      lastModified: now
+    };
+  }
+
+  private checkBounds(map: MapData): void {
+    const { width, height } = map.metadata.size;
+    const inside = (position: { x: number; y: number }) =>
+      position.x >= 0 && position.x < width && position.y >= 0 && position.y < height;
+    const issues: string[] = [];
+
+    if (!inside(map.metadata.spawnPoint)) {
+      issues.push('spawn point is outside the map');
+    } else if (!map.tiles[map.metadata.spawnPoint.y][map.metadata.spawnPoint.x].walkable) {
+      this.warnings.push(`Spawn point is on unwalkable ${map.tiles[map.metadata.spawnPoint.y][map.metadata.spawnPoint.x].terrainType}`);
+    }
+
+    map.transitions.forEach(transition => {
+      if (!inside(transition.fromPosition)) issues.push(`transition "${transition.id}" is outside the map`);
+    });
+    map.objects.forEach(object => {
+      if (!inside(object.position)) issues.push(`object "${object.id}" is outside the map`);
+    });
+
+    if (issues.length > 0) {
+      throw new TiledImportError('Imported map is invalid', issues);
+    }
+  }
+}
+
+/**
+ * Import a Tiled map. Accepts TMX text, JSON text or an already parsed JSON export.
+ * Throws TiledImportError if the map can't be converted or links to unknown maps.
+ */
+export function importTiledMap(source: string | Record<string, unknown>, options: TiledImportOptions = {}): TiledImportResult {
+  let tiled: TiledMap;
+
+  if (typeof source === 'string') {
+    const text = source.trim();
+    if (text.startsWith('<')) {
+      tiled = parseTmxMap(text);
+    } else {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch (error) {
+        throw new TiledImportError(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      if (!isObject(parsed)) {
+        throw new TiledImportError('Tiled JSON export must be an object');
+      }
+      tiled = parseJsonMap(parsed);
+    }
+  } else {
+    tiled = parseJsonMap(source);
+  }
+
+  const result = new TiledConverter(tiled, options).convert();
+
+  const knownMaps = { ...options.knownMaps, [result.map.metadata.id]: result.map };
+  if (!validateMapConnections(knownMaps)) {
+    const missing = result.map.transitions
+      .filter(transition => !getMapData(transition.toMapId) && !knownMaps[transition.toMapId])
+      .map(transition => `transition "${transition.id}" leads to unknown map "${transition.toMapId}"`);
+    throw new TiledImportError('Map connections are invalid', missing);
+  }
+
+  return result;
+}
+
+export default {
+  importTiledMap
+};
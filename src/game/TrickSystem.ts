@@ -2,10 +2,14 @@ import { Animal } from './Animal';
 import { TrickDefinition, TeachingPhase, TrickGesture, ALL_TRICKS, getTrickById, getPrerequisiteTricks } from '../data/tricks';
 import { bondingSystem } from './BondingSystem';
 import { animalPersonality } from './AnimalPersonality';
+import { rng } from '../services/RandomService';
+import { GestureRecognizer, GestureScore, GestureStroke } from './GestureRecognizer';
+import { gameEvents } from './GameEvents';
 
 export interface TrickLearningProgress {
   trickId: string;
   animalId: string;
+  species?: string; // so events about the trick can name the animal
   currentPhase: string;
   phaseProgress: number; // 0-1
   attemptsInPhase: number;
@@ -73,12 +77,18 @@ export interface TrickTeachingSession {
   notes: string[];
 }
 
+export interface TrickSaveData {
+  learningProgress: Array<[string, TrickLearningProgress]>;
+  learnedTricks: Array<[string, LearnedTrick[]]>;
+  performanceHistory: Array<[string, TrickPerformance[]]>;
+}
+
 export class TrickSystem {
   private learningProgress: Map<string, TrickLearningProgress> = new Map();
   private learnedTricks: Map<string, LearnedTrick[]> = new Map(); // animalId -> tricks
   private activeSessions: Map<string, TrickTeachingSession> = new Map();
   private performanceHistory: Map<string, TrickPerformance[]> = new Map();
-  private gestureRecognition: GestureRecognitionSystem;
+  private gestureRecognition: GestureRecognizer;
   
   private callbacks: {
     onTrickLearned?: (animalId: string, trickId: string) => void;
@@ -88,8 +98,7 @@ export class TrickSystem {
   } = {};
 
   constructor() {
-    this.gestureRecognition = new GestureRecognitionSystem();
-    this.loadTrickData();
+    this.gestureRecognition = new GestureRecognizer();
   }
 
   /**
@@ -136,6 +145,7 @@ export class TrickSystem {
     const progress: TrickLearningProgress = {
       trickId,
       animalId: animal.id,
+      species: animal.species,
       currentPhase: trick.teachingPhases[0].id,
       phaseProgress: 0,
       attemptsInPhase: 0,
@@ -161,6 +171,38 @@ export class TrickSystem {
     };
   }
 
+  /**
+   * Recognize pointer strokes drawn by the player and attempt the current phase
+   * with whichever of its gestures they match best
+   */
+  attemptTrickStrokes(
+    animalId: string,
+    trickId: string,
+    strokes: GestureStroke[]
+  ): ReturnType<TrickSystem['attemptTrickGesture']> & { score: GestureScore | null } {
+    const progress = this.learningProgress.get(`${animalId}_${trickId}`);
+    const phase = getTrickById(trickId)?.teachingPhases.find(p => p.id === progress?.currentPhase);
+    const match = phase ? this.gestureRecognition.scoreBest(strokes, phase.gestures) : null;
+
+    if (!match) {
+      return {
+        ...this.attemptTrickGesture(animalId, trickId, { type: 'none', accuracy: 0, timing: 0 }),
+        score: null
+      };
+    }
+
+    const { score, gesture } = match;
+    const result = this.attemptTrickGesture(animalId, trickId, {
+      type: score.type,
+      ...(score.direction ? { direction: score.direction } : {}),
+      duration: score.duration,
+      accuracy: score.accuracy,
+      timing: score.timing
+    }, gesture);
+
+    return { ...result, score };
+  }
+
   /**
    * Attempt to perform a trick gesture
    */
@@ -173,7 +215,8 @@ export class TrickSystem {
       duration?: number;
       accuracy: number;
       timing: number;
-    }
+    },
+    expectedGesture?: TrickGesture
   ): {
     success: boolean;
     feedback: string;
@@ -210,7 +253,7 @@ export class TrickSystem {
     // Evaluate gesture accuracy
     const gestureAccuracy = this.evaluateGestureAccuracy(
       gestureInput,
-      currentPhase.gestures[0], // Simplified for now
+      expectedGesture ?? currentPhase.gestures[0],
       progress.personalityModifiers.gestureToleranceBonus
     );
 
@@ -229,7 +272,7 @@ export class TrickSystem {
 
     // Generate feedback
     const feedbackMessages = success ? currentPhase.feedback.success : currentPhase.feedback.failure;
-    const feedback = feedbackMessages[Math.floor(Math.random() * feedbackMessages.length)];
+    const feedback = rng('gestures').pick(feedbackMessages);
 
     // Check for phase advancement
     let phaseAdvanced = false;
@@ -266,6 +309,7 @@ export class TrickSystem {
         }
         
         this.callbacks.onTrickLearned?.(animalId, trickId);
+        gameEvents.emit('trick.learned', { animalId, trickId, species: progress.species });
       }
     }
 
@@ -289,8 +333,6 @@ export class TrickSystem {
       session.attempts.push(attempt);
     }
 
-    this.saveTrickData();
-
     return {
       success,
       feedback,
@@ -325,7 +367,7 @@ export class TrickSystem {
     // Calculate performance quality based on mastery and random factors
     const baseQuality = learnedTrick.averagePerformanceQuality || 0.6;
     const masteryBonus = this.getMasteryLevel(animalId, trickId) / 100 * 0.3;
-    const randomFactor = (Math.random() - 0.5) * 0.2;
+    const randomFactor = (rng('gestures').next() - 0.5) * 0.2;
     const performanceQuality = Math.max(0, Math.min(1, baseQuality + masteryBonus + randomFactor));
 
     // Determine audience reaction
@@ -383,7 +425,7 @@ export class TrickSystem {
     }
 
     this.callbacks.onPerformanceComplete?.(animalId, performance);
-    this.saveTrickData();
+    gameEvents.emit('trick.performed', { animalId, trickId, success: audienceReaction !== 'poor' });
 
     return {
       success: true,
@@ -551,11 +593,16 @@ export class TrickSystem {
   }
 
   private evaluateGestureAccuracy(
-    input: { type: string; direction?: string; duration?: number; accuracy: number },
+    input: { type: string; direction?: string; duration?: number; accuracy: number; timing?: number },
     expected: TrickGesture,
     toleranceBonus: number
   ): number {
     let accuracy = input.accuracy;
+
+    // Rushed or dragged-out gestures lose a little precision
+    if (input.timing !== undefined) {
+      accuracy *= 0.85 + 0.15 * input.timing;
+    }
     
     // Apply tolerance bonus
     const adjustedTolerance = Math.min(1, expected.tolerance + toleranceBonus);
@@ -619,6 +666,7 @@ export class TrickSystem {
           learnedTrick.masteredDate = Date.now();
         }
         this.callbacks.onTrickMastered?.(animalId, trickId);
+        gameEvents.emit('trick.mastered', { animalId, trickId, species: progress.species });
       }
     }
   }
@@ -641,45 +689,25 @@ export class TrickSystem {
     }
   }
 
-  private loadTrickData(): void {
-    try {
-      const saved = localStorage.getItem('feralFriends_trickData');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.learningProgress = new Map(data.learningProgress || []);
-        this.learnedTricks = new Map(data.learnedTricks || []);
-        this.performanceHistory = new Map(data.performanceHistory || []);
-      }
-    } catch (error) {
-      console.warn('Failed to load trick data:', error);
-    }
-  }
-
-  private saveTrickData(): void {
-    try {
-      const data = {
-        learningProgress: Array.from(this.learningProgress.entries()),
-        learnedTricks: Array.from(this.learnedTricks.entries()),
-        performanceHistory: Array.from(this.performanceHistory.entries())
-      };
-      localStorage.setItem('feralFriends_trickData', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save trick data:', error);
-    }
-  }
-}
-
-// Simple gesture recognition system
-class GestureRecognitionSystem {
-  recognizeGesture(input: any): { type: string; accuracy: number; timing: number } {
-    // Simplified gesture recognition
-    // In a real implementation, this would analyze touch/mouse input patterns
+  /**
+   * Snapshot trick progress for the unified save file
+   */
+  getSaveData(): TrickSaveData {
     return {
-      type: input.type || 'tap',
-      accuracy: Math.random() * 0.4 + 0.6, // 0.6-1.0
-      timing: Math.random() * 0.3 + 0.7 // 0.7-1.0
+      learningProgress: Array.from(this.learningProgress.entries()),
+      learnedTricks: Array.from(this.learnedTricks.entries()),
+      performanceHistory: Array.from(this.performanceHistory.entries())
     };
   }
+
+  /**
+   * Replace trick progress with data from a save file
+   */
+  loadSaveData(data: Partial<TrickSaveData>): void {
+    this.learningProgress = new Map(data.learningProgress || []);
+    this.learnedTricks = new Map(data.learnedTricks || []);
+    this.performanceHistory = new Map(data.performanceHistory || []);
+  }
 }
 
 // Export singleton instance
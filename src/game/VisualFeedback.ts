@@ -256,6 +256,56 @@ export class VisualFeedbackSystem {
     }
   }
 
+  onCompanionAbility(position: { x: number; y: number }, abilityId: string, success: boolean): void {
+    if (!success) {
+      if (this.config.enableParticles) {
+        this.effectsSystem.createEffect('puff_smoke', position, {
+          color: '#9ca3af',
+          opacity: 0.5
+        });
+      }
+      return;
+    }
+
+    const abilityColors: Record<string, string> = {
+      calming_presence: '#06b6d4',
+      sniff_out: '#f59e0b',
+      scout_ahead: '#8b5cf6',
+      skill_assistance: '#22c55e',
+      emotional_healing: '#ec4899',
+      empathetic_response: '#ec4899'
+    };
+    const color = abilityColors[abilityId] || '#10b981';
+
+    if (this.config.enableParticles) {
+      switch (abilityId) {
+        case 'calming_presence':
+          this.effectsSystem.createRippleEffect(position, color);
+          break;
+
+        case 'sniff_out':
+          this.effectsSystem.createItemPickupEffect(position, color);
+          break;
+
+        case 'emotional_healing':
+        case 'empathetic_response':
+          this.effectsSystem.createFloatingHeartEffect(position);
+          break;
+
+        default:
+          this.effectsSystem.createSparkleEffect(position, color);
+      }
+    }
+
+    if (this.config.enableColorFlashes) {
+      this.triggerColorFlash(color, 0.2, 300);
+    }
+
+    if (this.config.enableHighlights) {
+      this.addHighlight(position, color, 30, 0.5, 2, 1200);
+    }
+  }
+
   // Core feedback methods
   private triggerColorFlash(color: string, intensity: number, duration: number): void {
     if (!this.config.enableColorFlashes) return;
@@ -0,0 +1,534 @@
+// Weather System
+// Per-map weather state machine with seasonal Markov transitions and fronts that drift between connected maps
+
+import { Season } from '../types/game';
+import { AnimalSpecies } from './Animal';
+import { MapData } from './Map';
+import { WEATHER_RESPONSES, WeatherType } from './AnimalBehaviorSystem';
+import { worldClock } from './WorldClock';
+import { gameEvents } from './GameEvents';
+import { rng } from '../services/RandomService';
+
+// Covers every value used in map weather tables; 'none' is for indoor maps like caves
+export type WeatherState = 'sunny' | 'cloudy' | 'light_rain' | 'rainy' | 'stormy' | 'foggy' | 'windy' | 'snowy' | 'none';
+
+export type FootstepSurface = 'dry' | 'wet' | 'snow';
+
+export type WeatherSystemEvent = 'change' | 'frontMoved';
+
+export type WeatherParticleType = 'rain' | 'snow' | 'fog' | 'wind';
+
+export interface WeatherProfile {
+  label: string;
+  behavior: WeatherType | null; // what animals react to, null when they carry on as normal
+  ambient: 'clear' | 'cloudy' | 'rainy' | 'windy' | 'snowy';
+  gathering: string; // matches GatheringResource.weatherRequirements
+  particles: { type: WeatherParticleType; intensity: number }[];
+  footsteps: FootstepSurface;
+  lightFactor: number; // multiplies ambient light
+  encounterRate: number; // multiplies the grass encounter chance
+}
+
+export interface WeatherFront {
+  id: string;
+  weather: WeatherState;
+  mapId: string;
+  previousMapId?: string;
+  hoursRemaining: number;
+}
+
+export interface MapWeatherState {
+  mapId: string;
+  weather: WeatherState;
+  hoursInState: number;
+  frontId?: string;
+}
+
+export interface WeatherChange {
+  mapId: string;
+  weather: WeatherState;
+  previous: WeatherState;
+  front?: WeatherFront;
+}
+
+export interface WeatherSaveData {
+  states: MapWeatherState[];
+  fronts: WeatherFront[];
+  activeMapId: string | null;
+  frontCounter: number;
+}
+
+interface MapWeatherTable {
+  default: WeatherState;
+  states: WeatherState[];
+  neighbours: string[];
+}
+
+type WeatherCallback = (change: WeatherChange) => void;
+
+export const WEATHER_PROFILES: Record<WeatherState, WeatherProfile> = {
+  sunny: {
+    label: 'Sunny',
+    behavior: 'sunny',
+    ambient: 'clear',
+    gathering: 'clear',
+    particles: [],
+    footsteps: 'dry',
+    lightFactor: 1,
+    encounterRate: 1.1
+  },
+  cloudy: {
+    label: 'Cloudy',
+    behavior: null,
+    ambient: 'cloudy',
+    gathering: 'cloudy',
+    particles: [{ type: 'fog', intensity: 0.15 }],
+    footsteps: 'dry',
+    lightFactor: 0.9,
+    encounterRate: 1
+  },
+  light_rain: {
+    label: 'Light Rain',
+    behavior: 'rainy',
+    ambient: 'rainy',
+    gathering: 'rainy',
+    particles: [{ type: 'rain', intensity: 0.35 }],
+    footsteps: 'wet',
+    lightFactor: 0.85,
+    encounterRate: 0.9
+  },
+  rainy: {
+    label: 'Rain',
+    behavior: 'rainy',
+    ambient: 'rainy',
+    gathering: 'rainy',
+    particles: [{ type: 'rain', intensity: 0.7 }],
+    footsteps: 'wet',
+    lightFactor: 0.75,
+    encounterRate: 0.75
+  },
+  stormy: {
+    label: 'Storm',
+    behavior: 'stormy',
+    ambient: 'rainy',
+    gathering: 'stormy',
+    particles: [{ type: 'rain', intensity: 1 }, { type: 'wind', intensity: 0.6 }],
+    footsteps: 'wet',
+    lightFactor: 0.55,
+    encounterRate: 0.4
+  },
+  foggy: {
+    label: 'Fog',
+    behavior: 'foggy',
+    ambient: 'cloudy',
+    gathering: 'foggy',
+    particles: [{ type: 'fog', intensity: 0.6 }],
+    footsteps: 'wet',
+    lightFactor: 0.8,
+    encounterRate: 0.9
+  },
+  windy: {
+    label: 'Windy',
+    behavior: null,
+    ambient: 'windy',
+    gathering: 'windy',
+    particles: [{ type: 'wind', intensity: 0.5 }],
+    footsteps: 'dry',
+    lightFactor: 0.95,
+    encounterRate: 0.9
+  },
+  snowy: {
+    label: 'Snow',
+    behavior: 'snowy',
+    ambient: 'snowy',
+    gathering: 'snowy',
+    particles: [{ type: 'snow', intensity: 0.6 }],
+    footsteps: 'snow',
+    lightFactor: 0.9,
+    encounterRate: 0.6
+  },
+  none: {
+    label: 'Sheltered',
+    behavior: null,
+    ambient: 'clear',
+    gathering: 'clear',
+    particles: [],
+    footsteps: 'dry',
+    lightFactor: 1,
+    encounterRate: 1
+  }
+};
+
+// Relative odds of moving from one weather to the next each hour
+const TRANSITIONS: Record<WeatherState, Partial<Record<WeatherState, number>>> = {
+  sunny: { sunny: 10, cloudy: 2, windy: 1, foggy: 0.5 },
+  cloudy: { cloudy: 5, sunny: 3, light_rain: 1.5, rainy: 0.7, windy: 1, foggy: 1, snowy: 1 },
+  light_rain: { light_rain: 3, cloudy: 3, rainy: 1.5, foggy: 0.5 },
+  rainy: { rainy: 3, light_rain: 2, cloudy: 2, stormy: 0.7 },
+  stormy: { stormy: 2, rainy: 3, windy: 1 },
+  foggy: { foggy: 4, cloudy: 2, sunny: 1, light_rain: 0.5 },
+  windy: { windy: 3, cloudy: 2, sunny: 2, stormy: 0.5 },
+  snowy: { snowy: 4, cloudy: 2, foggy: 0.5 },
+  none: { none: 1 }
+};
+
+const SEASON_WEIGHTS: Record<Season, Partial<Record<WeatherState, number>>> = {
+  spring: { light_rain: 1.5, rainy: 1.3, snowy: 0.2 },
+  summer: { sunny: 1.6, stormy: 1.4, foggy: 0.5, snowy: 0 },
+  autumn: { windy: 1.6, foggy: 1.5, rainy: 1.2, snowy: 0.3 },
+  winter: { snowy: 2.5, sunny: 0.7, stormy: 0.5, light_rain: 0.7 }
+};
+
+// Weather that forms a front and can spread to neighbouring maps
+const FRONT_WEATHER: WeatherState[] = ['light_rain', 'rainy', 'stormy', 'foggy', 'windy', 'snowy'];
+
+// What a front turns into on a map whose table doesn't allow it; fronts
+// with no fallback there stop at the edge of the map
+const FRONT_FALLBACKS: Partial<Record<WeatherState, WeatherState[]>> = {
+  stormy: ['rainy', 'light_rain', 'windy'],
+  rainy: ['light_rain'],
+  light_rain: ['rainy'],
+  snowy: ['light_rain']
+};
+
+const MIN_HOURS_IN_STATE = 2;
+const DEFAULT_WEIGHT_BONUS = 1.5;
+const FRONT_DRIFT_CHANCE = 0.25;
+const FRONT_DURATION = { min: 2, max: 6 };
+
+export class WeatherSystem {
+  private tables: Map<string, MapWeatherTable> = new Map();
+  private states: Map<string, MapWeatherState> = new Map();
+  private fronts: Map<string, WeatherFront> = new Map();
+  private callbacks: Map<WeatherSystemEvent, WeatherCallback[]> = new Map();
+  private activeMapId: string | null = null;
+  private frontCounter: number = 0;
+
+  constructor() {
+    worldClock.on('hourChange', time => {
+      this.advanceHours(1, time.season);
+    });
+  }
+
+  /**
+   * Add a map's weather table and its transition links to the simulation
+   */
+  registerMap(mapData: MapData): void {
+    const mapId = mapData.metadata.id;
+    const weather = mapData.metadata.weather;
+    const states = Array.from(new Set([weather.default, ...weather.variations].filter(isWeatherState)));
+    const defaultWeather = isWeatherState(weather.default) ? weather.default : states[0] ?? 'sunny';
+
+    this.tables.set(mapId, {
+      default: defaultWeather,
+      states: states.length > 0 ? states : [defaultWeather],
+      neighbours: Array.from(new Set(mapData.transitions.map(transition => transition.toMapId).filter(id => id !== mapId)))
+    });
+
+    // Links are two-way even when only one map declares the transition
+    const neighbours = this.tables.get(mapId)!.neighbours;
+    this.tables.forEach((table, otherId) => {
+      if (otherId === mapId) return;
+      if (neighbours.includes(otherId) && !table.neighbours.includes(mapId)) {
+        table.neighbours.push(mapId);
+      }
+      if (table.neighbours.includes(mapId) && !neighbours.includes(otherId)) {
+        neighbours.push(otherId);
+      }
+    });
+
+    const existing = this.states.get(mapId);
+    if (!existing || (existing.weather !== defaultWeather && !this.isAllowed(mapId, existing.weather))) {
+      this.clearFront(mapId);
+      this.states.set(mapId, { mapId, weather: defaultWeather, hoursInState: 0 });
+    }
+  }
+
+  isMapRegistered(mapId: string): boolean {
+    return this.tables.has(mapId);
+  }
+
+  /**
+   * Map the player is on; used by renderers and audio that follow the current weather.
+   * Moving to a map with different weather reports a change for it.
+   */
+  setActiveMap(mapId: string): void {
+    const previous = this.getWeather();
+    this.activeMapId = mapId;
+
+    const weather = this.getWeather();
+    if (weather !== previous) {
+      this.emit('change', { mapId, weather, previous });
+    }
+  }
+
+  getActiveMapId(): string | null {
+    return this.activeMapId;
+  }
+
+  /**
+   * Subscribe to weather events. Returns a function that unsubscribes.
+   */
+  on(event: WeatherSystemEvent, callback: WeatherCallback): () => void {
+    if (!this.callbacks.has(event)) {
+      this.callbacks.set(event, []);
+    }
+    this.callbacks.get(event)!.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  off(event: WeatherSystemEvent, callback: WeatherCallback): void {
+    const callbacks = this.callbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  getWeather(mapId: string | null = this.activeMapId): WeatherState {
+    return (mapId && this.states.get(mapId)?.weather) || 'none';
+  }
+
+  getProfile(mapId: string | null = this.activeMapId): WeatherProfile {
+    return WEATHER_PROFILES[this.getWeather(mapId)];
+  }
+
+  getMapState(mapId: string): MapWeatherState | null {
+    const state = this.states.get(mapId);
+    return state ? { ...state } : null;
+  }
+
+  getFronts(): WeatherFront[] {
+    return Array.from(this.fronts.values()).map(front => ({ ...front }));
+  }
+
+  /**
+   * Force the weather on a map, e.g. for events or debugging. Starts a front
+   * for front-forming weather so it can spread like naturally occurring weather.
+   */
+  setWeather(mapId: string, weather: WeatherState): boolean {
+    if (!this.isAllowed(mapId, weather)) return false;
+
+    this.clearFront(mapId);
+    this.changeWeather(mapId, weather);
+    if (FRONT_WEATHER.includes(weather)) {
+      this.startFront(mapId, weather);
+    }
+    return true;
+  }
+
+  /**
+   * Step every registered map forward by game hours
+   */
+  advanceHours(hours: number = 1, season: Season = worldClock.getSeason()): void {
+    for (let i = 0; i < hours; i++) {
+      this.moveFronts();
+      this.states.forEach(state => {
+        state.hoursInState++;
+        if (!state.frontId && state.hoursInState >= MIN_HOURS_IN_STATE) {
+          this.stepMarkov(state, season);
+        }
+      });
+    }
+  }
+
+  /**
+   * Odds of meeting a species in the current weather, from its weather preference
+   */
+  getSpawnWeight(species: AnimalSpecies, mapId: string | null = this.activeMapId): number {
+    const behavior = this.getProfile(mapId).behavior;
+    const response = WEATHER_RESPONSES[species];
+    if (!behavior || !response) return 1;
+
+    const shelter = response.shelterBehavior[behavior];
+    const shelterFactor = shelter === 'hide' ? 0.2 : shelter === 'seek_shelter' ? 0.6 : 1;
+    return response.weatherPreferences[behavior] * shelterFactor;
+  }
+
+  getEncounterRateModifier(mapId: string | null = this.activeMapId): number {
+    return this.getProfile(mapId).encounterRate;
+  }
+
+  getFootstepSurface(mapId: string | null = this.activeMapId): FootstepSurface {
+    return this.getProfile(mapId).footsteps;
+  }
+
+  getSaveData(): WeatherSaveData {
+    return {
+      states: Array.from(this.states.values()).map(state => ({ ...state })),
+      fronts: this.getFronts(),
+      activeMapId: this.activeMapId,
+      frontCounter: this.frontCounter
+    };
+  }
+
+  loadSaveData(data: Partial<WeatherSaveData>): void {
+    this.states = new Map((data.states || []).map(state => [state.mapId, { ...state }]));
+    this.fronts = new Map((data.fronts || []).map(front => [front.id, { ...front }]));
+    this.activeMapId = data.activeMapId ?? this.activeMapId;
+    this.frontCounter = data.frontCounter ?? this.fronts.size;
+  }
+
+  private stepMarkov(state: MapWeatherState, season: Season): void {
+    const table = this.tables.get(state.mapId);
+    if (!table) return;
+
+    const row = TRANSITIONS[state.weather] ?? {};
+    const candidates = table.states
+      .map(weather => {
+        let weight = row[weather] ?? 0;
+        weight *= SEASON_WEIGHTS[season][weather] ?? 1;
+        if (weather === table.default) weight *= DEFAULT_WEIGHT_BONUS;
+        return { weather, weight };
+      })
+      .filter(candidate => candidate.weight > 0);
+
+    // Weather the table can't reach from here drifts back to the map's default
+    if (candidates.length === 0) {
+      this.changeWeather(state.mapId, table.default);
+      return;
+    }
+
+    const next = this.weightedPick(candidates);
+    if (next === state.weather) return;
+
+    this.changeWeather(state.mapId, next);
+    if (FRONT_WEATHER.includes(next)) {
+      this.startFront(state.mapId, next);
+    }
+  }
+
+  private moveFronts(): void {
+    Array.from(this.fronts.values()).forEach(front => {
+      front.hoursRemaining--;
+      if (front.hoursRemaining <= 0) {
+        this.clearFront(front.mapId);
+        return;
+      }
+
+      if (!rng('world').chance(FRONT_DRIFT_CHANCE)) return;
+
+      const table = this.tables.get(front.mapId);
+      const neighbours = (table?.neighbours ?? []).filter(id =>
+        this.tables.has(id) && this.resolveFrontWeather(id, front.weather) !== null
+      );
+      if (neighbours.length === 0) return;
+
+      // Fronts keep moving rather than bouncing straight back where they came from
+      const onward = neighbours.filter(id => id !== front.previousMapId);
+      this.moveFront(front, rng('world').pick(onward.length > 0 ? onward : neighbours));
+    });
+  }
+
+  private moveFront(front: WeatherFront, toMapId: string): void {
+    const fromMapId = front.mapId;
+    const weather = this.resolveFrontWeather(toMapId, front.weather)!;
+
+    // The map it leaves starts clearing up
+    const fromState = this.states.get(fromMapId);
+    if (fromState) {
+      fromState.frontId = undefined;
+      const clearing = this.isAllowed(fromMapId, 'cloudy') ? 'cloudy' : this.tables.get(fromMapId)!.default;
+      this.changeWeather(fromMapId, clearing);
+    }
+
+    // Merging into a front already on the next map keeps whichever lasts longer
+    const existing = this.getFrontOnMap(toMapId);
+    if (existing) {
+      existing.hoursRemaining = Math.max(existing.hoursRemaining, front.hoursRemaining);
+      this.fronts.delete(front.id);
+      return;
+    }
+
+    front.previousMapId = fromMapId;
+    front.mapId = toMapId;
+    front.weather = weather;
+
+    const toState = this.states.get(toMapId)!;
+    toState.frontId = front.id;
+    const previous = toState.weather;
+    this.changeWeather(toMapId, weather);
+    this.emit('frontMoved', { mapId: toMapId, weather, previous, front: { ...front } });
+  }
+
+  private startFront(mapId: string, weather: WeatherState): void {
+    const state = this.states.get(mapId);
+    if (!state || state.frontId) return;
+
+    const front: WeatherFront = {
+      id: `front_${++this.frontCounter}`,
+      weather,
+      mapId,
+      hoursRemaining: rng('world').int(FRONT_DURATION.min, FRONT_DURATION.max)
+    };
+    this.fronts.set(front.id, front);
+    state.frontId = front.id;
+  }
+
+  private clearFront(mapId: string): void {
+    const state = this.states.get(mapId);
+    if (!state?.frontId) return;
+
+    this.fronts.delete(state.frontId);
+    state.frontId = undefined;
+  }
+
+  private getFrontOnMap(mapId: string): WeatherFront | undefined {
+    const frontId = this.states.get(mapId)?.frontId;
+    return frontId ? this.fronts.get(frontId) : undefined;
+  }
+
+  private resolveFrontWeather(mapId: string, weather: WeatherState): WeatherState | null {
+    if (this.isAllowed(mapId, weather)) return weather;
+    return (FRONT_FALLBACKS[weather] ?? []).find(fallback => this.isAllowed(mapId, fallback)) ?? null;
+  }
+
+  private isAllowed(mapId: string, weather: WeatherState): boolean {
+    const table = this.tables.get(mapId);
+    return !!table && table.states.includes(weather) && weather !== 'none';
+  }
+
+  private changeWeather(mapId: string, weather: WeatherState): void {
+    const state = this.states.get(mapId);
+    if (!state || state.weather === weather) return;
+
+    const previous = state.weather;
+    state.weather = weather;
+    state.hoursInState = 0;
+    this.emit('change', { mapId, weather, previous });
+  }
+
+  private weightedPick(candidates: { weather: WeatherState; weight: number }[]): WeatherState {
+    const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+    let roll = rng('world').next() * total;
+    for (const candidate of candidates) {
+      roll -= candidate.weight;
+      if (roll <= 0) return candidate.weather;
+    }
+    return candidates[candidates.length - 1].weather;
+  }
+
+  private emit(event: WeatherSystemEvent, change: WeatherChange): void {
+    this.callbacks.get(event)?.forEach(callback => {
+      try {
+        callback(change);
+      } catch (error) {
+        console.warn(`Weather ${event} handler failed:`, error);
+      }
+    });
+
+    if (event === 'change') {
+      gameEvents.emit('weather.changed', { mapId: change.mapId, weather: change.weather, previous: change.previous });
+    }
+  }
+}
+
+function isWeatherState(value: string): value is WeatherState {
+  return value in WEATHER_PROFILES;
+}
+
+export const weatherSystem = new WeatherSystem();
+
+export default weatherSystem;
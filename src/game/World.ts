@@ -0,0 +1,712 @@
+// World Simulation
+// Headless game world: owns the map, the player's movement, wild animals, companions, AI, proximity and encounters, and advances on fixed steps
+
+import { Position } from '../types/game';
+import { GameMap, MapData } from './Map';
+import { Animal } from './Animal';
+import { Pathfinder, createPathfinder } from './Pathfinding';
+import { CollisionSystem, createCollisionSystem } from './Collision';
+import { ProximityEvent } from './ProximityDetection';
+import {
+  AnimalSimulation,
+  AnimalSimulationInput,
+  AnimalSimulationMode,
+  AnimalSimulationUpdate,
+  createAnimalSimulation,
+  syncAnimalBlockers
+} from './AnimalSimulation';
+import { GrassEncounterSystem, EncounterConfig, WILD_ENCOUNTER_CONFIG } from './GrassEncounterSystem';
+import {
+  EncounterAnimal,
+  EncounterAnimalManager,
+  EncounterController,
+  EncounterTamingMethod,
+  TamingResult,
+  TrickResult
+} from './EncounterAnimal';
+import HabitatSystem from './HabitatSystem';
+import { worldClock } from './WorldClock';
+import { weatherSystem, WEATHER_PROFILES } from './WeatherSystem';
+import { PartyJoinResult, partySystem } from './PartySystem';
+import {
+  BreedingCheck,
+  BreedingResult,
+  CareAction,
+  CareResult,
+  FamilyTreeNode,
+  JuvenileState,
+  LineageRecord,
+  breedingSystem
+} from './BreedingSystem';
+import { animalNeeds } from './AnimalNeeds';
+import { ecosystemSystem } from './EcosystemSystem';
+import { gameEvents } from './GameEvents';
+import { updateMigrationBehavior } from './AnimalBehaviorSystem';
+import { getTrickById } from '../data/tricks';
+import { MAP_REGISTRY } from '../data/maps';
+
+export type WorldDirection = 'up' | 'down' | 'left' | 'right';
+export type WorldEncounterOutcome = 'tamed' | 'fled' | 'left';
+
+export interface WorldConfig {
+  maps?: Record<string, MapData>;
+  encounterConfig?: EncounterConfig;
+  playerStepInterval?: number; // ms between steps along the player's path
+  clockInterval?: number; // ms of play between world clock updates
+  aiDeltaTime?: number; // fixed delta handed to the turn-based AI
+  simulationMode?: AnimalSimulationMode; // 'worker' runs the animal AI in the background; replays need 'main'
+  startTime?: number;
+}
+
+export type WorldMoveResult =
+  | { success: true; target: Position; path: Position[] }
+  | { success: false; reason: 'no_change' | 'out_of_bounds' | 'blocked' | 'unreachable'; terrain?: string };
+
+export interface WorldEvents {
+  tick: { deltaTime: number; time: number };
+  playerMoved: { position: Position; previous: Position; arrived: boolean };
+  mapChanged: { map: GameMap; mapId: string; position: Position };
+  animalUpdated: { animal: Animal };
+  animalTamed: { animal: Animal; joinedParty: boolean };
+  companionBorn: { animal: Animal; parents: [Animal, Animal]; joinedParty: boolean };
+  companionUpdated: { animal: Animal };
+  encounterStarted: { animal: EncounterAnimal };
+  encounterEnded: { animal: EncounterAnimal; outcome: WorldEncounterOutcome };
+  proximity: { event: ProximityEvent };
+}
+
+export type WorldEventName = keyof WorldEvents;
+
+export interface WorldFamily {
+  tree: FamilyTreeNode | null;
+  offspring: LineageRecord[];
+  juvenile: JuvenileState | null; // while the animal is still growing up
+}
+
+type WorldCallback<E extends WorldEventName> = (payload: WorldEvents[E]) => void;
+
+const DIRECTION_OFFSETS: Record<WorldDirection, Position> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 }
+};
+
+export class World implements EncounterController {
+  private config: Required<Omit<WorldConfig, 'maps' | 'startTime' | 'simulationMode'>>;
+  private maps: Record<string, MapData>;
+  private loadedMaps: Map<string, GameMap> = new Map();
+  private map: GameMap | null = null;
+  private pathfinder: Pathfinder | null = null;
+  // Wild animals the player and other animals path around; the map itself is left to the pathfinder
+  private collision: CollisionSystem = createCollisionSystem(undefined, { enableBoundaryCollision: false, enableTileCollision: false });
+  private simulation: AnimalSimulation;
+  private grassEncounter: GrassEncounterSystem | null = null;
+
+  private time: number;
+  private clockAccumulator: number = 0;
+  private stepAccumulator: number = 0;
+
+  private playerPosition: Position = { x: 0, y: 0 };
+  private movementTarget: Position | null = null;
+  private movementPath: Position[] = [];
+
+  private animals: Animal[] = [];
+  // Bumped whenever the world changes an animal itself, so simulation results worked out from an older copy can be told apart
+  private animalVersions: Map<string, number> = new Map();
+  private encounter: EncounterAnimal | null = null;
+  // The player's companions, whether following in the party or resting
+  private companions: Animal[] = [];
+
+  private callbacks: Map<WorldEventName, ((payload: never) => void)[]> = new Map();
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(config: WorldConfig = {}) {
+    this.config = {
+      encounterConfig: config.encounterConfig ?? WILD_ENCOUNTER_CONFIG,
+      playerStepInterval: config.playerStepInterval ?? 500,
+      clockInterval: config.clockInterval ?? 1000,
+      aiDeltaTime: config.aiDeltaTime ?? 500
+    };
+    this.maps = config.maps ?? MAP_REGISTRY;
+    this.time = config.startTime ?? Date.now();
+
+    Object.values(this.maps).forEach(mapData => weatherSystem.registerMap(mapData));
+
+    this.simulation = createAnimalSimulation({ mode: config.simulationMode ?? 'main' });
+    this.simulation.setCallbacks({
+      onUpdate: update => this.applySimulationUpdate(update)
+    });
+
+    this.subscribeToSystems();
+  }
+
+  /**
+   * Subscribe to a world event. Returns a function that unsubscribes.
+   */
+  on<E extends WorldEventName>(event: E, callback: WorldCallback<E>): () => void {
+    if (!this.callbacks.has(event)) {
+      this.callbacks.set(event, []);
+    }
+    this.callbacks.get(event)!.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  off<E extends WorldEventName>(event: E, callback: WorldCallback<E>): void {
+    const callbacks = this.callbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Place the player on a map with the animals already in the world
+   */
+  start(mapId: string, position: Position, animals: Animal[] = []): void {
+    this.animals = [...animals];
+    this.encounter = null;
+    this.enterMap(mapId, position);
+  }
+
+  /**
+   * Advance the world by one fixed step
+   */
+  tick(deltaTime: number): void {
+    this.time += deltaTime;
+
+    if (this.movementPath.length > 0) {
+      this.stepAccumulator += deltaTime;
+      if (this.stepAccumulator >= this.config.playerStepInterval) {
+        this.stepAccumulator -= this.config.playerStepInterval;
+        this.stepAlongPath();
+      }
+    } else {
+      this.stepAccumulator = 0;
+    }
+
+    this.clockAccumulator += deltaTime;
+    if (this.clockAccumulator >= this.config.clockInterval) {
+      worldClock.advance(this.clockAccumulator);
+      this.clockAccumulator = 0;
+    }
+
+    partySystem.update(this.time);
+    this.emit('tick', { deltaTime, time: this.time });
+  }
+
+  /**
+   * Head one tile further in a direction, continuing on from wherever the player is already going
+   */
+  moveInDirection(direction: WorldDirection): WorldMoveResult {
+    const from = this.movementTarget && this.movementPath.length > 0 ? this.movementTarget : this.playerPosition;
+    const offset = DIRECTION_OFFSETS[direction];
+    return this.moveTo({
+      x: Math.max(0, from.x + offset.x),
+      y: Math.max(0, from.y + offset.y)
+    });
+  }
+
+  /**
+   * Route the player to a tile around obstacles. They walk there over the following ticks.
+   */
+  moveTo(target: Position): WorldMoveResult {
+    if (!this.map || !this.pathfinder) {
+      return { success: false, reason: 'unreachable' };
+    }
+
+    const current = this.movementTarget && this.movementPath.length > 0 ? this.movementTarget : this.playerPosition;
+    if (target.x === current.x && target.y === current.y) {
+      return { success: false, reason: 'no_change' };
+    }
+
+    if (!this.map.isValidPosition(target.x, target.y)) {
+      return { success: false, reason: 'out_of_bounds' };
+    }
+
+    if (!this.map.isWalkable(target.x, target.y)) {
+      return { success: false, reason: 'blocked', terrain: this.map.getTile(target.x, target.y)?.terrainType };
+    }
+
+    syncAnimalBlockers(this.collision, this.animals, partySystem.getMembers());
+    const path = this.pathfinder.findPath(this.playerPosition, target, { entityId: 'player' });
+    if (path.length === 0) {
+      return { success: false, reason: 'unreachable' };
+    }
+
+    this.movementTarget = { ...target };
+    this.movementPath = [...path];
+    return { success: true, target: { ...target }, path };
+  }
+
+  /**
+   * Go through the map exit the player is standing on, if there is one
+   */
+  useTransition(): boolean {
+    if (!this.map) return false;
+
+    const transition = this.map
+      .getTransitionsAtPosition(this.playerPosition.x, this.playerPosition.y)
+      .find(entry => entry.toMapId in this.maps);
+    if (!transition) return false;
+
+    this.enterMap(transition.toMapId, transition.toPosition);
+    return true;
+  }
+
+  enterMap(mapId: string, position: Position): void {
+    const mapData = this.maps[mapId];
+    if (!mapData) {
+      throw new Error(`Map "${mapId}" is not registered with the world`);
+    }
+
+    let map = this.loadedMaps.get(mapId);
+    if (!map) {
+      map = new GameMap(mapData);
+      this.loadedMaps.set(mapId, map);
+    }
+
+    this.map = map;
+    this.playerPosition = { ...position };
+    this.movementTarget = null;
+    this.movementPath = [];
+
+    if (this.pathfinder) {
+      this.pathfinder.setMap(map);
+    } else {
+      this.pathfinder = createPathfinder(map, { collision: this.collision });
+    }
+    this.grassEncounter = new GrassEncounterSystem(map, HabitatSystem, this.config.encounterConfig);
+    this.simulation.setMap(map, mapData, this.pathfinder, this.collision);
+
+    map.setTimeOfDay(worldClock.getLightPhase());
+    map.setWeather(weatherSystem.getWeather(mapId));
+    partySystem.setMap(map, this.playerPosition, this.time);
+    animalNeeds.registerMapZones(map);
+    ecosystemSystem.registerMap(map);
+
+    gameEvents.emit('map.entered', { mapId });
+    this.emit('mapChanged', { map, mapId, position: { ...this.playerPosition } });
+  }
+
+  getMap(): GameMap | null {
+    return this.map;
+  }
+
+  getPathfinder(): Pathfinder | null {
+    return this.pathfinder;
+  }
+
+  getPlayerPosition(): Position {
+    return { ...this.playerPosition };
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  getAnimals(): Animal[] {
+    return [...this.animals];
+  }
+
+  /**
+   * Where to draw a wild animal right now, gliding between AI turns
+   */
+  getAnimalRenderPosition(animal: Animal, now?: number): Position {
+    return this.simulation.getRenderPosition(animal, now);
+  }
+
+  getSimulationMode(): AnimalSimulationMode {
+    return this.simulation.getMode();
+  }
+
+  /**
+   * Move the animal simulation into a background worker or back onto the main thread
+   */
+  setSimulationMode(mode: AnimalSimulationMode): void {
+    this.simulation.setMode(mode);
+  }
+
+  /**
+   * Take over an animal list kept elsewhere, such as a loaded save or the game store
+   */
+  setAnimals(animals: Animal[]): void {
+    const kept = new Set(animals.map(animal => animal.id));
+    this.animals
+      .filter(animal => !kept.has(animal.id))
+      .forEach(animal => {
+        animalNeeds.removeAnimal(animal.id);
+        this.animalVersions.delete(animal.id);
+      });
+
+    this.animals = [...animals];
+  }
+
+  addAnimal(animal: Animal): void {
+    this.animals.push(animal);
+  }
+
+  /**
+   * Replace an animal's state, e.g. after a companion ability changed it
+   */
+  updateAnimal(animal: Animal): void {
+    const index = this.animals.findIndex(candidate => candidate.id === animal.id);
+    if (index === -1) return;
+
+    this.animals[index] = animal;
+    this.bumpVersion(animal.id);
+    this.emit('animalUpdated', { animal });
+  }
+
+  removeAnimal(animalId: string): void {
+    this.animals = this.animals.filter(animal => animal.id !== animalId);
+    animalNeeds.removeAnimal(animalId);
+    this.animalVersions.delete(animalId);
+  }
+
+  getEncounter(): EncounterAnimal | null {
+    return this.encounter;
+  }
+
+  performTrick(trickId: string): { animal: EncounterAnimal; result: TrickResult } | null {
+    const trick = getTrickById(trickId);
+    if (!this.encounter || !trick) return null;
+
+    const outcome = EncounterAnimalManager.performTrick(this.encounter, trick);
+    this.encounter = outcome.animal;
+    this.checkForFlee();
+    return outcome;
+  }
+
+  applyTamingMethod(method: EncounterTamingMethod): { animal: EncounterAnimal; result: TamingResult } | null {
+    if (!this.encounter) return null;
+
+    const outcome = EncounterAnimalManager.applyTamingMethod(this.encounter, method);
+    this.encounter = outcome.animal;
+    this.checkForFlee();
+    return outcome;
+  }
+
+  /**
+   * Welcome the encounter animal as a companion once it trusts the player enough
+   */
+  tameEncounter(): Animal | null {
+    if (!this.encounter || !EncounterAnimalManager.canAnimalBeTamed(this.encounter)) {
+      return null;
+    }
+
+    const animal = EncounterAnimalManager.toTamedAnimal(this.encounter);
+    ecosystemSystem.recordRemoval(animal.species, animal.position);
+    this.animals.push(animal);
+    this.companions.push(animal);
+
+    // New companions join the party straight away if there's room
+    const joinedParty = partySystem.addMember(animal).success;
+    gameEvents.emit('animal.tamed', { animalId: animal.id, species: animal.species, joinedParty });
+
+    this.emit('animalTamed', { animal, joinedParty });
+    this.endEncounter('tamed');
+    return animal;
+  }
+
+  /**
+   * The player backs away from the current encounter
+   */
+  leaveEncounter(): void {
+    if (this.encounter) {
+      this.endEncounter('left');
+    }
+  }
+
+  /**
+   * Take over the player's companions, such as the game store's list or a loaded save's
+   */
+  setCompanions(companions: Animal[]): void {
+    this.companions = [...companions];
+    partySystem.setRoster(this.companions);
+  }
+
+  getCompanions(): Animal[] {
+    return [...this.companions];
+  }
+
+  /**
+   * Send a party member off to rest, or ask a resting companion to follow.
+   * Returns the attempt to join, or null if the companion left or isn't the player's.
+   */
+  toggleParty(companionId: string): PartyJoinResult | null {
+    if (partySystem.isMember(companionId)) {
+      partySystem.removeMember(companionId);
+      return null;
+    }
+
+    const companion = this.getCompanion(companionId);
+    return companion ? partySystem.addMember(companion) : null;
+  }
+
+  /**
+   * Whether two companions could raise a family at a nest near the player
+   */
+  canBreed(parentAId: string, parentBId: string): BreedingCheck {
+    const parents = this.getParents(parentAId, parentBId);
+    if (!parents) {
+      return { canBreed: false, reason: 'Choose two of your companions' };
+    }
+
+    return breedingSystem.canBreed(parents[0], parents[1], this.map, this.playerPosition, this.time);
+  }
+
+  /**
+   * Raise a family at a nest near the player; the newborn tags along in the party when there's room
+   */
+  breed(parentAId: string, parentBId: string): BreedingResult {
+    const parents = this.getParents(parentAId, parentBId);
+    if (!parents) {
+      return { success: false, message: 'Choose two of your companions' };
+    }
+
+    // Juveniles grow on world time, so they're born and cared for on it too
+    const result = breedingSystem.breed(parents[0], parents[1], this.map, this.playerPosition, this.time);
+    if (result.success && result.offspring) {
+      this.companions.push(result.offspring);
+      const joinedParty = partySystem.addMember(result.offspring).success;
+      this.emit('companionBorn', { animal: result.offspring, parents, joinedParty });
+    }
+    return result;
+  }
+
+  /**
+   * A companion's family tree and young. Companions without a recorded family start one.
+   */
+  getFamily(animalId: string): WorldFamily {
+    const companion = this.getCompanion(animalId);
+    if (companion) {
+      breedingSystem.registerFounder(companion);
+    }
+
+    return {
+      tree: breedingSystem.getFamilyTree(animalId),
+      offspring: breedingSystem.getChildren(animalId),
+      juvenile: breedingSystem.getJuvenile(animalId)
+    };
+  }
+
+  careForJuvenile(animalId: string, action: CareAction): CareResult {
+    const companion = this.getCompanion(animalId);
+    if (!companion) {
+      return { success: false, message: 'Choose one of your companions', growth: 0 };
+    }
+
+    const result = breedingSystem.care(companion, action, this.time);
+    if (result.updates) {
+      this.updateCompanion(animalId, result.updates);
+    }
+    return result;
+  }
+
+  /**
+   * Stop following the game systems. The world can't be used afterwards.
+   */
+  destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.callbacks.clear();
+    this.simulation.destroy();
+  }
+
+  private stepAlongPath(): void {
+    const next = this.movementPath.shift();
+    if (!next) return;
+
+    const previous = this.playerPosition;
+    this.playerPosition = { ...next };
+    if (this.movementPath.length === 0) {
+      this.movementTarget = null;
+    }
+
+    if (next.x !== previous.x || next.y !== previous.y) {
+      partySystem.onPlayerMove(this.playerPosition, previous, this.time);
+      this.checkForEncounter(previous);
+      this.runAITurn();
+    }
+
+    this.emit('playerMoved', {
+      position: { ...this.playerPosition },
+      previous,
+      arrived: this.movementPath.length === 0
+    });
+  }
+
+  private checkForEncounter(previous: Position): void {
+    // No new encounters while one is open
+    if (this.encounter || !this.grassEncounter) return;
+
+    const animal = this.grassEncounter.checkForEncounter(this.playerPosition, previous, this.time);
+    if (!animal) return;
+
+    this.encounter = EncounterAnimalManager.createEncounterAnimal(animal, animal.position);
+    gameEvents.emit('animal.encountered', { animalId: this.encounter.id, species: this.encounter.species });
+    this.emit('encounterStarted', { animal: this.encounter });
+    this.checkForFlee();
+  }
+
+  /**
+   * Turn-based animal AI, run each time the player takes a step
+   */
+  private runAITurn(): void {
+    this.simulation.step(this.getSimulationInput());
+  }
+
+  private getSimulationInput(): AnimalSimulationInput {
+    return {
+      animals: this.animals,
+      partyIds: partySystem.getMembers(),
+      playerPosition: this.playerPosition,
+      time: this.time,
+      deltaTime: this.config.aiDeltaTime,
+      versions: Object.fromEntries(this.animals.map(animal => [animal.id, this.animalVersions.get(animal.id) ?? 0]))
+    };
+  }
+
+  private getCompanion(animalId: string): Animal | undefined {
+    return this.companions.find(companion => companion.id === animalId);
+  }
+
+  private getParents(parentAId: string, parentBId: string): [Animal, Animal] | null {
+    const parentA = this.getCompanion(parentAId);
+    const parentB = this.getCompanion(parentBId);
+    return parentA && parentB ? [parentA, parentB] : null;
+  }
+
+  /**
+   * Companions are replaced rather than changed in place, since views may hold on to the old copy
+   */
+  private updateCompanion(animalId: string, updates: Partial<Animal>): void {
+    const index = this.companions.findIndex(companion => companion.id === animalId);
+    if (index === -1) return;
+
+    const animal = { ...this.companions[index], ...updates };
+    this.companions[index] = animal;
+    this.emit('companionUpdated', { animal });
+  }
+
+  private bumpVersion(animalId: string): void {
+    this.animalVersions.set(animalId, (this.animalVersions.get(animalId) ?? 0) + 1);
+  }
+
+  /**
+   * Bring in what the animal simulation changed. Worker results are copies, so
+   * they're matched to the world's animals by id; ones that have left since are skipped,
+   * as are changes to an animal the world has changed itself since the step went out.
+   * The next turn simulates from the world's copy instead.
+   */
+  private applySimulationUpdate(update: AnimalSimulationUpdate): void {
+    update.changes.forEach(({ animalId, changes, notify, version }) => {
+      const animal = this.animals.find(candidate => candidate.id === animalId);
+      if (!animal || version !== (this.animalVersions.get(animalId) ?? 0)) return;
+
+      Object.assign(animal, changes);
+      if (notify) {
+        this.emit('animalUpdated', { animal });
+      }
+    });
+
+    update.proximity.forEach(event => {
+      const animal = this.animals.find(candidate => candidate.id === event.animal.id);
+      if (animal) {
+        this.emit('proximity', { event: { ...event, animal } });
+      }
+    });
+  }
+
+  private checkForFlee(): void {
+    if (this.encounter && EncounterAnimalManager.shouldAnimalFlee(this.encounter)) {
+      this.endEncounter('fled');
+    }
+  }
+
+  private endEncounter(outcome: WorldEncounterOutcome): void {
+    const animal = this.encounter;
+    this.encounter = null;
+    if (animal) {
+      // A tamed animal stays on as a companion; any other encounter animal is gone
+      if (outcome !== 'tamed') {
+        animalNeeds.removeAnimal(animal.id);
+      }
+      this.emit('encounterEnded', { animal, outcome });
+    }
+  }
+
+  /**
+   * Keep the map, the animals on it and the time-driven systems in step with the clock and weather
+   */
+  private subscribeToSystems(): void {
+    this.unsubscribers.push(
+      worldClock.on('tick', () => {
+        breedingSystem.update(this.time);
+
+        // Habitat zones tell hungry animals where to forage; party companions tend to their needs on the move
+        if (this.map) {
+          const map = this.map;
+          partySystem.getFollowers().forEach(follower => {
+            animalNeeds.updateCompanion(follower.animal, follower.tile, this.time, map);
+          });
+        }
+        animalNeeds.updateZones(this.animals, this.time);
+      }),
+
+      // Young companions grow into their adult size
+      breedingSystem.on('stageChange', juvenile => {
+        const companion = this.getCompanion(juvenile.animalId);
+        if (companion) {
+          this.updateCompanion(companion.id, { visual: { ...companion.visual, size: breedingSystem.getStageSize(juvenile) } });
+        }
+      }),
+
+      // Populations across the map's habitat zones rise and fall every game hour
+      worldClock.on('hourChange', time => ecosystemSystem.step(time.season, time.day, time.hour)),
+
+      worldClock.on('phaseChange', time => {
+        this.map?.setTimeOfDay(time.lightPhase);
+        this.simulation.applyBehavior({ type: 'circadian', lightPhase: time.lightPhase }, this.getSimulationInput());
+      }),
+
+      worldClock.on('seasonChange', time => {
+        updateMigrationBehavior(this.animals, time.season);
+        this.animals.forEach(animal => {
+          this.bumpVersion(animal.id);
+          this.emit('animalUpdated', { animal });
+        });
+      }),
+
+      // Sheltering animals follow the weather on the current map
+      weatherSystem.on('change', change => {
+        if (!this.map || change.mapId !== this.map.getMetadata().id) return;
+
+        this.map.setWeather(change.weather);
+        const behavior = WEATHER_PROFILES[change.weather].behavior;
+        if (behavior) {
+          this.simulation.applyBehavior({ type: 'weather', weather: behavior }, this.getSimulationInput());
+        }
+      })
+    );
+  }
+
+  private emit<E extends WorldEventName>(event: E, payload: WorldEvents[E]): void {
+    this.callbacks.get(event)?.forEach(callback => {
+      try {
+        (callback as WorldCallback<E>)(payload);
+      } catch (error) {
+        console.warn(`World ${event} handler failed:`, error);
+      }
+    });
+  }
+}
+
+export function createWorld(config: WorldConfig = {}): World {
+  return new World(config);
+}
+
+export default World;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { WorldTime, createWorldClock } from './WorldClock';
+
+/**
+ * A clock that records the hour of every hourChange it emits
+ */
+function createRecordingClock() {
+  const clock = createWorldClock();
+  const hours: number[] = [];
+  clock.on('hourChange', (time: WorldTime) => hours.push(time.hour));
+  return { clock, hours };
+}
+
+describe('WorldClock hourChange', () => {
+  it('fires once for every hour a jump crosses', () => {
+    const { clock, hours } = createRecordingClock();
+    clock.setTime(1, 13, 30);
+    hours.length = 0;
+
+    clock.advanceMinutes(160);
+
+    expect(hours).toEqual([14, 15, 16]);
+    expect(clock.getTime()).toMatchObject({ hour: 16, minute: 10 });
+  });
+
+  it('catches up across midnight when a save is loaded', () => {
+    const { clock, hours } = createRecordingClock();
+    clock.setTime(1, 22);
+    hours.length = 0;
+
+    clock.loadSaveData({ timeElapsed: 13 * 60 });
+
+    expect(hours).toEqual([23, 0, 1, 2]);
+  });
+
+  it('fires once when time is set back', () => {
+    const { clock, hours } = createRecordingClock();
+    clock.setTime(2, 9);
+    hours.length = 0;
+
+    clock.setTime(1, 6);
+
+    expect(hours).toEqual([6]);
+  });
+});
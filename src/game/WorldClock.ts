@@ -0,0 +1,341 @@
+// World Clock System
+// Central game time: day/night phases, a calendar with seasons, and events when they change
+
+import { Season } from '../types/game';
+
+export type DayPhase = 'dawn' | 'morning' | 'afternoon' | 'dusk' | 'night';
+
+// Coarser views of the phase used by older systems
+export type LightPhase = 'dawn' | 'day' | 'dusk' | 'night';
+export type DayPeriod = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export type WorldClockEvent = 'tick' | 'hourChange' | 'phaseChange' | 'dayChange' | 'seasonChange';
+
+export interface WorldTime {
+  totalMinutes: number; // game minutes since the start of day 1
+  day: number; // 1-based day count
+  dayOfSeason: number; // 1-based
+  year: number; // 1-based
+  hour: number;
+  minute: number;
+  dayFraction: number; // 0-1, 0 = midnight, 0.5 = noon
+  phase: DayPhase;
+  lightPhase: LightPhase;
+  period: DayPeriod;
+  season: Season;
+}
+
+export interface PhaseLighting {
+  ambientLight: number; // 0-1
+  tint: string; // hex colour washed over the scene
+  tintStrength: number; // 0-1
+  sunAngle: number; // degrees, drives shadow direction
+  shadowOpacity: number;
+}
+
+export interface WorldClockConfig {
+  dayLengthMs?: number; // real milliseconds per game day
+  daysPerSeason?: number;
+  tickIntervalMs?: number;
+}
+
+// Matches world.dayNightCycle in the comprehensive save
+export interface DayNightCycleData {
+  currentPhase: string;
+  timeElapsed: number; // game minutes since the start of day 1
+  dayLength?: number;
+}
+
+type WorldClockCallback = (time: WorldTime, previous: WorldTime) => void;
+
+const MINUTES_PER_DAY = 24 * 60;
+const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+// New games begin in the early afternoon of the first day of spring
+const START_MINUTE = 13 * 60;
+
+// Hour each phase begins
+const PHASE_STARTS: { hour: number; phase: DayPhase }[] = [
+  { hour: 5, phase: 'dawn' },
+  { hour: 7, phase: 'morning' },
+  { hour: 12, phase: 'afternoon' },
+  { hour: 18, phase: 'dusk' },
+  { hour: 21, phase: 'night' }
+];
+
+const LIGHT_PHASES: Record<DayPhase, LightPhase> = {
+  dawn: 'dawn',
+  morning: 'day',
+  afternoon: 'day',
+  dusk: 'dusk',
+  night: 'night'
+};
+
+const DAY_PERIODS: Record<DayPhase, DayPeriod> = {
+  dawn: 'morning',
+  morning: 'morning',
+  afternoon: 'afternoon',
+  dusk: 'evening',
+  night: 'night'
+};
+
+// Lighting keyframes by hour; values in between are blended
+const LIGHTING_KEYFRAMES: { hour: number; lighting: PhaseLighting }[] = [
+  { hour: 0, lighting: { ambientLight: 0.3, tint: '#1a2a5a', tintStrength: 0.45, sunAngle: 90, shadowOpacity: 0.05 } },
+  { hour: 5, lighting: { ambientLight: 0.35, tint: '#2a3a6a', tintStrength: 0.4, sunAngle: 90, shadowOpacity: 0.05 } },
+  { hour: 6.5, lighting: { ambientLight: 0.65, tint: '#ff9e6b', tintStrength: 0.25, sunAngle: 160, shadowOpacity: 0.15 } },
+  { hour: 9, lighting: { ambientLight: 0.9, tint: '#fff3cd', tintStrength: 0.05, sunAngle: 135, shadowOpacity: 0.3 } },
+  { hour: 13, lighting: { ambientLight: 1, tint: '#ffffff', tintStrength: 0, sunAngle: 90, shadowOpacity: 0.35 } },
+  { hour: 17, lighting: { ambientLight: 0.9, tint: '#fff3cd', tintStrength: 0.08, sunAngle: 45, shadowOpacity: 0.3 } },
+  { hour: 19.5, lighting: { ambientLight: 0.6, tint: '#ff7e4f', tintStrength: 0.3, sunAngle: 20, shadowOpacity: 0.15 } },
+  { hour: 21.5, lighting: { ambientLight: 0.35, tint: '#2a3a6a', tintStrength: 0.4, sunAngle: 90, shadowOpacity: 0.05 } },
+  { hour: 24, lighting: { ambientLight: 0.3, tint: '#1a2a5a', tintStrength: 0.45, sunAngle: 90, shadowOpacity: 0.05 } }
+];
+
+export class WorldClock {
+  private config: Required<WorldClockConfig>;
+  private totalMinutes: number = START_MINUTE;
+  private callbacks: Map<WorldClockEvent, WorldClockCallback[]> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick: number = 0;
+
+  constructor(config: WorldClockConfig = {}) {
+    this.config = {
+      dayLengthMs: config.dayLengthMs ?? 20 * 60 * 1000,
+      daysPerSeason: config.daysPerSeason ?? 7,
+      tickIntervalMs: config.tickIntervalMs ?? 1000
+    };
+  }
+
+  /**
+   * Subscribe to a clock event. Returns a function that unsubscribes.
+   */
+  on(event: WorldClockEvent, callback: WorldClockCallback): () => void {
+    if (!this.callbacks.has(event)) {
+      this.callbacks.set(event, []);
+    }
+    this.callbacks.get(event)!.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  off(event: WorldClockEvent, callback: WorldClockCallback): void {
+    const callbacks = this.callbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Start advancing in real time
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => {
+      const now = Date.now();
+      this.advance(now - this.lastTick);
+      this.lastTick = now;
+    }, this.config.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Advance by an amount of real time
+   */
+  advance(realMs: number): void {
+    if (realMs <= 0) return;
+    this.advanceMinutes((realMs / this.config.dayLengthMs) * MINUTES_PER_DAY);
+  }
+
+  /**
+   * Advance by game minutes, e.g. when sleeping or waiting
+   */
+  advanceMinutes(minutes: number): void {
+    if (minutes <= 0) return;
+    this.setTotalMinutes(this.totalMinutes + minutes);
+  }
+
+  /**
+   * Jump to a given day and time
+   */
+  setTime(day: number, hour: number, minute: number = 0): void {
+    this.setTotalMinutes((Math.max(1, day) - 1) * MINUTES_PER_DAY + hour * 60 + minute);
+  }
+
+  getTime(): WorldTime {
+    return this.describe(this.totalMinutes);
+  }
+
+  getPhase(): DayPhase {
+    return this.getTime().phase;
+  }
+
+  getLightPhase(): LightPhase {
+    return this.getTime().lightPhase;
+  }
+
+  getPeriod(): DayPeriod {
+    return this.getTime().period;
+  }
+
+  getSeason(): Season {
+    return this.getTime().season;
+  }
+
+  getDayFraction(): number {
+    return this.getTime().dayFraction;
+  }
+
+  /**
+   * Scene lighting for the current time, blended between keyframes
+   */
+  getLighting(): PhaseLighting {
+    const hour = this.getDayFraction() * 24;
+    const nextIndex = LIGHTING_KEYFRAMES.findIndex(keyframe => keyframe.hour > hour);
+    const next = LIGHTING_KEYFRAMES[Math.max(1, nextIndex)];
+    const previous = LIGHTING_KEYFRAMES[Math.max(1, nextIndex) - 1];
+    const t = (hour - previous.hour) / (next.hour - previous.hour);
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+
+    return {
+      ambientLight: lerp(previous.lighting.ambientLight, next.lighting.ambientLight),
+      tint: this.mixColors(previous.lighting.tint, next.lighting.tint, t),
+      tintStrength: lerp(previous.lighting.tintStrength, next.lighting.tintStrength),
+      sunAngle: lerp(previous.lighting.sunAngle, next.lighting.sunAngle),
+      shadowOpacity: lerp(previous.lighting.shadowOpacity, next.lighting.shadowOpacity)
+    };
+  }
+
+  getDayLength(): number {
+    return this.config.dayLengthMs;
+  }
+
+  setDayLength(dayLengthMs: number): void {
+    this.config.dayLengthMs = Math.max(1000, dayLengthMs);
+  }
+
+  getSaveData(): DayNightCycleData {
+    return {
+      currentPhase: this.getPhase(),
+      timeElapsed: this.totalMinutes - START_MINUTE,
+      dayLength: this.config.dayLengthMs
+    };
+  }
+
+  loadSaveData(data: Partial<DayNightCycleData> | undefined): void {
+    if (!data) return;
+
+    if (typeof data.dayLength === 'number' && data.dayLength > 0) {
+      this.setDayLength(data.dayLength);
+    }
+    if (typeof data.timeElapsed === 'number' && Number.isFinite(data.timeElapsed)) {
+      this.setTotalMinutes(START_MINUTE + Math.max(0, data.timeElapsed));
+    }
+  }
+
+  private setTotalMinutes(totalMinutes: number): void {
+    const previous = this.getTime();
+    this.totalMinutes = totalMinutes;
+    const current = this.getTime();
+
+    this.emit('tick', current, previous);
+    this.emitHourChanges(current, previous);
+    if (current.phase !== previous.phase) {
+      this.emit('phaseChange', current, previous);
+    }
+    if (current.day !== previous.day) {
+      this.emit('dayChange', current, previous);
+    }
+    if (current.season !== previous.season) {
+      this.emit('seasonChange', current, previous);
+    }
+  }
+
+  /**
+   * Emit hourChange once for every hour boundary crossed, so a jump of several
+   * hours lets hourly listeners catch up. Going back in time emits it once.
+   */
+  private emitHourChanges(current: WorldTime, previous: WorldTime): void {
+    if (current.hour === previous.hour && current.day === previous.day) return;
+
+    if (current.totalMinutes < previous.totalMinutes) {
+      this.emit('hourChange', current, previous);
+      return;
+    }
+
+    // Every boundary but the last is reported at the top of its hour; the last one at the current time
+    const lastHourStart = Math.floor(current.totalMinutes / 60) * 60;
+    let last = previous;
+    for (let hourStart = (Math.floor(previous.totalMinutes / 60) + 1) * 60; hourStart < lastHourStart; hourStart += 60) {
+      const crossed = this.describe(hourStart);
+      this.emit('hourChange', crossed, last);
+      last = crossed;
+    }
+    this.emit('hourChange', current, last);
+  }
+
+  private describe(totalMinutes: number): WorldTime {
+    const dayIndex = Math.floor(totalMinutes / MINUTES_PER_DAY);
+    const minuteOfDay = totalMinutes - dayIndex * MINUTES_PER_DAY;
+    const hour = Math.floor(minuteOfDay / 60);
+    const seasonIndex = Math.floor(dayIndex / this.config.daysPerSeason);
+
+    let phase: DayPhase = 'night';
+    PHASE_STARTS.forEach(start => {
+      if (hour >= start.hour) phase = start.phase;
+    });
+
+    return {
+      totalMinutes,
+      day: dayIndex + 1,
+      dayOfSeason: (dayIndex % this.config.daysPerSeason) + 1,
+      year: Math.floor(seasonIndex / SEASONS.length) + 1,
+      hour,
+      minute: Math.floor(minuteOfDay % 60),
+      dayFraction: minuteOfDay / MINUTES_PER_DAY,
+      phase,
+      lightPhase: LIGHT_PHASES[phase],
+      period: DAY_PERIODS[phase],
+      season: SEASONS[seasonIndex % SEASONS.length]
+    };
+  }
+
+  private emit(event: WorldClockEvent, time: WorldTime, previous: WorldTime): void {
+    this.callbacks.get(event)?.forEach(callback => {
+      try {
+        callback(time, previous);
+      } catch (error) {
+        console.warn(`World clock ${event} handler failed:`, error);
+      }
+    });
+  }
+
+  private mixColors(from: string, to: string, t: number): string {
+    const parse = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+    const a = parse(from);
+    const b = parse(to);
+    return '#' + a.map((channel, i) => Math.round(channel + (b[i] - channel) * t).toString(16).padStart(2, '0')).join('');
+  }
+}
+
+export function createWorldClock(config: WorldClockConfig = {}): WorldClock {
+  return new WorldClock(config);
+}
+
+export const worldClock = new WorldClock();
+
+export default worldClock;
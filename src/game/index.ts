@@ -5,8 +5,38 @@ export type { GameLoopConfig, GameLoopCallbacks, PerformanceMetrics } from './Ga
 export { Player, createPlayer } from './Player';
 export type { PlayerConfig, PlayerSprite, PlayerMovement, PlayerState } from './Player';
 
-export { InputManager, createInputManager } from './InputManager';
-export type { InputAction, InputEvent, InputState, TouchState, InputConfig } from './InputManager';
+export { InputManager, createInputManager, BINDABLE_ACTIONS, INPUT_ACTION_LABELS, DEFAULT_INPUT_BINDINGS, loadInputBindings, saveInputBindings, getKeyLabel, getGamepadButtonLabel, getBrowserGamepads } from './InputManager';
+export type { InputAction, InputEvent, InputState, TouchState, InputConfig, InputBindings, GamepadLike, GamepadButtonLike, GamepadSource, GamepadConnectionEvent } from './InputManager';
+export { WorldClock, worldClock, createWorldClock } from './WorldClock';
+export type { DayPhase, LightPhase, DayPeriod, WorldClockEvent, WorldTime, PhaseLighting, WorldClockConfig, DayNightCycleData } from './WorldClock';
+export { WeatherSystem, weatherSystem, WEATHER_PROFILES } from './WeatherSystem';
+export type { WeatherState, WeatherProfile, WeatherFront, WeatherChange, MapWeatherState, FootstepSurface, WeatherParticleType, WeatherSystemEvent, WeatherSaveData } from './WeatherSystem';
+export { PartySystem, partySystem, createPartySystem } from './PartySystem';
+export type { PartyConfig, PartyFollower, PartyRenderState, PartyJoinResult, PartySystemEvent, PartySaveData } from './PartySystem';
+export { CompanionAbilitySystem, companionAbilitySystem, createCompanionAbilitySystem } from './CompanionAbilitySystem';
+export type { AbilityContext, AbilityActivation, AbilityOption, ActiveAbilityBuff, CompanionAbilitySaveData } from './CompanionAbilitySystem';
+export { BreedingSystem, breedingSystem, createBreedingSystem } from './BreedingSystem';
+export type { GrowthStage, CareAction, BreedingSystemEvent, LineageRecord, JuvenileState, FamilyTreeNode, BreedingCheck, BreedingResult, CareResult, BreedingConfig, BreedingSaveData } from './BreedingSystem';
+export { AnimalNeedsSystem, animalNeeds, createAnimalNeedsSystem, NEED_TYPES, NEED_LABELS } from './AnimalNeeds';
+export type { NeedType, CompanionCare, AnimalNeeds, NeedGoal, NeedGoalResult, NeedsConfig, NeedsSaveData } from './AnimalNeeds';
+export { EcosystemSystem, ecosystemSystem, createEcosystemSystem, FOOD_WEB } from './EcosystemSystem';
+export type { EcosystemSpecies, ZonePopulation, PopulationSample, SpawnerOutput, EcosystemConfig, EcosystemSaveData } from './EcosystemSystem';
+export { QuestSystem, questSystem, createQuestSystem, QUEST_EVENTS, subscribeQuestEvents } from './QuestSystem';
+export type { QuestCategory, QuestObjectiveType, QuestStatus, QuestObjective, QuestReward, QuestBranch, QuestPrerequisites, QuestDefinition, QuestProgress, QuestEvent, QuestRewardResult, QuestUpdate, QuestJournalEntry, QuestSaveData } from './QuestSystem';
+export { validateQuestFile, loadQuestFiles } from './QuestLoader';
+export type { QuestFile, QuestValidationIssue, QuestLoadResult } from './QuestLoader';
+export { GameEventBus, gameEvents, createGameEventBus, resolveGameEvent } from './GameEvents';
+export type { GameEventMap, GameEventType, GameEventNamespace, GameEventPattern, GameEventsMatching, GameEvent, GameEventListener, GameEventTable, GameEventBusConfig } from './GameEvents';
+export { GameStatistics, gameStatistics, createGameStatistics, STATISTIC_EVENTS } from './GameStatistics';
+export type { StatisticsSaveData } from './GameStatistics';
+export { AnimalSimulation, createAnimalSimulation, runAnimalTurn, runSimulationSnapshot, applyBehaviorChange, loadSimulationMode } from './AnimalSimulation';
+export type { AnimalSimulationMode, AnimalSimulationConfig, AnimalSimulationInput, AnimalSimulationSnapshot, AnimalSimulationResult, AnimalSimulationUpdate, AnimalChange, AnimalBehaviorChange } from './AnimalSimulation';
+export { World, createWorld } from './World';
+export type { WorldConfig, WorldDirection, WorldEvents, WorldEventName, WorldMoveResult, WorldEncounterOutcome, WorldFamily } from './World';
+export { ReplaySimulation, createReplaySimulation, checkReplay, findReplayFailures } from './ReplaySimulation';
+export type { ReplaySnapshot, ReplayExpectations, ReplayCheckResult, ReplayEncounterOutcome } from './ReplaySimulation';
+export { GestureRecognizer, gestureRecognizer } from './GestureRecognizer';
+export type { PointerSample, GestureStroke, RecognizedGesture, GestureScore, GestureRecognizerConfig } from './GestureRecognizer';
 
 export { Renderer, createRenderer } from './Renderer';
 export type { RendererConfig, Camera, Layer } from './Renderer';
@@ -17,9 +47,21 @@ export type { TileType, Tile, GridConfig, GridBounds, TileVisualInfo } from './G
 export { CollisionSystem, createCollisionSystem, createEntity } from './Collision';
 export type { CollisionConfig, CollisionResult, CollidableEntity, CollisionLayer } from './Collision';
 
-export { GameMap, createMapMetadata, createMapObject, createTransition } from './Map';
+export { Pathfinder, createPathfinder, DEFAULT_TERRAIN_COSTS } from './Pathfinding';
+export type { PathfindingOptions } from './Pathfinding';
+
+export { GameMap, createMapMetadata, createMapObject, createMapObjectFromTemplate, createTransition } from './Map';
 export type { TerrainType, MapTile, MapObject, AnimalSpawner, MapTransition, MapBounds, MapMetadata, MapData, MapRegion } from './Map';
 
+export { importTiledMap, TiledImportError } from './TiledImporter';
+export type { TiledImportOptions, TiledImportResult } from './TiledImporter';
+
+export { MapEditor, createMapEditor } from './MapEditor';
+export type { MapEditorConfig, MapEditorState } from './MapEditor';
+
+export { MapGenerator, createMapGenerator, generateBiomeMap } from './MapGenerator';
+export type { MapGeneratorOptions } from './MapGenerator';
+
 export { MapRenderer, createMapRenderer } from './MapRenderer';
 export type { MapRenderConfig, RenderLayer, WeatherEffect, WeatherParticle } from './MapRenderer';
 
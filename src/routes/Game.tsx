@@ -1,28 +1,38 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { Home, Settings, Pause, Play, Package, User, Users, BookOpen, Menu, Award, Target, Heart, Save, Activity } from 'react-feather';
+import { Home, Settings, Pause, Play, Package, User, Users, BookOpen, Book, Menu, Award, Target, Heart, Save, Activity } from 'react-feather';
 import { Button, LoadingSpinner } from '../components/ui';
 import { Container } from '../components/layout';
 import { GameCanvas, TouchControls, GameUI } from '../components/game';
 import { SettingsMenu, MainMenu, OfflineStatus, SaveSlots, DataManager } from '../components/ui';
-import { Inventory, PlayerStatus, CompanionList, Tutorial, Onboarding, TutorialMenu, TamingInterface, TrickTeaching, ItemUsage, EnhancedEncounterInterface } from '../components/game';
-import { COMPREHENSIVE_TUTORIALS } from '../components/game/ComprehensiveTutorials';
+import { Inventory, PlayerStatus, CompanionList, Tutorial, Onboarding, TutorialMenu, TamingInterface, TrickTeaching, ItemUsage, EnhancedEncounterInterface, FamilyTree, NestInterface, EcosystemPanel, Journal } from '../components/game';
+import { COMPREHENSIVE_TUTORIALS, TUTORIAL_TRIGGERS } from '../components/game/ComprehensiveTutorials';
+import type { CompanionData } from '../components/game/CompanionList';
 import { useGameStore, useGameState, usePlayerState, useAnimalState, useUIState } from '../stores';
-import { MapManager, createMapManager, GameMap } from '../game';
+import { GameMap, MapObject, InputManager, createInputManager, loadInputBindings, GameLoop, World, WorldFamily, WorldMoveResult, createWorld, loadSimulationMode } from '../game';
 import { MAP_REGISTRY, DEFAULT_MAP_ID } from '../data/maps';
-import { Position } from '../types/game';
 import { Animal, createAnimal } from '../game/Animal';
 // AnimalSpawner removed - using grass encounters only
-import { AnimalAI, createAIContext } from '../game/AnimalAI';
-import { ProximityDetector, createProximityDetector } from '../game/ProximityDetection';
-import { GrassEncounterSystem } from '../game/GrassEncounterSystem';
-import { EncounterAnimal } from '../game/EncounterAnimal';
-import HabitatSystem from '../game/HabitatSystem';
+import { EncounterAnimal, EncounterController } from '../game/EncounterAnimal';
+import { worldClock } from '../game/WorldClock';
+import { weatherSystem, WEATHER_PROFILES } from '../game/WeatherSystem';
+import { partySystem } from '../game/PartySystem';
+import { BOND_LEVELS, COMPANION_ABILITIES } from '../game/BondingSystem';
+import { companionAbilitySystem, AbilityActivation, AbilityContext } from '../game/CompanionAbilitySystem';
+import { breedingSystem, CareAction } from '../game/BreedingSystem';
+import { animalNeeds, NEED_TYPES, NEED_LABELS } from '../game/AnimalNeeds';
+import { ecosystemSystem, PopulationSample } from '../game/EcosystemSystem';
+import { questSystem } from '../game/QuestSystem';
+import { gameEvents, resolveGameEvent } from '../game/GameEvents';
+import { setAmbientWeather } from '../game/AmbientAudio';
+import { replayRecorder, ReplayStart } from '../services/ReplayService';
+import { connectGameEvents } from '../services/GameEventSubscribers';
 
 const Game: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [gameInitialized, setGameInitialized] = useState(false);
   const [currentMap, setCurrentMap] = useState<GameMap | null>(null);
+  const [ecosystemHistory, setEcosystemHistory] = useState<PopulationSample[]>([]);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingStage, setLoadingStage] = useState('Initializing...');
   const [hasShownWelcome, setHasShownWelcome] = useState(() => {
@@ -46,19 +56,25 @@ const Game: React.FC = () => {
   const [showTrickTeaching, setShowTrickTeaching] = useState(false);
   const [showItemUsage, setShowItemUsage] = useState(false);
   const [showAchievements, setShowAchievements] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
   const [showEncounterInterface, setShowEncounterInterface] = useState(false);
   const [encounterAnimal, setEncounterAnimal] = useState<EncounterAnimal | null>(null);
   const [currentTutorial, setCurrentTutorial] = useState<string | null>(null);
   const [completedTutorials, setCompletedTutorials] = useState<string[]>([]);
+  const [partyMembers, setPartyMembers] = useState<string[]>(() => partySystem.getMembers());
+  const [abilityClock, setAbilityClock] = useState(() => Date.now());
+  const [familyAnimalId, setFamilyAnimalId] = useState<string | null>(null);
+  const [activeNest, setActiveNest] = useState<MapObject | null>(null);
+  const [lineageVersion, setLineageVersion] = useState(0);
+  const [familyData, setFamilyData] = useState<WorldFamily | null>(null);
+  const [journal, setJournal] = useState(() => questSystem.getJournal());
   
-  // Map system refs
-  const mapManagerRef = useRef<MapManager | null>(null);
+  // The world simulation owns the map, movement, wild animals and encounters; this screen is a view over it
+  const worldRef = useRef<World | null>(null);
+  const mainRef = useRef<HTMLElement>(null);
+  const inputManagerRef = useRef<InputManager | null>(null);
   
-  // Animal system refs
   // animalSpawnerRef removed - using grass encounters only
-  const proximityDetectorRef = useRef<ProximityDetector | null>(null);
-  const grassEncounterRef = useRef<GrassEncounterSystem | null>(null);
-  const habitatSystemRef = useRef<typeof HabitatSystem | null>(null);
   const gameLoopRef = useRef<number | null>(null);
   const lastFrameTimeRef = useRef<number>(0);
   
@@ -80,73 +96,23 @@ const Game: React.FC = () => {
     addAnimal,
     removeAnimal,
     updateAnimal,
+    updateCompanion,
     clearAllAnimals,
     openModal,
-    closeModal
+    closeModal,
+    loadGame
   } = useGameStore();
 
-  // Safe pathfinding that respects map collision
-  const findSafePath = useCallback((start: Position, end: Position, map: GameMap): Position[] => {
-    const path: Position[] = [];
-    let current = { ...start };
-    
-    while (current.x !== end.x || current.y !== end.y) {
-      let nextStep = { ...current };
-      
-      // Try to move towards target, but check if the step is valid
-      if (current.x < end.x) {
-        nextStep.x++;
-      } else if (current.x > end.x) {
-        nextStep.x--;
-      } else if (current.y < end.y) {
-        nextStep.y++;
-      } else if (current.y > end.y) {
-        nextStep.y--;
-      }
-      
-      // Check if the next step is valid and walkable
-      if (map.isValidPosition(nextStep.x, nextStep.y) && map.isWalkable(nextStep.x, nextStep.y)) {
-        current = nextStep;
-        path.push({ ...current });
-      } else {
-        // If we can't move directly, stop pathfinding
-        break;
-      }
-
-      // Safety check to prevent infinite loops
-      if (path.length > 100) {
-        break;
-      }
-    }
-    
-    return path;
-  }, []);
-
-  // Set movement target with custom path
-  const setMovementTargetWithPath = useCallback((target: Position, path: Position[]) => {
-    // Use the store's state setter directly but with our custom path
-    const { playerState } = useGameStore.getState();
-    
-    // Don't set target if already at position
-    if (playerState.player.position.x === target.x && playerState.player.position.y === target.y) {
-      return;
-    }
-    
-    useGameStore.setState((state) => ({
-      playerState: {
-        ...state.playerState,
-        movementTarget: target,
-        movementPath: path,
-        isMoving: path.length > 0
-      }
-    }));
-  }, []);
-
   // Create stable notification function without debug logging
   const stableAddNotification = useCallback((notification: any) => {
     addNotification(notification);
   }, [addNotification]);
 
+  // Wild animals glide between AI turns rather than jumping tile to tile
+  const getAnimalRenderPosition = useCallback((animal: Animal) => {
+    return worldRef.current?.getAnimalRenderPosition(animal) ?? animal.position;
+  }, []);
+
   // Load completed tutorials on mount
   useEffect(() => {
     const loadCompletedTutorials = () => {
@@ -174,95 +140,26 @@ const Game: React.FC = () => {
         setLoadingStage('Initializing map system...');
         setLoadingProgress(10);
         
-        // Create map manager
-        const mapManager = createMapManager({
-          cacheSize: 5,
-          preloadRadius: 1,
-          transitionDuration: 1000,
-        });
-        
-        // Register map data sources
+        // Create the world simulation
         setLoadingStage('Loading map data...');
         setLoadingProgress(30);
-        
-        Object.entries(MAP_REGISTRY).forEach(([mapId, mapData]) => {
-          mapManager.registerMapSource(mapId, async () => mapData);
-        });
-        
-        // Set callbacks
-        mapManager.setCallbacks({
-          onMapLoaded: (mapId, map) => {
-            if (mapId === DEFAULT_MAP_ID) {
-              setCurrentMap(map);
-            }
-          },
-          onLoadingProgress: (state) => {
-            setLoadingProgress(50 + (state.progress * 0.4)); // 50-90%
-            setLoadingStage(state.stage === 'complete' ? 'Finalizing...' : `Loading ${state.stage}...`);
-          },
-        });
-        
-        mapManagerRef.current = mapManager;
+
+        // Quests, achievements, experience, statistics and audio follow the event bus from here on
+        connectGameEvents();
+
+        const world = createWorld({ maps: MAP_REGISTRY, simulationMode: loadSimulationMode() });
+        worldRef.current = world;
         
         // Load initial map
         setLoadingStage('Loading starter map...');
         setLoadingProgress(60);
         
-        const initialMap = await mapManager.loadMap(DEFAULT_MAP_ID);
-        await mapManager.setCurrentMap(DEFAULT_MAP_ID);
+        const { playerState: { player, companions }, animalState: { animals } } = useGameStore.getState();
+        world.start(DEFAULT_MAP_ID, player.position, animals);
+        world.setCompanions(companions);
+        const initialMap = world.getMap()!;
         
         setCurrentMap(initialMap);
-        setLoadingProgress(90);
-        
-        // Initialize encounter systems
-        setLoadingStage('Setting up encounters...');
-        
-        // Create proximity detector
-        const proximityDetector = createProximityDetector();
-
-        // Create habitat system (it's an object, not a class)
-        const habitatSystem = HabitatSystem;
-
-        // Create grass encounter system
-        const grassEncounter = new GrassEncounterSystem(initialMap, habitatSystem, {
-          encounterChance: 0.2, // 20% chance per grass step
-          minStepsInGrass: 2,
-          cooldownTime: 45000, // 45 seconds between encounters
-          maxEncountersPerArea: 1
-        });
-        
-        // Set up proximity detector callbacks
-        proximityDetector.setCallbacks({
-          onProximityEvent: (event) => {
-            // Only show awareness notifications for new animal species or special interactions
-            if (event.type === 'enter' && event.zone.name === 'awareness') {
-              if (!playerState.discoveredAnimals.includes(event.animal.species) || (event.animal.behavior.rarity || 0) > 0.8) {
-                stableAddNotification({
-                  type: 'info',
-                  title: `${event.animal.species.charAt(0).toUpperCase() + event.animal.species.slice(1)} notices you`,
-                  message: `The ${event.animal.species} is aware of your presence`,
-                  duration: 2000
-                });
-              }
-            }
-          },
-          onInteractionOpportunity: (opportunity) => {
-            // Only log in development mode
-            if (process.env.NODE_ENV === 'development') {
-              console.log('Interaction opportunity:', opportunity.interactionType, opportunity.animal.species);
-            }
-          },
-          onAnimalReaction: (animal, reaction) => {
-            // Only log significant reactions in development mode
-            if (process.env.NODE_ENV === 'development' && (reaction.includes('flee') || reaction.includes('approach'))) {
-              console.log('Animal reaction:', animal.species, reaction);
-            }
-          }
-        });
-        proximityDetectorRef.current = proximityDetector;
-        grassEncounterRef.current = grassEncounter;
-        habitatSystemRef.current = habitatSystem;
-        
         setLoadingProgress(95);
         
         // Final setup
@@ -300,70 +197,453 @@ const Game: React.FC = () => {
     initGame();
   }, []); // Empty dependency array - only run once on mount
 
-  // Turn-based animal AI updates (triggered by player movement)
+  // Let go of the world's clock and weather subscriptions when leaving the game
+  useEffect(() => () => worldRef.current?.destroy(), []);
+
+  // Keep the party in step with the companion roster
   useEffect(() => {
-    if (!gameInitialized || !proximityDetectorRef.current) {
+    const unsubscribeJoin = partySystem.on('join', (_, members) => setPartyMembers(members));
+    const unsubscribeLeave = partySystem.on('leave', (_, members) => setPartyMembers(members));
+    return () => {
+      unsubscribeJoin();
+      unsubscribeLeave();
+    };
+  }, []);
+
+  useEffect(() => {
+    worldRef.current?.setCompanions(playerState.companions);
+    setPartyMembers(partySystem.getMembers());
+  }, [gameInitialized, playerState.companions]);
+
+  // Tick ability cooldowns while the companion list is showing them
+  useEffect(() => {
+    if (!showCompanionList) {
       return;
     }
 
-    const currentTime = Date.now();
-    const proximityDetector = proximityDetectorRef.current;
+    setAbilityClock(Date.now());
+    const interval = setInterval(() => setAbilityClock(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [showCompanionList]);
 
-    try {
-      // Update animal AI - this is now turn-based
-      const activeAnimals = animalState.animals.filter(animal => animal.isActive);
-      const aiContext = createAIContext(playerState.player.position, currentTime, 500); // Fixed delta for turn-based
-      
-      for (const animal of activeAnimals) {
-        const result = AnimalAI.updateAI(animal, aiContext);
-        
-        // Update animal in store if it changed
-        if (result.stateChanged || result.memoryUpdated) {
-          updateAnimal(animal.id, animal);
-        }
+  const companionData = useMemo<CompanionData[]>(() => {
+    return playerState.companions.map((animal: Animal) => {
+      const inParty = partyMembers.includes(animal.id);
+      return {
+        id: animal.id,
+        name: animal.name || animal.species.charAt(0).toUpperCase() + animal.species.slice(1),
+        species: animal.species,
+        type: animal.species,
+        trustLevel: Math.round(animal.stats.trust),
+        maxTrust: 100,
+        energy: Math.round(animal.stats.energy),
+        maxEnergy: animal.stats.maxEnergy,
+        happiness: animal.stats.happiness,
+        bondLevel: BOND_LEVELS[partySystem.getBondLevel(animal.id)].level,
+        personality: 'friendly',
+        dateCompanioned: animal.spawnTime,
+        lastInteraction: animal.lastInteraction ?? animal.spawnTime,
+        knownTricks: [],
+        stats: {
+          tricksPerformed: 0,
+          gamesPlayed: 0,
+          foodsEaten: 0,
+          daysAsCompanion: Math.floor((Date.now() - animal.spawnTime) / 86400000)
+        },
+        status: inParty ? 'active' : 'resting',
+        location: inParty ? 'Following you' : undefined,
+        isAvailable: true,
+        inParty,
+        growthStage: breedingSystem.getJuvenile(animal.id)?.stage as CompanionData['growthStage'],
+        needs: NEED_TYPES.map(need => ({
+          label: NEED_LABELS[need],
+          value: Math.round(animalNeeds.getNeeds(animal.id)[need])
+        })),
+        abilities: companionAbilitySystem.getAbilityOptions(animal.id, abilityClock).map(option => ({
+          id: option.ability.id,
+          name: option.ability.name,
+          description: option.ability.description,
+          energyCost: option.ability.energyCost ?? 0,
+          cooldownRemaining: option.cooldownRemaining,
+          unlocked: option.unlocked
+        }))
+      };
+    });
+  }, [playerState.companions, partyMembers, abilityClock]);
+
+  // Juveniles grow up as time passes; the world resizes them
+  useEffect(() => {
+    const unsubscribeStage = breedingSystem.on('stageChange', juvenile => {
+      const companion = useGameStore.getState().playerState.companions.find((animal: Animal) => animal.id === juvenile.animalId);
+      if (companion && juvenile.stage === 'adult') {
+        addNotification({
+          type: 'success',
+          title: 'All Grown Up',
+          message: `Your young ${companion.species} has grown into an adult!`,
+          duration: 3000
+        });
       }
+      setLineageVersion(version => version + 1);
+    });
 
-      // Update proximity detection
-      proximityDetector.update(activeAnimals, playerState.player.position);
+    return unsubscribeStage;
+  }, [addNotification]);
 
-    } catch (error) {
-      console.error('Turn-based AI update error:', error);
+  // Snapshot the family on show; lineageVersion refreshes it after breeding and care
+  useEffect(() => {
+    setFamilyData(familyAnimalId ? worldRef.current?.getFamily(familyAnimalId) ?? null : null);
+  }, [familyAnimalId, playerState.companions, lineageVersion]);
+
+  // Follow the world's population chart as the map's habitat zones rise and fall
+  useEffect(() => {
+    if (!currentMap) {
+      return;
     }
-  }, [gameInitialized, playerState.player.position, animalState.animals, updateAnimal]); // Triggers on player position change
 
-  // Grass encounter callback
-  const handlePlayerMovement = useCallback((newPosition: Position, previousPosition: Position) => {
-    if (!grassEncounterRef.current || showEncounterInterface) {
-      return; // Don't trigger if already in encounter
+    setEcosystemHistory(ecosystemSystem.getHistory());
+    return ecosystemSystem.on('update', () => setEcosystemHistory(ecosystemSystem.getHistory()));
+  }, [currentMap]);
+
+  // Quests follow gameplay events from the bus and report back as they advance
+  useEffect(() => {
+    setJournal(questSystem.getJournal());
+
+    const unsubscribeQuests = questSystem.on('update', update => {
+      setJournal(questSystem.getJournal());
+
+      if (update.type === 'started') {
+        addNotification({
+          type: 'info',
+          title: `New Quest: ${update.quest.title}`,
+          message: update.quest.description,
+          duration: 4000
+        });
+      } else if (update.type === 'choosing') {
+        addNotification({
+          type: 'info',
+          title: update.quest.title,
+          message: 'A choice awaits. Open your journal to decide which way to go.',
+          duration: 4000
+        });
+      } else if (update.type === 'completed' && update.rewards) {
+        const { xpGained, leveledUp, items } = update.rewards;
+        const rewards = [...(xpGained > 0 ? [`${xpGained} XP`] : []), ...items];
+        addNotification({
+          type: 'success',
+          title: `Quest Complete: ${update.quest.title}`,
+          message: `${rewards.length > 0 ? `Rewards: ${rewards.join(', ')}.` : 'Well done!'}${leveledUp ? ' You leveled up!' : ''}`,
+          duration: 4000
+        });
+      }
+    });
+
+    return unsubscribeQuests;
+  }, [addNotification]);
+
+  // Experience, achievements and tutorial prompts follow gameplay events from the bus
+  useEffect(() => {
+    const offeredTutorials = new Set<string>();
+
+    const unsubscribers = [
+      gameEvents.on('player.experience', ({ payload }) => {
+        if (payload.leveledUp) {
+          addNotification({
+            type: 'success',
+            title: `Level ${payload.level}!`,
+            message: payload.unlocks.length > 0 ? `New content unlocked: ${payload.unlocks.join(', ')}.` : 'You feel more experienced.',
+            duration: 4000
+          });
+        }
+      }),
+      gameEvents.on('achievement.completed', ({ payload }) => {
+        addNotification({
+          type: 'success',
+          title: `Achievement: ${payload.name}`,
+          message: 'Check your achievements to see what you earned.',
+          duration: 4000
+        });
+      }),
+      gameEvents.on('*', event => {
+        const tutorialId = resolveGameEvent(TUTORIAL_TRIGGERS, event);
+        const tutorial = tutorialId ? COMPREHENSIVE_TUTORIALS[tutorialId] : undefined;
+        if (!tutorial || offeredTutorials.has(tutorial.id)) return;
+        if (localStorage.getItem(`tutorial-${tutorial.id}-completed`) === 'true') return;
+
+        offeredTutorials.add(tutorial.id);
+        addNotification({
+          type: 'info',
+          title: `New Tutorial: ${tutorial.title}`,
+          message: 'Open the tutorial menu to learn more.',
+          duration: 4000
+        });
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [addNotification]);
+
+  // Announce the change of season
+  useEffect(() => {
+    return worldClock.on('seasonChange', time => {
+      addNotification({
+        type: 'info',
+        title: `${time.season.charAt(0).toUpperCase()}${time.season.slice(1)} has arrived`,
+        message: `Day ${time.day} of your journey`,
+        duration: 3000
+      });
+    });
+  }, [addNotification]);
+
+  // Follow the weather on the current map with ambience and a heads-up
+  useEffect(() => {
+    if (!currentMap) {
+      return;
     }
 
-    const encounterAnimal = grassEncounterRef.current.checkForEncounter(newPosition, previousPosition);
-    if (encounterAnimal) {
-      setEncounterAnimal(encounterAnimal);
-      setShowEncounterInterface(true);
-      
-      // Add notification
+    const mapId = currentMap.getMetadata().id;
+    setAmbientWeather(weatherSystem.getProfile(mapId).ambient);
+
+    const unsubscribeWeather = weatherSystem.on('change', change => {
+      if (change.mapId !== mapId) {
+        return;
+      }
+
+      const profile = WEATHER_PROFILES[change.weather];
+      setAmbientWeather(profile.ambient);
+
       addNotification({
         type: 'info',
-        title: 'Wild Encounter!',
-        message: `A wild ${encounterAnimal.species} appears from the grass!`,
+        title: `Weather: ${profile.label}`,
+        message: `The weather has turned from ${WEATHER_PROFILES[change.previous].label.toLowerCase()} to ${profile.label.toLowerCase()}`,
         duration: 3000
       });
+    });
+
+    return unsubscribeWeather;
+  }, [currentMap, addNotification]);
+
+  // Wild animals in the world follow the store, which saves them and hands them to the canvas
+  useEffect(() => {
+    worldRef.current?.setAnimals(animalState.animals);
+  }, [animalState.animals]);
+
+  // Mirror what happens in the world into the store and onto the screen
+  useEffect(() => {
+    const world = worldRef.current;
+    if (!gameInitialized || !world) {
+      return;
+    }
+
+    const unsubscribers = [
+      world.on('mapChanged', ({ map, position }) => {
+        // The party regroups around the arrival point once the new map is current
+        movePlayer(position);
+        setCurrentMap(map);
+      }),
+
+      world.on('playerMoved', ({ arrived }) => {
+        moveTowardsTarget();
+        if (arrived) {
+          stableAddNotification({
+            type: 'success',
+            title: 'Destination reached!',
+            message: 'Arrived at target location.',
+            duration: 1500
+          });
+        }
+      }),
+
+      world.on('animalUpdated', ({ animal }) => updateAnimal(animal.id, animal)),
+
+      world.on('companionUpdated', ({ animal }) => updateCompanion(animal.id, animal)),
+
+      world.on('companionBorn', ({ animal }) => useGameStore.getState().addCompanion(animal)),
+
+      world.on('encounterStarted', ({ animal }) => {
+        setEncounterAnimal(animal);
+        setShowEncounterInterface(true);
+        addNotification({
+          type: 'info',
+          title: 'Wild Encounter!',
+          message: `A wild ${animal.species} appears from the grass!`,
+          duration: 3000
+        });
+      }),
+
+      world.on('animalTamed', ({ animal, joinedParty }) => {
+        addAnimal(animal);
+        useGameStore.getState().addCompanion(animal);
+        addNotification({
+          type: 'success',
+          title: 'Animal Tamed!',
+          message: joinedParty
+            ? `You successfully tamed the ${animal.species}! It's following you now.`
+            : `You successfully tamed the ${animal.species}!`,
+          duration: 3000
+        });
+        setShowEncounterInterface(false);
+        setEncounterAnimal(null);
+      }),
+
+      world.on('proximity', ({ event }) => {
+        // Only show awareness notifications for new animal species or special interactions
+        if (event.type === 'enter' && event.zone.name === 'awareness') {
+          const { discoveredAnimals } = useGameStore.getState().playerState;
+          if (!discoveredAnimals.includes(event.animal.species) || (event.animal.behavior.rarity || 0) > 0.8) {
+            stableAddNotification({
+              type: 'info',
+              title: `${event.animal.species.charAt(0).toUpperCase() + event.animal.species.slice(1)} notices you`,
+              message: `The ${event.animal.species} is aware of your presence`,
+              duration: 2000
+            });
+          }
+        }
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [gameInitialized, movePlayer, moveTowardsTarget, updateAnimal, updateCompanion, addAnimal, addNotification, stableAddNotification]);
+
+  // Encounter choices go through the world, and into any replay being recorded
+  const encounterController = useMemo<EncounterController>(() => ({
+    performTrick: (trickId) => {
+      replayRecorder.recordCommand({ type: 'trick', trickId });
+      return worldRef.current?.performTrick(trickId) ?? null;
+    },
+    applyTamingMethod: (method) => {
+      replayRecorder.recordCommand({ type: 'taming_method', method });
+      return worldRef.current?.applyTamingMethod(method) ?? null;
+    }
+  }), []);
+
+  // Enhanced encounter action handlers; the world's animalTamed event updates the store
+  const handleAnimalTamed = useCallback(() => {
+    replayRecorder.recordCommand({ type: 'tame' });
+    worldRef.current?.tameEncounter();
+  }, []);
+
+  const handleTogglePartyMember = useCallback((companionId: string) => {
+    const result = worldRef.current?.toggleParty(companionId);
+    if (!result) {
+      return;
+    }
+
+    addNotification({
+      type: result.success ? 'success' : 'warning',
+      title: result.success ? 'Party' : 'Cannot Join Party',
+      message: result.message,
+      duration: 2500
+    });
+  }, [addNotification]);
+
+  // What companion abilities can see and change in the world right now
+  const buildAbilityContext = useCallback((): AbilityContext => {
+    const state = useGameStore.getState();
+    return {
+      playerPosition: state.playerState.player.position,
+      playerEnergy: state.playerState.player.energy,
+      maxPlayerEnergy: state.playerState.player.maxEnergy,
+      map: currentMap,
+      animals: state.animalState.animals.filter((animal: Animal) => !partySystem.isMember(animal.id)),
+      spendEnergy: (amount) => state.useEnergy(amount),
+      restoreEnergy: (amount) => state.restoreEnergy(amount),
+      addItem: (itemId) => state.addToInventory({ id: itemId, name: itemId.replace(/_/g, ' ') })
+    };
+  }, [currentMap]);
+
+  const applyAbilityActivation = useCallback((activation: AbilityActivation) => {
+    activation.updatedAnimals.forEach(animal => worldRef.current?.updateAnimal(animal));
+    setAbilityClock(Date.now());
+
+    const ability = COMPANION_ABILITIES[activation.abilityId];
+    addNotification({
+      type: activation.success ? 'success' : 'info',
+      title: ability?.name ?? 'Companion',
+      message: activation.message,
+      duration: 2500
+    });
+  }, [addNotification]);
+
+  const handleUseAbility = useCallback((companionId: string, abilityId: string) => {
+    const companion = playerState.companions.find((animal: Animal) => animal.id === companionId);
+    if (!companion) {
+      return;
+    }
+
+    applyAbilityActivation(companionAbilitySystem.useAbility(companion, abilityId, buildAbilityContext()));
+  }, [playerState.companions, buildAbilityContext, applyAbilityActivation]);
+
+  const checkBreedingPair = useCallback((parentAId: string, parentBId: string) => {
+    return worldRef.current?.canBreed(parentAId, parentBId) ?? { canBreed: false, reason: 'The world is still loading' };
+  }, []);
+
+  // The world's companionBorn event adds the newborn to the store
+  const handleBreed = useCallback((parentAId: string, parentBId: string) => {
+    const result = worldRef.current?.breed(parentAId, parentBId);
+    if (!result) {
+      return;
+    }
+
+    if (result.success) {
+      setActiveNest(null);
+      setLineageVersion(version => version + 1);
     }
-  }, [showEncounterInterface, addNotification]);
 
-  // Enhanced encounter action handlers
-  const handleAnimalTamed = useCallback((animal: Animal) => {
-    addAnimal(animal);
+    addNotification({
+      type: result.success ? 'success' : 'warning',
+      title: result.success ? 'A New Arrival!' : 'Not Right Now',
+      message: result.message,
+      duration: 3500
+    });
+  }, [addNotification]);
+
+  const handleChooseQuestBranch = useCallback((questId: string, branchId: string) => {
+    const result = questSystem.chooseBranch(questId, branchId);
+    if (!result.success) {
+      addNotification({
+        type: 'warning',
+        title: 'Journal',
+        message: result.message,
+        duration: 3000
+      });
+    }
+  }, [addNotification]);
+
+  const handleCareForJuvenile = useCallback((action: CareAction) => {
+    if (!familyAnimalId || !worldRef.current) {
+      return;
+    }
+
+    const result = worldRef.current.careForJuvenile(familyAnimalId, action);
+    setLineageVersion(version => version + 1);
+
+    addNotification({
+      type: result.success ? 'success' : 'info',
+      title: result.success ? 'Raising Your Young' : 'Not Yet',
+      message: result.message,
+      duration: 2000
+    });
+  }, [familyAnimalId, addNotification]);
+
+  const handleFeedCompanion = useCallback((companionId: string) => {
+    animalNeeds.tend(companionId, 'feed');
     addNotification({
       type: 'success',
-      title: 'Animal Tamed!',
-      message: `You successfully tamed the ${animal.species}!`,
-      duration: 3000
+      title: 'Fed',
+      message: 'Your companion happily eats its fill',
+      duration: 2000
     });
-    setShowEncounterInterface(false);
-    setEncounterAnimal(null);
-  }, [addAnimal, addNotification]);
+  }, [addNotification]);
+
+  const handlePlayWithCompanion = useCallback((companionId: string) => {
+    animalNeeds.tend(companionId, 'play');
+    addNotification({
+      type: 'success',
+      title: 'Playtime',
+      message: 'Your companion bounds around with delight',
+      duration: 2000
+    });
+  }, [addNotification]);
 
   const handleAnimalFled = useCallback(() => {
     addNotification({
@@ -378,19 +658,25 @@ const Game: React.FC = () => {
 
   const handleEnergyUsed = useCallback((amount: number) => {
     const { useEnergy } = useGameStore.getState();
-    const hadEnoughEnergy = useEnergy(amount);
+    const cost = companionAbilitySystem.getEnergyCost(amount);
+    const hadEnoughEnergy = useEnergy(cost);
+
+    // Companions step in when the player is running low
+    companionAbilitySystem
+      .checkTriggers(playerState.companions, buildAbilityContext())
+      .forEach(applyAbilityActivation);
 
     if (!hadEnoughEnergy) {
       addNotification({
         type: 'warning',
         title: 'Low Energy',
-        message: `Not enough energy! You need ${amount} but only have ${playerState.player.energy}.`,
+        message: `Not enough energy! You need ${cost} but only have ${playerState.player.energy}.`,
         duration: 3000
       });
     }
 
     return hadEnoughEnergy;
-  }, [playerState.player.energy, addNotification]);
+  }, [playerState.player.energy, playerState.companions, buildAbilityContext, applyAbilityActivation, addNotification]);
 
   const handleItemUsed = useCallback((itemId: string) => {
     const { removeFromInventory } = useGameStore.getState();
@@ -419,6 +705,8 @@ const Game: React.FC = () => {
   }, [playerState.inventory, addNotification]);
 
   const handleEncounterFlee = useCallback(() => {
+    replayRecorder.recordCommand({ type: 'flee' });
+    worldRef.current?.leaveEncounter();
     addNotification({
       type: 'info',
       title: 'You fled',
@@ -429,41 +717,24 @@ const Game: React.FC = () => {
     setEncounterAnimal(null);
   }, [addNotification]);
 
-  // Watch for player position changes to trigger grass encounters
-  const previousPlayerPosition = useRef<Position>(playerState.player.position);
-  useEffect(() => {
-    const currentPosition = playerState.player.position;
-    const previousPosition = previousPlayerPosition.current;
-    
-    // Only trigger if position actually changed
-    if (currentPosition.x !== previousPosition.x || currentPosition.y !== previousPosition.y) {
-      handlePlayerMovement(currentPosition, previousPosition);
-      previousPlayerPosition.current = { ...currentPosition };
-    }
-  }, [playerState.player.position, handlePlayerMovement]);
-
-  // Movement loop for tap-to-move functionality
-  useEffect(() => {
-    if (!playerState.isMoving || gameState.isPaused) {
-      return;
+  const handleEncounterClose = useCallback(() => {
+    // Closing an encounter that's still going means walking away from it
+    if (worldRef.current?.getEncounter()) {
+      replayRecorder.recordCommand({ type: 'flee' });
+      worldRef.current.leaveEncounter();
     }
+    setShowEncounterInterface(false);
+    setEncounterAnimal(null);
+  }, []);
 
-    const moveInterval = setInterval(() => {
-      const isComplete = moveTowardsTarget();
-      if (isComplete) {
-        stableAddNotification({
-          type: 'success',
-          title: 'Destination reached!',
-          message: 'Arrived at target location.',
-          duration: 1500
-        });
-      }
-    }, 500); // Move every 500ms for visible movement
-
-    return () => {
-      clearInterval(moveInterval);
-    };
-  }, [playerState.isMoving, gameState.isPaused]); // Removed moveTowardsTarget from dependencies
+  // Where a replay recorded from now would start
+  const getReplayStart = useCallback((): ReplayStart => ({
+    mapId: currentMap?.getMetadata().id || DEFAULT_MAP_ID,
+    position: playerState.player.position,
+    animals: worldRef.current?.getAnimals() ?? [],
+    companions: playerState.companions,
+    time: worldRef.current?.getTime()
+  }), [currentMap, playerState.player.position, playerState.companions]);
 
   const togglePause = () => {
     if (gameState.isPaused) {
@@ -473,117 +744,83 @@ const Game: React.FC = () => {
     }
   };
 
-  const handleMove = (direction: 'up' | 'down' | 'left' | 'right' | null) => {
-    if (!direction || gameState.isPaused || !currentMap) return;
-    
-    // Start from current target position (if moving) or current position (if stationary)
-    const startPos = playerState.movementTarget && playerState.isMoving 
-      ? playerState.movementTarget 
-      : playerState.player.position;
-    
-    let newPosition = { ...startPos };
-    
-    switch (direction) {
-      case 'up':
-        newPosition.y = Math.max(0, startPos.y - 1);
-        break;
-      case 'down':
-        newPosition.y = startPos.y + 1;
+  // Follow the route the world found, or tell the player why there isn't one
+  const applyMoveResult = (result: WorldMoveResult, unreachable: { title: string; message: string }) => {
+    if (result.success) {
+      setMovementTarget(result.target, result.path);
+      return;
+    }
+
+    switch (result.reason) {
+      case 'out_of_bounds':
+        stableAddNotification({
+          type: 'warning',
+          title: 'Invalid location',
+          message: 'Cannot move outside map boundaries',
+          duration: 2000
+        });
         break;
-      case 'left':
-        newPosition.x = Math.max(0, startPos.x - 1);
+      case 'blocked':
+        stableAddNotification({
+          type: 'warning',
+          title: 'Blocked path',
+          message: `Cannot walk on ${result.terrain || 'this terrain'}`,
+          duration: 2000
+        });
         break;
-      case 'right':
-        newPosition.x = startPos.x + 1;
+      case 'unreachable':
+        stableAddNotification({ type: 'warning', ...unreachable, duration: 2000 });
         break;
     }
-    
-    // Don't move to same position
-    if (newPosition.x === startPos.x && newPosition.y === startPos.y) {
-      return;
-    }
-    
-    // Validate the new position
-    if (!currentMap.isValidPosition(newPosition.x, newPosition.y)) {
-      stableAddNotification({
-        type: 'warning',
-        title: 'Invalid location',
-        message: 'Cannot move outside map boundaries',
-        duration: 2000
-      });
-      return;
-    }
-    
-    if (!currentMap.isWalkable(newPosition.x, newPosition.y)) {
-      const tile = currentMap.getTile(newPosition.x, newPosition.y);
-      stableAddNotification({
-        type: 'warning',
-        title: 'Blocked path',
-        message: `Cannot walk on ${tile?.terrainType || 'this terrain'}`,
-        duration: 2000
-      });
-      return;
-    }
-    
-    // Create a safe path from current player position to the new target
-    const safePath = findSafePath(playerState.player.position, newPosition, currentMap);
-    
-    // Check if we could create a path to the target
-    if (safePath.length === 0) {
-      // No path found - target is unreachable
-      stableAddNotification({
-        type: 'warning',
-        title: 'Path blocked',
-        message: 'Cannot reach that location',
-        duration: 2000
-      });
-      return;
-    }
-    
-    // Set new movement target with updated path
-    setMovementTargetWithPath(newPosition, safePath);
+  };
+
+  const handleMove = (direction: 'up' | 'down' | 'left' | 'right' | null) => {
+    if (!direction || gameState.isPaused || !worldRef.current) return;
+
+    // Steps on from the current target (if moving) or the current position (if stationary)
+    applyMoveResult(worldRef.current.moveInDirection(direction), {
+      title: 'Path blocked',
+      message: 'Cannot reach that location'
+    });
   };
 
   const handleCellTap = (gridX: number, gridY: number) => {
     if (gameState.isPaused || !currentMap) {
       return;
     }
-    
-    // Check if target position is valid on the current map
-    if (!currentMap.isValidPosition(gridX, gridY)) {
-      stableAddNotification({
-        type: 'warning',
-        title: 'Invalid location',
-        message: 'Cannot move outside map boundaries',
-        duration: 2000
-      });
-      return;
-    }
-    
-    // Check if target position is walkable
-    if (!currentMap.isWalkable(gridX, gridY)) {
-      const tile = currentMap.getTile(gridX, gridY);
-      stableAddNotification({
-        type: 'warning',
-        title: 'Blocked path',
-        message: `Cannot walk on ${tile?.terrainType || 'this terrain'}`,
-        duration: 2000
-      });
-      return;
+
+    // Tapping a nest or den close by opens it; further away the player walks over or is told to come closer
+    const nest = currentMap.getObjectsAtPosition(gridX, gridY).find(object => object.metadata?.nest);
+    if (nest) {
+      if (breedingSystem.findNest(currentMap, playerState.player.position)?.id === nest.id) {
+        setActiveNest(nest);
+        return;
+      }
+      if (!currentMap.isWalkable(gridX, gridY)) {
+        stableAddNotification({
+          type: 'info',
+          title: 'Nesting spot',
+          message: 'Walk a little closer to settle your companions here',
+          duration: 2000
+        });
+        return;
+      }
     }
     
-    // Prevent setting same target or rapid successive calls
-    if (playerState.movementTarget && 
-        playerState.movementTarget.x === gridX && 
-        playerState.movementTarget.y === gridY) {
+    if (!worldRef.current) {
       return;
     }
-    
-    // Check for map transitions
-    const transitions = currentMap.getTransitionsAtPosition(gridX, gridY);
-    if (transitions.length > 0) {
-      // Handle map transition
-      const transition = transitions[0];
+
+    replayRecorder.recordInput({ action: 'tap', pressed: true, timestamp: Date.now(), position: { x: gridX, y: gridY } });
+    const result = worldRef.current.moveTo({ x: gridX, y: gridY });
+    applyMoveResult(result, {
+      title: 'Unreachable destination',
+      message: 'Cannot find a path to that location'
+    });
+
+    // Point out map exits at the destination
+    const transition = currentMap.getTransitionsAtPosition(gridX, gridY)[0];
+    if (result.success && transition) {
       stableAddNotification({
         type: 'info',
         title: 'Transition available',
@@ -591,30 +828,17 @@ const Game: React.FC = () => {
         duration: 3000
       });
     }
-    
-    // Create a safe path that avoids obstacles
-    const safePath = findSafePath(playerState.player.position, { x: gridX, y: gridY }, currentMap);
-    
-    // Check if we could create a path to the target
-    if (safePath.length === 0) {
-      // No path found - target is unreachable
-      stableAddNotification({
-        type: 'warning',
-        title: 'Unreachable destination',
-        message: 'Cannot find a path to that location',
-        duration: 2000
-      });
-      return;
-    }
-    
-    // Set movement target with safe path
-    setMovementTargetWithPath({ x: gridX, y: gridY }, safePath);
   };
 
   const handleAction = (action: 'A' | 'B') => {
     if (gameState.isPaused) return;
     
     if (action === 'A') {
+      // Standing on a map exit takes the player through it
+      if (worldRef.current?.useTransition()) {
+        return;
+      }
+
       // Action button - interact with environment
       stableAddNotification({
         type: 'info',
@@ -628,6 +852,77 @@ const Game: React.FC = () => {
     }
   };
 
+  // The on-screen controls don't go through the input manager, so they record their own replay input
+  const handleTouchMove = (direction: 'up' | 'down' | 'left' | 'right' | null) => {
+    if (direction) {
+      replayRecorder.recordInput({ action: direction, pressed: true, timestamp: Date.now() });
+    }
+    handleMove(direction);
+  };
+
+  const handleTouchAction = (action: 'A' | 'B') => {
+    replayRecorder.recordInput({ action: action === 'A' ? 'action_a' : 'action_b', pressed: true, timestamp: Date.now() });
+    handleAction(action);
+  };
+
+  // Input handlers change every render; the input manager below always calls the latest
+  const inputHandlersRef = useRef({ handleMove, handleAction, togglePause });
+  inputHandlersRef.current = { handleMove, handleAction, togglePause };
+
+  // Keyboard and controller input, polled every frame so held directions repeat
+  useEffect(() => {
+    if (isLoading || !mainRef.current) {
+      return;
+    }
+
+    // Touch and mouse go through the canvas and on-screen controls, which record their own replay input
+    const inputManager = createInputManager(mainRef.current, { enableTouch: false, enableMouse: false });
+    inputManagerRef.current = inputManager;
+
+    (['up', 'down', 'left', 'right'] as const).forEach(direction => {
+      inputManager.on(direction, event => {
+        if (event.pressed) inputHandlersRef.current.handleMove(direction);
+      });
+    });
+    inputManager.on('action_a', event => {
+      if (event.pressed) inputHandlersRef.current.handleAction('A');
+    });
+    inputManager.on('action_b', event => {
+      if (event.pressed) inputHandlersRef.current.handleAction('B');
+    });
+    inputManager.on('pause', event => {
+      if (event.pressed) inputHandlersRef.current.togglePause();
+    });
+    inputManager.onGamepadConnection(event => {
+      addNotification({
+        type: 'info',
+        title: event.connected ? 'Controller Connected' : 'Controller Disconnected',
+        message: event.id,
+        duration: 2500
+      });
+    });
+
+    // Replays capture every input plus the update steps they landed between
+    const detachRecorder = replayRecorder.attach(inputManager);
+    const gameLoop = new GameLoop({ enablePerformanceMonitoring: false }, {
+      onUpdate: (deltaTime) => {
+        inputManager.update();
+        if (!useGameStore.getState().gameState.isPaused) {
+          worldRef.current?.tick(deltaTime);
+        }
+        replayRecorder.recordFrame(deltaTime);
+      }
+    });
+    gameLoop.start();
+
+    return () => {
+      gameLoop.destroy();
+      detachRecorder();
+      inputManager.destroy();
+      inputManagerRef.current = null;
+    };
+  }, [isLoading, addNotification]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-green-100 to-blue-100 flex items-center justify-center">
@@ -709,7 +1004,7 @@ const Game: React.FC = () => {
       </header>
 
       {/* Game Content Area */}
-      <main className="h-screen pt-16 relative">
+      <main ref={mainRef} className="h-screen pt-16 relative">
         {/* Game Canvas */}
         <div className="w-full h-full relative">
           <GameCanvas 
@@ -721,7 +1016,8 @@ const Game: React.FC = () => {
             movementPath={playerState.movementPath}
             showGrid={uiState.showGrid}
             currentMap={currentMap}
-            animals={animalState.animals}
+            animals={animalState.animals.filter(animal => !partyMembers.includes(animal.id))}
+            getAnimalRenderPosition={getAnimalRenderPosition}
             onAnimalClick={(animal) => {
               stableAddNotification({
                 type: 'info',
@@ -783,6 +1079,15 @@ const Game: React.FC = () => {
             >
               Achievements
             </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowJournal(true)}
+              className="shadow-lg bg-amber-500 hover:bg-amber-600 text-white"
+              leftIcon={<Book size={16} />}
+            >
+              Journal
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -833,6 +1138,13 @@ const Game: React.FC = () => {
               tileCount: currentMap ? currentMap.getDimensions().width * currentMap.getDimensions().height : 0,
             }}
           />
+
+          {/* Population chart alongside the debug info */}
+          {uiState.showDebugInfo && (
+            <div className="absolute bottom-4 right-4 pointer-events-auto z-30">
+              <EcosystemPanel history={ecosystemHistory} />
+            </div>
+          )}
           
           {/* Stacked Notifications */}
           {uiState.notifications.length > 0 && (
@@ -885,8 +1197,8 @@ const Game: React.FC = () => {
 
         {/* Touch Controls */}
         <TouchControls
-          onMove={handleMove}
-          onAction={handleAction}
+          onMove={handleTouchMove}
+          onAction={handleTouchAction}
           disabled={gameState.isPaused}
           showLabels={true}
         />
@@ -991,6 +1303,8 @@ const Game: React.FC = () => {
         onClose={() => setShowSettings(false)}
         onSave={(settings) => {
           console.log('Settings saved:', settings);
+          inputManagerRef.current?.setBindings(loadInputBindings());
+          worldRef.current?.setSimulationMode(settings.backgroundSimulation ? 'worker' : 'main');
           setShowSettings(false);
         }}
       />
@@ -1002,8 +1316,8 @@ const Game: React.FC = () => {
           console.log('New game requested');
           setShowGameMenu(false);
         }}
-        onLoadGame={(slotId) => {
-          console.log('Load game from slot:', slotId);
+        onLoadGame={(_slotId, saveData) => {
+          loadGame(saveData);
           setShowGameMenu(false);
         }}
         onSettings={() => {
@@ -1057,7 +1371,7 @@ const Game: React.FC = () => {
           coordinates: playerState.player.position,
           biome: 'Temperate'
         }}
-        companionCount={0}
+        companionCount={playerState.companions.length}
         inventoryCount={0}
         maxInventorySlots={20}
         onToggleCollapse={() => setShowPlayerStatus(false)}
@@ -1066,21 +1380,49 @@ const Game: React.FC = () => {
       <CompanionList
         isOpen={showCompanionList}
         onClose={() => setShowCompanionList(false)}
-        companions={[]}
+        companions={companionData}
+        onTogglePartyMember={handleTogglePartyMember}
+        onUseAbility={handleUseAbility}
+        onViewFamily={setFamilyAnimalId}
+        maxPartySize={partySystem.getMaxSize()}
         onSelectCompanion={(companion) => {
           console.log('Selected companion:', companion);
         }}
-        onFeedCompanion={(companionId) => {
-          console.log('Feeding companion:', companionId);
-        }}
-        onPlayWithCompanion={(companionId) => {
-          console.log('Playing with companion:', companionId);
-        }}
+        onFeedCompanion={handleFeedCompanion}
+        onPlayWithCompanion={handlePlayWithCompanion}
         onTrainCompanion={(companionId) => {
           console.log('Training companion:', companionId);
         }}
       />
 
+      <FamilyTree
+        isOpen={familyAnimalId !== null}
+        onClose={() => setFamilyAnimalId(null)}
+        tree={familyData?.tree ?? null}
+        offspring={familyData?.offspring ?? []}
+        juvenile={familyData?.juvenile}
+        onCare={handleCareForJuvenile}
+        onSelectAnimal={setFamilyAnimalId}
+      />
+
+      <NestInterface
+        isOpen={activeNest !== null}
+        onClose={() => setActiveNest(null)}
+        description={activeNest?.metadata?.description}
+        species={activeNest?.metadata?.nest?.species ?? []}
+        companions={playerState.companions}
+        checkPair={checkBreedingPair}
+        onBreed={handleBreed}
+      />
+
+      <Journal
+        isOpen={showJournal}
+        onClose={() => setShowJournal(false)}
+        active={journal.active}
+        completed={journal.completed}
+        onChooseBranch={handleChooseQuestBranch}
+      />
+
       <Tutorial
         isOpen={showTutorial}
         onClose={() => setShowTutorial(false)}
@@ -1132,8 +1474,8 @@ const Game: React.FC = () => {
       <SaveSlots
         isOpen={showSaveSlots}
         onClose={() => setShowSaveSlots(false)}
-        onLoadSave={(slotId: number, saveData) => {
-          console.log('Loading game from slot:', slotId, saveData);
+        onLoadSave={(_slotId: number, saveData) => {
+          loadGame(saveData);
           setShowSaveSlots(false);
         }}
         onNewGame={() => {
@@ -1146,6 +1488,7 @@ const Game: React.FC = () => {
       <DataManager
         isOpen={showDataManager}
         onClose={() => setShowDataManager(false)}
+        getReplayStart={getReplayStart}
       />
 
       {/* Taming Interface */}
@@ -1173,10 +1516,8 @@ const Game: React.FC = () => {
           onEnergyUsed={handleEnergyUsed}
           onItemUsed={handleItemUsed}
           onFlee={handleEncounterFlee}
-          onClose={() => {
-            setShowEncounterInterface(false);
-            setEncounterAnimal(null);
-          }}
+          encounterController={encounterController}
+          onClose={handleEncounterClose}
           isVisible={showEncounterInterface}
         />
       )}
@@ -0,0 +1,746 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Home, RotateCcw, RotateCw, Download, Play, Square } from 'react-feather';
+import { Button } from '../components/ui';
+import { MAP_REGISTRY, DEFAULT_MAP_ID } from '../data/maps';
+import { GameMap, MapRegion, MapTransition, TerrainType } from '../game/Map';
+import { MapRenderer, createMapRenderer } from '../game/MapRenderer';
+import { MapEditor as MapEditorModel, MapEditorState, createMapEditor } from '../game/MapEditor';
+import { OBJECT_TEMPLATES } from '../game/MapObjects';
+import { Camera } from '../game/Renderer';
+import { Position } from '../types/game';
+import { TILE_SIZE } from '../constants';
+
+type EditorTool = 'terrain' | 'fill' | 'object' | 'region' | 'spawner' | 'transition' | 'spawn' | 'erase';
+
+const TOOLS: { id: EditorTool; label: string; hint: string }[] = [
+  { id: 'terrain', label: 'Paint', hint: 'Click or drag to paint terrain' },
+  { id: 'fill', label: 'Fill', hint: 'Flood fill connected terrain' },
+  { id: 'object', label: 'Object', hint: 'Place an object from the template list' },
+  { id: 'region', label: 'Region', hint: 'Drag to draw region bounds' },
+  { id: 'spawner', label: 'Spawner', hint: 'Place an animal spawner; its radius is shown as a circle' },
+  { id: 'transition', label: 'Link', hint: 'Click a tile to link it to the target map' },
+  { id: 'spawn', label: 'Spawn', hint: 'Set the player spawn point' },
+  { id: 'erase', label: 'Erase', hint: 'Remove the object, link, spawner or region under the cursor' }
+];
+
+const TERRAIN_TYPES: TerrainType[] = ['grass', 'flower', 'path', 'dirt', 'sand', 'stone', 'rock', 'bush', 'forest', 'water'];
+
+const TERRAIN_SWATCHES: Record<TerrainType, string> = {
+  grass: '#22c55e',
+  water: '#3b82f6',
+  stone: '#6b7280',
+  forest: '#15803d',
+  path: '#a3a3a3',
+  flower: '#ec4899',
+  sand: '#fbbf24',
+  dirt: '#92400e',
+  rock: '#374151',
+  bush: '#16a34a'
+};
+
+const REGION_COLORS: Record<MapRegion['type'], string> = {
+  safe: '59, 130, 246',
+  peaceful: '34, 197, 94',
+  active: '234, 179, 8',
+  dangerous: '239, 68, 68',
+  special: '168, 85, 247'
+};
+
+const REGION_TYPES = Object.keys(REGION_COLORS) as MapRegion['type'][];
+const TRANSITION_TYPES: MapTransition['transitionType'][] = ['edge', 'portal', 'door', 'stairs'];
+
+const MapEditor: React.FC = () => {
+  const [mapId, setMapId] = useState(DEFAULT_MAP_ID);
+  const [editorState, setEditorState] = useState<MapEditorState | null>(null);
+  const [tool, setTool] = useState<EditorTool>('terrain');
+  const [terrain, setTerrain] = useState<TerrainType>('grass');
+  const [brushSize, setBrushSize] = useState(1);
+  const [templateKey, setTemplateKey] = useState(Object.keys(OBJECT_TEMPLATES)[0]);
+  const [regionType, setRegionType] = useState<MapRegion['type']>('peaceful');
+  const [spawnerAnimals, setSpawnerAnimals] = useState('rabbit');
+  const [spawnerRadius, setSpawnerRadius] = useState(3);
+  const [targetMapId, setTargetMapId] = useState(DEFAULT_MAP_ID);
+  const [targetPosition, setTargetPosition] = useState<Position>(() => MAP_REGISTRY[DEFAULT_MAP_ID].metadata.spawnPoint);
+  const [transitionType, setTransitionType] = useState<MapTransition['transitionType']>('edge');
+  const [showGrid, setShowGrid] = useState(true);
+  const [playTesting, setPlayTesting] = useState(false);
+  const [hoverTile, setHoverTile] = useState<Position | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [placingSpawnerId, setPlacingSpawnerId] = useState<string | null>(null);
+  // Bumped after every edit so the side panels re-read the map
+  const [revision, setRevision] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<MapEditorModel | null>(null);
+  const rendererRef = useRef<MapRenderer | null>(null);
+  const cameraRef = useRef<Camera>({ x: 0, y: 0, zoom: 1, targetX: 0, targetY: 0, followSpeed: 1 });
+  const playerRef = useRef<Position | null>(null);
+  const dragRef = useRef<{ mode: 'paint' | 'region' | 'pan'; start: Position; last: Position } | null>(null);
+  const overlayStateRef = useRef({ showGrid, hoverTile, playTesting });
+  overlayStateRef.current = { showGrid, hoverTile, playTesting };
+
+  const getMap = useCallback((): GameMap | null => editorRef.current?.getMap() ?? null, []);
+
+  // Load the selected map into a fresh editor
+  useEffect(() => {
+    const mapData = MAP_REGISTRY[mapId];
+    if (!mapData) return;
+
+    const editor = createMapEditor(mapData);
+    const renderer = createMapRenderer(editor.getMap(), {
+      tileSize: TILE_SIZE,
+      enableWeatherEffects: false,
+      enableTileAnimations: false
+    });
+
+    editor.setCallbacks({
+      onChange: state => {
+        setEditorState(state);
+        setRevision(r => r + 1);
+      },
+      onMapReplaced: map => renderer.setMap(map)
+    });
+
+    editorRef.current = editor;
+    rendererRef.current = renderer;
+    playerRef.current = null;
+    cameraRef.current.x = 0;
+    cameraRef.current.y = 0;
+    setPlayTesting(false);
+    setEditorState(editor.getState());
+    setRevision(r => r + 1);
+
+    renderer.setLayer('editor_overlay', 50, ctx => {
+      const map = editor.getMap();
+      const { showGrid: grid, hoverTile: hover, playTesting: testing } = overlayStateRef.current;
+      const { width, height } = map.getDimensions();
+
+      if (grid && !testing) {
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)';
+        ctx.lineWidth = 1;
+        for (let x = 0; x <= width; x++) {
+          ctx.beginPath();
+          ctx.moveTo(x * TILE_SIZE, 0);
+          ctx.lineTo(x * TILE_SIZE, height * TILE_SIZE);
+          ctx.stroke();
+        }
+        for (let y = 0; y <= height; y++) {
+          ctx.beginPath();
+          ctx.moveTo(0, y * TILE_SIZE);
+          ctx.lineTo(width * TILE_SIZE, y * TILE_SIZE);
+          ctx.stroke();
+        }
+      }
+
+      // Regions
+      map.getRegions().forEach(region => {
+        const { minX, minY, maxX, maxY } = region.bounds;
+        const color = REGION_COLORS[region.type] || '255, 255, 255';
+        ctx.fillStyle = `rgba(${color}, 0.15)`;
+        ctx.strokeStyle = `rgba(${color}, 0.9)`;
+        ctx.lineWidth = 2;
+        ctx.fillRect(minX * TILE_SIZE, minY * TILE_SIZE, (maxX - minX + 1) * TILE_SIZE, (maxY - minY + 1) * TILE_SIZE);
+        ctx.strokeRect(minX * TILE_SIZE, minY * TILE_SIZE, (maxX - minX + 1) * TILE_SIZE, (maxY - minY + 1) * TILE_SIZE);
+        ctx.fillStyle = `rgba(${color}, 1)`;
+        ctx.font = '11px sans-serif';
+        ctx.fillText(region.name, minX * TILE_SIZE + 4, minY * TILE_SIZE + 12);
+      });
+
+      // Spawners and their radii
+      map.getSpawners().forEach(spawner => {
+        if (!spawner.position) return;
+        const centerX = (spawner.position.x + 0.5) * TILE_SIZE;
+        const centerY = (spawner.position.y + 0.5) * TILE_SIZE;
+        ctx.strokeStyle = 'rgba(249, 115, 22, 0.9)';
+        ctx.fillStyle = 'rgba(249, 115, 22, 0.12)';
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, (spawner.spawnRadius + 0.5) * TILE_SIZE, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#f97316';
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, TILE_SIZE / 4, 0, Math.PI * 2);
+        ctx.fill();
+      });
+
+      // Transitions
+      map.getTransitions().forEach(transition => {
+        const x = transition.fromPosition.x * TILE_SIZE;
+        const y = transition.fromPosition.y * TILE_SIZE;
+        ctx.fillStyle = MAP_REGISTRY[transition.toMapId] ? 'rgba(14, 165, 233, 0.6)' : 'rgba(220, 38, 38, 0.7)';
+        ctx.fillRect(x + 4, y + 4, TILE_SIZE - 8, TILE_SIZE - 8);
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 14px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.fillText('⇄', x + TILE_SIZE / 2, y + TILE_SIZE / 2 + 5);
+        ctx.textAlign = 'left';
+      });
+
+      // Spawn point
+      const spawn = map.getSpawnPoint();
+      ctx.strokeStyle = '#facc15';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(spawn.x * TILE_SIZE + 2, spawn.y * TILE_SIZE + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+
+      // Region being dragged
+      const drag = dragRef.current;
+      if (drag?.mode === 'region') {
+        const minX = Math.min(drag.start.x, drag.last.x);
+        const minY = Math.min(drag.start.y, drag.last.y);
+        ctx.strokeStyle = '#ffffff';
+        ctx.setLineDash([6, 3]);
+        ctx.strokeRect(minX * TILE_SIZE, minY * TILE_SIZE,
+          (Math.abs(drag.last.x - drag.start.x) + 1) * TILE_SIZE, (Math.abs(drag.last.y - drag.start.y) + 1) * TILE_SIZE);
+        ctx.setLineDash([]);
+      }
+
+      if (hover && !testing) {
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(hover.x * TILE_SIZE, hover.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
+
+      if (testing && playerRef.current) {
+        ctx.fillStyle = '#f8fafc';
+        ctx.strokeStyle = '#0f172a';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc((playerRef.current.x + 0.5) * TILE_SIZE, (playerRef.current.y + 0.5) * TILE_SIZE, TILE_SIZE / 3, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+    });
+  }, [mapId]);
+
+  // Canvas sizing
+  useEffect(() => {
+    const resize = () => {
+      const canvas = canvasRef.current;
+      const container = containerRef.current;
+      if (!canvas || !container) return;
+      canvas.width = container.clientWidth;
+      canvas.height = container.clientHeight;
+    };
+
+    resize();
+    window.addEventListener('resize', resize);
+    return () => window.removeEventListener('resize', resize);
+  }, []);
+
+  // Render loop
+  useEffect(() => {
+    let frameId = 0;
+    let lastTime = performance.now();
+
+    const frame = (time: number) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const renderer = rendererRef.current;
+
+      if (canvas && ctx && renderer) {
+        const camera = cameraRef.current;
+
+        // Keep the play-test player centred
+        if (overlayStateRef.current.playTesting && playerRef.current) {
+          camera.x = canvas.width / 2 - (playerRef.current.x + 0.5) * TILE_SIZE;
+          camera.y = canvas.height / 2 - (playerRef.current.y + 0.5) * TILE_SIZE;
+        }
+
+        ctx.fillStyle = '#1f2937';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.save();
+        ctx.translate(Math.round(camera.x), Math.round(camera.y));
+        renderer.render(ctx, camera, time - lastTime);
+        ctx.restore();
+      }
+
+      lastTime = time;
+      frameId = requestAnimationFrame(frame);
+    };
+
+    frameId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  const startPlayTest = useCallback(() => {
+    const map = getMap();
+    if (!map) return;
+    playerRef.current = map.getSpawnPoint();
+    setPlayTesting(true);
+    setStatusMessage('Play-testing: move with WASD or the arrow keys, P to stop');
+  }, [getMap]);
+
+  const stopPlayTest = useCallback(() => {
+    setPlayTesting(false);
+    setStatusMessage('');
+  }, []);
+
+  const movePlayer = useCallback((dx: number, dy: number) => {
+    const map = getMap();
+    const player = playerRef.current;
+    if (!map || !player) return;
+
+    const next = { x: player.x + dx, y: player.y + dy };
+    if (!map.isWalkable(next.x, next.y)) {
+      setStatusMessage(`Blocked by ${map.getTerrainAt(next.x, next.y) ?? 'map edge'}`);
+      return;
+    }
+
+    playerRef.current = next;
+    const transition = map.getTransitionsAtPosition(next.x, next.y)[0];
+    const region = map.getRegionAtPosition(next.x, next.y);
+
+    if (transition) {
+      const target = MAP_REGISTRY[transition.toMapId];
+      setStatusMessage(target
+        ? `Transition to ${target.metadata.displayName} at (${transition.toPosition.x}, ${transition.toPosition.y})`
+        : `Broken transition: map "${transition.toMapId}" does not exist`);
+    } else {
+      setStatusMessage(region ? `In ${region.name} (${region.type})` : `${map.getTerrainAt(next.x, next.y)} (${next.x}, ${next.y})`);
+    }
+  }, [getMap]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      const editor = editorRef.current;
+      if (!editor) return;
+
+      const key = event.key.toLowerCase();
+      if ((event.ctrlKey || event.metaKey) && key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          editor.redo();
+        } else {
+          editor.undo();
+        }
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && key === 'y') {
+        event.preventDefault();
+        editor.redo();
+        return;
+      }
+      if (key === 'p') {
+        if (playTesting) {
+          stopPlayTest();
+        } else {
+          startPlayTest();
+        }
+        return;
+      }
+
+      const directions: Record<string, [number, number]> = {
+        arrowup: [0, -1], w: [0, -1],
+        arrowdown: [0, 1], s: [0, 1],
+        arrowleft: [-1, 0], a: [-1, 0],
+        arrowright: [1, 0], d: [1, 0]
+      };
+      const direction = directions[key];
+      if (!direction) return;
+
+      event.preventDefault();
+      if (playTesting) {
+        movePlayer(direction[0], direction[1]);
+      } else {
+        cameraRef.current.x -= direction[0] * TILE_SIZE * 2;
+        cameraRef.current.y -= direction[1] * TILE_SIZE * 2;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [playTesting, startPlayTest, stopPlayTest, movePlayer]);
+
+  const getTileFromEvent = (event: React.PointerEvent<HTMLCanvasElement>): Position => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const camera = cameraRef.current;
+    return {
+      x: Math.floor((event.clientX - rect.left - camera.x) / TILE_SIZE),
+      y: Math.floor((event.clientY - rect.top - camera.y) / TILE_SIZE)
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const editor = editorRef.current;
+    if (!editor || playTesting) return;
+
+    const tile = getTileFromEvent(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    // Right or middle button pans
+    if (event.button !== 0) {
+      dragRef.current = { mode: 'pan', start: { x: event.clientX, y: event.clientY }, last: { x: event.clientX, y: event.clientY } };
+      return;
+    }
+
+    const map = editor.getMap();
+    if (!map.isValidPosition(tile.x, tile.y)) return;
+
+    switch (tool) {
+      case 'terrain':
+        editor.beginStroke();
+        editor.paintTerrain(tile, terrain, brushSize);
+        dragRef.current = { mode: 'paint', start: tile, last: tile };
+        break;
+      case 'fill':
+        editor.fillTerrain(tile, terrain);
+        break;
+      case 'object':
+        if (!editor.placeObject(templateKey, tile)) {
+          setStatusMessage(`Could not place ${templateKey}`);
+        }
+        break;
+      case 'region':
+        dragRef.current = { mode: 'region', start: tile, last: tile };
+        break;
+      case 'spawner': {
+        if (placingSpawnerId) {
+          editor.updateSpawner(placingSpawnerId, { position: tile });
+          setPlacingSpawnerId(null);
+          setStatusMessage('');
+          break;
+        }
+        const animals = spawnerAnimals.split(',').map(animal => animal.trim()).filter(Boolean);
+        if (animals.length === 0) {
+          setStatusMessage('Enter at least one animal type for the spawner');
+          break;
+        }
+        editor.addSpawner(tile, animals, spawnerRadius);
+        break;
+      }
+      case 'transition': {
+        const target = MAP_REGISTRY[targetMapId];
+        if (!target) break;
+        const { width, height } = target.metadata.size;
+        const toPosition = {
+          x: Math.max(0, Math.min(width - 1, targetPosition.x)),
+          y: Math.max(0, Math.min(height - 1, targetPosition.y))
+        };
+        editor.addTransition(tile, targetMapId, toPosition, transitionType);
+        setStatusMessage(`Linked (${tile.x}, ${tile.y}) to ${target.metadata.displayName} (${toPosition.x}, ${toPosition.y})`);
+        break;
+      }
+      case 'spawn':
+        editor.setSpawnPoint(tile);
+        break;
+      case 'erase':
+        if (!editor.eraseAt(tile)) {
+          setStatusMessage('Nothing to erase here');
+        }
+        break;
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const editor = editorRef.current;
+    const drag = dragRef.current;
+    const tile = getTileFromEvent(event);
+
+    if (!hoverTile || hoverTile.x !== tile.x || hoverTile.y !== tile.y) {
+      setHoverTile(tile);
+    }
+    if (!editor || !drag) return;
+
+    if (drag.mode === 'pan') {
+      cameraRef.current.x += event.clientX - drag.last.x;
+      cameraRef.current.y += event.clientY - drag.last.y;
+      drag.last = { x: event.clientX, y: event.clientY };
+    } else if (drag.last.x !== tile.x || drag.last.y !== tile.y) {
+      drag.last = tile;
+      if (drag.mode === 'paint') {
+        editor.paintTerrain(tile, terrain, brushSize);
+      }
+    }
+  };
+
+  const handlePointerUp = () => {
+    const editor = editorRef.current;
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!editor || !drag) return;
+
+    if (drag.mode === 'paint') {
+      editor.endStroke();
+    } else if (drag.mode === 'region') {
+      editor.addRegion({ minX: drag.start.x, minY: drag.start.y, maxX: drag.last.x, maxY: drag.last.y }, regionType);
+    }
+  };
+
+  const placeSpawner = (spawnerId: string) => {
+    setTool('spawner');
+    setPlacingSpawnerId(spawnerId);
+    setStatusMessage(`Click a tile to place ${spawnerId}`);
+  };
+
+  const handleTargetMapChange = (id: string) => {
+    setTargetMapId(id);
+    if (MAP_REGISTRY[id]) {
+      setTargetPosition(MAP_REGISTRY[id].metadata.spawnPoint);
+    }
+  };
+
+  const handleExport = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const blob = new Blob([editor.exportJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${editor.getState().mapId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    editor.markSaved();
+    setStatusMessage('Map exported');
+  };
+
+  const handleMapChange = (id: string) => {
+    if (editorState?.dirty && !window.confirm('Discard unsaved changes to this map?')) return;
+    setMapId(id);
+  };
+
+  const map = getMap();
+  const metadata = map?.getMetadata();
+  const activeTool = TOOLS.find(t => t.id === tool);
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-900 text-gray-100">
+      {/* Toolbar */}
+      <header className="flex flex-wrap items-center gap-2 px-3 py-2 bg-gray-800 border-b border-gray-700">
+        <Link to="/" className="p-2 rounded hover:bg-gray-700" aria-label="Home">
+          <Home className="w-5 h-5" />
+        </Link>
+        <select
+          value={mapId}
+          onChange={e => handleMapChange(e.target.value)}
+          className="bg-gray-700 rounded px-2 py-1 text-sm"
+        >
+          {Object.values(MAP_REGISTRY).map(data => (
+            <option key={data.metadata.id} value={data.metadata.id}>{data.metadata.displayName}</option>
+          ))}
+        </select>
+
+        <div className="flex gap-1 ml-2">
+          {TOOLS.map(({ id, label, hint }) => (
+            <button
+              key={id}
+              title={hint}
+              onClick={() => setTool(id)}
+              disabled={playTesting}
+              className={`px-2 py-1 rounded text-sm disabled:opacity-50 ${tool === id ? 'bg-green-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1 ml-auto">
+          <button
+            onClick={() => editorRef.current?.undo()}
+            disabled={!editorState?.canUndo || playTesting}
+            className="p-2 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+            title="Undo (Ctrl+Z)"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => editorRef.current?.redo()}
+            disabled={!editorState?.canRedo || playTesting}
+            className="p-2 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <RotateCw className="w-4 h-4" />
+          </button>
+          <Button
+            size="sm"
+            variant={playTesting ? 'danger' : 'secondary'}
+            leftIcon={playTesting ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            onClick={playTesting ? stopPlayTest : startPlayTest}
+          >
+            {playTesting ? 'Stop' : 'Play-test'}
+          </Button>
+          <Button size="sm" leftIcon={<Download className="w-4 h-4" />} onClick={handleExport}>
+            Export{editorState?.dirty ? ' *' : ''}
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Canvas */}
+        <div ref={containerRef} className="relative flex-1 min-w-0">
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={() => setHoverTile(null)}
+            onContextMenu={e => e.preventDefault()}
+          />
+          <div className="absolute bottom-0 inset-x-0 px-3 py-1 text-xs bg-black/60 flex justify-between">
+            <span>{statusMessage || activeTool?.hint}</span>
+            <span>
+              {hoverTile && map?.isValidPosition(hoverTile.x, hoverTile.y)
+                ? `(${hoverTile.x}, ${hoverTile.y}) ${map.getTerrainAt(hoverTile.x, hoverTile.y)}`
+                : ''}
+            </span>
+          </div>
+        </div>
+
+        {/* Tool options and map contents */}
+        <aside className="w-72 overflow-y-auto bg-gray-800 border-l border-gray-700 p-3 space-y-4 text-sm" data-revision={revision}>
+          {(tool === 'terrain' || tool === 'fill') && (
+            <section>
+              <h3 className="font-semibold mb-2">Terrain</h3>
+              <div className="grid grid-cols-5 gap-1">
+                {TERRAIN_TYPES.map(type => (
+                  <button
+                    key={type}
+                    title={type}
+                    onClick={() => setTerrain(type)}
+                    className={`h-8 rounded border-2 ${terrain === type ? 'border-white' : 'border-transparent'}`}
+                    style={{ backgroundColor: TERRAIN_SWATCHES[type] }}
+                  />
+                ))}
+              </div>
+              {tool === 'terrain' && (
+                <label className="block mt-2">
+                  Brush size: {brushSize}
+                  <input type="range" min={1} max={5} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-full" />
+                </label>
+              )}
+            </section>
+          )}
+
+          {tool === 'object' && (
+            <section>
+              <h3 className="font-semibold mb-2">Object template</h3>
+              <select value={templateKey} onChange={e => setTemplateKey(e.target.value)} className="w-full bg-gray-700 rounded px-2 py-1">
+                {Object.entries(OBJECT_TEMPLATES).map(([key, template]) => (
+                  <option key={key} value={key}>{template.metadata?.name || key}</option>
+                ))}
+              </select>
+            </section>
+          )}
+
+          {tool === 'region' && (
+            <section>
+              <h3 className="font-semibold mb-2">Region type</h3>
+              <select value={regionType} onChange={e => setRegionType(e.target.value as MapRegion['type'])} className="w-full bg-gray-700 rounded px-2 py-1">
+                {REGION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </section>
+          )}
+
+          {tool === 'spawner' && (
+            <section className="space-y-2">
+              <h3 className="font-semibold">Spawner</h3>
+              <label className="block">
+                Animal types (comma separated)
+                <input value={spawnerAnimals} onChange={e => setSpawnerAnimals(e.target.value)} className="w-full bg-gray-700 rounded px-2 py-1 mt-1" />
+              </label>
+              <label className="block">
+                Radius: {spawnerRadius}
+                <input type="range" min={1} max={10} value={spawnerRadius} onChange={e => setSpawnerRadius(Number(e.target.value))} className="w-full" />
+              </label>
+            </section>
+          )}
+
+          {tool === 'transition' && (
+            <section className="space-y-2">
+              <h3 className="font-semibold">Link target</h3>
+              <select value={targetMapId} onChange={e => handleTargetMapChange(e.target.value)} className="w-full bg-gray-700 rounded px-2 py-1">
+                {Object.values(MAP_REGISTRY).map(data => (
+                  <option key={data.metadata.id} value={data.metadata.id}>{data.metadata.displayName}</option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <label className="flex-1">
+                  X
+                  <input type="number" value={targetPosition.x} onChange={e => setTargetPosition(p => ({ ...p, x: Number(e.target.value) }))} className="w-full bg-gray-700 rounded px-2 py-1" />
+                </label>
+                <label className="flex-1">
+                  Y
+                  <input type="number" value={targetPosition.y} onChange={e => setTargetPosition(p => ({ ...p, y: Number(e.target.value) }))} className="w-full bg-gray-700 rounded px-2 py-1" />
+                </label>
+              </div>
+              <select value={transitionType} onChange={e => setTransitionType(e.target.value as MapTransition['transitionType'])} className="w-full bg-gray-700 rounded px-2 py-1">
+                {TRANSITION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </section>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={showGrid} onChange={e => setShowGrid(e.target.checked)} />
+            Show grid
+          </label>
+
+          {map && metadata && (
+            <>
+              <section>
+                <h3 className="font-semibold mb-1">{metadata.displayName}</h3>
+                <p className="text-gray-400">
+                  {metadata.size.width}×{metadata.size.height} · spawn ({metadata.spawnPoint.x}, {metadata.spawnPoint.y})
+                </p>
+              </section>
+
+              <section>
+                <h3 className="font-semibold mb-1">Links ({map.getTransitions().length})</h3>
+                <ul className="space-y-1">
+                  {map.getTransitions().map(transition => (
+                    <li key={transition.id} className="flex justify-between gap-2">
+                      <span className={MAP_REGISTRY[transition.toMapId] ? '' : 'text-red-400'}>
+                        ({transition.fromPosition.x}, {transition.fromPosition.y}) → {transition.toMapId}
+                      </span>
+                      <button onClick={() => editorRef.current?.removeTransition(transition.id)} className="text-gray-400 hover:text-red-400">✕</button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section>
+                <h3 className="font-semibold mb-1">Spawners ({map.getSpawners().length})</h3>
+                <ul className="space-y-1">
+                  {map.getSpawners().map(spawner => (
+                    <li key={spawner.id} className="flex justify-between gap-2">
+                      <span>
+                        {spawner.animalTypes.join(', ')}
+                        {spawner.position ? ` @ (${spawner.position.x}, ${spawner.position.y})` : ' (unplaced)'}
+                      </span>
+                      <span className="flex gap-1">
+                        {!spawner.position && (
+                          <button onClick={() => placeSpawner(spawner.id)} className="text-orange-400 hover:text-orange-300">Place</button>
+                        )}
+                        <button onClick={() => editorRef.current?.removeSpawner(spawner.id)} className="text-gray-400 hover:text-red-400">✕</button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section>
+                <h3 className="font-semibold mb-1">Regions ({map.getRegions().length})</h3>
+                <ul className="space-y-1">
+                  {map.getRegions().map(region => (
+                    <li key={region.id} className="flex justify-between gap-2">
+                      <span>{region.name} <span className="text-gray-400">({region.type})</span></span>
+                      <button onClick={() => editorRef.current?.removeRegion(region.id)} className="text-gray-400 hover:text-red-400">✕</button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            </>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default MapEditor;
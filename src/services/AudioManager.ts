@@ -1,3 +1,8 @@
+import { SynthSoundBank, SynthAmbientHandle } from './SynthSoundBank';
+
+// Give up on a file that neither loads nor errors (e.g. preload='none' on mobile)
+const LOAD_TIMEOUT_MS = 4000;
+
 export interface AudioConfig {
   masterVolume: number;
   musicVolume: number;
@@ -45,6 +50,8 @@ export class AudioManager {
   private isMobile: boolean = false;
   private audioContext: AudioContext | null = null;
   private gainNodes: Map<string, GainNode> = new Map();
+  private synthBank: SynthSoundBank | null = null;
+  private synthAmbient: SynthAmbientHandle | null = null;
 
   constructor(config: Partial<AudioConfig> = {}) {
     this.config = {
@@ -71,6 +78,7 @@ export class AudioManager {
       if (typeof AudioContext !== 'undefined') {
         this.audioContext = new AudioContext();
         this.createGainNodes();
+        this.synthBank = new SynthSoundBank(this.audioContext);
       }
 
       // Load essential audio files
@@ -200,7 +208,21 @@ export class AudioManager {
         audio.preload = 'none';
       }
 
+      const timeout = setTimeout(() => {
+        if (!this.loadedAudio.has(id)) {
+          this.loadedAudio.set(id, {
+            element: audio,
+            isLoaded: false,
+            isPlaying: false,
+            currentTime: 0,
+            duration: 0
+          });
+        }
+        resolve();
+      }, LOAD_TIMEOUT_MS);
+
       audio.addEventListener('canplaythrough', () => {
+        clearTimeout(timeout);
         this.loadedAudio.set(id, {
           element: audio,
           isLoaded: true,
@@ -212,6 +234,7 @@ export class AudioManager {
       });
 
       audio.addEventListener('error', (error) => {
+        clearTimeout(timeout);
         console.warn(`Failed to load audio: ${id}`, error);
         // Create silent placeholder
         this.loadedAudio.set(id, {
@@ -244,7 +267,9 @@ export class AudioManager {
 
     const source = this.audioSources.get(id);
     if (!source) {
-      console.warn(`Audio source not found: ${id}`);
+      if (!this.playSynthesized(id, 'sfx', options)) {
+        console.warn(`Audio source not found: ${id}`);
+      }
       return;
     }
 
@@ -255,6 +280,8 @@ export class AudioManager {
 
     const loadedAudio = this.loadedAudio.get(id);
     if (!loadedAudio?.isLoaded) {
+      // Missing or broken file - synthesize it instead
+      this.playSynthesized(id, source.type, { ...options, volume: options.volume ?? source.volume });
       return;
     }
 
@@ -393,13 +420,15 @@ export class AudioManager {
     }
 
     // Stop current ambient
-    if (this.ambientTrack) {
+    if (this.ambientTrack || this.synthAmbient) {
       await this.stopAmbient();
     }
 
     const source = this.audioSources.get(id);
     if (!source || source.type !== 'ambient') {
-      console.warn(`Ambient source not found: ${id}`);
+      if (!this.startSynthAmbient(id, options)) {
+        console.warn(`Ambient source not found: ${id}`);
+      }
       return;
     }
 
@@ -410,6 +439,7 @@ export class AudioManager {
 
     const loadedAudio = this.loadedAudio.get(id);
     if (!loadedAudio?.isLoaded) {
+      this.startSynthAmbient(id, options);
       return;
     }
 
@@ -434,6 +464,11 @@ export class AudioManager {
   }
 
   async stopAmbient(fadeOut: number = 2000): Promise<void> {
+    if (this.synthAmbient) {
+      this.synthAmbient.stop(fadeOut);
+      this.synthAmbient = null;
+    }
+
     if (!this.ambientTrack) return;
 
     if (fadeOut > 0) {
@@ -444,6 +479,42 @@ export class AudioManager {
     this.ambientTrack = null;
   }
 
+  // Synthesized fallback
+
+  /**
+   * Synthesize a sound through the matching gain node. Returns false if the
+   * bank has no voice for this id or Web Audio is unavailable.
+   */
+  private playSynthesized(id: string, type: AudioSource['type'], options: SoundOptions): boolean {
+    const destination = this.gainNodes.get(type);
+    if (!this.synthBank || !destination) return false;
+
+    this.resumeAudioContext();
+    return this.synthBank.play(id, destination, {
+      volume: options.volume,
+      pitch: options.pitch,
+      delay: options.delay
+    });
+  }
+
+  private startSynthAmbient(id: string, options: SoundOptions): boolean {
+    const destination = this.gainNodes.get('ambient');
+    if (!this.synthBank || !destination) return false;
+
+    this.resumeAudioContext();
+    this.synthAmbient = this.synthBank.startAmbient(id, destination, options.volume ?? 1, options.fadeIn ?? 0);
+    return this.synthAmbient !== null;
+  }
+
+  private resumeAudioContext(): void {
+    // Contexts start suspended until the first user gesture
+    if (this.audioContext?.state === 'suspended') {
+      this.audioContext.resume().catch(() => {
+        // Will retry on the next sound
+      });
+    }
+  }
+
   // Utility methods
   private calculateVolume(type: 'music' | 'sfx' | 'ambient', customVolume?: number): number {
     let baseVolume: number;
@@ -541,6 +612,10 @@ export class AudioManager {
       this.ambientTrack.pause();
       this.ambientTrack = null;
     }
+    if (this.synthAmbient) {
+      this.synthAmbient.stop();
+      this.synthAmbient = null;
+    }
   }
 
   dispose(): void {
@@ -548,6 +623,7 @@ export class AudioManager {
     this.loadedAudio.clear();
     this.audioSources.clear();
     this.gainNodes.clear();
+    this.synthBank = null;
     
     if (this.audioContext) {
       this.audioContext.close();
@@ -589,8 +665,9 @@ export class AudioManager {
       bird: 'bird_chirp'
     };
 
-    const soundId = soundMap[animalType];
-    if (soundId) {
+    // Species without a recorded call fall back to their synthesized voice
+    const soundId = soundMap[animalType] || `animal_${animalType}_calling`;
+    if (this.audioSources.has(soundId) || this.synthBank?.has(soundId)) {
       this.playSound(soundId, { volume: 0.7 });
     }
   }
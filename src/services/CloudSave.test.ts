@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CloudSaveConfig, CloudSaveService } from './CloudSave';
+import { MockPocketBase, createMockPocketBase } from './MockPocketBase';
+import { ComprehensiveGameSave, saveManager } from './SaveManager';
+import { partySystem } from '../game/PartySystem';
+
+const EMAIL = 'ranger@example.com';
+const PASSWORD = 'acorns-for-everyone';
+
+let server: MockPocketBase;
+let services: CloudSaveService[];
+
+async function createService(config: Partial<CloudSaveConfig> = {}): Promise<CloudSaveService> {
+  const service = new CloudSaveService(config, server);
+  services.push(service);
+  await service.authenticate(EMAIL, PASSWORD);
+  return service;
+}
+
+/**
+ * Write a local save and read it back the way the cloud save will see it
+ */
+async function writeLocal(
+  player: Partial<ComprehensiveGameSave['player']>,
+  lastSaved: number,
+  base?: ComprehensiveGameSave
+): Promise<ComprehensiveGameSave> {
+  await saveManager.saveGameState({
+    ...base,
+    player: { ...base?.player, ...player } as ComprehensiveGameSave['player'],
+    meta: { ...base?.meta, lastSaved } as ComprehensiveGameSave['meta']
+  }, 1);
+
+  const loaded = await saveManager.loadGameState(1);
+  return loaded.data!;
+}
+
+/**
+ * Upload from a second device. It keeps its own sync base, so this device's is put back.
+ */
+async function uploadFromOtherDevice(save: ComprehensiveGameSave): Promise<void> {
+  const baseKey = 'feral-friends-sync-base-1';
+  const base = localStorage.getItem(baseKey);
+
+  const otherDevice = await createService();
+  await otherDevice.uploadSave(save, 1);
+
+  if (base) {
+    localStorage.setItem(baseKey, base);
+  } else {
+    localStorage.removeItem(baseKey);
+  }
+}
+
+function readCloud(): ComprehensiveGameSave {
+  const [record] = server.getRecords('game_saves');
+  return JSON.parse(record.saveData as string);
+}
+
+beforeEach(() => {
+  server = createMockPocketBase();
+  server.seedUser(EMAIL, PASSWORD);
+  services = [];
+});
+
+afterEach(() => {
+  services.forEach(service => service.setAutoSync(false));
+});
+
+describe('CloudSaveService sync', () => {
+  it('uploads a local save and downloads it again on a fresh device', async () => {
+    const service = await createService();
+    await writeLocal({ name: 'Willow', experience: 42 }, Date.now());
+
+    const upload = await service.synchronizeSaves();
+    expect(upload).toMatchObject({ success: true, uploaded: 1, downloaded: 0 });
+    expect(readCloud().player).toMatchObject({ name: 'Willow', experience: 42 });
+
+    await saveManager.deleteSaveData(1);
+    const download = await service.synchronizeSaves();
+    expect(download).toMatchObject({ success: true, uploaded: 0, downloaded: 1 });
+
+    const restored = await saveManager.loadGameState(1);
+    expect(restored.data?.player).toMatchObject({ name: 'Willow', experience: 42 });
+  });
+
+  it('rejects a cloud save whose checksum does not match its data', async () => {
+    const service = await createService();
+    const save = await writeLocal({ name: 'Willow' }, Date.now());
+    await service.uploadSave(save, 1);
+
+    server.getRecords('game_saves')[0].checksum = 'tampered';
+
+    const result = await service.downloadSave(1);
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('checksum mismatch');
+  });
+
+  it('rejects a cloud save whose data changed after upload', async () => {
+    const service = await createService();
+    const save = await writeLocal({ name: 'Willow' }, Date.now());
+    await service.uploadSave(save, 1);
+
+    const [record] = server.getRecords('game_saves');
+    record.saveData = JSON.stringify({ ...save, player: { ...save.player, level: 99 } });
+
+    const result = await service.downloadSave(1);
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('checksum mismatch');
+  });
+});
+
+describe('CloudSaveService offline queue', () => {
+  it('queues uploads while offline and sends them when back online', async () => {
+    const service = await createService();
+    const save = await writeLocal({ name: 'Willow' }, Date.now());
+
+    await service.setOnlineStatus(false);
+    const result = await service.uploadSave(save, 1);
+
+    expect(result.success).toBe(false);
+    expect(service.getSyncStatus().pendingOperations).toBe(1);
+    expect(server.getRecords('game_saves')).toHaveLength(0);
+
+    await service.setOnlineStatus(true);
+    expect(service.getSyncStatus().pendingOperations).toBe(0);
+    expect(readCloud().player.name).toBe('Willow');
+  });
+
+  it('queues uploads whose request never reaches the server', async () => {
+    const service = await createService();
+    const save = await writeLocal({ name: 'Willow' }, Date.now());
+
+    server.setOnline(false);
+    const result = await service.uploadSave(save, 1);
+
+    expect(result.message).toContain('queued');
+    expect(service.getSyncStatus().pendingOperations).toBe(1);
+
+    server.setOnline(true);
+    await service.setOnlineStatus(true);
+    expect(service.getSyncStatus().pendingOperations).toBe(0);
+    expect(server.getRecords('game_saves')).toHaveLength(1);
+  });
+
+  it('keeps an upload queued while the server is still unreachable', async () => {
+    const service = await createService();
+    const save = await writeLocal({ name: 'Willow' }, Date.now());
+
+    server.setOnline(false);
+    await service.uploadSave(save, 1);
+    await service.setOnlineStatus(true);
+
+    expect(service.getSyncStatus().pendingOperations).toBe(1);
+    expect(server.getRecords('game_saves')).toHaveLength(0);
+  });
+});
+
+describe('CloudSaveService conflict strategies', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  /**
+   * Local slot saved an hour ago at 100 xp; the cloud was written just now at 300 xp
+   */
+  async function createConflict(): Promise<void> {
+    const local = await writeLocal({ name: 'Willow', experience: 100 }, Date.now() - HOUR);
+    await uploadFromOtherDevice({ ...local, player: { ...local.player, experience: 300 } });
+  }
+
+  async function readLocal(): Promise<ComprehensiveGameSave> {
+    const loaded = await saveManager.loadGameState(1);
+    return loaded.data!;
+  }
+
+  it('server: replaces the local save with the cloud one', async () => {
+    const service = await createService({ conflictResolution: 'server' });
+    await createConflict();
+
+    const result = await service.synchronizeSaves();
+
+    expect(result).toMatchObject({ uploaded: 0, downloaded: 1 });
+    expect(result.conflicts[0].resolution).toBe('server');
+    expect((await readLocal()).player.experience).toBe(300);
+  });
+
+  it('local: overwrites the cloud save with the local one', async () => {
+    const service = await createService({ conflictResolution: 'local' });
+    await createConflict();
+
+    const result = await service.synchronizeSaves();
+
+    expect(result).toMatchObject({ uploaded: 1, downloaded: 0 });
+    expect(result.conflicts[0].resolution).toBe('local');
+    expect(readCloud().player.experience).toBe(100);
+  });
+
+  it('newest: keeps the cloud save when it was written later', async () => {
+    const service = await createService({ conflictResolution: 'newest' });
+    await createConflict();
+
+    const result = await service.synchronizeSaves();
+
+    expect(result.conflicts[0]).toMatchObject({ resolution: 'server', reason: 'Cloud is newer' });
+    expect((await readLocal()).player.experience).toBe(300);
+  });
+
+  it('newest: keeps the local save when it was written later', async () => {
+    const service = await createService({ conflictResolution: 'newest' });
+    const local = await writeLocal({ name: 'Willow', experience: 100 }, Date.now());
+    await uploadFromOtherDevice({ ...local, player: { ...local.player, experience: 300 } });
+    await writeLocal({ experience: 120 }, Date.now() + HOUR, local);
+
+    const result = await service.synchronizeSaves();
+
+    expect(result.conflicts[0]).toMatchObject({ resolution: 'local', reason: 'Local is newer' });
+    expect(readCloud().player.experience).toBe(120);
+  });
+
+  it('prompt: asks the player and follows their choice', async () => {
+    const service = await createService({ conflictResolution: 'prompt' });
+    const onConflictDetected = vi.fn(async () => 'server' as const);
+    service.setCallbacks({ onConflictDetected });
+    await createConflict();
+
+    const result = await service.synchronizeSaves();
+
+    expect(onConflictDetected).toHaveBeenCalledWith(expect.objectContaining({ slotId: 1 }));
+    expect(result.conflicts[0].resolution).toBe('server');
+    expect((await readLocal()).player.experience).toBe(300);
+  });
+
+  it('merge: combines changes from both devices against the last synced save', async () => {
+    const service = await createService({ conflictResolution: 'merge' });
+    const base = await writeLocal({ name: 'Willow', experience: 100 }, Date.now() - HOUR);
+    await service.uploadSave(base, 1);
+
+    // Both devices earn experience from the same starting point
+    await uploadFromOtherDevice({ ...base, player: { ...base.player, experience: 130 } });
+    await writeLocal({ experience: 150 }, Date.now() + HOUR, base);
+
+    const result = await service.synchronizeSaves();
+
+    expect(result).toMatchObject({ success: true, uploaded: 1, downloaded: 1 });
+    expect((await readLocal()).player.experience).toBe(180);
+    expect(readCloud().player.experience).toBe(180);
+  });
+
+  it('merge: reports fields both devices changed differently', async () => {
+    const service = await createService({ conflictResolution: 'merge' });
+    const base = await writeLocal({ name: 'Willow' }, Date.now() - HOUR);
+    await service.uploadSave(base, 1);
+
+    await uploadFromOtherDevice({ ...base, player: { ...base.player, name: 'Hazel' } });
+    await writeLocal({ name: 'Rowan' }, Date.now() + HOUR, base);
+
+    const result = await service.synchronizeSaves();
+
+    expect(result.conflicts[0].resolution).toBe('merged');
+    expect(result.conflicts[0].mergeConflicts).toEqual([
+      expect.objectContaining({ path: 'player.name', local: 'Rowan', server: 'Hazel', kept: 'local' })
+    ]);
+    expect(service.getConflictReport()).toHaveLength(1);
+  });
+
+  it('merge: reloads the running game when its slot was merged', async () => {
+    const service = await createService({ conflictResolution: 'merge' });
+    const base = await writeLocal({ name: 'Willow' }, Date.now() - HOUR);
+    saveManager.restoreRuntimeState(base, 1);
+    await service.uploadSave(base, 1);
+
+    const withParty = (members: string[]) => ({ ...base, systems: { ...base.systems, party: { members, maxSize: 4 } } });
+    await uploadFromOtherDevice(withParty(['fox']));
+    await saveManager.saveGameState({ ...withParty(['owl']), meta: { ...base.meta, lastSaved: Date.now() + HOUR } }, 1);
+
+    await service.synchronizeSaves();
+
+    expect(partySystem.getMembers()).toEqual(['owl', 'fox']);
+    partySystem.loadSaveData({});
+  });
+});
@@ -1,15 +1,39 @@
 // Cloud Save Service using PocketBase
 // Provides user authentication, save synchronization, conflict resolution, and offline-first functionality
 
-import PocketBase, { AuthModel } from 'pocketbase';
+import PocketBase, { AuthModel, ClientResponseError, RecordModel } from 'pocketbase';
 import { ComprehensiveGameSave, saveManager } from './SaveManager';
+import { MergeConflict, mergeSaves } from './SaveMerge';
 
 export interface CloudSaveConfig {
   pocketbaseUrl: string;
   maxCloudSlots: number;
   syncInterval: number;
   retryAttempts: number;
-  conflictResolution: 'server' | 'local' | 'newest' | 'prompt';
+  conflictResolution: 'merge' | 'server' | 'local' | 'newest' | 'prompt';
+}
+
+// The parts of a PocketBase collection the cloud save uses
+export interface CloudSaveRecordService {
+  authWithPassword(identity: string, password: string): Promise<{ record: AuthModel }>;
+  create(data: Record<string, unknown>): Promise<RecordModel>;
+  update(id: string, data: Record<string, unknown>): Promise<RecordModel>;
+  delete(id: string): Promise<boolean>;
+  getList(page: number, perPage: number, options?: { filter?: string; sort?: string }): Promise<{
+    totalItems: number;
+    items: RecordModel[];
+  }>;
+  getFullList(options?: { filter?: string; sort?: string }): Promise<RecordModel[]>;
+}
+
+// The parts of a PocketBase client the cloud save uses; a PocketBase instance or MockPocketBase
+export interface CloudSaveClient {
+  authStore: {
+    readonly isValid: boolean;
+    readonly model: AuthModel;
+    clear(): void;
+  };
+  collection(name: string): CloudSaveRecordService;
 }
 
 export interface CloudSaveRecord {
@@ -38,8 +62,10 @@ export interface ConflictInfo {
   slotId: number;
   localLastSaved: number;
   cloudLastSaved: number;
-  resolution: 'server' | 'local' | 'skip';
+  resolution: 'server' | 'local' | 'skip' | 'merged';
   reason: string;
+  // Fields that changed differently on both devices, filled in when saves are merged
+  mergeConflicts?: MergeConflict[];
 }
 
 export interface AuthResult {
@@ -49,7 +75,7 @@ export interface AuthResult {
 }
 
 export class CloudSaveService {
-  private pb: PocketBase;
+  private pb: CloudSaveClient;
   private config: CloudSaveConfig;
   private syncTimer: number | null = null;
   private isOnline: boolean = navigator.onLine;
@@ -64,20 +90,46 @@ export class CloudSaveService {
     onError?: (error: string) => void;
   } = {};
 
-  constructor(config: Partial<CloudSaveConfig> = {}) {
+  /**
+   * Pass a client (e.g. a MockPocketBase) to target something other than the
+   * configured server. Setting VITE_POCKETBASE_MOCK=true uses the in-process mock.
+   */
+  constructor(config: Partial<CloudSaveConfig> = {}, client?: CloudSaveClient) {
     this.config = {
       pocketbaseUrl: import.meta.env.VITE_POCKETBASE_URL || 'http://localhost:8090',
       maxCloudSlots: 5,
       syncInterval: 300000, // 5 minutes
       retryAttempts: 3,
-      conflictResolution: 'newest',
+      conflictResolution: 'merge',
       ...config
     };
 
-    this.pb = new PocketBase(this.config.pocketbaseUrl);
+    this.pb = client ?? new PocketBase(this.config.pocketbaseUrl);
+    if (!client && import.meta.env.VITE_POCKETBASE_MOCK === 'true') {
+      // Loaded on demand so the mock stays out of production bundles
+      import('./MockPocketBase')
+        .then(({ createMockPocketBase }) => {
+          this.setClient(createMockPocketBase({ baseUrl: this.config.pocketbaseUrl }));
+        })
+        .catch((error) => {
+          // Stay offline rather than fall through to a server that was never meant to be used
+          console.warn('Failed to load the mock PocketBase client:', error);
+          this.setOnlineStatus(false);
+        });
+    }
     this.initializeCloudSave();
   }
 
+  /**
+   * Switch to another client, picking up its signed-in user if it has one
+   */
+  setClient(client: CloudSaveClient): void {
+    this.stopSyncTimer();
+    this.pb = client;
+    this.isAuthenticated = false;
+    this.restoreAuthentication();
+  }
+
   /**
    * Authenticate user with email and password
    */
@@ -217,6 +269,9 @@ export class CloudSaveService {
         cloudId = created.id;
       }
 
+      // Both sides now hold this save; it is the base for the next merge
+      this.setSyncBase(slotId, saveData);
+
       return {
         success: true,
         message: `Save uploaded to cloud slot ${slotId}`,
@@ -224,6 +279,15 @@ export class CloudSaveService {
       };
 
     } catch (error) {
+      // The request never reached the server - treat it like being offline
+      if (error instanceof ClientResponseError && error.status === 0) {
+        this.pendingOperations.push(async () => { await this.uploadSave(saveData, slotId); });
+        return {
+          success: false,
+          message: 'Network unavailable - queued for sync when online'
+        };
+      }
+
       console.error('Upload failed:', error);
       return {
         success: false,
@@ -377,6 +441,8 @@ export class CloudSaveService {
 
       this.callbacks.onSyncProgress?.({ current: 5, total: 5, message: 'Sync complete' });
 
+      this.recordMergeConflicts(result.conflicts);
+
       result.success = result.errors.length === 0;
       result.message = result.success ? 
         `Sync completed: ${result.uploaded} uploaded, ${result.downloaded} downloaded` :
@@ -480,6 +546,7 @@ export class CloudSaveService {
       }
 
       await this.pb.collection('game_saves').delete(records.items[0]!.id);
+      this.setSyncBase(slotId, null);
 
       return {
         success: true,
@@ -520,6 +587,16 @@ export class CloudSaveService {
     }
   }
 
+  /**
+   * Update connectivity; coming back online replays queued operations
+   */
+  async setOnlineStatus(online: boolean): Promise<void> {
+    this.isOnline = online;
+    if (online) {
+      await this.processPendingOperations();
+    }
+  }
+
   /**
    * Get sync status information
    */
@@ -538,19 +615,50 @@ export class CloudSaveService {
     };
   }
 
+  /**
+   * Fields that diverged during merges, latest report per slot, until dismissed
+   */
+  getConflictReport(): ConflictInfo[] {
+    try {
+      const saved = localStorage.getItem('feral-friends-sync-conflicts');
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.warn('Failed to load conflict report:', error);
+      return [];
+    }
+  }
+
+  clearConflictReport(): void {
+    localStorage.removeItem('feral-friends-sync-conflicts');
+  }
+
   // Private helper methods
 
+  private recordMergeConflicts(conflicts: ConflictInfo[]): void {
+    const merged = conflicts.filter(conflict => conflict.mergeConflicts?.length);
+    if (merged.length === 0) return;
+
+    const report = [
+      ...this.getConflictReport().filter(existing => !merged.some(c => c.slotId === existing.slotId)),
+      ...merged
+    ].sort((a, b) => a.slotId - b.slotId);
+
+    try {
+      localStorage.setItem('feral-friends-sync-conflicts', JSON.stringify(report));
+    } catch (error) {
+      console.warn('Failed to save conflict report:', error);
+    }
+  }
+
   private async initializeCloudSave(): Promise<void> {
     // Set up online/offline listeners
-    window.addEventListener('online', () => {
-      this.isOnline = true;
-      this.processPendingOperations();
-    });
+    window.addEventListener('online', () => this.setOnlineStatus(true));
+    window.addEventListener('offline', () => this.setOnlineStatus(false));
 
-    window.addEventListener('offline', () => {
-      this.isOnline = false;
-    });
+    this.restoreAuthentication();
+  }
 
+  private restoreAuthentication(): void {
     // Check if user is already authenticated
     if (this.pb.authStore.isValid) {
       this.isAuthenticated = true;
@@ -590,6 +698,9 @@ export class CloudSaveService {
       if (cloudData.success && cloudData.data) {
         const saveResult = await saveManager.saveGameState(cloudData.data, slotId);
         result.downloaded = saveResult.success;
+        if (saveResult.success) {
+          this.setSyncBase(slotId, cloudData.data);
+        }
       }
       return result;
     }
@@ -614,6 +725,10 @@ export class CloudSaveService {
 
       // Auto-resolve based on config or ask user
       let resolution = this.config.conflictResolution;
+
+      if (resolution === 'merge') {
+        return this.mergeSlot(slotId, conflict);
+      }
       
       if (resolution === 'newest') {
         resolution = localTime > cloudTime ? 'local' : 'server';
@@ -635,6 +750,10 @@ export class CloudSaveService {
         if (cloudData.success && cloudData.data) {
           const saveResult = await saveManager.saveGameState(cloudData.data, slotId);
           result.downloaded = saveResult.success;
+          if (saveResult.success) {
+            this.setSyncBase(slotId, cloudData.data);
+            this.reloadActiveSlot(slotId, cloudData.data);
+          }
         }
       }
 
@@ -644,6 +763,92 @@ export class CloudSaveService {
     return result;
   }
 
+  /**
+   * Three-way merge a slot that changed on both this device and the cloud,
+   * then write the result to both sides
+   */
+  private async mergeSlot(slotId: number, conflict: ConflictInfo): Promise<{
+    uploaded: boolean;
+    downloaded: boolean;
+    conflict?: ConflictInfo;
+  }> {
+    const result: { uploaded: boolean; downloaded: boolean; conflict?: ConflictInfo } = {
+      uploaded: false,
+      downloaded: false
+    };
+
+    const localData = await saveManager.loadGameState(slotId);
+    const cloudData = await this.downloadSave(slotId);
+    if (!localData.success || !localData.data) {
+      throw new Error(localData.message);
+    }
+    if (!cloudData.success || !cloudData.data) {
+      throw new Error(cloudData.message);
+    }
+
+    const { merged, conflicts } = mergeSaves(this.getSyncBase(slotId), localData.data, cloudData.data);
+
+    if (JSON.stringify(merged) !== JSON.stringify(localData.data)) {
+      const saveResult = await saveManager.saveGameState(merged, slotId);
+      if (!saveResult.success) {
+        throw new Error(saveResult.message);
+      }
+      result.downloaded = true;
+      this.reloadActiveSlot(slotId, merged);
+    }
+
+    if (JSON.stringify(merged) !== JSON.stringify(cloudData.data)) {
+      const uploadResult = await this.uploadSave(merged, slotId);
+      result.uploaded = uploadResult.success;
+    } else {
+      this.setSyncBase(slotId, merged);
+    }
+
+    if (conflicts.length > 0) {
+      conflict.resolution = 'merged';
+      conflict.reason = `Merged, ${conflicts.length} field${conflicts.length === 1 ? '' : 's'} changed on both devices`;
+      conflict.mergeConflicts = conflicts;
+      result.conflict = conflict;
+    }
+
+    return result;
+  }
+
+  /**
+   * Bring the running game's systems up to date when its slot was rewritten
+   */
+  private reloadActiveSlot(slotId: number, save: ComprehensiveGameSave): void {
+    if (saveManager.getActiveSlot() !== slotId) return;
+
+    const restore = saveManager.restoreRuntimeState(save, slotId);
+    if (!restore.success) {
+      throw new Error(`Failed to reload slot ${slotId}: ${restore.errors.join(', ')}`);
+    }
+  }
+
+  private getSyncBase(slotId: number): ComprehensiveGameSave | null {
+    try {
+      const saved = localStorage.getItem(`feral-friends-sync-base-${slotId}`);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.warn('Failed to load sync base:', error);
+      return null;
+    }
+  }
+
+  private setSyncBase(slotId: number, saveData: ComprehensiveGameSave | null): void {
+    try {
+      const key = `feral-friends-sync-base-${slotId}`;
+      if (saveData) {
+        localStorage.setItem(key, JSON.stringify(saveData));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.warn('Failed to save sync base:', error);
+    }
+  }
+
   private startSyncTimer(): void {
     if (this.syncTimer) {
       clearInterval(this.syncTimer);
@@ -0,0 +1,64 @@
+// Game Event Subscribers
+// Connects quests, achievements, experience, statistics and audio cues to the game event bus
+
+import { GameEventBus, GameEventTable, gameEvents, resolveGameEvent } from '../game/GameEvents';
+import { questSystem, subscribeQuestEvents } from '../game/QuestSystem';
+import { subscribeAchievements } from '../game/AchievementSystem';
+import { subscribeExperience } from '../game/ProgressionSystem';
+import { gameStatistics } from '../game/GameStatistics';
+import { playSound } from './AudioManager';
+
+// Sound played for each gameplay event
+export const AUDIO_CUES: GameEventTable<string> = {
+  'animal.tamed': 'trust_up',
+  'animal.fed': ({ reaction }) => reaction === 'loved' || reaction === 'liked' ? 'feed_success' : null,
+  'approach.succeeded': 'pet_success',
+  'approach.failed': 'animal_scared',
+  'bond.levelUp': 'trust_up',
+  'trick.learned': 'success',
+  'trick.mastered': 'success',
+  'trick.performed': ({ success }) => success ? 'play_success' : null,
+  'item.crafted': 'success',
+  'breeding.born': 'trust_up',
+  'quest.completed': 'success',
+  'achievement.completed': 'success',
+  'player.experience': ({ leveledUp }) => leveledUp ? 'success' : null
+};
+
+/**
+ * Play audio cues for gameplay events. Returns a function that unsubscribes.
+ */
+export function subscribeAudioCues(bus: GameEventBus = gameEvents): () => void {
+  return bus.on('*', event => {
+    const soundId = resolveGameEvent(AUDIO_CUES, event);
+    if (soundId) {
+      playSound(soundId);
+    }
+  });
+}
+
+const connections: Map<GameEventBus, () => void> = new Map();
+
+/**
+ * Subscribe every core listener to a bus. Safe to call more than once;
+ * returns a function that disconnects them all.
+ */
+export function connectGameEvents(bus: GameEventBus = gameEvents): () => void {
+  const existing = connections.get(bus);
+  if (existing) return existing;
+
+  const unsubscribers = [
+    subscribeQuestEvents(questSystem, bus),
+    subscribeAchievements(bus),
+    subscribeExperience(bus),
+    gameStatistics.subscribe(bus),
+    subscribeAudioCues(bus)
+  ];
+
+  const disconnect = () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    connections.delete(bus);
+  };
+  connections.set(bus, disconnect);
+  return disconnect;
+}
@@ -0,0 +1,349 @@
+// Mock PocketBase
+// In-process fake of the PocketBase auth and collections API used by CloudSaveService
+
+import { ClientResponseError, RecordModel } from 'pocketbase';
+import type { CloudSaveClient } from './CloudSave';
+
+export interface MockPocketBaseOptions {
+  baseUrl?: string;
+  latencyMs?: number;
+}
+
+type MockRecord = RecordModel & Record<string, unknown>;
+
+type FilterClause = { field: string; operator: '=' | '!='; value: string | number | boolean };
+
+interface ListOptions {
+  filter?: string;
+  sort?: string;
+}
+
+/**
+ * PocketBase-style timestamp ("2024-01-01 12:00:00.000Z")
+ */
+function timestamp(): string {
+  return new Date().toISOString().replace('T', ' ');
+}
+
+function generateId(): string {
+  // PocketBase ids are 15 lowercase alphanumeric characters
+  let id = '';
+  while (id.length < 15) {
+    id += Math.random().toString(36).slice(2);
+  }
+  return id.slice(0, 15);
+}
+
+/**
+ * Parse the subset of PocketBase filter syntax CloudSaveService uses:
+ * clauses like `field = "text"` or `field != 3` joined with `&&`
+ */
+function parseFilter(filter: string): FilterClause[] {
+  return filter.split('&&').map(part => {
+    const match = part.trim().match(/^(\w+)\s*(!=|=)\s*(.+)$/);
+    if (!match) {
+      throw new Error(`Unsupported filter clause: ${part.trim()}`);
+    }
+
+    const [, field, operator, rawValue] = match;
+    let value: string | number | boolean;
+    if (/^".*"$|^'.*'$/.test(rawValue)) {
+      value = rawValue.slice(1, -1);
+    } else if (rawValue === 'true' || rawValue === 'false') {
+      value = rawValue === 'true';
+    } else {
+      value = Number(rawValue);
+    }
+
+    return { field, operator: operator as FilterClause['operator'], value };
+  });
+}
+
+function matchesFilter(record: MockRecord, clauses: FilterClause[]): boolean {
+  return clauses.every(({ field, operator, value }) => {
+    const equal = record[field] === value;
+    return operator === '=' ? equal : !equal;
+  });
+}
+
+function sortRecords(records: MockRecord[], sort?: string): MockRecord[] {
+  if (!sort) return records;
+
+  const keys = sort.split(',').map(key => key.trim()).filter(Boolean);
+  return [...records].sort((a, b) => {
+    for (const key of keys) {
+      const descending = key.startsWith('-');
+      const field = descending ? key.slice(1) : key;
+      const left = String(a[field] ?? '');
+      const right = String(b[field] ?? '');
+      if (left !== right) {
+        return (left < right ? -1 : 1) * (descending ? -1 : 1);
+      }
+    }
+    return 0;
+  });
+}
+
+class MockAuthStore {
+  token: string = '';
+  record: MockRecord | null = null;
+
+  get model(): MockRecord | null {
+    return this.record;
+  }
+
+  get isValid(): boolean {
+    return this.token !== '' && this.record !== null;
+  }
+
+  save(token: string, record: MockRecord | null): void {
+    this.token = token;
+    this.record = record;
+  }
+
+  clear(): void {
+    this.token = '';
+    this.record = null;
+  }
+}
+
+class MockRecordService {
+  constructor(private server: MockPocketBase, private name: string) {}
+
+  async authWithPassword(identity: string, password: string): Promise<{ token: string; record: MockRecord }> {
+    return this.server.request(this.name, 'auth-with-password', () => {
+      const user = this.server.getCollection(this.name).find(record => record.email === identity);
+      if (!user || this.server.getPassword(user.id) !== password) {
+        throw this.server.error(400, 'Failed to authenticate.');
+      }
+
+      const token = `mock_token_${user.id}_${Date.now()}`;
+      this.server.authStore.save(token, user);
+      return { token, record: { ...user } };
+    });
+  }
+
+  async create(data: Record<string, unknown>): Promise<MockRecord> {
+    return this.server.request(this.name, 'create', () => {
+      const { password, passwordConfirm, ...fields } = data;
+      const now = timestamp();
+      const record: MockRecord = {
+        ...fields,
+        id: generateId(),
+        collectionId: `mock_${this.name}`,
+        collectionName: this.name,
+        created: now,
+        updated: now
+      };
+
+      if (this.name === 'users') {
+        if (typeof password !== 'string' || password !== passwordConfirm) {
+          throw this.server.error(400, 'Failed to create record.', { passwordConfirm: 'Values don\'t match.' });
+        }
+        if (this.server.getCollection('users').some(user => user.email === record.email)) {
+          throw this.server.error(400, 'Failed to create record.', { email: 'The email is invalid or already in use.' });
+        }
+        this.server.setPassword(record.id, password);
+      } else {
+        this.server.requireAuth();
+      }
+
+      this.server.getCollection(this.name).push(record);
+      return { ...record };
+    });
+  }
+
+  async update(id: string, data: Record<string, unknown>): Promise<MockRecord> {
+    return this.server.request(this.name, 'update', () => {
+      this.server.requireAuth();
+      const record = this.findById(id);
+      Object.assign(record, data, { id, updated: timestamp() });
+      return { ...record };
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.server.request(this.name, 'delete', () => {
+      this.server.requireAuth();
+      const records = this.server.getCollection(this.name);
+      records.splice(records.indexOf(this.findById(id)), 1);
+      return true;
+    });
+  }
+
+  async getOne(id: string): Promise<MockRecord> {
+    return this.server.request(this.name, 'view', () => {
+      this.server.requireAuth();
+      return { ...this.findById(id) };
+    });
+  }
+
+  async getList(page: number = 1, perPage: number = 30, options: ListOptions = {}): Promise<{
+    page: number;
+    perPage: number;
+    totalItems: number;
+    totalPages: number;
+    items: MockRecord[];
+  }> {
+    return this.server.request(this.name, 'list', () => {
+      this.server.requireAuth();
+      const matching = this.query(options);
+      const start = (page - 1) * perPage;
+
+      return {
+        page,
+        perPage,
+        totalItems: matching.length,
+        totalPages: Math.ceil(matching.length / perPage),
+        items: matching.slice(start, start + perPage).map(record => ({ ...record }))
+      };
+    });
+  }
+
+  async getFullList(options: ListOptions = {}): Promise<MockRecord[]> {
+    return this.server.request(this.name, 'list', () => {
+      this.server.requireAuth();
+      return this.query(options).map(record => ({ ...record }));
+    });
+  }
+
+  private query(options: ListOptions): MockRecord[] {
+    const clauses = options.filter ? parseFilter(options.filter) : [];
+    const matching = this.server.getCollection(this.name).filter(record => matchesFilter(record, clauses));
+    return sortRecords(matching, options.sort);
+  }
+
+  private findById(id: string): MockRecord {
+    const record = this.server.getCollection(this.name).find(item => item.id === id);
+    if (!record) {
+      throw this.server.error(404, 'The requested resource wasn\'t found.');
+    }
+    return record;
+  }
+}
+
+/**
+ * Stand-in for a PocketBase server and client in one object. Pass it to
+ * CloudSaveService to exercise auth, uploads and sync without a live server.
+ */
+export class MockPocketBase implements CloudSaveClient {
+  readonly baseUrl: string;
+  readonly authStore = new MockAuthStore();
+  private collections: Map<string, MockRecord[]> = new Map();
+  private passwords: Map<string, string> = new Map();
+  private online: boolean = true;
+  private latencyMs: number;
+  private requestLog: Array<{ collection: string; action: string; timestamp: number }> = [];
+
+  constructor(options: MockPocketBaseOptions = {}) {
+    this.baseUrl = options.baseUrl || 'http://mock.pocketbase.local';
+    this.latencyMs = options.latencyMs || 0;
+  }
+
+  collection(name: string): MockRecordService {
+    return new MockRecordService(this, name);
+  }
+
+  // Test and dev helpers
+
+  /**
+   * Create a user account directly, bypassing the API
+   */
+  seedUser(email: string, password: string, fields: Record<string, unknown> = {}): MockRecord {
+    const now = timestamp();
+    const user: MockRecord = {
+      username: email.split('@')[0],
+      verified: true,
+      ...fields,
+      email,
+      id: generateId(),
+      collectionId: 'mock_users',
+      collectionName: 'users',
+      created: now,
+      updated: now
+    };
+    this.getCollection('users').push(user);
+    this.passwords.set(user.id, password);
+    return { ...user };
+  }
+
+  /**
+   * Live records of a collection; mutate them to simulate server-side changes
+   */
+  getRecords(name: string): MockRecord[] {
+    return this.getCollection(name);
+  }
+
+  /**
+   * Simulate losing or regaining the network. Requests fail while offline.
+   */
+  setOnline(online: boolean): void {
+    this.online = online;
+  }
+
+  getRequestLog(): Array<{ collection: string; action: string; timestamp: number }> {
+    return [...this.requestLog];
+  }
+
+  reset(): void {
+    this.collections.clear();
+    this.passwords.clear();
+    this.requestLog = [];
+    this.authStore.clear();
+    this.online = true;
+  }
+
+  // Internal plumbing shared with the record services
+
+  getCollection(name: string): MockRecord[] {
+    let records = this.collections.get(name);
+    if (!records) {
+      records = [];
+      this.collections.set(name, records);
+    }
+    return records;
+  }
+
+  getPassword(userId: string): string | undefined {
+    return this.passwords.get(userId);
+  }
+
+  setPassword(userId: string, password: string): void {
+    this.passwords.set(userId, password);
+  }
+
+  requireAuth(): void {
+    if (!this.authStore.isValid) {
+      throw this.error(403, 'Only authenticated users can perform this action.');
+    }
+  }
+
+  error(status: number, message: string, data: Record<string, string> = {}): ClientResponseError {
+    return new ClientResponseError({
+      url: this.baseUrl,
+      status,
+      response: { code: status, message, data }
+    });
+  }
+
+  async request<T>(collection: string, action: string, handler: () => T): Promise<T> {
+    this.requestLog.push({ collection, action, timestamp: Date.now() });
+
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    if (!this.online) {
+      // Mirrors the SDK's error for a request that never reached the server
+      throw new ClientResponseError({ url: this.baseUrl, status: 0, response: {} });
+    }
+
+    return handler();
+  }
+}
+
+export function createMockPocketBase(options: MockPocketBaseOptions = {}): MockPocketBase {
+  return new MockPocketBase(options);
+}
+
+export default MockPocketBase;
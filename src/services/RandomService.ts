@@ -0,0 +1,178 @@
+// Random Service for Feral Friends
+// Seedable, deterministic random number generation split into named streams
+
+export type RandomStreamName =
+  | 'encounters' // encounter rolls, spawned animals, taming and trick outcomes
+  | 'loot'       // gathering yields, item use, food drops
+  | 'ai'         // animal decision making and wandering
+  | 'gestures'   // trick teaching feedback and performance variance
+  | 'world';     // map placement and habitat rolls
+
+export const RANDOM_STREAMS: RandomStreamName[] = ['encounters', 'loot', 'ai', 'gestures', 'world'];
+
+export interface RandomState {
+  seed: number;
+  streams: Record<RandomStreamName, number>;
+}
+
+/**
+ * Hash a string into a 32-bit unsigned integer (FNV-1a)
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A single mulberry32 generator. The whole state is one 32-bit integer,
+ * which keeps save files small and makes streams trivially serializable.
+ */
+export class RandomStream {
+  private state: number;
+
+  constructor(state: number) {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1) - drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * True with the given probability (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from an array
+   */
+  pick<T>(array: readonly T[]): T {
+    if (array.length === 0) {
+      throw new Error('Cannot pick from empty array');
+    }
+    return array[Math.floor(this.next() * array.length)];
+  }
+
+  /**
+   * Return a shuffled copy of an array (Fisher-Yates)
+   */
+  shuffle<T>(array: readonly T[]): T[] {
+    const result = [...array];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+export class RandomService {
+  private seed: number;
+  private streams: Map<RandomStreamName, RandomStream> = new Map();
+
+  constructor(seed: number = RandomService.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.resetStreams();
+  }
+
+  /**
+   * Get a named stream. Each stream advances independently, so adding a roll
+   * to one system never shifts the results of another.
+   */
+  stream(name: RandomStreamName): RandomStream {
+    return this.streams.get(name)!;
+  }
+
+  /**
+   * Get the master seed
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Reseed every stream from a new master seed
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.resetStreams();
+  }
+
+  /**
+   * Snapshot the seed and all stream positions for saving
+   */
+  getState(): RandomState {
+    const streams = {} as Record<RandomStreamName, number>;
+    this.streams.forEach((stream, name) => {
+      streams[name] = stream.getState();
+    });
+    return { seed: this.seed, streams };
+  }
+
+  /**
+   * Restore a snapshot created by getState(). Streams missing from the
+   * snapshot (e.g. added in a later version) are derived from the seed.
+   */
+  loadState(state: RandomState): void {
+    this.setSeed(state.seed);
+    RANDOM_STREAMS.forEach(name => {
+      const streamState = state.streams?.[name];
+      if (typeof streamState === 'number') {
+        this.stream(name).setState(streamState);
+      }
+    });
+  }
+
+  private resetStreams(): void {
+    RANDOM_STREAMS.forEach(name => {
+      this.streams.set(name, new RandomStream(this.seed ^ hashString(name)));
+    });
+  }
+
+  private static generateSeed(): number {
+    return (Date.now() ^ Math.floor(Math.random() * 0xffffffff)) >>> 0;
+  }
+}
+
+// Export singleton instance
+export const randomService = new RandomService();
+
+// Export convenience function
+export const rng = (name: RandomStreamName): RandomStream => {
+  return randomService.stream(name);
+};
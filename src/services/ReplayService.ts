@@ -0,0 +1,267 @@
+// Replay Service for Feral Friends
+// Records input, frame timing and starting save state into compact replay files and plays them back
+
+import type { Position } from '../types/game';
+import type { Animal } from '../game/Animal';
+import type { EncounterAction } from '../game/EncounterAnimal';
+import type { InputAction, InputEvent, InputManager } from '../game/InputManager';
+import { worldClock, DayNightCycleData } from '../game/WorldClock';
+import { saveSerializers } from './SaveSchema';
+import { registerCoreSerializers } from './SaveSerializers';
+
+// 2 records the world's animals apart from the player's companions
+export const REPLAY_VERSION = 2;
+
+// Input records store actions by their index in this list
+const REPLAY_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right', 'action_a', 'action_b', 'pause', 'tap'];
+
+// Choices made through menus rather than the input manager
+export type ReplayCommand = EncounterAction | { type: 'tame' } | { type: 'flee' };
+
+export interface ReplayStart {
+  mapId: string;
+  position: Position;
+  animals: Animal[]; // everything on the map, wild and tamed, when recording began
+  companions: Animal[]; // the player's companions, who may follow in the party
+  time?: number; // world simulation time when recording began
+}
+
+// [frame, action index, pressed (1 or 0), ms since recording began, tap x, tap y]
+// Tap positions are the map cell that was tapped, not screen coordinates
+export type ReplayInputRecord = number[];
+
+// [frame, ms since recording began, command]
+export type ReplayCommandRecord = [number, number, ReplayCommand];
+
+export interface ReplayFile {
+  version: number;
+  recordedAt: number; // wall-clock time the recording began
+  start: ReplayStart;
+  clock: DayNightCycleData;
+  systems: Record<string, unknown>; // save-slot snapshot of every registered system
+  frames: [number, number][]; // game loop updates, run-length encoded as [deltaTime, count]
+  inputs: ReplayInputRecord[];
+  commands: ReplayCommandRecord[];
+}
+
+/**
+ * Anything that can play a replay back, such as a headless simulation
+ */
+export interface ReplayTarget<TSnapshot> {
+  load(start: ReplayStart, recordedAt: number): void;
+  applyInput(event: InputEvent): void;
+  applyCommand(command: ReplayCommand, time: number): void;
+  tick(deltaTime: number): void;
+  getSnapshot(): TSnapshot;
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberArray(value: unknown, minLength: number): value is number[] {
+  return Array.isArray(value) && value.length >= minLength && value.every(entry => typeof entry === 'number');
+}
+
+// Snapshots can share arrays with live systems, so recordings keep their own copies
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export class ReplayRecorder {
+  private replay: ReplayFile | null = null;
+  private lastReplay: ReplayFile | null = null;
+  private frame: number = 0;
+
+  /**
+   * Begin a recording from the current game state
+   */
+  start(start: ReplayStart): void {
+    registerCoreSerializers();
+
+    this.replay = {
+      version: REPLAY_VERSION,
+      recordedAt: Date.now(),
+      start: copy(start),
+      clock: copy(worldClock.getSaveData()),
+      systems: copy(saveSerializers.captureAll()),
+      frames: [],
+      inputs: [],
+      commands: []
+    };
+    this.frame = 0;
+  }
+
+  /**
+   * Finish the current recording. The result stays available from getLastReplay.
+   */
+  stop(): ReplayFile | null {
+    if (this.replay) {
+      this.lastReplay = this.replay;
+      this.replay = null;
+    }
+    return this.lastReplay;
+  }
+
+  isRecording(): boolean {
+    return this.replay !== null;
+  }
+
+  getLastReplay(): ReplayFile | null {
+    return this.lastReplay;
+  }
+
+  /**
+   * Record every event from an input manager. Returns a function that detaches.
+   * Its taps are in screen space, so whoever turns a tap into a map cell records it instead.
+   */
+  attach(inputManager: InputManager): () => void {
+    const record = (event: InputEvent) => this.recordInput(event);
+    const actions = REPLAY_ACTIONS.filter(action => action !== 'tap');
+    actions.forEach(action => inputManager.on(action, record));
+    return () => actions.forEach(action => inputManager.off(action, record));
+  }
+
+  recordInput(event: InputEvent): void {
+    if (!this.replay) return;
+
+    const action = REPLAY_ACTIONS.indexOf(event.action);
+    const entry: ReplayInputRecord = [this.frame, action, event.pressed ? 1 : 0, event.timestamp - this.replay.recordedAt];
+    if (event.position) {
+      entry.push(event.position.x, event.position.y);
+    }
+    this.replay.inputs.push(entry);
+  }
+
+  /**
+   * Record one game loop update
+   */
+  recordFrame(deltaTime: number): void {
+    if (!this.replay) return;
+
+    const frames = this.replay.frames;
+    const last = frames[frames.length - 1];
+    if (last && last[0] === deltaTime) {
+      last[1]++;
+    } else {
+      frames.push([deltaTime, 1]);
+    }
+    this.frame++;
+  }
+
+  recordCommand(command: ReplayCommand): void {
+    if (!this.replay) return;
+    this.replay.commands.push([this.frame, Date.now() - this.replay.recordedAt, copy(command)]);
+  }
+}
+
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and check a replay file. Throws ReplayFormatError if it can't be played.
+ */
+export function parseReplay(text: string): ReplayFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('Replay is not valid JSON');
+  }
+
+  if (!isRecord(data)) {
+    throw new ReplayFormatError('Replay must be an object');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version ${String(data.version)}`);
+  }
+
+  const start = data.start;
+  if (!isRecord(start) || typeof start.mapId !== 'string' || !isRecord(start.position) ||
+      !Array.isArray(start.animals) || !Array.isArray(start.companions)) {
+    throw new ReplayFormatError('Replay is missing its starting state');
+  }
+  if (typeof data.recordedAt !== 'number' || !isRecord(data.clock) || !isRecord(data.systems)) {
+    throw new ReplayFormatError('Replay is missing its save state');
+  }
+  if (!Array.isArray(data.frames) || !data.frames.every(frame => isNumberArray(frame, 2))) {
+    throw new ReplayFormatError('Replay frames must be [deltaTime, count] pairs');
+  }
+  if (!Array.isArray(data.inputs) ||
+      !data.inputs.every(input => isNumberArray(input, 4) && input[1] >= 0 && input[1] < REPLAY_ACTIONS.length)) {
+    throw new ReplayFormatError('Replay inputs are malformed');
+  }
+  if (!Array.isArray(data.commands) ||
+      !data.commands.every(command => Array.isArray(command) && isNumberArray(command.slice(0, 2), 2) && isRecord(command[2]))) {
+    throw new ReplayFormatError('Replay commands are malformed');
+  }
+
+  return data as unknown as ReplayFile;
+}
+
+/**
+ * Play a replay through a target: restore the recorded save state, then feed
+ * inputs and commands in the order they happened, frame by frame.
+ */
+export function runReplay<TSnapshot>(replay: ReplayFile, target: ReplayTarget<TSnapshot>): TSnapshot {
+  registerCoreSerializers();
+  // Set the clock before restoring so the hours it crosses cannot touch the recorded state
+  worldClock.loadSaveData(replay.clock);
+  const restored = saveSerializers.restoreAll(replay.systems);
+  if (!restored.success) {
+    throw new ReplayFormatError(`Replay save state could not be restored: ${restored.errors.join(', ')}`);
+  }
+  target.load(copy(replay.start), replay.recordedAt);
+
+  let inputIndex = 0;
+  let commandIndex = 0;
+  const dispatchUntil = (frame: number) => {
+    for (;;) {
+      const input = replay.inputs[inputIndex];
+      const command = replay.commands[commandIndex];
+      const inputDue = input !== undefined && input[0] <= frame;
+      const commandDue = command !== undefined && command[0] <= frame;
+      if (!inputDue && !commandDue) return;
+
+      if (inputDue && (!commandDue || input[3] <= command[1])) {
+        const [, action, pressed, offset, x, y] = input;
+        target.applyInput({
+          action: REPLAY_ACTIONS[action],
+          pressed: pressed === 1,
+          timestamp: replay.recordedAt + offset,
+          ...(x !== undefined && y !== undefined && { position: { x, y } })
+        });
+        inputIndex++;
+      } else {
+        target.applyCommand(copy(command[2]), replay.recordedAt + command[1]);
+        commandIndex++;
+      }
+    }
+  };
+
+  let frame = 0;
+  replay.frames.forEach(([deltaTime, count]) => {
+    for (let i = 0; i < count; i++) {
+      dispatchUntil(frame);
+      target.tick(deltaTime);
+      frame++;
+    }
+  });
+
+  // Anything after the last recorded frame still happened
+  dispatchUntil(Infinity);
+
+  return target.getSnapshot();
+}
+
+export const replayRecorder = new ReplayRecorder();
+
+export default replayRecorder;
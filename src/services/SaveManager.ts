@@ -5,10 +5,15 @@
 import { Animal } from '../game/Animal';
 import { PersonalityProfile } from '../game/AnimalPersonality';
 // import { Bond } from '../game/BondingSystem';
+import { BOND_LEVELS, BondingSaveData } from '../game/BondingSystem';
+import { TamingProgress } from '../game/TamingSystem';
 // import { TrickProgress } from '../game/TrickSystem';
 import { AnimalFoodPreferences } from '../game/FoodPreferences';
 import { GatheringSkill, GatheringNode } from '../game/GatheringSystem';
 import { InventoryItem } from '../game/InventorySystem';
+import { worldClock, DayNightCycleData } from '../game/WorldClock';
+import { CURRENT_SCHEMA_VERSION, SystemRestoreResult, migrateSave, saveSerializers } from './SaveSchema';
+import { registerCoreSerializers } from './SaveSerializers';
 
 // Enhanced save data structure that includes all game systems
 export interface ComprehensiveGameSave {
@@ -38,10 +43,7 @@ export interface ComprehensiveGameSave {
     playerMovementHistory: Array<{ position: { x: number; y: number }; timestamp: number }>;
     weatherConditions: string;
     timeOfDay: string;
-    dayNightCycle: {
-      currentPhase: string;
-      timeElapsed: number;
-    };
+    dayNightCycle: DayNightCycleData;
   };
 
   // Animal management
@@ -148,8 +150,12 @@ export interface ComprehensiveGameSave {
     };
   };
 
+  // Per-system snapshots keyed by serializer id (tricks, bonding, taming, RNG...)
+  systems: Record<string, unknown>;
+
   // Meta information
   meta: {
+    schemaVersion: number;
     saveVersion: string;
     gameVersion: string;
     lastSaved: number;
@@ -324,6 +330,7 @@ export class SaveManager {
   private autosaveInterval: number = 60000; // 1 minute
   private autosaveTimer: number | null = null;
   private compressionEnabled: boolean = true;
+  private activeSlotId: number | null = null; // slot the running game was restored from
 
   constructor() {
     // this.saveSystem = new SaveSystem({
@@ -334,6 +341,7 @@ export class SaveManager {
     //   maxBackups: 5
     // });
     
+    registerCoreSerializers();
     this.initializeAutoSave();
   }
 
@@ -350,7 +358,7 @@ export class SaveManager {
       // Create complete save data with defaults
       const comprehensiveSave: ComprehensiveGameSave = this.createCompleteSaveData(gameState);
       
-      // Validate save data integrity
+      // Validate save data integrity, including every system snapshot
       const validation = this.validateSaveData(comprehensiveSave);
       if (!validation.valid) {
         return {
@@ -406,8 +414,7 @@ export class SaveManager {
     message: string;
   }> {
     try {
-      const saveKey = `feral-friends-comprehensive-${slotId}`;
-      const savedData = localStorage.getItem(saveKey);
+      const savedData = this.readSlot(slotId);
       
       if (!savedData) {
         return {
@@ -416,17 +423,9 @@ export class SaveManager {
         };
       }
 
-      // Decompress if necessary
-      let gameStateString: string;
-      if (this.isCompressed(savedData)) {
-        gameStateString = this.decompressData(savedData);
-      } else {
-        gameStateString = savedData;
-      }
-
-      // Parse and validate
-      const gameState: ComprehensiveGameSave = JSON.parse(gameStateString);
-      const validation = this.validateSaveData(gameState);
+      // Upgrade older saves before validating them against the current schema
+      const migratedData = this.parseSaveString(savedData);
+      const validation = this.validateSaveData(migratedData);
       
       if (!validation.valid) {
         return {
@@ -435,9 +434,6 @@ export class SaveManager {
         };
       }
 
-      // Perform any necessary migrations
-      const migratedData = this.migrateToCurrentVersion(gameState);
-
       return {
         success: true,
         data: migratedData,
@@ -453,6 +449,34 @@ export class SaveManager {
     }
   }
 
+  /**
+   * Restore every registered game system from loaded save data, all-or-nothing.
+   * Call this once the player actually resumes a save, not when only previewing it.
+   */
+  restoreRuntimeState(saveData: ComprehensiveGameSave, slotId?: number): SystemRestoreResult {
+    // The clock goes first: hours it crosses on the way step weather and ecosystems,
+    // which the restored snapshots then replace with the state saved at that time
+    const previousClock = worldClock.getSaveData();
+    worldClock.loadSaveData(saveData.world?.dayNightCycle);
+
+    const result = saveSerializers.restoreAll(saveData.systems || {});
+    if (result.success) {
+      if (slotId !== undefined) {
+        this.activeSlotId = slotId;
+      }
+    } else {
+      worldClock.loadSaveData(previousClock);
+    }
+    return result;
+  }
+
+  /**
+   * Slot the running game was last restored from, if any
+   */
+  getActiveSlot(): number | null {
+    return this.activeSlotId;
+  }
+
   /**
    * Get save slot information for all slots
    */
@@ -474,8 +498,14 @@ export class SaveManager {
     const slots: Array<any> = [];
 
     for (let slotId = 1; slotId <= 5; slotId++) {
-      const saveKey = `feral-friends-comprehensive-${slotId}`;
-      const savedData = localStorage.getItem(saveKey);
+      let savedData: string | null;
+      try {
+        savedData = this.readSlot(slotId);
+      } catch (error) {
+        console.warn(`Failed to read save slot ${slotId}:`, error);
+        slots.push({ slotId, exists: true, playerName: 'Corrupted Save', level: 0, playTime: 0, lastSaved: 0 });
+        continue;
+      }
       
       if (!savedData) {
         slots.push({ slotId, exists: false });
@@ -483,14 +513,7 @@ export class SaveManager {
       }
 
       try {
-        let gameStateString: string;
-        if (this.isCompressed(savedData)) {
-          gameStateString = this.decompressData(savedData);
-        } else {
-          gameStateString = savedData;
-        }
-
-        const gameState: ComprehensiveGameSave = JSON.parse(gameStateString);
+        const gameState = this.parseSaveString(savedData);
         const saveSize = new Blob([savedData]).size;
 
         slots.push({
@@ -614,7 +637,8 @@ export class SaveManager {
         };
       }
 
-      const result = await this.saveGameState(importData.gameData, targetSlotId);
+      const { save } = migrateSave(importData.gameData);
+      const result = await this.saveGameState(save, targetSlotId);
       return {
         success: result.success,
         message: result.success ? 'Save data imported successfully' : result.message
@@ -637,6 +661,8 @@ export class SaveManager {
     try {
       const saveKey = `feral-friends-comprehensive-${slotId}`;
       localStorage.removeItem(saveKey);
+      // Otherwise readSlot would fall back to the legacy save and bring the slot back
+      localStorage.removeItem(`feral-friends-save-${slotId}`);
       
       return {
         success: true,
@@ -654,6 +680,7 @@ export class SaveManager {
 
   private createCompleteSaveData(partialData: Partial<ComprehensiveGameSave>): ComprehensiveGameSave {
     const now = Date.now();
+    const systems = partialData.systems || saveSerializers.captureAll();
     
     return {
       // Merge with defaults
@@ -681,22 +708,19 @@ export class SaveManager {
         unlockedAreas: ['starter_meadow'],
         playerMovementHistory: [],
         weatherConditions: 'clear',
-        timeOfDay: 'afternoon',
-        dayNightCycle: {
-          currentPhase: 'afternoon',
-          timeElapsed: 0
-        },
+        timeOfDay: worldClock.getPhase(),
+        dayNightCycle: worldClock.getSaveData(),
         ...partialData.world
       },
 
       animals: {
         discoveredAnimals: [],
         activeAnimals: [],
-        companionBonds: [],
         animalPersonalities: [],
         animalInteractionHistory: [],
         animalSpawnHistory: [],
-        ...partialData.animals
+        ...partialData.animals,
+        companionBonds: this.getCompanionBonds(systems) ?? partialData.animals?.companionBonds ?? []
       },
 
       feeding: {
@@ -816,6 +840,8 @@ export class SaveManager {
         }
       },
 
+      systems,
+
       meta: {
         saveVersion: '1.0.0',
         gameVersion: '0.8.0',
@@ -826,7 +852,9 @@ export class SaveManager {
         backupAvailable: false,
         cloudSyncEnabled: false,
         cloudSyncLastTime: 0,
-        ...partialData.meta
+        ...partialData.meta,
+        // Anything being written now is in the current schema
+        schemaVersion: CURRENT_SCHEMA_VERSION
       },
 
       // Legacy properties for compatibility
@@ -876,6 +904,25 @@ export class SaveManager {
     };
   }
 
+  /**
+   * Companions summarised from the bonding and taming snapshots, or null when
+   * the save has no bonding snapshot (legacy saves keep their own list)
+   */
+  private getCompanionBonds(systems: Record<string, unknown>): ComprehensiveGameSave['animals']['companionBonds'] | null {
+    const bonding = systems.bonding as Partial<BondingSaveData> | undefined;
+    if (!Array.isArray(bonding?.bondingProgress)) return null;
+
+    const taming = (systems.taming || {}) as Record<string, Partial<TamingProgress>>;
+    return bonding.bondingProgress
+      .filter(([, progress]) => progress.bondLevelNumber >= BOND_LEVELS.companion.level)
+      .map(([animalId, progress]) => ({
+        animalId,
+        bondLevel: progress.bondLevelNumber,
+        bondPoints: progress.bondPoints,
+        trustLevel: taming[animalId]?.currentTrust ?? 0
+      }));
+  }
+
   private validateSaveData(saveData: ComprehensiveGameSave): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
@@ -893,21 +940,35 @@ export class SaveManager {
     if (saveData.inventory?.items && !Array.isArray(saveData.inventory.items)) {
       errors.push('Invalid inventory data');
     }
+    if (saveData.systems) {
+      errors.push(...saveSerializers.validateAll(saveData.systems));
+    }
 
     return { valid: errors.length === 0, errors };
   }
 
-  private migrateToCurrentVersion(saveData: ComprehensiveGameSave): ComprehensiveGameSave {
-    // Handle version migrations here
-    // For now, just update the version number
-    return {
-      ...saveData,
-      meta: {
-        ...saveData.meta,
-        saveVersion: '1.0.0',
-        gameVersion: '0.8.0'
-      }
-    };
+  /**
+   * Read a slot's raw data, falling back to saves written by the legacy SaveSystem
+   */
+  private readSlot(slotId: number): string | null {
+    const saved = localStorage.getItem(`feral-friends-comprehensive-${slotId}`);
+    if (saved) return saved;
+
+    const legacyKey = `feral-friends-save-${slotId}`;
+    const legacy = localStorage.getItem(legacyKey);
+    if (!legacy) return null;
+
+    // Uncompressed legacy saves are plain JSON, which parseSaveString reads as-is
+    return legacy;
+  }
+
+  /**
+   * Decode, migrate and fill defaults for a stored save of any schema version
+   */
+  private parseSaveString(savedData: string): ComprehensiveGameSave {
+    const gameStateString = this.isCompressed(savedData) ? this.decompressData(savedData) : savedData;
+    const { save } = migrateSave(JSON.parse(gameStateString));
+    return this.createCompleteSaveData(save);
   }
 
   private compressData(data: string): string {
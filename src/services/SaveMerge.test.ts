@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSaves } from './SaveMerge';
+import { ComprehensiveGameSave } from './SaveManager';
+
+function save(systems: Record<string, unknown>, lastSaved: number = 1000): ComprehensiveGameSave {
+  return { meta: { lastSaved }, systems } as unknown as ComprehensiveGameSave;
+}
+
+type Entry = Record<string, unknown>;
+
+function systemOf<T>(merged: ComprehensiveGameSave, id: string): T {
+  return merged.systems[id] as T;
+}
+
+function bond(animalId: string, bondPoints: number, extra: Record<string, unknown> = {}) {
+  return [animalId, {
+    animalId,
+    bondPoints,
+    bondLevelNumber: 1,
+    timeSpentTogether: 0,
+    sharedExperiences: [],
+    bondingMilestones: [],
+    relationshipHistory: [],
+    ...extra
+  }];
+}
+
+describe('mergeSaves per-animal systems', () => {
+  it('keeps bonding progress for animals befriended on either device', () => {
+    const base = save({ bonding: { bondingProgress: [bond('fox', 100)], activeBonds: [] } });
+    const local = save({ bonding: { bondingProgress: [bond('fox', 150), bond('owl', 20)], activeBonds: [] } });
+    const server = save({ bonding: { bondingProgress: [bond('fox', 120), bond('deer', 40)], activeBonds: [] } }, 2000);
+
+    const { merged, conflicts } = mergeSaves(base, local, server);
+    const progress = new Map(systemOf<{ bondingProgress: Array<[string, Entry]> }>(merged, 'bonding').bondingProgress);
+
+    expect(conflicts).toEqual([]);
+    expect(Array.from(progress.keys()).sort()).toEqual(['deer', 'fox', 'owl']);
+    expect(progress.get('fox')).toMatchObject({ bondPoints: 150 });
+  });
+
+  it('sums time together and unions shared experiences for the same animal', () => {
+    const experience = (id: string, timestamp: number) => ({ id, timestamp });
+    const base = save({ bonding: { bondingProgress: [bond('fox', 100, { timeSpentTogether: 60 })] } });
+    const local = save({ bonding: { bondingProgress: [bond('fox', 100, {
+      timeSpentTogether: 90,
+      sharedExperiences: [experience('walk', 20)]
+    })] } });
+    const server = save({ bonding: { bondingProgress: [bond('fox', 100, {
+      timeSpentTogether: 80,
+      sharedExperiences: [experience('play', 10)]
+    })] } });
+
+    const { merged } = mergeSaves(base, local, server);
+    const [[, fox]] = systemOf<{ bondingProgress: Array<[string, Entry]> }>(merged, 'bonding').bondingProgress;
+
+    expect(fox.timeSpentTogether).toBe(110);
+    expect(fox.sharedExperiences).toEqual([experience('play', 10), experience('walk', 20)]);
+  });
+
+  it('merges taming progress animal by animal', () => {
+    const taming = (currentTrust: number, totalInteractions: number) => ({
+      animalId: 'fox', currentTrust, totalInteractions, interactionHistory: []
+    });
+    const base = save({ taming: { fox: taming(10, 4) } });
+    const local = save({ taming: { fox: taming(30, 6) } });
+    const server = save({ taming: { fox: taming(25, 7), owl: { ...taming(5, 1), animalId: 'owl' } } });
+
+    const { merged, conflicts } = mergeSaves(base, local, server);
+
+    expect(conflicts).toEqual([]);
+    const progress = systemOf<Record<string, Entry>>(merged, 'taming');
+    expect(progress.fox).toMatchObject({ currentTrust: 30, totalInteractions: 9 });
+    expect(progress.owl).toMatchObject({ currentTrust: 5 });
+  });
+
+  it('honours party members removed on one device and added on the other', () => {
+    const base = save({ party: { members: ['fox', 'owl'], maxSize: 3 } });
+    const local = save({ party: { members: ['fox'], maxSize: 3 } });
+    const server = save({ party: { members: ['fox', 'owl', 'deer'], maxSize: 4 } });
+
+    const { merged } = mergeSaves(base, local, server);
+
+    expect(merged.systems.party).toEqual({ members: ['fox', 'deer'], maxSize: 4 });
+  });
+
+  it('keeps offspring born on both devices and the furthest growth', () => {
+    const juvenile = (animalId: string, growth: number) => ({ animalId, growth, stage: 'newborn', lastUpdate: growth });
+    const record = (animalId: string, childIds: string[]) => ({ animalId, childIds });
+    const base = save({ breeding: {
+      lineage: [record('fox', [])],
+      juveniles: [juvenile('kit', 10)],
+      lastBred: [['fox', 100]]
+    } });
+    const local = save({ breeding: {
+      lineage: [record('fox', ['cub'])],
+      juveniles: [juvenile('kit', 30), juvenile('cub', 0)],
+      lastBred: [['fox', 300]]
+    } });
+    const server = save({ breeding: {
+      lineage: [record('fox', ['pup'])],
+      juveniles: [juvenile('kit', 20), juvenile('pup', 0)],
+      lastBred: [['fox', 200]]
+    } });
+
+    const { merged } = mergeSaves(base, local, server);
+    const breeding = systemOf<{ lineage: Entry[]; juveniles: Entry[]; lastBred: unknown[] }>(merged, 'breeding');
+
+    expect(breeding.lineage).toEqual([record('fox', ['cub', 'pup'])]);
+    expect(breeding.juveniles.map(j => j.animalId).sort()).toEqual(['cub', 'kit', 'pup']);
+    expect(breeding.juveniles.find(j => j.animalId === 'kit')).toMatchObject({ growth: 30 });
+    expect(breeding.lastBred).toEqual([['fox', 300]]);
+  });
+
+  it('still treats other systems as a whole', () => {
+    const base = save({ weather: { states: [], fronts: [] } });
+    const local = save({ weather: { states: ['rain'], fronts: [] } });
+    const server = save({ weather: { states: ['snow'], fronts: [] } }, 2000);
+
+    const { merged, conflicts } = mergeSaves(base, local, server);
+
+    expect(conflicts.map(c => c.path)).toEqual(['systems.weather']);
+    expect(merged.systems.weather).toEqual({ states: ['snow'], fronts: [] });
+  });
+});
@@ -0,0 +1,415 @@
+// Save Merge
+// Field-level three-way merge of two saves against the snapshot they were last synced from
+
+import type { ComprehensiveGameSave } from './SaveManager';
+
+export type MergeSide = 'local' | 'server';
+
+export interface MergeConflict {
+  path: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+  kept: MergeSide;
+}
+
+export interface SaveMergeResult {
+  merged: ComprehensiveGameSave;
+  conflicts: MergeConflict[];
+}
+
+// How a single value is reconciled when both sides changed it
+// sum    - counters: base + local delta + server delta
+// max    - levels and high-water marks
+// min    - first-seen style timestamps
+// or     - flags that only ever turn on
+// newest - session state; follow the most recently saved side without reporting
+// atomic - opaque blobs; never merged field by field, divergence is reported
+// fields - merged field by field where a wildcard would otherwise make it atomic
+type FieldRule = 'sum' | 'max' | 'min' | 'or' | 'newest' | 'atomic' | 'fields';
+
+interface KeyedCollection {
+  key: (item: Record<string, unknown>) => string;
+  prune?: (item: Record<string, unknown>) => boolean;
+}
+
+// Patterns use `*` for a single path segment; keyed collection items are addressed by key
+const FIELD_RULES: Record<string, FieldRule> = {
+  'player.level': 'max',
+  'player.experience': 'sum',
+  'player.experienceToNext': 'newest',
+  'player.maxEnergy': 'max',
+  'player.maxHealth': 'max',
+  'player.playTimeSeconds': 'sum',
+  'player.createdAt': 'min',
+  'player.position': 'newest',
+  'player.currentMap': 'newest',
+  'player.energy': 'newest',
+  'player.health': 'newest',
+  'player.lastActiveAt': 'max',
+  'world.currentMap': 'newest',
+  'world.weatherConditions': 'newest',
+  'world.timeOfDay': 'newest',
+  'world.dayNightCycle': 'newest',
+  'animals.activeAnimals': 'newest',
+  'animals.companionBonds.*.bondLevel': 'max',
+  'animals.companionBonds.*.trustLevel': 'max',
+  'animals.discoveredAnimals.*.firstSeen': 'min',
+  'animals.discoveredAnimals.*.lastSeen': 'max',
+  'animals.discoveredAnimals.*.timesSeen': 'sum',
+  'animals.discoveredAnimals.*.location': 'newest',
+  'feeding.totalFoodGiven.*': 'sum',
+  'taming.trustLevels.*': 'max',
+  'taming.bondLevels.*': 'max',
+  'taming.activeCooldowns.*': 'max',
+  'tricks.trickMasteryLevels.*': 'max',
+  'tricks.teachingProgress.*.progress': 'max',
+  'tricks.performanceVenues.*.reputation': 'max',
+  'tricks.performanceVenues.*.unlocked': 'or',
+  'inventory.items.*.quantity': 'sum',
+  'inventory.maxSlots': 'max',
+  'inventory.toolDurability.*': 'newest',
+  'inventory.craftingRecipes.*.unlocked': 'or',
+  'inventory.craftingRecipes.*.timesCrafted': 'sum',
+  'inventory.activeCrafting': 'newest',
+  'gathering.activeGathering': 'newest',
+  'progress.achievements.*.unlocked': 'or',
+  'progress.achievements.*.unlockedAt': 'min',
+  'progress.achievements.*.progress': 'max',
+  'progress.milestones.*.reached': 'or',
+  'progress.milestones.*.reachedAt': 'min',
+  'progress.statistics.averageSessionLength': 'newest',
+  'progress.statistics.longestPlaySession': 'max',
+  'progress.statistics.*': 'sum',
+  'progress.progressFlags.*': 'or',
+  'progress.experienceBreakdown.*': 'sum',
+  'settings': 'newest',
+  'systems.random': 'newest',
+  'systems.bonding': 'fields',
+  'systems.bonding.bondingProgress.*.currentBondLevel': 'newest',
+  'systems.bonding.bondingProgress.*.bondPoints': 'max',
+  'systems.bonding.bondingProgress.*.bondLevelNumber': 'max',
+  'systems.bonding.bondingProgress.*.timeSpentTogether': 'sum',
+  'systems.bonding.bondingProgress.*.bondingMilestones.*.achieved': 'or',
+  'systems.bonding.bondingProgress.*.bondingMilestones.*.achievedDate': 'min',
+  'systems.bonding.bondingProgress.*.companionshipDate': 'min',
+  'systems.bonding.bondingProgress.*.lastBondingActivity': 'max',
+  'systems.bonding.bondingProgress.*.bondDecayRate': 'newest',
+  'systems.bonding.bondingProgress.*.bondingPreferences': 'newest',
+  'systems.taming': 'fields',
+  'systems.taming.*.currentTrust': 'max',
+  'systems.taming.*.totalInteractions': 'sum',
+  'systems.taming.*.successfulInteractions': 'sum',
+  'systems.taming.*.lastInteraction': 'max',
+  'systems.taming.*.personalityLearned': 'or',
+  'systems.taming.*.bondLevel': 'max',
+  'systems.taming.*.tamingStarted': 'min',
+  'systems.taming.*.tamingCompleted': 'min',
+  'systems.taming.*.preferences': 'newest',
+  'systems.party': 'fields',
+  'systems.party.maxSize': 'max',
+  'systems.breeding': 'fields',
+  'systems.breeding.juveniles.*.growth': 'max',
+  'systems.breeding.juveniles.*.stage': 'newest',
+  'systems.breeding.juveniles.*.lastCare.*': 'max',
+  'systems.breeding.juveniles.*.lastUpdate': 'max',
+  'systems.breeding.lastBred.*': 'max',
+  'systems.breeding.offspringCounter': 'max',
+  'systems.*': 'atomic',
+  'meta.totalPlaySessions': 'sum',
+  'meta.lastSaved': 'max',
+  'meta.cloudSyncLastTime': 'max',
+  'meta.*': 'newest'
+};
+
+const byId: KeyedCollection['key'] = item => String(item.id);
+
+const KEYED_COLLECTIONS: Record<string, KeyedCollection> = {
+  'animals.companionBonds': { key: item => String(item.id ?? item.animalId) },
+  'animals.discoveredAnimals': { key: byId },
+  'animals.animalPersonalities': { key: item => String(item.animalId) },
+  'feeding.animalFoodPreferences': { key: item => String(item.animalId) },
+  'tricks.teachingProgress': { key: item => `${item.animalId}:${item.trickId}` },
+  'tricks.performanceVenues': { key: item => String(item.venueId) },
+  'inventory.items': { key: byId, prune: item => typeof item.quantity === 'number' && item.quantity <= 0 },
+  'inventory.craftingRecipes': { key: item => String(item.recipeId) },
+  'progress.achievements': { key: byId },
+  'progress.milestones': { key: byId },
+  'systems.bonding.bondingProgress.*.bondingMilestones': { key: byId },
+  'systems.breeding.lineage': { key: item => String(item.animalId) },
+  'systems.breeding.juveniles': { key: item => String(item.animalId) }
+};
+
+// Map snapshots saved as [key, value] pairs, merged as records keyed by the pair's key
+const ENTRY_COLLECTIONS = new Set([
+  'systems.bonding.bondingProgress',
+  'systems.breeding.lastBred'
+]);
+
+// Plain value lists where either side may remove a value
+const MEMBERSHIP_COLLECTIONS = new Set([
+  'systems.bonding.activeBonds',
+  'systems.party.members'
+]);
+
+// Plain value lists that only grow
+const SET_COLLECTIONS = new Set([
+  'world.discoveredMaps',
+  'world.unlockedAreas',
+  'feeding.foodDiscoveries',
+  'feeding.gatheringSpotDiscoveries',
+  'gathering.resourceDiscoveries',
+  'progress.unlockedFeatures',
+  'systems.bonding.bondingProgress.*.specialAbilities',
+  'systems.breeding.lineage.*.childIds'
+]);
+
+// Append-only event logs, kept in timestamp order
+const LOG_COLLECTIONS = new Set([
+  'world.playerMovementHistory',
+  'animals.animalInteractionHistory',
+  'animals.animalSpawnHistory',
+  'feeding.gatheringHistory',
+  'taming.tamingAttempts',
+  'taming.tamingMilestones',
+  'tricks.performanceHistory',
+  'inventory.itemHistory',
+  'gathering.gatheringHistory',
+  'systems.bonding.bondingProgress.*.sharedExperiences',
+  'systems.bonding.bondingProgress.*.relationshipHistory',
+  'systems.taming.*.interactionHistory',
+  'systems.taming.*.sessions'
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function matchesPattern(pattern: string, path: string[]): boolean {
+  const segments = pattern.split('.');
+  if (segments.length !== path.length) return false;
+  return segments.every((segment, i) => segment === '*' || segment === path[i]);
+}
+
+function findPattern(patterns: Iterable<string>, path: string[]): string | undefined {
+  return Array.from(patterns).find(p => matchesPattern(p, path));
+}
+
+function findRule(path: string[]): FieldRule | undefined {
+  // Exact patterns are listed before wildcards, so the first match is the most specific
+  const pattern = findPattern(Object.keys(FIELD_RULES), path);
+  return pattern ? FIELD_RULES[pattern] : undefined;
+}
+
+class SaveMerger {
+  private conflicts: MergeConflict[] = [];
+
+  constructor(private newest: MergeSide) {}
+
+  run(base: unknown, local: unknown, server: unknown): SaveMergeResult {
+    const merged = this.mergeValue([], base, local, server) as ComprehensiveGameSave;
+    return { merged, conflicts: this.conflicts };
+  }
+
+  private mergeValue(path: string[], base: unknown, local: unknown, server: unknown): unknown {
+    const joined = path.join('.');
+
+    if (isEqual(local, server)) return local;
+
+    // Only one side moved away from the base (including removing the value)
+    if (base !== undefined && isEqual(local, base)) return server;
+    if (base !== undefined && isEqual(server, base)) return local;
+
+    if (local === undefined) return server;
+    if (server === undefined) return local;
+
+    if (Array.isArray(local) && Array.isArray(server)) {
+      const keyed = findPattern(Object.keys(KEYED_COLLECTIONS), path);
+      if (keyed) {
+        return this.mergeKeyed(path, KEYED_COLLECTIONS[keyed], base, local, server);
+      }
+      if (findPattern(ENTRY_COLLECTIONS, path)) {
+        return this.mergeEntries(path, base, local, server);
+      }
+      if (findPattern(MEMBERSHIP_COLLECTIONS, path)) {
+        return this.mergeMembership(base, local, server);
+      }
+      if (findPattern(SET_COLLECTIONS, path)) {
+        return this.mergeSet(local, server);
+      }
+      if (findPattern(LOG_COLLECTIONS, path)) {
+        return this.mergeLog(local, server);
+      }
+    }
+
+    const rule = findRule(path);
+    if (rule && rule !== 'atomic' && rule !== 'fields') {
+      return this.applyRule(rule, base, local, server);
+    }
+
+    if (rule !== 'atomic' && isRecord(local) && isRecord(server)) {
+      const baseRecord = isRecord(base) ? base : {};
+      const result: Record<string, unknown> = {};
+      new Set([...Object.keys(local), ...Object.keys(server)]).forEach(key => {
+        const value = this.mergeValue([...path, key], baseRecord[key], local[key], server[key]);
+        if (value !== undefined) result[key] = value;
+      });
+      return result;
+    }
+
+    // Both sides changed the same value differently
+    this.conflicts.push({ path: joined, base, local, server, kept: this.newest });
+    return this.newest === 'local' ? local : server;
+  }
+
+  private applyRule(rule: FieldRule, base: unknown, local: unknown, server: unknown): unknown {
+    if (rule === 'newest') {
+      return this.newest === 'local' ? local : server;
+    }
+
+    if (rule === 'or') {
+      return Boolean(local) || Boolean(server);
+    }
+
+    if (typeof local !== 'number' || typeof server !== 'number') {
+      return this.newest === 'local' ? local : server;
+    }
+
+    switch (rule) {
+      case 'sum':
+        // Without a common ancestor the deltas are unknown; keep the larger count
+        return typeof base === 'number'
+          ? base + (local - base) + (server - base)
+          : Math.max(local, server);
+      case 'max':
+        return Math.max(local, server);
+      case 'min':
+        return Math.min(local, server);
+      default:
+        return local;
+    }
+  }
+
+  private mergeKeyed(
+    path: string[],
+    collection: KeyedCollection,
+    base: unknown,
+    local: unknown[],
+    server: unknown[]
+  ): unknown[] {
+    const toMap = (items: unknown[]) => {
+      const map = new Map<string, Record<string, unknown>>();
+      items.filter(isRecord).forEach(item => map.set(collection.key(item), item));
+      return map;
+    };
+
+    const baseItems = toMap(Array.isArray(base) ? base : []);
+    const localItems = toMap(local);
+    const serverItems = toMap(server);
+    const keys = new Set([...localItems.keys(), ...serverItems.keys()]);
+    const result: Record<string, unknown>[] = [];
+
+    keys.forEach(key => {
+      const baseItem = baseItems.get(key);
+      const localItem = localItems.get(key);
+      const serverItem = serverItems.get(key);
+
+      // Honour a removal only when the other side left the item untouched
+      if (baseItem && !localItem && isEqual(serverItem, baseItem)) return;
+      if (baseItem && !serverItem && isEqual(localItem, baseItem)) return;
+
+      if (baseItem && (!localItem || !serverItem)) {
+        this.conflicts.push({
+          path: [...path, key].join('.'),
+          base: baseItem,
+          local: localItem,
+          server: serverItem,
+          kept: localItem ? 'local' : 'server'
+        });
+      }
+
+      const merged = this.mergeValue([...path, key], baseItem, localItem, serverItem) as Record<string, unknown>;
+      if (!collection.prune?.(merged)) {
+        result.push(merged);
+      }
+    });
+
+    return result;
+  }
+
+  private mergeEntries(path: string[], base: unknown, local: unknown[], server: unknown[]): unknown[] {
+    const toRecord = (entries: unknown): Record<string, unknown> => {
+      const record: Record<string, unknown> = {};
+      if (Array.isArray(entries)) {
+        entries
+          .filter((entry): entry is [string, unknown] => Array.isArray(entry) && typeof entry[0] === 'string')
+          .forEach(([key, value]) => { record[key] = value; });
+      }
+      return record;
+    };
+
+    const merged = this.mergeValue(path, toRecord(base), toRecord(local), toRecord(server));
+    return Object.entries(merged as Record<string, unknown>);
+  }
+
+  private mergeMembership(base: unknown, local: unknown[], server: unknown[]): unknown[] {
+    // A value either side dropped since the base stays dropped
+    const baseValues = new Set(Array.isArray(base) ? base : []);
+    const removed = (value: unknown) =>
+      baseValues.has(value) && (!local.includes(value) || !server.includes(value));
+    return Array.from(new Set([...local, ...server])).filter(value => !removed(value));
+  }
+
+  private mergeSet(local: unknown[], server: unknown[]): unknown[] {
+    return Array.from(new Set([...local, ...server]));
+  }
+
+  private mergeLog(local: unknown[], server: unknown[]): unknown[] {
+    const seen = new Set<string>();
+    const entries: unknown[] = [];
+
+    [...local, ...server].forEach(entry => {
+      const id = JSON.stringify(entry);
+      if (!seen.has(id)) {
+        seen.add(id);
+        entries.push(entry);
+      }
+    });
+
+    const timeOf = (entry: unknown) =>
+      isRecord(entry) && typeof entry.timestamp === 'number' ? entry.timestamp : 0;
+    return entries.sort((a, b) => timeOf(a) - timeOf(b));
+  }
+}
+
+/**
+ * Merge a local and a server save against the snapshot both were last synced from.
+ * Without a base every divergent value is treated as a conflict; collections are
+ * still unioned. Genuine conflicts keep the most recently saved side.
+ */
+export function mergeSaves(
+  base: ComprehensiveGameSave | null,
+  local: ComprehensiveGameSave,
+  server: ComprehensiveGameSave
+): SaveMergeResult {
+  const newest: MergeSide = (server.meta?.lastSaved || 0) > (local.meta?.lastSaved || 0) ? 'server' : 'local';
+  return new SaveMerger(newest).run(base ?? undefined, local, server);
+}
+
+/**
+ * Short human readable form of a conflicting value for reports
+ */
+export function formatMergeValue(value: unknown, maxLength: number = 60): string {
+  if (value === undefined) return '(removed)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+export default {
+  mergeSaves,
+  formatMergeValue
+};
@@ -0,0 +1,111 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, saveSerializers } from './SaveSchema';
+import { saveManager } from './SaveManager';
+import { bondingSystem } from '../game/BondingSystem';
+import { gatheringSystem } from '../game/GatheringSystem';
+import { itemSystem } from '../game/ItemSystem';
+import { worldClock } from '../game/WorldClock';
+
+const SAVED_AT = 1_700_000_000_000;
+
+// What the released game kept in localStorage next to each save slot
+const BASELINE_SYSTEMS: Record<string, [string, unknown]> = {
+  tricks: ['feralFriends_trickData', {
+    learningProgress: [],
+    learnedTricks: [['rabbit_1', [{ trickId: 'sit', masteryLevel: 40, timesPerformed: 3 }]]],
+    performanceHistory: []
+  }],
+  bonding: ['feralFriends_bondingData', {
+    bondingProgress: [['rabbit_1', {
+      animalId: 'rabbit_1',
+      bondPoints: 120,
+      bondLevelNumber: 2,
+      timeSpentTogether: 600,
+      sharedExperiences: [],
+      bondingMilestones: [],
+      relationshipHistory: []
+    }]],
+    activeBonds: ['rabbit_1']
+  }],
+  taming: ['feral-friends-taming-progress', {
+    rabbit_1: { animalId: 'rabbit_1', trustLevel: 80, attempts: 4, isTamed: true }
+  }],
+  food: ['feralFriends_foodData', {
+    animalPreferences: [['rabbit', { species: 'rabbit', favoriteFoods: ['carrot'] }]],
+    gatheringSpots: []
+  }],
+  gathering: ['feralFriends_gatheringData', {
+    gatheringNodes: [],
+    gatheringSkills: [['foraging', { skill: 'foraging', level: 3, experience: 45 }]],
+    discoveries: ['wild_berries'],
+    weatherConditions: 'clear',
+    timeOfDay: 'morning'
+  }],
+  items: ['feralFriends_itemData', {
+    activeEffects: [],
+    itemCooldowns: [['healing_herb', SAVED_AT + 60_000]],
+    crafting: []
+  }],
+  performance: ['feralFriends_performanceData', {
+    performanceHistory: [['rabbit_1', [{ trickId: 'sit', quality: 0.8, timestamp: SAVED_AT }]]],
+    availableEvents: []
+  }]
+};
+
+/**
+ * Lay out localStorage the way the released game left it: a compressed slot save
+ * without a schema version, and each system's data under its own key
+ */
+function writeBaselineStorage(): void {
+  const slot = {
+    player: { id: 'player_1', name: 'Robin', level: 4, currentMap: 'starter_meadow', createdAt: SAVED_AT },
+    world: { currentMap: 'starter_meadow', discoveredMaps: ['starter_meadow'] },
+    animals: { discoveredAnimals: [], companionBonds: [] },
+    inventory: { items: [] },
+    meta: { saveVersion: '1.0.0', lastSaved: SAVED_AT }
+  };
+  localStorage.setItem('feral-friends-comprehensive-1', btoa(JSON.stringify(slot)));
+
+  Object.values(BASELINE_SYSTEMS).forEach(([key, data]) => {
+    localStorage.setItem(key, JSON.stringify(data));
+  });
+}
+
+afterAll(() => {
+  bondingSystem.stop();
+  gatheringSystem.stop();
+  itemSystem.stop();
+  worldClock.stop();
+});
+
+describe('save migrations', () => {
+  it('bring standalone system data from released saves into the slot', async () => {
+    writeBaselineStorage();
+
+    const loaded = await saveManager.loadGameState(1);
+
+    expect(loaded.success).toBe(true);
+    expect(loaded.data!.meta.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(loaded.data!.player.name).toBe('Robin');
+    Object.entries(BASELINE_SYSTEMS).forEach(([id, [, data]]) => {
+      expect(loaded.data!.systems[id]).toEqual(data);
+    });
+  });
+
+  it('keep that data once the save is resumed', async () => {
+    writeBaselineStorage();
+    const loaded = await saveManager.loadGameState(1);
+
+    const result = saveManager.restoreRuntimeState(loaded.data!, 1);
+    const restored = saveSerializers.captureAll();
+
+    expect(result).toEqual({ success: true, errors: [] });
+    expect(restored.tricks).toEqual(BASELINE_SYSTEMS.tricks[1]);
+    expect(restored.bonding).toEqual(BASELINE_SYSTEMS.bonding[1]);
+    expect(restored.taming).toEqual(BASELINE_SYSTEMS.taming[1]);
+    expect(restored.food).toEqual(BASELINE_SYSTEMS.food[1]);
+    expect(restored.gathering).toMatchObject({ discoveries: ['wild_berries'] });
+    expect(restored.items).toMatchObject({ itemCooldowns: [['healing_herb', SAVED_AT + 60_000]] });
+    expect(restored.performance).toEqual(BASELINE_SYSTEMS.performance[1]);
+  });
+});
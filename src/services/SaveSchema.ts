@@ -0,0 +1,298 @@
+// Save Schema
+// Canonical save versioning, migration chain and per-system serializer registry
+
+import type { ComprehensiveGameSave } from './SaveManager';
+import type { PlayerSaveData } from './SaveSystem';
+
+// Version history:
+// 0 - PlayerSaveData written by the legacy SaveSystem
+// 1 - ComprehensiveGameSave without a schema version or system snapshots
+// 2 - Adds meta.schemaVersion and the systems block; RNG state and the trick, bonding,
+//     taming, food, gathering, item and performance data that used to live in their own
+//     localStorage entries move into systems
+// 3 - Adds rivals, weather, party, companionAbilities, breeding, needs, ecosystem,
+//     quests and statistics systems, which older saves start fresh
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export interface SystemSerializer<T = unknown> {
+  id: string;
+  serialize: () => T;
+  deserialize: (data: T) => void;
+  validate: (data: unknown) => boolean;
+  reset: () => void; // back to a new game's state, for saves written before the system existed
+}
+
+export interface SaveMigration {
+  from: number;
+  description: string;
+  migrate: (save: unknown) => unknown;
+}
+
+export interface SystemRestoreResult {
+  success: boolean;
+  errors: string[];
+}
+
+export class SaveMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveMigrationError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Map a legacy SaveSystem document onto the comprehensive save layout
+ */
+function convertPlayerSaveData(legacy: PlayerSaveData): Record<string, unknown> {
+  // Sections are partial; the SaveManager fills in defaults for the rest
+  return {
+    player: {
+      id: legacy.id,
+      name: legacy.name,
+      level: legacy.level,
+      experience: legacy.experience,
+      position: legacy.position,
+      currentMap: legacy.currentMap,
+      energy: legacy.energy,
+      maxEnergy: legacy.maxEnergy,
+      playTimeSeconds: legacy.stats?.totalPlayTime || 0,
+      lastActiveAt: legacy.lastSaved
+    },
+    world: {
+      currentMap: legacy.currentMap,
+      discoveredMaps: [legacy.currentMap]
+    },
+    animals: {
+      discoveredAnimals: (legacy.discoveredAnimals || []).map(id => ({
+        id,
+        species: 'unknown',
+        firstSeen: legacy.lastSaved,
+        timesSeen: 1,
+        lastSeen: legacy.lastSaved,
+        location: legacy.currentMap,
+        notes: ''
+      })),
+      companionBonds: legacy.companions || []
+    },
+    inventory: {
+      items: legacy.inventory || []
+    },
+    progress: {
+      achievements: (legacy.achievements || []).map(achievement => ({
+        ...achievement,
+        unlocked: true,
+        progress: 1,
+        maxProgress: 1,
+        rarity: 'common'
+      }))
+    },
+    meta: {
+      saveVersion: '1.0.0',
+      lastSaved: legacy.lastSaved
+    }
+  };
+}
+
+// Where systems kept their state before schema 2 moved it into saves
+const STANDALONE_SYSTEM_KEYS: Record<string, string> = {
+  tricks: 'feralFriends_trickData',
+  bonding: 'feralFriends_bondingData',
+  taming: 'feral-friends-taming-progress',
+  food: 'feralFriends_foodData',
+  gathering: 'feralFriends_gatheringData',
+  items: 'feralFriends_itemData',
+  performance: 'feralFriends_performanceData'
+};
+
+/**
+ * Carry a system's standalone localStorage entry over into a save, if there is one
+ */
+function readStandaloneSystem(key: string): unknown {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : undefined;
+  } catch (error) {
+    console.warn(`Failed to read ${key}:`, error);
+    return undefined;
+  }
+}
+
+// Each migration upgrades a save from `from` to `from + 1`
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: 0,
+    description: 'Convert legacy SaveSystem player data',
+    migrate: (save) => convertPlayerSaveData(save as PlayerSaveData)
+  },
+  {
+    from: 1,
+    description: 'Add system snapshots and move RNG state and standalone system data into them',
+    migrate: (save) => {
+      const { random, ...rest } = save as Record<string, unknown>;
+      const systems: Record<string, unknown> = random ? { random } : {};
+
+      Object.entries(STANDALONE_SYSTEM_KEYS).forEach(([id, key]) => {
+        const data = readStandaloneSystem(key);
+        if (data !== undefined) {
+          systems[id] = data;
+        }
+      });
+
+      return { ...rest, systems };
+    }
+  },
+  {
+    from: 2,
+    description: 'Add rival, weather, party, ability, breeding, needs, ecosystem, quest and statistics systems',
+    // Nothing to carry over; restoring resets systems a save has no snapshot for
+    migrate: (save) => save
+  }
+];
+
+/**
+ * Work out which schema version a raw save document was written with
+ */
+export function getSchemaVersion(save: unknown): number {
+  if (!isRecord(save)) {
+    throw new SaveMigrationError('Save data is not an object');
+  }
+
+  const meta = save.meta;
+  if (isRecord(meta) && typeof meta.schemaVersion === 'number') {
+    return meta.schemaVersion;
+  }
+
+  // Legacy SaveSystem saves keep player fields at the top level
+  return isRecord(save.player) ? 1 : 0;
+}
+
+/**
+ * Run every migration between the save's version and the current one.
+ * The result still needs defaults filled in by the SaveManager.
+ */
+export function migrateSave(save: unknown): { save: Partial<ComprehensiveGameSave>; applied: string[] } {
+  let version = getSchemaVersion(save);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new SaveMigrationError(
+      `Save was written by a newer version (schema ${version}, supported ${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let migrated = save;
+  const applied: string[] = [];
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = SAVE_MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new SaveMigrationError(`No migration from schema version ${version}`);
+    }
+
+    migrated = migration.migrate(migrated);
+    applied.push(migration.description);
+    version++;
+  }
+
+  const result = migrated as Partial<ComprehensiveGameSave>;
+  return {
+    save: {
+      ...result,
+      meta: { ...result.meta, schemaVersion: CURRENT_SCHEMA_VERSION } as ComprehensiveGameSave['meta']
+    },
+    applied
+  };
+}
+
+export class SaveSerializerRegistry {
+  private serializers: Map<string, SystemSerializer> = new Map();
+
+  /**
+   * Register a game system's save serializer. Ids must be unique.
+   */
+  register<T>(serializer: SystemSerializer<T>): void {
+    if (this.serializers.has(serializer.id)) {
+      throw new Error(`Save serializer "${serializer.id}" is already registered`);
+    }
+    this.serializers.set(serializer.id, serializer as unknown as SystemSerializer);
+  }
+
+  getIds(): string[] {
+    return Array.from(this.serializers.keys());
+  }
+
+  /**
+   * Snapshot every registered system
+   */
+  captureAll(): Record<string, unknown> {
+    const snapshot: Record<string, unknown> = {};
+    this.serializers.forEach((serializer, id) => {
+      snapshot[id] = serializer.serialize();
+    });
+    return snapshot;
+  }
+
+  /**
+   * Check every system snapshot in a save without applying anything
+   */
+  validateAll(systems: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+
+    Object.entries(systems).forEach(([id, data]) => {
+      const serializer = this.serializers.get(id);
+      if (!serializer) {
+        errors.push(`Unknown system "${id}"`);
+      } else if (!serializer.validate(data)) {
+        errors.push(`Invalid data for system "${id}"`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Apply system snapshots all-or-nothing. Systems missing from the save are
+   * reset so nothing carries over from the previous game; if any system
+   * fails, every system is rolled back.
+   */
+  restoreAll(systems: Record<string, unknown>): SystemRestoreResult {
+    const errors = this.validateAll(systems);
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    const rollback = this.captureAll();
+    const restored: string[] = [];
+
+    try {
+      this.serializers.forEach((serializer, id) => {
+        // Track before applying so a half-applied system is rolled back too
+        restored.push(id);
+        if (id in systems) {
+          serializer.deserialize(systems[id]);
+        } else {
+          serializer.reset();
+        }
+      });
+      return { success: true, errors: [] };
+    } catch (error) {
+      restored.forEach(id => {
+        try {
+          this.serializers.get(id)!.deserialize(rollback[id]);
+        } catch (rollbackError) {
+          console.error(`Failed to roll back system "${id}":`, rollbackError);
+        }
+      });
+
+      return {
+        success: false,
+        errors: [`Failed to restore systems: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const saveSerializers = new SaveSerializerRegistry();
@@ -0,0 +1,191 @@
+// Save Serializers
+// Registers every game system that contributes a slice to the unified save
+
+import { trickSystem } from '../game/TrickSystem';
+import { bondingSystem } from '../game/BondingSystem';
+import { tamingSystem } from '../game/TamingSystem';
+import { foodPreferences } from '../game/FoodPreferences';
+import { gatheringSystem } from '../game/GatheringSystem';
+import { itemSystem } from '../game/ItemSystem';
+import { performanceSystem } from '../game/PerformanceSystem';
+import { dialogueSystem } from '../game/DialogueSystem';
+import { rivalSystem } from '../game/RivalSystem';
+import { weatherSystem } from '../game/WeatherSystem';
+import { partySystem } from '../game/PartySystem';
+import { companionAbilitySystem } from '../game/CompanionAbilitySystem';
+import { breedingSystem } from '../game/BreedingSystem';
+import { animalNeeds } from '../game/AnimalNeeds';
+import { ecosystemSystem } from '../game/EcosystemSystem';
+import { questSystem } from '../game/QuestSystem';
+import { gameStatistics } from '../game/GameStatistics';
+import { randomService, RANDOM_STREAMS } from './RandomService';
+import { SaveSerializerRegistry, saveSerializers } from './SaveSchema';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that the listed fields are arrays, allowing them to be absent
+ */
+function hasArrayFields(data: unknown, fields: string[]): boolean {
+  return isRecord(data) && fields.every(field => data[field] === undefined || Array.isArray(data[field]));
+}
+
+/**
+ * Register the core game systems. Safe to call more than once.
+ */
+export function registerCoreSerializers(registry: SaveSerializerRegistry = saveSerializers): void {
+  if (registry.getIds().length > 0) return;
+
+  registry.register({
+    id: 'random',
+    serialize: () => randomService.getState(),
+    deserialize: (data) => randomService.loadState(data),
+    validate: (data) => {
+      if (!isRecord(data) || typeof data.seed !== 'number') return false;
+      const streams = data.streams;
+      return isRecord(streams) && RANDOM_STREAMS.every(name => typeof streams[name] === 'number');
+    },
+    reset: () => randomService.setSeed(randomService.getSeed())
+  });
+
+  registry.register({
+    id: 'tricks',
+    serialize: () => trickSystem.getSaveData(),
+    deserialize: (data) => trickSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['learningProgress', 'learnedTricks', 'performanceHistory']),
+    reset: () => trickSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'bonding',
+    serialize: () => bondingSystem.getSaveData(),
+    deserialize: (data) => bondingSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['bondingProgress', 'activeBonds']),
+    reset: () => bondingSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'taming',
+    serialize: () => tamingSystem.getAllTamingProgress(),
+    deserialize: (data) => tamingSystem.loadSaveData(data),
+    validate: (data) => isRecord(data) && Object.values(data).every(isRecord),
+    reset: () => tamingSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'food',
+    serialize: () => foodPreferences.getSaveData(),
+    deserialize: (data) => foodPreferences.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['animalPreferences', 'gatheringSpots']),
+    reset: () => foodPreferences.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'gathering',
+    serialize: () => gatheringSystem.getSaveData(),
+    deserialize: (data) => gatheringSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['gatheringNodes', 'gatheringSkills', 'discoveries']),
+    reset: () => gatheringSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'items',
+    serialize: () => itemSystem.getSaveData(),
+    deserialize: (data) => itemSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['activeEffects', 'itemCooldowns', 'crafting']),
+    reset: () => itemSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'performance',
+    serialize: () => performanceSystem.getSaveData(),
+    deserialize: (data) => performanceSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['performanceHistory', 'availableEvents']),
+    reset: () => performanceSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'dialogue',
+    serialize: () => dialogueSystem.getSaveData(),
+    deserialize: (data) => dialogueSystem.loadSaveData(data),
+    validate: (data) =>
+      isRecord(data) &&
+      hasArrayFields(data, ['animalVariables']) &&
+      (data.globalVariables === undefined || isRecord(data.globalVariables)),
+    reset: () => dialogueSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'rivals',
+    serialize: () => rivalSystem.getSaveData(),
+    deserialize: (data) => rivalSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['records']),
+    reset: () => rivalSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'weather',
+    serialize: () => weatherSystem.getSaveData(),
+    deserialize: (data) => weatherSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['states', 'fronts']),
+    reset: () => weatherSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'party',
+    serialize: () => partySystem.getSaveData(),
+    deserialize: (data) => partySystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['members']),
+    reset: () => partySystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'companionAbilities',
+    serialize: () => companionAbilitySystem.getSaveData(),
+    deserialize: (data) => companionAbilitySystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['cooldowns', 'buffs', 'excavated']),
+    reset: () => companionAbilitySystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'breeding',
+    serialize: () => breedingSystem.getSaveData(),
+    deserialize: (data) => breedingSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['lineage', 'juveniles', 'lastBred']),
+    reset: () => breedingSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'needs',
+    serialize: () => animalNeeds.getSaveData(),
+    deserialize: (data) => animalNeeds.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['needs']),
+    reset: () => animalNeeds.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'ecosystem',
+    serialize: () => ecosystemSystem.getSaveData(),
+    deserialize: (data) => ecosystemSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['zones', 'history']),
+    reset: () => ecosystemSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'quests',
+    serialize: () => questSystem.getSaveData(),
+    deserialize: (data) => questSystem.loadSaveData(data),
+    validate: (data) => hasArrayFields(data, ['quests']),
+    reset: () => questSystem.loadSaveData({})
+  });
+
+  registry.register({
+    id: 'statistics',
+    serialize: () => gameStatistics.getSaveData(),
+    deserialize: (data) => gameStatistics.loadSaveData(data),
+    validate: (data) => isRecord(data) && (data.counts === undefined || isRecord(data.counts)),
+    reset: () => gameStatistics.loadSaveData({})
+  });
+}
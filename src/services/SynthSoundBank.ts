@@ -0,0 +1,528 @@
+// Synth Sound Bank
+// Procedural Web Audio voices used when a sound file is missing or fails to load
+
+import type { TerrainType } from '../game/Map';
+import { ANIMAL_SOUND_PROFILES, AnimalSoundProfile } from './ComprehensiveAudioSystem';
+
+export interface SynthPlayOptions {
+  volume?: number;
+  pitch?: number;
+  delay?: number; // milliseconds
+}
+
+export interface SynthAmbientHandle {
+  id: string;
+  setVolume: (volume: number) => void;
+  stop: (fadeOut?: number) => void;
+}
+
+interface ToneSpec {
+  freq: number;
+  duration: number;
+  at?: number; // seconds after the sound starts
+  type?: OscillatorType;
+  gain?: number;
+  glideTo?: number;
+  attack?: number;
+}
+
+interface NoiseSpec {
+  duration: number;
+  filter: BiquadFilterType;
+  freq: number;
+  at?: number;
+  q?: number;
+  gain?: number;
+  sweepTo?: number;
+}
+
+interface SoundRecipe {
+  tones?: ToneSpec[];
+  noise?: NoiseSpec[];
+}
+
+type AnimalEmotion = keyof AnimalSoundProfile['sounds'];
+
+interface AnimalVoice {
+  base: number;
+  type: OscillatorType;
+  shape: 'chirp' | 'squeak' | 'bark' | 'howl' | 'hoot' | 'flutter' | 'meow';
+}
+
+interface AmbientBed {
+  // Filtered noise with a slow sweep on the filter
+  noise?: { filter: BiquadFilterType; freq: number; q?: number; gain: number; sweepRate?: number; sweepDepth?: number };
+  // Sustained chord with gentle tremolo
+  drone?: { freqs: number[]; type: OscillatorType; gain: number; tremoloRate: number };
+  // Rapidly gated tone, e.g. insects
+  pulse?: { freq: number; rate: number; gain: number };
+  // One-shot sounds from this bank scattered over the bed
+  events?: { sounds: string[]; minInterval: number; maxInterval: number; volume: number };
+}
+
+/**
+ * Chime: each note with a quiet octave partial
+ */
+function chime(notes: number[], spacing: number = 0.08, duration: number = 0.25, gain: number = 0.25): SoundRecipe {
+  return {
+    tones: notes.flatMap((freq, i) => [
+      { freq, duration, at: i * spacing, type: 'sine' as OscillatorType, gain },
+      { freq: freq * 2, duration: duration * 0.6, at: i * spacing, type: 'sine' as OscillatorType, gain: gain * 0.2 }
+    ])
+  };
+}
+
+const UI_RECIPES: Record<string, SoundRecipe> = {
+  button_click: { tones: [{ freq: 1200, duration: 0.03, type: 'square', gain: 0.08 }] },
+  button_hover: { tones: [{ freq: 900, duration: 0.04, gain: 0.06 }] },
+  ui_interaction: { tones: [{ freq: 1000, duration: 0.04, type: 'triangle', gain: 0.12 }] },
+  menu_open: { tones: [{ freq: 400, glideTo: 800, duration: 0.15, type: 'triangle', gain: 0.15 }] },
+  menu_close: { tones: [{ freq: 800, glideTo: 400, duration: 0.15, type: 'triangle', gain: 0.15 }] },
+  success: chime([523.25, 659.25, 783.99]),
+  success_major: chime([523.25, 659.25, 783.99, 1046.5], 0.09, 0.35),
+  success_minor: chime([659.25, 783.99], 0.07, 0.2, 0.2),
+  error: {
+    tones: [
+      { freq: 220, duration: 0.14, type: 'square', gain: 0.1 },
+      { freq: 185, duration: 0.2, at: 0.15, type: 'square', gain: 0.1 }
+    ]
+  },
+  ui_drag_start: { tones: [{ freq: 500, glideTo: 700, duration: 0.08, gain: 0.12 }] },
+  ui_drop_success: chime([659.25, 987.77], 0.06, 0.18, 0.2),
+  ui_drop_cancel: { tones: [{ freq: 500, glideTo: 300, duration: 0.12, type: 'triangle', gain: 0.12 }] },
+  dialogue_appear: chime([880, 1174.66], 0.06, 0.12, 0.15),
+  pet_success: { tones: [{ freq: 660, glideTo: 880, duration: 0.3, type: 'triangle', gain: 0.2 }] },
+  feed_success: {
+    noise: [
+      { duration: 0.06, filter: 'bandpass', freq: 1500, q: 2, gain: 0.3 },
+      { duration: 0.06, at: 0.12, filter: 'bandpass', freq: 1300, q: 2, gain: 0.3 }
+    ],
+    tones: chime([587.33, 880], 0.08, 0.2, 0.18).tones!.map(tone => ({ ...tone, at: (tone.at || 0) + 0.25 }))
+  },
+  play_success: chime([659.25, 880, 659.25, 1046.5], 0.07, 0.12, 0.2),
+  trust_up: chime([392, 493.88, 587.33, 783.99], 0.1, 0.3),
+  animal_scared: {
+    tones: [{ freq: 900, glideTo: 300, duration: 0.25, type: 'sawtooth', gain: 0.08 }],
+    noise: [{ duration: 0.15, filter: 'highpass', freq: 3000, gain: 0.2 }]
+  },
+  wind_gust: { noise: [{ duration: 0.9, filter: 'bandpass', freq: 400, sweepTo: 1200, q: 1.5, gain: 0.4 }] },
+  water_splash: { noise: [{ duration: 0.4, filter: 'lowpass', freq: 2000, sweepTo: 400, gain: 0.5 }] },
+  leaves_rustle: {
+    noise: [0, 0.1, 0.22].map(at => ({ duration: 0.08, at, filter: 'highpass' as BiquadFilterType, freq: 3000, gain: 0.25 }))
+  }
+};
+
+const FOOTSTEPS: Record<TerrainType, SoundRecipe> = {
+  grass: { noise: [{ duration: 0.09, filter: 'bandpass', freq: 2500, q: 0.8, gain: 0.3 }] },
+  flower: { noise: [{ duration: 0.09, filter: 'bandpass', freq: 2800, q: 0.8, gain: 0.22 }] },
+  forest: { noise: [{ duration: 0.12, filter: 'highpass', freq: 3000, gain: 0.3 }] },
+  bush: { noise: [{ duration: 0.16, filter: 'highpass', freq: 2500, gain: 0.3 }] },
+  path: { noise: [{ duration: 0.07, filter: 'bandpass', freq: 1200, q: 1, gain: 0.35 }] },
+  dirt: { noise: [{ duration: 0.08, filter: 'lowpass', freq: 700, gain: 0.45 }] },
+  sand: { noise: [{ duration: 0.14, filter: 'highpass', freq: 4000, gain: 0.2 }] },
+  water: { noise: [{ duration: 0.18, filter: 'lowpass', freq: 900, sweepTo: 300, gain: 0.45 }] },
+  stone: {
+    noise: [{ duration: 0.05, filter: 'bandpass', freq: 1800, q: 3, gain: 0.35 }],
+    tones: [{ freq: 180, duration: 0.04, type: 'triangle', gain: 0.15 }]
+  },
+  rock: {
+    noise: [{ duration: 0.05, filter: 'bandpass', freq: 1500, q: 4, gain: 0.35 }],
+    tones: [{ freq: 140, duration: 0.05, type: 'triangle', gain: 0.15 }]
+  }
+};
+
+// Layered over the terrain step for `footstep_<terrain>_<surface>` ids
+const FOOTSTEP_SURFACES: Record<string, NoiseSpec[]> = {
+  wet: [{ duration: 0.12, at: 0.02, filter: 'lowpass', freq: 1400, sweepTo: 500, gain: 0.25 }],
+  snow: [{ duration: 0.15, filter: 'bandpass', freq: 900, q: 1.2, gain: 0.3 }]
+};
+
+const ANIMAL_VOICES: Record<string, AnimalVoice> = {
+  rabbit: { base: 1400, type: 'sine', shape: 'squeak' },
+  fox: { base: 600, type: 'sawtooth', shape: 'bark' },
+  bird: { base: 2800, type: 'sine', shape: 'chirp' },
+  wolf: { base: 380, type: 'triangle', shape: 'howl' },
+  owl: { base: 330, type: 'sine', shape: 'hoot' },
+  butterfly: { base: 600, type: 'sine', shape: 'flutter' },
+  cat: { base: 500, type: 'triangle', shape: 'meow' },
+  dog: { base: 350, type: 'square', shape: 'bark' }
+};
+
+// pitch and speed scale the voice; count is how many utterances are strung together
+const EMOTION_TUNING: Record<AnimalEmotion, { pitch: number; speed: number; count: number; gain: number }> = {
+  idle: { pitch: 1, speed: 1, count: 1, gain: 0.6 },
+  happy: { pitch: 1.2, speed: 1.2, count: 2, gain: 0.7 },
+  scared: { pitch: 1.4, speed: 1.8, count: 3, gain: 0.7 },
+  eating: { pitch: 0.9, speed: 1.5, count: 2, gain: 0.4 },
+  sleeping: { pitch: 0.7, speed: 0.6, count: 1, gain: 0.3 },
+  calling: { pitch: 1, speed: 0.8, count: 2, gain: 0.8 },
+  playing: { pitch: 1.15, speed: 1.4, count: 3, gain: 0.6 }
+};
+
+// Ids registered in AudioManager before species profiles existed
+const LEGACY_ANIMAL_SOUNDS: Record<string, { species: string; emotion: AnimalEmotion }> = {
+  cat_meow: { species: 'cat', emotion: 'calling' },
+  dog_bark: { species: 'dog', emotion: 'calling' },
+  rabbit_squeak: { species: 'rabbit', emotion: 'idle' },
+  bird_chirp: { species: 'bird', emotion: 'idle' }
+};
+
+const AMBIENT_BEDS: Record<string, AmbientBed> = {
+  forest_ambient: {
+    noise: { filter: 'lowpass', freq: 500, gain: 0.25, sweepRate: 0.1, sweepDepth: 150 },
+    events: { sounds: ['animal_bird_idle', 'leaves_rustle'], minInterval: 3000, maxInterval: 8000, volume: 0.4 }
+  },
+  meadow_ambient: {
+    noise: { filter: 'bandpass', freq: 1200, q: 0.5, gain: 0.12, sweepRate: 0.15, sweepDepth: 300 },
+    events: { sounds: ['animal_bird_happy'], minInterval: 5000, maxInterval: 12000, volume: 0.3 }
+  },
+  water_ambient: {
+    noise: { filter: 'bandpass', freq: 700, q: 0.7, gain: 0.3, sweepRate: 0.3, sweepDepth: 300 }
+  },
+  wind_ambient: {
+    noise: { filter: 'bandpass', freq: 500, q: 1.5, gain: 0.35, sweepRate: 0.08, sweepDepth: 350 }
+  },
+  crickets_ambient: {
+    noise: { filter: 'lowpass', freq: 300, gain: 0.05 },
+    pulse: { freq: 4400, rate: 12, gain: 0.05 }
+  },
+  birds_ambient: {
+    events: { sounds: ['animal_bird_idle', 'animal_bird_happy'], minInterval: 1500, maxInterval: 4000, volume: 0.35 }
+  },
+  peaceful_ambient: {
+    drone: { freqs: [261.63, 329.63, 392], type: 'sine', gain: 0.05, tremoloRate: 0.2 }
+  }
+};
+
+function animalRecipe(voice: AnimalVoice, emotion: AnimalEmotion, pitchVariation: number): SoundRecipe {
+  const tuning = EMOTION_TUNING[emotion];
+  const recipe: Required<SoundRecipe> = { tones: [], noise: [] };
+  let at = 0;
+
+  for (let i = 0; i < tuning.count; i++) {
+    // Cosmetic variation only, so it stays off the seeded game streams
+    const freq = voice.base * tuning.pitch * (1 + (Math.random() - 0.5) * pitchVariation);
+    const s = tuning.speed;
+    const gain = tuning.gain * 0.3;
+    let length: number;
+
+    switch (voice.shape) {
+      case 'chirp':
+        length = 0.08 / s;
+        recipe.tones.push({ freq, glideTo: freq * 1.3, duration: length, at, type: voice.type, gain });
+        break;
+      case 'squeak':
+        length = 0.06 / s;
+        recipe.tones.push({ freq, glideTo: freq * 1.1, duration: length, at, type: voice.type, gain });
+        break;
+      case 'bark':
+        length = 0.12 / s;
+        recipe.tones.push({ freq, glideTo: freq * 0.6, duration: length, at, type: voice.type, gain: gain * 0.6 });
+        recipe.noise.push({ duration: 0.05 / s, at, filter: 'bandpass', freq: freq * 2, q: 2, gain });
+        break;
+      case 'howl':
+        length = 1.2 / s;
+        recipe.tones.push({ freq, glideTo: freq * 1.6, duration: length * 0.6, at, type: voice.type, gain, attack: 0.1 });
+        recipe.tones.push({ freq: freq * 1.6, glideTo: freq * 1.2, duration: length * 0.4, at: at + length * 0.6, type: voice.type, gain });
+        break;
+      case 'hoot':
+        length = 0.7 / s;
+        recipe.tones.push({ freq, duration: 0.25 / s, at, type: voice.type, gain, attack: 0.03 });
+        recipe.tones.push({ freq: freq * 0.94, duration: 0.35 / s, at: at + 0.35 / s, type: voice.type, gain, attack: 0.03 });
+        break;
+      case 'flutter':
+        length = 0.2 / s;
+        for (let beat = 0; beat < 4; beat++) {
+          recipe.noise.push({ duration: 0.03, at: at + beat * 0.05 / s, filter: 'bandpass', freq, q: 2, gain: gain * 0.5 });
+        }
+        break;
+      case 'meow':
+        length = 0.4 / s;
+        recipe.tones.push({ freq, glideTo: freq * 1.3, duration: length * 0.4, at, type: voice.type, gain });
+        recipe.tones.push({ freq: freq * 1.3, glideTo: freq * 0.8, duration: length * 0.6, at: at + length * 0.4, type: voice.type, gain });
+        break;
+    }
+
+    at += length + 0.06 / s;
+  }
+
+  return recipe;
+}
+
+export class SynthSoundBank {
+  private context: AudioContext;
+  private noiseBuffer: AudioBuffer | null = null;
+  private profileSounds: Map<string, { species: string; emotion: AnimalEmotion }> | null = null;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+  }
+
+  /**
+   * Whether a one-shot sound can be synthesized for this id
+   */
+  has(id: string): boolean {
+    return this.resolve(id) !== null;
+  }
+
+  hasAmbient(id: string): boolean {
+    return id in AMBIENT_BEDS;
+  }
+
+  /**
+   * Synthesize a one-shot sound into the given node. Returns false for unknown ids.
+   */
+  play(id: string, destination: AudioNode, options: SynthPlayOptions = {}): boolean {
+    const recipe = this.resolve(id);
+    if (!recipe) return false;
+
+    const pitch = options.pitch ?? 1;
+    const start = this.context.currentTime + (options.delay ?? 0) / 1000;
+    const output = this.context.createGain();
+    output.gain.value = options.volume ?? 1;
+    output.connect(destination);
+
+    let end = start;
+    recipe.tones?.forEach(tone => {
+      end = Math.max(end, this.scheduleTone(tone, start, pitch, output));
+    });
+    recipe.noise?.forEach(noise => {
+      end = Math.max(end, this.scheduleNoise(noise, start, pitch, output));
+    });
+
+    setTimeout(() => output.disconnect(), (end - this.context.currentTime) * 1000 + 200);
+    return true;
+  }
+
+  /**
+   * Start a looping ambient bed. Returns null for unknown ids.
+   */
+  startAmbient(id: string, destination: AudioNode, volume: number = 1, fadeIn: number = 0): SynthAmbientHandle | null {
+    const bed = AMBIENT_BEDS[id];
+    if (!bed) return null;
+
+    const now = this.context.currentTime;
+    const output = this.context.createGain();
+    output.gain.setValueAtTime(0.0001, now);
+    output.gain.linearRampToValueAtTime(volume, now + Math.max(0.05, fadeIn / 1000));
+    output.connect(destination);
+
+    const sources: AudioScheduledSourceNode[] = [];
+
+    if (bed.noise) {
+      const noise = this.context.createBufferSource();
+      noise.buffer = this.getNoiseBuffer();
+      noise.loop = true;
+
+      const filter = this.context.createBiquadFilter();
+      filter.type = bed.noise.filter;
+      filter.frequency.value = bed.noise.freq;
+      filter.Q.value = bed.noise.q ?? 1;
+
+      const gain = this.context.createGain();
+      gain.gain.value = bed.noise.gain;
+      noise.connect(filter).connect(gain).connect(output);
+      sources.push(noise);
+
+      if (bed.noise.sweepRate && bed.noise.sweepDepth) {
+        sources.push(this.createLfo(bed.noise.sweepRate, bed.noise.sweepDepth, filter.frequency));
+      }
+    }
+
+    if (bed.drone) {
+      const gain = this.context.createGain();
+      gain.gain.value = bed.drone.gain;
+      gain.connect(output);
+
+      bed.drone.freqs.forEach(freq => {
+        const osc = this.context.createOscillator();
+        osc.type = bed.drone!.type;
+        osc.frequency.value = freq;
+        osc.connect(gain);
+        sources.push(osc);
+      });
+      sources.push(this.createLfo(bed.drone.tremoloRate, bed.drone.gain * 0.5, gain.gain));
+    }
+
+    if (bed.pulse) {
+      const osc = this.context.createOscillator();
+      osc.frequency.value = bed.pulse.freq;
+
+      const gate = this.context.createGain();
+      gate.gain.value = bed.pulse.gain / 2;
+      osc.connect(gate).connect(output);
+      sources.push(osc);
+      sources.push(this.createLfo(bed.pulse.rate, bed.pulse.gain / 2, gate.gain, 'square'));
+    }
+
+    sources.forEach(source => source.start(now));
+
+    let eventTimer: ReturnType<typeof setTimeout> | null = null;
+    const events = bed.events;
+    if (events) {
+      const scheduleNext = () => {
+        const wait = events.minInterval + Math.random() * (events.maxInterval - events.minInterval);
+        eventTimer = setTimeout(() => {
+          const sound = events.sounds[Math.floor(Math.random() * events.sounds.length)];
+          this.play(sound, output, { volume: events.volume });
+          scheduleNext();
+        }, wait);
+      };
+      scheduleNext();
+    }
+
+    return {
+      id,
+      setVolume: (value: number) => {
+        output.gain.setTargetAtTime(value, this.context.currentTime, 0.1);
+      },
+      stop: (fadeOut: number = 0) => {
+        if (eventTimer) clearTimeout(eventTimer);
+
+        const stopAt = this.context.currentTime + Math.max(0.05, fadeOut / 1000);
+        output.gain.cancelScheduledValues(this.context.currentTime);
+        output.gain.setValueAtTime(output.gain.value, this.context.currentTime);
+        output.gain.linearRampToValueAtTime(0.0001, stopAt);
+        sources.forEach(source => source.stop(stopAt));
+        setTimeout(() => output.disconnect(), (stopAt - this.context.currentTime) * 1000 + 200);
+      }
+    };
+  }
+
+  private resolve(id: string): SoundRecipe | null {
+    if (UI_RECIPES[id]) {
+      return UI_RECIPES[id];
+    }
+
+    if (id.startsWith('footstep_')) {
+      return this.footstepRecipe(id.slice('footstep_'.length));
+    }
+
+    const animal = LEGACY_ANIMAL_SOUNDS[id] || this.getProfileSound(id) || this.parseAnimalId(id);
+    if (animal) {
+      const voice = ANIMAL_VOICES[animal.species];
+      const variation = ANIMAL_SOUND_PROFILES[animal.species]?.pitchVariation ?? 0.2;
+      return voice ? animalRecipe(voice, animal.emotion, variation) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * `<terrain>` or `<terrain>_<surface>` for steps in rain or snow
+   */
+  private footstepRecipe(name: string): SoundRecipe | null {
+    if (FOOTSTEPS[name as TerrainType]) {
+      return FOOTSTEPS[name as TerrainType];
+    }
+
+    const separator = name.lastIndexOf('_');
+    const base = FOOTSTEPS[name.slice(0, separator) as TerrainType];
+    const surface = FOOTSTEP_SURFACES[name.slice(separator + 1)];
+    if (separator < 0 || !base || !surface) return null;
+
+    return { ...base, noise: [...(base.noise || []), ...surface] };
+  }
+
+  /**
+   * `animal_<species>_<emotion>`
+   */
+  private parseAnimalId(id: string): { species: string; emotion: AnimalEmotion } | null {
+    const match = id.match(/^animal_([a-z]+)_([a-z]+)$/);
+    if (!match || !(match[2] in EMOTION_TUNING)) return null;
+    return { species: match[1], emotion: match[2] as AnimalEmotion };
+  }
+
+  /**
+   * Ids derived from ANIMAL_SOUND_PROFILES file names, e.g. `fox_yip`
+   */
+  private getProfileSound(id: string): { species: string; emotion: AnimalEmotion } | null {
+    if (!this.profileSounds) {
+      this.profileSounds = new Map();
+      Object.values(ANIMAL_SOUND_PROFILES).forEach(profile => {
+        (Object.keys(profile.sounds) as AnimalEmotion[]).forEach(emotion => {
+          profile.sounds[emotion].forEach(file => {
+            const soundId = file.split('/').pop()!.replace(/\.\w+$/, '');
+            this.profileSounds!.set(soundId, { species: profile.species, emotion });
+          });
+        });
+      });
+    }
+    return this.profileSounds.get(id) || null;
+  }
+
+  private scheduleTone(tone: ToneSpec, start: number, pitch: number, output: AudioNode): number {
+    const t0 = start + (tone.at ?? 0);
+    const t1 = t0 + tone.duration;
+
+    const osc = this.context.createOscillator();
+    osc.type = tone.type ?? 'sine';
+    osc.frequency.setValueAtTime(tone.freq * pitch, t0);
+    if (tone.glideTo) {
+      osc.frequency.exponentialRampToValueAtTime(tone.glideTo * pitch, t1);
+    }
+
+    const envelope = this.createEnvelope(t0, t1, tone.gain ?? 0.3, tone.attack ?? 0.005);
+    osc.connect(envelope).connect(output);
+    osc.start(t0);
+    osc.stop(t1 + 0.05);
+    return t1;
+  }
+
+  private scheduleNoise(noise: NoiseSpec, start: number, pitch: number, output: AudioNode): number {
+    const t0 = start + (noise.at ?? 0);
+    const t1 = t0 + noise.duration;
+
+    const source = this.context.createBufferSource();
+    source.buffer = this.getNoiseBuffer();
+
+    const filter = this.context.createBiquadFilter();
+    filter.type = noise.filter;
+    filter.Q.value = noise.q ?? 1;
+    filter.frequency.setValueAtTime(noise.freq * pitch, t0);
+    if (noise.sweepTo) {
+      filter.frequency.exponentialRampToValueAtTime(noise.sweepTo * pitch, t1);
+    }
+
+    const envelope = this.createEnvelope(t0, t1, noise.gain ?? 0.3, 0.005);
+    source.connect(filter).connect(envelope).connect(output);
+
+    // Start somewhere random in the buffer so repeated bursts don't sound identical
+    const offset = Math.random() * Math.max(0, source.buffer.duration - noise.duration);
+    source.start(t0, offset, noise.duration + 0.05);
+    return t1;
+  }
+
+  private createEnvelope(t0: number, t1: number, peak: number, attack: number): GainNode {
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0.0001, t0);
+    gain.gain.linearRampToValueAtTime(peak, t0 + Math.min(attack, (t1 - t0) / 2));
+    gain.gain.exponentialRampToValueAtTime(0.0001, t1);
+    return gain;
+  }
+
+  private createLfo(rate: number, depth: number, target: AudioParam, type: OscillatorType = 'sine'): OscillatorNode {
+    const lfo = this.context.createOscillator();
+    lfo.type = type;
+    lfo.frequency.value = rate;
+
+    const amount = this.context.createGain();
+    amount.gain.value = depth;
+    lfo.connect(amount).connect(target);
+    return lfo;
+  }
+
+  private getNoiseBuffer(): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const length = this.context.sampleRate * 2;
+      this.noiseBuffer = this.context.createBuffer(1, length, this.context.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+    }
+    return this.noiseBuffer;
+  }
+}
+
+export default SynthSoundBank;
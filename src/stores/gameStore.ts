@@ -1,10 +1,10 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import { STORAGE_KEYS } from '../constants';
 import { Animal } from '../game/Animal';
 import { DialogueState } from '../game/DialogueSystem';
 import { AnimalAI } from '../game/AnimalAI';
+import { gameEvents } from '../game/GameEvents';
+import type { ComprehensiveGameSave } from '../services/SaveManager';
 
 // Types for game state
 interface Position {
@@ -95,7 +95,7 @@ interface GameStore {
   
   // Player Actions
   movePlayer: (position: Position) => void;
-  setMovementTarget: (target: Position) => void;
+  setMovementTarget: (target: Position, path: Position[]) => void;
   clearMovementTarget: () => void;
   moveTowardsTarget: () => boolean; // Returns true if movement completed
   useEnergy: (amount: number) => boolean; // Returns true if had enough energy
@@ -103,8 +103,9 @@ interface GameStore {
   setEnergy: (energy: number) => void;
   updatePlayerExp: (exp: number) => void;
   addToInventory: (item: any) => void;
-  removeFromInventory: (itemId: string) => void;
+  removeFromInventory: (itemId: string, quantity?: number) => void;
   addCompanion: (animal: any) => void;
+  updateCompanion: (animalId: string, updates: Partial<Animal>) => void;
   discoverAnimal: (animalId: string) => void;
   unlockAchievement: (achievementId: string) => void;
   
@@ -134,7 +135,7 @@ interface GameStore {
   
   // Persistence Actions
   saveGame: () => void;
-  loadGame: () => void;
+  loadGame: (save: ComprehensiveGameSave) => void; // Saves live in the SaveManager; this mirrors one into the store
   resetGame: () => void;
 }
 
@@ -198,510 +199,533 @@ const defaultSettings: Settings = {
   language: 'en'
 };
 
-// Simple pathfinding function (Manhattan distance)
-const findPath = (start: Position, end: Position): Position[] => {
-  const path: Position[] = [];
-  let current = { ...start };
-  
-  while (current.x !== end.x || current.y !== end.y) {
-    // Move towards target one step at a time
-    if (current.x < end.x) {
-      current.x++;
-    } else if (current.x > end.x) {
-      current.x--;
-    } else if (current.y < end.y) {
-      current.y++;
-    } else if (current.y > end.y) {
-      current.y--;
-    }
-    
-    path.push({ ...current });
-  }
-  
-  return path;
-};
-
-// Create the store with persistence
+// Create the store
 export const useGameStore = create<GameStore>()(
   subscribeWithSelector(
-    persist(
-      (set, get) => ({
-        // Initial states
-        gameState: defaultGameState,
-        playerState: defaultPlayerState,
-        animalState: defaultAnimalState,
-        uiState: defaultUIState,
-        settings: defaultSettings,
-
-        // Game Actions
-        startGame: () => {
-          set((state) => ({
-            gameState: {
-              ...state.gameState,
-              isPlaying: true,
-              isPaused: false,
-              isLoading: false
-            }
-          }));
-        },
-
-        pauseGame: () => {
-          set((state) => ({
-            gameState: {
-              ...state.gameState,
-              isPaused: true
-            }
-          }));
-        },
-
-        resumeGame: () => {
-          set((state) => ({
-            gameState: {
-              ...state.gameState,
-              isPaused: false
-            }
-          }));
-        },
-
-        stopGame: () => {
-          set((state) => ({
-            gameState: {
-              ...state.gameState,
-              isPlaying: false,
-              isPaused: false
-            }
-          }));
-        },
-
-        setLoading: (loading: boolean) => {
-          set((state) => ({
-            gameState: {
-              ...state.gameState,
-              isLoading: loading
-            }
-          }));
-        },
-
-        updateGameTime: (deltaTime: number) => {
-          set((state) => ({
-            gameState: {
-              ...state.gameState,
-              gameTime: state.gameState.gameTime + deltaTime
-            }
-          }));
-        },
-
-        // Player Actions
-        movePlayer: (position: Position) => {
-          set((state) => ({
+    (set, get) => ({
+      // Initial states
+      gameState: defaultGameState,
+      playerState: defaultPlayerState,
+      animalState: defaultAnimalState,
+      uiState: defaultUIState,
+      settings: defaultSettings,
+
+      // Game Actions
+      startGame: () => {
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            isPlaying: true,
+            isPaused: false,
+            isLoading: false
+          }
+        }));
+      },
+
+      pauseGame: () => {
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            isPaused: true
+          }
+        }));
+      },
+
+      resumeGame: () => {
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            isPaused: false
+          }
+        }));
+      },
+
+      stopGame: () => {
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            isPlaying: false,
+            isPaused: false
+          }
+        }));
+      },
+
+      setLoading: (loading: boolean) => {
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            isLoading: loading
+          }
+        }));
+      },
+
+      updateGameTime: (deltaTime: number) => {
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            gameTime: state.gameState.gameTime + deltaTime
+          }
+        }));
+      },
+
+      // Player Actions
+      movePlayer: (position: Position) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            player: {
+              ...state.playerState.player,
+              position
+            },
+            isMoving: false,
+            movementTarget: null,
+            movementPath: []
+          }
+        }));
+      },
+
+      setMovementTarget: (target: Position, path: Position[]) => {
+        const state = get();
+        const currentPos = state.playerState.player.position;
+        
+        // Don't set target if already at position
+        if (currentPos.x === target.x && currentPos.y === target.y) {
+          return;
+        }
+        
+        // Path comes from the map's Pathfinder, since the store doesn't know about terrain
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            movementTarget: target,
+            movementPath: path,
+            isMoving: path.length > 0
+          }
+        }));
+      },
+
+      clearMovementTarget: () => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            movementTarget: null,
+            movementPath: [],
+            isMoving: false
+          }
+        }));
+      },
+
+      moveTowardsTarget: () => {
+        const state = get();
+        const { movementPath, isMoving } = state.playerState;
+        
+        if (!isMoving || movementPath.length === 0) {
+          return false;
+        }
+        
+        // Get next position in path
+        const nextPosition = movementPath[0];
+        if (!nextPosition) {
+          return false; // No valid position to move to
+        }
+        
+        const remainingPath = movementPath.slice(1);
+        
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            player: {
+              ...state.playerState.player,
+              position: nextPosition
+            },
+            movementPath: remainingPath,
+            isMoving: remainingPath.length > 0,
+            movementTarget: remainingPath.length === 0 ? null : state.playerState.movementTarget
+          }
+        }));
+        
+        // Return true if movement is complete
+        return remainingPath.length === 0;
+      },
+
+      updatePlayerExp: (exp: number) => {
+        set((state) => {
+          const newExp = state.playerState.player.experience + exp;
+          const newLevel = Math.floor(newExp / 100) + 1;
+
+          return {
             playerState: {
               ...state.playerState,
               player: {
                 ...state.playerState.player,
-                position
-              },
-              isMoving: false,
-              movementTarget: null,
-              movementPath: []
-            }
-          }));
-        },
-
-        setMovementTarget: (target: Position) => {
-          const state = get();
-          const currentPos = state.playerState.player.position;
-          
-          // Don't set target if already at position
-          if (currentPos.x === target.x && currentPos.y === target.y) {
-            return;
-          }
-          
-          const path = findPath(currentPos, target);
-          
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              movementTarget: target,
-              movementPath: path,
-              isMoving: true
+                experience: newExp,
+                level: newLevel
+              }
             }
-          }));
-        },
+          };
+        });
+      },
 
-        clearMovementTarget: () => {
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              movementTarget: null,
-              movementPath: [],
-              isMoving: false
-            }
-          }));
-        },
-
-        moveTowardsTarget: () => {
-          const state = get();
-          const { movementPath, isMoving } = state.playerState;
-          
-          if (!isMoving || movementPath.length === 0) {
-            return false;
-          }
-          
-          // Get next position in path
-          const nextPosition = movementPath[0];
-          if (!nextPosition) {
-            return false; // No valid position to move to
-          }
-          
-          const remainingPath = movementPath.slice(1);
-          
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              player: {
-                ...state.playerState.player,
-                position: nextPosition
-              },
-              movementPath: remainingPath,
-              isMoving: remainingPath.length > 0,
-              movementTarget: remainingPath.length === 0 ? null : state.playerState.movementTarget
-            }
-          }));
-          
-          // Return true if movement is complete
-          return remainingPath.length === 0;
-        },
+      useEnergy: (amount: number) => {
+        let hadEnoughEnergy = false;
 
-        updatePlayerExp: (exp: number) => {
-          set((state) => {
-            const newExp = state.playerState.player.experience + exp;
-            const newLevel = Math.floor(newExp / 100) + 1;
+        set((state) => {
+          const currentEnergy = state.playerState.player.energy;
 
+          if (currentEnergy >= amount) {
+            hadEnoughEnergy = true;
             return {
               playerState: {
                 ...state.playerState,
                 player: {
                   ...state.playerState.player,
-                  experience: newExp,
-                  level: newLevel
+                  energy: Math.max(0, currentEnergy - amount)
                 }
               }
             };
-          });
-        },
-
-        useEnergy: (amount: number) => {
-          let hadEnoughEnergy = false;
-
-          set((state) => {
-            const currentEnergy = state.playerState.player.energy;
-
-            if (currentEnergy >= amount) {
-              hadEnoughEnergy = true;
-              return {
-                playerState: {
-                  ...state.playerState,
-                  player: {
-                    ...state.playerState.player,
-                    energy: Math.max(0, currentEnergy - amount)
-                  }
-                }
-              };
-            }
-
-            // Not enough energy, don't change state
-            return state;
-          });
+          }
 
-          return hadEnoughEnergy;
-        },
+          // Not enough energy, don't change state
+          return state;
+        });
 
-        restoreEnergy: (amount: number) => {
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              player: {
-                ...state.playerState.player,
-                energy: Math.min(state.playerState.player.maxEnergy, state.playerState.player.energy + amount)
-              }
-            }
-          }));
-        },
+        return hadEnoughEnergy;
+      },
 
-        setEnergy: (energy: number) => {
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              player: {
-                ...state.playerState.player,
-                energy: Math.max(0, Math.min(state.playerState.player.maxEnergy, energy))
-              }
+      restoreEnergy: (amount: number) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            player: {
+              ...state.playerState.player,
+              energy: Math.min(state.playerState.player.maxEnergy, state.playerState.player.energy + amount)
             }
-          }));
-        },
-
-        addToInventory: (item: any) => {
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              inventory: [...state.playerState.inventory, item]
-            }
-          }));
-        },
-
-        removeFromInventory: (itemId: string) => {
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              inventory: state.playerState.inventory.filter(item => item.id !== itemId)
-            }
-          }));
-        },
+          }
+        }));
+      },
 
-        addCompanion: (animal: any) => {
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              companions: [...state.playerState.companions, animal]
+      setEnergy: (energy: number) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            player: {
+              ...state.playerState.player,
+              energy: Math.max(0, Math.min(state.playerState.player.maxEnergy, energy))
             }
-          }));
-        },
-
-        discoverAnimal: (animalId: string) => {
-          set((state) => ({
-            playerState: {
-              ...state.playerState,
-              discoveredAnimals: [...new Set([...state.playerState.discoveredAnimals, animalId])]
+          }
+        }));
+      },
+
+      addToInventory: (item: any) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            inventory: [...state.playerState.inventory, item]
+          }
+        }));
+      },
+
+      removeFromInventory: (itemId: string, quantity: number = 1) => {
+        set((state) => {
+          // Take from the last matching stacks first, one copy at a time
+          let remaining = quantity;
+          const inventory = [...state.playerState.inventory];
+          for (let i = inventory.length - 1; i >= 0 && remaining > 0; i--) {
+            const item = inventory[i];
+            if (item.id !== itemId) continue;
+
+            const stack = typeof item.quantity === 'number' ? item.quantity : 1;
+            const taken = Math.min(stack, remaining);
+            remaining -= taken;
+            if (stack > taken) {
+              inventory[i] = { ...item, quantity: stack - taken };
+            } else {
+              inventory.splice(i, 1);
             }
-          }));
-        },
+          }
 
-        unlockAchievement: (achievementId: string) => {
-          set((state) => ({
+          return {
             playerState: {
               ...state.playerState,
-              achievements: [...new Set([...state.playerState.achievements, achievementId])]
+              inventory
             }
-          }));
-        },
-
-        // Animal Actions
-        addAnimal: (animal: Animal) => {
-          set((state) => ({
-            animalState: {
-              ...state.animalState,
-              animals: [...state.animalState.animals, animal],
-              spawnedCount: state.animalState.spawnedCount + 1
-            }
-          }));
-        },
+          };
+        });
+      },
+
+      addCompanion: (animal: any) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            companions: [...state.playerState.companions, animal]
+          }
+        }));
+      },
+
+      updateCompanion: (animalId: string, updates: Partial<Animal>) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            companions: state.playerState.companions.map(companion =>
+              companion.id === animalId ? { ...companion, ...updates } : companion
+            )
+          }
+        }));
+      },
+
+      discoverAnimal: (animalId: string) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            discoveredAnimals: [...new Set([...state.playerState.discoveredAnimals, animalId])]
+          }
+        }));
+      },
+
+      unlockAchievement: (achievementId: string) => {
+        set((state) => ({
+          playerState: {
+            ...state.playerState,
+            achievements: [...new Set([...state.playerState.achievements, achievementId])]
+          }
+        }));
+      },
+
+      // Animal Actions
+      addAnimal: (animal: Animal) => {
+        set((state) => ({
+          animalState: {
+            ...state.animalState,
+            animals: [...state.animalState.animals, animal],
+            spawnedCount: state.animalState.spawnedCount + 1
+          }
+        }));
+      },
 
-        removeAnimal: (animalId: string) => {
-          // Clean up AI turn counter to prevent memory leak
-          AnimalAI.clearAnimalTurnCounter(animalId);
+      removeAnimal: (animalId: string) => {
+        // Clean up AI turn counter to prevent memory leak
+        AnimalAI.clearAnimalTurnCounter(animalId);
 
-          set((state) => ({
-            animalState: {
-              ...state.animalState,
-              animals: state.animalState.animals.filter(animal => animal.id !== animalId)
-            }
-          }));
-        },
-
-        updateAnimal: (animalId: string, updates: Partial<Animal>) => {
-          set((state) => ({
-            animalState: {
-              ...state.animalState,
-              animals: state.animalState.animals.map(animal => 
-                animal.id === animalId ? { ...animal, ...updates } : animal
-              )
-            }
-          }));
-        },
-
-        clearAllAnimals: () => {
-          // Clean up all AI turn counters to prevent memory leak
-          AnimalAI.clearAllTurnCounters();
-
-          set((state) => ({
-            animalState: {
-              ...state.animalState,
-              animals: [],
-              spawnedCount: 0
-            }
-          }));
-        },
-
-        // UI Actions
-        openModal: (modalId: string) => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              activeModal: modalId
-            }
-          }));
-        },
-
-        closeModal: () => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              activeModal: null
-            }
-          }));
-        },
-
-        openMenu: (menuId: string) => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              activeMenu: menuId
-            }
-          }));
-        },
-
-        closeMenu: () => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              activeMenu: null
-            }
-          }));
-        },
-
-        toggleDebugInfo: () => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              showDebugInfo: !state.uiState.showDebugInfo
-            }
-          }));
-        },
-
-        toggleGrid: () => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              showGrid: !state.uiState.showGrid
-            }
-          }));
-        },
-
-        addNotification: (notification) => {
-          const newNotification: Notification = {
-            ...notification,
-            id: `notification_${Date.now()}_${Math.random()}`,
-            timestamp: Date.now()
-          };
-          
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              notifications: [...state.uiState.notifications, newNotification]
-            }
-          }));
-
-          // Auto-remove notification after duration
-          if (notification.duration) {
-            setTimeout(() => {
-              // Check if notification still exists before removing
-              const state = get();
-              const exists = state.uiState.notifications.some(n => n.id === newNotification.id);
-              if (exists) {
-                state.removeNotification(newNotification.id);
-              }
-            }, notification.duration);
+        set((state) => ({
+          animalState: {
+            ...state.animalState,
+            animals: state.animalState.animals.filter(animal => animal.id !== animalId)
+          }
+        }));
+      },
+
+      updateAnimal: (animalId: string, updates: Partial<Animal>) => {
+        set((state) => ({
+          animalState: {
+            ...state.animalState,
+            animals: state.animalState.animals.map(animal => 
+              animal.id === animalId ? { ...animal, ...updates } : animal
+            )
+          }
+        }));
+      },
+
+      clearAllAnimals: () => {
+        // Clean up all AI turn counters to prevent memory leak
+        AnimalAI.clearAllTurnCounters();
+
+        set((state) => ({
+          animalState: {
+            ...state.animalState,
+            animals: [],
+            spawnedCount: 0
+          }
+        }));
+      },
+
+      // UI Actions
+      openModal: (modalId: string) => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            activeModal: modalId
+          }
+        }));
+      },
+
+      closeModal: () => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            activeModal: null
+          }
+        }));
+      },
+
+      openMenu: (menuId: string) => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            activeMenu: menuId
+          }
+        }));
+      },
+
+      closeMenu: () => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            activeMenu: null
+          }
+        }));
+      },
+
+      toggleDebugInfo: () => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            showDebugInfo: !state.uiState.showDebugInfo
+          }
+        }));
+      },
+
+      toggleGrid: () => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            showGrid: !state.uiState.showGrid
+          }
+        }));
+      },
+
+      addNotification: (notification) => {
+        const newNotification: Notification = {
+          ...notification,
+          id: `notification_${Date.now()}_${Math.random()}`,
+          timestamp: Date.now()
+        };
+        
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            notifications: [...state.uiState.notifications, newNotification]
           }
-        },
+        }));
+
+        // Auto-remove notification after duration
+        if (notification.duration) {
+          setTimeout(() => {
+            // Check if notification still exists before removing
+            const state = get();
+            const exists = state.uiState.notifications.some(n => n.id === newNotification.id);
+            if (exists) {
+              state.removeNotification(newNotification.id);
+            }
+          }, notification.duration);
+        }
+      },
 
-        removeNotification: (notificationId: string) => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              notifications: state.uiState.notifications.filter(n => n.id !== notificationId)
-            }
-          }));
-        },
-
-        // Dialogue Actions
-        setDialogueState: (dialogueState: DialogueState) => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              dialogueState
-            }
-          }));
-        },
-
-        clearDialogue: () => {
-          set((state) => ({
-            uiState: {
-              ...state.uiState,
-              dialogueState: {
-                isActive: false,
-                currentAnimal: null,
-                currentTree: null,
-                currentOptions: [],
-                history: []
-              }
-            }
-          }));
-        },
-
-        // Settings Actions
-        updateSettings: (newSettings: Partial<Settings>) => {
-          set((state) => ({
-            settings: {
-              ...state.settings,
-              ...newSettings
-            }
-          }));
-        },
-
-        resetSettings: () => {
-          set(() => ({
-            settings: defaultSettings
-          }));
-        },
-
-        // Persistence Actions
-        saveGame: () => {
-          set((state) => ({
-            gameState: {
-              ...state.gameState,
-              lastSaved: Date.now()
+      removeNotification: (notificationId: string) => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            notifications: state.uiState.notifications.filter(n => n.id !== notificationId)
+          }
+        }));
+      },
+
+      // Dialogue Actions
+      setDialogueState: (dialogueState: DialogueState) => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            dialogueState
+          }
+        }));
+      },
+
+      clearDialogue: () => {
+        set((state) => ({
+          uiState: {
+            ...state.uiState,
+            dialogueState: {
+              isActive: false,
+              currentAnimal: null,
+              currentTree: null,
+              currentOptions: [],
+              history: []
             }
-          }));
-        },
-
-        loadGame: () => {
-          // This will be handled by the persist middleware
-          console.log('Game loaded from storage');
-        },
-
-        resetGame: () => {
-          set(() => ({
-            gameState: defaultGameState,
-            playerState: defaultPlayerState,
-            animalState: defaultAnimalState,
-            uiState: { ...defaultUIState, showDebugInfo: true, showGrid: true }
-          }));
-        }
-      }),
-      {
-        name: STORAGE_KEYS.GAME_SAVE,
-        storage: createJSONStorage(() => localStorage),
-        partialize: (state) => ({
-          gameState: state.gameState,
-          playerState: state.playerState,
-          animalState: state.animalState,
-          settings: state.settings
-        })
+          }
+        }));
+      },
+
+      // Settings Actions
+      updateSettings: (newSettings: Partial<Settings>) => {
+        set((state) => ({
+          settings: {
+            ...state.settings,
+            ...newSettings
+          }
+        }));
+      },
+
+      resetSettings: () => {
+        set(() => ({
+          settings: defaultSettings
+        }));
+      },
+
+      // Persistence Actions
+      saveGame: () => {
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            lastSaved: Date.now()
+          }
+        }));
+      },
+
+      loadGame: (save: ComprehensiveGameSave) => {
+        const companionIds = new Set(save.animals.companionBonds.map(bond => bond.animalId));
+
+        set((state) => ({
+          gameState: {
+            ...state.gameState,
+            currentMap: save.world.currentMap,
+            lastSaved: save.meta.lastSaved
+          },
+          playerState: {
+            ...defaultPlayerState,
+            player: {
+              id: save.player.id,
+              position: save.player.position,
+              name: save.player.name,
+              level: save.player.level,
+              experience: save.player.experience,
+              energy: save.player.energy,
+              maxEnergy: save.player.maxEnergy
+            },
+            inventory: save.inventory.items,
+            companions: save.animals.activeAnimals.filter(animal => companionIds.has(animal.id)),
+            discoveredAnimals: save.animals.discoveredAnimals.map(animal => animal.id),
+            achievements: save.progress.achievements.filter(a => a.unlocked).map(a => a.id)
+          },
+          animalState: defaultAnimalState
+        }));
+      },
+
+      resetGame: () => {
+        set(() => ({
+          gameState: defaultGameState,
+          playerState: defaultPlayerState,
+          animalState: defaultAnimalState,
+          uiState: { ...defaultUIState, showDebugInfo: true, showGrid: true }
+        }));
       }
-    )
+    })
   )
 );
 
+// The player's experience follows the progression system on the event bus
+gameEvents.on('player.experience', ({ payload }) => {
+  useGameStore.getState().updatePlayerExp(payload.xpGained);
+});
+
 // Convenient selectors
 export const useGameState = () => useGameStore((state) => state.gameState);
 export const usePlayerState = () => useGameStore((state) => state.playerState);
@@ -0,0 +1,46 @@
+// Test Setup
+// Browser globals the game systems expect, backed by in-memory fakes under Node
+
+import { afterEach } from 'vitest';
+
+class MemoryStorage implements Storage {
+  private items: Map<string, string> = new Map();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+const globals = globalThis as Record<string, unknown>;
+
+globals.localStorage = new MemoryStorage();
+globals.window ??= globalThis;
+globals.addEventListener ??= () => {};
+globals.removeEventListener ??= () => {};
+if (!('navigator' in globalThis)) {
+  globals.navigator = { userAgent: 'node', onLine: true };
+}
+
+afterEach(() => {
+  localStorage.clear();
+});